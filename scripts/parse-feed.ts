@@ -0,0 +1,60 @@
+/**
+ * Feed parser check — parses an RSS/Atom feed the way fetch-feeds does
+ *
+ * Runs the shared parser and relevance scoring (supabase/functions/_shared/feeds.ts)
+ * against a local fixture or a live URL and prints what would be stored.
+ *
+ * Usage: npm run parse-feed -- <file-or-url> [profile.json]
+ *
+ *   npm run parse-feed -- scripts/fixtures/feeds/govtech-news.rss.xml scripts/fixtures/feeds/profile.json
+ *
+ * profile.json holds the brand profile fields used for scoring:
+ *   { "services": ["Cloud migration", ...], "who_we_serve": "..." }
+ */
+
+import { readFileSync } from 'node:fs'
+import {
+    RELEVANT_SCORE,
+    buildRelevanceProfile,
+    parseFeed,
+    scoreFeedItem,
+    suggestFeedCategory,
+} from '../supabase/functions/_shared/feeds.ts'
+
+async function readSource(source: string): Promise<string> {
+    if (/^https?:\/\//.test(source)) {
+        const response = await fetch(source)
+        if (!response.ok) throw new Error(`${source} returned ${response.status}`)
+        return response.text()
+    }
+    return readFileSync(source, 'utf8')
+}
+
+async function main() {
+    const [source, profilePath] = process.argv.slice(2)
+    if (!source) {
+        console.error('Usage: npm run parse-feed -- <file-or-url> [profile.json]')
+        process.exit(1)
+    }
+
+    const feed = parseFeed(await readSource(source), /^https?:\/\//.test(source) ? source : null)
+    const profile = buildRelevanceProfile(profilePath ? JSON.parse(readFileSync(profilePath, 'utf8')) : null)
+
+    console.log(`${feed.title || '(untitled feed)'} [${feed.format}] ${feed.site_url || ''}`)
+    console.log(`${feed.items.length} items\n`)
+
+    for (const item of feed.items) {
+        const relevance = scoreFeedItem(item, profile)
+        const marker = relevance.score >= RELEVANT_SCORE ? '*' : ' '
+        console.log(`${marker} ${relevance.score.toFixed(3)}  ${item.title}`)
+        console.log(`         ${item.published_at || 'no date'} · ${item.link || 'no link'} · ${suggestFeedCategory(item)}`)
+        if (relevance.matched_terms.length > 0) console.log(`         matched: ${relevance.matched_terms.join(', ')}`)
+        if (item.summary) console.log(`         ${item.summary.slice(0, 140)}`)
+        console.log('')
+    }
+}
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error)
+    process.exit(1)
+})
@@ -8,9 +8,15 @@ import { Dashboard, Login, Posts, PromptStudio, BrandSettings, BrandStudio, Camp
 import { CampaignSettings } from '@/pages/CampaignSettings'
 import { HubSpotSettings } from '@/pages/HubSpotSettings'
 import { AISettings } from '@/pages/AISettings'
+import { AIUsage } from '@/pages/AIUsage'
+import { HouseStyle } from '@/pages/HouseStyle'
 import { ContentStudio } from '@/pages/ContentStudio'
 import { ImageStudio } from '@/pages/ImageStudio'
 import { SocialCalendar } from '@/pages/SocialCalendar'
+import { Ideas } from '@/pages/Ideas'
+import { Feeds } from '@/pages/Feeds'
+import { TrainingExamples } from '@/pages/TrainingExamples'
+import { Series } from '@/pages/Series'
 import {
   BuyICTDashboard,
   Opportunities as BuyICTOpportunities,
@@ -164,11 +170,17 @@ export default function App() {
         <Route path="/campaigns" element={<ProtectedRoute><Campaigns /></ProtectedRoute>} />
         <Route path="/campaign/:id" element={<ProtectedRoute><CampaignSettings /></ProtectedRoute>} />
         <Route path="/posts" element={<ProtectedRoute><Posts /></ProtectedRoute>} />
+        <Route path="/series" element={<ProtectedRoute><Series /></ProtectedRoute>} />
+        <Route path="/ideas" element={<ProtectedRoute><Ideas /></ProtectedRoute>} />
+        <Route path="/feeds" element={<ProtectedRoute><Feeds /></ProtectedRoute>} />
         <Route path="/prompts" element={<ProtectedRoute><PromptStudio /></ProtectedRoute>} />
         <Route path="/brand-studio" element={<ProtectedRoute><BrandStudio /></ProtectedRoute>} />
+        <Route path="/brand-studio/examples" element={<ProtectedRoute><TrainingExamples /></ProtectedRoute>} />
         <Route path="/brand" element={<ProtectedRoute><BrandSettings /></ProtectedRoute>} />
         <Route path="/hubspot" element={<ProtectedRoute><HubSpotSettings /></ProtectedRoute>} />
         <Route path="/ai-settings" element={<ProtectedRoute><AISettings /></ProtectedRoute>} />
+        <Route path="/ai-usage" element={<ProtectedRoute><AIUsage /></ProtectedRoute>} />
+        <Route path="/house-style" element={<ProtectedRoute><HouseStyle /></ProtectedRoute>} />
         <Route path="/content-studio" element={<ProtectedRoute><ContentStudio /></ProtectedRoute>} />
         <Route path="/image-studio" element={<ProtectedRoute><ImageStudio /></ProtectedRoute>} />
         <Route path="/calendar" element={<ProtectedRoute><SocialCalendar /></ProtectedRoute>} />
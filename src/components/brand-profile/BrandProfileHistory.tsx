@@ -0,0 +1,208 @@
+import { useEffect, useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight, History, Loader2, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui'
+import { supabase } from '@/lib/supabase'
+import {
+    PROFILE_VERSION_SOURCE_LABELS,
+    buildProfileVersion,
+    diffProfiles,
+    profileSnapshot,
+    profilesEqual,
+    type BrandProfileVersion,
+    type ProfileSnapshot,
+} from '@/lib/brand-profile-versions'
+import { useAuthStore } from '@/stores/authStore'
+import { ProfileFieldDiff } from './ProfileFieldDiff'
+
+interface BrandProfileHistoryProps {
+    spaceId: string
+    /** The saved profile */
+    current: ProfileSnapshot
+    /** Changed by the parent after it records a version, to reload the list */
+    refreshKey?: number
+    /** Called with the restored profile */
+    onRestored: (profile: ProfileSnapshot) => void
+}
+
+// Compare against the profile as it is now, even if it predates version history
+const CURRENT = 'current'
+
+// Collapsible profile version history with a field-by-field diff and rollback
+export function BrandProfileHistory({ spaceId, current, refreshKey = 0, onRestored }: BrandProfileHistoryProps) {
+    const { user } = useAuthStore()
+    const [isOpen, setIsOpen] = useState(false)
+    const [versions, setVersions] = useState<BrandProfileVersion[]>([])
+    const [isLoading, setIsLoading] = useState(false)
+    const [fromId, setFromId] = useState('')
+    const [toId, setToId] = useState(CURRENT)
+    const [restoringId, setRestoringId] = useState<string | null>(null)
+
+    useEffect(() => {
+        if (!isOpen) return
+
+        setIsLoading(true)
+        supabase
+            .from('brand_profile_versions')
+            .select('*')
+            .eq('space_id', spaceId)
+            .order('created_at', { ascending: false })
+            .then(({ data }) => {
+                const loaded: BrandProfileVersion[] = (data || []).map((v: BrandProfileVersion) => ({ ...v, profile: profileSnapshot(v.profile) }))
+                setVersions(loaded)
+                // Default to the latest change: the version before the newest one
+                setFromId(loaded[1]?.id || loaded[0]?.id || CURRENT)
+                setToId(loaded[0]?.id || CURRENT)
+                setIsLoading(false)
+            })
+    }, [isOpen, spaceId, refreshKey])
+
+    const profileOf = (id: string) =>
+        id === CURRENT ? current : versions.find(v => v.id === id)?.profile || current
+
+    const from = profileOf(fromId)
+    const to = profileOf(toId)
+    const changes = useMemo(() => diffProfiles(from, to).filter(field => field.changed), [from, to])
+
+    const handleRestore = async (version: BrandProfileVersion) => {
+        if (!confirm('Restore this version? The current profile is kept in the history.')) return
+
+        setRestoringId(version.id)
+        try {
+            const { error } = await supabase
+                .from('brand_profile')
+                .update({
+                    ...version.profile,
+                    is_system_generated: false,
+                    last_edited_at: new Date().toISOString(),
+                    updated_at: new Date().toISOString(),
+                })
+                .eq('space_id', spaceId)
+            if (error) throw error
+
+            const { data: restored, error: versionError } = await supabase
+                .from('brand_profile_versions')
+                .insert(buildProfileVersion({
+                    spaceId,
+                    profile: version.profile,
+                    source: 'restore',
+                    authorId: user?.id,
+                    authorEmail: user?.email,
+                }))
+                .select('*')
+                .single()
+            if (versionError) console.error('Error recording profile version:', versionError)
+
+            if (restored) {
+                setVersions(prev => [{ ...restored, profile: profileSnapshot(restored.profile) }, ...prev])
+                setFromId(versions[0]?.id || CURRENT)
+                setToId(restored.id)
+            }
+            onRestored(version.profile)
+        } catch (error) {
+            console.error('Error restoring profile version:', error)
+            alert(error instanceof Error ? error.message : 'Failed to restore version')
+        } finally {
+            setRestoringId(null)
+        }
+    }
+
+    const versionLabel = (version: BrandProfileVersion) =>
+        `${new Date(version.created_at).toLocaleString()} · ${PROFILE_VERSION_SOURCE_LABELS[version.source]}`
+
+    return (
+        <div className="bg-white rounded-xl border border-[var(--color-gray-200)]">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between p-6 text-left"
+            >
+                <span className="flex items-center gap-2 font-semibold text-[var(--color-gray-900)]">
+                    <History className="w-4 h-4 text-[var(--color-gray-500)]" />
+                    Version History
+                    {isOpen && !isLoading && (
+                        <span className="text-xs font-normal text-[var(--color-gray-500)]">
+                            {versions.length} version{versions.length === 1 ? '' : 's'}
+                        </span>
+                    )}
+                </span>
+                {isOpen ? <ChevronDown className="w-4 h-4 text-[var(--color-gray-400)]" /> : <ChevronRight className="w-4 h-4 text-[var(--color-gray-400)]" />}
+            </button>
+
+            {isOpen && (
+                <div className="px-6 pb-6 space-y-4">
+                    {isLoading ? (
+                        <div className="flex justify-center py-4">
+                            <Loader2 className="w-5 h-5 animate-spin text-[var(--color-gray-400)]" />
+                        </div>
+                    ) : versions.length === 0 ? (
+                        <p className="text-sm text-[var(--color-gray-500)]">
+                            No versions recorded yet. Generations and saved edits will appear here.
+                        </p>
+                    ) : (
+                        <>
+                            <ul className="space-y-1 max-h-48 overflow-y-auto">
+                                {versions.map((version, i) => (
+                                    <li key={version.id} className="flex items-center justify-between gap-3 text-sm px-3 py-2 rounded-lg hover:bg-[var(--color-gray-50)]">
+                                        <div className="min-w-0">
+                                            <div className="text-[var(--color-gray-800)]">
+                                                {PROFILE_VERSION_SOURCE_LABELS[version.source]}
+                                                {i === 0 && <span className="ml-2 text-xs text-[var(--color-gray-400)]">latest</span>}
+                                            </div>
+                                            <div className="text-xs text-[var(--color-gray-500)] truncate">
+                                                {new Date(version.created_at).toLocaleString()}
+                                                {version.author_email && ` · ${version.author_email}`}
+                                            </div>
+                                        </div>
+                                        {!profilesEqual(version.profile, current) && (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() => handleRestore(version)}
+                                                disabled={restoringId !== null}
+                                            >
+                                                {restoringId === version.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                                                Restore
+                                            </Button>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+
+                            <div className="space-y-3">
+                                <div className="flex items-center gap-2 text-xs">
+                                    <span className="text-[var(--color-gray-500)]">Compare</span>
+                                    <select
+                                        value={fromId}
+                                        onChange={(e) => setFromId(e.target.value)}
+                                        className="flex-1 min-w-0 border border-[var(--color-gray-300)] rounded-lg px-2 py-1"
+                                    >
+                                        {versions.map(v => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+                                        <option value={CURRENT}>Current profile</option>
+                                    </select>
+                                    <span className="text-[var(--color-gray-500)]">to</span>
+                                    <select
+                                        value={toId}
+                                        onChange={(e) => setToId(e.target.value)}
+                                        className="flex-1 min-w-0 border border-[var(--color-gray-300)] rounded-lg px-2 py-1"
+                                    >
+                                        {versions.map(v => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+                                        <option value={CURRENT}>Current profile</option>
+                                    </select>
+                                </div>
+                                {changes.length === 0 ? (
+                                    <p className="text-xs text-[var(--color-gray-500)]">No changes</p>
+                                ) : (
+                                    changes.map(field => (
+                                        <div key={field.key}>
+                                            <p className="text-xs font-medium text-[var(--color-gray-600)] mb-1">{field.label}</p>
+                                            <ProfileFieldDiff field={field} />
+                                        </div>
+                                    ))
+                                )}
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
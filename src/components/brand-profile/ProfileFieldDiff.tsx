@@ -0,0 +1,37 @@
+import { DiffView } from '@/components/posts/PostRevisions'
+import { diffText } from '@/lib/text-diff'
+import type { ProfileFieldDiff as FieldDiff } from '@/lib/brand-profile-versions'
+
+// One field of a profile comparison: a word diff for text, added and removed items for lists
+export function ProfileFieldDiff({ field, hideRemoved = false }: { field: FieldDiff; hideRemoved?: boolean }) {
+    if (field.kind === 'list') {
+        // Merges only add items, so every current item is shown as kept
+        const unchanged = hideRemoved
+            ? (field.before || []) as string[]
+            : ((field.after || []) as string[]).filter(item => !field.added.includes(item))
+        const removed = hideRemoved ? [] : field.removed
+        return (
+            <div className="flex flex-wrap gap-1.5 text-xs">
+                {unchanged.map(item => (
+                    <span key={`same-${item}`} className="px-2 py-0.5 rounded bg-[var(--color-gray-100)] text-[var(--color-gray-700)]">{item}</span>
+                ))}
+                {field.added.map(item => (
+                    <ins key={`added-${item}`} className="px-2 py-0.5 rounded bg-green-100 text-green-900 no-underline">+ {item}</ins>
+                ))}
+                {removed.map(item => (
+                    <del key={`removed-${item}`} className="px-2 py-0.5 rounded bg-red-100 text-red-800">{item}</del>
+                ))}
+                {unchanged.length === 0 && field.added.length === 0 && removed.length === 0 && (
+                    <span className="text-[var(--color-gray-400)]">None</span>
+                )}
+            </div>
+        )
+    }
+
+    return (
+        <DiffView
+            parts={diffText((field.before as string | null) || '', (field.after as string | null) || '')}
+            className="bg-[var(--color-gray-50)] rounded-lg p-3 text-sm text-[var(--color-gray-700)] max-h-48 overflow-y-auto"
+        />
+    )
+}
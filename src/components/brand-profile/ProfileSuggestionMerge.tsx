@@ -0,0 +1,141 @@
+import { useMemo, useState } from 'react'
+import { Sparkles } from 'lucide-react'
+import { Button } from '@/components/ui'
+import { supabase } from '@/lib/supabase'
+import {
+    buildProfileVersion,
+    diffProfiles,
+    mergeProfile,
+    type ProfileField,
+    type ProfileSnapshot,
+} from '@/lib/brand-profile-versions'
+import { useAuthStore } from '@/stores/authStore'
+import { ProfileFieldDiff } from './ProfileFieldDiff'
+
+export interface ProfileSuggestion {
+    version_id: string
+    profile: ProfileSnapshot
+}
+
+interface ProfileSuggestionMergeProps {
+    spaceId: string
+    /** The profile as currently edited */
+    current: ProfileSnapshot
+    suggestion: ProfileSuggestion
+    /** Called with the saved profile once the chosen fields are merged */
+    onMerged: (merged: ProfileSnapshot) => void
+    onDismissed: () => void
+}
+
+// A regenerated profile offered against a hand-edited one: pick the fields to take
+export function ProfileSuggestionMerge({ spaceId, current, suggestion, onMerged, onDismissed }: ProfileSuggestionMergeProps) {
+    const { user } = useAuthStore()
+    const changes = useMemo(
+        // Lists only gain items in a merge, so a list counts when the suggestion adds to it
+        () => diffProfiles(current, suggestion.profile).filter(field => field.kind === 'list' ? field.added.length > 0 : field.changed),
+        [current, suggestion.profile]
+    )
+    const [selected, setSelected] = useState<Set<ProfileField>>(new Set())
+    const [isSaving, setIsSaving] = useState(false)
+
+    const toggle = (key: ProfileField) => {
+        setSelected(prev => {
+            const next = new Set(prev)
+            if (next.has(key)) next.delete(key)
+            else next.add(key)
+            return next
+        })
+    }
+
+    const handleMerge = async () => {
+        if (selected.size === 0) return
+
+        setIsSaving(true)
+        try {
+            const merged = mergeProfile(current, suggestion.profile, [...selected])
+
+            const { error } = await supabase
+                .from('brand_profile')
+                .update({
+                    ...merged,
+                    is_system_generated: false,
+                    pending_suggestion_id: null,
+                    last_edited_at: new Date().toISOString(),
+                    updated_at: new Date().toISOString(),
+                })
+                .eq('space_id', spaceId)
+            if (error) throw error
+
+            const { error: versionError } = await supabase
+                .from('brand_profile_versions')
+                .insert(buildProfileVersion({
+                    spaceId,
+                    profile: merged,
+                    source: 'ai_merge',
+                    authorId: user?.id,
+                    authorEmail: user?.email,
+                }))
+            if (versionError) console.error('Error recording profile version:', versionError)
+
+            onMerged(merged)
+        } catch (error) {
+            console.error('Error merging profile suggestions:', error)
+            alert(error instanceof Error ? error.message : 'Failed to merge suggestions')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const handleDismiss = async () => {
+        const { error } = await supabase
+            .from('brand_profile')
+            .update({ pending_suggestion_id: null })
+            .eq('space_id', spaceId)
+        if (error) console.error('Error dismissing profile suggestion:', error)
+        onDismissed()
+    }
+
+    return (
+        <div className="bg-purple-50/50 rounded-xl border border-purple-200 p-6 mb-6">
+            <div className="flex items-center gap-2 mb-1">
+                <Sparkles className="w-4 h-4 text-purple-600" />
+                <h2 className="font-semibold text-[var(--color-gray-900)]">New AI Suggestions</h2>
+            </div>
+            <p className="text-sm text-[var(--color-gray-500)] mb-4">
+                {changes.length === 0
+                    ? 'The regenerated profile matches yours.'
+                    : 'Your profile has been edited, so the regenerated profile was not applied. Choose the fields to take from it; list items are added to yours.'}
+            </p>
+
+            {changes.length > 0 && (
+                <div className="space-y-4 mb-4">
+                    {changes.map(field => (
+                        <label key={field.key} className="block cursor-pointer">
+                            <div className="flex items-center gap-2 mb-2">
+                                <input
+                                    type="checkbox"
+                                    checked={selected.has(field.key)}
+                                    onChange={() => toggle(field.key)}
+                                    className="w-4 h-4 rounded border-[var(--color-gray-300)]"
+                                />
+                                <span className="text-sm font-medium text-[var(--color-gray-800)]">{field.label}</span>
+                            </div>
+                            <ProfileFieldDiff field={field} hideRemoved />
+                        </label>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={handleDismiss} disabled={isSaving}>
+                    {changes.length === 0 ? 'Close' : 'Keep Mine'}
+                </Button>
+                {changes.length > 0 && (
+                    <Button variant="primary" size="sm" onClick={handleMerge} disabled={selected.size === 0} isLoading={isSaving}>
+                        Merge Selected
+                    </Button>
+                )}
+            </div>
+        </div>
+    )
+}
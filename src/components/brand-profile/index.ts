@@ -0,0 +1,3 @@
+export { BrandProfileHistory } from './BrandProfileHistory'
+export { ProfileFieldDiff } from './ProfileFieldDiff'
+export { ProfileSuggestionMerge, type ProfileSuggestion } from './ProfileSuggestionMerge'
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react'
+import { BookmarkPlus, Copy, Loader2 } from 'lucide-react'
+import { Button, Input, Modal, Textarea } from '@/components/ui'
+import { createCampaignFrom, fetchCampaignIdeas, nextCampaignName, saveCampaignTemplate, type TemplateIdea } from '@/lib/campaign-templates'
+import type { Database } from '@/types/database'
+
+type Campaign = Database['public']['Tables']['campaigns']['Row']
+
+interface CampaignCopyModalProps {
+    campaign: Campaign
+    /** 'duplicate' creates a new draft campaign; 'template' saves the settings as a template */
+    mode: 'duplicate' | 'template'
+    userId: string
+    onClose: () => void
+    /** Called with the id of the new campaign or template */
+    onCopied: (id: string) => void
+}
+
+// Copies a campaign's settings into a new campaign or a reusable template
+export function CampaignCopyModal({ campaign, mode, userId, onClose, onCopied }: CampaignCopyModalProps) {
+    const isTemplate = mode === 'template'
+    const [ideas, setIdeas] = useState<TemplateIdea[]>([])
+    const ideaCount = ideas.length
+    const [name, setName] = useState(isTemplate ? campaign.name : nextCampaignName(campaign.name))
+    const [description, setDescription] = useState('')
+    const [includeIdeas, setIncludeIdeas] = useState(!isTemplate)
+    const [isSaving, setIsSaving] = useState(false)
+
+    useEffect(() => {
+        fetchCampaignIdeas(campaign.id)
+            .then(setIdeas)
+            .catch(error => console.error('Error fetching campaign ideas:', error))
+    }, [campaign.id])
+
+    const handleSubmit = async () => {
+        if (!name.trim()) return
+
+        setIsSaving(true)
+        try {
+            const carried = includeIdeas ? ideas : []
+            const created = isTemplate
+                ? await saveCampaignTemplate(campaign, { name: name.trim(), description: description.trim(), ideas: carried, userId })
+                : await createCampaignFrom(campaign, { spaceId: campaign.space_id, name: name.trim(), ideas: carried, userId })
+            onCopied(created.id)
+        } catch (error) {
+            console.error(isTemplate ? 'Error saving campaign template:' : 'Error duplicating campaign:', error)
+            alert(error instanceof Error ? error.message : isTemplate ? 'Failed to save template' : 'Failed to duplicate campaign')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <Modal
+            isOpen
+            onClose={onClose}
+            title={isTemplate ? 'Save as Template' : 'Duplicate Campaign'}
+            footer={
+                <>
+                    <Button variant="secondary" onClick={onClose}>Cancel</Button>
+                    <Button onClick={handleSubmit} disabled={!name.trim() || isSaving}>
+                        {isSaving
+                            ? <Loader2 className="w-4 h-4 animate-spin" />
+                            : isTemplate ? <BookmarkPlus className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                        {isTemplate ? 'Save template' : 'Duplicate'}
+                    </Button>
+                </>
+            }
+        >
+            <div className="space-y-4">
+                <p className="text-sm text-[var(--color-gray-500)]">
+                    {isTemplate
+                        ? 'New campaigns can start from this template with the same tone, example post, content mix, templates and sources.'
+                        : 'The new draft campaign gets the same settings, templates and sources. Posts are not copied.'}
+                </p>
+                <Input
+                    label={isTemplate ? 'Template name' : 'Campaign name'}
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                    autoFocus
+                />
+                {isTemplate && (
+                    <Textarea
+                        label="Description"
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        placeholder="e.g. Monthly thought-leadership campaign for Acme"
+                        rows={2}
+                    />
+                )}
+                <label className={`flex items-center gap-2 text-sm ${ideaCount > 0 ? 'text-[var(--color-gray-700)]' : 'text-[var(--color-gray-400)]'}`}>
+                    <input
+                        type="checkbox"
+                        checked={includeIdeas && ideaCount > 0}
+                        onChange={(e) => setIncludeIdeas(e.target.checked)}
+                        disabled={ideaCount === 0}
+                        className="w-4 h-4 rounded border-[var(--color-gray-300)]"
+                    />
+                    {ideaCount > 0 ? `Carry over the idea list (${ideaCount} ideas)` : 'No ideas to carry over'}
+                </label>
+            </div>
+        </Modal>
+    )
+}
@@ -0,0 +1,61 @@
+import { Check, LayoutTemplate, Trash2 } from 'lucide-react'
+import { countIdeas, type CampaignTemplate } from '@/lib/campaign-templates'
+
+interface CampaignTemplateGalleryProps {
+    templates: CampaignTemplate[]
+    /** null for a blank campaign */
+    selectedId: string | null
+    onSelect: (id: string | null) => void
+    onDelete: (template: CampaignTemplate) => void
+}
+
+// Saved campaign templates to start a new campaign from, shown in the create hero
+export function CampaignTemplateGallery({ templates, selectedId, onSelect, onDelete }: CampaignTemplateGalleryProps) {
+    const cardClass = (isSelected: boolean) => `
+        relative text-left rounded-xl p-3 border transition-colors
+        ${isSelected ? 'bg-white/25 border-white' : 'bg-white/10 border-white/20 hover:bg-white/15'}
+    `
+
+    return (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+            <button onClick={() => onSelect(null)} className={cardClass(selectedId === null)}>
+                <p className="font-medium text-sm">Blank campaign</p>
+                <p className="text-xs text-white/70">Default settings</p>
+            </button>
+            {templates.map(template => {
+                const isSelected = selectedId === template.id
+                const ideaCount = countIdeas(template.generation_settings)
+
+                return (
+                    <div
+                        key={template.id}
+                        role="button"
+                        tabIndex={0}
+                        onClick={() => onSelect(template.id)}
+                        onKeyDown={(e) => e.key === 'Enter' && onSelect(template.id)}
+                        className={`${cardClass(isSelected)} cursor-pointer group`}
+                    >
+                        <div className="flex items-center gap-1.5 pr-5">
+                            {isSelected ? <Check className="w-3.5 h-3.5 flex-shrink-0" /> : <LayoutTemplate className="w-3.5 h-3.5 flex-shrink-0 text-white/70" />}
+                            <p className="font-medium text-sm truncate">{template.name}</p>
+                        </div>
+                        <p className="text-xs text-white/70 truncate">
+                            {template.description || `${template.target_count} posts`}
+                            {ideaCount > 0 && ` · ${ideaCount} ideas`}
+                        </p>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation()
+                                onDelete(template)
+                            }}
+                            className="absolute top-2 right-2 p-0.5 rounded text-white/60 hover:text-white opacity-0 group-hover:opacity-100"
+                            title="Delete template"
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
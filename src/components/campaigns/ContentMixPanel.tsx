@@ -0,0 +1,182 @@
+import { useState } from 'react'
+import { AlertTriangle, ChevronDown, ChevronRight, PieChart } from 'lucide-react'
+import { getLayerColor } from '@/lib/content-layers'
+import {
+    CONTENT_CATEGORIES,
+    CONTENT_LAYERS,
+    compareContentMix,
+    hasContentMix,
+    validateContentMix,
+    type ContentCategory,
+    type ContentLayer,
+    type ContentMix,
+    type ContentSlot,
+} from '@/lib/content-mix'
+
+interface ContentMixPanelProps {
+    mix: ContentMix
+    onChange: (mix: ContentMix) => void
+    /** Slots of the campaign's posts (null when untagged) */
+    postSlots: (ContentSlot | null)[]
+    /** Slots of the ideas waiting to become posts */
+    ideaSlots: (ContentSlot | null)[]
+}
+
+const parsePercent = (value: string) => {
+    const n = parseInt(value)
+    return isNaN(n) ? 0 : Math.min(100, Math.max(0, n))
+}
+
+// Target share of posts per layer/category, with the campaign's actual mix beside it
+export function ContentMixPanel({ mix, onChange, postSlots, ideaSlots }: ContentMixPanelProps) {
+    const [expandedLayers, setExpandedLayers] = useState<Set<ContentLayer>>(
+        () => new Set(CONTENT_CATEGORIES.filter(c => mix.categories[c.value]).map(c => c.layer))
+    )
+
+    const comparison = compareContentMix(mix, postSlots)
+    const ideaComparison = compareContentMix(mix, ideaSlots)
+    const issues = validateContentMix(mix)
+    const isPlanned = hasContentMix(mix)
+
+    const setLayer = (layer: ContentLayer, value: string) =>
+        onChange({ ...mix, layers: { ...mix.layers, [layer]: parsePercent(value) } })
+
+    const setCategory = (category: ContentCategory, value: string) =>
+        onChange({ ...mix, categories: { ...mix.categories, [category]: parsePercent(value) } })
+
+    const toggleLayer = (layer: ContentLayer) => {
+        const next = new Set(expandedLayers)
+        if (next.has(layer)) {
+            next.delete(layer)
+        } else {
+            next.add(layer)
+        }
+        setExpandedLayers(next)
+    }
+
+    const renderRow = (layer: ContentLayer, category: ContentCategory | null) => {
+        const row = comparison.rows.find(r => r.layer === layer && r.category === category)
+        const ideaRow = ideaComparison.rows.find(r => r.layer === layer && r.category === category)
+        if (!row) return null
+        const color = getLayerColor(layer)
+
+        return (
+            <div className="flex-1 min-w-0 space-y-1">
+                <div className="relative h-2 rounded-full bg-[var(--color-gray-100)] overflow-hidden">
+                    <div className={`absolute inset-y-0 left-0 ${color.dot}`} style={{ width: `${row.actual_percent}%` }} />
+                    {isPlanned && (
+                        <div
+                            className="absolute inset-y-0 w-0.5 bg-[var(--color-gray-900)]"
+                            style={{ left: `calc(${row.planned_percent}% - 1px)` }}
+                            title={`${row.planned_percent}% planned`}
+                        />
+                    )}
+                </div>
+                <div className="flex justify-between text-xs text-[var(--color-gray-500)]">
+                    <span className={row.warning ? 'text-amber-700 font-medium' : ''}>
+                        {row.actual_percent}% of posts ({row.actual_count})
+                        {isPlanned && ` · ${row.planned_percent}% planned`}
+                    </span>
+                    {ideaComparison.total > 0 && ideaRow && <span>{ideaRow.actual_percent}% of ideas</span>}
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <div className="bg-white rounded-xl border border-[var(--color-gray-200)] p-6">
+            <div className="flex items-center gap-3 mb-4">
+                <div className="w-10 h-10 bg-teal-100 rounded-lg flex items-center justify-center">
+                    <PieChart className="w-5 h-5 text-teal-600" />
+                </div>
+                <div>
+                    <h3 className="font-semibold text-[var(--color-gray-900)]">Content Mix</h3>
+                    <p className="text-sm text-[var(--color-gray-500)]">
+                        Target share of posts per layer. Ideas and posts are planned against it; leave blank to let the AI choose.
+                    </p>
+                </div>
+            </div>
+
+            <div className="space-y-3">
+                {CONTENT_LAYERS.map(layer => {
+                    const color = getLayerColor(layer.value)
+                    const categories = CONTENT_CATEGORIES.filter(c => c.layer === layer.value)
+                    const isExpanded = expandedLayers.has(layer.value)
+
+                    return (
+                        <div key={layer.value} className={`rounded-lg border ${color.border} p-3`}>
+                            <div className="flex items-center gap-3">
+                                <button
+                                    onClick={() => toggleLayer(layer.value)}
+                                    className="flex items-center gap-2 w-44 text-left"
+                                    title={isExpanded ? 'Hide categories' : 'Set category targets'}
+                                >
+                                    {isExpanded
+                                        ? <ChevronDown className="w-4 h-4 text-[var(--color-gray-400)]" />
+                                        : <ChevronRight className="w-4 h-4 text-[var(--color-gray-400)]" />}
+                                    <span className={`w-2 h-2 rounded-full ${color.dot}`} />
+                                    <span className={`text-sm font-medium ${color.text}`}>{layer.label}</span>
+                                </button>
+                                <div className="flex items-center gap-1">
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={100}
+                                        value={mix.layers[layer.value] || ''}
+                                        onChange={(e) => setLayer(layer.value, e.target.value)}
+                                        placeholder="0"
+                                        className="w-16 px-2 py-1 border border-[var(--color-gray-300)] rounded-lg text-sm text-right"
+                                    />
+                                    <span className="text-sm text-[var(--color-gray-500)]">%</span>
+                                </div>
+                                {renderRow(layer.value, null)}
+                            </div>
+
+                            {isExpanded && (
+                                <div className="mt-3 pl-6 space-y-2">
+                                    {categories.map(category => (
+                                        <div key={category.value} className="flex items-center gap-3">
+                                            <span className="w-38 text-xs text-[var(--color-gray-600)]">{category.label}</span>
+                                            <div className="flex items-center gap-1">
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    max={100}
+                                                    value={mix.categories[category.value] || ''}
+                                                    onChange={(e) => setCategory(category.value, e.target.value)}
+                                                    placeholder="0"
+                                                    className="w-16 px-2 py-1 border border-[var(--color-gray-300)] rounded-lg text-xs text-right"
+                                                />
+                                                <span className="text-xs text-[var(--color-gray-500)]">%</span>
+                                            </div>
+                                            {mix.categories[category.value] ? renderRow(layer.value, category.value) : <div className="flex-1" />}
+                                        </div>
+                                    ))}
+                                    <p className="text-xs text-[var(--color-gray-400)]">
+                                        Category targets count towards {layer.label}; the rest of the layer is left to the AI.
+                                    </p>
+                                </div>
+                            )}
+                        </div>
+                    )
+                })}
+            </div>
+
+            {(issues.length > 0 || comparison.warnings.length > 0 || comparison.unassigned > 0) && (
+                <ul className="mt-4 space-y-1">
+                    {[...issues, ...comparison.warnings].map(message => (
+                        <li key={message} className="flex items-center gap-2 text-sm px-3 py-2 rounded-lg bg-amber-50 text-[var(--color-gray-700)]">
+                            <AlertTriangle className="w-3.5 h-3.5 text-amber-600 flex-shrink-0" />
+                            {message}
+                        </li>
+                    ))}
+                    {comparison.unassigned > 0 && (
+                        <li className="text-xs text-[var(--color-gray-500)] px-3">
+                            {comparison.unassigned} post{comparison.unassigned === 1 ? ' has' : 's have'} no content layer and {comparison.unassigned === 1 ? 'is' : 'are'} not counted.
+                        </li>
+                    )}
+                </ul>
+            )}
+        </div>
+    )
+}
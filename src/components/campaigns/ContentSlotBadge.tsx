@@ -0,0 +1,16 @@
+import { getLayerColor } from '@/lib/content-layers'
+import { categoryLabel, describeContentSlot, layerLabel, type ContentSlot } from '@/lib/content-mix'
+
+// Layer-coloured pill naming an idea's or post's category (or layer, if the category is open)
+export function ContentSlotBadge({ slot }: { slot: ContentSlot }) {
+    const color = getLayerColor(slot.layer)
+
+    return (
+        <span
+            className={`text-xs px-2 py-0.5 rounded-full border ${color.bg} ${color.border} ${color.text}`}
+            title={describeContentSlot(slot)}
+        >
+            {slot.category ? categoryLabel(slot.category) : layerLabel(slot.layer)}
+        </span>
+    )
+}
@@ -0,0 +1,4 @@
+export { ContentMixPanel } from './ContentMixPanel'
+export { ContentSlotBadge } from './ContentSlotBadge'
+export { CampaignCopyModal } from './CampaignCopyModal'
+export { CampaignTemplateGallery } from './CampaignTemplateGallery'
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react'
+import { ChevronDown, ChevronRight, History } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import type { CrawlChanges } from '@/lib/crawler'
+import type { Database } from '@/types/database'
+
+type WebsiteCrawl = Database['public']['Tables']['website_crawls']['Row']
+
+// Crawls listed in the history
+const HISTORY_LIMIT = 10
+
+const CHANGE_GROUPS: { key: keyof CrawlChanges; label: string; className: string }[] = [
+    { key: 'added', label: 'Added', className: 'text-green-700' },
+    { key: 'changed', label: 'Changed', className: 'text-amber-700' },
+    { key: 'removed', label: 'Removed', className: 'text-red-600' },
+]
+
+function crawlChanges(crawl: WebsiteCrawl): CrawlChanges {
+    const changes = (crawl.changes || {}) as Partial<CrawlChanges>
+    return { added: changes.added || [], changed: changes.changed || [], removed: changes.removed || [] }
+}
+
+// Recent website crawls with the pages each one added, changed and removed
+export function CrawlHistory({ spaceId }: { spaceId: string }) {
+    const [crawls, setCrawls] = useState<WebsiteCrawl[]>([])
+    const [expandedId, setExpandedId] = useState<string | null>(null)
+
+    useEffect(() => {
+        const fetchCrawls = async () => {
+            const { data, error } = await supabase
+                .from('website_crawls')
+                .select('*')
+                .eq('space_id', spaceId)
+                .order('started_at', { ascending: false })
+                .limit(HISTORY_LIMIT)
+
+            if (error) console.error('Error fetching crawl history:', error)
+            setCrawls((data || []) as WebsiteCrawl[])
+        }
+
+        fetchCrawls()
+    }, [spaceId])
+
+    if (crawls.length === 0) return null
+
+    return (
+        <div className="bg-white rounded-xl border border-[var(--color-gray-200)] p-6 mb-6">
+            <div className="flex items-center gap-2 mb-4">
+                <History className="w-4 h-4 text-[var(--color-gray-400)]" />
+                <h2 className="font-semibold text-[var(--color-gray-900)]">Crawl History</h2>
+            </div>
+            <div className="divide-y divide-[var(--color-gray-100)]">
+                {crawls.map(crawl => {
+                    const changes = crawlChanges(crawl)
+                    const hasChanges = CHANGE_GROUPS.some(group => changes[group.key].length > 0)
+                    const isExpanded = expandedId === crawl.id
+
+                    return (
+                        <div key={crawl.id} className="py-2.5">
+                            <button
+                                onClick={() => setExpandedId(isExpanded ? null : crawl.id)}
+                                disabled={!hasChanges}
+                                className="w-full flex items-center justify-between gap-3 text-left text-sm disabled:cursor-default"
+                            >
+                                <div className="flex items-center gap-2 min-w-0">
+                                    {hasChanges
+                                        ? isExpanded ? <ChevronDown className="w-4 h-4 text-[var(--color-gray-400)] shrink-0" /> : <ChevronRight className="w-4 h-4 text-[var(--color-gray-400)] shrink-0" />
+                                        : <span className="w-4 shrink-0" />}
+                                    <span className="text-[var(--color-gray-700)]">{new Date(crawl.started_at).toLocaleString()}</span>
+                                    {crawl.status !== 'completed' && (
+                                        <span className={`text-xs px-2 py-0.5 rounded ${crawl.status === 'failed' ? 'bg-red-100 text-red-700' : 'bg-blue-100 text-blue-700'}`}>
+                                            {crawl.status}
+                                        </span>
+                                    )}
+                                </div>
+                                <span className="text-xs text-[var(--color-gray-500)] shrink-0">
+                                    {crawl.pages_crawled} crawled · {crawl.pages_added} added · {crawl.pages_changed} changed · {crawl.pages_removed} removed
+                                    {crawl.pages_blocked > 0 && ` · ${crawl.pages_blocked} blocked by robots.txt`}
+                                </span>
+                            </button>
+                            {crawl.error && (
+                                <p className="ml-6 mt-1 text-xs text-red-600 truncate">{crawl.error}</p>
+                            )}
+                            {isExpanded && (
+                                <div className="ml-6 mt-2 space-y-2">
+                                    {CHANGE_GROUPS.filter(group => changes[group.key].length > 0).map(group => (
+                                        <div key={group.key}>
+                                            <p className={`text-xs font-medium ${group.className}`}>{group.label}</p>
+                                            {changes[group.key].map(url => (
+                                                <p key={url} className="text-xs text-[var(--color-gray-500)] truncate">{url}</p>
+                                            ))}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,63 @@
+import { Input, Textarea } from '@/components/ui'
+import { MAX_CRAWL_DEPTH, MAX_CRAWL_PAGES, type CrawlSettings } from '@/lib/crawler'
+
+interface CrawlSettingsFormProps {
+    settings: CrawlSettings
+    onChange: (settings: CrawlSettings) => void
+}
+
+// Include/exclude patterns and limits crawl-website applies to the space's website
+export function CrawlSettingsForm({ settings, onChange }: CrawlSettingsFormProps) {
+    const update = (changes: Partial<CrawlSettings>) => onChange({ ...settings, ...changes })
+
+    return (
+        <div className="space-y-4 text-left">
+            <div className="grid grid-cols-2 gap-4">
+                <Textarea
+                    label="Only crawl"
+                    value={settings.include_patterns.join('\n')}
+                    onChange={(e) => update({ include_patterns: e.target.value.split('\n') })}
+                    placeholder={'/services/*\n/work'}
+                    rows={3}
+                />
+                <Textarea
+                    label="Skip"
+                    value={settings.exclude_patterns.join('\n')}
+                    onChange={(e) => update({ exclude_patterns: e.target.value.split('\n') })}
+                    placeholder={'/blog/*\n/careers'}
+                    rows={3}
+                />
+            </div>
+            <p className="text-xs text-[var(--color-gray-500)]">
+                One path per line. <code>*</code> matches anything, and a path without one covers the pages below it. Leave "Only crawl" empty to crawl the whole site.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+                <Input
+                    label="Link depth"
+                    type="number"
+                    min={0}
+                    max={MAX_CRAWL_DEPTH}
+                    value={settings.max_depth}
+                    onChange={(e) => update({ max_depth: Math.min(MAX_CRAWL_DEPTH, Math.max(0, Number(e.target.value) || 0)) })}
+                />
+                <Input
+                    label="Page limit"
+                    type="number"
+                    min={1}
+                    max={MAX_CRAWL_PAGES}
+                    value={settings.max_pages}
+                    onChange={(e) => update({ max_pages: Math.min(MAX_CRAWL_PAGES, Math.max(1, Number(e.target.value) || 1)) })}
+                />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-[var(--color-gray-600)]">
+                <input
+                    type="checkbox"
+                    checked={settings.use_sitemap}
+                    onChange={(e) => update({ use_sitemap: e.target.checked })}
+                    className="w-4 h-4 rounded"
+                />
+                Start from the site's sitemap.xml
+            </label>
+        </div>
+    )
+}
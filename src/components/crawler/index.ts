@@ -0,0 +1,2 @@
+export { CrawlHistory } from './CrawlHistory'
+export { CrawlSettingsForm } from './CrawlSettingsForm'
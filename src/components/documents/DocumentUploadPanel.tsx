@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { AlertTriangle, Check, FileUp, Loader2, Trash2, Upload } from 'lucide-react'
+import { Button } from '@/components/ui'
+import { supabase } from '@/lib/supabase'
+import {
+    DOCUMENT_FORMAT_LABELS,
+    MAX_UPLOAD_BYTES,
+    UPLOAD_ACCEPT,
+    documentFormat,
+    extractDocumentText,
+    type DocumentFormat,
+} from '@/lib/document-extract'
+
+interface UploadedDocument {
+    id: string
+    title: string | null
+    is_confirmed: boolean
+    indexed_at: string | null
+    metadata: { file_name?: string; format?: DocumentFormat; pages?: number | null; uploaded_at?: string } | null
+}
+
+interface UploadResult {
+    fileName: string
+    status: 'created' | 'updated' | 'unchanged' | 'error'
+    message?: string
+}
+
+const RESULT_LABELS: Record<UploadResult['status'], string> = {
+    created: 'Added',
+    updated: 'Updated',
+    unchanged: 'Already up to date',
+    error: 'Failed',
+}
+
+// Case studies, capability statements and other brand documents uploaded
+// directly. Text is read in the browser and stored by ingest-document.
+export function DocumentUploadPanel({ spaceId }: { spaceId: string }) {
+    const inputRef = useRef<HTMLInputElement>(null)
+    const [documents, setDocuments] = useState<UploadedDocument[]>([])
+    const [isUploading, setIsUploading] = useState(false)
+    const [isDragging, setIsDragging] = useState(false)
+    const [results, setResults] = useState<UploadResult[]>([])
+
+    const fetchDocuments = useCallback(async () => {
+        const { data, error } = await supabase
+            .from('source_documents')
+            .select('id, title, is_confirmed, indexed_at, metadata')
+            .eq('space_id', spaceId)
+            .eq('source_type', 'manual')
+            .order('created_at', { ascending: false })
+
+        if (error) console.error('Error fetching uploaded documents:', error)
+        setDocuments((data || []) as UploadedDocument[])
+    }, [spaceId])
+
+    useEffect(() => {
+        fetchDocuments()
+    }, [fetchDocuments])
+
+    const uploadFile = async (file: File): Promise<UploadResult> => {
+        if (!documentFormat(file.name)) {
+            return { fileName: file.name, status: 'error', message: 'Use a PDF, DOCX, PPTX, Markdown or text file' }
+        }
+        if (file.size > MAX_UPLOAD_BYTES) {
+            return { fileName: file.name, status: 'error', message: `Larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` }
+        }
+
+        try {
+            const extracted = await extractDocumentText(new Uint8Array(await file.arrayBuffer()), file.name)
+
+            const { data, error } = await supabase.functions.invoke('ingest-document', {
+                body: {
+                    space_id: spaceId,
+                    file_name: file.name,
+                    title: extracted.title,
+                    content: extracted.text,
+                    file_size: file.size,
+                    pages: extracted.pages,
+                },
+            })
+
+            if (error) throw error
+            if (data?.error) throw new Error(data.error)
+
+            return { fileName: file.name, status: data.status, message: extracted.warnings.join(' ') || undefined }
+        } catch (error) {
+            console.error(`Error uploading ${file.name}:`, error)
+            return { fileName: file.name, status: 'error', message: error instanceof Error ? error.message : 'Upload failed' }
+        }
+    }
+
+    const handleFiles = async (files: FileList | null) => {
+        if (!files || files.length === 0) return
+
+        setIsUploading(true)
+        setResults([])
+        const uploaded: UploadResult[] = []
+        // One at a time, so large PDFs are not all held in memory together
+        for (const file of Array.from(files)) {
+            uploaded.push(await uploadFile(file))
+            setResults([...uploaded])
+        }
+        setIsUploading(false)
+        if (inputRef.current) inputRef.current.value = ''
+        fetchDocuments()
+    }
+
+    const handleToggleConfirmed = async (doc: UploadedDocument) => {
+        const { error } = await supabase
+            .from('source_documents')
+            .update({ is_confirmed: !doc.is_confirmed })
+            .eq('id', doc.id)
+
+        if (error) {
+            console.error('Error updating document:', error)
+            alert(error.message || 'Failed to update document')
+            return
+        }
+        setDocuments(prev => prev.map(d => d.id === doc.id ? { ...d, is_confirmed: !doc.is_confirmed } : d))
+    }
+
+    const handleDelete = async (doc: UploadedDocument) => {
+        if (!confirm(`Remove ${doc.title || 'this document'}? Posts that used it keep their text.`)) return
+
+        // source_chunks go with the document
+        const { error } = await supabase.from('source_documents').delete().eq('id', doc.id)
+        if (error) {
+            console.error('Error deleting document:', error)
+            alert(error.message || 'Failed to delete document')
+            return
+        }
+        setDocuments(prev => prev.filter(d => d.id !== doc.id))
+    }
+
+    return (
+        <div className="bg-white rounded-xl border border-[var(--color-gray-200)] p-6 mb-8">
+            <div className="flex items-center justify-between gap-4 mb-4">
+                <div>
+                    <h3 className="font-semibold text-[var(--color-gray-900)]">Uploaded Documents</h3>
+                    <p className="text-sm text-[var(--color-gray-500)]">
+                        Case studies, capability statements and proposals. Checked documents are used in campaigns.
+                    </p>
+                </div>
+                <Button variant="secondary" size="sm" onClick={() => inputRef.current?.click()} isLoading={isUploading}>
+                    <Upload className="w-4 h-4" />
+                    Upload
+                </Button>
+            </div>
+
+            <input
+                type="file"
+                ref={inputRef}
+                accept={UPLOAD_ACCEPT}
+                multiple
+                className="hidden"
+                onChange={(e) => handleFiles(e.target.files)}
+            />
+
+            <div
+                onDragOver={(e) => {
+                    e.preventDefault()
+                    setIsDragging(true)
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={(e) => {
+                    e.preventDefault()
+                    setIsDragging(false)
+                    if (!isUploading) handleFiles(e.dataTransfer.files)
+                }}
+                onClick={() => !isUploading && inputRef.current?.click()}
+                className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${isDragging
+                    ? 'border-[var(--color-primary)] bg-blue-50'
+                    : 'border-[var(--color-gray-200)] hover:border-[var(--color-gray-300)]'
+                    }`}
+            >
+                {isUploading ? (
+                    <Loader2 className="w-6 h-6 animate-spin text-[var(--color-gray-400)] mx-auto mb-2" />
+                ) : (
+                    <FileUp className="w-6 h-6 text-[var(--color-gray-400)] mx-auto mb-2" />
+                )}
+                <p className="text-sm text-[var(--color-gray-600)]">
+                    {isUploading ? 'Reading and indexing documents...' : 'Drop files here or click to choose'}
+                </p>
+                <p className="text-xs text-[var(--color-gray-400)] mt-1">
+                    PDF, DOCX, PPTX, Markdown or TXT, up to {MAX_UPLOAD_BYTES / 1024 / 1024} MB. Text is read on this device; only the text is uploaded.
+                </p>
+            </div>
+
+            {results.length > 0 && (
+                <div className="mt-4 space-y-1">
+                    {results.map(result => (
+                        <div key={result.fileName} className="flex items-start gap-2 text-sm">
+                            {result.status === 'error' || result.message
+                                ? <AlertTriangle className={`w-4 h-4 shrink-0 mt-0.5 ${result.status === 'error' ? 'text-red-500' : 'text-amber-500'}`} />
+                                : <Check className="w-4 h-4 shrink-0 mt-0.5 text-green-600" />}
+                            <span className="text-[var(--color-gray-700)]">
+                                <span className="font-medium">{result.fileName}</span>: {RESULT_LABELS[result.status]}
+                                {result.message && <span className="text-[var(--color-gray-500)]"> - {result.message}</span>}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {documents.length > 0 && (
+                <div className="divide-y divide-[var(--color-gray-100)] mt-4">
+                    {documents.map(doc => (
+                        <div key={doc.id} className="py-2.5 flex items-center justify-between gap-3">
+                            <label className="flex items-center gap-3 min-w-0 cursor-pointer" title="Use in campaigns">
+                                <input
+                                    type="checkbox"
+                                    checked={doc.is_confirmed}
+                                    onChange={() => handleToggleConfirmed(doc)}
+                                    className="w-4 h-4 rounded border-[var(--color-gray-300)]"
+                                />
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium text-[var(--color-gray-900)] truncate">{doc.title || doc.metadata?.file_name || 'Untitled'}</p>
+                                    <p className="text-xs text-[var(--color-gray-500)] truncate">
+                                        {[
+                                            doc.metadata?.format ? DOCUMENT_FORMAT_LABELS[doc.metadata.format] : null,
+                                            doc.metadata?.pages ? `${doc.metadata.pages} ${doc.metadata.format === 'pptx' ? 'slides' : 'pages'}` : null,
+                                            doc.metadata?.uploaded_at ? new Date(doc.metadata.uploaded_at).toLocaleDateString() : null,
+                                            doc.indexed_at ? 'Indexed' : 'Waiting to be indexed',
+                                        ].filter(Boolean).join(' · ')}
+                                    </p>
+                                </div>
+                            </label>
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(doc)} title="Remove">
+                                <Trash2 className="w-4 h-4 text-red-500" />
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
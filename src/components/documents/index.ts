@@ -0,0 +1 @@
+export { DocumentUploadPanel } from './DocumentUploadPanel'
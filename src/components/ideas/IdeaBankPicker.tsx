@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Inbox, Loader2, ThumbsUp } from 'lucide-react'
+import { Button, Modal } from '@/components/ui'
+import { ContentSlotBadge } from '@/components/campaigns'
+import { supabase } from '@/lib/supabase'
+import { IDEA_SOURCE_LABELS, ideaSlot } from '@/lib/ideas'
+import type { Database } from '@/types/database'
+
+type Idea = Database['public']['Tables']['ideas']['Row']
+
+interface IdeaBankPickerProps {
+    spaceId: string
+    campaignId: string
+    onClose: () => void
+    /** Called once the chosen ideas are assigned to the campaign */
+    onAdded: () => void
+}
+
+// Lists approved ideas in the space backlog so some can be pulled into a campaign
+export function IdeaBankPicker({ spaceId, campaignId, onClose, onAdded }: IdeaBankPickerProps) {
+    const [ideas, setIdeas] = useState<Idea[]>([])
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+    const [isLoading, setIsLoading] = useState(true)
+    const [isSaving, setIsSaving] = useState(false)
+
+    useEffect(() => {
+        const fetchBacklog = async () => {
+            setIsLoading(true)
+            const { data, error } = await supabase
+                .from('ideas')
+                .select('*')
+                .eq('space_id', spaceId)
+                .eq('status', 'approved')
+                .is('campaign_id', null)
+                .order('votes', { ascending: false })
+                .order('created_at', { ascending: true })
+
+            if (error) console.error('Error fetching idea bank:', error)
+            setIdeas(data || [])
+            setIsLoading(false)
+        }
+
+        fetchBacklog()
+    }, [spaceId])
+
+    const toggle = (ideaId: string) => {
+        const next = new Set(selectedIds)
+        if (next.has(ideaId)) {
+            next.delete(ideaId)
+        } else {
+            next.add(ideaId)
+        }
+        setSelectedIds(next)
+    }
+
+    const handleAdd = async () => {
+        if (selectedIds.size === 0) return
+
+        setIsSaving(true)
+        try {
+            const { error } = await supabase
+                .from('ideas')
+                .update({ campaign_id: campaignId, updated_at: new Date().toISOString() })
+                .in('id', Array.from(selectedIds))
+
+            if (error) throw error
+            onAdded()
+        } catch (error) {
+            console.error('Error adding ideas to campaign:', error)
+            alert(error instanceof Error ? error.message : 'Failed to add ideas')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <Modal
+            isOpen
+            onClose={onClose}
+            title="Add from Idea Bank"
+            size="lg"
+            footer={
+                <>
+                    <Button variant="secondary" onClick={onClose}>Cancel</Button>
+                    <Button onClick={handleAdd} disabled={selectedIds.size === 0 || isSaving}>
+                        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Inbox className="w-4 h-4" />}
+                        Add {selectedIds.size || ''} to campaign
+                    </Button>
+                </>
+            }
+        >
+            {isLoading ? (
+                <div className="py-12 flex justify-center">
+                    <Loader2 className="w-6 h-6 animate-spin text-[var(--color-gray-400)]" />
+                </div>
+            ) : ideas.length === 0 ? (
+                <p className="py-8 text-center text-sm text-[var(--color-gray-500)]">
+                    No approved ideas are waiting in the backlog.{' '}
+                    <Link to="/ideas" className="font-medium text-[var(--color-primary)] hover:underline">Triage the idea bank</Link>
+                </p>
+            ) : (
+                <div className="divide-y divide-[var(--color-gray-100)] max-h-[60vh] overflow-y-auto">
+                    {ideas.map(idea => {
+                        const slot = ideaSlot(idea)
+
+                        return (
+                            <label key={idea.id} className="flex items-start gap-3 py-3 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={selectedIds.has(idea.id)}
+                                    onChange={() => toggle(idea.id)}
+                                    className="w-4 h-4 mt-0.5 rounded"
+                                />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-[var(--color-gray-800)]">{idea.title}</p>
+                                    {idea.notes && <p className="text-xs text-[var(--color-gray-500)] truncate">{idea.notes}</p>}
+                                </div>
+                                {slot && <ContentSlotBadge slot={slot} />}
+                                <span className="text-xs text-[var(--color-gray-400)]">{IDEA_SOURCE_LABELS[idea.source]}</span>
+                                <span className="flex items-center gap-1 text-xs text-[var(--color-gray-500)]" title="Votes">
+                                    <ThumbsUp className="w-3 h-3" />
+                                    {idea.votes}
+                                </span>
+                            </label>
+                        )
+                    })}
+                </div>
+            )}
+        </Modal>
+    )
+}
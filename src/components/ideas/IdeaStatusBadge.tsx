@@ -0,0 +1,16 @@
+import { IDEA_STATUS_LABELS, type IdeaStatus } from '@/lib/ideas'
+
+const STATUS_COLORS: Record<IdeaStatus, string> = {
+    new: 'bg-blue-100 text-blue-700',
+    approved: 'bg-green-100 text-green-700',
+    used: 'bg-[var(--color-gray-100)] text-[var(--color-gray-600)]',
+    rejected: 'bg-red-100 text-red-700',
+}
+
+export function IdeaStatusBadge({ status }: { status: IdeaStatus }) {
+    return (
+        <span className={`text-xs font-medium px-2 py-0.5 rounded ${STATUS_COLORS[status]}`}>
+            {IDEA_STATUS_LABELS[status]}
+        </span>
+    )
+}
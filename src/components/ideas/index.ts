@@ -0,0 +1,2 @@
+export { IdeaStatusBadge } from './IdeaStatusBadge'
+export { IdeaBankPicker } from './IdeaBankPicker'
@@ -0,0 +1,194 @@
+import { useState } from 'react'
+import { Sparkles, CheckCircle2, Loader2, Check, X, Ban, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui'
+import { useJobStore } from '@/stores/jobStore'
+import { isJobActive, type JobItemStatus } from '@/lib/jobs'
+
+interface JobProgressModalProps {
+    jobId: string
+    title: string
+    /** Hides the modal; an active job keeps running in the background */
+    onClose: () => void
+}
+
+const MAX_VISIBLE_ITEMS = 15
+
+const itemStyles: Record<JobItemStatus, string> = {
+    pending: 'text-[var(--color-gray-400)]',
+    running: 'bg-blue-50 text-blue-700',
+    completed: 'bg-green-50 text-green-700',
+    failed: 'bg-red-50 text-red-700',
+    skipped: 'text-[var(--color-gray-400)] line-through',
+}
+
+export function JobProgressModal({ jobId, title, onClose }: JobProgressModalProps) {
+    const job = useJobStore(state => state.jobs[jobId])
+    const { cancelJob, retryJob } = useJobStore()
+    const [isCancelling, setIsCancelling] = useState(false)
+
+    if (!job) return null
+
+    const progress = job.progress
+    const total = progress?.total || 0
+    const done = (progress?.completed || 0) + (progress?.failed || 0) + (progress?.skipped || 0)
+    const percent = total > 0 ? Math.round((done / total) * 100) : 0
+    const isActive = isJobActive(job.status)
+    const items = progress?.items || []
+
+    const handleCancel = async () => {
+        if (!confirm('Cancel this job? Items already finished are kept.')) return
+        setIsCancelling(true)
+        try {
+            await cancelJob(jobId)
+        } catch (error) {
+            console.error('Error cancelling job:', error)
+            alert('Failed to cancel job')
+        } finally {
+            setIsCancelling(false)
+        }
+    }
+
+    const handleRetry = async () => {
+        try {
+            await retryJob(jobId)
+        } catch (error) {
+            console.error('Error retrying job:', error)
+            alert('Failed to retry job')
+        }
+    }
+
+    const heading = isActive
+        ? title
+        : job.status === 'cancelled'
+            ? 'Cancelled'
+            : job.status === 'failed'
+                ? 'Failed'
+                : 'Complete!'
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-2xl max-w-lg w-full shadow-2xl p-8">
+                <div className="flex items-center gap-4 mb-6">
+                    <div className={`w-14 h-14 rounded-xl flex items-center justify-center ${isActive
+                        ? 'bg-gradient-to-br from-[var(--color-primary)] to-[var(--color-secondary)]'
+                        : job.status === 'completed' ? 'bg-green-500' : 'bg-[var(--color-gray-400)]'
+                        }`}>
+                        {isActive ? (
+                            <Sparkles className="w-7 h-7 text-white animate-pulse" />
+                        ) : job.status === 'completed' ? (
+                            <CheckCircle2 className="w-7 h-7 text-white" />
+                        ) : (
+                            <Ban className="w-7 h-7 text-white" />
+                        )}
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-bold text-[var(--color-gray-900)]">{heading}</h3>
+                        <p className="text-sm text-[var(--color-gray-500)]">
+                            {job.status === 'queued' ? 'Waiting for a worker...' : `${done} of ${total} processed`}
+                        </p>
+                    </div>
+                </div>
+
+                {/* Progress Bar */}
+                <div className="mb-4">
+                    <div className="flex justify-between text-sm mb-2">
+                        <span className="text-[var(--color-gray-500)]">Progress</span>
+                        <span className="font-semibold text-[var(--color-primary)]">{percent}%</span>
+                    </div>
+                    <div className="h-3 bg-[var(--color-gray-200)] rounded-full overflow-hidden">
+                        <div
+                            className={`h-full transition-all duration-500 ${job.status === 'completed'
+                                ? 'bg-green-500'
+                                : 'bg-gradient-to-r from-[var(--color-primary)] to-[var(--color-secondary)]'
+                                }`}
+                            style={{ width: `${percent}%` }}
+                        />
+                    </div>
+                </div>
+
+                {/* Status Counts */}
+                <div className="flex gap-4 mb-4 text-sm">
+                    <div className="flex items-center gap-2">
+                        <CheckCircle2 className="w-4 h-4 text-green-500" />
+                        <span className="text-[var(--color-gray-600)]">{progress?.completed || 0} successful</span>
+                    </div>
+                    {(progress?.failed || 0) > 0 && (
+                        <div className="flex items-center gap-2">
+                            <X className="w-4 h-4 text-red-500" />
+                            <span className="text-[var(--color-gray-600)]">{progress?.failed} failed</span>
+                        </div>
+                    )}
+                    {(progress?.skipped || 0) > 0 && (
+                        <div className="flex items-center gap-2">
+                            <Ban className="w-4 h-4 text-[var(--color-gray-400)]" />
+                            <span className="text-[var(--color-gray-600)]">{progress?.skipped} skipped</span>
+                        </div>
+                    )}
+                </div>
+
+                {/* Item List */}
+                <div className="max-h-48 overflow-y-auto space-y-1 mb-4">
+                    {items.slice(0, MAX_VISIBLE_ITEMS).map(item => (
+                        <div key={item.key} className={`text-sm px-3 py-2 rounded-lg ${itemStyles[item.status]}`}>
+                            <div className="flex items-center gap-2">
+                                {item.status === 'completed' ? (
+                                    <Check className="w-4 h-4 text-green-500 flex-shrink-0" />
+                                ) : item.status === 'running' ? (
+                                    <Loader2 className="w-4 h-4 animate-spin text-blue-500 flex-shrink-0" />
+                                ) : item.status === 'failed' ? (
+                                    <X className="w-4 h-4 text-red-500 flex-shrink-0" />
+                                ) : (
+                                    <span className="w-4 h-4 rounded-full border border-[var(--color-gray-300)] flex-shrink-0" />
+                                )}
+                                <span className="truncate">{item.label}</span>
+                            </div>
+                            {item.status === 'failed' && item.error && (
+                                <p className="text-xs text-red-600 ml-6 mt-0.5 line-clamp-2">{item.error}</p>
+                            )}
+                        </div>
+                    ))}
+                    {items.length > MAX_VISIBLE_ITEMS && (
+                        <p className="text-xs text-[var(--color-gray-400)] text-center py-2">
+                            + {items.length - MAX_VISIBLE_ITEMS} more
+                        </p>
+                    )}
+                </div>
+
+                {job.error && !isActive && (
+                    <p className="text-sm text-red-600 mb-4">{job.error}</p>
+                )}
+
+                <div className="flex justify-end gap-2">
+                    {isActive ? (
+                        <>
+                            <Button variant="ghost" onClick={handleCancel} isLoading={isCancelling}>
+                                Cancel Job
+                            </Button>
+                            <Button variant="secondary" onClick={onClose}>
+                                Run in Background
+                            </Button>
+                        </>
+                    ) : (
+                        <>
+                            {((progress?.failed || 0) > 0 || (progress?.skipped || 0) > 0) && (
+                                <Button variant="secondary" onClick={handleRetry}>
+                                    <RotateCcw className="w-4 h-4" />
+                                    Retry {(progress?.failed || 0) + (progress?.skipped || 0)} Unfinished
+                                </Button>
+                            )}
+                            <Button variant="primary" onClick={onClose}>
+                                Done
+                            </Button>
+                        </>
+                    )}
+                </div>
+
+                {isActive && (
+                    <p className="text-xs text-center text-[var(--color-gray-400)] mt-4">
+                        ⚡ Runs on the server - you can leave this page and come back
+                    </p>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,40 @@
+import { Loader2 } from 'lucide-react'
+import { useJobStore } from '@/stores/jobStore'
+import { isJobActive } from '@/lib/jobs'
+
+interface JobStatusBannerProps {
+    jobId: string
+    title: string
+    onView: () => void
+}
+
+// Compact progress strip for a job whose modal was sent to the background
+export function JobStatusBanner({ jobId, title, onView }: JobStatusBannerProps) {
+    const job = useJobStore(state => state.jobs[jobId])
+
+    if (!job || !isJobActive(job.status)) return null
+
+    const total = job.progress?.total || 0
+    const done = (job.progress?.completed || 0) + (job.progress?.failed || 0)
+    const percent = total > 0 ? Math.round((done / total) * 100) : 0
+
+    return (
+        <div className="flex items-center gap-3 px-4 py-3 bg-blue-50 border border-blue-200 rounded-xl">
+            <Loader2 className="w-4 h-4 text-blue-600 animate-spin flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-blue-900 truncate">
+                        {title}{job.progress?.current ? `: ${job.progress.current}` : '...'}
+                    </span>
+                    <span className="text-blue-700 flex-shrink-0 ml-3">{done} of {total}</span>
+                </div>
+                <div className="h-1.5 bg-blue-100 rounded-full overflow-hidden mt-1.5">
+                    <div className="h-full bg-blue-500 transition-all duration-500" style={{ width: `${percent}%` }} />
+                </div>
+            </div>
+            <button onClick={onView} className="text-sm font-medium text-blue-700 hover:text-blue-900 flex-shrink-0">
+                View
+            </button>
+        </div>
+    )
+}
@@ -0,0 +1,2 @@
+export { JobProgressModal } from './JobProgressModal'
+export { JobStatusBanner } from './JobStatusBanner'
@@ -14,10 +14,16 @@ import {
     Palette,
     Calendar,
     Settings2,
+    SpellCheck,
+    BarChart3,
+    Lightbulb,
+    Rss,
+    Layers,
 } from 'lucide-react'
 import { useAuthStore } from '@/stores/authStore'
 import { useSpaceStore } from '@/stores/spaceStore'
 import { supabase } from '@/lib/supabase'
+import { BudgetBanner } from '@/components/usage'
 
 interface LayoutProps {
     children: ReactNode
@@ -29,11 +35,16 @@ const navItems = [
     { path: '/gov-directory', icon: Building2, label: 'Gov Directory', isGlobal: true },
     { path: '/content-studio', icon: Palette, label: 'Content Studio', isGlobal: false },
     { path: '/brand-studio', icon: Database, label: 'Brand Studio', isGlobal: false },
+    { path: '/ideas', icon: Lightbulb, label: 'Idea Bank', isGlobal: false },
+    { path: '/feeds', icon: Rss, label: 'News Feeds', isGlobal: false },
     { path: '/campaigns', icon: Megaphone, label: 'Campaigns', isGlobal: false },
     { path: '/posts', icon: FileText, label: 'All Posts', isGlobal: false },
+    { path: '/series', icon: Layers, label: 'Series', isGlobal: false },
     { path: '/calendar', icon: Calendar, label: 'Calendar', isGlobal: false },
     { path: '/hubspot', icon: Link2, label: 'HubSpot', isGlobal: false },
     { path: '/ai-settings', icon: Settings2, label: 'AI Settings', isGlobal: false },
+    { path: '/ai-usage', icon: BarChart3, label: 'AI Usage', isGlobal: false },
+    { path: '/house-style', icon: SpellCheck, label: 'House Style', isGlobal: false },
 ]
 
 
@@ -194,6 +205,7 @@ export function Layout({ children }: LayoutProps) {
           ${collapsed ? 'ml-16' : 'ml-64'}
         `}
             >
+                <BudgetBanner />
                 {children}
             </main>
         </div>
@@ -0,0 +1,283 @@
+import { useState, useEffect } from 'react'
+import { AlertTriangle, Crop, Loader2, Save, Sparkles, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui'
+import { supabase } from '@/lib/supabase'
+import {
+    CHANNELS,
+    CHANNEL_SPECS,
+    channelLength,
+    checkChannelPost,
+    composeChannelPost,
+    extractHashtags,
+    normaliseHashtags,
+    type ChannelId,
+    type ChannelVariant,
+} from '@/lib/channels'
+import { renderImageRendition } from '@/lib/image-rendition'
+
+interface ChannelPost {
+    id: string
+    space_id: string
+    body: string | null
+    final_image_path?: string | null
+    generated_image_path?: string | null
+}
+
+interface ChannelVariantsProps {
+    post: ChannelPost
+}
+
+const imageUrl = (path: string) => supabase.storage.from('generated-images').getPublicUrl(path).data.publicUrl
+
+// Tailored body, hashtags and image per social channel, falling back to the main post
+export function ChannelVariants({ post }: ChannelVariantsProps) {
+    const [variants, setVariants] = useState<Partial<Record<ChannelId, ChannelVariant>>>({})
+    const [activeChannel, setActiveChannel] = useState<ChannelId>('linkedin')
+    const [draftBody, setDraftBody] = useState('')
+    const [draftHashtags, setDraftHashtags] = useState('')
+    const [mainImagePath, setMainImagePath] = useState<string | null>(post.final_image_path || post.generated_image_path || null)
+    const [busy, setBusy] = useState<'adapt' | 'save' | 'image' | 'remove' | null>(null)
+
+    useEffect(() => {
+        supabase
+            .from('post_channel_variants')
+            .select('*')
+            .eq('post_id', post.id)
+            .then(({ data }) => {
+                const byChannel: Partial<Record<ChannelId, ChannelVariant>> = {}
+                for (const variant of (data || []) as ChannelVariant[]) byChannel[variant.channel] = variant
+                setVariants(byChannel)
+            })
+
+        if (!post.final_image_path && !post.generated_image_path) {
+            supabase
+                .from('post_images')
+                .select('storage_path')
+                .eq('post_id', post.id)
+                .eq('is_primary', true)
+                .maybeSingle()
+                .then(({ data }) => setMainImagePath(data?.storage_path || null))
+        }
+    }, [post.id, post.final_image_path, post.generated_image_path])
+
+    // Load the active channel's variant, or the main post split into body and hashtags
+    const variant = variants[activeChannel]
+    useEffect(() => {
+        if (variant) {
+            setDraftBody(variant.body)
+            setDraftHashtags(variant.hashtags.join(' '))
+        } else {
+            const main = extractHashtags(post.body || '')
+            setDraftBody(main.body)
+            setDraftHashtags(main.hashtags.join(' '))
+        }
+    }, [variant, post.body])
+
+    const spec = CHANNEL_SPECS[activeChannel]
+    const hashtags = normaliseHashtags(draftHashtags)
+    const issues = checkChannelPost(draftBody, hashtags, activeChannel)
+    const length = channelLength(composeChannelPost(draftBody, hashtags, activeChannel), activeChannel)
+    const isDirty = variant
+        ? draftBody !== variant.body || hashtags.join(' ') !== variant.hashtags.join(' ')
+        : false
+
+    const storeVariant = (saved: ChannelVariant) => setVariants(prev => ({ ...prev, [saved.channel]: saved }))
+
+    const handleAdapt = async () => {
+        if (isDirty && !confirm(`Replace your unsaved ${spec.label} edits with a new adaptation?`)) return
+
+        setBusy('adapt')
+        try {
+            const { data, error } = await supabase.functions.invoke('adapt-post-channel', {
+                body: { post_id: post.id, channel: activeChannel },
+            })
+            if (error) throw error
+            if (data?.error) throw new Error(data.error)
+            storeVariant(data.variant)
+        } catch (error) {
+            console.error('Error adapting post:', error)
+            alert(error instanceof Error ? error.message : 'Failed to adapt post')
+        } finally {
+            setBusy(null)
+        }
+    }
+
+    const saveVariant = async (changes: Partial<ChannelVariant>) => {
+        const { data, error } = await supabase
+            .from('post_channel_variants')
+            .upsert({
+                post_id: post.id,
+                space_id: post.space_id,
+                channel: activeChannel,
+                body: draftBody,
+                hashtags,
+                ...changes,
+                updated_at: new Date().toISOString(),
+            }, { onConflict: 'post_id,channel' })
+            .select('*')
+            .single()
+
+        if (error) throw error
+        storeVariant(data)
+    }
+
+    const handleSave = async () => {
+        setBusy('save')
+        try {
+            await saveVariant({})
+        } catch (error) {
+            console.error('Error saving channel variant:', error)
+            alert(error instanceof Error ? error.message : 'Failed to save channel variant')
+        } finally {
+            setBusy(null)
+        }
+    }
+
+    // Crop the main image to the channel's size and keep it as the channel's image
+    const handleCreateImage = async () => {
+        if (!mainImagePath) return
+
+        setBusy('image')
+        try {
+            const blob = await renderImageRendition(imageUrl(mainImagePath), spec.image.width, spec.image.height)
+            const fileName = `${post.id}/channels/${activeChannel}_${Date.now()}.png`
+
+            const { error: uploadError } = await supabase.storage
+                .from('generated-images')
+                .upload(fileName, blob, { contentType: 'image/png', upsert: true })
+            if (uploadError) throw uploadError
+
+            await saveVariant({ image_path: fileName })
+        } catch (error) {
+            console.error('Error creating image rendition:', error)
+            alert(error instanceof Error ? error.message : 'Failed to create image')
+        } finally {
+            setBusy(null)
+        }
+    }
+
+    const handleRemove = async () => {
+        if (!variant || !confirm(`Remove the ${spec.label} version? The main post will be used instead.`)) return
+
+        setBusy('remove')
+        try {
+            const { error } = await supabase
+                .from('post_channel_variants')
+                .delete()
+                .eq('id', variant.id)
+            if (error) throw error
+
+            setVariants(prev => {
+                const next = { ...prev }
+                delete next[activeChannel]
+                return next
+            })
+        } catch (error) {
+            console.error('Error removing channel variant:', error)
+            alert(error instanceof Error ? error.message : 'Failed to remove channel variant')
+        } finally {
+            setBusy(null)
+        }
+    }
+
+    const channelImage = variant?.image_path || mainImagePath
+
+    return (
+        <div className="border border-[var(--color-gray-200)] rounded-xl p-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-[var(--color-gray-700)]">Channels</h3>
+                <span className="text-xs text-[var(--color-gray-500)]">
+                    {variant ? `Tailored for ${spec.label}` : `${spec.label} uses the main post`}
+                </span>
+            </div>
+
+            <div className="flex gap-2">
+                {CHANNELS.map(ch => (
+                    <button
+                        key={ch.id}
+                        onClick={() => setActiveChannel(ch.id)}
+                        className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${activeChannel === ch.id
+                            ? 'bg-[var(--color-primary)]/10 border-[var(--color-primary)] text-[var(--color-primary)]'
+                            : 'bg-white border-[var(--color-gray-200)] text-[var(--color-gray-500)] hover:border-[var(--color-gray-300)]'
+                            }`}
+                    >
+                        <span className="w-5 h-5 rounded bg-[var(--color-gray-100)] flex items-center justify-center text-[10px] font-bold text-[var(--color-gray-600)]">{ch.icon}</span>
+                        {ch.label}
+                        {variants[ch.id] && <span className="w-1.5 h-1.5 rounded-full bg-[var(--color-primary)]" />}
+                    </button>
+                ))}
+            </div>
+
+            <textarea
+                value={draftBody}
+                onChange={(e) => setDraftBody(e.target.value)}
+                rows={activeChannel === 'x' ? 4 : 8}
+                className="w-full px-3 py-2 rounded-lg border border-[var(--color-gray-300)] text-sm text-[var(--color-gray-900)] resize-y focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] focus:border-transparent"
+            />
+            <input
+                type="text"
+                value={draftHashtags}
+                onChange={(e) => setDraftHashtags(e.target.value)}
+                placeholder="#Hashtags separated by spaces"
+                className="w-full px-3 py-2 rounded-lg border border-[var(--color-gray-300)] text-sm text-[var(--color-gray-900)] focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] focus:border-transparent"
+            />
+
+            <div className="flex items-center justify-between text-xs text-[var(--color-gray-500)]">
+                <span className={length > spec.max_length ? 'text-red-600 font-medium' : ''}>
+                    {length} / {spec.max_length} characters · {hashtags.length} hashtag{hashtags.length === 1 ? '' : 's'} (best {spec.hashtags.recommended})
+                </span>
+            </div>
+
+            {issues.length > 0 && (
+                <ul className="space-y-1">
+                    {issues.map(issue => (
+                        <li key={issue.kind} className="flex items-center gap-2 text-sm px-3 py-2 rounded-lg bg-amber-50 text-[var(--color-gray-700)]">
+                            <AlertTriangle className="w-3.5 h-3.5 text-amber-600 flex-shrink-0" />
+                            {issue.message}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex items-center gap-3">
+                {channelImage ? (
+                    <img src={imageUrl(channelImage)} alt="" className="w-20 h-20 object-cover rounded-lg border border-[var(--color-gray-200)]" />
+                ) : (
+                    <div className="w-20 h-20 rounded-lg bg-[var(--color-gray-50)]" />
+                )}
+                <div className="flex-1 text-xs text-[var(--color-gray-500)]">
+                    {variant?.image_path
+                        ? `${spec.label} image (${spec.image.aspect})`
+                        : mainImagePath ? 'Uses the main image' : 'No image yet'}
+                </div>
+                {mainImagePath && (
+                    <Button variant="ghost" size="sm" onClick={handleCreateImage} disabled={busy !== null}>
+                        {busy === 'image' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Crop className="w-4 h-4" />}
+                        {spec.image.aspect} image
+                    </Button>
+                )}
+            </div>
+
+            <div className="flex justify-between gap-2">
+                <div>
+                    {variant && (
+                        <Button variant="ghost" size="sm" onClick={handleRemove} disabled={busy !== null}>
+                            <Trash2 className="w-4 h-4" />
+                            Use main post
+                        </Button>
+                    )}
+                </div>
+                <div className="flex gap-2">
+                    <Button variant="secondary" size="sm" onClick={handleAdapt} disabled={busy !== null || !post.body}>
+                        {busy === 'adapt' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                        Adapt for {spec.label}
+                    </Button>
+                    <Button size="sm" onClick={handleSave} disabled={busy !== null || !draftBody.trim() || (!!variant && !isDirty)}>
+                        {busy === 'save' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                        Save
+                    </Button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,178 @@
+import { useState, useEffect } from 'react'
+import { Check, Loader2 } from 'lucide-react'
+import { Button, Modal } from '@/components/ui'
+import { ContentSlotBadge } from '@/components/campaigns'
+import { supabase } from '@/lib/supabase'
+import { CONTENT_CATEGORIES, CONTENT_LAYERS, getCategoryLayer, type ContentCategory, type ContentLayer } from '@/lib/content-mix'
+import type { ClassificationMeta } from '@/lib/classification'
+
+interface ReviewPost {
+    id: string
+    title: string
+    body: string | null
+    content_layer: ContentLayer | null
+    content_category: ContentCategory | null
+    content_confidence: number | null
+    classification_meta: ClassificationMeta | null
+}
+
+interface ClassificationReviewProps {
+    spaceId: string
+    isOpen: boolean
+    onClose: () => void
+    /** Called after posts leave the queue */
+    onChanged: () => void
+}
+
+// Posts per page of the queue
+const REVIEW_PAGE_SIZE = 50
+
+// Low-confidence classifications waiting for a person to confirm or correct them
+export function ClassificationReview({ spaceId, isOpen, onClose, onChanged }: ClassificationReviewProps) {
+    const [posts, setPosts] = useState<ReviewPost[]>([])
+    const [choices, setChoices] = useState<Record<string, ContentCategory>>({})
+    const [isLoading, setIsLoading] = useState(true)
+    const [busyId, setBusyId] = useState<string | 'all' | null>(null)
+
+    useEffect(() => {
+        if (!isOpen) return
+
+        supabase
+            .from('posts')
+            .select('id, title, body, content_layer, content_category, content_confidence, classification_meta')
+            .eq('space_id', spaceId)
+            .eq('classification_status', 'needs_review')
+            .order('content_confidence', { ascending: true })
+            .limit(REVIEW_PAGE_SIZE)
+            .then(({ data, error }) => {
+                if (error) console.error('Error loading review queue:', error)
+                const queue = (data || []) as ReviewPost[]
+                setPosts(queue)
+                setChoices(Object.fromEntries(queue
+                    .filter(p => p.content_category)
+                    .map(p => [p.id, p.content_category!])))
+                setIsLoading(false)
+            })
+    }, [isOpen, spaceId])
+
+    const confirm = async (reviewed: ReviewPost[]) => {
+        for (const post of reviewed) {
+            const category = choices[post.id]
+            if (!category) continue
+
+            // Accepting the suggestion keeps the model's details; a correction is manual
+            const isCorrection = category !== post.content_category
+            const { error } = await supabase
+                .from('posts')
+                .update({
+                    content_layer: getCategoryLayer(category),
+                    content_category: category,
+                    classification_status: 'confirmed',
+                    content_confidence: isCorrection ? null : post.content_confidence,
+                    classification_meta: isCorrection ? { source: 'manual' } : post.classification_meta,
+                    classified_at: new Date().toISOString(),
+                })
+                .eq('id', post.id)
+            if (error) throw error
+        }
+
+        const done = new Set(reviewed.filter(p => choices[p.id]).map(p => p.id))
+        setPosts(prev => prev.filter(p => !done.has(p.id)))
+        onChanged()
+    }
+
+    const handleConfirm = async (post: ReviewPost) => {
+        setBusyId(post.id)
+        try {
+            await confirm([post])
+        } catch (error) {
+            console.error('Error confirming classification:', error)
+            alert(error instanceof Error ? error.message : 'Failed to confirm classification')
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    const handleConfirmAll = async () => {
+        setBusyId('all')
+        try {
+            await confirm(posts)
+        } catch (error) {
+            console.error('Error confirming classifications:', error)
+            alert(error instanceof Error ? error.message : 'Failed to confirm classifications')
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Review Classifications"
+            size="xl"
+            footer={posts.length > 0 && (
+                <>
+                    <Button variant="secondary" onClick={onClose}>Close</Button>
+                    <Button onClick={handleConfirmAll} disabled={busyId !== null}>
+                        {busyId === 'all' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                        Confirm all ({posts.length})
+                    </Button>
+                </>
+            )}
+        >
+            {isLoading ? (
+                <div className="py-12 text-center text-[var(--color-gray-500)]">Loading...</div>
+            ) : posts.length === 0 ? (
+                <div className="py-12 text-center text-[var(--color-gray-500)]">
+                    Nothing to review. Low-confidence classifications will appear here.
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    <p className="text-sm text-[var(--color-gray-500)]">
+                        The AI was unsure about these posts. Confirm its suggestion or pick the right category; confirmed posts are not re-classified automatically.
+                    </p>
+                    {posts.map(post => (
+                        <div key={post.id} className="border border-[var(--color-gray-200)] rounded-xl p-4 space-y-2">
+                            <div className="flex items-center gap-2">
+                                <span className="flex-1 font-medium text-[var(--color-gray-900)]">{post.title}</span>
+                                {post.content_layer && (
+                                    <ContentSlotBadge slot={{ layer: post.content_layer, category: post.content_category }} />
+                                )}
+                                {post.content_confidence !== null && (
+                                    <span className="text-xs text-[var(--color-gray-500)]">
+                                        {Math.round(Number(post.content_confidence) * 100)}% sure
+                                    </span>
+                                )}
+                            </div>
+                            <p className="text-sm text-[var(--color-gray-700)] whitespace-pre-wrap line-clamp-3">{post.body}</p>
+                            {post.classification_meta?.reason && (
+                                <p className="text-xs text-[var(--color-gray-500)] italic">{post.classification_meta.reason}</p>
+                            )}
+                            <div className="flex items-center gap-2">
+                                <select
+                                    value={choices[post.id] || ''}
+                                    onChange={(e) => setChoices(prev => ({ ...prev, [post.id]: e.target.value as ContentCategory }))}
+                                    className="flex-1 px-3 py-1.5 border border-[var(--color-gray-300)] rounded-lg text-sm"
+                                >
+                                    <option value="" disabled>Choose a category...</option>
+                                    {CONTENT_LAYERS.map(layer => (
+                                        <optgroup key={layer.value} label={layer.label}>
+                                            {CONTENT_CATEGORIES.filter(c => c.layer === layer.value).map(c => (
+                                                <option key={c.value} value={c.value}>{c.label}</option>
+                                            ))}
+                                        </optgroup>
+                                    ))}
+                                </select>
+                                <Button size="sm" onClick={() => handleConfirm(post)} disabled={busyId !== null || !choices[post.id]}>
+                                    {busyId === post.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                                    Confirm
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </Modal>
+    )
+}
@@ -0,0 +1,222 @@
+import { useState, useEffect } from 'react'
+import { Copy, Loader2, RefreshCw, Trash2, X } from 'lucide-react'
+import { Button, Modal, StatusBadge } from '@/components/ui'
+import { supabase } from '@/lib/supabase'
+import { isPublishedStatus } from '@/lib/similarity'
+import { useAuthStore } from '@/stores/authStore'
+
+/** An open post_duplicates row, with the title and status of the earlier post */
+export interface DuplicateFlag {
+    id: string
+    post_id: string
+    duplicate_of_id: string
+    score: number
+    duplicate_of: { title: string; status: string } | null
+}
+
+interface PairPost {
+    id: string
+    title: string
+    body: string | null
+    status: string
+    created_at: string
+}
+
+interface DuplicatePair {
+    id: string
+    score: number
+    post: PairPost | null
+    duplicate_of: PairPost | null
+}
+
+const percent = (score: number) => `${Math.round(Number(score) * 100)}%`
+
+// Marks a post that repeats an earlier one; red when the earlier post has gone out
+export function DuplicateBadge({ flags }: { flags: DuplicateFlag[] }) {
+    if (flags.length === 0) return null
+
+    const top = flags.reduce((best, flag) => Number(flag.score) > Number(best.score) ? flag : best)
+    const repeatsPublished = flags.some(f => isPublishedStatus(f.duplicate_of?.status))
+
+    return (
+        <span
+            className={`inline-flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded ${repeatsPublished ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}
+            title={flags
+                .map(f => `${percent(f.score)} similar to "${f.duplicate_of?.title || 'another post'}"${isPublishedStatus(f.duplicate_of?.status) ? ' (published)' : ''}`)
+                .join('\n')}
+        >
+            <Copy className="w-3 h-3" />
+            {percent(top.score)} duplicate
+        </span>
+    )
+}
+
+interface DuplicateReviewProps {
+    spaceId: string
+    isOpen: boolean
+    onClose: () => void
+    /** Called after pairs are dismissed, posts deleted or the space rescanned */
+    onChanged: () => void
+}
+
+// Pairs per page of the review
+const REVIEW_PAGE_SIZE = 50
+
+// Near-duplicate pairs side by side, to dismiss or delete the later post
+export function DuplicateReview({ spaceId, isOpen, onClose, onChanged }: DuplicateReviewProps) {
+    const { user } = useAuthStore()
+    const [pairs, setPairs] = useState<DuplicatePair[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [busyId, setBusyId] = useState<string | 'rescan' | null>(null)
+    const [reloadKey, setReloadKey] = useState(0)
+
+    useEffect(() => {
+        if (!isOpen) return
+
+        supabase
+            .from('post_duplicates')
+            .select('id, score, post:posts!post_id(id, title, body, status, created_at), duplicate_of:posts!duplicate_of_id(id, title, body, status, created_at)')
+            .eq('space_id', spaceId)
+            .eq('status', 'open')
+            .order('score', { ascending: false })
+            .limit(REVIEW_PAGE_SIZE)
+            .then(({ data, error }) => {
+                if (error) console.error('Error loading duplicates:', error)
+                setPairs(((data || []) as unknown as DuplicatePair[]).filter(p => p.post && p.duplicate_of))
+                setIsLoading(false)
+            })
+    }, [isOpen, spaceId, reloadKey])
+
+    const handleDismiss = async (pair: DuplicatePair) => {
+        setBusyId(pair.id)
+        try {
+            const { error } = await supabase
+                .from('post_duplicates')
+                .update({
+                    status: 'dismissed',
+                    dismissed_by: user?.id || null,
+                    dismissed_at: new Date().toISOString(),
+                    updated_at: new Date().toISOString(),
+                })
+                .eq('id', pair.id)
+            if (error) throw error
+
+            setPairs(prev => prev.filter(p => p.id !== pair.id))
+            onChanged()
+        } catch (error) {
+            console.error('Error dismissing duplicate:', error)
+            alert(error instanceof Error ? error.message : 'Failed to dismiss duplicate')
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    const handleDelete = async (pair: DuplicatePair) => {
+        const post = pair.post!
+        if (!confirm(`Delete "${post.title}"? This cannot be undone.`)) return
+
+        setBusyId(pair.id)
+        try {
+            const { error } = await supabase
+                .from('posts')
+                .delete()
+                .eq('id', post.id)
+            if (error) throw error
+
+            // Its other pairs are deleted with it
+            setPairs(prev => prev.filter(p => p.post?.id !== post.id && p.duplicate_of?.id !== post.id))
+            onChanged()
+        } catch (error) {
+            console.error('Error deleting post:', error)
+            alert(error instanceof Error ? error.message : 'Failed to delete post')
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    const handleRescan = async () => {
+        setBusyId('rescan')
+        try {
+            const { data, error } = await supabase.functions.invoke('check-duplicates', {
+                body: { space_id: spaceId, rescan: true },
+            })
+            if (error) throw error
+            if (data?.error) throw new Error(data.error)
+
+            setReloadKey(prev => prev + 1)
+            onChanged()
+        } catch (error) {
+            console.error('Error rescanning for duplicates:', error)
+            alert(error instanceof Error ? error.message : 'Failed to rescan for duplicates')
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    const renderPost = (post: PairPost, label: string) => (
+        <div className="flex-1 min-w-0 space-y-1">
+            <div className="text-xs uppercase tracking-wide text-[var(--color-gray-400)]">{label}</div>
+            <div className="flex items-center gap-2">
+                <span className="flex-1 font-medium text-[var(--color-gray-900)] truncate">{post.title}</span>
+                <StatusBadge status={post.status} />
+            </div>
+            <div className="text-xs text-[var(--color-gray-500)]">{new Date(post.created_at).toLocaleDateString()}</div>
+            <p className="text-sm text-[var(--color-gray-700)] whitespace-pre-wrap line-clamp-6">{post.body}</p>
+        </div>
+    )
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Review Duplicates"
+            size="xl"
+            footer={
+                <>
+                    <Button variant="secondary" onClick={onClose}>Close</Button>
+                    <Button variant="secondary" onClick={handleRescan} disabled={busyId !== null}>
+                        {busyId === 'rescan' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                        Rescan all posts
+                    </Button>
+                </>
+            }
+        >
+            {isLoading ? (
+                <div className="py-12 text-center text-[var(--color-gray-500)]">Loading...</div>
+            ) : pairs.length === 0 ? (
+                <div className="py-12 text-center text-[var(--color-gray-500)]">
+                    No near-duplicates found. Posts that repeat another post in this space will appear here.
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    <p className="text-sm text-[var(--color-gray-500)]">
+                        Each later post is compared with every earlier post in the space. Delete the repeat, or dismiss the pair if the posts are different enough; dismissed pairs are not flagged again.
+                    </p>
+                    {pairs.map(pair => (
+                        <div key={pair.id} className="border border-[var(--color-gray-200)] rounded-xl p-4 space-y-3">
+                            <div className="flex items-center gap-2">
+                                <span className={`text-sm font-medium ${isPublishedStatus(pair.duplicate_of!.status) ? 'text-red-700' : 'text-amber-700'}`}>
+                                    {percent(pair.score)} similar
+                                    {isPublishedStatus(pair.duplicate_of!.status) && ' to a published post'}
+                                </span>
+                                <div className="flex-1" />
+                                <Button size="sm" variant="secondary" onClick={() => handleDismiss(pair)} disabled={busyId !== null}>
+                                    {busyId === pair.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+                                    Not a duplicate
+                                </Button>
+                                <Button size="sm" variant="danger" onClick={() => handleDelete(pair)} disabled={busyId !== null}>
+                                    <Trash2 className="w-4 h-4" />
+                                    Delete later post
+                                </Button>
+                            </div>
+                            <div className="flex gap-4">
+                                {renderPost(pair.post!, 'Later post')}
+                                {renderPost(pair.duplicate_of!, 'Earlier post')}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </Modal>
+    )
+}
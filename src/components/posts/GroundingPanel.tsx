@@ -0,0 +1,168 @@
+import { useState } from 'react'
+import { AlertTriangle, CheckCircle2, Loader2, RefreshCw, ShieldCheck } from 'lucide-react'
+import { Button } from '@/components/ui'
+import { supabase } from '@/lib/supabase'
+import {
+    CLAIM_STATUS_LABELS,
+    getUngroundedClaims,
+    isGroundingStale,
+    segmentBody,
+    type ClaimStatus,
+    type GroundingReport,
+} from '@/lib/grounding'
+
+const CLAIM_HIGHLIGHT: Record<ClaimStatus, string> = {
+    supported: '',
+    partial: 'bg-amber-100 decoration-amber-400',
+    unsupported: 'bg-red-100 decoration-red-400 underline decoration-wavy underline-offset-4',
+}
+
+interface GroundedPostBodyProps {
+    body: string | null
+    report: GroundingReport | null
+    className?: string
+}
+
+// Post text with partly supported and ungrounded sentences highlighted
+export function GroundedPostBody({ body, report, className = '' }: GroundedPostBodyProps) {
+    if (!body) return <div className={className}>No content</div>
+
+    // Offsets no longer line up once the post has been edited
+    if (!report || isGroundingStale(report, body)) {
+        return <div className={className}>{body}</div>
+    }
+
+    return (
+        <div className={className}>
+            {segmentBody(body, report.claims).map((segment, i) => (
+                segment.claim && segment.claim.status !== 'supported' ? (
+                    <mark
+                        key={i}
+                        className={`rounded-sm text-inherit ${CLAIM_HIGHLIGHT[segment.claim.status]}`}
+                        title={segment.claim.reason || CLAIM_STATUS_LABELS[segment.claim.status]}
+                    >
+                        {segment.text}
+                    </mark>
+                ) : (
+                    <span key={i}>{segment.text}</span>
+                )
+            ))}
+        </div>
+    )
+}
+
+// Compact flag for post lists; renders nothing when every claim is supported
+export function GroundingBadge({ body, report }: { body: string | null; report: GroundingReport | null }) {
+    if (!report || isGroundingStale(report, body)) return null
+
+    const flagged = report.counts.unsupported + report.counts.partial
+    if (flagged === 0) return null
+
+    return (
+        <span
+            className={`inline-flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded ${report.counts.unsupported > 0 ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}
+            title="Claims that could not be traced to the brand context"
+        >
+            <AlertTriangle className="w-3 h-3" />
+            {flagged} ungrounded
+        </span>
+    )
+}
+
+interface GroundingPanelProps {
+    postId: string
+    body: string | null
+    report: GroundingReport | null
+    onVerified: (report: GroundingReport) => void
+}
+
+// Lists the claims the grounding check could not trace to the brand context
+export function GroundingPanel({ postId, body, report, onVerified }: GroundingPanelProps) {
+    const [isVerifying, setIsVerifying] = useState(false)
+
+    const handleVerify = async () => {
+        setIsVerifying(true)
+        try {
+            const { data, error } = await supabase.functions.invoke('verify-post-grounding', {
+                body: { post_id: postId },
+            })
+            if (error) throw error
+            if (data?.error) throw new Error(data.error)
+            onVerified(data.grounding)
+        } catch (error) {
+            console.error('Error verifying post:', error)
+            alert(error instanceof Error ? error.message : 'Failed to check post grounding')
+        } finally {
+            setIsVerifying(false)
+        }
+    }
+
+    const stale = !!report && isGroundingStale(report, body)
+    const flagged = getUngroundedClaims(report)
+    const sourceName = (key: string) => {
+        const source = report?.sources.find(s => s.key === key)
+        return source ? source.name || source.type : key
+    }
+
+    return (
+        <div className="border border-[var(--color-gray-200)] rounded-xl p-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <ShieldCheck className="w-4 h-4 text-[var(--color-gray-500)]" />
+                    <h3 className="text-sm font-medium text-[var(--color-gray-700)]">Grounding</h3>
+                    {report && !stale && (
+                        <span className="text-xs text-[var(--color-gray-500)]">
+                            {report.counts.supported} supported · {report.counts.partial} partly · {report.counts.unsupported} ungrounded
+                        </span>
+                    )}
+                </div>
+                <Button variant="ghost" size="sm" onClick={handleVerify} disabled={isVerifying || !body}>
+                    {isVerifying ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                    {report ? 'Re-check' : 'Check claims'}
+                </Button>
+            </div>
+
+            {!report ? (
+                <p className="text-sm text-[var(--color-gray-500)]">
+                    This post has not been checked against its sources yet.
+                </p>
+            ) : stale ? (
+                <p className="text-sm text-amber-700 flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    The post has been edited since it was checked. Re-check before publishing.
+                </p>
+            ) : report.status === 'no_claims' ? (
+                <p className="text-sm text-[var(--color-gray-500)]">No factual claims found in this post.</p>
+            ) : flagged.length === 0 ? (
+                <p className="text-sm text-green-700 flex items-center gap-2">
+                    <CheckCircle2 className="w-4 h-4 flex-shrink-0" />
+                    Every claim is supported by the brand context.
+                </p>
+            ) : (
+                <ul className="space-y-2">
+                    {flagged.map((claim, i) => (
+                        <li
+                            key={i}
+                            className={`text-sm rounded-lg p-3 ${claim.status === 'unsupported' ? 'bg-red-50' : 'bg-amber-50'}`}
+                        >
+                            <div className="flex items-start justify-between gap-3">
+                                <span className="text-[var(--color-gray-800)]">{claim.text}</span>
+                                <span className={`text-xs font-medium flex-shrink-0 ${claim.status === 'unsupported' ? 'text-red-700' : 'text-amber-700'}`}>
+                                    {CLAIM_STATUS_LABELS[claim.status]}
+                                </span>
+                            </div>
+                            {claim.reason && (
+                                <p className="text-xs text-[var(--color-gray-600)] mt-1">{claim.reason}</p>
+                            )}
+                            {claim.evidence && (
+                                <p className="text-xs text-[var(--color-gray-500)] mt-1 italic">
+                                    “{claim.evidence}”{claim.source_keys.length > 0 && ` (${claim.source_keys.map(sourceName).join(', ')})`}
+                                </p>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    )
+}
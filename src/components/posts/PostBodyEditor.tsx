@@ -0,0 +1,148 @@
+import { useState, useEffect, useMemo } from 'react'
+import { AlertTriangle, CheckCircle2, Loader2, Save, Wand2 } from 'lucide-react'
+import { Button } from '@/components/ui'
+import { supabase } from '@/lib/supabase'
+import { buildRevision } from '@/lib/revisions'
+import { classifyAfterEdit } from '@/lib/classify-post'
+import { checkDuplicatesAfterEdit } from '@/lib/check-duplicates'
+import {
+    DEFAULT_STYLE_RULES,
+    STYLE_ISSUE_LABELS,
+    applyStyleFix,
+    applyStyleFixes,
+    lintStyle,
+    normaliseStyleRules,
+    type StyleContext,
+    type StyleRules,
+} from '@/lib/style-rules'
+import { useAuthStore } from '@/stores/authStore'
+
+interface PostBodyEditorProps {
+    postId: string
+    spaceId: string
+    /** Recorded with the revision alongside the new body */
+    title: string
+    body: string | null
+    /** The campaign's emoji/hashtag settings, when the post belongs to one */
+    context?: StyleContext
+    onSaved: (body: string) => void
+    onCancel: () => void
+}
+
+// Post text editor that lints against the space's house style as you type
+export function PostBodyEditor({ postId, spaceId, title, body, context, onSaved, onCancel }: PostBodyEditorProps) {
+    const { user } = useAuthStore()
+    const [text, setText] = useState(body || '')
+    const [rules, setRules] = useState<StyleRules>(DEFAULT_STYLE_RULES)
+    const [isSaving, setIsSaving] = useState(false)
+
+    useEffect(() => {
+        supabase
+            .from('style_rules')
+            .select('rules')
+            .eq('space_id', spaceId)
+            .maybeSingle()
+            .then(({ data }) => setRules(normaliseStyleRules(data?.rules)))
+    }, [spaceId])
+
+    const issues = useMemo(() => lintStyle(text, rules, context), [text, rules, context])
+    const fixableCount = issues.filter(i => i.suggestion !== null).length
+
+    const handleSave = async () => {
+        const manual = issues.filter(i => i.suggestion === null)
+        if (manual.length > 0 && !confirm(`${manual.length} house style issue(s) still need a manual fix. Save anyway?`)) return
+
+        setIsSaving(true)
+        try {
+            const { error } = await supabase
+                .from('posts')
+                .update({ body: text, updated_at: new Date().toISOString() })
+                .eq('id', postId)
+
+            if (error) throw error
+
+            const { error: revisionError } = await supabase
+                .from('post_revisions')
+                .insert(buildRevision({
+                    postId,
+                    spaceId,
+                    title,
+                    body: text,
+                    source: 'manual_edit',
+                    authorId: user?.id,
+                    authorEmail: user?.email,
+                }))
+            if (revisionError) console.error('Error recording revision:', revisionError)
+
+            classifyAfterEdit(postId, body, text)
+            checkDuplicatesAfterEdit(postId, body, text)
+            onSaved(text)
+        } catch (error) {
+            console.error('Error saving post:', error)
+            alert(error instanceof Error ? error.message : 'Failed to save post')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <div className="space-y-3">
+            <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                rows={12}
+                className="w-full px-3 py-2 rounded-lg border border-[var(--color-gray-300)] text-sm text-[var(--color-gray-900)] resize-y focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] focus:border-transparent"
+            />
+
+            <div className="flex items-center justify-between text-xs text-[var(--color-gray-500)]">
+                <span>{text.length}{rules.max_length ? ` / ${rules.max_length}` : ''} characters</span>
+                {fixableCount > 0 && (
+                    <button
+                        onClick={() => setText(applyStyleFixes(text, rules, context).text)}
+                        className="flex items-center gap-1 font-medium text-[var(--color-primary)] hover:underline"
+                    >
+                        <Wand2 className="w-3 h-3" />
+                        Fix all ({fixableCount})
+                    </button>
+                )}
+            </div>
+
+            {issues.length === 0 ? (
+                <p className="text-sm text-green-700 flex items-center gap-2">
+                    <CheckCircle2 className="w-4 h-4" />
+                    Matches the house style.
+                </p>
+            ) : (
+                <ul className="space-y-1 max-h-48 overflow-y-auto">
+                    {issues.map((issue, i) => (
+                        <li key={`${issue.kind}-${issue.start}-${i}`} className="flex items-center justify-between gap-3 text-sm px-3 py-2 rounded-lg bg-amber-50">
+                            <span className="flex items-center gap-2 text-[var(--color-gray-700)]">
+                                <AlertTriangle className="w-3.5 h-3.5 text-amber-600 flex-shrink-0" />
+                                <span className="text-xs font-medium text-amber-700">{STYLE_ISSUE_LABELS[issue.kind]}</span>
+                                {issue.message}
+                            </span>
+                            {issue.suggestion !== null && (
+                                <button
+                                    onClick={() => setText(applyStyleFix(text, issue))}
+                                    className="text-xs font-medium text-[var(--color-primary)] hover:underline flex-shrink-0"
+                                >
+                                    Fix
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex justify-end gap-2">
+                <Button variant="secondary" size="sm" onClick={onCancel}>
+                    Cancel
+                </Button>
+                <Button size="sm" onClick={handleSave} disabled={isSaving || text === (body || '')}>
+                    {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                    Save
+                </Button>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,232 @@
+import { useState, useEffect, useMemo } from 'react'
+import { ChevronDown, ChevronRight, History, Loader2, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui'
+import { supabase } from '@/lib/supabase'
+import { REVISION_SOURCE_LABELS, buildRevision, type PostRevision } from '@/lib/revisions'
+import { diffStats, diffText, type DiffPart } from '@/lib/text-diff'
+import { classifyAfterEdit } from '@/lib/classify-post'
+import { checkDuplicatesAfterEdit } from '@/lib/check-duplicates'
+import { useAuthStore } from '@/stores/authStore'
+
+interface RevisionPost {
+    id: string
+    space_id: string
+    title: string
+    body: string | null
+}
+
+interface PostRevisionsProps {
+    post: RevisionPost
+    /** Called with the restored title and body */
+    onRestored: (changes: { title: string; body: string | null }) => void
+}
+
+// Compare against the post as it is now, even if it predates revision history
+const CURRENT = 'current'
+
+// Inline word diff, deletions struck through and insertions highlighted
+export function DiffView({ parts, className = '' }: { parts: DiffPart[]; className?: string }) {
+    return (
+        <div className={`whitespace-pre-wrap ${className}`}>
+            {parts.map((part, i) => (
+                part.op === 'insert' ? (
+                    <ins key={i} className="bg-green-100 text-green-900 no-underline rounded-sm">{part.text}</ins>
+                ) : part.op === 'delete' ? (
+                    <del key={i} className="bg-red-100 text-red-800 rounded-sm">{part.text}</del>
+                ) : (
+                    <span key={i}>{part.text}</span>
+                )
+            ))}
+        </div>
+    )
+}
+
+// Collapsible revision history with a diff between any two revisions
+export function PostRevisions({ post, onRestored }: PostRevisionsProps) {
+    const { user } = useAuthStore()
+    const [isOpen, setIsOpen] = useState(false)
+    const [revisions, setRevisions] = useState<PostRevision[]>([])
+    const [isLoading, setIsLoading] = useState(false)
+    const [fromId, setFromId] = useState('')
+    const [toId, setToId] = useState(CURRENT)
+    const [restoringId, setRestoringId] = useState<string | null>(null)
+
+    useEffect(() => {
+        if (!isOpen) return
+
+        setIsLoading(true)
+        supabase
+            .from('post_revisions')
+            .select('*')
+            .eq('post_id', post.id)
+            .order('created_at', { ascending: false })
+            .then(({ data }) => {
+                const loaded: PostRevision[] = data || []
+                setRevisions(loaded)
+                // Default to the latest change: the revision before the newest one
+                setFromId(loaded[1]?.id || loaded[0]?.id || CURRENT)
+                setToId(loaded[0]?.id || CURRENT)
+                setIsLoading(false)
+            })
+    }, [isOpen, post.id])
+
+    const textOf = (id: string) => {
+        if (id === CURRENT) return { title: post.title, body: post.body }
+        const revision = revisions.find(r => r.id === id)
+        return { title: revision?.title ?? '', body: revision?.body ?? '' }
+    }
+
+    const from = textOf(fromId)
+    const to = textOf(toId)
+    const bodyDiff = useMemo(() => diffText(from.body || '', to.body || ''), [from.body, to.body])
+    const stats = diffStats(bodyDiff)
+
+    const handleRestore = async (revision: PostRevision) => {
+        if (!confirm('Restore this revision? The current text is kept in the history.')) return
+
+        setRestoringId(revision.id)
+        try {
+            const title = revision.title ?? post.title
+            const { error } = await supabase
+                .from('posts')
+                .update({ title, body: revision.body, updated_at: new Date().toISOString() })
+                .eq('id', post.id)
+            if (error) throw error
+
+            const { data: restored, error: revisionError } = await supabase
+                .from('post_revisions')
+                .insert(buildRevision({
+                    postId: post.id,
+                    spaceId: post.space_id,
+                    title,
+                    body: revision.body,
+                    source: 'restore',
+                    authorId: user?.id,
+                    authorEmail: user?.email,
+                }))
+                .select('*')
+                .single()
+            if (revisionError) console.error('Error recording revision:', revisionError)
+
+            classifyAfterEdit(post.id, post.body, revision.body)
+            checkDuplicatesAfterEdit(post.id, post.body, revision.body)
+
+            if (restored) {
+                setRevisions(prev => [restored, ...prev])
+                setFromId(revisions[0]?.id || CURRENT)
+                setToId(restored.id)
+            }
+            onRestored({ title, body: revision.body })
+        } catch (error) {
+            console.error('Error restoring revision:', error)
+            alert(error instanceof Error ? error.message : 'Failed to restore revision')
+        } finally {
+            setRestoringId(null)
+        }
+    }
+
+    const revisionLabel = (revision: PostRevision) =>
+        `${new Date(revision.created_at).toLocaleString()} · ${REVISION_SOURCE_LABELS[revision.source]}`
+
+    return (
+        <div className="border border-[var(--color-gray-200)] rounded-xl">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between p-4 text-left"
+            >
+                <span className="flex items-center gap-2 text-sm font-medium text-[var(--color-gray-700)]">
+                    <History className="w-4 h-4 text-[var(--color-gray-500)]" />
+                    History
+                    {isOpen && !isLoading && (
+                        <span className="text-xs font-normal text-[var(--color-gray-500)]">
+                            {revisions.length} revision{revisions.length === 1 ? '' : 's'}
+                        </span>
+                    )}
+                </span>
+                {isOpen ? <ChevronDown className="w-4 h-4 text-[var(--color-gray-400)]" /> : <ChevronRight className="w-4 h-4 text-[var(--color-gray-400)]" />}
+            </button>
+
+            {isOpen && (
+                <div className="px-4 pb-4 space-y-4">
+                    {isLoading ? (
+                        <div className="flex justify-center py-4">
+                            <Loader2 className="w-5 h-5 animate-spin text-[var(--color-gray-400)]" />
+                        </div>
+                    ) : revisions.length === 0 ? (
+                        <p className="text-sm text-[var(--color-gray-500)]">
+                            No revisions recorded yet. Changes to this post will appear here.
+                        </p>
+                    ) : (
+                        <>
+                            <ul className="space-y-1 max-h-48 overflow-y-auto">
+                                {revisions.map((revision, i) => (
+                                    <li key={revision.id} className="flex items-center justify-between gap-3 text-sm px-3 py-2 rounded-lg hover:bg-[var(--color-gray-50)]">
+                                        <div className="min-w-0">
+                                            <div className="text-[var(--color-gray-800)]">
+                                                {REVISION_SOURCE_LABELS[revision.source]}
+                                                {i === 0 && <span className="ml-2 text-xs text-[var(--color-gray-400)]">latest</span>}
+                                            </div>
+                                            <div className="text-xs text-[var(--color-gray-500)] truncate">
+                                                {new Date(revision.created_at).toLocaleString()}
+                                                {revision.author_email && ` · ${revision.author_email}`}
+                                            </div>
+                                        </div>
+                                        {(revision.body !== post.body || (revision.title ?? post.title) !== post.title) && (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() => handleRestore(revision)}
+                                                disabled={restoringId !== null}
+                                            >
+                                                {restoringId === revision.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                                                Restore
+                                            </Button>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+
+                            <div className="space-y-2">
+                                <div className="flex items-center gap-2 text-xs">
+                                    <span className="text-[var(--color-gray-500)]">Compare</span>
+                                    <select
+                                        value={fromId}
+                                        onChange={(e) => setFromId(e.target.value)}
+                                        className="flex-1 min-w-0 border border-[var(--color-gray-300)] rounded-lg px-2 py-1"
+                                    >
+                                        {revisions.map(r => <option key={r.id} value={r.id}>{revisionLabel(r)}</option>)}
+                                        <option value={CURRENT}>Current post</option>
+                                    </select>
+                                    <span className="text-[var(--color-gray-500)]">to</span>
+                                    <select
+                                        value={toId}
+                                        onChange={(e) => setToId(e.target.value)}
+                                        className="flex-1 min-w-0 border border-[var(--color-gray-300)] rounded-lg px-2 py-1"
+                                    >
+                                        {revisions.map(r => <option key={r.id} value={r.id}>{revisionLabel(r)}</option>)}
+                                        <option value={CURRENT}>Current post</option>
+                                    </select>
+                                </div>
+                                {from.title !== to.title && (
+                                    <DiffView
+                                        parts={diffText(from.title || '', to.title || '')}
+                                        className="text-sm font-medium text-[var(--color-gray-800)]"
+                                    />
+                                )}
+                                <div className="text-xs text-[var(--color-gray-500)]">
+                                    {stats.inserted === 0 && stats.deleted === 0
+                                        ? 'No text changes'
+                                        : `+${stats.inserted} / -${stats.deleted} words`}
+                                </div>
+                                <DiffView
+                                    parts={bodyDiff}
+                                    className="bg-[var(--color-gray-50)] rounded-lg p-3 text-sm text-[var(--color-gray-700)] max-h-64 overflow-y-auto"
+                                />
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,236 @@
+import { useState, useMemo } from 'react'
+import { Check, Loader2, Pencil, RefreshCw, Wand2, X } from 'lucide-react'
+import { Button } from '@/components/ui'
+import { DiffView } from '@/components/posts/PostRevisions'
+import { supabase } from '@/lib/supabase'
+import { buildRevision } from '@/lib/revisions'
+import { diffStats, diffText } from '@/lib/text-diff'
+import { classifyAfterEdit } from '@/lib/classify-post'
+import { checkDuplicatesAfterEdit } from '@/lib/check-duplicates'
+import {
+    MAX_REWRITE_INSTRUCTION_LENGTH,
+    REWRITE_PRESETS,
+    appendRewriteRecord,
+    describeRewrite,
+    getRewriteHistory,
+    type RewritePresetKey,
+    type RewriteRecord,
+} from '@/lib/rewrite'
+import { useAuthStore } from '@/stores/authStore'
+
+interface RewritePost {
+    id: string
+    space_id: string
+    title: string
+    body: string | null
+    generation_meta: unknown
+}
+
+interface RewriteProposal {
+    body: string
+    instruction: string
+    preset: RewritePresetKey | null
+    provider?: string
+    model?: string
+}
+
+interface PostRewriteProps {
+    post: RewritePost
+    /** Called with the accepted body and the post's updated generation_meta */
+    onAccepted: (changes: { body: string; generation_meta: Record<string, unknown> }) => void
+    onCancel: () => void
+}
+
+// Rewrites a post to one instruction and shows the proposal as a diff to accept, tweak or reject
+export function PostRewrite({ post, onAccepted, onCancel }: PostRewriteProps) {
+    const { user } = useAuthStore()
+    const [preset, setPreset] = useState<RewritePresetKey | null>(null)
+    const [instruction, setInstruction] = useState('')
+    const [proposal, setProposal] = useState<RewriteProposal | null>(null)
+    const [draft, setDraft] = useState('')
+    const [isTweaking, setIsTweaking] = useState(false)
+    const [isRewriting, setIsRewriting] = useState(false)
+    const [isSaving, setIsSaving] = useState(false)
+
+    const original = post.body || ''
+    const parts = useMemo(() => diffText(original, draft), [original, draft])
+    const stats = diffStats(parts)
+    const canRewrite = !!preset || !!instruction.trim()
+    const history = getRewriteHistory(post.generation_meta)
+    const lastRewrite = history[history.length - 1]
+
+    const handleRewrite = async () => {
+        setIsRewriting(true)
+        try {
+            const { data, error } = await supabase.functions.invoke('rewrite-post', {
+                body: { post_id: post.id, preset, instruction: instruction.trim() },
+            })
+            if (error) throw error
+            if (data?.error) throw new Error(data.error)
+
+            setProposal({
+                body: data.body,
+                instruction: data.instruction,
+                preset: data.preset,
+                provider: data.provider,
+                model: data.model,
+            })
+            setDraft(data.body)
+            setIsTweaking(false)
+        } catch (error) {
+            console.error('Error rewriting post:', error)
+            alert(error instanceof Error ? error.message : 'Failed to rewrite post')
+        } finally {
+            setIsRewriting(false)
+        }
+    }
+
+    const handleAccept = async () => {
+        if (!proposal || !draft.trim()) return
+
+        setIsSaving(true)
+        try {
+            const record: RewriteRecord = {
+                instruction: proposal.instruction,
+                preset: proposal.preset,
+                provider: proposal.provider,
+                model: proposal.model,
+                edited: draft !== proposal.body,
+                accepted_at: new Date().toISOString(),
+            }
+            const generationMeta = appendRewriteRecord(post.generation_meta, record)
+
+            const { error } = await supabase
+                .from('posts')
+                .update({ body: draft, generation_meta: generationMeta, updated_at: new Date().toISOString() })
+                .eq('id', post.id)
+            if (error) throw error
+
+            const { error: revisionError } = await supabase
+                .from('post_revisions')
+                .insert(buildRevision({
+                    postId: post.id,
+                    spaceId: post.space_id,
+                    title: post.title,
+                    body: draft,
+                    source: 'ai_rewrite',
+                    authorId: user?.id,
+                    authorEmail: user?.email,
+                }))
+            if (revisionError) console.error('Error recording revision:', revisionError)
+
+            classifyAfterEdit(post.id, post.body, draft)
+            checkDuplicatesAfterEdit(post.id, post.body, draft)
+            onAccepted({ body: draft, generation_meta: generationMeta })
+        } catch (error) {
+            console.error('Error saving rewrite:', error)
+            alert(error instanceof Error ? error.message : 'Failed to save rewrite')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const handleReject = () => {
+        setProposal(null)
+        setDraft('')
+        setIsTweaking(false)
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+                {REWRITE_PRESETS.map(p => (
+                    <button
+                        key={p.key}
+                        onClick={() => setPreset(preset === p.key ? null : p.key)}
+                        title={p.instruction}
+                        className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${preset === p.key
+                            ? 'bg-[var(--color-primary)] text-white border-[var(--color-primary)]'
+                            : 'bg-white text-[var(--color-gray-700)] border-[var(--color-gray-300)] hover:border-[var(--color-primary)]'}`}
+                    >
+                        {p.label}
+                    </button>
+                ))}
+            </div>
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && canRewrite && !isRewriting && handleRewrite()}
+                    maxLength={MAX_REWRITE_INSTRUCTION_LENGTH}
+                    placeholder={preset ? 'Anything else? (optional)' : 'Or describe the change, e.g. "mention the webinar date"'}
+                    className="flex-1 px-3 py-1.5 border border-[var(--color-gray-300)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] focus:border-transparent"
+                />
+                <Button size="sm" onClick={handleRewrite} disabled={!canRewrite || isRewriting || isSaving}>
+                    {isRewriting
+                        ? <Loader2 className="w-4 h-4 animate-spin" />
+                        : proposal ? <RefreshCw className="w-4 h-4" /> : <Wand2 className="w-4 h-4" />}
+                    {proposal ? 'Try again' : 'Rewrite'}
+                </Button>
+            </div>
+
+            {proposal ? (
+                <>
+                    <div className="flex items-center justify-between text-xs text-[var(--color-gray-500)]">
+                        <span>
+                            <span className="text-green-700">+{stats.inserted}</span>{' '}
+                            <span className="text-red-700">−{stats.deleted}</span> words
+                            {draft !== proposal.body && ' · tweaked'}
+                        </span>
+                        <button
+                            onClick={() => setIsTweaking(!isTweaking)}
+                            className="flex items-center gap-1 font-medium text-[var(--color-primary)] hover:underline"
+                        >
+                            <Pencil className="w-3 h-3" />
+                            {isTweaking ? 'Show diff' : 'Tweak'}
+                        </button>
+                    </div>
+                    {isTweaking ? (
+                        <textarea
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            rows={12}
+                            className="w-full px-3 py-2 rounded-lg border border-[var(--color-gray-300)] text-sm text-[var(--color-gray-900)] resize-y focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)] focus:border-transparent"
+                        />
+                    ) : (
+                        <DiffView
+                            parts={parts}
+                            className="bg-[var(--color-gray-50)] rounded-lg p-4 text-sm text-[var(--color-gray-700)] max-h-72 overflow-y-auto"
+                        />
+                    )}
+                </>
+            ) : (
+                <>
+                    {lastRewrite && (
+                        <p className="text-xs text-[var(--color-gray-500)]">
+                            Last rewrite: {describeRewrite(lastRewrite)} · {new Date(lastRewrite.accepted_at).toLocaleDateString()}
+                            {lastRewrite.edited && ' (tweaked)'}
+                        </p>
+                    )}
+                    <div className="bg-[var(--color-gray-50)] rounded-lg p-4 text-sm text-[var(--color-gray-700)] whitespace-pre-wrap max-h-48 overflow-y-auto">
+                        {original}
+                    </div>
+                </>
+            )}
+
+            <div className="flex justify-end gap-2">
+                <Button variant="secondary" size="sm" onClick={onCancel}>
+                    Cancel
+                </Button>
+                {proposal && (
+                    <>
+                        <Button variant="secondary" size="sm" onClick={handleReject} disabled={isSaving}>
+                            <X className="w-4 h-4" />
+                            Reject
+                        </Button>
+                        <Button size="sm" onClick={handleAccept} disabled={isSaving || isRewriting || !draft.trim()}>
+                            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                            Accept
+                        </Button>
+                    </>
+                )}
+            </div>
+        </div>
+    )
+}
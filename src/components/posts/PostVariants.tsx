@@ -0,0 +1,241 @@
+import { useState, useEffect } from 'react'
+import { CheckCircle2, CopyPlus, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui'
+import { GroundingBadge } from '@/components/posts/GroundingPanel'
+import { supabase } from '@/lib/supabase'
+import { getGroundingReport } from '@/lib/grounding'
+import { buildRevision } from '@/lib/revisions'
+import { classifyAfterEdit } from '@/lib/classify-post'
+import { checkDuplicatesAfterEdit } from '@/lib/check-duplicates'
+import { VARIANT_ANGLE_LABELS, type PostVariant } from '@/lib/variants'
+import { useAuthStore } from '@/stores/authStore'
+import type { Database, Json } from '@/types/database'
+
+type Post = Database['public']['Tables']['posts']['Row']
+
+interface PostVariantsProps {
+    post: Post
+    /** Called with the post fields that changed when a variant is chosen */
+    onSelected: (changes: Pick<Post, 'body' | 'generation_meta'>) => void
+    /** Called after a variant has been saved as a new post */
+    onReused: () => void
+}
+
+// Side-by-side comparison of the variants generated for a post's topic
+export function PostVariants({ post, onSelected, onReused }: PostVariantsProps) {
+    const { user } = useAuthStore()
+    const [variants, setVariants] = useState<PostVariant[]>([])
+    const [busyVariantId, setBusyVariantId] = useState<string | null>(null)
+
+    useEffect(() => {
+        supabase
+            .from('post_variants')
+            .select('*')
+            .eq('post_id', post.id)
+            .order('variant_index', { ascending: true })
+            .then(({ data }) => setVariants(data || []))
+    }, [post.id])
+
+    if (variants.length < 2) return null
+
+    const selectedVariant = variants.find(v => v.is_selected)
+
+    const handleSelect = async (variant: PostVariant) => {
+        // posts.body only differs from the selected variant once someone has edited it
+        if (selectedVariant && post.body !== selectedVariant.body && !confirm('Replace your edited post text with this variant?')) return
+
+        setBusyVariantId(variant.id)
+        try {
+            const { error: clearError } = await supabase
+                .from('post_variants')
+                .update({ is_selected: false })
+                .eq('post_id', post.id)
+            if (clearError) throw clearError
+
+            const { error: selectError } = await supabase
+                .from('post_variants')
+                .update({ is_selected: true })
+                .eq('id', variant.id)
+            if (selectError) throw selectError
+
+            // Token counts on the post already cover every variant
+            const { angle, temperature, grounding, style } = variant.generation_meta as Record<string, Json>
+            const generationMeta = {
+                ...(post.generation_meta as Record<string, Json>),
+                angle,
+                temperature,
+                grounding,
+                style,
+                variants: { count: variants.length, selected_index: variant.variant_index },
+            }
+
+            const { error: postError } = await supabase
+                .from('posts')
+                .update({
+                    body: variant.body,
+                    generation_meta: generationMeta,
+                    updated_at: new Date().toISOString(),
+                })
+                .eq('id', post.id)
+            if (postError) throw postError
+
+            const { error: revisionError } = await supabase
+                .from('post_revisions')
+                .insert(buildRevision({
+                    postId: post.id,
+                    spaceId: post.space_id,
+                    title: post.title,
+                    body: variant.body,
+                    source: 'variant_select',
+                    authorId: user?.id,
+                    authorEmail: user?.email,
+                }))
+            if (revisionError) console.error('Error recording revision:', revisionError)
+
+            classifyAfterEdit(post.id, post.body, variant.body)
+            checkDuplicatesAfterEdit(post.id, post.body, variant.body)
+            setVariants(prev => prev.map(v => ({ ...v, is_selected: v.id === variant.id })))
+            onSelected({ body: variant.body, generation_meta: generationMeta })
+        } catch (error) {
+            console.error('Error selecting variant:', error)
+            alert(error instanceof Error ? error.message : 'Failed to select variant')
+        } finally {
+            setBusyVariantId(null)
+        }
+    }
+
+    // Keep a losing variant by turning it into a post of its own
+    const handleReuse = async (variant: PostVariant) => {
+        if (!user) return
+
+        setBusyVariantId(variant.id)
+        try {
+            let sequenceNumber: number | null = null
+            if (post.campaign_id) {
+                const { data: last } = await supabase
+                    .from('posts')
+                    .select('sequence_number')
+                    .eq('campaign_id', post.campaign_id)
+                    .order('sequence_number', { ascending: false, nullsFirst: false })
+                    .limit(1)
+                    .maybeSingle()
+                sequenceNumber = (last?.sequence_number || 0) + 1
+            }
+
+            const { data: newPost, error: postError } = await supabase
+                .from('posts')
+                .insert({
+                    space_id: post.space_id,
+                    campaign_id: post.campaign_id,
+                    title: post.title,
+                    topic: post.topic,
+                    body: variant.body,
+                    status: 'draft',
+                    author_id: user.id,
+                    sequence_number: sequenceNumber,
+                    sources_used: post.sources_used,
+                    generation_meta: {
+                        ...variant.generation_meta,
+                        reused_from: { post_id: post.id, variant_id: variant.id },
+                    },
+                    image_status: 'none',
+                    overlay_status: 'none',
+                })
+                .select('id')
+                .single()
+            if (postError) throw postError
+
+            const { error: revisionError } = await supabase
+                .from('post_revisions')
+                .insert(buildRevision({
+                    postId: newPost.id,
+                    spaceId: post.space_id,
+                    title: post.title,
+                    body: variant.body,
+                    source: 'ai_generation',
+                    authorId: user.id,
+                    authorEmail: user.email,
+                }))
+            if (revisionError) console.error('Error recording revision:', revisionError)
+
+            const { error: variantError } = await supabase
+                .from('post_variants')
+                .update({ reused_post_id: newPost.id })
+                .eq('id', variant.id)
+            if (variantError) throw variantError
+
+            classifyAfterEdit(newPost.id, null, variant.body)
+            checkDuplicatesAfterEdit(newPost.id, null, variant.body)
+            setVariants(prev => prev.map(v => v.id === variant.id ? { ...v, reused_post_id: newPost.id } : v))
+            onReused()
+        } catch (error) {
+            console.error('Error reusing variant:', error)
+            alert(error instanceof Error ? error.message : 'Failed to save variant as a new post')
+        } finally {
+            setBusyVariantId(null)
+        }
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-[var(--color-gray-700)]">Variants</h3>
+                <span className="text-xs text-[var(--color-gray-500)]">
+                    {variants.length} versions of this topic. Pick one to use as the post.
+                </span>
+            </div>
+            <div className={`grid gap-3 ${variants.length === 3 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+                {variants.map(variant => (
+                    <div
+                        key={variant.id}
+                        className={`flex flex-col rounded-xl border p-3 ${variant.is_selected
+                            ? 'border-[var(--color-primary)] ring-1 ring-[var(--color-primary)]'
+                            : 'border-[var(--color-gray-200)]'
+                            }`}
+                    >
+                        <div className="flex items-center justify-between gap-2 mb-2">
+                            <span className="text-xs font-medium text-[var(--color-gray-700)]">
+                                {variant.angle ? VARIANT_ANGLE_LABELS[variant.angle] : `Variant ${variant.variant_index + 1}`}
+                            </span>
+                            <GroundingBadge body={variant.body} report={getGroundingReport(variant.generation_meta)} />
+                        </div>
+                        <div className="flex-1 text-sm text-[var(--color-gray-800)] whitespace-pre-wrap max-h-72 overflow-y-auto mb-3">
+                            {variant.body}
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="text-xs text-[var(--color-gray-400)]">{variant.body.length} chars</span>
+                            {variant.is_selected ? (
+                                <span className="flex items-center gap-1 text-xs font-medium text-[var(--color-primary)]">
+                                    <CheckCircle2 className="w-3.5 h-3.5" />
+                                    In use
+                                </span>
+                            ) : (
+                                <div className="flex items-center gap-1">
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => handleReuse(variant)}
+                                        disabled={busyVariantId !== null || !!variant.reused_post_id}
+                                        title={variant.reused_post_id ? 'Already saved as a post' : 'Save as a new post'}
+                                    >
+                                        <CopyPlus className="w-4 h-4" />
+                                        {variant.reused_post_id ? 'Saved' : 'New post'}
+                                    </Button>
+                                    <Button
+                                        variant="secondary"
+                                        size="sm"
+                                        onClick={() => handleSelect(variant)}
+                                        disabled={busyVariantId !== null}
+                                    >
+                                        {busyVariantId === variant.id && <Loader2 className="w-4 h-4 animate-spin" />}
+                                        Use this
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
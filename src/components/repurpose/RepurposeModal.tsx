@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Check, ExternalLink, Layers, Recycle } from 'lucide-react'
+import { Button, Input, Modal } from '@/components/ui'
+import { supabase } from '@/lib/supabase'
+import {
+    DEFAULT_PACK_LAYERS,
+    DEFAULT_PACK_POSTS,
+    MAX_PACK_POSTS,
+    MIN_PACK_POSTS,
+} from '@/lib/repurpose'
+import { CONTENT_LAYERS, type ContentLayer } from '@/types/database'
+
+export interface RepurposeDocument {
+    id: string
+    title: string | null
+    url: string | null
+    source_type: string
+}
+
+interface RepurposeModalProps {
+    spaceId: string
+    document: RepurposeDocument
+    onClose: () => void
+}
+
+interface RepurposeResult {
+    campaignId: string
+    postsCreated: number
+    carouselPostId: string | null
+}
+
+const selectClassName = 'w-full px-3 py-2 border border-[var(--color-gray-300)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]/30 focus:border-[var(--color-primary)]'
+
+// Turns one source document into a pack of draft posts and a carousel outline in a campaign
+export function RepurposeModal({ spaceId, document, onClose }: RepurposeModalProps) {
+    const navigate = useNavigate()
+    const [campaigns, setCampaigns] = useState<{ id: string; name: string }[]>([])
+    const [campaignId, setCampaignId] = useState('')
+    const [postCount, setPostCount] = useState(DEFAULT_PACK_POSTS)
+    const [layers, setLayers] = useState<ContentLayer[]>(DEFAULT_PACK_LAYERS)
+    const [includeCarousel, setIncludeCarousel] = useState(true)
+    const [isRepurposing, setIsRepurposing] = useState(false)
+    const [result, setResult] = useState<RepurposeResult | null>(null)
+
+    useEffect(() => {
+        const fetchCampaigns = async () => {
+            const { data, error } = await supabase
+                .from('campaigns')
+                .select('id, name')
+                .eq('space_id', spaceId)
+                .order('created_at', { ascending: false })
+
+            if (error) console.error('Error fetching campaigns:', error)
+            setCampaigns(data || [])
+            if (data?.length) setCampaignId(data[0].id)
+        }
+
+        fetchCampaigns()
+    }, [spaceId])
+
+    const toggleLayer = (layer: ContentLayer) => {
+        setLayers(prev => prev.includes(layer) ? prev.filter(l => l !== layer) : [...prev, layer])
+    }
+
+    const handleRepurpose = async () => {
+        if (!campaignId || layers.length === 0) return
+
+        setIsRepurposing(true)
+        try {
+            const { data, error } = await supabase.functions.invoke('repurpose-document', {
+                body: {
+                    source_document_id: document.id,
+                    campaign_id: campaignId,
+                    post_count: postCount,
+                    layers,
+                    include_carousel: includeCarousel,
+                },
+            })
+
+            if (error) throw error
+            if (data?.error) throw new Error(data.error)
+
+            setResult({
+                campaignId,
+                postsCreated: data.posts_created,
+                carouselPostId: data.carousel_post_id,
+            })
+        } catch (error) {
+            console.error('Error repurposing document:', error)
+            alert(error instanceof Error ? error.message : 'Failed to repurpose document')
+        } finally {
+            setIsRepurposing(false)
+        }
+    }
+
+    const documentName = document.title || document.url || 'Untitled'
+
+    if (result) {
+        return (
+            <Modal
+                isOpen
+                onClose={onClose}
+                title="Pack ready"
+                footer={
+                    <>
+                        <Button variant="secondary" onClick={onClose}>Close</Button>
+                        <Button onClick={() => navigate(`/campaign/${result.campaignId}`)}>
+                            Open campaign
+                            <ExternalLink className="w-4 h-4" />
+                        </Button>
+                    </>
+                }
+            >
+                <div className="space-y-4">
+                    <div className="flex items-start gap-3">
+                        <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center shrink-0">
+                            <Check className="w-4 h-4 text-green-600" />
+                        </div>
+                        <p className="text-sm text-[var(--color-gray-700)]">
+                            {result.postsCreated} draft posts were written from <span className="font-medium">{documentName}</span>, each with a suggested image prompt.
+                        </p>
+                    </div>
+                    {result.carouselPostId && (
+                        <div className="p-4 bg-[var(--color-gray-50)] border border-[var(--color-gray-200)] rounded-lg flex items-center justify-between gap-3">
+                            <p className="text-sm text-[var(--color-gray-600)]">The carousel outline is saved with its post and can be turned into slides.</p>
+                            <Button variant="secondary" size="sm" onClick={() => navigate(`/image-studio?carousel=${result.carouselPostId}`)}>
+                                <Layers className="w-4 h-4" />
+                                Open in Image Studio
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            </Modal>
+        )
+    }
+
+    return (
+        <Modal
+            isOpen
+            onClose={onClose}
+            title="Repurpose document"
+            size="lg"
+            footer={
+                <>
+                    <Button variant="secondary" onClick={onClose}>Cancel</Button>
+                    <Button onClick={handleRepurpose} isLoading={isRepurposing} disabled={!campaignId || layers.length === 0}>
+                        <Recycle className="w-4 h-4" />
+                        Write {postCount} posts{includeCarousel ? ' and a carousel' : ''}
+                    </Button>
+                </>
+            }
+        >
+            <div className="space-y-4">
+                <div className="p-3 bg-[var(--color-gray-50)] border border-[var(--color-gray-200)] rounded-lg text-sm">
+                    <p className="font-medium text-[var(--color-gray-900)] truncate">{documentName}</p>
+                    <p className="text-xs text-[var(--color-gray-500)]">
+                        {document.source_type === 'sharepoint' ? 'SharePoint document' : document.source_type === 'manual' ? 'Uploaded document' : 'Website page'}
+                    </p>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-[var(--color-gray-700)] mb-1">Campaign</label>
+                    {campaigns.length > 0 ? (
+                        <select value={campaignId} onChange={(e) => setCampaignId(e.target.value)} className={selectClassName}>
+                            {campaigns.map(campaign => (
+                                <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+                            ))}
+                        </select>
+                    ) : (
+                        <p className="text-sm text-[var(--color-gray-500)]">No campaigns yet. Create a campaign first; the posts are added to it as drafts.</p>
+                    )}
+                </div>
+
+                <Input
+                    label="Posts"
+                    type="number"
+                    min={MIN_PACK_POSTS}
+                    max={MAX_PACK_POSTS}
+                    value={postCount}
+                    onChange={(e) => setPostCount(Math.min(MAX_PACK_POSTS, Math.max(MIN_PACK_POSTS, Number(e.target.value) || MIN_PACK_POSTS)))}
+                />
+
+                <div>
+                    <label className="block text-sm font-medium text-[var(--color-gray-700)] mb-2">Spread across layers</label>
+                    <div className="flex flex-wrap gap-2">
+                        {CONTENT_LAYERS.map(layer => (
+                            <button
+                                key={layer.value}
+                                onClick={() => toggleLayer(layer.value)}
+                                title={layer.description}
+                                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${layers.includes(layer.value)
+                                    ? 'bg-[var(--color-primary)] text-white'
+                                    : 'bg-[var(--color-gray-100)] text-[var(--color-gray-600)] hover:bg-[var(--color-gray-200)]'
+                                    }`}
+                            >
+                                {layer.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-[var(--color-gray-600)]">
+                    <input
+                        type="checkbox"
+                        checked={includeCarousel}
+                        onChange={(e) => setIncludeCarousel(e.target.checked)}
+                        className="w-4 h-4 rounded"
+                    />
+                    Add a carousel outline for Image Studio
+                </label>
+            </div>
+        </Modal>
+    )
+}
@@ -0,0 +1,103 @@
+import { useEffect, useMemo, useState } from 'react'
+import { FileText, Globe, Recycle, Search, Upload } from 'lucide-react'
+import { Button } from '@/components/ui'
+import { supabase } from '@/lib/supabase'
+import { RepurposeModal, type RepurposeDocument } from './RepurposeModal'
+
+// Documents listed before "Show all"
+const COLLAPSED_COUNT = 8
+
+// Crawled pages, synced and uploaded documents, each of which can be repurposed into a post pack
+export function SourceDocumentsPanel({ spaceId }: { spaceId: string }) {
+    const [documents, setDocuments] = useState<RepurposeDocument[]>([])
+    const [search, setSearch] = useState('')
+    const [showAll, setShowAll] = useState(false)
+    const [repurposing, setRepurposing] = useState<RepurposeDocument | null>(null)
+
+    useEffect(() => {
+        const fetchDocuments = async () => {
+            const { data, error } = await supabase
+                .from('source_documents')
+                .select('id, title, url, source_type')
+                .eq('space_id', spaceId)
+                .not('content', 'is', null)
+                .order('title', { ascending: true })
+                .limit(500)
+
+            if (error) console.error('Error fetching source documents:', error)
+            setDocuments(data || [])
+        }
+
+        fetchDocuments()
+    }, [spaceId])
+
+    const filtered = useMemo(() => {
+        const term = search.trim().toLowerCase()
+        return term
+            ? documents.filter(d => `${d.title || ''} ${d.url || ''}`.toLowerCase().includes(term))
+            : documents
+    }, [documents, search])
+
+    if (documents.length === 0) return null
+
+    const visible = showAll ? filtered : filtered.slice(0, COLLAPSED_COUNT)
+
+    return (
+        <div className="bg-white rounded-xl border border-[var(--color-gray-200)] p-6 mb-8">
+            <div className="flex items-center justify-between gap-4 mb-4">
+                <div>
+                    <h3 className="font-semibold text-[var(--color-gray-900)]">Source Documents</h3>
+                    <p className="text-sm text-[var(--color-gray-500)]">
+                        Repurpose a case study or whitepaper into a pack of draft posts and a carousel
+                    </p>
+                </div>
+                <div className="relative w-56 shrink-0">
+                    <Search className="w-4 h-4 text-[var(--color-gray-400)] absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Filter documents..."
+                        className="w-full pl-9 pr-3 py-2 border border-[var(--color-gray-300)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]/30 focus:border-[var(--color-primary)]"
+                    />
+                </div>
+            </div>
+
+            <div className="divide-y divide-[var(--color-gray-100)]">
+                {visible.map(doc => (
+                    <div key={doc.id} className="py-2.5 flex items-center justify-between gap-3">
+                        <div className="flex items-center gap-3 min-w-0">
+                            {doc.source_type === 'sharepoint'
+                                ? <FileText className="w-4 h-4 text-[var(--color-gray-400)] shrink-0" />
+                                : doc.source_type === 'manual'
+                                    ? <Upload className="w-4 h-4 text-[var(--color-gray-400)] shrink-0" />
+                                    : <Globe className="w-4 h-4 text-[var(--color-gray-400)] shrink-0" />}
+                            <div className="min-w-0">
+                                <p className="text-sm font-medium text-[var(--color-gray-900)] truncate">{doc.title || doc.url || 'Untitled'}</p>
+                                {doc.url && doc.title && (
+                                    <p className="text-xs text-[var(--color-gray-500)] truncate">{doc.url}</p>
+                                )}
+                            </div>
+                        </div>
+                        <Button variant="ghost" size="sm" onClick={() => setRepurposing(doc)}>
+                            <Recycle className="w-4 h-4" />
+                            Repurpose
+                        </Button>
+                    </div>
+                ))}
+            </div>
+
+            {filtered.length > COLLAPSED_COUNT && (
+                <button
+                    onClick={() => setShowAll(!showAll)}
+                    className="mt-3 text-sm text-[var(--color-primary)] hover:underline"
+                >
+                    {showAll ? 'Show fewer' : `Show all ${filtered.length} documents`}
+                </button>
+            )}
+
+            {repurposing && (
+                <RepurposeModal spaceId={spaceId} document={repurposing} onClose={() => setRepurposing(null)} />
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,2 @@
+export { RepurposeModal } from './RepurposeModal'
+export { SourceDocumentsPanel } from './SourceDocumentsPanel'
@@ -0,0 +1,20 @@
+import { Layers } from 'lucide-react'
+
+interface SeriesBadgeProps {
+    part: number
+    total?: number | null
+    title?: string | null
+}
+
+// "2/5" marker for a post that is one part of a series
+export function SeriesBadge({ part, total, title }: SeriesBadgeProps) {
+    return (
+        <span
+            className="inline-flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded bg-indigo-100 text-indigo-700"
+            title={title ? `${title}, part ${part}${total ? ` of ${total}` : ''}` : undefined}
+        >
+            <Layers className="w-3 h-3" />
+            {total ? `${part}/${total}` : `Part ${part}`}
+        </span>
+    )
+}
@@ -0,0 +1,192 @@
+import { useEffect, useState } from 'react'
+import { Layers } from 'lucide-react'
+import { Button, Input, Modal, Textarea } from '@/components/ui'
+import { supabase } from '@/lib/supabase'
+import {
+    DEFAULT_SERIES_PARTS,
+    DEFAULT_SERIES_POST_TIME,
+    DEFAULT_SERIES_SPACING_DAYS,
+    MAX_SERIES_PARTS,
+    MIN_SERIES_PARTS,
+    seriesPartLabel,
+    type SeriesPlan,
+} from '@/lib/series'
+import type { PostSeries } from '@/lib/post-series'
+import type { Job } from '@/lib/jobs'
+import { useJobStore } from '@/stores/jobStore'
+
+interface SeriesCreateModalProps {
+    spaceId: string
+    userId: string
+    onClose: () => void
+    /** Called once the series is planned and the job writing its parts is queued */
+    onCreated: (series: PostSeries, job: Job) => void
+}
+
+interface SourceDocumentOption {
+    id: string
+    title: string | null
+    url: string | null
+    source_type: string
+}
+
+const selectClassName = 'w-full px-3 py-2 border border-[var(--color-gray-300)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]/30 focus:border-[var(--color-primary)]'
+
+// Plans a series from one long document, then queues a job that writes the parts in order
+export function SeriesCreateModal({ spaceId, userId, onClose, onCreated }: SeriesCreateModalProps) {
+    const { enqueueJob } = useJobStore()
+    const [documents, setDocuments] = useState<SourceDocumentOption[]>([])
+    const [sourceMode, setSourceMode] = useState<'document' | 'text'>('document')
+    const [documentId, setDocumentId] = useState('')
+    const [sourceText, setSourceText] = useState('')
+    const [title, setTitle] = useState('')
+    const [partCount, setPartCount] = useState(DEFAULT_SERIES_PARTS)
+    const [spacingDays, setSpacingDays] = useState(DEFAULT_SERIES_SPACING_DAYS)
+    const [isPlanning, setIsPlanning] = useState(false)
+
+    useEffect(() => {
+        const fetchDocuments = async () => {
+            const { data, error } = await supabase
+                .from('source_documents')
+                .select('id, title, url, source_type')
+                .eq('space_id', spaceId)
+                .not('content', 'is', null)
+                .order('title', { ascending: true })
+                .limit(500)
+
+            if (error) console.error('Error fetching source documents:', error)
+            setDocuments(data || [])
+            if (!data?.length) setSourceMode('text')
+        }
+
+        fetchDocuments()
+    }, [spaceId])
+
+    const hasSource = sourceMode === 'document' ? !!documentId : !!sourceText.trim()
+
+    const handleCreate = async () => {
+        if (!hasSource) return
+
+        setIsPlanning(true)
+        try {
+            const { data, error } = await supabase.functions.invoke('plan-series', {
+                body: {
+                    space_id: spaceId,
+                    title: title.trim() || null,
+                    source_document_id: sourceMode === 'document' ? documentId : null,
+                    source_text: sourceMode === 'text' ? sourceText : null,
+                    part_count: partCount,
+                    spacing_days: spacingDays,
+                    post_time: DEFAULT_SERIES_POST_TIME,
+                },
+            })
+
+            if (error) throw error
+            if (data?.error) throw new Error(data.error)
+
+            const series = data.series as PostSeries
+            const plan = series.plan as unknown as SeriesPlan
+            const job = await enqueueJob({
+                spaceId,
+                userId,
+                type: 'generate_series',
+                payload: { series_id: series.id },
+                items: plan.parts.map((part, i) => ({
+                    key: String(i + 1),
+                    label: `${seriesPartLabel(i + 1, plan.parts.length)}: ${part.title}`,
+                })),
+            })
+
+            onCreated(series, job)
+        } catch (error) {
+            console.error('Error creating series:', error)
+            alert(error instanceof Error ? error.message : 'Failed to create series')
+        } finally {
+            setIsPlanning(false)
+        }
+    }
+
+    return (
+        <Modal
+            isOpen
+            onClose={onClose}
+            title="New series from a document"
+            size="lg"
+            footer={
+                <>
+                    <Button variant="secondary" onClick={onClose}>Cancel</Button>
+                    <Button onClick={handleCreate} isLoading={isPlanning} disabled={!hasSource}>
+                        <Layers className="w-4 h-4" />
+                        Plan and write {partCount} parts
+                    </Button>
+                </>
+            }
+        >
+            <div className="space-y-4">
+                <Input
+                    label="Series title"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder="Leave blank to use the title suggested from the document"
+                />
+
+                <div>
+                    <div className="flex gap-2 mb-2">
+                        {(['document', 'text'] as const).map(mode => (
+                            <button
+                                key={mode}
+                                onClick={() => setSourceMode(mode)}
+                                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${sourceMode === mode
+                                    ? 'bg-[var(--color-primary)] text-white'
+                                    : 'bg-[var(--color-gray-100)] text-[var(--color-gray-600)] hover:bg-[var(--color-gray-200)]'
+                                    }`}
+                            >
+                                {mode === 'document' ? 'Source document' : 'Paste text'}
+                            </button>
+                        ))}
+                    </div>
+                    {sourceMode === 'document' ? (
+                        documents.length > 0 ? (
+                            <select value={documentId} onChange={(e) => setDocumentId(e.target.value)} className={selectClassName}>
+                                <option value="">Choose a crawled or synced document...</option>
+                                {documents.map(doc => (
+                                    <option key={doc.id} value={doc.id}>
+                                        {doc.title || doc.url || 'Untitled'} ({doc.source_type})
+                                    </option>
+                                ))}
+                            </select>
+                        ) : (
+                            <p className="text-sm text-[var(--color-gray-500)]">No source documents yet. Crawl your website or sync SharePoint in Brand Studio, or paste the text.</p>
+                        )
+                    ) : (
+                        <Textarea
+                            value={sourceText}
+                            onChange={(e) => setSourceText(e.target.value)}
+                            placeholder="Paste a case study, report or long article..."
+                            rows={8}
+                        />
+                    )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                    <Input
+                        label="Parts"
+                        type="number"
+                        min={MIN_SERIES_PARTS}
+                        max={MAX_SERIES_PARTS}
+                        value={partCount}
+                        onChange={(e) => setPartCount(Math.min(MAX_SERIES_PARTS, Math.max(MIN_SERIES_PARTS, Number(e.target.value) || MIN_SERIES_PARTS)))}
+                    />
+                    <Input
+                        label="Days between parts"
+                        type="number"
+                        min={1}
+                        max={60}
+                        value={spacingDays}
+                        onChange={(e) => setSpacingDays(Math.max(1, Number(e.target.value) || 1))}
+                    />
+                </div>
+            </div>
+        </Modal>
+    )
+}
@@ -0,0 +1,103 @@
+import { useMemo, useState } from 'react'
+import { CalendarClock } from 'lucide-react'
+import { Button, Input, Modal, StatusBadge } from '@/components/ui'
+import { isSchedulablePart, scheduleSeries, type PostSeries, type SeriesPost } from '@/lib/post-series'
+import { seriesPartLabel, seriesScheduleDates } from '@/lib/series'
+
+interface SeriesScheduleModalProps {
+    series: PostSeries
+    /** The series' posts in part order */
+    posts: SeriesPost[]
+    /** First date offered, YYYY-MM-DD; defaults to tomorrow */
+    initialDate?: string
+    onClose: () => void
+    onScheduled: (posts: SeriesPost[]) => void
+}
+
+const toDateInput = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+// Puts the unpublished parts of a series on the calendar as a block, a fixed number of days apart
+export function SeriesScheduleModal({ series, posts, initialDate, onClose, onScheduled }: SeriesScheduleModalProps) {
+    const [startDate, setStartDate] = useState(() => initialDate || toDateInput(new Date(Date.now() + 24 * 60 * 60 * 1000)))
+    const [time, setTime] = useState(series.post_time)
+    const [spacingDays, setSpacingDays] = useState(series.spacing_days)
+    const [isSaving, setIsSaving] = useState(false)
+
+    const schedulable = useMemo(() => posts.filter(isSchedulablePart), [posts])
+    const dates = useMemo(
+        () => startDate ? seriesScheduleDates(startDate, time, spacingDays, schedulable.length) : [],
+        [startDate, time, spacingDays, schedulable.length],
+    )
+
+    const handleSchedule = async () => {
+        if (!startDate || schedulable.length === 0) return
+
+        setIsSaving(true)
+        try {
+            onScheduled(await scheduleSeries(series, posts, { startDate, time, spacingDays }))
+        } catch (error) {
+            console.error('Error scheduling series:', error)
+            alert(error instanceof Error ? error.message : 'Failed to schedule series')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    return (
+        <Modal
+            isOpen
+            onClose={onClose}
+            title={`Schedule "${series.title}"`}
+            footer={
+                <>
+                    <Button variant="secondary" onClick={onClose}>Cancel</Button>
+                    <Button onClick={handleSchedule} isLoading={isSaving} disabled={!startDate || schedulable.length === 0}>
+                        <CalendarClock className="w-4 h-4" />
+                        Schedule {schedulable.length} parts
+                    </Button>
+                </>
+            }
+        >
+            <div className="space-y-4">
+                <div className="grid grid-cols-3 gap-3">
+                    <Input label="First post" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+                    <Input label="Time" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+                    <Input
+                        label="Days between parts"
+                        type="number"
+                        min={1}
+                        max={60}
+                        value={spacingDays}
+                        onChange={(e) => setSpacingDays(Math.max(1, Number(e.target.value) || 1))}
+                    />
+                </div>
+
+                <div className="border border-[var(--color-gray-200)] rounded-lg divide-y divide-[var(--color-gray-100)]">
+                    {posts.map((post, i) => (
+                        <div key={post.id} className="px-3 py-2 flex items-center justify-between gap-3 text-sm">
+                            <span className="text-[var(--color-gray-700)] truncate">
+                                <span className="text-[var(--color-gray-400)] mr-2">{seriesPartLabel(i + 1, posts.length)}</span>
+                                {post.title}
+                            </span>
+                            {isSchedulablePart(post) ? (
+                                <span className="text-[var(--color-gray-500)] shrink-0">
+                                    {dates[schedulable.indexOf(post)]?.toLocaleString(undefined, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                                </span>
+                            ) : (
+                                <StatusBadge status={post.status} className="shrink-0" />
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                {schedulable.length < posts.length && (
+                    <p className="text-xs text-[var(--color-gray-500)]">Parts that are already published or sent to HubSpot are skipped.</p>
+                )}
+                {schedulable.some(p => p.scheduled_at) && (
+                    <p className="text-xs text-[var(--color-gray-500)]">Parts already on the calendar are moved to these dates.</p>
+                )}
+            </div>
+        </Modal>
+    )
+}
@@ -0,0 +1,3 @@
+export { SeriesBadge } from './SeriesBadge'
+export { SeriesCreateModal } from './SeriesCreateModal'
+export { SeriesScheduleModal } from './SeriesScheduleModal'
@@ -0,0 +1,275 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Ban, Check, CheckCircle2, FolderSync, Loader2, Play, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui'
+import { supabase } from '@/lib/supabase'
+import type { Database, SyncFileStatus, SyncStatus } from '@/types/database'
+
+type SyncProgress = Database['public']['Tables']['sync_progress']['Row']
+type SyncFile = Pick<Database['public']['Tables']['sync_progress_files']['Row'], 'id' | 'name' | 'change' | 'status' | 'error'>
+
+interface SyncProgressModalProps {
+    spaceId: string
+    syncId: string
+    /** Hides the modal; a running sync carries on in the background */
+    onClose: () => void
+}
+
+const POLL_INTERVAL_MS = 2000
+const MAX_VISIBLE_FILES = 15
+// Heartbeats older than this mean the sync stopped without finishing
+const STALE_SYNC_MS = 5 * 60 * 1000
+
+const fileStyles: Record<SyncFileStatus, string> = {
+    pending: 'text-[var(--color-gray-400)]',
+    processing: 'bg-blue-50 text-blue-700',
+    completed: 'bg-green-50 text-green-700',
+    failed: 'bg-red-50 text-red-700',
+    skipped: 'text-[var(--color-gray-400)] line-through',
+}
+
+function isSyncRunning(sync: Pick<SyncProgress, 'status' | 'heartbeat_at'>): boolean {
+    if (sync.status === 'queued') return true
+    if (sync.status !== 'processing') return false
+    return !!sync.heartbeat_at && Date.now() - new Date(sync.heartbeat_at).getTime() < STALE_SYNC_MS
+}
+
+// Progress of a SharePoint sync, file by file, with cancel and resume
+export function SyncProgressModal({ spaceId, syncId, onClose }: SyncProgressModalProps) {
+    const [sync, setSync] = useState<SyncProgress | null>(null)
+    const [files, setFiles] = useState<SyncFile[]>([])
+    const [isUpdating, setIsUpdating] = useState(false)
+    // Bumped on resume to start polling again
+    const [pollKey, setPollKey] = useState(0)
+
+    const fetchProgress = useCallback(async () => {
+        const [{ data: progress, error }, { data: recentFiles }] = await Promise.all([
+            supabase.from('sync_progress').select('*').eq('id', syncId).single(),
+            // Files being worked on or finished, most recent first
+            supabase
+                .from('sync_progress_files')
+                .select('id, name, change, status, error')
+                .eq('sync_id', syncId)
+                .neq('status', 'pending')
+                .order('updated_at', { ascending: false })
+                .limit(MAX_VISIBLE_FILES),
+        ])
+
+        if (error) console.error('Error fetching sync progress:', error)
+        if (progress) setSync(progress as SyncProgress)
+        setFiles((recentFiles || []) as SyncFile[])
+        return progress as SyncProgress | null
+    }, [syncId])
+
+    useEffect(() => {
+        let timer: ReturnType<typeof setTimeout> | undefined
+        let stopped = false
+
+        const poll = async () => {
+            const progress = await fetchProgress()
+            if (!stopped && progress && isSyncRunning(progress)) {
+                timer = setTimeout(poll, POLL_INTERVAL_MS)
+            }
+        }
+
+        poll()
+        return () => {
+            stopped = true
+            clearTimeout(timer)
+        }
+    }, [fetchProgress, pollKey])
+
+    const invokeSync = async (action: 'cancel' | 'resume') => {
+        setIsUpdating(true)
+        try {
+            const { data, error } = await supabase.functions.invoke('sharepoint-sync', {
+                body: { action, space_id: spaceId, sync_id: syncId },
+            })
+
+            if (error) throw error
+            if (data?.error) throw new Error(data.error)
+
+            if (action === 'resume') {
+                setPollKey(key => key + 1)
+            } else {
+                await fetchProgress()
+            }
+        } catch (error) {
+            console.error(`Error running ${action} on sync:`, error)
+            alert(error instanceof Error ? error.message : `Failed to ${action} sync`)
+        } finally {
+            setIsUpdating(false)
+        }
+    }
+
+    const handleCancel = () => {
+        if (!confirm('Cancel this sync? Files already synced are kept, and you can resume later.')) return
+        invokeSync('cancel')
+    }
+
+    if (!sync) return null
+
+    const status: SyncStatus = sync.status
+    const isRunning = isSyncRunning(sync)
+    const total = sync.total_documents || 0
+    const done = sync.processed_documents || 0
+    const percent = total > 0 ? Math.round((done / total) * 100) : isRunning ? 0 : 100
+    const completed = done - (sync.skipped_documents || 0) - (sync.failed_documents || 0) - (sync.deleted_documents || 0)
+    const canResume = !isRunning && status !== 'completed'
+
+    const heading = isRunning
+        ? 'Syncing Documents...'
+        : status === 'completed'
+            ? 'Sync Complete'
+            : status === 'cancelled'
+                ? 'Sync Cancelled'
+                : status === 'failed'
+                    ? 'Sync Failed'
+                    : 'Sync Stopped'
+
+    const subheading = isRunning && !sync.sync_mode
+        ? 'Checking SharePoint for changes...'
+        : total === 0 && status === 'completed'
+            ? 'Nothing changed since the last sync'
+            : `${done} of ${total} changes processed${sync.sync_mode === 'delta' ? ' since the last sync' : ''}`
+
+    const lastError = (sync.error_log as { file?: string; error: string }[] | null)?.slice(-1)[0]
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-2xl max-w-lg w-full shadow-2xl p-8">
+                <div className="flex items-center gap-4 mb-6">
+                    <div className={`w-14 h-14 rounded-xl flex items-center justify-center ${isRunning
+                        ? 'bg-gradient-to-br from-[var(--color-primary)] to-[var(--color-secondary)]'
+                        : status === 'completed' ? 'bg-green-500' : 'bg-[var(--color-gray-400)]'
+                        }`}>
+                        {isRunning ? (
+                            <FolderSync className="w-7 h-7 text-white animate-pulse" />
+                        ) : status === 'completed' ? (
+                            <CheckCircle2 className="w-7 h-7 text-white" />
+                        ) : (
+                            <Ban className="w-7 h-7 text-white" />
+                        )}
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-bold text-[var(--color-gray-900)]">{heading}</h3>
+                        <p className="text-sm text-[var(--color-gray-500)]">{subheading}</p>
+                    </div>
+                </div>
+
+                {/* Progress Bar */}
+                <div className="mb-4">
+                    <div className="flex justify-between text-sm mb-2">
+                        <span className="text-[var(--color-gray-500)]">Progress</span>
+                        <span className="font-semibold text-[var(--color-primary)]">{percent}%</span>
+                    </div>
+                    <div className="h-3 bg-[var(--color-gray-200)] rounded-full overflow-hidden">
+                        <div
+                            className={`h-full transition-all duration-500 ${status === 'completed'
+                                ? 'bg-green-500'
+                                : 'bg-gradient-to-r from-[var(--color-primary)] to-[var(--color-secondary)]'
+                                }`}
+                            style={{ width: `${percent}%` }}
+                        />
+                    </div>
+                </div>
+
+                {/* Status Counts */}
+                <div className="flex flex-wrap gap-x-4 gap-y-1 mb-4 text-sm">
+                    <div className="flex items-center gap-2">
+                        <CheckCircle2 className="w-4 h-4 text-green-500" />
+                        <span className="text-[var(--color-gray-600)]">{Math.max(0, completed)} synced</span>
+                    </div>
+                    {(sync.deleted_documents || 0) > 0 && (
+                        <div className="flex items-center gap-2">
+                            <Trash2 className="w-4 h-4 text-[var(--color-gray-400)]" />
+                            <span className="text-[var(--color-gray-600)]">{sync.deleted_documents} removed</span>
+                        </div>
+                    )}
+                    {(sync.failed_documents || 0) > 0 && (
+                        <div className="flex items-center gap-2">
+                            <X className="w-4 h-4 text-red-500" />
+                            <span className="text-[var(--color-gray-600)]">{sync.failed_documents} failed</span>
+                        </div>
+                    )}
+                    {(sync.skipped_documents || 0) > 0 && (
+                        <div className="flex items-center gap-2">
+                            <Ban className="w-4 h-4 text-[var(--color-gray-400)]" />
+                            <span className="text-[var(--color-gray-600)]">{sync.skipped_documents} skipped</span>
+                        </div>
+                    )}
+                </div>
+
+                {/* File List */}
+                {files.length > 0 && (
+                    <div className="max-h-48 overflow-y-auto space-y-1 mb-4">
+                        {files.map(file => (
+                            <div key={file.id} className={`text-sm px-3 py-2 rounded-lg ${fileStyles[file.status]}`}>
+                                <div className="flex items-center gap-2">
+                                    {file.status === 'completed' ? (
+                                        file.change === 'deleted'
+                                            ? <Trash2 className="w-4 h-4 text-green-500 flex-shrink-0" />
+                                            : <Check className="w-4 h-4 text-green-500 flex-shrink-0" />
+                                    ) : file.status === 'processing' ? (
+                                        <Loader2 className="w-4 h-4 animate-spin text-blue-500 flex-shrink-0" />
+                                    ) : file.status === 'failed' ? (
+                                        <X className="w-4 h-4 text-red-500 flex-shrink-0" />
+                                    ) : (
+                                        <Ban className="w-4 h-4 text-[var(--color-gray-400)] flex-shrink-0" />
+                                    )}
+                                    <span className="truncate">{file.name}</span>
+                                    {file.change !== 'added' && (
+                                        <span className="text-xs text-[var(--color-gray-400)] flex-shrink-0">{file.change === 'deleted' ? 'removed' : 'updated'}</span>
+                                    )}
+                                </div>
+                                {(file.status === 'failed' || file.status === 'skipped') && file.error && (
+                                    <p className="text-xs text-red-600 ml-6 mt-0.5 line-clamp-2">{file.error}</p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {!isRunning && status !== 'completed' && lastError && (
+                    <p className="text-sm text-red-600 mb-4">{lastError.error}</p>
+                )}
+
+                {status === 'completed' && (sync.failed_documents || 0) > 0 && (
+                    <p className="text-sm text-[var(--color-gray-500)] mb-4">
+                        Failed files are tried again on the next sync.
+                    </p>
+                )}
+
+                <div className="flex justify-end gap-2">
+                    {isRunning ? (
+                        <>
+                            <Button variant="ghost" onClick={handleCancel} isLoading={isUpdating}>
+                                Cancel Sync
+                            </Button>
+                            <Button variant="secondary" onClick={onClose}>
+                                Run in Background
+                            </Button>
+                        </>
+                    ) : (
+                        <>
+                            {canResume && (
+                                <Button variant="secondary" onClick={() => invokeSync('resume')} isLoading={isUpdating}>
+                                    <Play className="w-4 h-4" />
+                                    Resume
+                                </Button>
+                            )}
+                            <Button variant="primary" onClick={onClose}>
+                                {canResume ? 'Close' : 'Done'}
+                            </Button>
+                        </>
+                    )}
+                </div>
+
+                {isRunning && (
+                    <p className="text-xs text-center text-[var(--color-gray-400)] mt-4">
+                        ⚡ Runs on the server - you can leave this page and come back
+                    </p>
+                )}
+            </div>
+        </div>
+    )
+}
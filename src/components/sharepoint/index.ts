@@ -0,0 +1 @@
+export { SyncProgressModal } from './SyncProgressModal'
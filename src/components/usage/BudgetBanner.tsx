@@ -0,0 +1,36 @@
+import { useEffect } from 'react'
+import { Link, useLocation } from 'react-router-dom'
+import { AlertTriangle } from 'lucide-react'
+import { useSpaceStore } from '@/stores/spaceStore'
+import { useUsageStore } from '@/stores/usageStore'
+
+// Warns across the app once the space nears or passes its monthly AI budget
+export function BudgetBanner() {
+    const { currentSpace } = useSpaceStore()
+    const { budget, budgetSpaceId, fetchBudget } = useUsageStore()
+    const location = useLocation()
+
+    // Refreshed on navigation, so spend from the last page shows up on the next
+    useEffect(() => {
+        if (currentSpace) fetchBudget(currentSpace.id)
+    }, [currentSpace, location.pathname, fetchBudget])
+
+    if (!budget || budgetSpaceId !== currentSpace?.id || !budget.message) return null
+    if (budget.state !== 'warning' && budget.state !== 'exceeded') return null
+
+    const isExceeded = budget.state === 'exceeded'
+
+    return (
+        <div className={`flex items-center gap-3 px-8 py-3 border-b text-sm ${isExceeded
+            ? 'bg-red-50 border-red-200 text-red-800'
+            : 'bg-amber-50 border-amber-200 text-amber-800'
+            }`}
+        >
+            <AlertTriangle className={`w-4 h-4 flex-shrink-0 ${isExceeded ? 'text-red-600' : 'text-amber-600'}`} />
+            <span className="flex-1">{budget.message}</span>
+            <Link to="/ai-usage" className="font-medium underline flex-shrink-0">
+                View usage
+            </Link>
+        </div>
+    )
+}
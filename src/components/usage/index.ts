@@ -0,0 +1 @@
+export { BudgetBanner } from './BudgetBanner'
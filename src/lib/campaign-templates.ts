@@ -0,0 +1,145 @@
+import { supabase } from './supabase'
+import { OPEN_IDEA_STATUSES } from './ideas'
+import type { Database, GenerationSettings } from '@/types/database'
+
+type Campaign = Database['public']['Tables']['campaigns']['Row']
+type Idea = Database['public']['Tables']['ideas']['Row']
+export type CampaignTemplate = Database['public']['Tables']['campaign_templates']['Row']
+
+/** What a new campaign is copied from: another campaign or a template */
+export type CampaignSource = Pick<Campaign, 'target_count' | 'generation_settings' | 'template_ids' | 'locked_source_settings'>
+
+/**
+ * An idea carried over to a new campaign. Templates keep them in
+ * generation_settings.ideas; each campaign started from one gets its own
+ * rows in the idea bank.
+ */
+export type TemplateIdea = Pick<Idea, 'title' | 'notes' | 'source' | 'content_layer' | 'content_category'>
+
+// generation_settings keys holding an idea list rather than how posts are written;
+// campaigns kept theirs in generated_ideas before the idea bank
+const IDEA_SETTING_KEYS = ['ideas', 'generated_ideas', 'generated_idea_mix', 'topics']
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+const MONTH_YEAR_PATTERN = new RegExp(`\\b(${MONTHS.join('|')})(\\s+)(\\d{4})\\b`, 'i')
+
+/** The ideas saved with a template, including templates saved before the idea bank */
+export function templateIdeas(settings: GenerationSettings | null | undefined): TemplateIdea[] {
+    const raw = (settings || {}) as Record<string, unknown>
+    if (Array.isArray(raw.ideas)) return raw.ideas as TemplateIdea[]
+    if (!Array.isArray(raw.generated_ideas)) return []
+
+    const mix = Array.isArray(raw.generated_idea_mix) ? raw.generated_idea_mix : []
+    return (raw.generated_ideas as string[]).map((title, i) => ({
+        title,
+        notes: null,
+        source: 'ai',
+        content_layer: mix[i]?.layer || null,
+        content_category: mix[i]?.category || null,
+    }))
+}
+
+export function countIdeas(settings: GenerationSettings | null | undefined): number {
+    return templateIdeas(settings).length
+}
+
+/** A campaign's open ideas from the idea bank, to carry over to a copy or template */
+export async function fetchCampaignIdeas(campaignId: string): Promise<TemplateIdea[]> {
+    const { data, error } = await supabase
+        .from('ideas')
+        .select('title, notes, source, content_layer, content_category')
+        .eq('campaign_id', campaignId)
+        .in('status', OPEN_IDEA_STATUSES)
+        .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return data || []
+}
+
+/** Copy of a campaign's generation settings, without any idea list */
+export function copyGenerationSettings(settings: GenerationSettings | null | undefined): GenerationSettings {
+    const copy: Record<string, unknown> = { ...(settings || {}) }
+    for (const key of IDEA_SETTING_KEYS) delete copy[key]
+    return copy as GenerationSettings
+}
+
+/**
+ * Suggested name for a copy. A month and year in the name move on a month,
+ * so "Acme - March 2026" becomes "Acme - April 2026"; other names get "(copy)".
+ */
+export function nextCampaignName(name: string): string {
+    const match = name.match(MONTH_YEAR_PATTERN)
+    if (!match) return `${name} (copy)`
+
+    const month = MONTHS.findIndex(m => m.toLowerCase() === match[1].toLowerCase())
+    const year = Number(match[3]) + (month === 11 ? 1 : 0)
+    return name.replace(MONTH_YEAR_PATTERN, `${MONTHS[(month + 1) % 12]}${match[2]}${year}`)
+}
+
+/**
+ * Creates a draft campaign with the settings of another campaign or a
+ * template. `ideas` are added to the idea bank as approved for it.
+ */
+export async function createCampaignFrom(
+    source: CampaignSource,
+    { spaceId, name, ideas, userId }: { spaceId: string; name: string; ideas: TemplateIdea[]; userId: string },
+): Promise<Campaign> {
+    const { data, error } = await supabase
+        .from('campaigns')
+        .insert({
+            space_id: spaceId,
+            name,
+            target_count: source.target_count,
+            template_ids: source.template_ids || {},
+            locked_source_settings: source.locked_source_settings || {},
+            generation_settings: copyGenerationSettings(source.generation_settings),
+            created_by: userId,
+        })
+        .select()
+        .single()
+
+    if (error) throw error
+
+    if (ideas.length > 0) {
+        const { error: ideasError } = await supabase
+            .from('ideas')
+            .insert(ideas.map(idea => ({
+                ...idea,
+                space_id: spaceId,
+                campaign_id: data.id,
+                status: 'approved' as const,
+                created_by: userId,
+            })))
+
+        if (ideasError) throw ideasError
+    }
+    return data
+}
+
+/** Saves a campaign's settings, and optionally ideas, as a template in its space */
+export async function saveCampaignTemplate(
+    campaign: Campaign,
+    { name, description, ideas, userId }: { name: string; description: string; ideas: TemplateIdea[]; userId: string },
+): Promise<CampaignTemplate> {
+    const { data, error } = await supabase
+        .from('campaign_templates')
+        .insert({
+            space_id: campaign.space_id,
+            name,
+            description: description || null,
+            target_count: campaign.target_count,
+            template_ids: campaign.template_ids || {},
+            locked_source_settings: campaign.locked_source_settings || {},
+            generation_settings: {
+                ...copyGenerationSettings(campaign.generation_settings),
+                ...(ideas.length > 0 ? { ideas } : {}),
+            },
+            source_campaign_id: campaign.id,
+            created_by: userId,
+        })
+        .select()
+        .single()
+
+    if (error) throw error
+    return data
+}
@@ -0,0 +1,17 @@
+import { supabase } from './supabase'
+
+/**
+ * Re-checks a post for near-duplicates in the background after its body
+ * changed. Scoring runs in check-duplicates without an AI call, so every
+ * change is checked. Failures are only logged: the post keeps its old flags
+ * until the next check or a rescan from the duplicate review.
+ */
+export function checkDuplicatesAfterEdit(postId: string, before: string | null | undefined, after: string | null | undefined) {
+    if (!(after || '').trim() || (before || '').trim() === (after || '').trim()) return
+
+    supabase.functions
+        .invoke('check-duplicates', { body: { post_ids: [postId] } })
+        .then(({ data, error }) => {
+            if (error || data?.error) console.error('Error checking post for duplicates:', error || data.error)
+        })
+}
@@ -0,0 +1,18 @@
+import { supabase } from './supabase'
+import { isSubstantialChange } from './classification'
+
+/**
+ * Re-classifies a post in the background when its body is new or changed
+ * enough to matter. classify-posts skips posts whose classification was
+ * confirmed by hand. Failures are only logged: the post keeps its old
+ * classification and can be classified again in bulk from Posts.
+ */
+export function classifyAfterEdit(postId: string, before: string | null | undefined, after: string | null | undefined) {
+    if (!isSubstantialChange(before, after)) return
+
+    supabase.functions
+        .invoke('classify-posts', { body: { post_ids: [postId] } })
+        .then(({ data, error }) => {
+            if (error || data?.error) console.error('Error classifying post:', error || data.error)
+        })
+}
@@ -0,0 +1,34 @@
+/**
+ * Crops an image to fill the target size (centre crop, like object-fit: cover),
+ * for per-channel image renditions.
+ */
+export async function renderImageRendition(
+    imageUrl: string,
+    width: number,
+    height: number,
+): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        const img = new window.Image()
+        img.crossOrigin = 'anonymous'
+        img.onload = () => {
+            const canvas = document.createElement('canvas')
+            canvas.width = width
+            canvas.height = height
+            const ctx = canvas.getContext('2d')!
+
+            const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight)
+            const srcW = width / scale
+            const srcH = height / scale
+            const srcX = (img.naturalWidth - srcW) / 2
+            const srcY = (img.naturalHeight - srcH) / 2
+
+            ctx.drawImage(img, srcX, srcY, srcW, srcH, 0, 0, width, height)
+            canvas.toBlob(
+                (blob) => (blob ? resolve(blob) : reject(new Error('Canvas toBlob failed'))),
+                'image/png',
+            )
+        }
+        img.onerror = () => reject(new Error('Failed to load image'))
+        img.src = imageUrl
+    })
+}
@@ -0,0 +1,159 @@
+import { supabase } from './supabase'
+import { buildRevision } from './revisions'
+import { renumberPartReferences, seriesScheduleDates, stripPartLabel } from './series'
+import type { Database, PostStatus } from '@/types/database'
+
+type Post = Database['public']['Tables']['posts']['Row']
+export type PostSeries = Database['public']['Tables']['post_series']['Row']
+
+/** The fields of a series post the helpers below read and change */
+export type SeriesPost = Pick<Post, 'id' | 'space_id' | 'title' | 'body' | 'status' | 'series_part' | 'scheduled_at'>
+
+// Parts that can still be put on the calendar; published or sent parts keep their dates
+const SCHEDULABLE_SERIES_STATUSES: PostStatus[] = ['draft', 'ready_to_publish', 'scheduled']
+
+export function isSchedulablePart(post: Pick<Post, 'status'>): boolean {
+    return SCHEDULABLE_SERIES_STATUSES.includes(post.status)
+}
+
+/** The user recorded on revisions made by renumbering */
+interface RevisionAuthor {
+    id: string
+    email?: string | null
+}
+
+/**
+ * Saves `posts` as the series' parts in the given order. Parts are numbered
+ * from 1 and the "Part N of M" references in their titles and bodies follow
+ * the new numbering; a post whose text changes gets a revision. Returns the
+ * posts as saved.
+ */
+export async function saveSeriesOrder(posts: SeriesPost[], author: RevisionAuthor | null): Promise<SeriesPost[]> {
+    const renumbered: Record<number, number> = {}
+    posts.forEach((post, i) => {
+        if (post.series_part) renumbered[post.series_part] = i + 1
+    })
+
+    const saved: SeriesPost[] = []
+    for (const [i, post] of posts.entries()) {
+        const part = i + 1
+        const title = renumberPartReferences(post.title, renumbered, posts.length)
+        const body = post.body ? renumberPartReferences(post.body, renumbered, posts.length) : post.body
+        const textChanged = title !== post.title || body !== post.body
+
+        if (part !== post.series_part || textChanged) {
+            const { error } = await supabase
+                .from('posts')
+                .update({ series_part: part, title, body, updated_at: new Date().toISOString() })
+                .eq('id', post.id)
+
+            if (error) throw error
+
+            if (textChanged) {
+                const { error: revisionError } = await supabase
+                    .from('post_revisions')
+                    .insert(buildRevision({
+                        postId: post.id,
+                        spaceId: post.space_id,
+                        title,
+                        body,
+                        source: 'manual_edit',
+                        authorId: author?.id,
+                        authorEmail: author?.email,
+                    }))
+                if (revisionError) console.error('Error recording revision:', revisionError)
+            }
+        }
+
+        saved.push({ ...post, series_part: part, title, body })
+    }
+    return saved
+}
+
+/**
+ * Schedules the parts that can still be scheduled in order from `startDate`,
+ * `spacingDays` apart, and keeps the spacing and time on the series for next
+ * time. Returns all the posts, with the skipped ones unchanged.
+ */
+export async function scheduleSeries(
+    series: PostSeries,
+    posts: SeriesPost[],
+    { startDate, time, spacingDays }: { startDate: string; time: string; spacingDays: number },
+): Promise<SeriesPost[]> {
+    const schedulable = posts.filter(isSchedulablePart)
+    const dates = seriesScheduleDates(startDate, time, spacingDays, schedulable.length)
+
+    const saved: SeriesPost[] = []
+    for (const post of posts) {
+        const i = schedulable.indexOf(post)
+        if (i === -1) {
+            saved.push(post)
+            continue
+        }
+
+        const scheduledAt = dates[i].toISOString()
+        const { error } = await supabase
+            .from('posts')
+            .update({ scheduled_at: scheduledAt, status: 'scheduled', updated_at: new Date().toISOString() })
+            .eq('id', post.id)
+
+        if (error) throw error
+        saved.push({ ...post, scheduled_at: scheduledAt, status: 'scheduled' })
+    }
+
+    const { error: seriesError } = await supabase
+        .from('post_series')
+        .update({ spacing_days: spacingDays, post_time: time, updated_at: new Date().toISOString() })
+        .eq('id', series.id)
+
+    if (seriesError) console.error('Error saving series schedule settings:', seriesError)
+    return saved
+}
+
+/** Starts a series from existing posts, numbered in the order given */
+export async function groupPostsIntoSeries(input: {
+    spaceId: string
+    title: string
+    postIds: string[]
+    userId: string
+}): Promise<PostSeries> {
+    const { data: series, error } = await supabase
+        .from('post_series')
+        .insert({
+            space_id: input.spaceId,
+            title: input.title,
+            created_by: input.userId,
+        })
+        .select()
+        .single()
+
+    if (error) throw error
+
+    for (const [i, postId] of input.postIds.entries()) {
+        const { error: postError } = await supabase
+            .from('posts')
+            .update({ series_id: series.id, series_part: i + 1, updated_at: new Date().toISOString() })
+            .eq('id', postId)
+
+        if (postError) throw postError
+    }
+
+    return series as PostSeries
+}
+
+/** Takes a post out of its series, drops its part label and closes the gap it leaves */
+export async function removeFromSeries(posts: SeriesPost[], postId: string, author: RevisionAuthor | null): Promise<SeriesPost[]> {
+    const removed = posts.find(p => p.id === postId)
+    const { error } = await supabase
+        .from('posts')
+        .update({
+            series_id: null,
+            series_part: null,
+            ...(removed ? { title: stripPartLabel(removed.title) } : {}),
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', postId)
+
+    if (error) throw error
+    return saveSeriesOrder(posts.filter(p => p.id !== postId), author)
+}
@@ -1,9 +1,12 @@
 // src/pages/AISettings.tsx
 import { useState, useEffect } from 'react'
-import { Check, AlertCircle, Brain, Image, Key } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import { Check, AlertCircle, Brain, Image, Key, Wallet } from 'lucide-react'
 import { Button } from '@/components/ui'
 import { supabase } from '@/lib/supabase'
+import { DEFAULT_BUDGET, normaliseBudget, type UsageBudget } from '@/lib/usage'
 import { useSpaceStore } from '@/stores/spaceStore'
+import { useUsageStore } from '@/stores/usageStore'
 
 const TEXT_MODELS: Record<string, { label: string; models: { value: string; label: string }[] }> = {
     openai: {
@@ -22,6 +25,13 @@ const TEXT_MODELS: Record<string, { label: string; models: { value: string; labe
             { value: 'claude-opus-4-20250514', label: 'Claude Opus 4' },
         ],
     },
+    gemini: {
+        label: 'Gemini',
+        models: [
+            { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+            { value: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+        ],
+    },
 }
 
 const IMAGE_MODELS = [
@@ -36,7 +46,7 @@ const IMAGE_PROMPT_MODELS = [
     { value: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
 ]
 
-interface AISettingsData {
+interface AISettingsData extends UsageBudget {
     text_provider: string
     text_model: string
     image_model: string
@@ -48,10 +58,12 @@ const DEFAULTS: AISettingsData = {
     text_model: 'gpt-4o-mini',
     image_model: 'gemini-2.5-flash-image',
     image_prompt_model: 'gemini-2.0-flash-exp',
+    ...DEFAULT_BUDGET,
 }
 
 export function AISettings() {
     const { currentSpace } = useSpaceStore()
+    const { fetchBudget } = useUsageStore()
     const [settings, setSettings] = useState<AISettingsData>(DEFAULTS)
     const [isLoading, setIsLoading] = useState(true)
     const [isSaving, setIsSaving] = useState(false)
@@ -78,6 +90,7 @@ export function AISettings() {
                     text_model: data.text_model,
                     image_model: data.image_model,
                     image_prompt_model: data.image_prompt_model,
+                    ...normaliseBudget(data),
                 })
             }
         } catch {
@@ -98,6 +111,7 @@ export function AISettings() {
         setSuccess(null)
 
         try {
+            const values = { ...settings, ...normaliseBudget(settings) }
             const { data: existing } = await supabase
                 .from('ai_settings')
                 .select('id')
@@ -109,7 +123,7 @@ export function AISettings() {
                 const { error } = await supabase
                     .from('ai_settings')
                     .update({
-                        ...settings,
+                        ...values,
                         updated_at: new Date().toISOString(),
                     })
                     .eq('space_id', currentSpace.id)
@@ -119,13 +133,15 @@ export function AISettings() {
                     .from('ai_settings')
                     .insert({
                         space_id: currentSpace.id,
-                        ...settings,
+                        ...values,
                     })
                 saveError = error
             }
 
             if (saveError) throw saveError
+            setSettings(values)
             setSuccess('AI settings saved successfully')
+            fetchBudget(currentSpace.id)
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Failed to save settings')
         }
@@ -175,7 +191,7 @@ export function AISettings() {
                     </div>
                     <div>
                         <h2 className="font-semibold text-[var(--color-gray-900)]">Text Generation</h2>
-                        <p className="text-xs text-[var(--color-gray-500)]">Model used for generating post copy</p>
+                        <p className="text-xs text-[var(--color-gray-500)]">Model used for post copy, ideas, brand profiles and document analysis</p>
                     </div>
                 </div>
 
@@ -243,6 +259,68 @@ export function AISettings() {
                 </select>
             </div>
 
+            {/* Budget Card */}
+            <div className="bg-white border border-[var(--color-gray-200)] rounded-xl p-6 mb-6">
+                <div className="flex items-center gap-3 mb-4">
+                    <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
+                        <Wallet className="w-5 h-5 text-green-600" />
+                    </div>
+                    <div className="flex-1">
+                        <h2 className="font-semibold text-[var(--color-gray-900)]">Monthly Budget</h2>
+                        <p className="text-xs text-[var(--color-gray-500)]">Estimated AI spend per calendar month for this workspace</p>
+                    </div>
+                    <Link to="/ai-usage" className="text-sm font-medium text-[var(--color-primary)] hover:underline">
+                        View usage
+                    </Link>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--color-gray-700)] mb-2">Budget (USD)</label>
+                        <input
+                            type="number"
+                            min={0}
+                            step={1}
+                            value={settings.monthly_budget_usd ?? ''}
+                            onChange={(e) => setSettings(prev => ({ ...prev, monthly_budget_usd: e.target.value ? Number(e.target.value) : null }))}
+                            placeholder="No budget"
+                            className="w-full px-3 py-2 border border-[var(--color-gray-300)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]/30 focus:border-[var(--color-primary)]"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--color-gray-700)] mb-2">Warn at (% of budget)</label>
+                        <input
+                            type="number"
+                            min={1}
+                            max={100}
+                            value={settings.budget_warn_percent}
+                            onChange={(e) => setSettings(prev => ({ ...prev, budget_warn_percent: Number(e.target.value) }))}
+                            className="w-full px-3 py-2 border border-[var(--color-gray-300)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]/30 focus:border-[var(--color-primary)]"
+                        />
+                    </div>
+                </div>
+
+                <label className="block text-sm font-medium text-[var(--color-gray-700)] mb-2">When the budget is reached</label>
+                <div className="flex gap-2">
+                    {([
+                        { value: 'warn', label: 'Warn only' },
+                        { value: 'block', label: 'Block new AI calls' },
+                    ] as const).map(({ value, label }) => (
+                        <button
+                            key={value}
+                            onClick={() => setSettings(prev => ({ ...prev, budget_action: value }))}
+                            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                                settings.budget_action === value
+                                    ? 'bg-[var(--color-primary)] text-white'
+                                    : 'bg-[var(--color-gray-100)] text-[var(--color-gray-600)] hover:bg-[var(--color-gray-200)]'
+                            }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
             {/* API Keys Card */}
             <div className="bg-white border border-[var(--color-gray-200)] rounded-xl p-6 mb-6">
                 <div className="flex items-center gap-3 mb-4">
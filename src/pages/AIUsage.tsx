@@ -0,0 +1,270 @@
+// src/pages/AIUsage.tsx
+import { useState, useEffect, useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import { BarChart3, Wallet } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useSpaceStore } from '@/stores/spaceStore'
+import { useUsageStore } from '@/stores/usageStore'
+import {
+    USAGE_FEATURE_LABELS,
+    groupUsage,
+    totalCost,
+    type UsageEntry,
+    type UsageGroup,
+    type UsageSummaryRow,
+} from '@/lib/usage'
+
+const PERIODS = [
+    { months: 3, label: '3 months' },
+    { months: 6, label: '6 months' },
+    { months: 12, label: '12 months' },
+]
+
+const RECENT_LIMIT = 25
+
+const formatUsd = (value: number) => `$${value.toFixed(value > 0 && value < 1 ? 3 : 2)}`
+const formatCount = (value: number) => value.toLocaleString()
+
+// YYYY-MM keys for the last `count` months, oldest first
+function recentMonths(count: number): string[] {
+    const now = new Date()
+    return Array.from({ length: count }, (_, i) => {
+        const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (count - 1 - i), 1))
+        return date.toISOString().slice(0, 7)
+    })
+}
+
+const monthLabel = (month: string) =>
+    new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', year: '2-digit', timeZone: 'UTC' })
+
+interface UsageBarsProps {
+    groups: UsageGroup[]
+    labelFor: (key: string) => string
+}
+
+function UsageBars({ groups, labelFor }: UsageBarsProps) {
+    const max = Math.max(...groups.map(g => g.cost_usd), 0)
+
+    if (groups.length === 0) {
+        return <p className="text-sm text-[var(--color-gray-400)]">No usage in this period</p>
+    }
+
+    return (
+        <div className="space-y-3">
+            {groups.map(group => (
+                <div key={group.key}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                        <span className="text-[var(--color-gray-700)] truncate">{labelFor(group.key)}</span>
+                        <span className="text-[var(--color-gray-900)] font-medium ml-3">{formatUsd(group.cost_usd)}</span>
+                    </div>
+                    <div className="h-2 bg-[var(--color-gray-100)] rounded-full overflow-hidden">
+                        <div
+                            className="h-full bg-[var(--color-primary)] rounded-full"
+                            style={{ width: `${max > 0 ? (group.cost_usd / max) * 100 : 0}%` }}
+                        />
+                    </div>
+                    <p className="text-xs text-[var(--color-gray-400)] mt-0.5">
+                        {formatCount(group.calls)} call{group.calls === 1 ? '' : 's'} · {formatCount(group.tokens)} tokens
+                    </p>
+                </div>
+            ))}
+        </div>
+    )
+}
+
+export function AIUsage() {
+    const { currentSpace } = useSpaceStore()
+    const { budget, fetchBudget } = useUsageStore()
+    const [months, setMonths] = useState(6)
+    const [rows, setRows] = useState<UsageSummaryRow[]>([])
+    const [recent, setRecent] = useState<UsageEntry[]>([])
+    const [campaignNames, setCampaignNames] = useState<Record<string, string>>({})
+    const [isLoading, setIsLoading] = useState(true)
+
+    useEffect(() => {
+        if (!currentSpace) return
+
+        const since = `${recentMonths(months)[0]}-01T00:00:00Z`
+        Promise.all([
+            supabase.rpc('ai_usage_summary', { p_space_id: currentSpace.id, p_since: since }),
+            supabase
+                .from('ai_usage_ledger')
+                .select('*')
+                .eq('space_id', currentSpace.id)
+                .order('created_at', { ascending: false })
+                .limit(RECENT_LIMIT),
+            supabase
+                .from('campaigns')
+                .select('id, name')
+                .eq('space_id', currentSpace.id),
+            fetchBudget(currentSpace.id),
+        ]).then(([summary, ledger, campaigns]) => {
+            if (summary.error) console.error('Error loading AI usage:', summary.error)
+            setRows((summary.data || []) as UsageSummaryRow[])
+            setRecent((ledger.data || []) as UsageEntry[])
+            setCampaignNames(Object.fromEntries(((campaigns.data || []) as { id: string; name: string }[]).map(c => [c.id, c.name])))
+            setIsLoading(false)
+        })
+    }, [currentSpace, months, fetchBudget])
+
+    const byMonth = useMemo(() => {
+        const groups = new Map(groupUsage(rows, row => row.month).map(g => [g.key, g]))
+        return recentMonths(months).map(month => groups.get(month) || { key: month, cost_usd: 0, tokens: 0, calls: 0 })
+    }, [rows, months])
+    const byFeature = useMemo(() => groupUsage(rows, row => row.feature), [rows])
+    const byCampaign = useMemo(() => groupUsage(rows.filter(row => row.campaign_id), row => row.campaign_id!), [rows])
+    const periodCost = useMemo(() => totalCost(rows), [rows])
+    const maxMonthCost = Math.max(...byMonth.map(m => m.cost_usd), 0)
+
+    const featureLabel = (key: string) => USAGE_FEATURE_LABELS[key as keyof typeof USAGE_FEATURE_LABELS] || key
+    const campaignLabel = (key: string) => campaignNames[key] || 'Deleted campaign'
+
+    if (isLoading && rows.length === 0) {
+        return <div className="p-8 text-center text-[var(--color-gray-400)]">Loading...</div>
+    }
+
+    const budgetPercent = budget?.limit_usd ? Math.min(100, (budget.spent_usd / budget.limit_usd) * 100) : 0
+
+    return (
+        <div className="max-w-5xl mx-auto p-8">
+            <div className="flex items-start justify-between mb-8">
+                <div>
+                    <h1 className="text-2xl font-bold text-[var(--color-gray-900)]">AI Usage</h1>
+                    <p className="text-[var(--color-gray-500)] mt-1">
+                        Estimated cost of every AI call in this workspace. Prices are list prices, so treat totals as estimates.
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    {PERIODS.map(period => (
+                        <button
+                            key={period.months}
+                            onClick={() => setMonths(period.months)}
+                            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${months === period.months
+                                ? 'bg-[var(--color-primary)] text-white'
+                                : 'bg-[var(--color-gray-100)] text-[var(--color-gray-600)] hover:bg-[var(--color-gray-200)]'
+                                }`}
+                        >
+                            {period.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* Summary */}
+            <div className="grid grid-cols-2 gap-6 mb-6">
+                <div className="bg-white border border-[var(--color-gray-200)] rounded-xl p-6">
+                    <div className="flex items-center gap-3 mb-3">
+                        <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
+                            <Wallet className="w-5 h-5 text-green-600" />
+                        </div>
+                        <div className="flex-1">
+                            <h2 className="font-semibold text-[var(--color-gray-900)]">This Month</h2>
+                            <p className="text-xs text-[var(--color-gray-500)]">
+                                {budget?.limit_usd
+                                    ? `${formatUsd(budget.spent_usd)} of ${formatUsd(budget.limit_usd)} budget`
+                                    : 'No monthly budget set'}
+                            </p>
+                        </div>
+                        <Link to="/ai-settings" className="text-sm font-medium text-[var(--color-primary)] hover:underline">
+                            {budget?.limit_usd ? 'Edit budget' : 'Set budget'}
+                        </Link>
+                    </div>
+                    <p className="text-3xl font-bold text-[var(--color-gray-900)]">{formatUsd(byMonth[byMonth.length - 1]?.cost_usd || 0)}</p>
+                    {budget?.limit_usd && (
+                        <div className="h-2 bg-[var(--color-gray-100)] rounded-full overflow-hidden mt-3">
+                            <div
+                                className={`h-full rounded-full ${budget.state === 'exceeded' ? 'bg-red-500' : budget.state === 'warning' ? 'bg-amber-500' : 'bg-green-500'}`}
+                                style={{ width: `${budgetPercent}%` }}
+                            />
+                        </div>
+                    )}
+                </div>
+                <div className="bg-white border border-[var(--color-gray-200)] rounded-xl p-6">
+                    <div className="flex items-center gap-3 mb-3">
+                        <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+                            <BarChart3 className="w-5 h-5 text-blue-600" />
+                        </div>
+                        <div>
+                            <h2 className="font-semibold text-[var(--color-gray-900)]">Last {months} Months</h2>
+                            <p className="text-xs text-[var(--color-gray-500)]">
+                                {formatCount(byMonth.reduce((sum, m) => sum + m.calls, 0))} calls · {formatCount(byMonth.reduce((sum, m) => sum + m.tokens, 0))} tokens
+                            </p>
+                        </div>
+                    </div>
+                    <p className="text-3xl font-bold text-[var(--color-gray-900)]">{formatUsd(periodCost)}</p>
+                </div>
+            </div>
+
+            {/* By month */}
+            <div className="bg-white border border-[var(--color-gray-200)] rounded-xl p-6 mb-6">
+                <h2 className="font-semibold text-[var(--color-gray-900)] mb-4">By Month</h2>
+                <div className="flex items-end gap-2 h-40">
+                    {byMonth.map(month => (
+                        <div key={month.key} className="flex-1 flex flex-col items-center justify-end h-full" title={`${formatUsd(month.cost_usd)} · ${formatCount(month.calls)} calls`}>
+                            <span className="text-xs text-[var(--color-gray-500)] mb-1">{month.cost_usd > 0 ? formatUsd(month.cost_usd) : ''}</span>
+                            <div
+                                className="w-full bg-[var(--color-primary)] rounded-t"
+                                style={{ height: `${maxMonthCost > 0 ? (month.cost_usd / maxMonthCost) * 100 : 0}%`, minHeight: month.cost_usd > 0 ? 2 : 0 }}
+                            />
+                        </div>
+                    ))}
+                </div>
+                <div className="flex gap-2 mt-2 border-t border-[var(--color-gray-100)] pt-2">
+                    {byMonth.map(month => (
+                        <span key={month.key} className="flex-1 text-center text-xs text-[var(--color-gray-500)]">{monthLabel(month.key)}</span>
+                    ))}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-6 mb-6">
+                <div className="bg-white border border-[var(--color-gray-200)] rounded-xl p-6">
+                    <h2 className="font-semibold text-[var(--color-gray-900)] mb-4">By Feature</h2>
+                    <UsageBars groups={byFeature} labelFor={featureLabel} />
+                </div>
+                <div className="bg-white border border-[var(--color-gray-200)] rounded-xl p-6">
+                    <h2 className="font-semibold text-[var(--color-gray-900)] mb-4">By Campaign</h2>
+                    <UsageBars groups={byCampaign} labelFor={campaignLabel} />
+                </div>
+            </div>
+
+            {/* Recent calls */}
+            <div className="bg-white border border-[var(--color-gray-200)] rounded-xl p-6">
+                <h2 className="font-semibold text-[var(--color-gray-900)] mb-4">Recent Calls</h2>
+                {recent.length === 0 ? (
+                    <p className="text-sm text-[var(--color-gray-400)]">No AI calls recorded yet</p>
+                ) : (
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-[var(--color-gray-500)] border-b border-[var(--color-gray-200)]">
+                                <th className="py-2 font-medium">When</th>
+                                <th className="py-2 font-medium">Feature</th>
+                                <th className="py-2 font-medium">Model</th>
+                                <th className="py-2 font-medium">User</th>
+                                <th className="py-2 font-medium text-right">Usage</th>
+                                <th className="py-2 font-medium text-right">Cost</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {recent.map(entry => (
+                                <tr key={entry.id} className="border-b border-[var(--color-gray-100)] last:border-0">
+                                    <td className="py-2 text-[var(--color-gray-500)]">{new Date(entry.created_at).toLocaleString()}</td>
+                                    <td className="py-2 text-[var(--color-gray-700)]">{featureLabel(entry.feature)}</td>
+                                    <td className="py-2 text-[var(--color-gray-500)]">{entry.model}</td>
+                                    <td className="py-2 text-[var(--color-gray-500)]">{entry.user_email || 'System'}</td>
+                                    <td className="py-2 text-right text-[var(--color-gray-700)]">
+                                        {entry.unit_type === 'tokens'
+                                            ? `${formatCount(entry.total_tokens)} tokens`
+                                            : `${entry.units} ${entry.unit_type === 'images' ? 'image' : 'credit'}${entry.units === 1 ? '' : 's'}`}
+                                    </td>
+                                    <td className="py-2 text-right text-[var(--color-gray-900)]">
+                                        {entry.estimated_cost_usd === null ? '—' : formatUsd(Number(entry.estimated_cost_usd))}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -1,7 +1,16 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
+import { Link } from 'react-router-dom'
 import { Globe, Check, ChevronRight, ExternalLink, Loader2, Building2, Sparkles, ArrowRight, RefreshCw, FolderOpen, ChevronDown, X, Upload, ImageIcon, Trash2 } from 'lucide-react'
 import { Button, Input } from '@/components/ui'
+import { BrandProfileHistory, ProfileSuggestionMerge, type ProfileSuggestion } from '@/components/brand-profile'
+import { CrawlHistory, CrawlSettingsForm } from '@/components/crawler'
+import { DocumentUploadPanel } from '@/components/documents'
+import { SyncProgressModal } from '@/components/sharepoint'
+import { SourceDocumentsPanel } from '@/components/repurpose'
+import { buildProfileVersion, profileSnapshot, profilesEqual } from '@/lib/brand-profile-versions'
+import { DEFAULT_CRAWL_SETTINGS, normaliseCrawlSettings, type CrawlSettings } from '@/lib/crawler'
 import { supabase } from '@/lib/supabase'
+import { useAuthStore } from '@/stores/authStore'
 import { useSpaceStore } from '@/stores/spaceStore'
 
 type SetupStatus = 'empty' | 'website_pending' | 'profile_draft' | 'ready'
@@ -14,6 +23,14 @@ interface DiscoveryResult {
     pages_found: { url: string; title: string; type: string; selected: boolean }[]
 }
 
+interface CrawlSummary {
+    id: string
+    pages_crawled: number
+    pages_added: number
+    pages_changed: number
+    pages_removed: number
+}
+
 interface BrandProfile {
     who_we_are: string | null
     what_we_do: string | null
@@ -29,6 +46,8 @@ interface BrandProfile {
     logo_bottom_right_position: string | null
     logo_corner_url: string | null  // backwards compat
     brand_colors: string[]
+    is_system_generated?: boolean
+    pending_suggestion_id?: string | null
 }
 
 interface SharePointConnection {
@@ -60,6 +79,7 @@ interface SharePointItem {
 
 export function BrandStudio() {
     const { currentSpace } = useSpaceStore()
+    const { user } = useAuthStore()
     const [setupStatus, setSetupStatus] = useState<SetupStatus>('empty')
     const [isLoading, setIsLoading] = useState(true)
 
@@ -69,11 +89,17 @@ export function BrandStudio() {
     const [discovery, setDiscovery] = useState<DiscoveryResult | null>(null)
     const [editableName, setEditableName] = useState('')
     const [selectedPages, setSelectedPages] = useState<Set<string>>(new Set())
+    const [crawlSettings, setCrawlSettings] = useState<CrawlSettings>(DEFAULT_CRAWL_SETTINGS)
+    const [lastCrawl, setLastCrawl] = useState<CrawlSummary | null>(null)
 
     // Step 2: Profile Review
     const [isGeneratingProfile, setIsGeneratingProfile] = useState(false)
     const [profile, setProfile] = useState<BrandProfile | null>(null)
     const [editedProfile, setEditedProfile] = useState<BrandProfile | null>(null)
+    // Regenerated profile not applied because the profile was edited by hand
+    const [profileSuggestion, setProfileSuggestion] = useState<ProfileSuggestion | null>(null)
+    // Bumped when a version is recorded here, to reload the history
+    const [versionsKey, setVersionsKey] = useState(0)
 
     // SharePoint state
     const [sharePointConnection, setSharePointConnection] = useState<SharePointConnection | null>(null)
@@ -89,18 +115,23 @@ export function BrandStudio() {
     // Sync state
     const [showSyncModal, setShowSyncModal] = useState(false)
     const [syncScanResult, setSyncScanResult] = useState<{
+        sync_mode: 'full' | 'delta'
         total_files: number
         supported_files: number
         skipped_files: number
+        deleted_files: number
         estimated_tokens: number
         estimated_cost: number
         estimated_time_minutes: number
     } | null>(null)
-    const [isSyncing, setIsSyncing] = useState(false)
-    const [syncProgress, setSyncProgress] = useState<{
+    const [isStartingSync, setIsStartingSync] = useState(false)
+    const [activeSyncId, setActiveSyncId] = useState<string | null>(null)
+    // Latest sync that has not completed, so it can be watched or resumed
+    const [unfinishedSync, setUnfinishedSync] = useState<{
+        id: string
+        status: string
         processed: number
         total: number
-        status: string
     } | null>(null)
 
     // Logo upload state
@@ -139,6 +170,32 @@ export function BrandStudio() {
                 setEditedProfile(profileData)
             }
 
+            if (profileData?.pending_suggestion_id) {
+                const { data: suggestionVersion } = await supabase
+                    .from('brand_profile_versions')
+                    .select('id, profile')
+                    .eq('id', profileData.pending_suggestion_id)
+                    .maybeSingle()
+
+                setProfileSuggestion(suggestionVersion
+                    ? { version_id: suggestionVersion.id, profile: profileSnapshot(suggestionVersion.profile) }
+                    : null)
+            } else {
+                setProfileSuggestion(null)
+            }
+
+            // Saved crawl settings, reused by recrawls
+            const { data: savedCrawlSettings } = await supabase
+                .from('crawl_settings')
+                .select('*')
+                .eq('space_id', currentSpace.id)
+                .maybeSingle()
+
+            if (savedCrawlSettings) {
+                setCrawlSettings(normaliseCrawlSettings(savedCrawlSettings))
+                if (savedCrawlSettings.root_url) setWebsiteUrl(savedCrawlSettings.root_url)
+            }
+
             // Fetch discovered pages
             const { data: docs } = await supabase
                 .from('source_documents')
@@ -205,6 +262,27 @@ export function BrandStudio() {
         fetchStatus()
     }, [fetchStatus])
 
+    const fetchUnfinishedSync = useCallback(async () => {
+        if (!currentSpace) return
+
+        const { data: latestSync } = await supabase
+            .from('sync_progress')
+            .select('id, status, processed_documents, total_documents')
+            .eq('space_id', currentSpace.id)
+            .eq('source_type', 'sharepoint')
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .maybeSingle()
+
+        setUnfinishedSync(latestSync && latestSync.status !== 'completed'
+            ? { id: latestSync.id, status: latestSync.status, processed: latestSync.processed_documents, total: latestSync.total_documents }
+            : null)
+    }, [currentSpace])
+
+    useEffect(() => {
+        fetchUnfinishedSync()
+    }, [fetchUnfinishedSync])
+
     // SharePoint helpers
     const fetchSharePointSites = async () => {
         if (!currentSpace) return
@@ -290,6 +368,7 @@ export function BrandStudio() {
             })
 
             if (error) throw error
+            if (data?.error) throw new Error(data.error)
 
             setSyncScanResult(data)
             setShowSyncModal(true)
@@ -304,9 +383,7 @@ export function BrandStudio() {
     const handleConfirmSync = async () => {
         if (!currentSpace || !selectedSite || !selectedDrive) return
 
-        setIsSyncing(true)
-        setSyncProgress({ processed: 0, total: syncScanResult?.supported_files || 0, status: 'starting' })
-
+        setIsStartingSync(true)
         try {
             const folderId = sharePointBreadcrumb.length > 1
                 ? sharePointBreadcrumb[sharePointBreadcrumb.length - 1].id
@@ -323,39 +400,16 @@ export function BrandStudio() {
             })
 
             if (error) throw error
+            if (data?.error) throw new Error(data.error)
 
-            // Poll for progress
-            const syncId = data.sync_id
-            const pollProgress = async () => {
-                const { data: progress } = await supabase
-                    .from('sync_progress')
-                    .select('*')
-                    .eq('id', syncId)
-                    .single()
-
-                if (progress) {
-                    setSyncProgress({
-                        processed: progress.processed_documents,
-                        total: progress.total_documents,
-                        status: progress.status,
-                    })
-
-                    if (progress.status !== 'completed' && progress.status !== 'failed') {
-                        setTimeout(pollProgress, 2000)
-                    } else {
-                        setIsSyncing(false)
-                        if (progress.status === 'completed') {
-                            alert(`Sync complete! Processed ${progress.processed_documents} documents and generated training examples.`)
-                        }
-                    }
-                }
-            }
-
-            pollProgress()
+            // Progress is followed in SyncProgressModal
+            setShowSyncModal(false)
+            setActiveSyncId(data.sync_id)
         } catch (error) {
             console.error('Error starting sync:', error)
-            setIsSyncing(false)
-            alert('Failed to start sync. Please try again.')
+            alert(error instanceof Error ? error.message : 'Failed to start sync. Please try again.')
+        } finally {
+            setIsStartingSync(false)
         }
     }
 
@@ -366,7 +420,11 @@ export function BrandStudio() {
         setIsDiscovering(true)
         try {
             const { data, error } = await supabase.functions.invoke('crawl-website', {
-                body: { url: websiteUrl.trim(), space_id: currentSpace.id },
+                body: {
+                    url: websiteUrl.trim(),
+                    space_id: currentSpace.id,
+                    settings: normaliseCrawlSettings(crawlSettings),
+                },
             })
 
             if (error) throw error
@@ -374,10 +432,13 @@ export function BrandStudio() {
             if (data.success && data.discovery) {
                 setDiscovery(data.discovery)
                 setEditableName(data.discovery.detected_name || '')
-                // Select ALL pages by default
+                // New pages and pages confirmed before are selected; a recrawl keeps earlier exclusions
                 setSelectedPages(new Set(
-                    data.discovery.pages_found.map((p: { url: string }) => p.url)
+                    data.discovery.pages_found
+                        .filter((p: { selected: boolean }) => p.selected)
+                        .map((p: { url: string }) => p.url)
                 ))
+                setLastCrawl(data.crawl || null)
                 setSetupStatus('website_pending')
             }
         } catch (error) {
@@ -408,6 +469,8 @@ export function BrandStudio() {
             if (data.success && data.profile) {
                 setProfile(data.profile)
                 setEditedProfile(data.profile)
+                setProfileSuggestion(data.suggestion || null)
+                setVersionsKey(k => k + 1)
                 setSetupStatus('profile_draft')
             } else if (data.error) {
                 throw new Error(data.error)
@@ -425,14 +488,34 @@ export function BrandStudio() {
         if (!currentSpace || !editedProfile) return
 
         try {
+            // Saving an unchanged profile keeps it open to regeneration and adds no version
+            const edited = profileSnapshot(editedProfile)
+            const changed = !profile || !profilesEqual(edited, profileSnapshot(profile))
+
             await supabase.from('brand_profile').upsert({
                 space_id: currentSpace.id,
                 ...editedProfile,
-                is_system_generated: false,
+                is_system_generated: changed ? false : (profile?.is_system_generated ?? false),
                 last_edited_at: new Date().toISOString(),
                 updated_at: new Date().toISOString(),
             }, { onConflict: 'space_id' })
 
+            if (changed) {
+                const { error: versionError } = await supabase
+                    .from('brand_profile_versions')
+                    .insert(buildProfileVersion({
+                        spaceId: currentSpace.id,
+                        profile: edited,
+                        source: 'manual_edit',
+                        authorId: user?.id,
+                        authorEmail: user?.email,
+                    }))
+                if (versionError) console.error('Error recording profile version:', versionError)
+                setVersionsKey(k => k + 1)
+            }
+
+            setProfile({ ...editedProfile, is_system_generated: changed ? false : profile?.is_system_generated })
+
             await supabase.from('brand_context_cache').update({
                 setup_status: 'ready',
                 updated_at: new Date().toISOString(),
@@ -639,6 +722,14 @@ export function BrandStudio() {
                             <Globe className="w-4 h-4" />
                             Discover Website
                         </Button>
+                        <details className="text-sm text-left">
+                            <summary className="cursor-pointer text-center text-[var(--color-gray-500)] hover:text-[var(--color-gray-700)]">
+                                Crawl settings
+                            </summary>
+                            <div className="mt-3">
+                                <CrawlSettingsForm settings={crawlSettings} onChange={setCrawlSettings} />
+                            </div>
+                        </details>
                     </div>
                 </div>
             </div>
@@ -695,6 +786,46 @@ export function BrandStudio() {
                     </div>
                 </div>
 
+                {/* Website Crawl */}
+                <div className="bg-white rounded-xl border border-[var(--color-gray-200)] p-6 mb-6">
+                    <div className="flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                            <h2 className="font-semibold text-[var(--color-gray-900)]">Website Crawl</h2>
+                            <p className="text-sm text-[var(--color-gray-500)] truncate">
+                                {lastCrawl
+                                    ? `Last crawl: ${lastCrawl.pages_added} added, ${lastCrawl.pages_changed} changed, ${lastCrawl.pages_removed} removed`
+                                    : 'Recrawl to pick up new and changed pages. Unchanged pages are kept as they are.'}
+                            </p>
+                        </div>
+                        <Button
+                            variant="secondary"
+                            size="sm"
+                            onClick={handleDiscoverWebsite}
+                            isLoading={isDiscovering}
+                            disabled={!websiteUrl.trim()}
+                        >
+                            <RefreshCw className="w-4 h-4" />
+                            Recrawl
+                        </Button>
+                    </div>
+                    <details className="text-sm mt-4">
+                        <summary className="cursor-pointer text-[var(--color-gray-500)] hover:text-[var(--color-gray-700)]">
+                            Crawl settings
+                        </summary>
+                        <div className="mt-3 space-y-4">
+                            <Input
+                                label="Website"
+                                value={websiteUrl}
+                                onChange={(e) => setWebsiteUrl(e.target.value)}
+                                placeholder="https://yourcompany.com"
+                            />
+                            <CrawlSettingsForm settings={crawlSettings} onChange={setCrawlSettings} />
+                        </div>
+                    </details>
+                </div>
+
+                {currentSpace && <CrawlHistory key={lastCrawl?.id} spaceId={currentSpace.id} />}
+
                 {/* Pages Found - Simplified */}
                 <div className="bg-white rounded-xl border border-[var(--color-gray-200)] p-6 mb-6">
                     <div className="flex items-center justify-between mb-4">
@@ -767,6 +898,21 @@ export function BrandStudio() {
                     This is a starting point based on your website. Edit anything that needs refinement.
                 </p>
 
+                {profileSuggestion && currentSpace && (
+                    <ProfileSuggestionMerge
+                        spaceId={currentSpace.id}
+                        current={profileSnapshot(editedProfile)}
+                        suggestion={profileSuggestion}
+                        onMerged={(merged) => {
+                            setProfile(prev => prev && { ...prev, ...merged, is_system_generated: false, pending_suggestion_id: null })
+                            setEditedProfile({ ...editedProfile, ...merged, is_system_generated: false, pending_suggestion_id: null })
+                            setProfileSuggestion(null)
+                            setVersionsKey(k => k + 1)
+                        }}
+                        onDismissed={() => setProfileSuggestion(null)}
+                    />
+                )}
+
                 <div className="space-y-6">
                     {[
                         { key: 'who_we_are', label: 'Who We Are' },
@@ -777,7 +923,9 @@ export function BrandStudio() {
                         <div key={key} className="bg-white rounded-xl border border-[var(--color-gray-200)] p-6">
                             <div className="flex items-center justify-between mb-3">
                                 <h2 className="font-semibold text-[var(--color-gray-900)]">{label}</h2>
-                                <span className="text-xs text-[var(--color-gray-400)]">AI-generated</span>
+                                <span className="text-xs text-[var(--color-gray-400)]">
+                                    {profile?.is_system_generated === false ? 'Edited' : 'AI-generated'}
+                                </span>
                             </div>
                             <textarea
                                 value={editedProfile[key as keyof BrandProfile] as string || ''}
@@ -790,6 +938,18 @@ export function BrandStudio() {
                             />
                         </div>
                     ))}
+
+                    {currentSpace && (
+                        <BrandProfileHistory
+                            spaceId={currentSpace.id}
+                            current={profileSnapshot(profile)}
+                            refreshKey={versionsKey}
+                            onRestored={(restored) => {
+                                setProfile(prev => prev && { ...prev, ...restored, is_system_generated: false })
+                                setEditedProfile({ ...editedProfile, ...restored, is_system_generated: false })
+                            }}
+                        />
+                    )}
                 </div>
 
                 <div className="flex justify-end mt-8">
@@ -923,6 +1083,21 @@ export function BrandStudio() {
                             {sharePointConnection?.token_expired ? 'Reconnect' : 'Connect'}
                         </Button>
                     )}
+                    {sharePointConnection?.connected && (
+                        <Link to="/brand-studio/examples" className="block mt-2 text-sm text-[var(--color-primary)] hover:underline">
+                            Review training examples
+                        </Link>
+                    )}
+                    {unfinishedSync && (
+                        <button
+                            onClick={() => setActiveSyncId(unfinishedSync.id)}
+                            className="block mt-2 text-sm text-[var(--color-primary)] hover:underline text-left"
+                        >
+                            {unfinishedSync.status === 'processing' || unfinishedSync.status === 'queued'
+                                ? `Sync in progress (${unfinishedSync.processed} of ${unfinishedSync.total})`
+                                : `Last sync ${unfinishedSync.status} at ${unfinishedSync.processed} of ${unfinishedSync.total} - resume`}
+                        </button>
+                    )}
                 </div>
             </div>
 
@@ -1252,6 +1427,12 @@ export function BrandStudio() {
                 </div>
             )}
 
+            {/* Uploaded Documents */}
+            {currentSpace && <DocumentUploadPanel spaceId={currentSpace.id} />}
+
+            {/* Source Documents */}
+            {currentSpace && <SourceDocumentsPanel spaceId={currentSpace.id} />}
+
             {/* CTA */}
             <div className="flex justify-center">
                 <Button variant="pill" onClick={() => window.location.href = '/campaigns'}>
@@ -1264,104 +1445,85 @@ export function BrandStudio() {
             {showSyncModal && (
                 <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
                     <div className="bg-white rounded-xl p-6 max-w-lg w-full mx-4 shadow-xl">
-                        {!isSyncing ? (
-                            <>
-                                <div className="flex items-center justify-between mb-4">
-                                    <h3 className="text-lg font-semibold text-[var(--color-gray-900)]">
-                                        📊 Sync Estimate
-                                    </h3>
-                                    <button onClick={() => setShowSyncModal(false)} className="text-[var(--color-gray-400)] hover:text-[var(--color-gray-600)]">
-                                        <X className="w-5 h-5" />
-                                    </button>
-                                </div>
-
-                                {syncScanResult && (
-                                    <div className="space-y-4">
-                                        <div className="bg-[var(--color-gray-50)] rounded-lg p-4 space-y-2">
-                                            <div className="flex justify-between">
-                                                <span className="text-[var(--color-gray-600)]">Documents found:</span>
-                                                <span className="font-medium">{syncScanResult.total_files} files</span>
-                                            </div>
-                                            <div className="flex justify-between">
-                                                <span className="text-[var(--color-gray-600)]">Supported formats:</span>
-                                                <span className="font-medium text-green-600">{syncScanResult.supported_files} (.docx, .pdf, etc)</span>
-                                            </div>
-                                            <div className="flex justify-between">
-                                                <span className="text-[var(--color-gray-600)]">Skipping:</span>
-                                                <span className="text-[var(--color-gray-400)]">{syncScanResult.skipped_files} (unsupported)</span>
-                                            </div>
-                                        </div>
-
-                                        <div className="border-t border-[var(--color-gray-200)] pt-4 space-y-2">
-                                            <div className="flex justify-between">
-                                                <span className="text-[var(--color-gray-600)]">Estimated tokens:</span>
-                                                <span className="font-medium">~{syncScanResult.estimated_tokens.toLocaleString()}</span>
-                                            </div>
-                                            <div className="flex justify-between">
-                                                <span className="text-[var(--color-gray-600)]">💵 Estimated cost:</span>
-                                                <span className="font-bold text-[var(--color-primary)]">${syncScanResult.estimated_cost.toFixed(2)}</span>
-                                            </div>
-                                            <div className="flex justify-between">
-                                                <span className="text-[var(--color-gray-600)]">⏱️ Estimated time:</span>
-                                                <span className="font-medium">~{syncScanResult.estimated_time_minutes} minutes</span>
-                                            </div>
-                                        </div>
+                        <div className="flex items-center justify-between mb-4">
+                            <h3 className="text-lg font-semibold text-[var(--color-gray-900)]">
+                                📊 Sync Estimate
+                            </h3>
+                            <button onClick={() => setShowSyncModal(false)} className="text-[var(--color-gray-400)] hover:text-[var(--color-gray-600)]">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
 
-                                        <p className="text-sm text-[var(--color-gray-500)]">
-                                            This will extract knowledge and generate training examples for your custom AI model. Progress is saved automatically.
-                                        </p>
-
-                                        <div className="flex gap-3 pt-2">
-                                            <Button variant="ghost" className="flex-1" onClick={() => setShowSyncModal(false)}>
-                                                Cancel
-                                            </Button>
-                                            <Button variant="pill" className="flex-1" onClick={handleConfirmSync}>
-                                                Start Sync
-                                                <ArrowRight className="w-4 h-4" />
-                                            </Button>
-                                        </div>
+                        {syncScanResult && (
+                            <div className="space-y-4">
+                                <div className="bg-[var(--color-gray-50)] rounded-lg p-4 space-y-2">
+                                    {syncScanResult.sync_mode === 'delta' && (
+                                        <p className="text-sm text-[var(--color-gray-500)]">Changes since the last sync of this folder</p>
+                                    )}
+                                    <div className="flex justify-between">
+                                        <span className="text-[var(--color-gray-600)]">{syncScanResult.sync_mode === 'delta' ? 'New or changed files:' : 'Documents found:'}</span>
+                                        <span className="font-medium">{syncScanResult.total_files} files</span>
                                     </div>
-                                )}
-                            </>
-                        ) : (
-                            <>
-                                <h3 className="text-lg font-semibold text-[var(--color-gray-900)] mb-4">
-                                    📂 Syncing Documents...
-                                </h3>
-
-                                {syncProgress && (
-                                    <div className="space-y-4">
-                                        <div className="relative pt-1">
-                                            <div className="flex mb-2 items-center justify-between">
-                                                <span className="text-sm font-medium text-[var(--color-gray-700)]">
-                                                    {syncProgress.processed} of {syncProgress.total} documents
-                                                </span>
-                                                <span className="text-sm font-medium text-[var(--color-primary)]">
-                                                    {syncProgress.total > 0 ? Math.round((syncProgress.processed / syncProgress.total) * 100) : 0}%
-                                                </span>
-                                            </div>
-                                            <div className="overflow-hidden h-3 text-xs flex rounded-full bg-[var(--color-gray-200)]">
-                                                <div
-                                                    style={{ width: `${syncProgress.total > 0 ? (syncProgress.processed / syncProgress.total) * 100 : 0}%` }}
-                                                    className="shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center bg-gradient-to-r from-[var(--color-primary)] to-[var(--color-secondary)] transition-all duration-500"
-                                                />
-                                            </div>
+                                    <div className="flex justify-between">
+                                        <span className="text-[var(--color-gray-600)]">Supported formats:</span>
+                                        <span className="font-medium text-green-600">{syncScanResult.supported_files} (.docx, .pptx, .pdf, etc)</span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span className="text-[var(--color-gray-600)]">Skipping:</span>
+                                        <span className="text-[var(--color-gray-400)]">{syncScanResult.skipped_files} (unsupported)</span>
+                                    </div>
+                                    {syncScanResult.deleted_files > 0 && (
+                                        <div className="flex justify-between">
+                                            <span className="text-[var(--color-gray-600)]">Removing:</span>
+                                            <span className="font-medium text-red-600">{syncScanResult.deleted_files} (deleted or moved)</span>
                                         </div>
+                                    )}
+                                </div>
 
-                                        <p className="text-sm text-[var(--color-gray-500)]">
-                                            Status: {syncProgress.status}
-                                        </p>
-
-                                        <p className="text-xs text-[var(--color-gray-400)]">
-                                            ✓ Progress auto-saves every batch. You can close this dialog.
-                                        </p>
+                                <div className="border-t border-[var(--color-gray-200)] pt-4 space-y-2">
+                                    <div className="flex justify-between">
+                                        <span className="text-[var(--color-gray-600)]">Estimated tokens:</span>
+                                        <span className="font-medium">~{syncScanResult.estimated_tokens.toLocaleString()}</span>
                                     </div>
-                                )}
-                            </>
+                                    <div className="flex justify-between">
+                                        <span className="text-[var(--color-gray-600)]">💵 Estimated cost:</span>
+                                        <span className="font-bold text-[var(--color-primary)]">${syncScanResult.estimated_cost.toFixed(2)}</span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span className="text-[var(--color-gray-600)]">⏱️ Estimated time:</span>
+                                        <span className="font-medium">~{syncScanResult.estimated_time_minutes} minutes</span>
+                                    </div>
+                                </div>
+
+                                <p className="text-sm text-[var(--color-gray-500)]">
+                                    This will extract knowledge and generate training examples for your custom AI model. Progress is saved after every file, and a cancelled sync can be resumed.
+                                </p>
+
+                                <div className="flex gap-3 pt-2">
+                                    <Button variant="ghost" className="flex-1" onClick={() => setShowSyncModal(false)}>
+                                        Cancel
+                                    </Button>
+                                    <Button variant="pill" className="flex-1" onClick={handleConfirmSync} isLoading={isStartingSync}>
+                                        Start Sync
+                                        <ArrowRight className="w-4 h-4" />
+                                    </Button>
+                                </div>
+                            </div>
                         )}
                     </div>
                 </div>
             )}
+
+            {activeSyncId && currentSpace && (
+                <SyncProgressModal
+                    spaceId={currentSpace.id}
+                    syncId={activeSyncId}
+                    onClose={() => {
+                        setActiveSyncId(null)
+                        fetchUnfinishedSync()
+                    }}
+                />
+            )}
         </div>
     )
 }
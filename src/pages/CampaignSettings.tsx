@@ -1,11 +1,27 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
-import { ArrowLeft, Play, Save, Settings, FileText, Sparkles, Target, Loader2, Eye, Trash2, ListChecks, MessageSquareText, Check, RefreshCw, Lightbulb, ChevronRight, Edit3, X, Image as ImageIcon, Copy, Download, CheckCircle2, Layers } from 'lucide-react'
+import { ArrowLeft, Play, Save, Settings, FileText, Sparkles, Target, Loader2, Eye, Trash2, ListChecks, MessageSquareText, Check, RefreshCw, Lightbulb, ChevronRight, Edit3, X, Image as ImageIcon, Copy, Download, CheckCircle2, Layers, AlertTriangle, Wand2, Inbox, ThumbsUp } from 'lucide-react'
 import { Button, Input, Textarea, StatusBadge } from '@/components/ui'
 import { ImageModal } from '@/components/posts/ImageModal'
+import { GroundedPostBody, GroundingBadge, GroundingPanel } from '@/components/posts/GroundingPanel'
+import { PostBodyEditor } from '@/components/posts/PostBodyEditor'
+import { PostRewrite } from '@/components/posts/PostRewrite'
+import { PostVariants } from '@/components/posts/PostVariants'
+import { PostRevisions } from '@/components/posts/PostRevisions'
+import { ChannelVariants } from '@/components/posts/ChannelVariants'
+import { ContentMixPanel, ContentSlotBadge } from '@/components/campaigns'
+import { IdeaBankPicker, IdeaStatusBadge } from '@/components/ideas'
+import { JobProgressModal, JobStatusBanner } from '@/components/jobs'
 import { supabase } from '@/lib/supabase'
+import { isJobActive, type Job } from '@/lib/jobs'
+import { getGroundingReport, type GroundingReport } from '@/lib/grounding'
+import { MAX_VARIANTS, clampVariantCount, getVariantSummary } from '@/lib/variants'
+import { EMPTY_CONTENT_MIX, compareContentMix, normaliseContentMix, toContentSlot, type ContentMix } from '@/lib/content-mix'
+import { OPEN_IDEA_STATUSES, ideaSlot } from '@/lib/ideas'
 import { useSpaceStore } from '@/stores/spaceStore'
-import type { Database, CampaignStatus, GenerationSettings, LockedSourceSettings, PostStatus } from '@/types/database'
+import { useAuthStore } from '@/stores/authStore'
+import { useJobStore } from '@/stores/jobStore'
+import type { Database, CampaignStatus, GenerationSettings, Json, LockedSourceSettings, PostStatus } from '@/types/database'
 import type { ImageStatus, ImageSettings, PromptStyle } from '@/types/image'
 
 type Campaign = Database['public']['Tables']['campaigns']['Row']
@@ -13,10 +29,11 @@ type Post = Database['public']['Tables']['posts']['Row']
 
 type TabKey = 'setup' | 'ideas' | 'posts'
 
+type Idea = Database['public']['Tables']['ideas']['Row']
+
 interface ExtendedGenerationSettings extends GenerationSettings {
-    topics?: string
     example_post?: string
-    generated_ideas?: string[]
+    variant_count?: number
 }
 
 interface BrandProfile {
@@ -71,6 +88,8 @@ export function CampaignSettings() {
     const { id } = useParams<{ id: string }>()
     const navigate = useNavigate()
     const { currentSpace } = useSpaceStore()
+    const { user } = useAuthStore()
+    const { enqueueJob, fetchActiveJobs, watchJob } = useJobStore()
 
     const [campaign, setCampaign] = useState<Campaign | null>(null)
     const [posts, setPosts] = useState<Post[]>([])
@@ -90,32 +109,25 @@ export function CampaignSettings() {
     const [includeHashtags, setIncludeHashtags] = useState(true)
     const [includeCTA, setIncludeCTA] = useState(true)
     const [includeEmojis, setIncludeEmojis] = useState<'none' | 'subtle' | 'frequent'>('subtle')
+    const [variantCount, setVariantCount] = useState(1)
     const [useWebsite, setUseWebsite] = useState(true)
     const [useManual, setUseManual] = useState(true)
+    const [contentMix, setContentMix] = useState<ContentMix>(EMPTY_CONTENT_MIX)
 
-    // Ideas state
-    const [ideas, setIdeas] = useState<string[]>([])
+    // Ideas state: the campaign's open ideas from the idea bank
+    const [ideas, setIdeas] = useState<Idea[]>([])
     const [isGeneratingIdeas, setIsGeneratingIdeas] = useState(false)
     const [ideaGenerationStage, setIdeaGenerationStage] = useState<'saving' | 'connecting' | 'analyzing' | 'generating' | 'complete'>('saving')
-    const [selectedIdeaIndices, setSelectedIdeaIndices] = useState<Set<number>>(new Set())
-    const [editingIdeaIndex, setEditingIdeaIndex] = useState<number | null>(null)
+    const [selectedIdeaIds, setSelectedIdeaIds] = useState<Set<string>>(new Set())
+    const [editingIdeaId, setEditingIdeaId] = useState<string | null>(null)
     const [editingIdeaText, setEditingIdeaText] = useState('')
+    const [showIdeaBank, setShowIdeaBank] = useState(false)
 
-    // Post generation state
-    const [isGeneratingPosts, setIsGeneratingPosts] = useState(false)
-    const [generationProgress, setGenerationProgress] = useState<{
-        current: number
-        total: number
-        stage: 'connecting' | 'preparing' | 'generating' | 'saving' | 'completed'
-        currentTopic: string
-        completedTopics: string[]
-    }>({
-        current: 0,
-        total: 0,
-        stage: 'connecting',
-        currentTopic: '',
-        completedTopics: []
-    })
+    // Post generation runs as a background job
+    const [postJobId, setPostJobId] = useState<string | null>(null)
+    const [showPostJobModal, setShowPostJobModal] = useState(false)
+    const postJob = useJobStore(state => postJobId ? state.jobs[postJobId] : undefined)
+    const isGeneratingPosts = !!postJob && isJobActive(postJob.status)
 
     // Post selection and expansion
     const [selectedPostIds, setSelectedPostIds] = useState<Set<string>>(new Set())
@@ -126,20 +138,17 @@ export function CampaignSettings() {
     const [previewPost, setPreviewPost] = useState<Post | null>(null)
     const [previewImage, setPreviewImage] = useState<{ url: string; prompt: string } | null>(null)
     const [copiedText, setCopiedText] = useState(false)
+    const [isEditingPreview, setIsEditingPreview] = useState(false)
+    const [isRewritingPreview, setIsRewritingPreview] = useState(false)
 
     // Image status refresh counter - increment to force re-fetch
     const [imageStatusRefresh, setImageStatusRefresh] = useState(0)
 
     // Bulk operations state
-    const [isBulkGeneratingImages, setIsBulkGeneratingImages] = useState(false)
-    const [bulkImageProgress, setBulkImageProgress] = useState({
-        current: 0,
-        total: 0,
-        phase: 'preparing' as 'preparing' | 'fetching' | 'generating' | 'complete',
-        statusText: 'Preparing...',
-        successCount: 0,
-        errorCount: 0,
-    })
+    const [imageJobId, setImageJobId] = useState<string | null>(null)
+    const [showImageJobModal, setShowImageJobModal] = useState(false)
+    const imageJob = useJobStore(state => imageJobId ? state.jobs[imageJobId] : undefined)
+    const isBulkGeneratingImages = !!imageJob && isJobActive(imageJob.status)
     const [isBulkApplyingLogos, setIsBulkApplyingLogos] = useState(false)
     const [bulkLogoProgress, setBulkLogoProgress] = useState({
         current: 0,
@@ -168,6 +177,24 @@ export function CampaignSettings() {
         { value: 'published', label: 'Published', color: 'bg-green-100 text-green-800' },
     ]
 
+    const fetchIdeas = useCallback(async (): Promise<Idea[]> => {
+        if (!id) return []
+
+        const { data, error } = await supabase
+            .from('ideas')
+            .select('*')
+            .eq('campaign_id', id)
+            .in('status', OPEN_IDEA_STATUSES)
+            .order('created_at', { ascending: true })
+
+        if (error) {
+            console.error('Error fetching ideas:', error)
+            return []
+        }
+        setIdeas(data || [])
+        return data || []
+    }, [id])
+
     const fetchCampaign = useCallback(async () => {
         if (!id) return
 
@@ -198,7 +225,10 @@ export function CampaignSettings() {
             setIncludeHashtags((genSettings as any)?.include_hashtags ?? true)
             setIncludeCTA((genSettings as any)?.include_cta ?? true)
             setIncludeEmojis((genSettings as any)?.include_emojis || 'subtle')
-            setIdeas(genSettings?.generated_ideas || [])
+            setVariantCount(clampVariantCount(genSettings?.variant_count))
+            setContentMix(normaliseContentMix(genSettings?.content_mix))
+
+            const campaignIdeas = await fetchIdeas()
 
             // Fetch posts
             const { data: postsData } = await supabase
@@ -232,7 +262,7 @@ export function CampaignSettings() {
             // Auto-select tab based on state
             if (postsData && postsData.length > 0) {
                 setActiveTab('posts')
-            } else if (genSettings?.generated_ideas && genSettings.generated_ideas.length > 0) {
+            } else if (campaignIdeas.length > 0) {
                 setActiveTab('ideas')
             }
         } catch (error) {
@@ -240,12 +270,43 @@ export function CampaignSettings() {
         } finally {
             setIsLoading(false)
         }
-    }, [id])
+    }, [id, fetchIdeas])
 
     useEffect(() => {
         fetchCampaign()
     }, [fetchCampaign])
 
+    const handlePostJobFinished = useCallback(() => {
+        fetchCampaign()
+    }, [fetchCampaign])
+
+    const handleImageJobFinished = useCallback(() => {
+        setImageStatusRefresh(prev => prev + 1)
+    }, [])
+
+    // Pick up jobs for this campaign that are still running, e.g. after a reload
+    useEffect(() => {
+        if (!currentSpace || !id) return
+
+        fetchActiveJobs(currentSpace.id).then((active: Job[]) => {
+            const textJob = active.find(j => j.type === 'generate_text' && j.campaign_id === id)
+            if (textJob) {
+                setPostJobId(textJob.id)
+                watchJob(textJob.id, handlePostJobFinished)
+            }
+
+            const imagesJob = active.find(j => j.type === 'generate_image' && j.campaign_id === id)
+            if (imagesJob) {
+                setImageJobId(imagesJob.id)
+                watchJob(imagesJob.id, handleImageJobFinished)
+            }
+        })
+    }, [currentSpace, id, fetchActiveJobs, watchJob, handlePostJobFinished, handleImageJobFinished])
+
+    // Actual mix of the campaign's posts against its targets
+    const postSlots = posts.map(p => toContentSlot(p.content_layer, p.content_category))
+    const mixWarnings = compareContentMix(contentMix, postSlots).warnings
+
     const handleSave = async () => {
         if (!id) return
 
@@ -270,8 +331,8 @@ export function CampaignSettings() {
                         include_hashtags: includeHashtags,
                         include_cta: includeCTA,
                         include_emojis: includeEmojis,
-                        generated_ideas: ideas,
-                        topics: ideas.join('\n'), // For backward compatibility
+                        variant_count: variantCount,
+                        content_mix: normaliseContentMix(contentMix),
                     },
                     updated_at: new Date().toISOString(),
                 })
@@ -286,33 +347,6 @@ export function CampaignSettings() {
         }
     }
 
-    // Quick save for ideas only (used when deleting/modifying ideas)
-    const saveIdeas = async (newIdeas: string[]) => {
-        if (!id) return
-        try {
-            await supabase
-                .from('campaigns')
-                .update({
-                    generation_settings: {
-                        example_post: examplePost,
-                        tone_modifiers: toneNotes,
-                        audience_notes: audienceNotes,
-                        target_topics: targetTopics,
-                        post_length: postLength,
-                        include_hashtags: includeHashtags,
-                        include_cta: includeCTA,
-                        include_emojis: includeEmojis,
-                        generated_ideas: newIdeas,
-                        topics: newIdeas.join('\n'),
-                    },
-                    updated_at: new Date().toISOString(),
-                })
-                .eq('id', id)
-        } catch (error) {
-            console.error('Error saving ideas:', error)
-        }
-    }
-
     const handleGenerateIdeas = async () => {
         if (!id) return
 
@@ -329,49 +363,57 @@ export function CampaignSettings() {
 
         setIdeaGenerationStage('generating')
 
+        // Untriaged ideas are replaced; approved ones stay and count towards the mix
+        const replaced = ideas.filter(idea => idea.status === 'new')
+        const kept = ideas.filter(idea => idea.status !== 'new')
+
         try {
             const { data, error } = await supabase.functions.invoke('generate-ideas', {
-                body: { campaign_id: id, count: targetCount },
+                body: {
+                    campaign_id: id,
+                    count: targetCount,
+                    keep_mix: kept.map(ideaSlot),
+                    replace_ids: replaced.map(idea => idea.id),
+                },
             })
 
             if (error) throw error
+            if (data?.error) throw new Error(data.error)
 
             setIdeaGenerationStage('complete')
             await new Promise(r => setTimeout(r, 500)) // Brief success pause
 
-            setIdeas(data.ideas || [])
-            await saveIdeas(data.ideas || [])
+            setSelectedIdeaIds(new Set())
+            await fetchIdeas()
             setActiveTab('ideas')
         } catch (error) {
             console.error('Error generating ideas:', error)
-            alert('Failed to generate ideas')
+            alert(error instanceof Error ? error.message : 'Failed to generate ideas')
         } finally {
             setIsGeneratingIdeas(false)
         }
     }
 
     const handleRegenerateSelected = async () => {
-        if (selectedIdeaIndices.size === 0) return
+        if (selectedIdeaIds.size === 0) return
 
         setIsGeneratingIdeas(true)
         try {
+            // Kept ideas count towards the mix, so replacements fill the gaps
             const { data, error } = await supabase.functions.invoke('generate-ideas', {
-                body: { campaign_id: id, count: selectedIdeaIndices.size },
+                body: {
+                    campaign_id: id,
+                    count: selectedIdeaIds.size,
+                    keep_mix: ideas.filter(idea => !selectedIdeaIds.has(idea.id)).map(ideaSlot),
+                    replace_ids: Array.from(selectedIdeaIds),
+                },
             })
 
             if (error) throw error
+            if (data?.error) throw new Error(data.error)
 
-            // Replace selected ideas with new ones
-            const newIdeas = [...ideas]
-            const indicesToReplace = Array.from(selectedIdeaIndices).sort((a, b) => a - b)
-            indicesToReplace.forEach((idx, i) => {
-                if (data.ideas[i]) {
-                    newIdeas[idx] = data.ideas[i]
-                }
-            })
-            setIdeas(newIdeas)
-            setSelectedIdeaIndices(new Set())
-            await handleSave()
+            setSelectedIdeaIds(new Set())
+            await fetchIdeas()
         } catch (error) {
             console.error('Error regenerating ideas:', error)
         } finally {
@@ -379,130 +421,84 @@ export function CampaignSettings() {
         }
     }
 
-    const handleDeleteIdea = async (index: number) => {
-        const newIdeas = ideas.filter((_, i) => i !== index)
-        setIdeas(newIdeas)
-        selectedIdeaIndices.delete(index)
-        setSelectedIdeaIndices(new Set(selectedIdeaIndices))
-        await saveIdeas(newIdeas)
+    // Writes a change to some of the campaign's ideas and drops any that are no longer open
+    const updateIdeas = async (ideaIds: string[], changes: Database['public']['Tables']['ideas']['Update']) => {
+        try {
+            const { error } = await supabase
+                .from('ideas')
+                .update({ ...changes, updated_at: new Date().toISOString() })
+                .in('id', ideaIds)
+
+            if (error) throw error
+
+            setIdeas(prev => prev
+                .map(idea => ideaIds.includes(idea.id) ? { ...idea, ...changes } : idea)
+                .filter(idea => OPEN_IDEA_STATUSES.includes(idea.status)))
+            if (changes.status && !OPEN_IDEA_STATUSES.includes(changes.status)) {
+                setSelectedIdeaIds(prev => new Set([...prev].filter(ideaId => !ideaIds.includes(ideaId))))
+            }
+        } catch (error) {
+            console.error('Error updating ideas:', error)
+            alert(error instanceof Error ? error.message : 'Failed to update ideas')
+        }
     }
 
-    const handleEditIdea = (index: number) => {
-        setEditingIdeaIndex(index)
-        setEditingIdeaText(ideas[index])
+    const handleEditIdea = (idea: Idea) => {
+        setEditingIdeaId(idea.id)
+        setEditingIdeaText(idea.title)
     }
 
     const handleSaveEditedIdea = async () => {
-        if (editingIdeaIndex !== null) {
-            const newIdeas = [...ideas]
-            newIdeas[editingIdeaIndex] = editingIdeaText
-            setIdeas(newIdeas)
-            setEditingIdeaIndex(null)
+        if (editingIdeaId !== null && editingIdeaText.trim()) {
+            await updateIdeas([editingIdeaId], { title: editingIdeaText.trim() })
+            setEditingIdeaId(null)
             setEditingIdeaText('')
-            await saveIdeas(newIdeas)
         }
     }
 
-    const toggleIdeaSelect = (index: number) => {
-        const next = new Set(selectedIdeaIndices)
-        if (next.has(index)) {
-            next.delete(index)
+    const toggleIdeaSelect = (ideaId: string) => {
+        const next = new Set(selectedIdeaIds)
+        if (next.has(ideaId)) {
+            next.delete(ideaId)
         } else {
-            next.add(index)
+            next.add(ideaId)
         }
-        setSelectedIdeaIndices(next)
+        setSelectedIdeaIds(next)
+    }
+
+    const handleIdeasAdded = async () => {
+        setShowIdeaBank(false)
+        await fetchIdeas()
     }
 
     const handleGeneratePosts = async () => {
-        if (!id || ideas.length === 0) return
+        if (!id || !currentSpace || !user || ideas.length === 0) return
 
         // Determine which ideas to generate posts for
-        const ideasToGenerate = selectedIdeaIndices.size > 0
-            ? Array.from(selectedIdeaIndices).sort((a, b) => a - b).map(i => ideas[i])
+        const ideasToGenerate = selectedIdeaIds.size > 0
+            ? ideas.filter(idea => selectedIdeaIds.has(idea.id))
             : ideas
 
-        // Save ideas to campaign first
+        // Save settings first
         await handleSave()
 
-        setIsGeneratingPosts(true)
-        setGenerationProgress({
-            current: 0,
-            total: ideasToGenerate.length,
-            stage: 'connecting',
-            currentTopic: '',
-            completedTopics: []
-        })
-
         try {
-            // Stage: Connecting
-            await new Promise(resolve => setTimeout(resolve, 500))
-            setGenerationProgress(prev => ({ ...prev, stage: 'preparing' }))
-
-            await supabase
-                .from('campaigns')
-                .update({ status: 'running', updated_at: new Date().toISOString() })
-                .eq('id', id)
-
-            // Stage: Preparing
-            await new Promise(resolve => setTimeout(resolve, 500))
-            setGenerationProgress(prev => ({
-                ...prev,
-                stage: 'generating',
-                currentTopic: ideasToGenerate[0] || 'Starting...'
-            }))
-
-            // Poll for progress
-            const pollInterval = setInterval(async () => {
-                const { data: postsData } = await supabase
-                    .from('posts')
-                    .select('*, topic')
-                    .eq('campaign_id', id)
-                    .order('sequence_number', { ascending: true })
-
-                const count = postsData?.length || 0
-                const completedTopics = postsData?.map(p => p.topic || ideasToGenerate[count - 1] || '') || []
-                const nextTopicIndex = count < ideasToGenerate.length ? count : ideasToGenerate.length - 1
-
-                setGenerationProgress(prev => ({
-                    ...prev,
-                    current: count,
-                    stage: count >= ideasToGenerate.length ? 'completed' : 'generating',
-                    currentTopic: count < ideasToGenerate.length ? ideasToGenerate[nextTopicIndex] : 'Finishing up...',
-                    completedTopics: completedTopics.slice(0, count)
-                }))
-                setPosts(postsData || [])
-
-                if (count >= ideasToGenerate.length) {
-                    clearInterval(pollInterval)
-                    setGenerationProgress(prev => ({ ...prev, stage: 'completed' }))
-                    setTimeout(() => {
-                        setIsGeneratingPosts(false)
-                        setActiveTab('posts')
-                    }, 1500)
-                }
-            }, 2000)
-
-            const { error } = await supabase.functions.invoke('generate-campaign-posts', {
-                body: { campaign_id: id, ideas: ideasToGenerate },
+            const job = await enqueueJob({
+                spaceId: currentSpace.id,
+                userId: user.id,
+                type: 'generate_text',
+                campaignId: id,
+                payload: { campaign_id: id, sequence_start: posts.length + 1 },
+                items: ideasToGenerate.map(idea => ({ key: idea.id, label: idea.title })),
             })
 
-            if (error) {
-                clearInterval(pollInterval)
-                throw error
-            }
-
-            // Fallback timeout
-            setTimeout(async () => {
-                clearInterval(pollInterval)
-                await fetchCampaign()
-                setIsGeneratingPosts(false)
-                setActiveTab('posts')
-            }, ideasToGenerate.length * 8000) // ~8s per post max
-
+            setPostJobId(job.id)
+            setShowPostJobModal(true)
+            setSelectedIdeaIds(new Set())
+            watchJob(job.id, handlePostJobFinished)
         } catch (error) {
             console.error('Error generating posts:', error)
             alert('Failed to generate posts')
-            setIsGeneratingPosts(false)
         }
     }
 
@@ -540,9 +536,61 @@ export function CampaignSettings() {
         else setSelectedPostIds(new Set(posts.map(p => p.id)))
     }
 
+    // Store a fresh grounding report on the previewed post and the list
+    const handleGroundingVerified = (report: GroundingReport) => {
+        if (!previewPost) return
+        const withReport = (p: Post): Post => ({
+            ...p,
+            generation_meta: { ...(p.generation_meta as Record<string, Json>), grounding: report as unknown as Json },
+        })
+        setPreviewPost(withReport(previewPost))
+        setPosts(prev => prev.map(p => p.id === previewPost.id ? withReport(p) : p))
+    }
+
+    const handlePreviewBodySaved = (body: string) => {
+        if (!previewPost) return
+        setPreviewPost({ ...previewPost, body })
+        setPosts(prev => prev.map(p => p.id === previewPost.id ? { ...p, body } : p))
+        setIsEditingPreview(false)
+    }
+
+    const handlePreviewRewritten = (changes: { body: string; generation_meta: Record<string, unknown> }) => {
+        if (!previewPost) return
+        const rewritten = { body: changes.body, generation_meta: changes.generation_meta as Json }
+        setPreviewPost({ ...previewPost, ...rewritten })
+        setPosts(prev => prev.map(p => p.id === previewPost.id ? { ...p, ...rewritten } : p))
+        setIsRewritingPreview(false)
+    }
+
+    const handlePreviewRestored = (changes: { title: string; body: string | null }) => {
+        if (!previewPost) return
+        setPreviewPost({ ...previewPost, ...changes })
+        setPosts(prev => prev.map(p => p.id === previewPost.id ? { ...p, ...changes } : p))
+    }
+
+    const handleVariantSelected = (changes: Pick<Post, 'body' | 'generation_meta'>) => {
+        if (!previewPost) return
+        setPreviewPost({ ...previewPost, ...changes })
+        setPosts(prev => prev.map(p => p.id === previewPost.id ? { ...p, ...changes } : p))
+    }
+
+    // Reload the post list after a variant has been saved as its own post
+    const refreshPosts = async () => {
+        if (!id) return
+        const { data: postsData } = await supabase
+            .from('posts')
+            .select('*')
+            .eq('campaign_id', id)
+            .order('sequence_number', { ascending: true })
+
+        setPosts(postsData || [])
+    }
+
     // Open preview modal with primary image
     const handleOpenPreview = async (post: Post) => {
         setPreviewPost(post)
+        setIsEditingPreview(false)
+        setIsRewritingPreview(false)
 
         // Fetch primary image for this post
         if (currentSpace) {
@@ -672,125 +720,27 @@ export function CampaignSettings() {
 
     // Bulk generate images for selected posts
     const handleBulkGenerateImages = async () => {
-        if (selectedPostIds.size === 0 || !currentSpace) return
-
-        setIsBulkGeneratingImages(true)
-        setBulkImageProgress({
-            current: 0,
-            total: selectedPostIds.size,
-            phase: 'preparing',
-            statusText: 'Preparing batch...',
-            successCount: 0,
-            errorCount: 0,
-        })
-
-        const postIds = Array.from(selectedPostIds)
-        let successCount = 0
-        let errorCount = 0
-
-        for (let i = 0; i < postIds.length; i++) {
-            const postId = postIds[i]
-            const postNumber = i + 1
-
-            // Update progress - fetching phase
-            setBulkImageProgress(prev => ({
-                ...prev,
-                current: i,
-                phase: 'fetching',
-                statusText: `Fetching post ${postNumber} of ${postIds.length}...`,
-            }))
-
-            try {
-                // Fetch the post to get its prompt and settings
-                const { data: post, error: fetchError } = await supabase
-                    .from('posts')
-                    .select('body, image_prompt, image_settings')
-                    .eq('id', postId)
-                    .single()
-
-                if (fetchError || !post) {
-                    console.error(`Failed to fetch post ${postId}:`, fetchError)
-                    errorCount++
-                    setBulkImageProgress(prev => ({ ...prev, errorCount }))
-                    continue
-                }
-
-                // Update progress - generating phase
-                setBulkImageProgress(prev => ({
-                    ...prev,
-                    phase: 'generating',
-                    statusText: `Generating images for post ${postNumber} of ${postIds.length}...`,
-                }))
-
-                // Use image_prompt if available, otherwise generate from body
-                const prompt = post.image_prompt ||
-                    `Professional LinkedIn post image about: ${post.body?.slice(0, 200) || 'business content'}`
-
-                const settings = post.image_settings || {
-                    style: 'photographic',
-                    include_people: true,
-                    include_text: false,
-                    include_logos: false,
-                    aspect_ratio: '1:1',
-                }
-
-                // Generate images for this post
-                const { data, error } = await supabase.functions.invoke('generate-post-images', {
-                    body: {
-                        post_id: postId,
-                        space_id: currentSpace.id,
-                        prompt,
-                        settings,
-                        count: 2,
-                    },
-                })
-
-                if (error) {
-                    console.error(`Edge function error for post ${postId}:`, error)
-                    errorCount++
-                } else if (data?.success) {
-                    successCount++
-                    console.log(`Generated ${data.total_generated} images for post ${postId}`)
-                } else {
-                    console.error(`Generation failed for post ${postId}:`, data?.error)
-                    errorCount++
-                }
-
-                // Update counts in progress
-                setBulkImageProgress(prev => ({
-                    ...prev,
-                    successCount,
-                    errorCount,
-                }))
-
-                // Small delay between requests to avoid rate limiting
-                await new Promise(resolve => setTimeout(resolve, 500))
-            } catch (err) {
-                console.error(`Failed to generate images for post ${postId}:`, err)
-                errorCount++
-                setBulkImageProgress(prev => ({ ...prev, errorCount }))
-            }
-        }
+        if (selectedPostIds.size === 0 || !currentSpace || !user) return
 
-        setBulkImageProgress(prev => ({
-            ...prev,
-            current: postIds.length,
-            phase: 'complete',
-            statusText: `Complete! ${successCount} successful, ${errorCount} failed`,
-            successCount,
-            errorCount,
-        }))
-
-        // Small delay to show completion state
-        await new Promise(resolve => setTimeout(resolve, 1000))
+        const selectedPosts = posts.filter(p => selectedPostIds.has(p.id))
 
-        setIsBulkGeneratingImages(false)
-        setImageStatusRefresh(prev => prev + 1)
-        setSelectedPostIds(new Set())
+        try {
+            const job = await enqueueJob({
+                spaceId: currentSpace.id,
+                userId: user.id,
+                type: 'generate_image',
+                campaignId: id || null,
+                payload: { count: 2 },
+                items: selectedPosts.map(p => ({ key: p.id, label: p.title || p.topic || 'Untitled post' })),
+            })
 
-        // Show summary only if there were errors
-        if (errorCount > 0) {
-            alert(`Completed: ${successCount} successful, ${errorCount} failed. Check console for details.`)
+            setImageJobId(job.id)
+            setShowImageJobModal(true)
+            setSelectedPostIds(new Set())
+            watchJob(job.id, handleImageJobFinished)
+        } catch (error) {
+            console.error('Error generating images:', error)
+            alert('Failed to start image generation')
         }
     }
 
@@ -1097,6 +1047,18 @@ export function CampaignSettings() {
                 ))}
             </div>
 
+            {/* Background Jobs */}
+            {((isGeneratingPosts && !showPostJobModal) || (isBulkGeneratingImages && !showImageJobModal)) && (
+                <div className="space-y-2 mb-6">
+                    {postJobId && !showPostJobModal && (
+                        <JobStatusBanner jobId={postJobId} title="Generating posts" onView={() => setShowPostJobModal(true)} />
+                    )}
+                    {imageJobId && !showImageJobModal && (
+                        <JobStatusBanner jobId={imageJobId} title="Generating images" onView={() => setShowImageJobModal(true)} />
+                    )}
+                </div>
+            )}
+
             {/* Tab Content */}
             {activeTab === 'setup' && (
                 <div className="space-y-6">
@@ -1177,6 +1139,29 @@ export function CampaignSettings() {
                                     </div>
                                 </div>
 
+                                <div>
+                                    <label className="block text-sm font-medium text-[var(--color-gray-700)] mb-1">
+                                        Variants per Topic
+                                    </label>
+                                    <div className="flex gap-2">
+                                        {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => (
+                                            <button
+                                                key={n}
+                                                onClick={() => setVariantCount(n)}
+                                                className={`flex-1 px-3 py-2 text-sm rounded-lg border transition-colors ${variantCount === n
+                                                    ? 'bg-[var(--color-primary)] text-white border-[var(--color-primary)]'
+                                                    : 'border-[var(--color-gray-300)] hover:bg-[var(--color-gray-50)]'
+                                                    }`}
+                                            >
+                                                {n}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <p className="text-xs text-[var(--color-gray-400)] mt-1">
+                                        More than one writes each topic from different angles to compare side by side
+                                    </p>
+                                </div>
+
                                 <div className="grid grid-cols-3 gap-3 pt-2">
                                     <label className="flex items-center gap-2 cursor-pointer">
                                         <input
@@ -1273,6 +1258,14 @@ export function CampaignSettings() {
                         </div>
                     </div>
 
+                    {/* Content Mix */}
+                    <ContentMixPanel
+                        mix={contentMix}
+                        onChange={setContentMix}
+                        postSlots={postSlots}
+                        ideaSlots={ideas.map(ideaSlot)}
+                    />
+
                     {/* Example Post */}
                     <div className="bg-white rounded-xl border border-[var(--color-gray-200)] p-6">
                         <div className="flex items-center gap-3 mb-4">
@@ -1382,24 +1375,24 @@ export function CampaignSettings() {
                             <label className="flex items-center gap-2 cursor-pointer">
                                 <input
                                     type="checkbox"
-                                    checked={ideas.length > 0 && selectedIdeaIndices.size === ideas.length}
+                                    checked={ideas.length > 0 && selectedIdeaIds.size === ideas.length}
                                     onChange={() => {
-                                        if (selectedIdeaIndices.size === ideas.length) {
-                                            setSelectedIdeaIndices(new Set())
+                                        if (selectedIdeaIds.size === ideas.length) {
+                                            setSelectedIdeaIds(new Set())
                                         } else {
-                                            setSelectedIdeaIndices(new Set(ideas.map((_, i) => i)))
+                                            setSelectedIdeaIds(new Set(ideas.map(idea => idea.id)))
                                         }
                                     }}
                                     className="w-4 h-4 rounded border-[var(--color-gray-300)]"
                                 />
                                 <span className="text-sm text-[var(--color-gray-600)]">
-                                    {selectedIdeaIndices.size === ideas.length ? 'Deselect all' : 'Select all'}
+                                    {selectedIdeaIds.size === ideas.length ? 'Deselect all' : 'Select all'}
                                 </span>
                             </label>
                             <span className="text-sm text-[var(--color-gray-400)]">
-                                {ideas.length} ideas • {selectedIdeaIndices.size} selected
+                                {ideas.length} ideas • {selectedIdeaIds.size} selected
                             </span>
-                            {selectedIdeaIndices.size > 0 && (
+                            {selectedIdeaIds.size > 0 && (
                                 <>
                                     <Button
                                         variant="secondary"
@@ -1413,21 +1406,20 @@ export function CampaignSettings() {
                                     <Button
                                         variant="secondary"
                                         size="sm"
-                                        onClick={async () => {
-                                            const newIdeas = ideas.filter((_, i) => !selectedIdeaIndices.has(i))
-                                            setIdeas(newIdeas)
-                                            setSelectedIdeaIndices(new Set())
-                                            await saveIdeas(newIdeas)
-                                        }}
+                                        onClick={() => updateIdeas(Array.from(selectedIdeaIds), { status: 'rejected' })}
                                         className="text-red-600 hover:bg-red-50"
                                     >
                                         <Trash2 className="w-4 h-4" />
-                                        Delete Selected ({selectedIdeaIndices.size})
+                                        Reject Selected ({selectedIdeaIds.size})
                                     </Button>
                                 </>
                             )}
                         </div>
                         <div className="flex items-center gap-2">
+                            <Button variant="secondary" onClick={() => setShowIdeaBank(true)}>
+                                <Inbox className="w-4 h-4" />
+                                From Idea Bank
+                            </Button>
                             <Button
                                 variant="secondary"
                                 onClick={handleGenerateIdeas}
@@ -1442,7 +1434,7 @@ export function CampaignSettings() {
                                 disabled={ideas.length === 0 || isGeneratingPosts}
                             >
                                 <Play className="w-4 h-4" />
-                                Generate {selectedIdeaIndices.size > 0 ? selectedIdeaIndices.size : ideas.length} {(selectedIdeaIndices.size > 0 ? selectedIdeaIndices.size : ideas.length) === 1 ? 'Post' : 'Posts'}
+                                Generate {selectedIdeaIds.size > 0 ? selectedIdeaIds.size : ideas.length} {(selectedIdeaIds.size > 0 ? selectedIdeaIds.size : ideas.length) === 1 ? 'Post' : 'Posts'}
                             </Button>
                         </div>
                     </div>
@@ -1461,58 +1453,91 @@ export function CampaignSettings() {
                             </div>
                         ) : (
                             <div className="divide-y divide-[var(--color-gray-100)]">
-                                {ideas.map((idea, index) => (
-                                    <div
-                                        key={index}
-                                        className={`p-4 transition-colors ${selectedIdeaIndices.has(index) ? 'bg-blue-50' : 'hover:bg-[var(--color-gray-50)]'
-                                            }`}
-                                    >
-                                        {editingIdeaIndex === index ? (
-                                            <div className="flex gap-2">
-                                                <input
-                                                    type="text"
-                                                    value={editingIdeaText}
-                                                    onChange={(e) => setEditingIdeaText(e.target.value)}
-                                                    className="flex-1 px-3 py-2 border border-[var(--color-gray-300)] rounded-lg text-sm"
-                                                    autoFocus
-                                                />
-                                                <Button variant="primary" size="sm" onClick={handleSaveEditedIdea}>
-                                                    <Check className="w-4 h-4" />
-                                                </Button>
-                                                <Button variant="ghost" size="sm" onClick={() => setEditingIdeaIndex(null)}>
-                                                    <X className="w-4 h-4" />
-                                                </Button>
-                                            </div>
-                                        ) : (
-                                            <div className="flex items-center gap-3">
-                                                <input
-                                                    type="checkbox"
-                                                    checked={selectedIdeaIndices.has(index)}
-                                                    onChange={() => toggleIdeaSelect(index)}
-                                                    className="w-4 h-4 rounded"
-                                                />
-                                                <span className="text-xs font-medium bg-[var(--color-gray-100)] text-[var(--color-gray-600)] px-2 py-0.5 rounded">
-                                                    #{index + 1}
-                                                </span>
-                                                <span className="flex-1 text-[var(--color-gray-800)]">{idea}</span>
-                                                <Button variant="ghost" size="sm" onClick={() => handleEditIdea(index)}>
-                                                    <Edit3 className="w-4 h-4" />
-                                                </Button>
-                                                <Button variant="ghost" size="sm" onClick={() => handleDeleteIdea(index)}>
-                                                    <Trash2 className="w-4 h-4 text-red-500" />
-                                                </Button>
-                                            </div>
-                                        )}
-                                    </div>
-                                ))}
+                                {ideas.map((idea, index) => {
+                                    const slot = ideaSlot(idea)
+
+                                    return (
+                                        <div
+                                            key={idea.id}
+                                            className={`p-4 transition-colors ${selectedIdeaIds.has(idea.id) ? 'bg-blue-50' : 'hover:bg-[var(--color-gray-50)]'
+                                                }`}
+                                        >
+                                            {editingIdeaId === idea.id ? (
+                                                <div className="flex gap-2">
+                                                    <input
+                                                        type="text"
+                                                        value={editingIdeaText}
+                                                        onChange={(e) => setEditingIdeaText(e.target.value)}
+                                                        className="flex-1 px-3 py-2 border border-[var(--color-gray-300)] rounded-lg text-sm"
+                                                        autoFocus
+                                                    />
+                                                    <Button variant="primary" size="sm" onClick={handleSaveEditedIdea}>
+                                                        <Check className="w-4 h-4" />
+                                                    </Button>
+                                                    <Button variant="ghost" size="sm" onClick={() => setEditingIdeaId(null)}>
+                                                        <X className="w-4 h-4" />
+                                                    </Button>
+                                                </div>
+                                            ) : (
+                                                <div className="flex items-center gap-3">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selectedIdeaIds.has(idea.id)}
+                                                        onChange={() => toggleIdeaSelect(idea.id)}
+                                                        className="w-4 h-4 rounded"
+                                                    />
+                                                    <span className="text-xs font-medium bg-[var(--color-gray-100)] text-[var(--color-gray-600)] px-2 py-0.5 rounded">
+                                                        #{index + 1}
+                                                    </span>
+                                                    <span className="flex-1 text-[var(--color-gray-800)]">{idea.title}</span>
+                                                    {slot && <ContentSlotBadge slot={slot} />}
+                                                    <IdeaStatusBadge status={idea.status} />
+                                                    {idea.status === 'new' && (
+                                                        <Button variant="ghost" size="sm" onClick={() => updateIdeas([idea.id], { status: 'approved' })} title="Approve idea">
+                                                            <ThumbsUp className="w-4 h-4" />
+                                                        </Button>
+                                                    )}
+                                                    <Button variant="ghost" size="sm" onClick={() => handleEditIdea(idea)}>
+                                                        <Edit3 className="w-4 h-4" />
+                                                    </Button>
+                                                    <Button variant="ghost" size="sm" onClick={() => updateIdeas([idea.id], { status: 'rejected' })} title="Reject idea">
+                                                        <Trash2 className="w-4 h-4 text-red-500" />
+                                                    </Button>
+                                                </div>
+                                            )}
+                                        </div>
+                                    )
+                                })}
                             </div>
                         )}
                     </div>
+
+                    {showIdeaBank && currentSpace && (
+                        <IdeaBankPicker
+                            spaceId={currentSpace.id}
+                            campaignId={id!}
+                            onClose={() => setShowIdeaBank(false)}
+                            onAdded={handleIdeasAdded}
+                        />
+                    )}
                 </div>
             )}
 
             {activeTab === 'posts' && (
                 <div className="space-y-4">
+                    {/* Content mix drift */}
+                    {mixWarnings.length > 0 && (
+                        <div className="flex items-start gap-3 px-4 py-3 rounded-xl border border-amber-200 bg-amber-50 text-sm text-amber-800">
+                            <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-600 flex-shrink-0" />
+                            <div className="flex-1">
+                                {mixWarnings.map(warning => <p key={warning}>{warning}</p>)}
+                            </div>
+                            <button onClick={() => setActiveTab('setup')} className="text-xs font-medium underline">
+                                Content mix
+                            </button>
+                        </div>
+                    )}
+
                     {/* Bulk Actions Bar */}
                     {posts.length > 0 && (
                         <div className="bg-white rounded-xl border border-[var(--color-gray-200)] p-3 flex items-center justify-between">
@@ -1588,7 +1613,7 @@ export function CampaignSettings() {
                                 {ideas.length > 0 && (
                                     <Button variant="pill" onClick={handleGeneratePosts} disabled={isGeneratingPosts}>
                                         <Play className="w-4 h-4" />
-                                        Generate {selectedIdeaIndices.size > 0 ? selectedIdeaIndices.size : ideas.length} {(selectedIdeaIndices.size > 0 ? selectedIdeaIndices.size : ideas.length) === 1 ? 'Post' : 'Posts'}
+                                        Generate {selectedIdeaIds.size > 0 ? selectedIdeaIds.size : ideas.length} {(selectedIdeaIds.size > 0 ? selectedIdeaIds.size : ideas.length) === 1 ? 'Post' : 'Posts'}
                                     </Button>
                                 )}
                             </div>
@@ -1652,6 +1677,15 @@ export function CampaignSettings() {
                                                                 </>
                                                             )}
                                                         </div>
+                                                        <GroundingBadge body={post.body} report={getGroundingReport(post.generation_meta)} />
+                                                        {getVariantSummary(post.generation_meta) && (
+                                                            <span className="text-xs font-medium px-2 py-0.5 rounded bg-[var(--color-gray-100)] text-[var(--color-gray-600)]">
+                                                                {getVariantSummary(post.generation_meta)!.count} variants
+                                                            </span>
+                                                        )}
+                                                        {toContentSlot(post.content_layer, post.content_category) && (
+                                                            <ContentSlotBadge slot={toContentSlot(post.content_layer, post.content_category)!} />
+                                                        )}
                                                     </div>
                                                     <div className={`text-[var(--color-gray-800)] text-sm ${expandedPostId === post.id ? 'whitespace-pre-wrap' : 'whitespace-pre-wrap line-clamp-3'
                                                         }`}>
@@ -1687,127 +1721,13 @@ export function CampaignSettings() {
                 </div>
             )}
 
-            {/* Generation Progress Overlay */}
-            {isGeneratingPosts && (
-                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-                    <div className="bg-white rounded-2xl p-8 max-w-lg w-full mx-4 shadow-2xl">
-                        <div className="flex items-center gap-4 mb-6">
-                            <div className="w-14 h-14 bg-gradient-to-br from-[var(--color-primary)] to-[var(--color-secondary)] rounded-xl flex items-center justify-center">
-                                <Sparkles className="w-7 h-7 text-white animate-pulse" />
-                            </div>
-                            <div>
-                                <h3 className="text-xl font-bold text-[var(--color-gray-900)]">Generating Posts</h3>
-                                <p className="text-sm text-[var(--color-gray-500)]">
-                                    {generationProgress.current} of {generationProgress.total} completed
-                                </p>
-                            </div>
-                        </div>
-
-                        {/* Stage Indicator */}
-                        <div className="flex items-center gap-2 mb-4">
-                            <div className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs ${generationProgress.stage === 'connecting'
-                                ? 'bg-blue-100 text-blue-700'
-                                : 'bg-green-100 text-green-700'
-                                }`}>
-                                {generationProgress.stage === 'connecting' ? (
-                                    <><Loader2 className="w-3 h-3 animate-spin" /> Connecting to OpenAI...</>
-                                ) : (
-                                    <><Check className="w-3 h-3" /> Connected</>
-                                )}
-                            </div>
-                            <div className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs ${generationProgress.stage === 'preparing'
-                                ? 'bg-blue-100 text-blue-700'
-                                : generationProgress.stage === 'connecting'
-                                    ? 'bg-gray-100 text-gray-400'
-                                    : 'bg-green-100 text-green-700'
-                                }`}>
-                                {generationProgress.stage === 'preparing' ? (
-                                    <><Loader2 className="w-3 h-3 animate-spin" /> Preparing...</>
-                                ) : generationProgress.stage === 'connecting' ? (
-                                    'Preparing'
-                                ) : (
-                                    <><Check className="w-3 h-3" /> Ready</>
-                                )}
-                            </div>
-                            <div className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs ${generationProgress.stage === 'generating'
-                                ? 'bg-blue-100 text-blue-700'
-                                : generationProgress.stage === 'completed'
-                                    ? 'bg-green-100 text-green-700'
-                                    : 'bg-gray-100 text-gray-400'
-                                }`}>
-                                {generationProgress.stage === 'generating' ? (
-                                    <><Loader2 className="w-3 h-3 animate-spin" /> Writing...</>
-                                ) : generationProgress.stage === 'completed' ? (
-                                    <><Check className="w-3 h-3" /> Done!</>
-                                ) : (
-                                    'Writing'
-                                )}
-                            </div>
-                        </div>
-
-                        {/* Progress Bar */}
-                        <div className="mb-4">
-                            <div className="flex justify-between text-xs mb-1">
-                                <span className="text-[var(--color-gray-500)]">Progress</span>
-                                <span className="font-medium text-[var(--color-primary)]">
-                                    {generationProgress.total > 0
-                                        ? Math.round((generationProgress.current / generationProgress.total) * 100)
-                                        : 0}%
-                                </span>
-                            </div>
-                            <div className="h-3 bg-[var(--color-gray-200)] rounded-full overflow-hidden">
-                                <div
-                                    className="h-full bg-gradient-to-r from-[var(--color-primary)] to-[var(--color-secondary)] transition-all duration-500"
-                                    style={{ width: `${generationProgress.total > 0 ? (generationProgress.current / generationProgress.total) * 100 : 0}%` }}
-                                />
-                            </div>
-                        </div>
-
-                        {/* Current Topic */}
-                        {generationProgress.currentTopic && (
-                            <div className="bg-blue-50 rounded-lg p-3 mb-4">
-                                <p className="text-xs text-blue-600 mb-1 font-medium">Currently writing:</p>
-                                <p className="text-sm text-blue-800 flex items-center gap-2">
-                                    <Loader2 className="w-4 h-4 animate-spin flex-shrink-0" />
-                                    <span className="line-clamp-2">{generationProgress.currentTopic}</span>
-                                </p>
-                            </div>
-                        )}
-
-                        {/* Topic Progress List */}
-                        <div className="max-h-48 overflow-y-auto space-y-1">
-                            {ideas.slice(0, 15).map((idea, i) => (
-                                <div
-                                    key={i}
-                                    className={`flex items-center gap-2 text-sm px-3 py-2 rounded-lg transition-colors ${i < generationProgress.current
-                                        ? 'bg-green-50 text-green-700'
-                                        : i === generationProgress.current
-                                            ? 'bg-blue-50 text-blue-700'
-                                            : 'text-[var(--color-gray-400)]'
-                                        }`}
-                                >
-                                    {i < generationProgress.current ? (
-                                        <Check className="w-4 h-4 text-green-500 flex-shrink-0" />
-                                    ) : i === generationProgress.current ? (
-                                        <Loader2 className="w-4 h-4 animate-spin text-blue-500 flex-shrink-0" />
-                                    ) : (
-                                        <span className="w-4 h-4 rounded-full border border-[var(--color-gray-300)] flex-shrink-0" />
-                                    )}
-                                    <span className="truncate">{idea}</span>
-                                </div>
-                            ))}
-                            {ideas.length > 15 && (
-                                <p className="text-xs text-[var(--color-gray-400)] text-center py-2">
-                                    + {ideas.length - 15} more topics
-                                </p>
-                            )}
-                        </div>
-
-                        <p className="text-xs text-[var(--color-gray-400)] text-center mt-4">
-                            ✓ Posts are saved automatically as they complete
-                        </p>
-                    </div>
-                </div>
+            {/* Post Generation Job Progress */}
+            {postJobId && showPostJobModal && (
+                <JobProgressModal
+                    jobId={postJobId}
+                    title="Generating Posts"
+                    onClose={() => setShowPostJobModal(false)}
+                />
             )}
 
             {/* Image Modal */}
@@ -1834,7 +1754,7 @@ export function CampaignSettings() {
             {/* Preview Modal - Ready for Social Media */}
             {previewPost && (
                 <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
-                    <div className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto shadow-2xl">
+                    <div className={`bg-white rounded-2xl w-full max-h-[90vh] overflow-y-auto shadow-2xl ${getVariantSummary(previewPost.generation_meta) ? 'max-w-5xl' : 'max-w-2xl'}`}>
                         {/* Header */}
                         <div className="flex items-center justify-between p-4 border-b border-[var(--color-gray-200)]">
                             <div>
@@ -1845,6 +1765,8 @@ export function CampaignSettings() {
                                 onClick={() => {
                                     setPreviewPost(null)
                                     setPreviewImage(null)
+                                    setIsEditingPreview(false)
+                                    setIsRewritingPreview(false)
                                 }}
                                 className="p-2 hover:bg-[var(--color-gray-100)] rounded-lg transition-colors"
                             >
@@ -1859,6 +1781,26 @@ export function CampaignSettings() {
                                 <div className="flex items-center justify-between">
                                     <h3 className="text-sm font-medium text-[var(--color-gray-700)]">Post Text</h3>
                                     <div className="flex items-center gap-2">
+                                        {!isEditingPreview && !isRewritingPreview && (
+                                            <Button
+                                                variant="secondary"
+                                                size="sm"
+                                                onClick={() => setIsEditingPreview(true)}
+                                            >
+                                                <Edit3 className="w-4 h-4" />
+                                                Edit
+                                            </Button>
+                                        )}
+                                        {!isEditingPreview && !isRewritingPreview && previewPost.body && (
+                                            <Button
+                                                variant="secondary"
+                                                size="sm"
+                                                onClick={() => setIsRewritingPreview(true)}
+                                            >
+                                                <Wand2 className="w-4 h-4" />
+                                                Rewrite
+                                            </Button>
+                                        )}
                                         {previewImage && (
                                             <Button
                                                 variant="secondary"
@@ -1888,11 +1830,54 @@ export function CampaignSettings() {
                                         </Button>
                                     </div>
                                 </div>
-                                <div className="bg-[var(--color-gray-50)] rounded-xl p-4 text-sm text-[var(--color-gray-800)] whitespace-pre-wrap">
-                                    {previewPost.body || 'No content'}
-                                </div>
+                                {isEditingPreview ? (
+                                    <PostBodyEditor
+                                        postId={previewPost.id}
+                                        spaceId={previewPost.space_id}
+                                        title={previewPost.title}
+                                        body={previewPost.body}
+                                        context={{ include_emojis: includeEmojis, include_hashtags: includeHashtags }}
+                                        onSaved={handlePreviewBodySaved}
+                                        onCancel={() => setIsEditingPreview(false)}
+                                    />
+                                ) : isRewritingPreview ? (
+                                    <PostRewrite
+                                        post={previewPost}
+                                        onAccepted={handlePreviewRewritten}
+                                        onCancel={() => setIsRewritingPreview(false)}
+                                    />
+                                ) : (
+                                    <GroundedPostBody
+                                        body={previewPost.body}
+                                        report={getGroundingReport(previewPost.generation_meta)}
+                                        className="bg-[var(--color-gray-50)] rounded-xl p-4 text-sm text-[var(--color-gray-800)] whitespace-pre-wrap"
+                                    />
+                                )}
                             </div>
 
+                            {!isEditingPreview && !isRewritingPreview && (
+                                <PostVariants
+                                    post={previewPost}
+                                    onSelected={handleVariantSelected}
+                                    onReused={refreshPosts}
+                                />
+                            )}
+
+                            <GroundingPanel
+                                postId={previewPost.id}
+                                body={previewPost.body}
+                                report={getGroundingReport(previewPost.generation_meta)}
+                                onVerified={handleGroundingVerified}
+                            />
+
+                            <ChannelVariants key={`channels-${previewPost.id}`} post={previewPost} />
+
+                            <PostRevisions
+                                key={previewPost.id}
+                                post={previewPost}
+                                onRestored={handlePreviewRestored}
+                            />
+
                             {/* Image Section - Second */}
                             {previewImage ? (
                                 <div className="space-y-3">
@@ -2047,94 +2032,13 @@ export function CampaignSettings() {
                 </div>
             )}
 
-            {/* Bulk Image Generation Progress */}
-            {isBulkGeneratingImages && (
-                <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
-                    <div className="bg-white rounded-2xl max-w-lg w-full shadow-2xl p-8">
-                        <div className="flex items-center gap-4 mb-6">
-                            <div className={`w-14 h-14 rounded-xl flex items-center justify-center ${bulkImageProgress.phase === 'complete'
-                                ? 'bg-green-500'
-                                : 'bg-gradient-to-br from-[var(--color-primary)] to-[var(--color-secondary)]'
-                                }`}>
-                                {bulkImageProgress.phase === 'complete' ? (
-                                    <CheckCircle2 className="w-7 h-7 text-white" />
-                                ) : (
-                                    <Sparkles className="w-7 h-7 text-white animate-pulse" />
-                                )}
-                            </div>
-                            <div>
-                                <h3 className="text-xl font-bold text-[var(--color-gray-900)]">
-                                    {bulkImageProgress.phase === 'complete' ? 'Generation Complete!' : 'Generating Images'}
-                                </h3>
-                                <p className="text-sm text-[var(--color-gray-500)]">
-                                    {bulkImageProgress.current} of {bulkImageProgress.total} posts complete
-                                </p>
-                            </div>
-                        </div>
-
-                        {/* Progress Bar */}
-                        <div className="mb-6">
-                            <div className="flex justify-between text-sm mb-2">
-                                <span className="text-[var(--color-gray-500)]">Progress</span>
-                                <span className="font-semibold text-[var(--color-primary)]">
-                                    {bulkImageProgress.total > 0 ? Math.round((bulkImageProgress.current / bulkImageProgress.total) * 100) : 0}%
-                                </span>
-                            </div>
-                            <div className="h-4 bg-[var(--color-gray-200)] rounded-full overflow-hidden">
-                                <div
-                                    className={`h-full transition-all duration-500 relative ${bulkImageProgress.phase === 'complete'
-                                        ? 'bg-green-500'
-                                        : 'bg-gradient-to-r from-[var(--color-primary)] to-[var(--color-secondary)]'
-                                        }`}
-                                    style={{ width: `${bulkImageProgress.total > 0 ? (bulkImageProgress.current / bulkImageProgress.total) * 100 : 0}%` }}
-                                >
-                                    {bulkImageProgress.phase !== 'complete' && (
-                                        <div className="absolute inset-0 bg-white/20 animate-pulse" />
-                                    )}
-                                </div>
-                            </div>
-                        </div>
-
-                        {/* Status Counts */}
-                        <div className="flex gap-4 mb-4">
-                            <div className="flex items-center gap-2 text-sm">
-                                <CheckCircle2 className="w-4 h-4 text-green-500" />
-                                <span className="text-[var(--color-gray-600)]">{bulkImageProgress.successCount} successful</span>
-                            </div>
-                            {bulkImageProgress.errorCount > 0 && (
-                                <div className="flex items-center gap-2 text-sm">
-                                    <X className="w-4 h-4 text-red-500" />
-                                    <span className="text-[var(--color-gray-600)]">{bulkImageProgress.errorCount} failed</span>
-                                </div>
-                            )}
-                        </div>
-
-                        {/* Status */}
-                        <div className={`rounded-xl p-4 flex items-center gap-3 ${bulkImageProgress.phase === 'complete' ? 'bg-green-50' : 'bg-blue-50'
-                            }`}>
-                            {bulkImageProgress.phase === 'complete' ? (
-                                <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0" />
-                            ) : (
-                                <Loader2 className="w-5 h-5 text-blue-600 animate-spin flex-shrink-0" />
-                            )}
-                            <div>
-                                <div className={`text-sm font-medium ${bulkImageProgress.phase === 'complete' ? 'text-green-900' : 'text-blue-900'
-                                    }`}>
-                                    {bulkImageProgress.statusText}
-                                </div>
-                                {bulkImageProgress.phase !== 'complete' && (
-                                    <div className="text-xs text-blue-600">
-                                        {bulkImageProgress.phase === 'fetching' ? 'Reading post data...' : 'AI is creating unique images'}
-                                    </div>
-                                )}
-                            </div>
-                        </div>
-
-                        <p className="text-xs text-center text-[var(--color-gray-400)] mt-4">
-                            ⚡ Images are saved automatically as they complete
-                        </p>
-                    </div>
-                </div>
+            {/* Bulk Image Generation Job Progress */}
+            {imageJobId && showImageJobModal && (
+                <JobProgressModal
+                    jobId={imageJobId}
+                    title="Generating Images"
+                    onClose={() => setShowImageJobModal(false)}
+                />
             )}
 
             {/* Bulk Logo Application Progress */}
@@ -1,8 +1,10 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { Plus, Play, CheckCircle, XCircle, Clock, Eye, Trash2, ArrowRight, Settings, FileText, Sparkles, Target } from 'lucide-react'
+import { Plus, Play, CheckCircle, XCircle, Clock, Eye, Trash2, ArrowRight, Settings, FileText, Sparkles, Target, Copy, BookmarkPlus } from 'lucide-react'
 import { Button, Input, Textarea, StatusBadge } from '@/components/ui'
+import { CampaignCopyModal, CampaignTemplateGallery } from '@/components/campaigns'
 import { supabase } from '@/lib/supabase'
+import { countIdeas, createCampaignFrom, templateIdeas, type CampaignTemplate } from '@/lib/campaign-templates'
 import { useSpaceStore } from '@/stores/spaceStore'
 import { useAuthStore } from '@/stores/authStore'
 import type { Database, CampaignStatus, GenerationSettings, LockedSourceSettings } from '@/types/database'
@@ -20,6 +22,12 @@ export function Campaigns() {
     const [campaignName, setCampaignName] = useState('')
     const [isCreating, setIsCreating] = useState(false)
 
+    // Templates to start from, and the campaign being duplicated or saved as one
+    const [templates, setTemplates] = useState<CampaignTemplate[]>([])
+    const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null)
+    const [includeTemplateIdeas, setIncludeTemplateIdeas] = useState(true)
+    const [copyAction, setCopyAction] = useState<{ campaign: Campaign; mode: 'duplicate' | 'template' } | null>(null)
+
     const fetchCampaigns = useCallback(async () => {
         if (!currentSpace) return
 
@@ -40,15 +48,48 @@ export function Campaigns() {
         }
     }, [currentSpace])
 
+    const fetchTemplates = useCallback(async () => {
+        if (!currentSpace) return
+
+        const { data, error } = await supabase
+            .from('campaign_templates')
+            .select('*')
+            .eq('space_id', currentSpace.id)
+            .order('name')
+
+        if (error) {
+            console.error('Error fetching campaign templates:', error)
+            return
+        }
+        setTemplates(data || [])
+    }, [currentSpace])
+
     useEffect(() => {
         fetchCampaigns()
     }, [fetchCampaigns])
 
+    useEffect(() => {
+        fetchTemplates()
+    }, [fetchTemplates])
+
+    const selectedTemplate = templates.find(t => t.id === selectedTemplateId) || null
+
     const handleQuickCreate = async () => {
         if (!currentSpace || !user || !campaignName.trim()) return
 
         setIsCreating(true)
         try {
+            if (selectedTemplate) {
+                const campaign = await createCampaignFrom(selectedTemplate, {
+                    spaceId: currentSpace.id,
+                    name: campaignName.trim(),
+                    ideas: includeTemplateIdeas ? templateIdeas(selectedTemplate.generation_settings) : [],
+                    userId: user.id,
+                })
+                navigate(`/campaign/${campaign.id}`)
+                return
+            }
+
             const { data, error } = await supabase
                 .from('campaigns')
                 .insert({
@@ -111,6 +152,30 @@ export function Campaigns() {
         }
     }
 
+    const handleDeleteTemplate = async (template: CampaignTemplate) => {
+        if (!confirm(`Delete the template "${template.name}"? Campaigns created from it are not affected.`)) return
+
+        try {
+            const { error } = await supabase.from('campaign_templates').delete().eq('id', template.id)
+            if (error) throw error
+            if (selectedTemplateId === template.id) setSelectedTemplateId(null)
+            await fetchTemplates()
+        } catch (error) {
+            console.error('Error deleting campaign template:', error)
+            alert(error instanceof Error ? error.message : 'Failed to delete template')
+        }
+    }
+
+    const handleCopied = (id: string) => {
+        const mode = copyAction?.mode
+        setCopyAction(null)
+        if (mode === 'duplicate') {
+            navigate(`/campaign/${id}`)
+        } else {
+            fetchTemplates()
+        }
+    }
+
     const getStatusIcon = (status: CampaignStatus) => {
         switch (status) {
             case 'draft': return <Clock className="w-4 h-4 text-gray-500" />
@@ -153,8 +218,33 @@ export function Campaigns() {
                     </Button>
                 </div>
                 <p className="text-sm text-white/60 mt-2">
-                    You'll configure settings on the next screen
+                    {selectedTemplate
+                        ? `Starts with the settings of "${selectedTemplate.name}"; adjust them on the next screen`
+                        : "You'll configure settings on the next screen"}
                 </p>
+
+                {templates.length > 0 && (
+                    <div className="mt-6 space-y-2">
+                        <p className="text-sm font-medium text-white/80">Start from a template</p>
+                        <CampaignTemplateGallery
+                            templates={templates}
+                            selectedId={selectedTemplateId}
+                            onSelect={setSelectedTemplateId}
+                            onDelete={handleDeleteTemplate}
+                        />
+                        {selectedTemplate && countIdeas(selectedTemplate.generation_settings) > 0 && (
+                            <label className="flex items-center gap-2 text-sm text-white/80">
+                                <input
+                                    type="checkbox"
+                                    checked={includeTemplateIdeas}
+                                    onChange={(e) => setIncludeTemplateIdeas(e.target.checked)}
+                                    className="w-4 h-4 rounded"
+                                />
+                                Include the template's idea list ({countIdeas(selectedTemplate.generation_settings)} ideas)
+                            </label>
+                        )}
+                    </div>
+                )}
             </div>
 
             {/* Existing Campaigns */}
@@ -213,6 +303,28 @@ export function Campaigns() {
                                     >
                                         <Settings className="w-4 h-4" />
                                     </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        title="Duplicate campaign"
+                                        onClick={(e) => {
+                                            e.stopPropagation()
+                                            setCopyAction({ campaign, mode: 'duplicate' })
+                                        }}
+                                    >
+                                        <Copy className="w-4 h-4" />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        title="Save as template"
+                                        onClick={(e) => {
+                                            e.stopPropagation()
+                                            setCopyAction({ campaign, mode: 'template' })
+                                        }}
+                                    >
+                                        <BookmarkPlus className="w-4 h-4" />
+                                    </Button>
                                     <Button
                                         variant="ghost"
                                         size="sm"
@@ -226,6 +338,17 @@ export function Campaigns() {
                     </div>
                 )}
             </div>
+
+            {copyAction && user && (
+                <CampaignCopyModal
+                    key={`${copyAction.campaign.id}-${copyAction.mode}`}
+                    campaign={copyAction.campaign}
+                    mode={copyAction.mode}
+                    userId={user.id}
+                    onClose={() => setCopyAction(null)}
+                    onCopied={handleCopied}
+                />
+            )}
         </div>
     )
 }
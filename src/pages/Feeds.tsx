@@ -0,0 +1,424 @@
+// src/pages/Feeds.tsx
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+import { AlertCircle, ExternalLink, Lightbulb, Loader2, PenLine, Plus, RefreshCw, Rss, Trash2, X } from 'lucide-react'
+import { Button, Input } from '@/components/ui'
+import { supabase } from '@/lib/supabase'
+import { FEED_ITEM_STATUS_LABELS, RELEVANT_SCORE, suggestFeedCategory, type FeedItemStatus } from '@/lib/feeds'
+import { useSpaceStore } from '@/stores/spaceStore'
+import { useAuthStore } from '@/stores/authStore'
+import type { Database } from '@/types/database'
+
+type Feed = Database['public']['Tables']['feeds']['Row']
+type FeedItem = Database['public']['Tables']['feed_items']['Row']
+
+type StatusFilter = FeedItemStatus | 'all'
+
+const STATUS_TABS: StatusFilter[] = ['new', 'idea', 'drafted', 'dismissed', 'all']
+
+// Items shown at once; older ones stay in the database
+const ITEM_LIMIT = 200
+
+const selectClassName = 'px-3 py-2 border border-[var(--color-gray-300)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]/30 focus:border-[var(--color-primary)]'
+
+function RelevanceBadge({ item }: { item: FeedItem }) {
+    const relevance = Number(item.relevance)
+    const color = relevance >= 0.6
+        ? 'bg-green-100 text-green-700'
+        : relevance >= RELEVANT_SCORE
+            ? 'bg-amber-100 text-amber-700'
+            : 'bg-[var(--color-gray-100)] text-[var(--color-gray-500)]'
+
+    return (
+        <span
+            className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${color}`}
+            title={item.matched_terms.length > 0 ? `Matches: ${item.matched_terms.join(', ')}` : 'No match with your services or audience'}
+        >
+            {Math.round(relevance * 100)}% relevant
+        </span>
+    )
+}
+
+export function Feeds() {
+    const { currentSpace } = useSpaceStore()
+    const { user } = useAuthStore()
+    const [feeds, setFeeds] = useState<Feed[]>([])
+    const [items, setItems] = useState<FeedItem[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('new')
+    const [feedFilter, setFeedFilter] = useState('')
+    const [relevantOnly, setRelevantOnly] = useState(true)
+
+    const [newUrl, setNewUrl] = useState('')
+    const [isAdding, setIsAdding] = useState(false)
+    const [refreshingId, setRefreshingId] = useState<string | null>(null)
+    const [busyItemId, setBusyItemId] = useState<string | null>(null)
+
+    const fetchData = useCallback(async () => {
+        if (!currentSpace) return
+
+        setIsLoading(true)
+        const [feedsResult, itemsResult] = await Promise.all([
+            supabase
+                .from('feeds')
+                .select('*')
+                .eq('space_id', currentSpace.id)
+                .order('created_at', { ascending: true }),
+            supabase
+                .from('feed_items')
+                .select('*')
+                .eq('space_id', currentSpace.id)
+                .order('published_at', { ascending: false, nullsFirst: false })
+                .limit(ITEM_LIMIT),
+        ])
+
+        if (feedsResult.error) console.error('Error fetching feeds:', feedsResult.error)
+        if (itemsResult.error) console.error('Error fetching feed items:', itemsResult.error)
+        setFeeds((feedsResult.data || []) as Feed[])
+        setItems((itemsResult.data || []) as FeedItem[])
+        setIsLoading(false)
+    }, [currentSpace])
+
+    useEffect(() => {
+        fetchData()
+    }, [fetchData])
+
+    const feedTitles = useMemo(() => new Map(feeds.map(feed => [feed.id, feed.title || feed.url])), [feeds])
+
+    const statusCounts = useMemo(() => {
+        const counts: Record<StatusFilter, number> = { new: 0, idea: 0, drafted: 0, dismissed: 0, all: items.length }
+        items.forEach(item => counts[item.status]++)
+        return counts
+    }, [items])
+
+    const visibleItems = useMemo(() => items
+        .filter(item => statusFilter === 'all' || item.status === statusFilter)
+        .filter(item => !feedFilter || item.feed_id === feedFilter)
+        .filter(item => !relevantOnly || Number(item.relevance) >= RELEVANT_SCORE),
+    [items, statusFilter, feedFilter, relevantOnly])
+
+    const refreshFeeds = async (feedId?: string) => {
+        if (!currentSpace) return
+
+        setRefreshingId(feedId || 'all')
+        try {
+            const { data, error } = await supabase.functions.invoke('fetch-feeds', {
+                body: { space_id: currentSpace.id, feed_id: feedId },
+            })
+
+            if (error) throw error
+            if (data?.error) throw new Error(data.error)
+            await fetchData()
+        } catch (error) {
+            console.error('Error fetching feeds:', error)
+            alert(error instanceof Error ? error.message : 'Failed to fetch feeds')
+        } finally {
+            setRefreshingId(null)
+        }
+    }
+
+    const handleAddFeed = async () => {
+        if (!currentSpace || !user || !newUrl.trim()) return
+
+        setIsAdding(true)
+        try {
+            const { data, error } = await supabase
+                .from('feeds')
+                .insert({
+                    space_id: currentSpace.id,
+                    url: newUrl.trim(),
+                    created_by: user.id,
+                })
+                .select()
+                .single()
+
+            if (error) throw error
+
+            setNewUrl('')
+            setFeeds(prev => [...prev, data as Feed])
+            await refreshFeeds(data.id)
+        } catch (error) {
+            console.error('Error adding feed:', error)
+            alert(error instanceof Error ? error.message : 'Failed to add feed')
+        } finally {
+            setIsAdding(false)
+        }
+    }
+
+    const handleToggleFeed = async (feed: Feed) => {
+        try {
+            const { error } = await supabase
+                .from('feeds')
+                .update({ enabled: !feed.enabled, updated_at: new Date().toISOString() })
+                .eq('id', feed.id)
+
+            if (error) throw error
+            setFeeds(prev => prev.map(f => f.id === feed.id ? { ...f, enabled: !feed.enabled } : f))
+        } catch (error) {
+            console.error('Error updating feed:', error)
+            alert(error instanceof Error ? error.message : 'Failed to update feed')
+        }
+    }
+
+    const handleDeleteFeed = async (feed: Feed) => {
+        if (!confirm(`Remove "${feed.title || feed.url}"? Its items are deleted; ideas and posts made from them are kept.`)) return
+        try {
+            const { error } = await supabase.from('feeds').delete().eq('id', feed.id)
+            if (error) throw error
+            setFeeds(prev => prev.filter(f => f.id !== feed.id))
+            setItems(prev => prev.filter(item => item.feed_id !== feed.id))
+            if (feedFilter === feed.id) setFeedFilter('')
+        } catch (error) {
+            console.error('Error deleting feed:', error)
+            alert(error instanceof Error ? error.message : 'Failed to delete feed')
+        }
+    }
+
+    const updateItem = async (itemId: string, changes: Database['public']['Tables']['feed_items']['Update']) => {
+        const { error } = await supabase
+            .from('feed_items')
+            .update({ ...changes, updated_at: new Date().toISOString() })
+            .eq('id', itemId)
+
+        if (error) throw error
+        setItems(prev => prev.map(item => item.id === itemId ? { ...item, ...changes } as FeedItem : item))
+    }
+
+    const handleTurnIntoIdea = async (item: FeedItem) => {
+        if (!currentSpace || !user) return
+
+        setBusyItemId(item.id)
+        try {
+            const { data: idea, error } = await supabase
+                .from('ideas')
+                .insert({
+                    space_id: currentSpace.id,
+                    title: item.title,
+                    notes: [item.summary, item.link].filter(Boolean).join('\n\n') || null,
+                    status: 'new',
+                    source: 'news',
+                    source_meta: { feed_id: item.feed_id, feed_item_id: item.id, url: item.link },
+                    content_layer: 'hot_topics',
+                    content_category: suggestFeedCategory(item),
+                    voted_by: [user.id],
+                    created_by: user.id,
+                })
+                .select('id')
+                .single()
+
+            if (error) throw error
+            await updateItem(item.id, { status: 'idea', idea_id: idea.id })
+        } catch (error) {
+            console.error('Error creating idea:', error)
+            alert(error instanceof Error ? error.message : 'Failed to create idea')
+        } finally {
+            setBusyItemId(null)
+        }
+    }
+
+    const handleDraftPost = async (item: FeedItem) => {
+        setBusyItemId(item.id)
+        try {
+            const { data, error } = await supabase.functions.invoke('draft-feed-post', {
+                body: { feed_item_id: item.id },
+            })
+
+            if (error) throw error
+            if (data?.error) throw new Error(data.error)
+            setItems(prev => prev.map(i => i.id === item.id ? { ...i, status: 'drafted', post_id: data.post_id } : i))
+        } catch (error) {
+            console.error('Error drafting post:', error)
+            alert(error instanceof Error ? error.message : 'Failed to draft post')
+        } finally {
+            setBusyItemId(null)
+        }
+    }
+
+    const handleDismiss = async (item: FeedItem) => {
+        try {
+            await updateItem(item.id, { status: item.status === 'dismissed' ? 'new' : 'dismissed' })
+        } catch (error) {
+            console.error('Error updating feed item:', error)
+            alert(error instanceof Error ? error.message : 'Failed to update item')
+        }
+    }
+
+    if (isLoading && feeds.length === 0) {
+        return <div className="p-8 text-center text-[var(--color-gray-400)]">Loading...</div>
+    }
+
+    return (
+        <div className="max-w-5xl mx-auto p-8">
+            <div className="flex items-start justify-between mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-[var(--color-gray-900)]">News Feeds</h1>
+                    <p className="text-[var(--color-gray-500)] mt-1">
+                        RSS and Atom feeds for Hot Topics posts. Items are scored against your brand profile's services and audience.
+                    </p>
+                </div>
+                <Button onClick={() => refreshFeeds()} disabled={feeds.length === 0 || refreshingId !== null}>
+                    {refreshingId === 'all' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                    Refresh all
+                </Button>
+            </div>
+
+            {/* Feeds */}
+            <div className="bg-white border border-[var(--color-gray-200)] rounded-xl p-6 mb-6">
+                <div className="flex items-end gap-2 mb-4">
+                    <div className="flex-1">
+                        <Input
+                            label="Add a feed"
+                            value={newUrl}
+                            onChange={(e) => setNewUrl(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleAddFeed()}
+                            placeholder="https://example.com/news/feed.xml"
+                        />
+                    </div>
+                    <Button onClick={handleAddFeed} disabled={!newUrl.trim() || isAdding}>
+                        {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                        Add
+                    </Button>
+                </div>
+
+                {feeds.length === 0 ? (
+                    <p className="text-sm text-[var(--color-gray-500)]">No feeds yet. Add an industry news or blog feed to get started.</p>
+                ) : (
+                    <div className="divide-y divide-[var(--color-gray-100)]">
+                        {feeds.map(feed => (
+                            <div key={feed.id} className="py-3 flex items-center gap-3">
+                                <input
+                                    type="checkbox"
+                                    checked={feed.enabled}
+                                    onChange={() => handleToggleFeed(feed)}
+                                    className="w-4 h-4 rounded"
+                                    title={feed.enabled ? 'Included in Refresh all' : 'Skipped by Refresh all'}
+                                />
+                                <div className="flex-1 min-w-0">
+                                    <p className={`text-sm font-medium truncate ${feed.enabled ? 'text-[var(--color-gray-800)]' : 'text-[var(--color-gray-400)]'}`}>
+                                        {feed.title || feed.url}
+                                    </p>
+                                    <p className="text-xs text-[var(--color-gray-400)] truncate">
+                                        {feed.url}
+                                        {feed.last_fetched_at && ` · fetched ${new Date(feed.last_fetched_at).toLocaleString()}`}
+                                    </p>
+                                    {feed.last_status === 'error' && feed.last_error && (
+                                        <p className="text-xs text-red-600 mt-0.5 flex items-center gap-1">
+                                            <AlertCircle className="w-3 h-3" />
+                                            {feed.last_error}
+                                        </p>
+                                    )}
+                                </div>
+                                <Button variant="ghost" size="sm" onClick={() => refreshFeeds(feed.id)} disabled={refreshingId !== null} title="Fetch now">
+                                    {refreshingId === feed.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => handleDeleteFeed(feed)} title="Remove feed">
+                                    <Trash2 className="w-4 h-4 text-red-500" />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Status tabs */}
+            <div className="flex gap-2 mb-4">
+                {STATUS_TABS.map(status => (
+                    <button
+                        key={status}
+                        onClick={() => setStatusFilter(status)}
+                        className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${statusFilter === status
+                            ? 'bg-[var(--color-primary)] text-white'
+                            : 'bg-[var(--color-gray-100)] text-[var(--color-gray-600)] hover:bg-[var(--color-gray-200)]'
+                            }`}
+                    >
+                        {status === 'all' ? 'All' : FEED_ITEM_STATUS_LABELS[status]} ({statusCounts[status]})
+                    </button>
+                ))}
+            </div>
+
+            {/* Filters */}
+            <div className="bg-white rounded-xl border border-[var(--color-gray-200)] p-4 mb-4 flex items-center gap-4">
+                <select value={feedFilter} onChange={(e) => setFeedFilter(e.target.value)} className={selectClassName}>
+                    <option value="">All feeds</option>
+                    {feeds.map(feed => (
+                        <option key={feed.id} value={feed.id}>{feed.title || feed.url}</option>
+                    ))}
+                </select>
+                <label className="flex items-center gap-2 text-sm text-[var(--color-gray-600)]">
+                    <input
+                        type="checkbox"
+                        checked={relevantOnly}
+                        onChange={(e) => setRelevantOnly(e.target.checked)}
+                        className="w-4 h-4 rounded"
+                    />
+                    Relevant only
+                </label>
+            </div>
+
+            {/* Items */}
+            <div className="bg-white rounded-xl border border-[var(--color-gray-200)] overflow-hidden">
+                {visibleItems.length === 0 ? (
+                    <div className="p-12 text-center">
+                        <div className="w-16 h-16 bg-[var(--color-gray-100)] rounded-full flex items-center justify-center mx-auto mb-4">
+                            <Rss className="w-8 h-8 text-[var(--color-gray-400)]" />
+                        </div>
+                        <p className="text-[var(--color-gray-500)]">
+                            {items.length === 0
+                                ? 'No items yet. Add a feed, or refresh the ones you follow.'
+                                : 'No items match these filters'}
+                        </p>
+                    </div>
+                ) : (
+                    <div className="divide-y divide-[var(--color-gray-100)]">
+                        {visibleItems.map(item => (
+                            <div key={item.id} className="p-4 flex items-start gap-3 hover:bg-[var(--color-gray-50)] transition-colors">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-[var(--color-gray-800)]">
+                                        {item.link ? (
+                                            <a href={item.link} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                                {item.title}
+                                                <ExternalLink className="w-3 h-3 inline ml-1 text-[var(--color-gray-400)]" />
+                                            </a>
+                                        ) : item.title}
+                                    </p>
+                                    {item.summary && <p className="text-sm text-[var(--color-gray-500)] mt-0.5 line-clamp-2">{item.summary}</p>}
+                                    <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-[var(--color-gray-400)]">
+                                        <RelevanceBadge item={item} />
+                                        <span>{feedTitles.get(item.feed_id)}</span>
+                                        {item.published_at && <span>{new Date(item.published_at).toLocaleDateString()}</span>}
+                                        {item.matched_terms.length > 0 && <span>Matches: {item.matched_terms.join(', ')}</span>}
+                                        {item.status === 'idea' && <Link to="/ideas" className="hover:underline">In the idea bank</Link>}
+                                        {item.status === 'drafted' && <Link to="/posts" className="hover:underline">Drafted as a post</Link>}
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-1">
+                                    {busyItemId === item.id ? (
+                                        <Loader2 className="w-4 h-4 animate-spin text-[var(--color-gray-400)] m-2" />
+                                    ) : (
+                                        <>
+                                            {!item.idea_id && (
+                                                <Button variant="ghost" size="sm" onClick={() => handleTurnIntoIdea(item)} title="Turn into idea">
+                                                    <Lightbulb className="w-4 h-4" />
+                                                </Button>
+                                            )}
+                                            {!item.post_id && (
+                                                <Button variant="ghost" size="sm" onClick={() => handleDraftPost(item)} disabled={busyItemId !== null} title="Draft reaction post">
+                                                    <PenLine className="w-4 h-4" />
+                                                </Button>
+                                            )}
+                                            {(item.status === 'new' || item.status === 'dismissed') && (
+                                                <Button variant="ghost" size="sm" onClick={() => handleDismiss(item)} title={item.status === 'dismissed' ? 'Restore' : 'Dismiss'}>
+                                                    {item.status === 'dismissed' ? <RefreshCw className="w-4 h-4" /> : <X className="w-4 h-4 text-red-500" />}
+                                                </Button>
+                                            )}
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,321 @@
+// src/pages/HouseStyle.tsx
+import { useState, useEffect, useMemo } from 'react'
+import { Check, AlertCircle, SpellCheck, Hash, Ban, Replace, Plus, Trash2, FlaskConical } from 'lucide-react'
+import { Button, Input, Textarea } from '@/components/ui'
+import { supabase } from '@/lib/supabase'
+import { useSpaceStore } from '@/stores/spaceStore'
+import {
+    DEFAULT_STYLE_RULES,
+    STYLE_ISSUE_LABELS,
+    applyStyleRules,
+    normaliseStyleRules,
+    type StyleRules,
+} from '@/lib/style-rules'
+
+const SAMPLE_TEXT = `We're excited to announce our new program — a game-changer for how agencies organize and analyze their data 🚀🔥✨
+
+Our team has helped 40+ organizations modernize their platforms in 2023–2024.
+
+#GovTech #DigitalTransformation #Data #Cloud #AI`
+
+const selectClassName = 'w-full px-3 py-2 border border-[var(--color-gray-300)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]/30 focus:border-[var(--color-primary)]'
+
+export function HouseStyle() {
+    const { currentSpace } = useSpaceStore()
+    const [rules, setRules] = useState<StyleRules>(DEFAULT_STYLE_RULES)
+    const [bannedText, setBannedText] = useState('')
+    const [sampleText, setSampleText] = useState(SAMPLE_TEXT)
+    const [isLoading, setIsLoading] = useState(true)
+    const [isSaving, setIsSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [success, setSuccess] = useState<string | null>(null)
+
+    useEffect(() => {
+        if (!currentSpace) return
+        setIsLoading(true)
+        supabase
+            .from('style_rules')
+            .select('rules')
+            .eq('space_id', currentSpace.id)
+            .maybeSingle()
+            .then(({ data }) => {
+                const loaded = normaliseStyleRules(data?.rules)
+                setRules(loaded)
+                setBannedText(loaded.banned_phrases.join('\n'))
+                setIsLoading(false)
+            })
+    }, [currentSpace])
+
+    // Rules as they will be saved, with the banned phrases textarea parsed
+    const currentRules = useMemo(() => normaliseStyleRules({
+        ...rules,
+        banned_phrases: bannedText.split('\n'),
+        substitutions: rules.substitutions.filter(s => s.find.trim()),
+    }), [rules, bannedText])
+
+    const sampleResult = useMemo(() => applyStyleRules(sampleText, currentRules), [sampleText, currentRules])
+
+    const handleSave = async () => {
+        if (!currentSpace) return
+        setIsSaving(true)
+        setError(null)
+        setSuccess(null)
+
+        try {
+            const { error: saveError } = await supabase
+                .from('style_rules')
+                .upsert({
+                    space_id: currentSpace.id,
+                    rules: currentRules,
+                    updated_at: new Date().toISOString(),
+                }, { onConflict: 'space_id' })
+
+            if (saveError) throw saveError
+            setSuccess('House style saved. It applies to every post generated from now on.')
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save house style')
+        }
+        setIsSaving(false)
+    }
+
+    const updateSubstitution = (index: number, field: 'find' | 'replace', value: string) => {
+        setRules(prev => ({
+            ...prev,
+            substitutions: prev.substitutions.map((s, i) => i === index ? { ...s, [field]: value } : s),
+        }))
+    }
+
+    const parseLimit = (value: string) => value.trim() === '' ? null : Math.max(0, parseInt(value, 10) || 0)
+
+    if (isLoading) {
+        return <div className="p-8 text-center text-[var(--color-gray-400)]">Loading...</div>
+    }
+
+    return (
+        <div className="max-w-2xl mx-auto p-8">
+            <div className="mb-8">
+                <h1 className="text-2xl font-bold text-[var(--color-gray-900)]">House Style</h1>
+                <p className="text-[var(--color-gray-500)] mt-1">
+                    Rules applied to every generated post, and checked when you edit a post by hand.
+                </p>
+            </div>
+
+            {error && (
+                <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+                    <AlertCircle className="w-5 h-5 text-red-500 mt-0.5 shrink-0" />
+                    <p className="text-sm text-red-700">{error}</p>
+                </div>
+            )}
+
+            {success && (
+                <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-start gap-3">
+                    <Check className="w-5 h-5 text-green-500 mt-0.5 shrink-0" />
+                    <p className="text-sm text-green-700">{success}</p>
+                </div>
+            )}
+
+            {/* Language Card */}
+            <div className="bg-white border border-[var(--color-gray-200)] rounded-xl p-6 mb-6">
+                <div className="flex items-center gap-3 mb-4">
+                    <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+                        <SpellCheck className="w-5 h-5 text-blue-600" />
+                    </div>
+                    <div>
+                        <h2 className="font-semibold text-[var(--color-gray-900)]">Language</h2>
+                        <p className="text-xs text-[var(--color-gray-500)]">Spelling, punctuation and length</p>
+                    </div>
+                </div>
+
+                <div className="space-y-3 mb-4">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={rules.au_spelling}
+                            onChange={(e) => setRules(prev => ({ ...prev, au_spelling: e.target.checked }))}
+                            className="rounded border-[var(--color-gray-300)] text-[var(--color-primary)]"
+                        />
+                        <span className="text-sm text-[var(--color-gray-700)]">
+                            Convert US spellings to Australian English (organize → organise, color → colour)
+                        </span>
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={rules.dash_policy === 'replace'}
+                            onChange={(e) => setRules(prev => ({ ...prev, dash_policy: e.target.checked ? 'replace' : 'allow' }))}
+                            className="rounded border-[var(--color-gray-300)] text-[var(--color-primary)]"
+                        />
+                        <span className="text-sm text-[var(--color-gray-700)]">
+                            Replace em and en dashes with commas and hyphens
+                        </span>
+                    </label>
+                </div>
+
+                <Input
+                    label="Maximum post length (characters)"
+                    type="number"
+                    min={0}
+                    value={rules.max_length ?? ''}
+                    placeholder="No limit"
+                    onChange={(e) => setRules(prev => ({ ...prev, max_length: parseLimit(e.target.value) }))}
+                />
+            </div>
+
+            {/* Emojis and Hashtags Card */}
+            <div className="bg-white border border-[var(--color-gray-200)] rounded-xl p-6 mb-6">
+                <div className="flex items-center gap-3 mb-4">
+                    <div className="w-10 h-10 bg-purple-100 rounded-lg flex items-center justify-center">
+                        <Hash className="w-5 h-5 text-purple-600" />
+                    </div>
+                    <div>
+                        <h2 className="font-semibold text-[var(--color-gray-900)]">Emojis and Hashtags</h2>
+                        <p className="text-xs text-[var(--color-gray-500)]">"Follow campaign" uses each campaign's own emoji and hashtag settings</p>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--color-gray-700)] mb-2">Emojis</label>
+                        <select
+                            value={rules.emoji_policy}
+                            onChange={(e) => setRules(prev => ({ ...prev, emoji_policy: e.target.value as StyleRules['emoji_policy'] }))}
+                            className={selectClassName}
+                        >
+                            <option value="campaign">Follow campaign</option>
+                            <option value="none">Never</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--color-gray-700)] mb-2">Hashtags</label>
+                        <select
+                            value={rules.hashtag_policy}
+                            onChange={(e) => setRules(prev => ({ ...prev, hashtag_policy: e.target.value as StyleRules['hashtag_policy'] }))}
+                            className={selectClassName}
+                        >
+                            <option value="campaign">Follow campaign</option>
+                            <option value="none">Never</option>
+                        </select>
+                    </div>
+                </div>
+
+                <Input
+                    label="Maximum hashtags per post"
+                    type="number"
+                    min={0}
+                    value={rules.max_hashtags ?? ''}
+                    placeholder="No limit"
+                    disabled={rules.hashtag_policy === 'none'}
+                    onChange={(e) => setRules(prev => ({ ...prev, max_hashtags: parseLimit(e.target.value) }))}
+                />
+            </div>
+
+            {/* Banned Phrases Card */}
+            <div className="bg-white border border-[var(--color-gray-200)] rounded-xl p-6 mb-6">
+                <div className="flex items-center gap-3 mb-4">
+                    <div className="w-10 h-10 bg-red-100 rounded-lg flex items-center justify-center">
+                        <Ban className="w-5 h-5 text-red-600" />
+                    </div>
+                    <div>
+                        <h2 className="font-semibold text-[var(--color-gray-900)]">Banned Words and Phrases</h2>
+                        <p className="text-xs text-[var(--color-gray-500)]">Flagged for a manual rewrite. Add a substitution instead to fix them automatically.</p>
+                    </div>
+                </div>
+
+                <Textarea
+                    value={bannedText}
+                    onChange={(e) => setBannedText(e.target.value)}
+                    placeholder={'One per line, e.g.\ngame-changer\nsynergy\nleverage'}
+                    rows={5}
+                />
+            </div>
+
+            {/* Substitutions Card */}
+            <div className="bg-white border border-[var(--color-gray-200)] rounded-xl p-6 mb-6">
+                <div className="flex items-center gap-3 mb-4">
+                    <div className="w-10 h-10 bg-teal-100 rounded-lg flex items-center justify-center">
+                        <Replace className="w-5 h-5 text-teal-600" />
+                    </div>
+                    <div>
+                        <h2 className="font-semibold text-[var(--color-gray-900)]">Required Substitutions</h2>
+                        <p className="text-xs text-[var(--color-gray-500)]">Whole words, matched regardless of case. Leave the replacement empty to delete.</p>
+                    </div>
+                </div>
+
+                <div className="space-y-2 mb-3">
+                    {rules.substitutions.map((sub, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                            <Input
+                                value={sub.find}
+                                placeholder="Find"
+                                onChange={(e) => updateSubstitution(index, 'find', e.target.value)}
+                            />
+                            <span className="text-[var(--color-gray-400)]">→</span>
+                            <Input
+                                value={sub.replace}
+                                placeholder="Replace with"
+                                onChange={(e) => updateSubstitution(index, 'replace', e.target.value)}
+                            />
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setRules(prev => ({ ...prev, substitutions: prev.substitutions.filter((_, i) => i !== index) }))}
+                            >
+                                <Trash2 className="w-4 h-4 text-red-500" />
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+
+                <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => setRules(prev => ({ ...prev, substitutions: [...prev.substitutions, { find: '', replace: '' }] }))}
+                >
+                    <Plus className="w-4 h-4" />
+                    Add Substitution
+                </Button>
+            </div>
+
+            {/* Try It Card */}
+            <div className="bg-white border border-[var(--color-gray-200)] rounded-xl p-6 mb-6">
+                <div className="flex items-center gap-3 mb-4">
+                    <div className="w-10 h-10 bg-amber-100 rounded-lg flex items-center justify-center">
+                        <FlaskConical className="w-5 h-5 text-amber-600" />
+                    </div>
+                    <div>
+                        <h2 className="font-semibold text-[var(--color-gray-900)]">Try It</h2>
+                        <p className="text-xs text-[var(--color-gray-500)]">Preview what the post-processor does with these rules (subtle emojis, hashtags on)</p>
+                    </div>
+                </div>
+
+                <Textarea
+                    value={sampleText}
+                    onChange={(e) => setSampleText(e.target.value)}
+                    rows={6}
+                />
+
+                <div className="mt-3 bg-[var(--color-gray-50)] rounded-lg p-4 text-sm text-[var(--color-gray-800)] whitespace-pre-wrap">
+                    {sampleResult.text}
+                </div>
+
+                <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                    {Object.entries(sampleResult.changes).map(([kind, count]) => (
+                        <span key={kind} className="px-2 py-0.5 rounded bg-green-100 text-green-700">
+                            {STYLE_ISSUE_LABELS[kind as keyof typeof STYLE_ISSUE_LABELS]}: {count} fixed
+                        </span>
+                    ))}
+                    {sampleResult.issues.map((issue, i) => (
+                        <span key={i} className="px-2 py-0.5 rounded bg-red-100 text-red-700">{issue.message}</span>
+                    ))}
+                </div>
+            </div>
+
+            {/* Save Button */}
+            <div className="flex justify-end">
+                <Button onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? 'Saving...' : 'Save House Style'}
+                </Button>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,418 @@
+// src/pages/Ideas.tsx
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+import { Check, Edit3, Lightbulb, Loader2, Plus, RotateCcw, ThumbsUp, Trash2, X } from 'lucide-react'
+import { Button, Input, Textarea } from '@/components/ui'
+import { ContentSlotBadge } from '@/components/campaigns'
+import { IdeaStatusBadge } from '@/components/ideas'
+import { supabase } from '@/lib/supabase'
+import { CONTENT_CATEGORIES, CONTENT_LAYERS, getCategoryLayer, isContentCategory } from '@/lib/content-mix'
+import { IDEA_SOURCE_LABELS, IDEA_STATUS_LABELS, ideaSlot, toggleIdeaVote, type IdeaSource, type IdeaStatus } from '@/lib/ideas'
+import { useSpaceStore } from '@/stores/spaceStore'
+import { useAuthStore } from '@/stores/authStore'
+import type { ContentCategory, Database } from '@/types/database'
+
+type Idea = Database['public']['Tables']['ideas']['Row'] & {
+    campaign: { name: string } | null
+}
+
+type StatusFilter = IdeaStatus | 'all'
+
+const STATUS_TABS: StatusFilter[] = ['new', 'approved', 'used', 'rejected', 'all']
+
+const selectClassName = 'px-3 py-2 border border-[var(--color-gray-300)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]/30 focus:border-[var(--color-primary)]'
+
+// Category picker grouped by layer; the layer follows from the category
+function CategorySelect({ value, onChange }: { value: ContentCategory | null; onChange: (category: ContentCategory | null) => void }) {
+    return (
+        <select
+            value={value || ''}
+            onChange={(e) => onChange(isContentCategory(e.target.value) ? e.target.value : null)}
+            className={selectClassName}
+        >
+            <option value="">No category</option>
+            {CONTENT_LAYERS.map(layer => (
+                <optgroup key={layer.value} label={layer.label}>
+                    {CONTENT_CATEGORIES.filter(c => c.layer === layer.value).map(c => (
+                        <option key={c.value} value={c.value}>{c.label}</option>
+                    ))}
+                </optgroup>
+            ))}
+        </select>
+    )
+}
+
+const categoryColumns = (category: ContentCategory | null) => ({
+    content_layer: category ? getCategoryLayer(category) : null,
+    content_category: category,
+})
+
+export function Ideas() {
+    const { currentSpace } = useSpaceStore()
+    const { user } = useAuthStore()
+    const [ideas, setIdeas] = useState<Idea[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('new')
+    const [sourceFilter, setSourceFilter] = useState<IdeaSource | ''>('')
+    const [layerFilter, setLayerFilter] = useState('')
+    const [sortBy, setSortBy] = useState<'votes' | 'newest'>('votes')
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+
+    // New idea form
+    const [showAddForm, setShowAddForm] = useState(false)
+    const [newTitle, setNewTitle] = useState('')
+    const [newNotes, setNewNotes] = useState('')
+    const [newCategory, setNewCategory] = useState<ContentCategory | null>(null)
+    const [isAdding, setIsAdding] = useState(false)
+
+    // Inline edit
+    const [editingId, setEditingId] = useState<string | null>(null)
+    const [editTitle, setEditTitle] = useState('')
+    const [editNotes, setEditNotes] = useState('')
+    const [editCategory, setEditCategory] = useState<ContentCategory | null>(null)
+
+    const fetchIdeas = useCallback(async () => {
+        if (!currentSpace) return
+
+        setIsLoading(true)
+        const { data, error } = await supabase
+            .from('ideas')
+            .select('*, campaign:campaigns(name)')
+            .eq('space_id', currentSpace.id)
+            .order('created_at', { ascending: false })
+
+        if (error) console.error('Error fetching ideas:', error)
+        setIdeas((data || []) as Idea[])
+        setIsLoading(false)
+    }, [currentSpace])
+
+    useEffect(() => {
+        fetchIdeas()
+    }, [fetchIdeas])
+
+    const statusCounts = useMemo(() => {
+        const counts: Record<StatusFilter, number> = { new: 0, approved: 0, used: 0, rejected: 0, all: ideas.length }
+        ideas.forEach(idea => counts[idea.status]++)
+        return counts
+    }, [ideas])
+
+    const visibleIdeas = useMemo(() => ideas
+        .filter(idea => statusFilter === 'all' || idea.status === statusFilter)
+        .filter(idea => !sourceFilter || idea.source === sourceFilter)
+        .filter(idea => !layerFilter || idea.content_layer === layerFilter)
+        .sort((a, b) => sortBy === 'votes'
+            ? b.votes - a.votes || b.created_at.localeCompare(a.created_at)
+            : b.created_at.localeCompare(a.created_at)),
+    [ideas, statusFilter, sourceFilter, layerFilter, sortBy])
+
+    const updateIdeas = async (ideaIds: string[], changes: Database['public']['Tables']['ideas']['Update']) => {
+        try {
+            const { error } = await supabase
+                .from('ideas')
+                .update({ ...changes, updated_at: new Date().toISOString() })
+                .in('id', ideaIds)
+
+            if (error) throw error
+            setIdeas(prev => prev.map(idea => ideaIds.includes(idea.id) ? { ...idea, ...changes } as Idea : idea))
+        } catch (error) {
+            console.error('Error updating ideas:', error)
+            alert(error instanceof Error ? error.message : 'Failed to update ideas')
+        }
+    }
+
+    const setStatus = async (ideaIds: string[], status: IdeaStatus) => {
+        await updateIdeas(ideaIds, { status })
+        setSelectedIds(new Set())
+    }
+
+    const handleVote = async (idea: Idea) => {
+        if (!user) return
+        const votedBy = toggleIdeaVote(idea.voted_by, user.id)
+        await updateIdeas([idea.id], { voted_by: votedBy })
+        // votes is computed by the database; mirror it locally
+        setIdeas(prev => prev.map(i => i.id === idea.id ? { ...i, votes: votedBy.length } : i))
+    }
+
+    const handleAdd = async () => {
+        if (!currentSpace || !user || !newTitle.trim()) return
+
+        setIsAdding(true)
+        try {
+            const { error } = await supabase
+                .from('ideas')
+                .insert({
+                    space_id: currentSpace.id,
+                    title: newTitle.trim(),
+                    notes: newNotes.trim() || null,
+                    status: 'new',
+                    source: 'manual',
+                    ...categoryColumns(newCategory),
+                    voted_by: [user.id],
+                    created_by: user.id,
+                })
+
+            if (error) throw error
+
+            setNewTitle('')
+            setNewNotes('')
+            setNewCategory(null)
+            setShowAddForm(false)
+            setStatusFilter('new')
+            await fetchIdeas()
+        } catch (error) {
+            console.error('Error adding idea:', error)
+            alert(error instanceof Error ? error.message : 'Failed to add idea')
+        } finally {
+            setIsAdding(false)
+        }
+    }
+
+    const startEdit = (idea: Idea) => {
+        setEditingId(idea.id)
+        setEditTitle(idea.title)
+        setEditNotes(idea.notes || '')
+        setEditCategory(isContentCategory(idea.content_category) ? idea.content_category : null)
+    }
+
+    const handleSaveEdit = async () => {
+        if (!editingId || !editTitle.trim()) return
+        await updateIdeas([editingId], {
+            title: editTitle.trim(),
+            notes: editNotes.trim() || null,
+            ...categoryColumns(editCategory),
+        })
+        setEditingId(null)
+    }
+
+    const handleDelete = async (idea: Idea) => {
+        if (!confirm(`Delete "${idea.title}"? Posts written from it keep their text.`)) return
+        try {
+            const { error } = await supabase.from('ideas').delete().eq('id', idea.id)
+            if (error) throw error
+            setIdeas(prev => prev.filter(i => i.id !== idea.id))
+        } catch (error) {
+            console.error('Error deleting idea:', error)
+            alert(error instanceof Error ? error.message : 'Failed to delete idea')
+        }
+    }
+
+    const toggleSelect = (ideaId: string) => {
+        const next = new Set(selectedIds)
+        if (next.has(ideaId)) {
+            next.delete(ideaId)
+        } else {
+            next.add(ideaId)
+        }
+        setSelectedIds(next)
+    }
+
+    if (isLoading && ideas.length === 0) {
+        return <div className="p-8 text-center text-[var(--color-gray-400)]">Loading...</div>
+    }
+
+    return (
+        <div className="max-w-5xl mx-auto p-8">
+            <div className="flex items-start justify-between mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-[var(--color-gray-900)]">Idea Bank</h1>
+                    <p className="text-[var(--color-gray-500)] mt-1">
+                        Post ideas shared across the workspace. Approved ideas are drawn into campaigns when posts are generated.
+                    </p>
+                </div>
+                <Button onClick={() => setShowAddForm(!showAddForm)}>
+                    <Plus className="w-4 h-4" />
+                    Add Idea
+                </Button>
+            </div>
+
+            {showAddForm && (
+                <div className="bg-white border border-[var(--color-gray-200)] rounded-xl p-6 mb-6 space-y-4">
+                    <Input
+                        label="Idea"
+                        value={newTitle}
+                        onChange={(e) => setNewTitle(e.target.value)}
+                        placeholder="e.g. What we learned moving a records system to the cloud"
+                        autoFocus
+                    />
+                    <Textarea
+                        label="Notes"
+                        value={newNotes}
+                        onChange={(e) => setNewNotes(e.target.value)}
+                        placeholder="Angle, sources, who should be quoted..."
+                        rows={2}
+                    />
+                    <div className="flex items-center justify-between">
+                        <CategorySelect value={newCategory} onChange={setNewCategory} />
+                        <div className="flex gap-2">
+                            <Button variant="secondary" onClick={() => setShowAddForm(false)}>Cancel</Button>
+                            <Button onClick={handleAdd} disabled={!newTitle.trim() || isAdding}>
+                                {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                                Add to backlog
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Status tabs */}
+            <div className="flex gap-2 mb-4">
+                {STATUS_TABS.map(status => (
+                    <button
+                        key={status}
+                        onClick={() => {
+                            setStatusFilter(status)
+                            setSelectedIds(new Set())
+                        }}
+                        className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${statusFilter === status
+                            ? 'bg-[var(--color-primary)] text-white'
+                            : 'bg-[var(--color-gray-100)] text-[var(--color-gray-600)] hover:bg-[var(--color-gray-200)]'
+                            }`}
+                    >
+                        {status === 'all' ? 'All' : IDEA_STATUS_LABELS[status]} ({statusCounts[status]})
+                    </button>
+                ))}
+            </div>
+
+            {/* Filters and bulk actions */}
+            <div className="bg-white rounded-xl border border-[var(--color-gray-200)] p-4 mb-4 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <select value={sourceFilter} onChange={(e) => setSourceFilter(e.target.value as IdeaSource | '')} className={selectClassName}>
+                        <option value="">All sources</option>
+                        {(Object.keys(IDEA_SOURCE_LABELS) as IdeaSource[]).map(source => (
+                            <option key={source} value={source}>{IDEA_SOURCE_LABELS[source]}</option>
+                        ))}
+                    </select>
+                    <select value={layerFilter} onChange={(e) => setLayerFilter(e.target.value)} className={selectClassName}>
+                        <option value="">All layers</option>
+                        {CONTENT_LAYERS.map(layer => (
+                            <option key={layer.value} value={layer.value}>{layer.label}</option>
+                        ))}
+                    </select>
+                    <select value={sortBy} onChange={(e) => setSortBy(e.target.value as 'votes' | 'newest')} className={selectClassName}>
+                        <option value="votes">Most votes</option>
+                        <option value="newest">Newest</option>
+                    </select>
+                </div>
+                {selectedIds.size > 0 && (
+                    <div className="flex items-center gap-2">
+                        <span className="text-sm text-[var(--color-gray-500)]">{selectedIds.size} selected</span>
+                        <Button variant="secondary" size="sm" onClick={() => setStatus(Array.from(selectedIds), 'approved')}>
+                            <Check className="w-4 h-4" />
+                            Approve
+                        </Button>
+                        <Button variant="secondary" size="sm" onClick={() => setStatus(Array.from(selectedIds), 'rejected')} className="text-red-600 hover:bg-red-50">
+                            <X className="w-4 h-4" />
+                            Reject
+                        </Button>
+                    </div>
+                )}
+            </div>
+
+            {/* Ideas list */}
+            <div className="bg-white rounded-xl border border-[var(--color-gray-200)] overflow-hidden">
+                {visibleIdeas.length === 0 ? (
+                    <div className="p-12 text-center">
+                        <div className="w-16 h-16 bg-[var(--color-gray-100)] rounded-full flex items-center justify-center mx-auto mb-4">
+                            <Lightbulb className="w-8 h-8 text-[var(--color-gray-400)]" />
+                        </div>
+                        <p className="text-[var(--color-gray-500)]">
+                            {ideas.length === 0
+                                ? 'No ideas yet. Add one, or generate ideas from a campaign.'
+                                : 'No ideas match these filters'}
+                        </p>
+                    </div>
+                ) : (
+                    <div className="divide-y divide-[var(--color-gray-100)]">
+                        {visibleIdeas.map(idea => {
+                            const slot = ideaSlot(idea)
+                            const hasVoted = !!user && idea.voted_by.includes(user.id)
+
+                            if (editingId === idea.id) {
+                                return (
+                                    <div key={idea.id} className="p-4 space-y-3 bg-[var(--color-gray-50)]">
+                                        <Input value={editTitle} onChange={(e) => setEditTitle(e.target.value)} autoFocus />
+                                        <Textarea value={editNotes} onChange={(e) => setEditNotes(e.target.value)} placeholder="Notes" rows={2} />
+                                        <div className="flex items-center justify-between">
+                                            <CategorySelect value={editCategory} onChange={setEditCategory} />
+                                            <div className="flex gap-2">
+                                                <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>Cancel</Button>
+                                                <Button size="sm" onClick={handleSaveEdit} disabled={!editTitle.trim()}>
+                                                    <Check className="w-4 h-4" />
+                                                    Save
+                                                </Button>
+                                            </div>
+                                        </div>
+                                    </div>
+                                )
+                            }
+
+                            return (
+                                <div
+                                    key={idea.id}
+                                    className={`p-4 flex items-start gap-3 transition-colors ${selectedIds.has(idea.id) ? 'bg-blue-50' : 'hover:bg-[var(--color-gray-50)]'}`}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={selectedIds.has(idea.id)}
+                                        onChange={() => toggleSelect(idea.id)}
+                                        className="w-4 h-4 mt-1 rounded"
+                                    />
+                                    <button
+                                        onClick={() => handleVote(idea)}
+                                        className={`flex flex-col items-center w-10 py-1 rounded-lg text-xs font-medium transition-colors ${hasVoted
+                                            ? 'bg-[var(--color-primary)]/10 text-[var(--color-primary)]'
+                                            : 'text-[var(--color-gray-500)] hover:bg-[var(--color-gray-100)]'}`}
+                                        title={hasVoted ? 'Remove your vote' : 'Vote for this idea'}
+                                    >
+                                        <ThumbsUp className="w-4 h-4" />
+                                        {idea.votes}
+                                    </button>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-[var(--color-gray-800)]">{idea.title}</p>
+                                        {idea.notes && <p className="text-sm text-[var(--color-gray-500)] mt-0.5 whitespace-pre-wrap">{idea.notes}</p>}
+                                        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-[var(--color-gray-400)]">
+                                            <IdeaStatusBadge status={idea.status} />
+                                            {slot && <ContentSlotBadge slot={slot} />}
+                                            <span>{IDEA_SOURCE_LABELS[idea.source]}</span>
+                                            {idea.campaign && idea.campaign_id && (
+                                                <Link to={`/campaign/${idea.campaign_id}`} className="hover:underline">
+                                                    {idea.status === 'used' ? 'Written in' : 'Planned for'} {idea.campaign.name}
+                                                </Link>
+                                            )}
+                                            <span>{new Date(idea.used_at || idea.created_at).toLocaleDateString()}</span>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-1">
+                                        {(idea.status === 'new' || idea.status === 'rejected') && (
+                                            <Button variant="ghost" size="sm" onClick={() => setStatus([idea.id], 'approved')} title="Approve">
+                                                <Check className="w-4 h-4 text-green-600" />
+                                            </Button>
+                                        )}
+                                        {(idea.status === 'new' || idea.status === 'approved') && (
+                                            <Button variant="ghost" size="sm" onClick={() => setStatus([idea.id], 'rejected')} title="Reject">
+                                                <X className="w-4 h-4 text-red-500" />
+                                            </Button>
+                                        )}
+                                        {idea.status === 'used' && (
+                                            <Button variant="ghost" size="sm" onClick={() => setStatus([idea.id], 'approved')} title="Use again">
+                                                <RotateCcw className="w-4 h-4" />
+                                            </Button>
+                                        )}
+                                        <Button variant="ghost" size="sm" onClick={() => startEdit(idea)} title="Edit">
+                                            <Edit3 className="w-4 h-4" />
+                                        </Button>
+                                        {idea.status === 'rejected' && (
+                                            <Button variant="ghost" size="sm" onClick={() => handleDelete(idea)} title="Delete">
+                                                <Trash2 className="w-4 h-4 text-red-500" />
+                                            </Button>
+                                        )}
+                                    </div>
+                                </div>
+                            )
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -1,5 +1,5 @@
 import { useState, useCallback, useEffect } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import {
     Image as ImageIcon,
     Loader2,
@@ -16,6 +16,8 @@ import {
 } from 'lucide-react'
 import { Button } from '@/components/ui'
 import { supabase } from '@/lib/supabase'
+import { classifyAfterEdit } from '@/lib/classify-post'
+import { checkDuplicatesAfterEdit } from '@/lib/check-duplicates'
 import { useSpaceStore } from '@/stores/spaceStore'
 import { useAuthStore } from '@/stores/authStore'
 import { CONTENT_LAYERS, type ContentLayer } from '@/types/database'
@@ -26,6 +28,7 @@ import {
     POSITION_LABELS,
     type LogoPosition,
 } from '@/lib/logo-overlay'
+import { carouselStudioPrompts, type CarouselOutline } from '@/lib/repurpose'
 
 // ── Types ────────────────────────────────────────────
 
@@ -424,6 +427,7 @@ export function ImageStudio() {
     const { currentSpace } = useSpaceStore()
     const { user } = useAuthStore()
     const navigate = useNavigate()
+    const [searchParams] = useSearchParams()
     const [mode, setMode] = useState<'single' | 'carousel'>('single')
     const [prompt, setPrompt] = useState('')
     const [aspectRatio, setAspectRatio] = useState<string>('1:1')
@@ -468,6 +472,20 @@ export function ImageStudio() {
         })
     }, [currentSpace])
 
+    // ?carousel=<post id> opens a repurposed document's carousel outline as slides
+    const carouselPostId = searchParams.get('carousel')
+    useEffect(() => {
+        if (!currentSpace || !carouselPostId) return
+        supabase.from('posts').select('generation_meta').eq('id', carouselPostId).eq('space_id', currentSpace.id).maybeSingle().then(({ data, error }) => {
+            if (error) console.error('Error loading carousel outline:', error)
+            const outline = (data?.generation_meta as { repurpose?: { carousel?: CarouselOutline | null } } | null)?.repurpose?.carousel
+            if (!outline) return
+            const { basePrompt: style, slides: slidePrompts } = carouselStudioPrompts(outline)
+            setMode('carousel'); setBasePrompt(style); setActiveSlideIndex(0); setShowAllSlides(false)
+            setSlides(slidePrompts.map(p => ({ id: crypto.randomUUID(), prompt: p, generations: [], selectedIndex: -1 })))
+        })
+    }, [currentSpace, carouselPostId])
+
     const showToastMsg = (msg: string) => { setToast(msg); setTimeout(() => setToast(null), 6000) }
     const activeSlide = slides[activeSlideIndex]
     const activeGenerations = mode === 'carousel' ? (activeSlide?.generations ?? []) : generations
@@ -509,6 +527,19 @@ export function ImageStudio() {
         } finally { setGenerating(false) }
     }, [currentSpace, mode, prompt, basePrompt, slides, activeSlideIndex, aspectRatio, referenceImages, generating, latestImage, refinement, mutateAssets])
 
+    const generateSlides = useCallback(async (ns: Slide[]) => {
+        if (!currentSpace) return
+        for (let i = 0; i < ns.length; i++) {
+            setActiveSlideIndex(i)
+            const sfp = basePrompt.trim() ? `${basePrompt.trim()}\n\n${ns[i].prompt}` : ns[i].prompt
+            const { data: gd, error: ge } = await supabase.functions.invoke('image-studio-generate', { body: { prompt: sfp, aspect_ratio: aspectRatio, reference_image_urls: referenceImages.length > 0 ? referenceImages.map(r => r.url) : undefined, space_id: currentSpace.id, model: imageModel } })
+            if (ge || gd?.error) { showToastMsg(`Failed slide ${i + 1}`); continue }
+            const ni: GeneratedImage = { id: gd.asset.id, url: gd.asset.publicUrl, prompt: sfp, aspectRatio, createdAt: new Date() }
+            setSlides(p => p.map((s, idx) => idx !== i ? s : { ...s, generations: [ni], selectedIndex: 0 }))
+            setLatestImage(ni); setSelectedImage(ni)
+        }
+    }, [currentSpace, basePrompt, aspectRatio, referenceImages, imageModel])
+
     const handleGenerateCarousel = useCallback(async () => {
         if (!currentSpace) return
         const up = (mode === 'carousel' ? (slides[activeSlideIndex]?.prompt || prompt) : prompt).trim()
@@ -516,22 +547,21 @@ export function ImageStudio() {
         setGenerating(true)
         try {
             const fp = basePrompt.trim() ? `${basePrompt.trim()}\n\n${up}` : up
-            const { data: sd, error: se } = await supabase.functions.invoke('image-studio-split-prompt', { body: { prompt: fp, slide_count: 4 } })
+            const { data: sd, error: se } = await supabase.functions.invoke('image-studio-split-prompt', { body: { prompt: fp, slide_count: 4, space_id: currentSpace.id } })
             if (se || sd?.error) { showToastMsg('Failed to split prompt'); return }
             const ns: Slide[] = (sd.slides as string[]).map((p: string) => ({ id: crypto.randomUUID(), prompt: p, generations: [], selectedIndex: -1 }))
             setSlides(ns); setActiveSlideIndex(0)
-            for (let i = 0; i < ns.length; i++) {
-                setActiveSlideIndex(i)
-                const sfp = basePrompt.trim() ? `${basePrompt.trim()}\n\n${ns[i].prompt}` : ns[i].prompt
-                const { data: gd, error: ge } = await supabase.functions.invoke('image-studio-generate', { body: { prompt: sfp, aspect_ratio: aspectRatio, reference_image_urls: referenceImages.length > 0 ? referenceImages.map(r => r.url) : undefined, space_id: currentSpace.id, model: imageModel } })
-                if (ge || gd?.error) { showToastMsg(`Failed slide ${i + 1}`); continue }
-                const ni: GeneratedImage = { id: gd.asset.id, url: gd.asset.publicUrl, prompt: sfp, aspectRatio, createdAt: new Date() }
-                setSlides(p => p.map((s, idx) => idx !== i ? s : { ...s, generations: [ni], selectedIndex: 0 }))
-                setLatestImage(ni); setSelectedImage(ni)
-            }
+            await generateSlides(ns)
             mutateAssets(); showToastMsg('Carousel generated')
         } catch { showToastMsg('Failed to generate carousel') } finally { setGenerating(false) }
-    }, [currentSpace, prompt, basePrompt, aspectRatio, referenceImages, generating, mode, slides, activeSlideIndex, mutateAssets])
+    }, [currentSpace, prompt, basePrompt, generating, mode, slides, activeSlideIndex, generateSlides, mutateAssets])
+
+    // Slides already laid out (e.g. from a carousel outline) are generated as they are, without splitting
+    const handleGenerateSlides = useCallback(async () => {
+        if (!currentSpace || generating || slides.some(s => !s.prompt.trim())) return
+        setGenerating(true)
+        try { await generateSlides(slides); mutateAssets(); showToastMsg('Carousel generated') } catch { showToastMsg('Failed to generate carousel') } finally { setGenerating(false) }
+    }, [currentSpace, generating, slides, generateSlides, mutateAssets])
 
     const handleApplyLogo = useCallback(async () => {
         if (!selectedImage || logos.length === 0) return
@@ -595,7 +625,7 @@ export function ImageStudio() {
                 imagePath = asset?.storage_path || ''
             }
 
-            const { error } = await supabase.from('posts').insert({
+            const { data: newPost, error } = await supabase.from('posts').insert({
                 space_id: currentSpace.id,
                 title: createPostTitle.trim(),
                 body: selectedImage.prompt || '',
@@ -603,8 +633,13 @@ export function ImageStudio() {
                 author_id: user.id,
                 generated_image_path: imagePath,
                 content_layer: createPostLayer || null,
-            })
+                // A layer picked here is a manual classification
+                classification_status: createPostLayer ? 'confirmed' : null,
+                classification_meta: createPostLayer ? { source: 'manual' } : {},
+            }).select('id').single()
             if (error) throw error
+            if (!createPostLayer) classifyAfterEdit(newPost.id, null, selectedImage.prompt)
+            checkDuplicatesAfterEdit(newPost.id, null, selectedImage.prompt)
 
             setShowCreatePostModal(false)
             setCreatePostTitle('')
@@ -682,7 +717,7 @@ export function ImageStudio() {
                             onSelect={() => { if (latestImage) { setSelectedImage(latestImage); if (mode === 'carousel') setSlides(p => p.map((s, i) => { if (i !== activeSlideIndex) return s; const gi = s.generations.findIndex(g => g.id === latestImage.id); return { ...s, selectedIndex: gi >= 0 ? gi : s.selectedIndex } })) } }}
                             onSelectGeneration={g => { setConfirmedImage(latestImage); setLatestImage(g); setSelectedImage(g) }}
                         />}
-                        <PromptBar prompt={activePrompt} onPromptChange={setActivePrompt} aspectRatio={aspectRatio} onAspectRatioChange={setAspectRatio} imageModel={imageModel} onImageModelChange={setImageModel} referenceImages={referenceImages} onRemoveReference={i => setReferenceImages(p => p.filter((_, j) => j !== i))} generating={generating} onGenerate={mode === 'carousel' && slides.every(s => s.generations.length === 0) ? handleGenerateCarousel : handleGenerate} mode={mode} hasGenerations={activeGenerations.length > 0} refinement={refinement} onRefinementChange={setRefinement} />
+                        <PromptBar prompt={activePrompt} onPromptChange={setActivePrompt} aspectRatio={aspectRatio} onAspectRatioChange={setAspectRatio} imageModel={imageModel} onImageModelChange={setImageModel} referenceImages={referenceImages} onRemoveReference={i => setReferenceImages(p => p.filter((_, j) => j !== i))} generating={generating} onGenerate={mode === 'carousel' && slides.every(s => s.generations.length === 0) ? (slides.length > 1 ? handleGenerateSlides : handleGenerateCarousel) : handleGenerate} mode={mode} hasGenerations={activeGenerations.length > 0} refinement={refinement} onRefinementChange={setRefinement} />
                     </div>
                     <div className="shrink-0 px-6 py-3 border-t border-[var(--color-gray-200)] flex items-center gap-2 bg-white">
                         <Button variant="secondary" size="sm" disabled={!selectedImage} onClick={async () => { if (selectedImage) { const av = await detectVariant(selectedImage.url); const vi = logos.findIndex(l => l.label.toLowerCase().includes(av)); if (vi >= 0) setSelectedLogoIndex(vi) }; setShowLogoPanel(true) }}><ImageIcon className="w-3.5 h-3.5 mr-1.5" />Add Logo</Button>
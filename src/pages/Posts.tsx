@@ -1,10 +1,27 @@
 import { useState, useEffect, useCallback } from 'react'
-import { Plus, Image as ImageIcon, Paintbrush, Eye, MoreHorizontal, ChevronDown, Copy, Download, Check, X, Sparkles, Layers, Loader2, Trash2, Send } from 'lucide-react'
-import { Button, StatusBadge, Modal } from '@/components/ui'
+import { Plus, Image as ImageIcon, Paintbrush, Eye, MoreHorizontal, ChevronDown, Copy, Download, Check, X, Sparkles, Layers, Loader2, Trash2, Send, Pencil, Tags, ListChecks, Wand2 } from 'lucide-react'
+import { Button, Input, StatusBadge, Modal } from '@/components/ui'
 import { ImageModal } from '@/components/posts/ImageModal'
+import { GroundedPostBody, GroundingBadge, GroundingPanel } from '@/components/posts/GroundingPanel'
+import { PostBodyEditor } from '@/components/posts/PostBodyEditor'
+import { PostRewrite } from '@/components/posts/PostRewrite'
+import { PostRevisions } from '@/components/posts/PostRevisions'
+import { ChannelVariants } from '@/components/posts/ChannelVariants'
+import { ClassificationReview } from '@/components/posts/ClassificationReview'
+import { DuplicateBadge, DuplicateReview, type DuplicateFlag } from '@/components/posts/DuplicateReview'
+import { ContentSlotBadge } from '@/components/campaigns'
+import { JobProgressModal, JobStatusBanner } from '@/components/jobs'
+import { SeriesBadge } from '@/components/series'
 import { supabase } from '@/lib/supabase'
+import { isJobActive } from '@/lib/jobs'
+import { hubSpotChannelGuids, type HubSpotChannel } from '@/lib/channels'
+import { groupPostsIntoSeries } from '@/lib/post-series'
+import { getGroundingReport, getUngroundedClaims, isGroundingStale, type GroundingReport } from '@/lib/grounding'
+import { toContentSlot } from '@/lib/content-mix'
+import type { ClassificationStatus } from '@/lib/classification'
 import { useSpaceStore } from '@/stores/spaceStore'
 import { useAuthStore } from '@/stores/authStore'
+import { useJobStore } from '@/stores/jobStore'
 import type { ImageStatus, ImageSettings, PromptStyle } from '@/types/image'
 import { IMAGE_STATUS_LABELS, IMAGE_STATUS_COLORS } from '@/types/image'
 
@@ -31,11 +48,22 @@ interface Post {
     image_prompt_style: PromptStyle | null
     image_settings: ImageSettings | null
     image_status: ImageStatus
+    generation_meta: unknown
+    content_layer: string | null
+    content_category: string | null
+    content_confidence: number | null
+    classification_status: ClassificationStatus | null
+    series_id: string | null
+    series_part: number | null
+    series?: { title: string } | null
+    /** Holds the channels picked in the calendar, as our channel ids */
+    hubspot_meta: unknown
 }
 
 export function Posts() {
     const { currentSpace } = useSpaceStore()
     const { user } = useAuthStore()
+    const { enqueueJob, fetchActiveJobs, watchJob } = useJobStore()
     const [posts, setPosts] = useState<Post[]>([])
     const [isLoading, setIsLoading] = useState(true)
     const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
@@ -43,6 +71,8 @@ export function Posts() {
     const [showBulkGenerateModal, setShowBulkGenerateModal] = useState(false)
     const [showBulkActions, setShowBulkActions] = useState(false)
     const [exportPost, setExportPost] = useState<Post | null>(null)
+    const [isEditingExport, setIsEditingExport] = useState(false)
+    const [isRewritingExport, setIsRewritingExport] = useState(false)
     const [copiedText, setCopiedText] = useState(false)
     const [imageModalPost, setImageModalPost] = useState<Post | null>(null)
     const [isBulkSendingHubSpot, setIsBulkSendingHubSpot] = useState(false)
@@ -52,8 +82,10 @@ export function Posts() {
     const [activeFilters, setActiveFilters] = useState<string[]>([])
 
     // Bulk operations state
-    const [isBulkGeneratingImages, setIsBulkGeneratingImages] = useState(false)
-    const [bulkImageProgress, setBulkImageProgress] = useState({ current: 0, total: 0 })
+    const [imageJobId, setImageJobId] = useState<string | null>(null)
+    const [showImageJobModal, setShowImageJobModal] = useState(false)
+    const imageJob = useJobStore(state => imageJobId ? state.jobs[imageJobId] : undefined)
+    const isBulkGeneratingImages = !!imageJob && isJobActive(imageJob.status)
     const [isBulkApplyingLogos, setIsBulkApplyingLogos] = useState(false)
     const [bulkLogoProgress, setBulkLogoProgress] = useState({ current: 0, total: 0 })
     const [showBulkLogoModal, setShowBulkLogoModal] = useState(false)
@@ -63,10 +95,26 @@ export function Posts() {
     })
     const [imageStatusRefresh, setImageStatusRefresh] = useState(0)
 
+    // Classification job and review queue
+    const [classifyJobId, setClassifyJobId] = useState<string | null>(null)
+    const [showClassifyJobModal, setShowClassifyJobModal] = useState(false)
+    const classifyJob = useJobStore(state => classifyJobId ? state.jobs[classifyJobId] : undefined)
+    const isClassifying = !!classifyJob && isJobActive(classifyJob.status)
+    const [reviewCount, setReviewCount] = useState(0)
+    const [showReview, setShowReview] = useState(false)
+
+    // Open near-duplicate pairs, keyed by the later post
+    const [duplicateFlags, setDuplicateFlags] = useState<Record<string, DuplicateFlag[]>>({})
+    const [duplicateCount, setDuplicateCount] = useState(0)
+    const [showDuplicates, setShowDuplicates] = useState(false)
+
     // Status change state
     const [statusDropdownPostId, setStatusDropdownPostId] = useState<string | null>(null)
     const [showBulkStatusModal, setShowBulkStatusModal] = useState(false)
     const [selectedBulkStatus, setSelectedBulkStatus] = useState<string>('published')
+    const [showSeriesModal, setShowSeriesModal] = useState(false)
+    const [seriesTitle, setSeriesTitle] = useState('')
+    const [isGroupingSeries, setIsGroupingSeries] = useState(false)
 
     // Available statuses for dropdown
     const availableStatuses: { value: string; label: string; color: string }[] = [
@@ -83,7 +131,7 @@ export function Posts() {
         try {
             let query = supabase
                 .from('posts')
-                .select('*, campaign:campaigns(name)')
+                .select('*, campaign:campaigns(name), series:post_series(title)')
                 .eq('space_id', currentSpace.id)
                 .order('created_at', { ascending: false })
 
@@ -100,6 +148,25 @@ export function Posts() {
 
             if (error) throw error
             setPosts(data || [])
+
+            const { count } = await supabase
+                .from('posts')
+                .select('id', { count: 'exact', head: true })
+                .eq('space_id', currentSpace.id)
+                .eq('classification_status', 'needs_review')
+            setReviewCount(count || 0)
+
+            const { data: duplicates } = await supabase
+                .from('post_duplicates')
+                .select('id, post_id, duplicate_of_id, score, duplicate_of:posts!duplicate_of_id(title, status)')
+                .eq('space_id', currentSpace.id)
+                .eq('status', 'open')
+            const flags: Record<string, DuplicateFlag[]> = {}
+            for (const flag of (duplicates || []) as unknown as DuplicateFlag[]) {
+                (flags[flag.post_id] ||= []).push(flag)
+            }
+            setDuplicateFlags(flags)
+            setDuplicateCount(duplicates?.length || 0)
         } catch (error) {
             console.error('Error fetching posts:', error)
         } finally {
@@ -111,6 +178,30 @@ export function Posts() {
         fetchPosts()
     }, [fetchPosts])
 
+    const handleImageJobFinished = useCallback(() => {
+        setImageStatusRefresh(prev => prev + 1)
+        fetchPosts()
+    }, [fetchPosts])
+
+    // Pick up image and classification jobs that are still running, e.g. after a reload
+    useEffect(() => {
+        if (!currentSpace) return
+
+        fetchActiveJobs(currentSpace.id).then(active => {
+            const imagesJob = active.find(j => j.type === 'generate_image')
+            if (imagesJob) {
+                setImageJobId(imagesJob.id)
+                watchJob(imagesJob.id, handleImageJobFinished)
+            }
+
+            const classifyPostsJob = active.find(j => j.type === 'classify_posts')
+            if (classifyPostsJob) {
+                setClassifyJobId(classifyPostsJob.id)
+                watchJob(classifyPostsJob.id, fetchPosts)
+            }
+        })
+    }, [currentSpace, fetchActiveJobs, watchJob, handleImageJobFinished, fetchPosts])
+
     // Count posts by status
     const allCount = posts.length
     const draftsCount = posts.filter(p => p.status === 'draft' || p.status === 'generating_text' || p.status === 'generating_image').length
@@ -284,25 +375,79 @@ export function Posts() {
         }
     }
 
+    const handleExportBodySaved = (body: string) => {
+        if (!exportPost) return
+        setExportPost({ ...exportPost, body })
+        setPosts(prev => prev.map(p => p.id === exportPost.id ? { ...p, body } : p))
+        setIsEditingExport(false)
+    }
+
+    const handleExportRewritten = (changes: { body: string; generation_meta: Record<string, unknown> }) => {
+        if (!exportPost) return
+        setExportPost({ ...exportPost, ...changes })
+        setPosts(prev => prev.map(p => p.id === exportPost.id ? { ...p, ...changes } : p))
+        setIsRewritingExport(false)
+    }
+
+    const handleExportRestored = (changes: { title: string; body: string | null }) => {
+        if (!exportPost) return
+        setExportPost({ ...exportPost, ...changes })
+        setPosts(prev => prev.map(p => p.id === exportPost.id ? { ...p, ...changes } : p))
+    }
+
+    // Store a fresh grounding report on the previewed post and the list
+    const handleGroundingVerified = (report: GroundingReport) => {
+        if (!exportPost) return
+        const withReport = (p: Post): Post => ({
+            ...p,
+            generation_meta: { ...(p.generation_meta as object), grounding: report },
+        })
+        setExportPost(withReport(exportPost))
+        setPosts(prev => prev.map(p => p.id === exportPost.id ? withReport(p) : p))
+    }
+
+    // HubSpot channel GUIDs for each post's picked channels; posts without any use the default channel
+    const resolveHubSpotChannels = async (postIds: string[]) => {
+        const { data: connection } = await supabase
+            .from('hubspot_connections')
+            .select('account_meta')
+            .eq('space_id', currentSpace!.id)
+            .maybeSingle()
+        const meta = (connection?.account_meta || {}) as { channels?: HubSpotChannel[]; default_channel_guid?: string }
+
+        const guids = new Map<string, string[]>()
+        for (const post of posts.filter(p => postIds.includes(p.id))) {
+            const picked = (post.hubspot_meta as { channels?: unknown } | null)?.channels
+            guids.set(post.id, hubSpotChannelGuids(picked, meta.channels, meta.default_channel_guid))
+        }
+        return guids
+    }
+
     const handleSendToHubSpot = async (postId: string) => {
         if (!currentSpace) return
 
         try {
+            const channelGuids = (await resolveHubSpotChannels([postId])).get(postId) || []
+
             // Call the HubSpot send edge function
             const { data, error } = await supabase.functions.invoke('hubspot-send', {
                 body: {
                     post_id: postId,
                     space_id: currentSpace.id,
+                    channel_guids: channelGuids,
                 },
             })
 
             if (error) throw error
+            if (data?.error) throw new Error(data.error)
 
             console.log('HubSpot send result:', data)
             await fetchPosts()
         } catch (error) {
             console.error('Error sending to HubSpot:', error)
             alert(error instanceof Error ? error.message : 'Failed to send to HubSpot. Make sure HubSpot is connected.')
+            // A partial send still records which channels went out
+            await fetchPosts()
         }
     }
 
@@ -310,17 +455,29 @@ export function Posts() {
         if (selectedIds.size === 0) { alert('No posts selected'); return; }
 
         const postIds = Array.from(selectedIds)
+
+        // Government-facing audience: make ungrounded or unchecked claims an explicit decision
+        const needsReview = posts.filter(p => {
+            if (!selectedIds.has(p.id)) return false
+            const report = getGroundingReport(p.generation_meta)
+            return !report || isGroundingStale(report, p.body) || getUngroundedClaims(report).length > 0
+        })
+        if (needsReview.length > 0 && !confirm(`${needsReview.length} of the selected posts have ungrounded or unchecked claims. Send to HubSpot anyway?`)) {
+            return
+        }
+
         setIsBulkSendingHubSpot(true)
         setHubspotProgress({ current: 0, total: postIds.length })
 
         let successCount = 0
         let errorCount = 0
+        const channelGuids = await resolveHubSpotChannels(postIds)
 
         for (let i = 0; i < postIds.length; i++) {
             setHubspotProgress({ current: i + 1, total: postIds.length })
             try {
                 const { data, error } = await supabase.functions.invoke('hubspot-send', {
-                    body: { post_id: postIds[i], space_id: currentSpace!.id },
+                    body: { post_id: postIds[i], space_id: currentSpace!.id, channel_guids: channelGuids.get(postIds[i]) || [] },
                 })
                 if (error) throw error
                 if (data?.error) throw new Error(data.error)
@@ -396,89 +553,93 @@ export function Posts() {
         }
     }
 
-    // Bulk generate images for selected posts
-    const handleBulkGenerateImages = async () => {
-        if (selectedIds.size === 0 || !currentSpace) return
+    // Group the selected posts into a new series, numbered oldest first
+    const handleGroupIntoSeries = async () => {
+        if (!currentSpace || !user || selectedIds.size < 2 || !seriesTitle.trim()) return
 
-        setIsBulkGeneratingImages(true)
-        setBulkImageProgress({ current: 0, total: selectedIds.size })
+        const parts = posts
+            .filter(p => selectedIds.has(p.id))
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))
 
-        const postIds = Array.from(selectedIds)
-        let successCount = 0
-        let errorCount = 0
+        setIsGroupingSeries(true)
+        try {
+            const series = await groupPostsIntoSeries({
+                spaceId: currentSpace.id,
+                title: seriesTitle.trim(),
+                postIds: parts.map(p => p.id),
+                userId: user.id,
+            })
 
-        for (let i = 0; i < postIds.length; i++) {
-            const postId = postIds[i]
-            setBulkImageProgress({ current: i, total: postIds.length })
+            setPosts(prev => prev.map(p => {
+                const index = parts.findIndex(part => part.id === p.id)
+                return index >= 0 ? { ...p, series_id: series.id, series_part: index + 1, series: { title: series.title } } : p
+            }))
+            setSelectedIds(new Set())
+            setSeriesTitle('')
+            setShowSeriesModal(false)
+        } catch (error) {
+            console.error('Error creating series:', error)
+            alert(error instanceof Error ? error.message : 'Failed to create series')
+        } finally {
+            setIsGroupingSeries(false)
+        }
+    }
 
-            try {
-                // Fetch the post to get its prompt and settings
-                const { data: post, error: fetchError } = await supabase
-                    .from('posts')
-                    .select('body, image_prompt, image_settings')
-                    .eq('id', postId)
-                    .single()
-
-                if (fetchError || !post) {
-                    console.error(`Failed to fetch post ${postId}:`, fetchError)
-                    errorCount++
-                    continue
-                }
+    // Bulk generate images for selected posts
+    const handleBulkGenerateImages = async () => {
+        if (selectedIds.size === 0 || !currentSpace || !user) return
 
-                // Use image_prompt if available, otherwise generate from body
-                const prompt = post.image_prompt ||
-                    `Professional LinkedIn post image about: ${post.body?.slice(0, 200) || 'business content'}`
+        const selectedPosts = posts.filter(p => selectedIds.has(p.id))
 
-                const settings = post.image_settings || {
-                    style: 'photographic',
-                    include_people: true,
-                    include_text: false,
-                    include_logos: false,
-                    aspect_ratio: '1:1',
-                }
+        try {
+            const job = await enqueueJob({
+                spaceId: currentSpace.id,
+                userId: user.id,
+                type: 'generate_image',
+                payload: { count: 2 },
+                items: selectedPosts.map(p => ({ key: p.id, label: p.title || p.topic || 'Untitled post' })),
+            })
 
-                // Generate images for this post
-                const { data, error } = await supabase.functions.invoke('generate-post-images', {
-                    body: {
-                        post_id: postId,
-                        space_id: currentSpace.id,
-                        prompt,
-                        settings,
-                        count: 2,
-                    },
-                })
+            setImageJobId(job.id)
+            setShowImageJobModal(true)
+            setSelectedIds(new Set())
+            watchJob(job.id, handleImageJobFinished)
+        } catch (error) {
+            console.error('Error generating images:', error)
+            alert('Failed to start image generation')
+        }
+    }
 
-                if (error) {
-                    console.error(`Edge function error for post ${postId}:`, error)
-                    errorCount++
-                } else if (data?.success) {
-                    successCount++
-                    console.log(`Generated ${data.total_generated} images for post ${postId}`)
-                } else {
-                    console.error(`Generation failed for post ${postId}:`, data?.error)
-                    errorCount++
-                }
+    // Classify posts in the background; confirmed posts are skipped by the function
+    const handleBulkClassify = async (targets: Post[]) => {
+        if (!currentSpace || !user) return
 
-                // Small delay between requests to avoid rate limiting
-                await new Promise(resolve => setTimeout(resolve, 1000))
-            } catch (err) {
-                console.error(`Failed to generate images for post ${postId}:`, err)
-                errorCount++
-            }
+        const toClassify = targets.filter(p => p.body?.trim() && p.classification_status !== 'confirmed')
+        if (toClassify.length === 0) {
+            alert('No posts to classify. Posts need text, and confirmed classifications are kept.')
+            return
         }
 
-        setBulkImageProgress({ current: postIds.length, total: postIds.length })
-        setIsBulkGeneratingImages(false)
-        setImageStatusRefresh(prev => prev + 1)
-        setSelectedIds(new Set())
-        await fetchPosts()
+        try {
+            const job = await enqueueJob({
+                spaceId: currentSpace.id,
+                userId: user.id,
+                type: 'classify_posts',
+                items: toClassify.map(p => ({ key: p.id, label: p.title || p.topic || 'Untitled post' })),
+            })
 
-        // Show summary
-        if (errorCount > 0) {
-            alert(`Completed: ${successCount} successful, ${errorCount} failed. Check console for details.`)
+            setClassifyJobId(job.id)
+            setShowClassifyJobModal(true)
+            setSelectedIds(new Set())
+            watchJob(job.id, fetchPosts)
+        } catch (error) {
+            console.error('Error classifying posts:', error)
+            alert('Failed to start classification')
         }
     }
 
+    const unclassifiedPosts = posts.filter(p => !p.content_layer && p.body?.trim())
+
     // Bulk apply logos to selected posts
     const handleBulkApplyLogos = async () => {
         if (selectedIds.size === 0 || !currentSpace) return
@@ -647,9 +808,23 @@ export function Posts() {
             {/* Header */}
             <div className="flex items-center justify-between mb-6">
                 <h1 className="text-2xl font-semibold text-[var(--color-gray-900)]">All Posts</h1>
-                <Button variant="pill" onClick={() => setShowBulkGenerateModal(true)}>
-                    New post
-                </Button>
+                <div className="flex items-center gap-2">
+                    {reviewCount > 0 && (
+                        <Button variant="secondary" onClick={() => setShowReview(true)}>
+                            <ListChecks className="w-4 h-4" />
+                            Review classifications ({reviewCount})
+                        </Button>
+                    )}
+                    {duplicateCount > 0 && (
+                        <Button variant="secondary" onClick={() => setShowDuplicates(true)}>
+                            <Copy className="w-4 h-4" />
+                            Review duplicates ({duplicateCount})
+                        </Button>
+                    )}
+                    <Button variant="pill" onClick={() => setShowBulkGenerateModal(true)}>
+                        New post
+                    </Button>
+                </div>
             </div>
 
             {/* Tabs */}
@@ -688,6 +863,20 @@ export function Posts() {
                 ))}
             </div>
 
+            {/* Background image job */}
+            {imageJobId && isBulkGeneratingImages && !showImageJobModal && (
+                <div className="mb-4">
+                    <JobStatusBanner jobId={imageJobId} title="Generating images" onView={() => setShowImageJobModal(true)} />
+                </div>
+            )}
+
+            {/* Background classification job */}
+            {classifyJobId && isClassifying && !showClassifyJobModal && (
+                <div className="mb-4">
+                    <JobStatusBanner jobId={classifyJobId} title="Classifying posts" onView={() => setShowClassifyJobModal(true)} />
+                </div>
+            )}
+
             {/* Posts count and Bulk actions */}
             <div className="flex items-center gap-4 mb-4">
                 <span className="text-sm text-[var(--color-gray-600)]">
@@ -696,7 +885,7 @@ export function Posts() {
                 <div className="relative">
                     <button
                         onClick={() => setShowBulkActions(!showBulkActions)}
-                        disabled={isBulkGeneratingImages || isBulkApplyingLogos}
+                        disabled={isBulkGeneratingImages || isBulkApplyingLogos || isClassifying}
                         className="inline-flex items-center gap-1 px-3 py-1.5 rounded-md text-sm border border-[var(--color-gray-200)] text-[var(--color-gray-600)] hover:bg-[var(--color-gray-50)] disabled:opacity-50"
                     >
                         Bulk actions
@@ -737,6 +926,30 @@ export function Posts() {
                                     <Check className="w-4 h-4" />
                                     Change Status ({selectedIds.size})
                                 </button>
+                                <button
+                                    className="w-full px-4 py-2 text-left text-sm hover:bg-[var(--color-gray-50)] text-indigo-700 flex items-center gap-2"
+                                    onClick={() => { setShowBulkActions(false); setShowSeriesModal(true); }}
+                                    disabled={selectedIds.size < 2}
+                                >
+                                    <ListChecks className="w-4 h-4" />
+                                    Group into Series ({selectedIds.size})
+                                </button>
+                                <button
+                                    className="w-full px-4 py-2 text-left text-sm hover:bg-[var(--color-gray-50)] text-teal-700 flex items-center gap-2"
+                                    onClick={() => { setShowBulkActions(false); handleBulkClassify(posts.filter(p => selectedIds.has(p.id))); }}
+                                    disabled={selectedIds.size === 0}
+                                >
+                                    <Tags className="w-4 h-4" />
+                                    Classify ({selectedIds.size})
+                                </button>
+                                <button
+                                    className="w-full px-4 py-2 text-left text-sm hover:bg-[var(--color-gray-50)] text-teal-700 flex items-center gap-2"
+                                    onClick={() => { setShowBulkActions(false); handleBulkClassify(unclassifiedPosts); }}
+                                    disabled={unclassifiedPosts.length === 0}
+                                >
+                                    <Tags className="w-4 h-4" />
+                                    Classify Unclassified ({unclassifiedPosts.length})
+                                </button>
                                 <div className="border-t border-[var(--color-gray-100)] my-1" />
                                 <button
                                     className="w-full px-4 py-2 text-left text-sm hover:bg-[var(--color-gray-50)] text-orange-700 flex items-center gap-2"
@@ -809,8 +1022,19 @@ export function Posts() {
                                     className="w-4 h-4 rounded border-[var(--color-gray-300)] text-[var(--color-primary)]"
                                 />
                             </div>
-                            <div className="font-medium text-[var(--color-gray-900)]">
+                            <div className="font-medium text-[var(--color-gray-900)] flex items-center gap-2">
                                 {post.title}
+                                <GroundingBadge body={post.body} report={getGroundingReport(post.generation_meta)} />
+                                <DuplicateBadge flags={duplicateFlags[post.id] || []} />
+                                {toContentSlot(post.content_layer, post.content_category) && (
+                                    <ContentSlotBadge slot={toContentSlot(post.content_layer, post.content_category)!} />
+                                )}
+                                {post.series_id && post.series_part && (
+                                    <SeriesBadge part={post.series_part} title={post.series?.title} />
+                                )}
+                                {post.classification_status === 'needs_review' && (
+                                    <span className="text-xs font-medium text-amber-700" title="Low-confidence classification">Review</span>
+                                )}
                             </div>
                             <div className="relative">
                                 <button
@@ -882,9 +1106,19 @@ export function Posts() {
                                 <button
                                     className="p-1.5 rounded hover:bg-[var(--color-gray-100)] text-[var(--color-gray-400)] hover:text-[var(--color-gray-600)]"
                                     title="View/Edit"
+                                    onClick={() => { setExportPost(post); setIsEditingExport(false); setIsRewritingExport(false); }}
                                 >
                                     <Eye className="w-4 h-4" />
                                 </button>
+                                {post.body && (
+                                    <button
+                                        className="p-1.5 rounded hover:bg-[var(--color-gray-100)] text-[var(--color-gray-400)] hover:text-[var(--color-gray-600)]"
+                                        title="Rewrite with AI"
+                                        onClick={() => { setExportPost(post); setIsEditingExport(false); setIsRewritingExport(true); }}
+                                    >
+                                        <Wand2 className="w-4 h-4" />
+                                    </button>
+                                )}
                                 <button
                                     className="p-1.5 rounded hover:bg-[var(--color-gray-100)] text-[var(--color-gray-400)] hover:text-[var(--color-gray-600)]"
                                 >
@@ -919,7 +1153,7 @@ export function Posts() {
             {/* Export Modal */}
             <Modal
                 isOpen={!!exportPost}
-                onClose={() => { setExportPost(null); setCopiedText(false); }}
+                onClose={() => { setExportPost(null); setCopiedText(false); setIsEditingExport(false); setIsRewritingExport(false); }}
                 title="Export Post"
                 size="lg"
             >
@@ -929,33 +1163,83 @@ export function Posts() {
                         <div>
                             <div className="flex items-center justify-between mb-2">
                                 <h3 className="font-medium text-[var(--color-gray-700)]">Post Text</h3>
-                                <Button
-                                    variant="secondary"
-                                    size="sm"
-                                    onClick={async () => {
-                                        await navigator.clipboard.writeText(exportPost.body || '')
-                                        setCopiedText(true)
-                                        setTimeout(() => setCopiedText(false), 2000)
-                                    }}
-                                >
-                                    {copiedText ? (
-                                        <>
-                                            <Check className="w-4 h-4 text-green-500" />
-                                            Copied!
-                                        </>
-                                    ) : (
+                                <div className="flex items-center gap-2">
+                                    {!isEditingExport && !isRewritingExport && (
                                         <>
-                                            <Copy className="w-4 h-4" />
-                                            Copy Text
+                                            <Button variant="secondary" size="sm" onClick={() => setIsEditingExport(true)}>
+                                                <Pencil className="w-4 h-4" />
+                                                Edit
+                                            </Button>
+                                            {exportPost.body && (
+                                                <Button variant="secondary" size="sm" onClick={() => setIsRewritingExport(true)}>
+                                                    <Wand2 className="w-4 h-4" />
+                                                    Rewrite
+                                                </Button>
+                                            )}
                                         </>
                                     )}
-                                </Button>
-                            </div>
-                            <div className="bg-[var(--color-gray-50)] rounded-lg p-4 text-sm text-[var(--color-gray-700)] whitespace-pre-wrap max-h-48 overflow-y-auto">
-                                {exportPost.body || 'No content yet'}
+                                    <Button
+                                        variant="secondary"
+                                        size="sm"
+                                        onClick={async () => {
+                                            await navigator.clipboard.writeText(exportPost.body || '')
+                                            setCopiedText(true)
+                                            setTimeout(() => setCopiedText(false), 2000)
+                                        }}
+                                    >
+                                        {copiedText ? (
+                                            <>
+                                                <Check className="w-4 h-4 text-green-500" />
+                                                Copied!
+                                            </>
+                                        ) : (
+                                            <>
+                                                <Copy className="w-4 h-4" />
+                                                Copy Text
+                                            </>
+                                        )}
+                                    </Button>
+                                </div>
                             </div>
+                            {isEditingExport ? (
+                                <PostBodyEditor
+                                    postId={exportPost.id}
+                                    spaceId={exportPost.space_id}
+                                    title={exportPost.title}
+                                    body={exportPost.body}
+                                    onSaved={handleExportBodySaved}
+                                    onCancel={() => setIsEditingExport(false)}
+                                />
+                            ) : isRewritingExport ? (
+                                <PostRewrite
+                                    post={exportPost}
+                                    onAccepted={handleExportRewritten}
+                                    onCancel={() => setIsRewritingExport(false)}
+                                />
+                            ) : (
+                                <GroundedPostBody
+                                    body={exportPost.body}
+                                    report={getGroundingReport(exportPost.generation_meta)}
+                                    className="bg-[var(--color-gray-50)] rounded-lg p-4 text-sm text-[var(--color-gray-700)] whitespace-pre-wrap max-h-48 overflow-y-auto"
+                                />
+                            )}
                         </div>
 
+                        <GroundingPanel
+                            postId={exportPost.id}
+                            body={exportPost.body}
+                            report={getGroundingReport(exportPost.generation_meta)}
+                            onVerified={handleGroundingVerified}
+                        />
+
+                        <ChannelVariants key={`channels-${exportPost.id}`} post={exportPost} />
+
+                        <PostRevisions
+                            key={exportPost.id}
+                            post={exportPost}
+                            onRestored={handleExportRestored}
+                        />
+
                         {/* Image Section */}
                         <div>
                             <div className="flex items-center justify-between mb-2">
@@ -1009,7 +1293,7 @@ export function Posts() {
 
                         {/* Close button */}
                         <div className="flex justify-end pt-4 border-t border-[var(--color-gray-200)]">
-                            <Button variant="secondary" onClick={() => { setExportPost(null); setCopiedText(false); }}>
+                            <Button variant="secondary" onClick={() => { setExportPost(null); setCopiedText(false); setIsEditingExport(false); }}>
                                 Close
                             </Button>
                         </div>
@@ -1132,52 +1416,68 @@ export function Posts() {
                 </div>
             )}
 
-            {/* Bulk Image Generation Progress */}
-            {isBulkGeneratingImages && (
-                <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
-                    <div className="bg-white rounded-2xl max-w-lg w-full shadow-2xl p-8">
-                        <div className="flex items-center gap-4 mb-6">
-                            <div className="w-14 h-14 bg-gradient-to-br from-[var(--color-primary)] to-[var(--color-secondary)] rounded-xl flex items-center justify-center">
-                                <Sparkles className="w-7 h-7 text-white animate-pulse" />
-                            </div>
-                            <div>
-                                <h3 className="text-xl font-bold text-[var(--color-gray-900)]">Generating Images</h3>
-                                <p className="text-sm text-[var(--color-gray-500)]">
-                                    {bulkImageProgress.current} of {bulkImageProgress.total} posts complete
-                                </p>
-                            </div>
-                        </div>
+            {/* Group into Series Modal */}
+            <Modal
+                isOpen={showSeriesModal}
+                onClose={() => setShowSeriesModal(false)}
+                title="Group into Series"
+                size="sm"
+                footer={
+                    <>
+                        <Button variant="secondary" onClick={() => setShowSeriesModal(false)}>Cancel</Button>
+                        <Button onClick={handleGroupIntoSeries} isLoading={isGroupingSeries} disabled={!seriesTitle.trim() || selectedIds.size < 2}>
+                            Create Series
+                        </Button>
+                    </>
+                }
+            >
+                <div className="space-y-3">
+                    <Input
+                        label="Series title"
+                        value={seriesTitle}
+                        onChange={(e) => setSeriesTitle(e.target.value)}
+                        placeholder="e.g. Moving a records system to the cloud"
+                        autoFocus
+                    />
+                    <p className="text-sm text-[var(--color-gray-500)]">
+                        The {selectedIds.size} selected posts become parts 1 to {selectedIds.size}, oldest first. Reorder and schedule them on the Series page.
+                    </p>
+                </div>
+            </Modal>
 
-                        <div className="mb-6">
-                            <div className="flex justify-between text-sm mb-2">
-                                <span className="text-[var(--color-gray-500)]">Progress</span>
-                                <span className="font-semibold text-[var(--color-primary)]">
-                                    {bulkImageProgress.total > 0 ? Math.round((bulkImageProgress.current / bulkImageProgress.total) * 100) : 0}%
-                                </span>
-                            </div>
-                            <div className="h-4 bg-[var(--color-gray-200)] rounded-full overflow-hidden">
-                                <div
-                                    className="h-full bg-gradient-to-r from-[var(--color-primary)] to-[var(--color-secondary)] transition-all duration-500 relative"
-                                    style={{ width: `${bulkImageProgress.total > 0 ? (bulkImageProgress.current / bulkImageProgress.total) * 100 : 0}%` }}
-                                >
-                                    <div className="absolute inset-0 bg-white/20 animate-pulse" />
-                                </div>
-                            </div>
-                        </div>
+            {/* Bulk Image Generation Job Progress */}
+            {imageJobId && showImageJobModal && (
+                <JobProgressModal
+                    jobId={imageJobId}
+                    title="Generating Images"
+                    onClose={() => setShowImageJobModal(false)}
+                />
+            )}
 
-                        <div className="bg-blue-50 rounded-xl p-4 flex items-center gap-3">
-                            <Loader2 className="w-5 h-5 text-blue-600 animate-spin flex-shrink-0" />
-                            <div>
-                                <div className="text-sm font-medium text-blue-900">Processing post {bulkImageProgress.current + 1}...</div>
-                                <div className="text-xs text-blue-600">AI is creating unique images for each post</div>
-                            </div>
-                        </div>
+            {classifyJobId && showClassifyJobModal && (
+                <JobProgressModal
+                    jobId={classifyJobId}
+                    title="Classifying Posts"
+                    onClose={() => setShowClassifyJobModal(false)}
+                />
+            )}
 
-                        <p className="text-xs text-center text-[var(--color-gray-400)] mt-4">
-                            ⚡ Images are saved automatically as they complete
-                        </p>
-                    </div>
-                </div>
+            {currentSpace && (
+                <ClassificationReview
+                    spaceId={currentSpace.id}
+                    isOpen={showReview}
+                    onClose={() => setShowReview(false)}
+                    onChanged={fetchPosts}
+                />
+            )}
+
+            {currentSpace && (
+                <DuplicateReview
+                    spaceId={currentSpace.id}
+                    isOpen={showDuplicates}
+                    onClose={() => setShowDuplicates(false)}
+                    onChanged={fetchPosts}
+                />
             )}
 
             {/* Bulk HubSpot Send Progress */}
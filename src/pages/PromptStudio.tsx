@@ -1,13 +1,25 @@
-import { useState, useEffect, useCallback } from 'react'
-import { Plus, Save, Check, Wand2, Image as ImageIcon } from 'lucide-react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Plus, Save, Check, Wand2, Image as ImageIcon, Eye, AlertTriangle } from 'lucide-react'
 import { Button, Input, Textarea, Modal } from '@/components/ui'
 import { supabase } from '@/lib/supabase'
+import {
+    TEMPLATE_VARIABLES,
+    DEFAULT_TEXT_TEMPLATE,
+    DEFAULT_IMAGE_TEMPLATE,
+    buildTemplateVariables,
+    renderTemplate,
+    type TemplateVariableInput,
+} from '@/lib/prompt-template'
+import { DEFAULT_STYLE_RULES, normaliseStyleRules, styleAdjustedSettings, type StyleRules } from '@/lib/style-rules'
 import { useSpaceStore } from '@/stores/spaceStore'
 import { useAuthStore } from '@/stores/authStore'
 import type { Database, PromptType } from '@/types/database'
 
 type PromptTemplate = Database['public']['Tables']['prompt_templates']['Row']
 
+const SAMPLE_TOPIC = 'Why small pilots beat big-bang rollouts'
+const SAMPLE_POST_BODY = 'Most transformation programmes fail quietly. Not because the idea was wrong, but because nobody tested it with real users first...'
+
 export function PromptStudio() {
     const { currentSpace } = useSpaceStore()
     const { user } = useAuthStore()
@@ -22,6 +34,12 @@ export function PromptStudio() {
     const [editTemplate, setEditTemplate] = useState('')
     const [editType, setEditType] = useState<PromptType>('linkedin_text')
 
+    // Preview state - render the template against a real campaign
+    const [sampleCampaigns, setSampleCampaigns] = useState<{ id: string; name: string }[]>([])
+    const [sampleCampaignId, setSampleCampaignId] = useState('')
+    const [sampleInput, setSampleInput] = useState<TemplateVariableInput>({ topic: SAMPLE_TOPIC, postBody: SAMPLE_POST_BODY })
+    const [styleRules, setStyleRules] = useState<StyleRules>(DEFAULT_STYLE_RULES)
+
     const fetchTemplates = useCallback(async () => {
         if (!currentSpace) return
 
@@ -51,6 +69,60 @@ export function PromptStudio() {
         fetchTemplates()
     }, [fetchTemplates])
 
+    // Brand profile and campaign list for the preview
+    useEffect(() => {
+        if (!currentSpace) return
+
+        const loadPreviewSources = async () => {
+            const [{ data: campaigns }, { data: profile }, { data: cache }, { data: styleRow }] = await Promise.all([
+                supabase.from('campaigns').select('id, name').eq('space_id', currentSpace.id).order('created_at', { ascending: false }),
+                supabase.from('brand_profile').select('who_we_are, what_we_do, who_we_serve, tone_notes, services, themes').eq('space_id', currentSpace.id).maybeSingle(),
+                supabase.from('brand_context_cache').select('detected_name').eq('space_id', currentSpace.id).maybeSingle(),
+                supabase.from('style_rules').select('rules').eq('space_id', currentSpace.id).maybeSingle(),
+            ])
+
+            setSampleCampaigns(campaigns || [])
+            setSampleCampaignId(prev => prev || campaigns?.[0]?.id || '')
+            setSampleInput(prev => ({ ...prev, brandProfile: profile, brandName: cache?.detected_name }))
+            setStyleRules(normaliseStyleRules(styleRow?.rules))
+        }
+
+        loadPreviewSources()
+    }, [currentSpace])
+
+    // Sample topic and post body come from the chosen campaign
+    useEffect(() => {
+        if (!sampleCampaignId) {
+            setSampleInput(prev => ({ ...prev, campaign: null, topic: SAMPLE_TOPIC, postBody: SAMPLE_POST_BODY }))
+            return
+        }
+
+        const loadSampleCampaign = async () => {
+            const [{ data: campaign }, { data: samplePosts }, { data: ideas }] = await Promise.all([
+                supabase.from('campaigns').select('name, generation_settings').eq('id', sampleCampaignId).single(),
+                supabase.from('posts').select('topic, body').eq('campaign_id', sampleCampaignId).not('body', 'is', null).limit(1),
+                supabase.from('ideas').select('title').eq('campaign_id', sampleCampaignId).order('created_at', { ascending: true }).limit(1),
+            ])
+
+            setSampleInput(prev => ({
+                ...prev,
+                campaign,
+                topic: samplePosts?.[0]?.topic || ideas?.[0]?.title || SAMPLE_TOPIC,
+                postBody: samplePosts?.[0]?.body || SAMPLE_POST_BODY,
+            }))
+        }
+
+        loadSampleCampaign()
+    }, [sampleCampaignId])
+
+    // House style overrides the campaign's emoji and hashtag settings, as it does at generation time
+    const preview = useMemo(() => {
+        const campaign = sampleInput.campaign
+            ? { ...sampleInput.campaign, generation_settings: styleAdjustedSettings(sampleInput.campaign.generation_settings || {}, styleRules) }
+            : sampleInput.campaign
+        return renderTemplate(editTemplate, buildTemplateVariables({ ...sampleInput, campaign }))
+    }, [editTemplate, sampleInput, styleRules])
+
     const selectTemplate = (template: PromptTemplate) => {
         setSelectedTemplate(template)
         setEditName(template.name)
@@ -113,19 +185,7 @@ export function PromptStudio() {
         if (!currentSpace || !user) return
 
         try {
-            const defaultTemplate = type === 'linkedin_text'
-                ? `Write a LinkedIn post about {topic}.
-
-Target audience: {audience}
-Tone: {tone_notes}
-Additional constraints: {constraints}
-
-The post should be engaging, professional, and include a call to action.`
-                : `Create a professional image for a LinkedIn post about {topic}.
-
-Style: Modern, clean, corporate
-Colors: Professional blues and whites
-Include: Relevant iconography and subtle branding elements`
+            const defaultTemplate = type === 'linkedin_text' ? DEFAULT_TEXT_TEMPLATE : DEFAULT_IMAGE_TEMPLATE
 
             const { error } = await supabase
                 .from('prompt_templates')
@@ -260,15 +320,63 @@ Include: Relevant iconography and subtle branding elements`
                                         Available Variables
                                     </h3>
                                     <div className="flex flex-wrap gap-2">
-                                        {['{topic}', '{audience}', '{tone_notes}', '{constraints}', '{post_body}'].map((v) => (
+                                        {TEMPLATE_VARIABLES.map((v) => (
                                             <code
-                                                key={v}
-                                                className="px-2 py-1 bg-white rounded text-xs text-[var(--color-primary)] border border-[var(--color-gray-200)]"
+                                                key={v.name}
+                                                title={v.description}
+                                                className={`px-2 py-1 bg-white rounded text-xs border ${preview.used.includes(v.name)
+                                                    ? 'text-green-700 border-green-300'
+                                                    : 'text-[var(--color-primary)] border-[var(--color-gray-200)]'
+                                                    }`}
                                             >
-                                                {v}
+                                                {`{${v.name}}`}
                                             </code>
                                         ))}
                                     </div>
+                                    <p className="text-xs text-[var(--color-gray-400)] mt-2">
+                                        Use {'{{'} and {'}}'} for literal braces. Hover a variable for its source.
+                                    </p>
+                                </div>
+
+                                {/* Live Preview */}
+                                <div className="border border-[var(--color-gray-200)] rounded-lg">
+                                    <div className="px-4 py-3 border-b border-[var(--color-gray-200)] flex items-center justify-between gap-4">
+                                        <div className="flex items-center gap-2">
+                                            <Eye className="w-4 h-4 text-[var(--color-gray-500)]" />
+                                            <h3 className="font-medium text-sm text-[var(--color-gray-700)]">Preview</h3>
+                                        </div>
+                                        <select
+                                            value={sampleCampaignId}
+                                            onChange={(e) => setSampleCampaignId(e.target.value)}
+                                            className="text-sm border border-[var(--color-gray-300)] rounded-lg px-2 py-1 max-w-[60%]"
+                                        >
+                                            <option value="">Sample data (no campaign)</option>
+                                            {sampleCampaigns.map(c => (
+                                                <option key={c.id} value={c.id}>{c.name}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+
+                                    {(preview.unknown.length > 0 || preview.missing.length > 0) && (
+                                        <div className="px-4 py-3 border-b border-[var(--color-gray-200)] space-y-1">
+                                            {preview.unknown.length > 0 && (
+                                                <p className="flex items-start gap-2 text-xs text-red-700">
+                                                    <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                                                    Unknown variables (sent as typed): {preview.unknown.map(v => `{${v}}`).join(', ')}
+                                                </p>
+                                            )}
+                                            {preview.missing.length > 0 && (
+                                                <p className="flex items-start gap-2 text-xs text-amber-700">
+                                                    <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                                                    No value for this campaign (rendered empty): {preview.missing.map(v => `{${v}}`).join(', ')}
+                                                </p>
+                                            )}
+                                        </div>
+                                    )}
+
+                                    <pre className="px-4 py-3 text-xs text-[var(--color-gray-700)] whitespace-pre-wrap font-mono max-h-[300px] overflow-y-auto">
+                                        {preview.text || 'Template is empty'}
+                                    </pre>
                                 </div>
                             </div>
                         </div>
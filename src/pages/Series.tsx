@@ -0,0 +1,304 @@
+// src/pages/Series.tsx
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { ArrowDown, ArrowUp, CalendarClock, Layers, Plus, Trash2, X } from 'lucide-react'
+import { Button, StatusBadge } from '@/components/ui'
+import { JobProgressModal, JobStatusBanner } from '@/components/jobs'
+import { SeriesCreateModal, SeriesScheduleModal } from '@/components/series'
+import { supabase } from '@/lib/supabase'
+import { removeFromSeries, saveSeriesOrder, type PostSeries, type SeriesPost } from '@/lib/post-series'
+import { seriesPartLabel } from '@/lib/series'
+import type { GenerateSeriesJobPayload, Job } from '@/lib/jobs'
+import { useSpaceStore } from '@/stores/spaceStore'
+import { useAuthStore } from '@/stores/authStore'
+import { useJobStore } from '@/stores/jobStore'
+
+const POST_COLUMNS = 'id, space_id, title, body, status, series_id, series_part, scheduled_at'
+
+type SeriesPostRow = SeriesPost & { series_id: string | null }
+
+export function Series() {
+    const { currentSpace } = useSpaceStore()
+    const { user } = useAuthStore()
+    const { fetchActiveJobs, watchJob } = useJobStore()
+    const [seriesList, setSeriesList] = useState<PostSeries[]>([])
+    const [posts, setPosts] = useState<SeriesPostRow[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [savingSeriesId, setSavingSeriesId] = useState<string | null>(null)
+
+    const [showCreate, setShowCreate] = useState(false)
+    const [schedulingSeries, setSchedulingSeries] = useState<PostSeries | null>(null)
+    // Series id -> job writing its parts
+    const [seriesJobs, setSeriesJobs] = useState<Record<string, string>>({})
+    const [viewJobId, setViewJobId] = useState<string | null>(null)
+
+    const fetchSeries = useCallback(async () => {
+        if (!currentSpace) return
+
+        setIsLoading(true)
+        const { data: seriesData, error } = await supabase
+            .from('post_series')
+            .select('*')
+            .eq('space_id', currentSpace.id)
+            .order('created_at', { ascending: false })
+
+        if (error) console.error('Error fetching series:', error)
+        const seriesIds = (seriesData || []).map(s => s.id)
+
+        const { data: postData, error: postsError } = seriesIds.length > 0
+            ? await supabase
+                .from('posts')
+                .select(POST_COLUMNS)
+                .in('series_id', seriesIds)
+                .order('series_part', { ascending: true })
+            : { data: [], error: null }
+
+        if (postsError) console.error('Error fetching series posts:', postsError)
+        setSeriesList((seriesData || []) as PostSeries[])
+        setPosts((postData || []) as SeriesPostRow[])
+        setIsLoading(false)
+    }, [currentSpace])
+
+    const handleJobFinished = useCallback((job: Job) => {
+        const seriesId = (job.payload as unknown as GenerateSeriesJobPayload).series_id
+        setSeriesJobs(prev => {
+            const next = { ...prev }
+            delete next[seriesId]
+            return next
+        })
+        fetchSeries()
+    }, [fetchSeries])
+
+    useEffect(() => {
+        fetchSeries()
+    }, [fetchSeries])
+
+    // Pick up series still being written, e.g. after a reload
+    useEffect(() => {
+        if (!currentSpace) return
+
+        fetchActiveJobs(currentSpace.id).then(active => {
+            const writing = active.filter(j => j.type === 'generate_series')
+            setSeriesJobs(Object.fromEntries(writing.map(j => [(j.payload as unknown as GenerateSeriesJobPayload).series_id, j.id])))
+            writing.forEach(j => watchJob(j.id, handleJobFinished))
+        })
+    }, [currentSpace, fetchActiveJobs, watchJob, handleJobFinished])
+
+    const postsBySeries = useMemo(() => {
+        const map = new Map<string, SeriesPostRow[]>()
+        for (const post of posts) {
+            if (!post.series_id) continue
+            map.set(post.series_id, [...(map.get(post.series_id) || []), post])
+        }
+        return map
+    }, [posts])
+
+    const replaceSeriesPosts = (seriesId: string, saved: SeriesPost[]) => {
+        setPosts(prev => [
+            ...prev.filter(p => p.series_id !== seriesId),
+            ...saved.map(p => ({ ...p, series_id: seriesId })),
+        ].sort((a, b) => (a.series_part || 0) - (b.series_part || 0)))
+    }
+
+    const handleMove = async (series: PostSeries, index: number, direction: -1 | 1) => {
+        const parts = [...(postsBySeries.get(series.id) || [])]
+        const target = index + direction
+        if (target < 0 || target >= parts.length) return
+        ;[parts[index], parts[target]] = [parts[target], parts[index]]
+
+        setSavingSeriesId(series.id)
+        try {
+            replaceSeriesPosts(series.id, await saveSeriesOrder(parts, user))
+        } catch (error) {
+            console.error('Error reordering series:', error)
+            alert(error instanceof Error ? error.message : 'Failed to reorder series')
+        } finally {
+            setSavingSeriesId(null)
+        }
+    }
+
+    const handleRemovePart = async (series: PostSeries, post: SeriesPost) => {
+        if (!confirm(`Take "${post.title}" out of this series? The post itself is kept.`)) return
+
+        setSavingSeriesId(series.id)
+        try {
+            const remaining = await removeFromSeries(postsBySeries.get(series.id) || [], post.id, user)
+            setPosts(prev => prev.filter(p => p.id !== post.id))
+            replaceSeriesPosts(series.id, remaining)
+        } catch (error) {
+            console.error('Error removing post from series:', error)
+            alert(error instanceof Error ? error.message : 'Failed to remove post')
+        } finally {
+            setSavingSeriesId(null)
+        }
+    }
+
+    const handleDeleteSeries = async (series: PostSeries) => {
+        if (!confirm(`Delete the series "${series.title}"? Its posts are kept as standalone posts.`)) return
+        try {
+            const { error } = await supabase.from('post_series').delete().eq('id', series.id)
+            if (error) throw error
+            setSeriesList(prev => prev.filter(s => s.id !== series.id))
+            setPosts(prev => prev.filter(p => p.series_id !== series.id))
+        } catch (error) {
+            console.error('Error deleting series:', error)
+            alert(error instanceof Error ? error.message : 'Failed to delete series')
+        }
+    }
+
+    const handleCreated = (series: PostSeries, job: Job) => {
+        setShowCreate(false)
+        setSeriesList(prev => [series, ...prev])
+        setSeriesJobs(prev => ({ ...prev, [series.id]: job.id }))
+        setViewJobId(job.id)
+        watchJob(job.id, handleJobFinished)
+    }
+
+    if (isLoading && seriesList.length === 0) {
+        return <div className="p-8 text-center text-[var(--color-gray-400)]">Loading...</div>
+    }
+
+    return (
+        <div className="max-w-5xl mx-auto p-8">
+            <div className="flex items-start justify-between mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-[var(--color-gray-900)]">Series</h1>
+                    <p className="text-[var(--color-gray-500)] mt-1">
+                        Multi-part posts that tell one story in order. Write a series from a document, or group existing posts from All Posts.
+                    </p>
+                </div>
+                <Button onClick={() => setShowCreate(true)} disabled={!user}>
+                    <Plus className="w-4 h-4" />
+                    New Series
+                </Button>
+            </div>
+
+            {seriesList.length === 0 ? (
+                <div className="bg-white rounded-xl border border-[var(--color-gray-200)] p-12 text-center">
+                    <div className="w-16 h-16 bg-[var(--color-gray-100)] rounded-full flex items-center justify-center mx-auto mb-4">
+                        <Layers className="w-8 h-8 text-[var(--color-gray-400)]" />
+                    </div>
+                    <p className="text-[var(--color-gray-500)]">No series yet. Turn a case study or report into a numbered series.</p>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {seriesList.map(series => {
+                        const parts = postsBySeries.get(series.id) || []
+                        const jobId = seriesJobs[series.id]
+
+                        return (
+                            <div key={series.id} className="bg-white border border-[var(--color-gray-200)] rounded-xl">
+                                <div className="p-4 flex items-start justify-between gap-4 border-b border-[var(--color-gray-100)]">
+                                    <div className="min-w-0">
+                                        <h2 className="font-semibold text-[var(--color-gray-900)]">{series.title}</h2>
+                                        {series.description && <p className="text-sm text-[var(--color-gray-500)] mt-0.5">{series.description}</p>}
+                                        <p className="text-xs text-[var(--color-gray-400)] mt-1">
+                                            {parts.length} parts · every {series.spacing_days} {series.spacing_days === 1 ? 'day' : 'days'} at {series.post_time}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-1 shrink-0">
+                                        <Button
+                                            variant="secondary"
+                                            size="sm"
+                                            onClick={() => setSchedulingSeries(series)}
+                                            disabled={parts.length === 0 || !!jobId}
+                                        >
+                                            <CalendarClock className="w-4 h-4" />
+                                            Schedule
+                                        </Button>
+                                        <Button variant="ghost" size="sm" onClick={() => handleDeleteSeries(series)} title="Delete series" disabled={!!jobId}>
+                                            <Trash2 className="w-4 h-4 text-red-500" />
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                {jobId && (
+                                    <div className="p-4 border-b border-[var(--color-gray-100)]">
+                                        <JobStatusBanner jobId={jobId} title="Writing series" onView={() => setViewJobId(jobId)} />
+                                    </div>
+                                )}
+
+                                {parts.length === 0 ? (
+                                    <p className="p-4 text-sm text-[var(--color-gray-500)]">{jobId ? 'Parts are listed here once the series is written.' : 'This series has no posts.'}</p>
+                                ) : (
+                                    <div className="divide-y divide-[var(--color-gray-100)]">
+                                        {parts.map((post, i) => (
+                                            <div key={post.id} className="px-4 py-3 flex items-center gap-3">
+                                                <span className="text-xs font-medium text-[var(--color-gray-400)] w-20 shrink-0">
+                                                    {seriesPartLabel(i + 1, parts.length)}
+                                                </span>
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="text-sm text-[var(--color-gray-800)] truncate">{post.title}</p>
+                                                    {post.scheduled_at && (
+                                                        <p className="text-xs text-[var(--color-gray-400)]">
+                                                            {new Date(post.scheduled_at).toLocaleString(undefined, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                                                        </p>
+                                                    )}
+                                                </div>
+                                                <StatusBadge status={post.status} />
+                                                <div className="flex items-center">
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        onClick={() => handleMove(series, i, -1)}
+                                                        disabled={i === 0 || savingSeriesId === series.id || !!jobId}
+                                                        title="Move earlier"
+                                                    >
+                                                        <ArrowUp className="w-4 h-4" />
+                                                    </Button>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        onClick={() => handleMove(series, i, 1)}
+                                                        disabled={i === parts.length - 1 || savingSeriesId === series.id || !!jobId}
+                                                        title="Move later"
+                                                    >
+                                                        <ArrowDown className="w-4 h-4" />
+                                                    </Button>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        onClick={() => handleRemovePart(series, post)}
+                                                        disabled={savingSeriesId === series.id || !!jobId}
+                                                        title="Remove from series"
+                                                    >
+                                                        <X className="w-4 h-4 text-red-500" />
+                                                    </Button>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )
+                    })}
+                </div>
+            )}
+
+            {showCreate && currentSpace && user && (
+                <SeriesCreateModal
+                    spaceId={currentSpace.id}
+                    userId={user.id}
+                    onClose={() => setShowCreate(false)}
+                    onCreated={handleCreated}
+                />
+            )}
+
+            {schedulingSeries && (
+                <SeriesScheduleModal
+                    series={schedulingSeries}
+                    posts={postsBySeries.get(schedulingSeries.id) || []}
+                    onClose={() => setSchedulingSeries(null)}
+                    onScheduled={(saved) => {
+                        replaceSeriesPosts(schedulingSeries.id, saved)
+                        setSchedulingSeries(null)
+                        fetchSeries()
+                    }}
+                />
+            )}
+
+            {viewJobId && (
+                <JobProgressModal jobId={viewJobId} title="Writing series" onClose={() => setViewJobId(null)} />
+            )}
+        </div>
+    )
+}
@@ -11,10 +11,19 @@ import {
     useSensors,
 } from '@dnd-kit/core'
 import { CSS } from '@dnd-kit/utilities'
-import { ChevronLeft, ChevronRight, Calendar, GripVertical, Search, X, Clock, Share2 } from 'lucide-react'
+import { ChevronLeft, ChevronRight, Calendar, GripVertical, Search, X, Clock, Share2, Wand2, Layers } from 'lucide-react'
 import { Button } from '@/components/ui'
+import { PostRevisions } from '@/components/posts/PostRevisions'
+import { PostRewrite } from '@/components/posts/PostRewrite'
+import { SeriesScheduleModal } from '@/components/series'
 import { supabase } from '@/lib/supabase'
 import { useSpaceStore } from '@/stores/spaceStore'
+import { useAuthStore } from '@/stores/authStore'
+import { buildRevision } from '@/lib/revisions'
+import { classifyAfterEdit } from '@/lib/classify-post'
+import { checkDuplicatesAfterEdit } from '@/lib/check-duplicates'
+import type { PostSeries, SeriesPost } from '@/lib/post-series'
+import { CHANNELS } from '@/lib/channels'
 import { getLayerColor, LAYER_LABELS } from '@/lib/content-layers'
 import { CONTENT_LAYERS, CONTENT_CATEGORIES, type ContentLayer, type ContentCategory } from '@/types/database'
 
@@ -22,26 +31,24 @@ import { CONTENT_LAYERS, CONTENT_CATEGORIES, type ContentLayer, type ContentCate
 
 interface CalendarPost {
     id: string
+    space_id: string
     title: string
     body: string | null
     status: string
+    generation_meta: unknown
     content_layer: ContentLayer | null
     content_category: string | null
     scheduled_at: string | null
     campaign: { name: string } | null
+    series_id: string | null
+    series_part: number | null
+    series: { title: string } | null
     image_status: string
     generated_image_path: string | null
     final_image_path: string | null
     post_images: { count: number }[]
 }
 
-const CHANNELS = [
-    { id: 'linkedin', label: 'LinkedIn', icon: 'in' },
-    { id: 'facebook', label: 'Facebook', icon: 'fb' },
-    { id: 'instagram', label: 'Instagram', icon: 'ig' },
-    { id: 'x', label: 'X / Twitter', icon: 'X' },
-] as const
-
 // ── Date Helpers ─────────────────────────────────────
 
 function getMonthDays(year: number, month: number) {
@@ -111,9 +118,11 @@ function DraggablePostCard({ post, isOverlay = false, onClick }: { post: Calenda
                 <div className={`w-2 h-2 rounded-full shrink-0 ${layerColor.dot}`} />
                 <span className={`font-medium truncate ${layerColor.text}`}>{post.title}</span>
             </div>
-            {post.content_layer && (
+            {(post.content_layer || post.series_part) && (
                 <p className="text-[10px] text-[var(--color-gray-400)] mt-0.5 ml-[26px] truncate">
-                    {LAYER_LABELS[post.content_layer] || post.content_layer}
+                    {post.content_layer && (LAYER_LABELS[post.content_layer] || post.content_layer)}
+                    {post.content_layer && post.series_part && ' · '}
+                    {post.series_part && `Part ${post.series_part}`}
                 </p>
             )}
         </div>
@@ -154,6 +163,9 @@ function SidebarPostCard({ post, onClick }: { post: CalendarPost; onClick?: () =
                         {post.campaign?.name && (
                             <span className="text-[10px] text-[var(--color-gray-400)]">{post.campaign.name}</span>
                         )}
+                        {post.series && post.series_part && (
+                            <span className="text-[10px] text-[var(--color-gray-400)]">Part {post.series_part} of {post.series.title}</span>
+                        )}
                     </div>
                 </div>
             </div>
@@ -315,6 +327,7 @@ function UnscheduledSidebar({ posts, layerFilter, onLayerFilterChange, contentTy
 
 export function SocialCalendar() {
     const { currentSpace } = useSpaceStore()
+    const { user } = useAuthStore()
     const today = new Date()
     const [currentMonth, setCurrentMonth] = useState(today.getMonth())
     const [currentYear, setCurrentYear] = useState(today.getFullYear())
@@ -330,7 +343,11 @@ export function SocialCalendar() {
     const [modalLayer, setModalLayer] = useState<ContentLayer | ''>('')
     const [modalCategory, setModalCategory] = useState<ContentCategory | ''>('')
     const [modalDate, setModalDate] = useState('')
+    const [modalTitle, setModalTitle] = useState('')
+    const [modalBody, setModalBody] = useState('')
+    const [isRewriting, setIsRewriting] = useState(false)
     const [isSavingModal, setIsSavingModal] = useState(false)
+    const [seriesToSchedule, setSeriesToSchedule] = useState<{ series: PostSeries; posts: SeriesPost[] } | null>(null)
 
     const sensors = useSensors(
         useSensor(PointerSensor, { activationConstraint: { distance: 5 } })
@@ -341,7 +358,7 @@ export function SocialCalendar() {
         setIsLoading(true)
         const { data } = await supabase
             .from('posts')
-            .select('id, title, body, status, content_layer, content_category, scheduled_at, campaign:campaigns(name), image_status, generated_image_path, final_image_path, post_images(count)')
+            .select('id, space_id, title, body, status, generation_meta, content_layer, content_category, scheduled_at, campaign:campaigns(name), series_id, series_part, series:post_series(title), image_status, generated_image_path, final_image_path, post_images(count)')
             .eq('space_id', currentSpace.id)
             .in('status', ['draft', 'ready_to_publish', 'scheduled', 'published', 'sent_to_hubspot'])
             .order('created_at', { ascending: false })
@@ -349,6 +366,7 @@ export function SocialCalendar() {
         const normalized = (data || []).map((p: any) => ({
             ...p,
             campaign: Array.isArray(p.campaign) ? p.campaign[0] || null : p.campaign,
+            series: Array.isArray(p.series) ? p.series[0] || null : p.series,
         }))
         setPosts(normalized)
         setIsLoading(false)
@@ -401,6 +419,9 @@ export function SocialCalendar() {
 
     const openPostModal = (post: CalendarPost) => {
         setSelectedPost(post)
+        setModalTitle(post.title)
+        setModalBody(post.body || '')
+        setIsRewriting(false)
         setModalLayer((post.content_layer || '') as ContentLayer | '')
         setModalCategory((post.content_category || '') as ContentCategory | '')
         if (post.scheduled_at) {
@@ -424,6 +445,16 @@ export function SocialCalendar() {
                 updated_at: new Date().toISOString(),
             }
 
+            // A layer/category chosen by hand is kept from then on
+            const classificationChanged = (modalLayer || null) !== selectedPost.content_layer
+                || (modalCategory || null) !== selectedPost.content_category
+            if (classificationChanged) {
+                updates.classification_status = modalLayer ? 'confirmed' : null
+                updates.content_confidence = null
+                updates.classification_meta = modalLayer ? { source: 'manual' } : {}
+                updates.classified_at = modalLayer ? new Date().toISOString() : null
+            }
+
             if (modalDate) {
                 const [h, m] = modalTime.split(':').map(Number)
                 const scheduled = new Date(`${modalDate}T${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:00`)
@@ -436,7 +467,32 @@ export function SocialCalendar() {
                 updates.hubspot_meta = { channels: modalChannels }
             }
 
-            await supabase.from('posts').update(updates).eq('id', selectedPost.id)
+            const textChanged = modalTitle.trim() !== selectedPost.title || modalBody !== (selectedPost.body || '')
+            if (textChanged) {
+                updates.title = modalTitle.trim() || selectedPost.title
+                updates.body = modalBody
+            }
+
+            const { error } = await supabase.from('posts').update(updates).eq('id', selectedPost.id)
+            if (error) throw error
+
+            if (textChanged) {
+                const { error: revisionError } = await supabase
+                    .from('post_revisions')
+                    .insert(buildRevision({
+                        postId: selectedPost.id,
+                        spaceId: selectedPost.space_id,
+                        title: updates.title,
+                        body: updates.body,
+                        source: 'manual_edit',
+                        authorId: user?.id,
+                        authorEmail: user?.email,
+                    }))
+                if (revisionError) console.error('Error recording revision:', revisionError)
+
+                if (!classificationChanged) classifyAfterEdit(selectedPost.id, selectedPost.body, updates.body)
+                checkDuplicatesAfterEdit(selectedPost.id, selectedPost.body, updates.body)
+            }
 
             // Optimistic update
             setPosts(prev => prev.map(p => p.id === selectedPost.id ? { ...p, ...updates } : p))
@@ -448,6 +504,52 @@ export function SocialCalendar() {
         }
     }
 
+    // A restored revision replaces the text both in the list and in the open form
+    const handlePostRestored = (changes: { title: string; body: string | null }) => {
+        if (!selectedPost) return
+        setSelectedPost({ ...selectedPost, ...changes })
+        setPosts(prev => prev.map(p => p.id === selectedPost.id ? { ...p, ...changes } : p))
+        setModalTitle(changes.title)
+        setModalBody(changes.body || '')
+    }
+
+    const handlePostRewritten = (changes: { body: string; generation_meta: Record<string, unknown> }) => {
+        if (!selectedPost) return
+        setSelectedPost({ ...selectedPost, ...changes })
+        setPosts(prev => prev.map(p => p.id === selectedPost.id ? { ...p, ...changes } : p))
+        setModalBody(changes.body)
+        setIsRewriting(false)
+    }
+
+    // Schedule every part of the open post's series as a block
+    const openSeriesSchedule = async (post: CalendarPost) => {
+        if (!post.series_id) return
+
+        const [seriesResult, partsResult] = await Promise.all([
+            supabase.from('post_series').select('*').eq('id', post.series_id).single(),
+            supabase
+                .from('posts')
+                .select('id, space_id, title, body, status, series_part, scheduled_at')
+                .eq('series_id', post.series_id)
+                .order('series_part', { ascending: true }),
+        ])
+
+        if (seriesResult.error || partsResult.error) {
+            console.error('Error loading series:', seriesResult.error || partsResult.error)
+            alert('Failed to load the series')
+            return
+        }
+
+        setSeriesToSchedule({ series: seriesResult.data as PostSeries, posts: (partsResult.data || []) as SeriesPost[] })
+    }
+
+    const handleSeriesScheduled = (saved: SeriesPost[]) => {
+        const byId = new Map(saved.map(p => [p.id, p]))
+        setPosts(prev => prev.map(p => byId.has(p.id) ? { ...p, scheduled_at: byId.get(p.id)!.scheduled_at, status: byId.get(p.id)!.status } : p))
+        setSeriesToSchedule(null)
+        setSelectedPost(null)
+    }
+
     const toggleChannel = (ch: string) => {
         setModalChannels(prev => prev.includes(ch) ? prev.filter(c => c !== ch) : [...prev, ch])
     }
@@ -597,13 +699,52 @@ export function SocialCalendar() {
                                 </div>
                             )}
 
-                            {/* Body text */}
-                            {selectedPost.body && (
-                                <div>
-                                    <label className="block text-[10px] font-medium text-[var(--color-gray-400)] uppercase tracking-wider mb-1">Post Content</label>
-                                    <p className="text-sm text-[var(--color-gray-700)] whitespace-pre-wrap line-clamp-6">{selectedPost.body}</p>
+                            {/* Title and body text */}
+                            <div>
+                                <label className="block text-[10px] font-medium text-[var(--color-gray-400)] uppercase tracking-wider mb-1">Title</label>
+                                <input
+                                    type="text"
+                                    value={modalTitle}
+                                    onChange={e => setModalTitle(e.target.value)}
+                                    className="w-full px-3 py-2 text-sm border border-[var(--color-gray-300)] rounded-lg focus:outline-none focus:border-[var(--color-primary)] focus:ring-1 focus:ring-[var(--color-primary)]/20"
+                                />
+                            </div>
+                            <div>
+                                <div className="flex items-center justify-between mb-1">
+                                    <label className="block text-[10px] font-medium text-[var(--color-gray-400)] uppercase tracking-wider">Post Content</label>
+                                    {!isRewriting && selectedPost.body && (
+                                        <button
+                                            onClick={() => setIsRewriting(true)}
+                                            disabled={modalBody !== selectedPost.body}
+                                            title={modalBody !== selectedPost.body ? 'Save your edits before rewriting' : 'Rewrite with AI'}
+                                            className="flex items-center gap-1 text-xs font-medium text-[var(--color-primary)] hover:underline disabled:text-[var(--color-gray-400)] disabled:no-underline"
+                                        >
+                                            <Wand2 className="w-3 h-3" />
+                                            Rewrite
+                                        </button>
+                                    )}
                                 </div>
-                            )}
+                                {isRewriting ? (
+                                    <PostRewrite
+                                        post={selectedPost}
+                                        onAccepted={handlePostRewritten}
+                                        onCancel={() => setIsRewriting(false)}
+                                    />
+                                ) : (
+                                    <textarea
+                                        value={modalBody}
+                                        onChange={e => setModalBody(e.target.value)}
+                                        rows={6}
+                                        className="w-full px-3 py-2 text-sm text-[var(--color-gray-700)] border border-[var(--color-gray-300)] rounded-lg resize-y focus:outline-none focus:border-[var(--color-primary)] focus:ring-1 focus:ring-[var(--color-primary)]/20"
+                                    />
+                                )}
+                            </div>
+
+                            <PostRevisions
+                                key={selectedPost.id}
+                                post={selectedPost}
+                                onRestored={handlePostRestored}
+                            />
 
                             {/* Schedule: Date + Time */}
                             <div>
@@ -624,6 +765,15 @@ export function SocialCalendar() {
                                         className="w-28 px-3 py-2 text-sm border border-[var(--color-gray-300)] rounded-lg focus:outline-none focus:border-[var(--color-primary)] focus:ring-1 focus:ring-[var(--color-primary)]/20"
                                     />
                                 </div>
+                                {selectedPost.series_id && (
+                                    <button
+                                        onClick={() => openSeriesSchedule(selectedPost)}
+                                        className="flex items-center gap-1 mt-2 text-xs font-medium text-[var(--color-primary)] hover:underline"
+                                    >
+                                        <Layers className="w-3 h-3" />
+                                        Part {selectedPost.series_part}{selectedPost.series ? ` of ${selectedPost.series.title}` : ''}: schedule the whole series
+                                    </button>
+                                )}
                             </div>
 
                             {/* Channels */}
@@ -689,6 +839,16 @@ export function SocialCalendar() {
                 </div>
             )}
 
+            {seriesToSchedule && (
+                <SeriesScheduleModal
+                    series={seriesToSchedule.series}
+                    posts={seriesToSchedule.posts}
+                    initialDate={modalDate || undefined}
+                    onClose={() => setSeriesToSchedule(null)}
+                    onScheduled={handleSeriesScheduled}
+                />
+            )}
+
             <DragOverlay>
                 {activePost ? <DraggablePostCard post={activePost} isOverlay /> : null}
             </DragOverlay>
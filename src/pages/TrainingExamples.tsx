@@ -0,0 +1,288 @@
+// src/pages/TrainingExamples.tsx
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+import { ArrowLeft, Check, Download, GraduationCap, Pencil, Trash2, Undo2 } from 'lucide-react'
+import { Button, Input, Modal, Textarea } from '@/components/ui'
+import { supabase } from '@/lib/supabase'
+import {
+    TRAINING_EXAMPLE_CATEGORY_LABELS,
+    TRAINING_EXAMPLE_STATUS_LABELS,
+    buildFineTuningJsonl,
+    isTrainingExampleCategory,
+    type TrainingExampleStatus,
+} from '@/lib/training-examples'
+import { useSpaceStore } from '@/stores/spaceStore'
+import { useAuthStore } from '@/stores/authStore'
+import type { Database } from '@/types/database'
+
+type TrainingExample = Database['public']['Tables']['training_examples']['Row']
+
+type StatusFilter = TrainingExampleStatus | 'all'
+
+const STATUS_TABS: StatusFilter[] = ['pending', 'approved', 'all']
+
+const selectClassName = 'px-3 py-2 border border-[var(--color-gray-300)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--color-primary)]/30 focus:border-[var(--color-primary)]'
+
+function categoryLabel(category: string | null): string {
+    if (!category) return 'Uncategorised'
+    return isTrainingExampleCategory(category) ? TRAINING_EXAMPLE_CATEGORY_LABELS[category] : category
+}
+
+export function TrainingExamples() {
+    const { currentSpace } = useSpaceStore()
+    const { user } = useAuthStore()
+    const [examples, setExamples] = useState<TrainingExample[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('pending')
+    const [categoryFilter, setCategoryFilter] = useState('')
+    const [search, setSearch] = useState('')
+    const [editing, setEditing] = useState<TrainingExample | null>(null)
+    const [editUser, setEditUser] = useState('')
+    const [editResponse, setEditResponse] = useState('')
+    const [isSaving, setIsSaving] = useState(false)
+
+    const fetchExamples = useCallback(async () => {
+        if (!currentSpace) return
+
+        setIsLoading(true)
+        const { data, error } = await supabase
+            .from('training_examples')
+            .select('*')
+            .eq('space_id', currentSpace.id)
+            .order('created_at', { ascending: false })
+
+        if (error) console.error('Error fetching training examples:', error)
+        setExamples((data || []) as TrainingExample[])
+        setIsLoading(false)
+    }, [currentSpace])
+
+    useEffect(() => {
+        fetchExamples()
+    }, [fetchExamples])
+
+    const statusCounts = useMemo(() => {
+        const counts: Record<StatusFilter, number> = { pending: 0, approved: 0, all: examples.length }
+        examples.forEach(example => counts[example.status]++)
+        return counts
+    }, [examples])
+
+    const categories = useMemo(
+        () => [...new Set(examples.map(example => example.category || ''))].sort(),
+        [examples],
+    )
+
+    const visibleExamples = useMemo(() => {
+        const term = search.trim().toLowerCase()
+        return examples
+            .filter(example => statusFilter === 'all' || example.status === statusFilter)
+            .filter(example => !categoryFilter || (example.category || '') === categoryFilter)
+            .filter(example => !term || `${example.user_prompt} ${example.assistant_response} ${example.source_document || ''}`.toLowerCase().includes(term))
+    }, [examples, statusFilter, categoryFilter, search])
+
+    const updateExample = async (id: string, changes: Database['public']['Tables']['training_examples']['Update']) => {
+        const { error } = await supabase
+            .from('training_examples')
+            .update({ ...changes, updated_at: new Date().toISOString() })
+            .eq('id', id)
+
+        if (error) throw error
+        setExamples(prev => prev.map(example => example.id === id ? { ...example, ...changes } : example))
+    }
+
+    const handleToggleApproved = async (example: TrainingExample) => {
+        const approve = example.status !== 'approved'
+        try {
+            await updateExample(example.id, {
+                status: approve ? 'approved' : 'pending',
+                approved_by: approve ? user?.id || null : null,
+                approved_at: approve ? new Date().toISOString() : null,
+            })
+        } catch (error) {
+            console.error('Error updating training example:', error)
+            alert(error instanceof Error ? error.message : 'Failed to update example')
+        }
+    }
+
+    const handleDelete = async (example: TrainingExample) => {
+        if (!currentSpace || !confirm('Delete this training example?')) return
+
+        try {
+            const { error } = await supabase.from('training_examples').delete().eq('id', example.id)
+            if (error) throw error
+
+            const remaining = examples.filter(e => e.id !== example.id)
+            setExamples(remaining)
+
+            // Brand Studio shows this count; sharepoint-sync sets it the same way
+            const { error: countError } = await supabase
+                .from('brand_profile')
+                .update({ training_examples_count: remaining.length })
+                .eq('space_id', currentSpace.id)
+            if (countError) console.error('Error updating training examples count:', countError)
+        } catch (error) {
+            console.error('Error deleting training example:', error)
+            alert(error instanceof Error ? error.message : 'Failed to delete example')
+        }
+    }
+
+    const openEditor = (example: TrainingExample) => {
+        setEditing(example)
+        setEditUser(example.user_prompt)
+        setEditResponse(example.assistant_response)
+    }
+
+    const handleSaveEdit = async () => {
+        if (!editing || !editUser.trim() || !editResponse.trim()) return
+
+        setIsSaving(true)
+        try {
+            await updateExample(editing.id, { user_prompt: editUser.trim(), assistant_response: editResponse.trim() })
+            setEditing(null)
+        } catch (error) {
+            console.error('Error saving training example:', error)
+            alert(error instanceof Error ? error.message : 'Failed to save example')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const handleExport = () => {
+        const jsonl = buildFineTuningJsonl(examples)
+        if (!jsonl) return
+
+        const blob = new Blob([`${jsonl}\n`], { type: 'application/jsonl;charset=utf-8;' })
+        const url = URL.createObjectURL(blob)
+        const link = document.createElement('a')
+        link.href = url
+        link.download = `training-examples-${new Date().toISOString().split('T')[0]}.jsonl`
+        document.body.appendChild(link)
+        link.click()
+        document.body.removeChild(link)
+        URL.revokeObjectURL(url)
+    }
+
+    if (isLoading && examples.length === 0) {
+        return <div className="p-8 text-center text-[var(--color-gray-400)]">Loading...</div>
+    }
+
+    return (
+        <div className="max-w-5xl mx-auto p-8">
+            <Link to="/brand-studio" className="inline-flex items-center gap-1 text-sm text-[var(--color-gray-500)] hover:text-[var(--color-gray-700)] mb-4">
+                <ArrowLeft className="w-4 h-4" />
+                Brand Studio
+            </Link>
+            <div className="flex items-start justify-between mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-[var(--color-gray-900)]">Training Examples</h1>
+                    <p className="text-[var(--color-gray-500)] mt-1">
+                        Written from your SharePoint documents. The closest examples are shown to the model as few-shot examples when posts are generated; approved ones come first.
+                    </p>
+                </div>
+                <Button variant="secondary" onClick={handleExport} disabled={statusCounts.approved === 0} title="Approved examples as a JSONL fine-tuning dataset">
+                    <Download className="w-4 h-4" />
+                    Export JSONL ({statusCounts.approved})
+                </Button>
+            </div>
+
+            {/* Status tabs */}
+            <div className="flex gap-2 mb-4">
+                {STATUS_TABS.map(status => (
+                    <button
+                        key={status}
+                        onClick={() => setStatusFilter(status)}
+                        className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${statusFilter === status
+                            ? 'bg-[var(--color-primary)] text-white'
+                            : 'bg-[var(--color-gray-100)] text-[var(--color-gray-600)] hover:bg-[var(--color-gray-200)]'
+                            }`}
+                    >
+                        {status === 'all' ? 'All' : TRAINING_EXAMPLE_STATUS_LABELS[status]} ({statusCounts[status]})
+                    </button>
+                ))}
+            </div>
+
+            {/* Filters */}
+            <div className="bg-white rounded-xl border border-[var(--color-gray-200)] p-4 mb-4 flex items-center gap-4">
+                <select value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value)} className={selectClassName}>
+                    <option value="">All categories</option>
+                    {categories.map(category => (
+                        <option key={category} value={category}>{categoryLabel(category || null)}</option>
+                    ))}
+                </select>
+                <input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search examples..."
+                    className={`${selectClassName} flex-1`}
+                />
+            </div>
+
+            {/* Examples */}
+            <div className="bg-white rounded-xl border border-[var(--color-gray-200)] overflow-hidden">
+                {visibleExamples.length === 0 ? (
+                    <div className="p-12 text-center">
+                        <div className="w-16 h-16 bg-[var(--color-gray-100)] rounded-full flex items-center justify-center mx-auto mb-4">
+                            <GraduationCap className="w-8 h-8 text-[var(--color-gray-400)]" />
+                        </div>
+                        <p className="text-[var(--color-gray-500)]">
+                            {examples.length === 0
+                                ? 'No training examples yet. Sync SharePoint documents in Brand Studio to create them.'
+                                : 'No examples match these filters'}
+                        </p>
+                    </div>
+                ) : (
+                    <div className="divide-y divide-[var(--color-gray-100)]">
+                        {visibleExamples.map(example => (
+                            <div key={example.id} className="p-4 flex items-start gap-3 hover:bg-[var(--color-gray-50)] transition-colors">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium text-[var(--color-gray-800)]">{example.user_prompt}</p>
+                                    <p className="text-sm text-[var(--color-gray-500)] mt-1 whitespace-pre-line line-clamp-4">{example.assistant_response}</p>
+                                    <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-[var(--color-gray-400)]">
+                                        <span className={`inline-flex items-center px-2 py-0.5 rounded-full font-medium ${example.status === 'approved'
+                                            ? 'bg-green-100 text-green-700'
+                                            : 'bg-amber-100 text-amber-700'
+                                            }`}>
+                                            {TRAINING_EXAMPLE_STATUS_LABELS[example.status]}
+                                        </span>
+                                        <span>{categoryLabel(example.category)}</span>
+                                        {example.source_document && <span>From {example.source_document}</span>}
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-1">
+                                    <Button variant="ghost" size="sm" onClick={() => handleToggleApproved(example)} title={example.status === 'approved' ? 'Back to review' : 'Approve'}>
+                                        {example.status === 'approved' ? <Undo2 className="w-4 h-4" /> : <Check className="w-4 h-4 text-green-600" />}
+                                    </Button>
+                                    <Button variant="ghost" size="sm" onClick={() => openEditor(example)} title="Edit">
+                                        <Pencil className="w-4 h-4" />
+                                    </Button>
+                                    <Button variant="ghost" size="sm" onClick={() => handleDelete(example)} title="Delete">
+                                        <Trash2 className="w-4 h-4 text-red-500" />
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <Modal
+                isOpen={!!editing}
+                onClose={() => setEditing(null)}
+                title="Edit training example"
+                size="lg"
+                footer={
+                    <>
+                        <Button variant="secondary" onClick={() => setEditing(null)}>Cancel</Button>
+                        <Button onClick={handleSaveEdit} isLoading={isSaving} disabled={!editUser.trim() || !editResponse.trim()}>
+                            Save
+                        </Button>
+                    </>
+                }
+            >
+                <div className="space-y-4">
+                    <Input label="Request" value={editUser} onChange={(e) => setEditUser(e.target.value)} />
+                    <Textarea label="Response in the brand's voice" value={editResponse} onChange={(e) => setEditResponse(e.target.value)} rows={12} />
+                </div>
+            </Modal>
+        </div>
+    )
+}
@@ -237,6 +237,9 @@ export function AgencyDetail() {
 
         let foundCount = 0
 
+        // The user's token lets apollo-enrich record who spent the credits
+        const { data: { session } } = await supabase.auth.getSession()
+
         for (let i = 0; i < peopleToEnrich.length; i++) {
             const person = peopleToEnrich[i]
 
@@ -262,14 +265,15 @@ export function AgencyDetail() {
                     method: 'POST',
                     headers: {
                         'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${supabaseKey}`
+                        'Authorization': `Bearer ${session?.access_token || supabaseKey}`
                     },
                     body: JSON.stringify({
                         first_name: firstName,
                         last_name: lastName,
                         organization_name: agency.name,
                         domain: domain || undefined,
-                        title: person.title || undefined
+                        title: person.title || undefined,
+                        space_id: currentSpace?.id
                     })
                 })
 
@@ -0,0 +1,171 @@
+import { create } from 'zustand'
+import { supabase } from '@/lib/supabase'
+import {
+    createJobProgress,
+    isJobActive,
+    resetUnfinishedItems,
+    type Job,
+    type JobType,
+} from '@/lib/jobs'
+
+const POLL_INTERVAL_MS = 2000
+// A queued job nobody has claimed, or a running job with no heartbeat, needs a worker
+const STALE_QUEUED_MS = 30_000
+const STALE_RUNNING_MS = 5 * 60_000
+
+interface EnqueueJobInput {
+    spaceId: string
+    userId: string
+    type: JobType
+    campaignId?: string | null
+    payload?: Record<string, unknown>
+    items: { key: string; label: string }[]
+}
+
+interface JobState {
+    jobs: Record<string, Job>
+    enqueueJob: (input: EnqueueJobInput) => Promise<Job>
+    fetchActiveJobs: (spaceId: string) => Promise<Job[]>
+    watchJob: (jobId: string, onFinished?: (job: Job) => void) => void
+    cancelJob: (jobId: string) => Promise<void>
+    retryJob: (jobId: string) => Promise<void>
+}
+
+// Poll timers live outside the store so each job is polled at most once,
+// however many components are showing it
+const watchers = new Map<string, {
+    timer: ReturnType<typeof setTimeout> | null
+    onFinished: ((job: Job) => void)[]
+}>()
+
+const startWorker = async (jobId: string) => {
+    const { error } = await supabase.functions.invoke('job-worker', { body: { job_id: jobId } })
+    if (error) console.error('Error starting job worker:', error)
+}
+
+const isStale = (job: Job) => {
+    const now = Date.now()
+    if (job.status === 'queued') return now - new Date(job.updated_at).getTime() > STALE_QUEUED_MS
+    if (job.status === 'running') return now - new Date(job.heartbeat_at || job.updated_at).getTime() > STALE_RUNNING_MS
+    return false
+}
+
+export const useJobStore = create<JobState>((set, get) => ({
+    jobs: {},
+
+    enqueueJob: async ({ spaceId, userId, type, campaignId = null, payload = {}, items }) => {
+        const { data, error } = await supabase
+            .from('jobs')
+            .insert({
+                space_id: spaceId,
+                campaign_id: campaignId,
+                type,
+                status: 'queued',
+                payload,
+                progress: createJobProgress(items),
+                created_by: userId,
+            })
+            .select()
+            .single()
+
+        if (error) throw error
+
+        const job = data as Job
+        set(state => ({ jobs: { ...state.jobs, [job.id]: job } }))
+        await startWorker(job.id)
+        return job
+    },
+
+    fetchActiveJobs: async (spaceId) => {
+        const { data, error } = await supabase
+            .from('jobs')
+            .select('*')
+            .eq('space_id', spaceId)
+            .in('status', ['queued', 'running'])
+            .order('created_at', { ascending: false })
+
+        if (error) {
+            console.error('Error fetching active jobs:', error)
+            return []
+        }
+
+        const active = (data || []) as Job[]
+        set(state => ({
+            jobs: { ...state.jobs, ...Object.fromEntries(active.map(j => [j.id, j])) },
+        }))
+        return active
+    },
+
+    watchJob: (jobId, onFinished) => {
+        const existing = watchers.get(jobId)
+        if (existing) {
+            if (onFinished && !existing.onFinished.includes(onFinished)) existing.onFinished.push(onFinished)
+            if (existing.timer) return
+        }
+
+        const watcher = existing || { timer: null, onFinished: onFinished ? [onFinished] : [] }
+        watchers.set(jobId, watcher)
+
+        const poll = async () => {
+            const { data, error } = await supabase
+                .from('jobs')
+                .select('*')
+                .eq('id', jobId)
+                .single()
+
+            if (error || !data) {
+                console.error('Error polling job:', error)
+                watcher.timer = null
+                return
+            }
+
+            const job = data as Job
+            set(state => ({ jobs: { ...state.jobs, [job.id]: job } }))
+
+            if (isJobActive(job.status)) {
+                if (isStale(job)) await startWorker(job.id)
+                watcher.timer = setTimeout(poll, POLL_INTERVAL_MS)
+            } else {
+                watcher.timer = null
+                watcher.onFinished.forEach(cb => cb(job))
+            }
+        }
+
+        watcher.timer = setTimeout(poll, 0)
+    },
+
+    cancelJob: async (jobId) => {
+        const { error } = await supabase
+            .from('jobs')
+            .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+            .eq('id', jobId)
+            .in('status', ['queued', 'running'])
+
+        if (error) throw error
+
+        // The worker marks the remaining items skipped when it sees the new status
+        const job = get().jobs[jobId]
+        if (job) set(state => ({ jobs: { ...state.jobs, [jobId]: { ...job, status: 'cancelled' } } }))
+    },
+
+    retryJob: async (jobId) => {
+        const job = get().jobs[jobId]
+        if (!job?.progress) return
+
+        const { error } = await supabase
+            .from('jobs')
+            .update({
+                status: 'queued',
+                progress: resetUnfinishedItems(job.progress),
+                error: null,
+                completed_at: null,
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', jobId)
+
+        if (error) throw error
+
+        await startWorker(jobId)
+        get().watchJob(jobId)
+    },
+}))
@@ -0,0 +1,46 @@
+import { create } from 'zustand'
+import { supabase } from '@/lib/supabase'
+import {
+    evaluateBudget,
+    monthStart,
+    normaliseBudget,
+    totalCost,
+    type BudgetStatus,
+    type UsageSummaryRow,
+} from '@/lib/usage'
+
+interface UsageState {
+    /** Budget status of the space it was last loaded for */
+    budget: BudgetStatus | null
+    budgetSpaceId: string | null
+    fetchBudget: (spaceId: string) => Promise<BudgetStatus>
+}
+
+// Same calculation as getBudgetStatus in the edge functions
+export const useUsageStore = create<UsageState>((set) => ({
+    budget: null,
+    budgetSpaceId: null,
+
+    fetchBudget: async (spaceId) => {
+        const { data: settings } = await supabase
+            .from('ai_settings')
+            .select('monthly_budget_usd, budget_warn_percent, budget_action')
+            .eq('space_id', spaceId)
+            .maybeSingle()
+
+        const budget = normaliseBudget(settings)
+        let spent = 0
+        if (budget.monthly_budget_usd) {
+            const { data, error } = await supabase.rpc('ai_usage_summary', {
+                p_space_id: spaceId,
+                p_since: monthStart(),
+            })
+            if (error) console.error('Error loading AI usage:', error)
+            spent = totalCost((data || []) as UsageSummaryRow[])
+        }
+
+        const status = evaluateBudget(spent, budget)
+        set({ budget: status, budgetSpaceId: spaceId })
+        return status
+    },
+}))
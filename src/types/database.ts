@@ -1,3 +1,11 @@
+import type { ContentCategory, ContentLayer, ContentMix } from '../../supabase/functions/_shared/content-mix.ts'
+import type { ClassificationStatus } from '../../supabase/functions/_shared/classification.ts'
+import type { IdeaSource, IdeaStatus } from '../../supabase/functions/_shared/ideas.ts'
+import type { FeedItemStatus } from '../../supabase/functions/_shared/feeds.ts'
+import type { TrainingExampleStatus } from '../../supabase/functions/_shared/training-examples.ts'
+import type { CrawlStatus } from '../../supabase/functions/_shared/crawler.ts'
+import type { ProfileSnapshot, ProfileVersionSource } from '../../supabase/functions/_shared/brand-profile-versions.ts'
+
 export type Json =
     | string
     | number
@@ -25,47 +33,17 @@ export type CampaignStatus = 'draft' | 'running' | 'completed' | 'failed'
 
 export type SourceType = 'website' | 'sharepoint' | 'manual'
 
-export type SpaceRole = 'owner' | 'editor' | 'viewer'
+export type SyncStatus = 'processing' | 'queued' | 'completed' | 'cancelled' | 'failed'
 
-export type PromptType = 'linkedin_text' | 'image_prompt'
+export type SyncFileStatus = 'pending' | 'processing' | 'completed' | 'skipped' | 'failed'
 
-export type ContentLayer = 'general' | 'things_we_sell' | 'market_insights' | 'hot_topics'
-
-export type ContentCategory =
-    | 'culture'
-    | 'milestone'
-    | 'behind_the_scenes'
-    | 'product'
-    | 'case_study'
-    | 'testimonial'
-    | 'industry_trend'
-    | 'opinion'
-    | 'data_insight'
-    | 'news_reaction'
-    | 'event'
-    | 'trending'
+export type SpaceRole = 'owner' | 'editor' | 'viewer'
 
-export const CONTENT_LAYERS: { value: ContentLayer; label: string; description: string }[] = [
-    { value: 'general', label: 'General', description: 'Brand awareness, culture, values' },
-    { value: 'things_we_sell', label: 'Things We Sell', description: 'Products, services, case studies' },
-    { value: 'market_insights', label: 'Market Insights', description: 'Industry trends, thought leadership' },
-    { value: 'hot_topics', label: 'Hot Topics', description: 'Timely/reactive, what happened today' },
-]
+export type PromptType = 'linkedin_text' | 'image_prompt'
 
-export const CONTENT_CATEGORIES: { value: ContentCategory; label: string; layer: ContentLayer }[] = [
-    { value: 'culture', label: 'Culture & Team', layer: 'general' },
-    { value: 'milestone', label: 'Milestones & Wins', layer: 'general' },
-    { value: 'behind_the_scenes', label: 'Behind the Scenes', layer: 'general' },
-    { value: 'product', label: 'Product/Service', layer: 'things_we_sell' },
-    { value: 'case_study', label: 'Case Study', layer: 'things_we_sell' },
-    { value: 'testimonial', label: 'Testimonial', layer: 'things_we_sell' },
-    { value: 'industry_trend', label: 'Industry Trend', layer: 'market_insights' },
-    { value: 'opinion', label: 'Opinion/POV', layer: 'market_insights' },
-    { value: 'data_insight', label: 'Data & Research', layer: 'market_insights' },
-    { value: 'news_reaction', label: 'News Reaction', layer: 'hot_topics' },
-    { value: 'event', label: 'Event/Conference', layer: 'hot_topics' },
-    { value: 'trending', label: 'Trending Topic', layer: 'hot_topics' },
-]
+// Content layers and categories are shared with the edge functions
+export { CONTENT_LAYERS, CONTENT_CATEGORIES } from '../../supabase/functions/_shared/content-mix.ts'
+export type { ContentLayer, ContentCategory, ContentMix, ContentSlot } from '../../supabase/functions/_shared/content-mix.ts'
 
 // Generation settings stored in campaigns
 export interface GenerationSettings {
@@ -75,6 +53,7 @@ export interface GenerationSettings {
     cta_rules?: string
     hashtag_rules?: string
     diversity_constraints?: string
+    content_mix?: ContentMix
 }
 
 // Template IDs stored in campaigns
@@ -212,11 +191,262 @@ export interface Database {
                     updated_at?: string
                 }
             }
+            campaign_templates: {
+                Row: {
+                    id: string
+                    space_id: string
+                    name: string
+                    description: string | null
+                    target_count: number
+                    generation_settings: GenerationSettings
+                    template_ids: TemplateIds
+                    locked_source_settings: LockedSourceSettings
+                    source_campaign_id: string | null
+                    created_by: string | null
+                    created_at: string
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    space_id: string
+                    name: string
+                    description?: string | null
+                    target_count?: number
+                    generation_settings?: GenerationSettings
+                    template_ids?: TemplateIds
+                    locked_source_settings?: LockedSourceSettings
+                    source_campaign_id?: string | null
+                    created_by?: string | null
+                    created_at?: string
+                    updated_at?: string
+                }
+                Update: {
+                    id?: string
+                    space_id?: string
+                    name?: string
+                    description?: string | null
+                    target_count?: number
+                    generation_settings?: GenerationSettings
+                    template_ids?: TemplateIds
+                    locked_source_settings?: LockedSourceSettings
+                    source_campaign_id?: string | null
+                    created_by?: string | null
+                    created_at?: string
+                    updated_at?: string
+                }
+            }
+            ideas: {
+                Row: {
+                    id: string
+                    space_id: string
+                    campaign_id: string | null
+                    title: string
+                    notes: string | null
+                    status: IdeaStatus
+                    source: IdeaSource
+                    source_meta: Json
+                    content_layer: ContentLayer | null
+                    content_category: ContentCategory | null
+                    voted_by: string[]
+                    votes: number
+                    created_by: string | null
+                    used_at: string | null
+                    created_at: string
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    space_id: string
+                    campaign_id?: string | null
+                    title: string
+                    notes?: string | null
+                    status?: IdeaStatus
+                    source?: IdeaSource
+                    source_meta?: Json
+                    content_layer?: ContentLayer | null
+                    content_category?: ContentCategory | null
+                    voted_by?: string[]
+                    created_by?: string | null
+                    used_at?: string | null
+                    created_at?: string
+                    updated_at?: string
+                }
+                Update: {
+                    id?: string
+                    space_id?: string
+                    campaign_id?: string | null
+                    title?: string
+                    notes?: string | null
+                    status?: IdeaStatus
+                    source?: IdeaSource
+                    source_meta?: Json
+                    content_layer?: ContentLayer | null
+                    content_category?: ContentCategory | null
+                    voted_by?: string[]
+                    created_by?: string | null
+                    used_at?: string | null
+                    created_at?: string
+                    updated_at?: string
+                }
+            }
+            feeds: {
+                Row: {
+                    id: string
+                    space_id: string
+                    url: string
+                    title: string | null
+                    site_url: string | null
+                    enabled: boolean
+                    etag: string | null
+                    last_modified: string | null
+                    last_fetched_at: string | null
+                    last_status: 'ok' | 'error' | null
+                    last_error: string | null
+                    created_by: string | null
+                    created_at: string
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    space_id: string
+                    url: string
+                    title?: string | null
+                    site_url?: string | null
+                    enabled?: boolean
+                    etag?: string | null
+                    last_modified?: string | null
+                    last_fetched_at?: string | null
+                    last_status?: 'ok' | 'error' | null
+                    last_error?: string | null
+                    created_by?: string | null
+                    created_at?: string
+                    updated_at?: string
+                }
+                Update: {
+                    id?: string
+                    space_id?: string
+                    url?: string
+                    title?: string | null
+                    site_url?: string | null
+                    enabled?: boolean
+                    etag?: string | null
+                    last_modified?: string | null
+                    last_fetched_at?: string | null
+                    last_status?: 'ok' | 'error' | null
+                    last_error?: string | null
+                    created_by?: string | null
+                    created_at?: string
+                    updated_at?: string
+                }
+            }
+            feed_items: {
+                Row: {
+                    id: string
+                    space_id: string
+                    feed_id: string
+                    guid: string
+                    title: string
+                    link: string | null
+                    summary: string | null
+                    author: string | null
+                    published_at: string | null
+                    relevance: number
+                    matched_terms: string[]
+                    status: FeedItemStatus
+                    idea_id: string | null
+                    post_id: string | null
+                    created_at: string
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    space_id: string
+                    feed_id: string
+                    guid: string
+                    title: string
+                    link?: string | null
+                    summary?: string | null
+                    author?: string | null
+                    published_at?: string | null
+                    relevance?: number
+                    matched_terms?: string[]
+                    status?: FeedItemStatus
+                    idea_id?: string | null
+                    post_id?: string | null
+                    created_at?: string
+                    updated_at?: string
+                }
+                Update: {
+                    id?: string
+                    space_id?: string
+                    feed_id?: string
+                    guid?: string
+                    title?: string
+                    link?: string | null
+                    summary?: string | null
+                    author?: string | null
+                    published_at?: string | null
+                    relevance?: number
+                    matched_terms?: string[]
+                    status?: FeedItemStatus
+                    idea_id?: string | null
+                    post_id?: string | null
+                    created_at?: string
+                    updated_at?: string
+                }
+            }
+            post_series: {
+                Row: {
+                    id: string
+                    space_id: string
+                    title: string
+                    description: string | null
+                    plan: Json
+                    source_document_id: string | null
+                    source_text: string | null
+                    spacing_days: number
+                    post_time: string
+                    created_by: string | null
+                    created_at: string
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    space_id: string
+                    title: string
+                    description?: string | null
+                    plan?: Json
+                    source_document_id?: string | null
+                    source_text?: string | null
+                    spacing_days?: number
+                    post_time?: string
+                    created_by?: string | null
+                    created_at?: string
+                    updated_at?: string
+                }
+                Update: {
+                    id?: string
+                    space_id?: string
+                    title?: string
+                    description?: string | null
+                    plan?: Json
+                    source_document_id?: string | null
+                    source_text?: string | null
+                    spacing_days?: number
+                    post_time?: string
+                    created_by?: string | null
+                    created_at?: string
+                    updated_at?: string
+                }
+            }
             posts: {
                 Row: {
                     id: string
                     space_id: string
                     campaign_id: string | null
+                    idea_id: string | null
+                    series_id: string | null
+                    series_part: number | null
                     title: string
                     topic: string | null
                     status: PostStatus
@@ -239,6 +469,12 @@ export interface Database {
                     hubspot_meta: Json | null
                     content_layer: ContentLayer | null
                     content_category: ContentCategory | null
+                    content_confidence: number | null
+                    classification_status: ClassificationStatus | null
+                    classification_meta: Json
+                    classified_at: string | null
+                    similarity_signature: number[] | null
+                    similarity_checked_at: string | null
                     scheduled_at: string | null
                     error: string | null
                     created_at: string
@@ -248,6 +484,9 @@ export interface Database {
                     id?: string
                     space_id: string
                     campaign_id?: string | null
+                    idea_id?: string | null
+                    series_id?: string | null
+                    series_part?: number | null
                     title: string
                     topic?: string | null
                     status?: PostStatus
@@ -270,6 +509,12 @@ export interface Database {
                     hubspot_meta?: Json | null
                     content_layer?: ContentLayer | null
                     content_category?: ContentCategory | null
+                    content_confidence?: number | null
+                    classification_status?: ClassificationStatus | null
+                    classification_meta?: Json
+                    classified_at?: string | null
+                    similarity_signature?: number[] | null
+                    similarity_checked_at?: string | null
                     scheduled_at?: string | null
                     error?: string | null
                     created_at?: string
@@ -279,6 +524,9 @@ export interface Database {
                     id?: string
                     space_id?: string
                     campaign_id?: string | null
+                    idea_id?: string | null
+                    series_id?: string | null
+                    series_part?: number | null
                     title?: string
                     topic?: string | null
                     status?: PostStatus
@@ -301,6 +549,12 @@ export interface Database {
                     hubspot_meta?: Json | null
                     content_layer?: ContentLayer | null
                     content_category?: ContentCategory | null
+                    content_confidence?: number | null
+                    classification_status?: ClassificationStatus | null
+                    classification_meta?: Json
+                    classified_at?: string | null
+                    similarity_signature?: number[] | null
+                    similarity_checked_at?: string | null
                     scheduled_at?: string | null
                     error?: string | null
                     created_at?: string
@@ -379,62 +633,424 @@ export interface Database {
                     updated_at?: string
                 }
             }
+            brand_profile_versions: {
+                Row: {
+                    id: string
+                    space_id: string
+                    profile: ProfileSnapshot
+                    source: ProfileVersionSource
+                    author_id: string | null
+                    author_email: string | null
+                    created_at: string
+                }
+                Insert: {
+                    id?: string
+                    space_id: string
+                    profile: ProfileSnapshot
+                    source: ProfileVersionSource
+                    author_id?: string | null
+                    author_email?: string | null
+                    created_at?: string
+                }
+                Update: {
+                    id?: string
+                    space_id?: string
+                    profile?: ProfileSnapshot
+                    source?: ProfileVersionSource
+                    author_id?: string | null
+                    author_email?: string | null
+                    created_at?: string
+                }
+            }
             source_documents: {
                 Row: {
                     id: string
                     space_id: string
-                    source_type: 'website' | 'sharepoint'
+                    source_type: SourceType
                     url: string | null
                     title: string | null
                     content: string | null
                     metadata: Json
+                    is_confirmed: boolean
                     last_scanned: string
+                    indexed_at: string | null
+                    index_attempts: number
+                    index_error: string | null
+                    index_attempted_at: string | null
+                    content_hash: string | null
+                    structured: Json
                     created_at: string
                 }
                 Insert: {
                     id?: string
                     space_id: string
-                    source_type: 'website' | 'sharepoint'
+                    source_type: SourceType
                     url?: string | null
                     title?: string | null
                     content?: string | null
                     metadata?: Json
+                    is_confirmed?: boolean
                     last_scanned?: string
+                    indexed_at?: string | null
+                    index_attempts?: number
+                    index_error?: string | null
+                    index_attempted_at?: string | null
+                    content_hash?: string | null
+                    structured?: Json
                     created_at?: string
                 }
                 Update: {
                     id?: string
                     space_id?: string
-                    source_type?: 'website' | 'sharepoint'
+                    source_type?: SourceType
                     url?: string | null
                     title?: string | null
                     content?: string | null
                     metadata?: Json
+                    is_confirmed?: boolean
                     last_scanned?: string
+                    indexed_at?: string | null
+                    index_attempts?: number
+                    index_error?: string | null
+                    index_attempted_at?: string | null
+                    content_hash?: string | null
+                    structured?: Json
+                    created_at?: string
+                }
+            }
+            crawl_settings: {
+                Row: {
+                    space_id: string
+                    root_url: string | null
+                    include_patterns: string[]
+                    exclude_patterns: string[]
+                    max_depth: number
+                    max_pages: number
+                    use_sitemap: boolean
+                    updated_at: string
+                }
+                Insert: {
+                    space_id: string
+                    root_url?: string | null
+                    include_patterns?: string[]
+                    exclude_patterns?: string[]
+                    max_depth?: number
+                    max_pages?: number
+                    use_sitemap?: boolean
+                    updated_at?: string
+                }
+                Update: {
+                    space_id?: string
+                    root_url?: string | null
+                    include_patterns?: string[]
+                    exclude_patterns?: string[]
+                    max_depth?: number
+                    max_pages?: number
+                    use_sitemap?: boolean
+                    updated_at?: string
+                }
+            }
+            website_crawls: {
+                Row: {
+                    id: string
+                    space_id: string
+                    root_url: string
+                    settings: Json
+                    status: CrawlStatus
+                    robots_found: boolean
+                    sitemap_urls: number
+                    pages_crawled: number
+                    pages_added: number
+                    pages_changed: number
+                    pages_unchanged: number
+                    pages_removed: number
+                    pages_blocked: number
+                    changes: Json
+                    error: string | null
+                    created_by: string | null
+                    started_at: string
+                    completed_at: string | null
+                }
+                Insert: {
+                    id?: string
+                    space_id: string
+                    root_url: string
+                    settings?: Json
+                    status?: CrawlStatus
+                    robots_found?: boolean
+                    sitemap_urls?: number
+                    pages_crawled?: number
+                    pages_added?: number
+                    pages_changed?: number
+                    pages_unchanged?: number
+                    pages_removed?: number
+                    pages_blocked?: number
+                    changes?: Json
+                    error?: string | null
+                    created_by?: string | null
+                    started_at?: string
+                    completed_at?: string | null
+                }
+                Update: {
+                    id?: string
+                    space_id?: string
+                    root_url?: string
+                    settings?: Json
+                    status?: CrawlStatus
+                    robots_found?: boolean
+                    sitemap_urls?: number
+                    pages_crawled?: number
+                    pages_added?: number
+                    pages_changed?: number
+                    pages_unchanged?: number
+                    pages_removed?: number
+                    pages_blocked?: number
+                    changes?: Json
+                    error?: string | null
+                    created_by?: string | null
+                    started_at?: string
+                    completed_at?: string | null
+                }
+            }
+            sync_progress: {
+                Row: {
+                    id: string
+                    space_id: string
+                    source_type: string
+                    source_path: string | null
+                    drive_id: string | null
+                    folder_id: string | null
+                    status: SyncStatus
+                    sync_mode: 'full' | 'delta' | null
+                    next_delta_link: string | null
+                    folders: Json | null
+                    total_documents: number
+                    processed_documents: number
+                    deleted_documents: number
+                    skipped_documents: number
+                    failed_documents: number
+                    estimated_tokens: number | null
+                    estimated_cost: number | null
+                    actual_tokens: number | null
+                    actual_cost: number | null
+                    error_log: Json
+                    started_at: string | null
+                    completed_at: string | null
+                    heartbeat_at: string | null
+                    created_at: string
+                }
+                Insert: {
+                    id?: string
+                    space_id: string
+                    source_type: string
+                    source_path?: string | null
+                    drive_id?: string | null
+                    folder_id?: string | null
+                    status?: SyncStatus
+                    sync_mode?: 'full' | 'delta' | null
+                    next_delta_link?: string | null
+                    folders?: Json | null
+                    total_documents?: number
+                    processed_documents?: number
+                    deleted_documents?: number
+                    skipped_documents?: number
+                    failed_documents?: number
+                    estimated_tokens?: number | null
+                    estimated_cost?: number | null
+                    actual_tokens?: number | null
+                    actual_cost?: number | null
+                    error_log?: Json
+                    started_at?: string | null
+                    completed_at?: string | null
+                    heartbeat_at?: string | null
+                    created_at?: string
+                }
+                Update: {
+                    id?: string
+                    space_id?: string
+                    source_type?: string
+                    source_path?: string | null
+                    drive_id?: string | null
+                    folder_id?: string | null
+                    status?: SyncStatus
+                    sync_mode?: 'full' | 'delta' | null
+                    next_delta_link?: string | null
+                    folders?: Json | null
+                    total_documents?: number
+                    processed_documents?: number
+                    deleted_documents?: number
+                    skipped_documents?: number
+                    failed_documents?: number
+                    estimated_tokens?: number | null
+                    estimated_cost?: number | null
+                    actual_tokens?: number | null
+                    actual_cost?: number | null
+                    error_log?: Json
+                    started_at?: string | null
+                    completed_at?: string | null
+                    heartbeat_at?: string | null
                     created_at?: string
                 }
             }
+            sync_progress_files: {
+                Row: {
+                    id: string
+                    sync_id: string
+                    space_id: string
+                    drive_item_id: string
+                    name: string
+                    parent_id: string | null
+                    size: number | null
+                    ctag: string | null
+                    web_url: string | null
+                    change: 'added' | 'changed' | 'deleted'
+                    status: SyncFileStatus
+                    error: string | null
+                    document_id: string | null
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    sync_id: string
+                    space_id: string
+                    drive_item_id: string
+                    name: string
+                    parent_id?: string | null
+                    size?: number | null
+                    ctag?: string | null
+                    web_url?: string | null
+                    change: 'added' | 'changed' | 'deleted'
+                    status?: SyncFileStatus
+                    error?: string | null
+                    document_id?: string | null
+                    updated_at?: string
+                }
+                Update: {
+                    id?: string
+                    sync_id?: string
+                    space_id?: string
+                    drive_item_id?: string
+                    name?: string
+                    parent_id?: string | null
+                    size?: number | null
+                    ctag?: string | null
+                    web_url?: string | null
+                    change?: 'added' | 'changed' | 'deleted'
+                    status?: SyncFileStatus
+                    error?: string | null
+                    document_id?: string | null
+                    updated_at?: string
+                }
+            }
+            sharepoint_sync_state: {
+                Row: {
+                    space_id: string
+                    drive_id: string
+                    folder_id: string
+                    delta_link: string | null
+                    folders: Json
+                    last_sync_id: string | null
+                    last_synced_at: string | null
+                }
+                Insert: {
+                    space_id: string
+                    drive_id: string
+                    folder_id?: string
+                    delta_link?: string | null
+                    folders?: Json
+                    last_sync_id?: string | null
+                    last_synced_at?: string | null
+                }
+                Update: {
+                    space_id?: string
+                    drive_id?: string
+                    folder_id?: string
+                    delta_link?: string | null
+                    folders?: Json
+                    last_sync_id?: string | null
+                    last_synced_at?: string | null
+                }
+            }
             source_chunks: {
                 Row: {
                     id: string
                     document_id: string
+                    space_id: string | null
                     chunk_index: number
                     content: string
+                    char_start: number | null
+                    embedding: string | null
+                    embedding_model: string | null
                     created_at: string
                 }
                 Insert: {
                     id?: string
                     document_id: string
+                    space_id?: string | null
                     chunk_index: number
                     content: string
+                    char_start?: number | null
+                    embedding?: string | null
+                    embedding_model?: string | null
                     created_at?: string
                 }
                 Update: {
                     id?: string
                     document_id?: string
+                    space_id?: string | null
                     chunk_index?: number
                     content?: string
+                    char_start?: number | null
+                    embedding?: string | null
+                    embedding_model?: string | null
+                    created_at?: string
+                }
+            }
+            training_examples: {
+                Row: {
+                    id: string
+                    space_id: string
+                    system_prompt: string | null
+                    user_prompt: string
+                    assistant_response: string
+                    source_document: string | null
+                    drive_item_id: string | null
+                    category: string | null
+                    status: TrainingExampleStatus
+                    approved_by: string | null
+                    approved_at: string | null
+                    created_at: string
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    space_id: string
+                    system_prompt?: string | null
+                    user_prompt: string
+                    assistant_response: string
+                    source_document?: string | null
+                    drive_item_id?: string | null
+                    category?: string | null
+                    status?: TrainingExampleStatus
+                    approved_by?: string | null
+                    approved_at?: string | null
                     created_at?: string
+                    updated_at?: string
+                }
+                Update: {
+                    id?: string
+                    space_id?: string
+                    system_prompt?: string | null
+                    user_prompt?: string
+                    assistant_response?: string
+                    source_document?: string | null
+                    drive_item_id?: string | null
+                    category?: string | null
+                    status?: TrainingExampleStatus
+                    approved_by?: string | null
+                    approved_at?: string | null
+                    created_at?: string
+                    updated_at?: string
                 }
             }
             hubspot_connections: {
@@ -0,0 +1,159 @@
+// Brand Profile Versions
+// Every save of a brand profile's content is recorded as a
+// brand_profile_versions row with who made it and how: generated by AI,
+// edited by hand, AI suggestions merged in, or an older version restored.
+// A regeneration only replaces a profile nobody has edited; otherwise it is
+// kept as a suggestion, compared field by field and merged selectively.
+
+export type ProfileVersionSource = 'ai_generation' | 'manual_edit' | 'ai_merge' | 'restore'
+
+export const PROFILE_VERSION_SOURCE_LABELS: Record<ProfileVersionSource, string> = {
+    ai_generation: 'AI generation',
+    manual_edit: 'Manual edit',
+    ai_merge: 'AI suggestions merged',
+    restore: 'Restored',
+}
+
+/** The versioned content of a brand profile; logos and colours are not versioned */
+export interface ProfileSnapshot {
+    who_we_are: string | null
+    what_we_do: string | null
+    who_we_serve: string | null
+    tone_notes: string | null
+    themes: string[]
+    services: string[]
+}
+
+export type ProfileField = keyof ProfileSnapshot
+
+export const PROFILE_FIELDS: { key: ProfileField; label: string; kind: 'text' | 'list' }[] = [
+    { key: 'who_we_are', label: 'Who We Are', kind: 'text' },
+    { key: 'what_we_do', label: 'What We Do', kind: 'text' },
+    { key: 'who_we_serve', label: 'Who We Serve', kind: 'text' },
+    { key: 'tone_notes', label: 'How We Talk (Tone)', kind: 'text' },
+    { key: 'themes', label: 'Themes', kind: 'list' },
+    { key: 'services', label: 'Services', kind: 'list' },
+]
+
+/** One brand_profile_versions row */
+export interface BrandProfileVersion {
+    id: string
+    space_id: string
+    profile: ProfileSnapshot
+    source: ProfileVersionSource
+    author_id: string | null
+    author_email: string | null
+    created_at: string
+}
+
+export interface ProfileVersionInput {
+    spaceId: string
+    profile: Partial<Record<ProfileField, unknown>>
+    source: ProfileVersionSource
+    authorId?: string | null
+    authorEmail?: string | null
+}
+
+function cleanText(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() ? value : null
+}
+
+function cleanList(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : []
+}
+
+/** The versioned fields of a profile row or generated profile, normalised */
+export function profileSnapshot(profile: Partial<Record<ProfileField, unknown>> | null | undefined): ProfileSnapshot {
+    return {
+        who_we_are: cleanText(profile?.who_we_are),
+        what_we_do: cleanText(profile?.what_we_do),
+        who_we_serve: cleanText(profile?.who_we_serve),
+        tone_notes: cleanText(profile?.tone_notes),
+        themes: cleanList(profile?.themes),
+        services: cleanList(profile?.services),
+    }
+}
+
+/** Insert payload for brand_profile_versions */
+export function buildProfileVersion(input: ProfileVersionInput): Omit<BrandProfileVersion, 'id' | 'created_at'> {
+    return {
+        space_id: input.spaceId,
+        profile: profileSnapshot(input.profile),
+        source: input.source,
+        author_id: input.authorId ?? null,
+        author_email: input.authorEmail ?? null,
+    }
+}
+
+export interface ProfileFieldDiff {
+    key: ProfileField
+    label: string
+    kind: 'text' | 'list'
+    before: string | string[] | null
+    after: string | string[] | null
+    changed: boolean
+    /** List items only in after / only in before, compared case-insensitively */
+    added: string[]
+    removed: string[]
+}
+
+const listKey = (item: string) => item.trim().toLowerCase()
+
+/** Field-by-field comparison of two profiles */
+export function diffProfiles(before: ProfileSnapshot, after: ProfileSnapshot): ProfileFieldDiff[] {
+    return PROFILE_FIELDS.map(({ key, label, kind }) => {
+        if (kind === 'list') {
+            const beforeList = before[key] as string[]
+            const afterList = after[key] as string[]
+            const beforeKeys = new Set(beforeList.map(listKey))
+            const afterKeys = new Set(afterList.map(listKey))
+            const added = afterList.filter(item => !beforeKeys.has(listKey(item)))
+            const removed = beforeList.filter(item => !afterKeys.has(listKey(item)))
+            return { key, label, kind, before: beforeList, after: afterList, changed: added.length > 0 || removed.length > 0, added, removed }
+        }
+
+        const beforeText = before[key] as string | null
+        const afterText = after[key] as string | null
+        return {
+            key,
+            label,
+            kind,
+            before: beforeText,
+            after: afterText,
+            changed: (beforeText || '').trim() !== (afterText || '').trim(),
+            added: [],
+            removed: [],
+        }
+    })
+}
+
+export function profilesEqual(a: ProfileSnapshot, b: ProfileSnapshot): boolean {
+    return diffProfiles(a, b).every(field => !field.changed)
+}
+
+/**
+ * Takes the chosen fields from a suggestion. Text fields are replaced; list
+ * fields gain the suggested items they lack, keeping every current item.
+ */
+export function mergeProfile(current: ProfileSnapshot, suggestion: ProfileSnapshot, fields: ProfileField[]): ProfileSnapshot {
+    const merged: ProfileSnapshot = { ...current, themes: [...current.themes], services: [...current.services] }
+
+    for (const { key, kind } of PROFILE_FIELDS) {
+        if (!fields.includes(key)) continue
+
+        if (kind === 'list') {
+            const list = merged[key] as string[]
+            const existing = new Set(list.map(listKey))
+            for (const item of suggestion[key] as string[]) {
+                if (!existing.has(listKey(item))) {
+                    list.push(item)
+                    existing.add(listKey(item))
+                }
+            }
+        } else {
+            (merged as Record<ProfileField, unknown>)[key] = suggestion[key]
+        }
+    }
+
+    return merged
+}
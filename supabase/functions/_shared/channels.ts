@@ -0,0 +1,239 @@
+// Social Channels
+// Per-channel constraints and the post_channel_variants model. A post has one
+// main body; each channel can hold a tailored body, hashtag set and image
+// rendition. Anything without a variant falls back to the main post.
+
+export type ChannelId = 'linkedin' | 'facebook' | 'instagram' | 'x'
+
+/** How a channel treats links in the post text */
+export type LinkHandling = 'inline' | 'not_clickable' | 'shortened'
+
+export interface ChannelSpec {
+    id: ChannelId
+    label: string
+    /** Short badge text for compact UI */
+    icon: string
+    /** Prefix of the channelType HubSpot's channels API reports, e.g. LinkedInCompanyPage */
+    hubspot_type: string
+    /** Character limit for body plus hashtags */
+    max_length: number
+    /** Hashtags that read naturally, and the most the channel tolerates */
+    hashtags: { recommended: number; max: number }
+    links: LinkHandling
+    /** Image rendition size */
+    image: { width: number; height: number; aspect: string }
+    /** Channel norms, used in the adapt prompt */
+    guidance: string
+}
+
+// X counts every link as a t.co URL of this length
+const X_LINK_LENGTH = 23
+
+export const CHANNEL_SPECS: Record<ChannelId, ChannelSpec> = {
+    linkedin: {
+        id: 'linkedin',
+        label: 'LinkedIn',
+        icon: 'in',
+        hubspot_type: 'LINKEDIN',
+        max_length: 3000,
+        hashtags: { recommended: 3, max: 5 },
+        links: 'inline',
+        image: { width: 1200, height: 627, aspect: '1.91:1' },
+        guidance: 'Professional and insight-led. Put the hook in the first two lines, before the "see more" cut. Short paragraphs with white space.',
+    },
+    facebook: {
+        id: 'facebook',
+        label: 'Facebook',
+        icon: 'fb',
+        hubspot_type: 'FACEBOOK',
+        max_length: 63206,
+        hashtags: { recommended: 2, max: 3 },
+        links: 'inline',
+        image: { width: 1200, height: 630, aspect: '1.91:1' },
+        guidance: 'Conversational and community-minded. Aim for under 80 words and invite a reply.',
+    },
+    instagram: {
+        id: 'instagram',
+        label: 'Instagram',
+        icon: 'ig',
+        hubspot_type: 'INSTAGRAM',
+        max_length: 2200,
+        hashtags: { recommended: 8, max: 30 },
+        links: 'not_clickable',
+        image: { width: 1080, height: 1080, aspect: '1:1' },
+        guidance: 'Visual-first caption that complements the image. Warm opening line, short lines. Links are not clickable, so point to the link in bio instead.',
+    },
+    x: {
+        id: 'x',
+        label: 'X / Twitter',
+        icon: 'X',
+        hubspot_type: 'TWITTER',
+        max_length: 280,
+        hashtags: { recommended: 1, max: 2 },
+        links: 'shortened',
+        image: { width: 1600, height: 900, aspect: '16:9' },
+        guidance: 'One sharp idea in a single short post. No preamble, no thread.',
+    },
+}
+
+export const CHANNELS: ChannelSpec[] = [
+    CHANNEL_SPECS.linkedin,
+    CHANNEL_SPECS.facebook,
+    CHANNEL_SPECS.instagram,
+    CHANNEL_SPECS.x,
+]
+
+/** One post_channel_variants row */
+export interface ChannelVariant {
+    id: string
+    post_id: string
+    space_id: string
+    channel: ChannelId
+    body: string
+    /** Stored with the leading # */
+    hashtags: string[]
+    /** generated-images path of the channel's image rendition */
+    image_path: string | null
+    generation_meta: Record<string, unknown>
+    created_at: string
+    updated_at: string
+}
+
+export type ChannelIssueKind = 'length' | 'hashtags' | 'links'
+
+export interface ChannelIssue {
+    kind: ChannelIssueKind
+    message: string
+}
+
+const URL_PATTERN = /https?:\/\/[^\s)]+/g
+const HASHTAG_PATTERN = /#[\p{L}\p{N}_]+/gu
+
+export function isChannelId(value: unknown): value is ChannelId {
+    return CHANNELS.some(c => c.id === value)
+}
+
+/** Our channel for a HubSpot channelType, e.g. LinkedInCompanyPage -> linkedin, Twitter -> x */
+export function channelFromHubSpotType(type: string | null | undefined): ChannelId | null {
+    const upper = (type || '').toUpperCase()
+    const spec = CHANNELS.find(c => upper.startsWith(c.hubspot_type))
+    return spec ? spec.id : null
+}
+
+/** A social channel as listed in hubspot_connections.account_meta */
+export interface HubSpotChannel {
+    channelGuid: string
+    type?: string
+}
+
+/**
+ * HubSpot channel GUIDs for the channels picked for a post (hubspot_meta.channels).
+ * Each picked channel goes to the default HubSpot channel when that is of the
+ * same type, otherwise the first connected one; channels with no HubSpot
+ * account are skipped.
+ */
+export function hubSpotChannelGuids(
+    picked: unknown,
+    hubspotChannels: HubSpotChannel[] | null | undefined,
+    defaultGuid?: string | null,
+): string[] {
+    const guids: string[] = []
+    const ids = Array.isArray(picked) ? picked.filter(isChannelId) : []
+
+    for (const id of ids) {
+        const matching = (hubspotChannels || []).filter(ch => channelFromHubSpotType(ch.type) === id)
+        const target = matching.find(ch => ch.channelGuid === defaultGuid) || matching[0]
+        if (target && !guids.includes(target.channelGuid)) guids.push(target.channelGuid)
+    }
+    return guids
+}
+
+/** Hashtags with a single leading #, deduplicated case-insensitively and capped */
+export function normaliseHashtags(tags: unknown, max?: number): string[] {
+    const seen = new Set<string>()
+    const result: string[] = []
+    const list = Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(/[\s,]+/) : []
+
+    for (const raw of list) {
+        if (typeof raw !== 'string') continue
+        const tag = raw.trim().replace(/^#+/, '').replace(/[^\p{L}\p{N}_]/gu, '')
+        if (!tag || seen.has(tag.toLowerCase())) continue
+        seen.add(tag.toLowerCase())
+        result.push(`#${tag}`)
+    }
+    return max === undefined ? result : result.slice(0, max)
+}
+
+/** Moves hashtags out of a body into their own list */
+export function extractHashtags(text: string): { body: string; hashtags: string[] } {
+    const hashtags = normaliseHashtags(text.match(HASHTAG_PATTERN) || [])
+    const body = text
+        .replace(HASHTAG_PATTERN, '')
+        .replace(/[ \t]+$/gm, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim()
+    return { body, hashtags }
+}
+
+/** The text that is actually published: body plus hashtags in the channel's usual spot */
+export function composeChannelPost(body: string, hashtags: string[], channel: ChannelId): string {
+    const tags = hashtags.join(' ')
+    if (!tags) return body.trim()
+    return channel === 'x' ? `${body.trim()} ${tags}` : `${body.trim()}\n\n${tags}`
+}
+
+/** Length as the channel counts it */
+export function channelLength(text: string, channel: ChannelId): number {
+    if (CHANNEL_SPECS[channel].links !== 'shortened') return text.length
+    return text.replace(URL_PATTERN, 'x'.repeat(X_LINK_LENGTH)).length
+}
+
+/** Constraint problems with a channel post; empty when it is ready to send */
+export function checkChannelPost(body: string, hashtags: string[], channel: ChannelId): ChannelIssue[] {
+    const spec = CHANNEL_SPECS[channel]
+    const issues: ChannelIssue[] = []
+
+    const length = channelLength(composeChannelPost(body, hashtags, channel), channel)
+    if (length > spec.max_length) {
+        issues.push({ kind: 'length', message: `${length} characters, over ${spec.label}'s ${spec.max_length} limit` })
+    }
+    if (hashtags.length > spec.hashtags.max) {
+        issues.push({ kind: 'hashtags', message: `${hashtags.length} hashtags; ${spec.label} works best with ${spec.hashtags.max} or fewer` })
+    }
+    if (spec.links === 'not_clickable' && body.match(URL_PATTERN)) {
+        issues.push({ kind: 'links', message: `Links are not clickable on ${spec.label}; mention the link in bio instead` })
+    }
+
+    return issues
+}
+
+/** Prompt lines describing a channel's constraints, for the adapt prompt */
+export function buildChannelInstructions(channel: ChannelId): string[] {
+    const spec = CHANNEL_SPECS[channel]
+    const lines = [
+        spec.guidance,
+        `The body must be under ${spec.max_length - 40} characters, leaving room for hashtags.`,
+        `Suggest ${spec.hashtags.recommended} relevant hashtags (never more than ${spec.hashtags.max}), separately from the body.`,
+    ]
+    if (spec.links === 'not_clickable') lines.push('Do not include URLs in the body; say the link is in the bio instead.')
+    if (spec.links === 'shortened') lines.push(`Each URL counts as ${X_LINK_LENGTH} characters.`)
+    return lines
+}
+
+/**
+ * What to publish on a channel: the channel variant when there is one,
+ * otherwise the main post body and image.
+ */
+export function resolveChannelContent(
+    post: { body: string | null; image_path: string | null },
+    variant: Pick<ChannelVariant, 'id' | 'channel' | 'body' | 'hashtags' | 'image_path'> | null,
+): { body: string; image_path: string | null; variant_id: string | null } {
+    if (!variant || !variant.body.trim()) {
+        return { body: post.body || '', image_path: post.image_path, variant_id: null }
+    }
+    return {
+        body: composeChannelPost(variant.body, variant.hashtags || [], variant.channel),
+        image_path: variant.image_path || post.image_path,
+        variant_id: variant.id,
+    }
+}
@@ -0,0 +1,122 @@
+// Text Chunking
+// Splits source documents into overlapping chunks for embedding. Breaks on
+// paragraph, then sentence, then word boundaries so chunks stay readable
+// when quoted back as grounding context.
+
+export interface ChunkOptions {
+    /** Upper bound on characters per chunk */
+    maxChars?: number
+    /** Characters carried over from the end of the previous chunk */
+    overlapChars?: number
+    /** Chunks shorter than this are merged into their neighbour */
+    minChars?: number
+}
+
+export interface TextChunk {
+    index: number
+    content: string
+    /** Offset of the chunk start in the normalised text */
+    start: number
+}
+
+const DEFAULT_MAX_CHARS = 1200
+const DEFAULT_OVERLAP_CHARS = 150
+const DEFAULT_MIN_CHARS = 200
+
+export function normaliseText(text: string): string {
+    return text
+        .replace(/\r\n?/g, '\n')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim()
+}
+
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+    const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS
+    const overlapChars = Math.min(options.overlapChars ?? DEFAULT_OVERLAP_CHARS, Math.floor(maxChars / 2))
+    const minChars = options.minChars ?? DEFAULT_MIN_CHARS
+    const normalised = normaliseText(text)
+    if (!normalised) return []
+
+    // Units no longer than maxChars, each ending on the best boundary available
+    const units = splitIntoUnits(normalised, maxChars)
+
+    const chunks: TextChunk[] = []
+    let current = ''
+    let currentStart = 0
+    let cursor = 0
+
+    for (const unit of units) {
+        const found = normalised.indexOf(unit, cursor)
+        const unitStart = found === -1 ? cursor : found
+        cursor = unitStart + unit.length
+
+        if (current && current.length + unit.length + 1 > maxChars) {
+            chunks.push({ index: chunks.length, content: current.trim(), start: currentStart })
+            const overlap = takeOverlap(current, overlapChars)
+            current = overlap ? `${overlap} ${unit}` : unit
+            currentStart = unitStart - (overlap ? overlap.length + 1 : 0)
+        } else {
+            if (!current) currentStart = unitStart
+            current = current ? `${current} ${unit}` : unit
+        }
+    }
+
+    if (current.trim()) {
+        const last = chunks[chunks.length - 1]
+        if (last && current.length < minChars && last.content.length + current.length + 1 <= maxChars + minChars) {
+            last.content = `${last.content} ${current}`.trim()
+        } else {
+            chunks.push({ index: chunks.length, content: current.trim(), start: currentStart })
+        }
+    }
+
+    return chunks
+}
+
+function splitIntoUnits(text: string, maxChars: number): string[] {
+    const units: string[] = []
+    for (const paragraph of text.split(/\n\n+/)) {
+        if (paragraph.length <= maxChars) {
+            units.push(paragraph.trim())
+            continue
+        }
+        for (const sentence of paragraph.match(/[^.!?\n]+[.!?]*["')\]]*\s*|\n/g) || [paragraph]) {
+            const trimmed = sentence.trim()
+            if (!trimmed) continue
+            if (trimmed.length <= maxChars) {
+                units.push(trimmed)
+            } else {
+                units.push(...splitOnWords(trimmed, maxChars))
+            }
+        }
+    }
+    return units.filter(Boolean)
+}
+
+function splitOnWords(text: string, maxChars: number): string[] {
+    const parts: string[] = []
+    let current = ''
+    for (const word of text.split(' ')) {
+        if (current && current.length + word.length + 1 > maxChars) {
+            parts.push(current)
+            current = ''
+        }
+        // A single word longer than maxChars (e.g. a URL) is hard-split
+        if (word.length > maxChars) {
+            for (let i = 0; i < word.length; i += maxChars) parts.push(word.slice(i, i + maxChars))
+            continue
+        }
+        current = current ? `${current} ${word}` : word
+    }
+    if (current) parts.push(current)
+    return parts
+}
+
+// Trailing text to repeat at the start of the next chunk, starting on a word
+function takeOverlap(text: string, overlapChars: number): string {
+    if (overlapChars <= 0 || text.length <= overlapChars) return ''
+    const tail = text.slice(-overlapChars)
+    const firstSpace = tail.indexOf(' ')
+    return firstSpace === -1 ? '' : tail.slice(firstSpace + 1).trim()
+}
@@ -0,0 +1,116 @@
+// Post Classification
+// The classify-posts function asks the text model which content layer and
+// category a post belongs to, with a confidence score. Confident results are
+// applied as 'auto'; the rest wait in a review queue as 'needs_review'. A
+// person confirming or changing the classification marks it 'confirmed',
+// and automatic classification leaves those posts alone from then on.
+
+import {
+    CONTENT_CATEGORIES,
+    CONTENT_LAYERS,
+    getCategoryLayer,
+    isContentCategory,
+    type ContentCategory,
+    type ContentLayer,
+} from './content-mix.ts'
+import { diffStats, diffText } from './text-diff.ts'
+
+export type ClassificationStatus = 'auto' | 'needs_review' | 'confirmed'
+
+export const CLASSIFICATION_STATUS_LABELS: Record<ClassificationStatus, string> = {
+    auto: 'Classified',
+    needs_review: 'Needs review',
+    confirmed: 'Confirmed',
+}
+
+// Results below this confidence go to the review queue
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.7
+
+// Share of a post's words that must change before it is re-classified
+export const SUBSTANTIAL_CHANGE_RATIO = 0.3
+
+// Posts sent to the model per classify-posts request
+export const CLASSIFY_BATCH_SIZE = 10
+
+export interface PostClassification {
+    layer: ContentLayer
+    category: ContentCategory
+    /** 0-1, as reported by the model */
+    confidence: number
+    reason: string
+}
+
+/** posts.classification_meta */
+export interface ClassificationMeta {
+    provider?: string
+    model?: string
+    reason?: string
+    /** Where the layer came from when it was not classified from the body */
+    source?: 'ai' | 'campaign_plan' | 'manual' | 'feed' | 'repurpose'
+}
+
+export function classificationStatus(confidence: number): ClassificationStatus {
+    return confidence >= REVIEW_CONFIDENCE_THRESHOLD ? 'auto' : 'needs_review'
+}
+
+/**
+ * System prompt for classifying a post. `layer` restricts the choice to one
+ * layer's categories, e.g. when a campaign plan already fixed the layer.
+ */
+export function buildClassificationPrompt(layer?: ContentLayer | null): string {
+    const layers = layer ? CONTENT_LAYERS.filter(l => l.value === layer) : CONTENT_LAYERS
+    const categories = layers.flatMap(l => CONTENT_CATEGORIES
+        .filter(c => c.layer === l.value)
+        .map(c => `- ${c.value}: ${c.label} (layer: ${l.label} - ${l.description})`))
+
+    return `You classify LinkedIn posts by content type. Pick the single category that best describes what the post is about and why it was written.
+
+CATEGORIES:
+${categories.join('\n')}
+
+Give a confidence between 0 and 1: near 1 when the post clearly fits one category, below ${REVIEW_CONFIDENCE_THRESHOLD} when it could reasonably fit several or fits none well.
+
+Return ONLY a JSON object:
+{"category": "<category key>", "confidence": 0.85, "reason": "<one short sentence>"}`
+}
+
+/** Prompt for one post */
+export function buildClassificationInput(post: { title?: string | null; body: string }): string {
+    return `${post.title ? `TITLE: ${post.title}\n\n` : ''}POST:\n${post.body}`
+}
+
+/**
+ * Validates the model's answer. An unknown category, or one outside the
+ * required layer, gives null.
+ */
+export function parseClassification(raw: unknown, layer?: ContentLayer | null): PostClassification | null {
+    const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+    if (!isContentCategory(r.category)) return null
+
+    const categoryLayer = getCategoryLayer(r.category)
+    if (layer && categoryLayer !== layer) return null
+
+    const confidence = Number(r.confidence)
+    return {
+        layer: categoryLayer,
+        category: r.category,
+        confidence: Number.isFinite(confidence) ? Math.round(Math.min(1, Math.max(0, confidence)) * 1000) / 1000 : 0,
+        reason: typeof r.reason === 'string' ? r.reason.trim() : '',
+    }
+}
+
+/**
+ * Whether an edit changed enough of the post to classify it again: a new
+ * body, or one where at least SUBSTANTIAL_CHANGE_RATIO of the words differ.
+ */
+export function isSubstantialChange(before: string | null | undefined, after: string | null | undefined): boolean {
+    const next = (after || '').trim()
+    if (!next) return false
+    const previous = (before || '').trim()
+    if (!previous) return true
+
+    const stats = diffStats(diffText(previous, next))
+    const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length
+    const words = Math.max(countWords(previous), countWords(next), 1)
+    return Math.max(stats.inserted, stats.deleted) / words >= SUBSTANTIAL_CHANGE_RATIO
+}
@@ -0,0 +1,308 @@
+// Content Mix
+// Posts are tagged with a content layer and category. A campaign can set
+// target percentages per layer, and optionally per category, in
+// generation_settings.content_mix. Ideas are planned against those targets,
+// posts inherit their idea's slot, and the campaign page compares the
+// planned mix with what was actually produced.
+
+export type ContentLayer = 'general' | 'things_we_sell' | 'market_insights' | 'hot_topics'
+
+export type ContentCategory =
+    | 'culture'
+    | 'milestone'
+    | 'behind_the_scenes'
+    | 'product'
+    | 'case_study'
+    | 'testimonial'
+    | 'industry_trend'
+    | 'opinion'
+    | 'data_insight'
+    | 'news_reaction'
+    | 'event'
+    | 'trending'
+
+export const CONTENT_LAYERS: { value: ContentLayer; label: string; description: string }[] = [
+    { value: 'general', label: 'General', description: 'Brand awareness, culture, values' },
+    { value: 'things_we_sell', label: 'Things We Sell', description: 'Products, services, case studies' },
+    { value: 'market_insights', label: 'Market Insights', description: 'Industry trends, thought leadership' },
+    { value: 'hot_topics', label: 'Hot Topics', description: 'Timely/reactive, what happened today' },
+]
+
+export const CONTENT_CATEGORIES: { value: ContentCategory; label: string; layer: ContentLayer }[] = [
+    { value: 'culture', label: 'Culture & Team', layer: 'general' },
+    { value: 'milestone', label: 'Milestones & Wins', layer: 'general' },
+    { value: 'behind_the_scenes', label: 'Behind the Scenes', layer: 'general' },
+    { value: 'product', label: 'Product/Service', layer: 'things_we_sell' },
+    { value: 'case_study', label: 'Case Study', layer: 'things_we_sell' },
+    { value: 'testimonial', label: 'Testimonial', layer: 'things_we_sell' },
+    { value: 'industry_trend', label: 'Industry Trend', layer: 'market_insights' },
+    { value: 'opinion', label: 'Opinion/POV', layer: 'market_insights' },
+    { value: 'data_insight', label: 'Data & Research', layer: 'market_insights' },
+    { value: 'news_reaction', label: 'News Reaction', layer: 'hot_topics' },
+    { value: 'event', label: 'Event/Conference', layer: 'hot_topics' },
+    { value: 'trending', label: 'Trending Topic', layer: 'hot_topics' },
+]
+
+/**
+ * Target percentages of the campaign's posts. A category target counts
+ * towards its layer; a layer target above its categories' total leaves the
+ * rest of that layer to any of its categories.
+ */
+export interface ContentMix {
+    layers: Partial<Record<ContentLayer, number>>
+    categories: Partial<Record<ContentCategory, number>>
+}
+
+/** The layer and category an idea or post is planned for */
+export interface ContentSlot {
+    layer: ContentLayer
+    category: ContentCategory | null
+}
+
+// Percentage points between planned and actual share before warning
+export const MIX_DRIFT_THRESHOLD = 15
+// Posts needed before drift is worth reporting
+export const MIX_DRIFT_MIN_POSTS = 4
+
+export const EMPTY_CONTENT_MIX: ContentMix = { layers: {}, categories: {} }
+
+export function isContentLayer(value: unknown): value is ContentLayer {
+    return CONTENT_LAYERS.some(l => l.value === value)
+}
+
+export function isContentCategory(value: unknown): value is ContentCategory {
+    return CONTENT_CATEGORIES.some(c => c.value === value)
+}
+
+export function getCategoryLayer(category: ContentCategory): ContentLayer {
+    return CONTENT_CATEGORIES.find(c => c.value === category)!.layer
+}
+
+export function layerLabel(layer: ContentLayer): string {
+    return CONTENT_LAYERS.find(l => l.value === layer)?.label || layer
+}
+
+export function categoryLabel(category: ContentCategory): string {
+    return CONTENT_CATEGORIES.find(c => c.value === category)?.label || category
+}
+
+function clampPercent(value: unknown): number {
+    const n = Math.round(Number(value))
+    return Number.isFinite(n) ? Math.min(100, Math.max(0, n)) : 0
+}
+
+/** Cleans a stored mix: unknown keys and zero targets are dropped */
+export function normaliseContentMix(raw: unknown): ContentMix {
+    const r = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof ContentMix, Record<string, unknown>>>
+    const mix: ContentMix = { layers: {}, categories: {} }
+
+    for (const [key, value] of Object.entries(r.layers || {})) {
+        const percent = clampPercent(value)
+        if (isContentLayer(key) && percent > 0) mix.layers[key] = percent
+    }
+    for (const [key, value] of Object.entries(r.categories || {})) {
+        const percent = clampPercent(value)
+        if (isContentCategory(key) && percent > 0) mix.categories[key] = percent
+    }
+    return mix
+}
+
+/** A layer's effective target: its own, or its categories' total if higher */
+export function layerTarget(mix: ContentMix, layer: ContentLayer): number {
+    const categoryTotal = CONTENT_CATEGORIES
+        .filter(c => c.layer === layer)
+        .reduce((sum, c) => sum + (mix.categories[c.value] || 0), 0)
+    return Math.max(mix.layers[layer] || 0, categoryTotal)
+}
+
+export function mixTotal(mix: ContentMix): number {
+    return CONTENT_LAYERS.reduce((sum, l) => sum + layerTarget(mix, l.value), 0)
+}
+
+export function hasContentMix(mix: ContentMix): boolean {
+    return mixTotal(mix) > 0
+}
+
+/** Problems with a mix as entered, for the settings form */
+export function validateContentMix(mix: ContentMix): string[] {
+    const total = mixTotal(mix)
+    if (total === 0 || total === 100) return []
+    return [`Targets add up to ${total}%. They are scaled to 100% when planning.`]
+}
+
+// ── Planning ─────────────────────────────────────────
+
+// The units targets are planned in: each category with a target, plus each
+// layer's remainder with the category left open
+interface MixLeaf extends ContentSlot {
+    weight: number
+}
+
+function mixLeaves(mix: ContentMix): MixLeaf[] {
+    const leaves: MixLeaf[] = []
+    for (const layer of CONTENT_LAYERS) {
+        const categories = CONTENT_CATEGORIES.filter(c => c.layer === layer.value && mix.categories[c.value])
+        for (const c of categories) {
+            leaves.push({ layer: layer.value, category: c.value, weight: mix.categories[c.value]! })
+        }
+        const remainder = layerTarget(mix, layer.value) - categories.reduce((sum, c) => sum + mix.categories[c.value]!, 0)
+        if (remainder > 0) leaves.push({ layer: layer.value, category: null, weight: remainder })
+    }
+    return leaves
+}
+
+// Index of the leaf an existing slot counts towards, or -1
+function leafIndex(leaves: MixLeaf[], slot: ContentSlot): number {
+    const exact = leaves.findIndex(l => l.category !== null && l.category === slot.category)
+    if (exact >= 0) return exact
+    return leaves.findIndex(l => l.category === null && l.layer === slot.layer)
+}
+
+/** Splits `total` in proportion to `weights` (largest remainder method) */
+export function allocateByWeight(weights: number[], total: number): number[] {
+    const sum = weights.reduce((a, b) => a + b, 0)
+    if (sum <= 0 || total <= 0) return weights.map(() => 0)
+
+    const exact = weights.map(w => (w / sum) * total)
+    const counts = exact.map(Math.floor)
+    let left = total - counts.reduce((a, b) => a + b, 0)
+
+    const byRemainder = exact
+        .map((value, i) => ({ i, remainder: value - counts[i] }))
+        .sort((a, b) => b.remainder - a.remainder || a.i - b.i)
+    for (const { i } of byRemainder) {
+        if (left === 0) break
+        counts[i] += 1
+        left -= 1
+    }
+    return counts
+}
+
+/**
+ * Slots for `count` new ideas so that, together with `existing`, the
+ * campaign moves towards its targets. Under-represented slots are filled
+ * first; the rest follows the targets. Slots are interleaved rather than
+ * grouped, so any run of ideas is itself roughly on mix. Empty without a mix.
+ */
+export function planContentMix(mix: ContentMix, count: number, existing: ContentSlot[] = []): ContentSlot[] {
+    const leaves = mixLeaves(mix)
+    if (leaves.length === 0 || count <= 0) return []
+
+    const weights = leaves.map(l => l.weight)
+    const targets = allocateByWeight(weights, count + existing.length)
+    const have = leaves.map(() => 0)
+    for (const slot of existing) {
+        const i = leafIndex(leaves, slot)
+        if (i >= 0) have[i] += 1
+    }
+
+    const deficits = targets.map((t, i) => Math.max(0, t - have[i]))
+    const deficitTotal = deficits.reduce((a, b) => a + b, 0)
+    const counts = deficitTotal >= count
+        ? allocateByWeight(deficits, count)
+        : allocateByWeight(weights, count - deficitTotal).map((n, i) => n + deficits[i])
+
+    // Spread each leaf's slots evenly over the sequence
+    return counts
+        .flatMap((n, i) => Array.from({ length: n }, (_, j) => ({ leaf: leaves[i], position: (j + 0.5) / n, i })))
+        .sort((a, b) => a.position - b.position || a.i - b.i)
+        .map(({ leaf }) => ({ layer: leaf.layer, category: leaf.category }))
+}
+
+/**
+ * The slot to store for an idea: the planned slot, with the category the
+ * model chose when the plan left it open. Without a plan the model's
+ * category decides the layer.
+ */
+export function resolveContentSlot(planned: ContentSlot | null, modelCategory: unknown): ContentSlot | null {
+    const category = isContentCategory(modelCategory) ? modelCategory : null
+
+    if (!planned) {
+        return category ? { layer: getCategoryLayer(category), category } : null
+    }
+    if (planned.category) return planned
+    return {
+        layer: planned.layer,
+        category: category && getCategoryLayer(category) === planned.layer ? category : null,
+    }
+}
+
+/** Prompt line describing what kind of post a slot calls for */
+export function describeContentSlot(slot: ContentSlot): string {
+    const layer = CONTENT_LAYERS.find(l => l.value === slot.layer)!
+    return slot.category
+        ? `${layer.label} - ${categoryLabel(slot.category)} (${layer.description})`
+        : `${layer.label} (${layer.description})`
+}
+
+/** Reads a stored slot, e.g. from generated_idea_mix or a post row */
+export function toContentSlot(layer: unknown, category: unknown): ContentSlot | null {
+    if (isContentCategory(category)) {
+        return { layer: getCategoryLayer(category), category }
+    }
+    return isContentLayer(layer) ? { layer, category: null } : null
+}
+
+// ── Drift ────────────────────────────────────────────
+
+export interface MixComparisonRow {
+    layer: ContentLayer
+    /** Set for category rows; null for the layer as a whole */
+    category: ContentCategory | null
+    label: string
+    planned_percent: number
+    actual_count: number
+    actual_percent: number
+    /** Actual minus planned, in percentage points */
+    drift: number
+    warning: string | null
+}
+
+export interface MixComparison {
+    rows: MixComparisonRow[]
+    /** Items with a slot */
+    total: number
+    /** Items with no layer yet */
+    unassigned: number
+    warnings: string[]
+}
+
+/**
+ * Planned versus actual share for each layer and each targeted category.
+ * Slots that are null count as unassigned and are left out of the shares.
+ */
+export function compareContentMix(mix: ContentMix, slots: (ContentSlot | null)[]): MixComparison {
+    const assigned = slots.filter((s): s is ContentSlot => !!s)
+    const total = assigned.length
+    const scale = mixTotal(mix) || 100
+    const canWarn = hasContentMix(mix) && total >= MIX_DRIFT_MIN_POSTS
+
+    const row = (layer: ContentLayer, category: ContentCategory | null, planned: number, count: number): MixComparisonRow => {
+        const plannedPercent = Math.round((planned / scale) * 100)
+        const actualPercent = total ? Math.round((count / total) * 100) : 0
+        const drift = actualPercent - plannedPercent
+        const label = category ? categoryLabel(category) : layerLabel(layer)
+        let warning: string | null = null
+        if (canWarn && Math.abs(drift) >= MIX_DRIFT_THRESHOLD) {
+            warning = drift > 0
+                ? `${label} is over target: ${actualPercent}% of posts against ${plannedPercent}% planned.`
+                : `${label} is under target: ${actualPercent}% of posts against ${plannedPercent}% planned.`
+        }
+        return { layer, category, label, planned_percent: plannedPercent, actual_count: count, actual_percent: actualPercent, drift, warning }
+    }
+
+    const rows: MixComparisonRow[] = []
+    for (const layer of CONTENT_LAYERS) {
+        rows.push(row(layer.value, null, layerTarget(mix, layer.value), assigned.filter(s => s.layer === layer.value).length))
+        for (const c of CONTENT_CATEGORIES.filter(c => c.layer === layer.value && mix.categories[c.value])) {
+            rows.push(row(layer.value, c.value, mix.categories[c.value]!, assigned.filter(s => s.category === c.value).length))
+        }
+    }
+
+    return {
+        rows,
+        total,
+        unassigned: slots.length - total,
+        warnings: rows.map(r => r.warning).filter((w): w is string => !!w),
+    }
+}
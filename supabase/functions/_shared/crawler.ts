@@ -0,0 +1,341 @@
+// Website Crawler
+// crawl-website seeds from the site's sitemap.xml (and the sitemaps robots.txt
+// lists), follows same-site links up to a configured depth, and skips paths
+// robots.txt disallows for our user agent or the space's include/exclude
+// patterns leave out. Each stored page keeps a hash of its text, so a recrawl
+// only rewrites pages whose content changed; unchanged pages keep their
+// confirmation and source chunks. Every crawl is recorded in website_crawls
+// with the pages added, changed and removed. Page text is the main content
+// as Markdown, with the page's structured data alongside (html-extract.ts).
+
+import { extractHtml, structuredData, type PageStructuredData } from './html-extract.ts'
+
+export const CRAWLER_USER_AGENT = 'SocialExpress/1.0 (Brand Discovery)'
+
+// The robots.txt token our rules are matched against
+export const ROBOTS_AGENT_TOKEN = 'socialexpress'
+
+export const DEFAULT_MAX_DEPTH = 3
+export const MAX_CRAWL_DEPTH = 10
+export const DEFAULT_MAX_PAGES = 50
+export const MAX_CRAWL_PAGES = 200
+
+// Longest Crawl-delay honoured between requests
+export const MAX_CRAWL_DELAY_MS = 5000
+
+// Child sitemaps read from a sitemap index, and URLs taken from sitemaps
+export const MAX_CHILD_SITEMAPS = 10
+export const MAX_SITEMAP_URLS = 1000
+
+// Markdown stored per page
+export const MAX_PAGE_TEXT_CHARS = 20000
+
+/** crawl_settings, and the settings recorded on each crawl */
+export interface CrawlSettings {
+    /** Path patterns a page must match one of, e.g. /services/*; empty allows all */
+    include_patterns: string[]
+    /** Path patterns that leave a page out, e.g. /blog/* */
+    exclude_patterns: string[]
+    /** Links followed from a seed page; 0 crawls only the seeds */
+    max_depth: number
+    max_pages: number
+    use_sitemap: boolean
+}
+
+export const DEFAULT_CRAWL_SETTINGS: CrawlSettings = {
+    include_patterns: [],
+    exclude_patterns: [],
+    max_depth: DEFAULT_MAX_DEPTH,
+    max_pages: DEFAULT_MAX_PAGES,
+    use_sitemap: true,
+}
+
+export type CrawlStatus = 'running' | 'completed' | 'failed'
+
+/** website_crawls.changes */
+export interface CrawlChanges {
+    added: string[]
+    changed: string[]
+    removed: string[]
+}
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+    const n = Math.round(Number(value))
+    return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback
+}
+
+function normalisePatterns(value: unknown): string[] {
+    const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split('\n') : []
+    return [...new Set(list
+        .filter((p): p is string => typeof p === 'string')
+        .map(p => p.trim())
+        .filter(Boolean))]
+}
+
+/** Cleans stored or submitted settings; missing values take the defaults */
+export function normaliseCrawlSettings(raw: unknown): CrawlSettings {
+    const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+    return {
+        include_patterns: normalisePatterns(r.include_patterns),
+        exclude_patterns: normalisePatterns(r.exclude_patterns),
+        max_depth: clampInt(r.max_depth, 0, MAX_CRAWL_DEPTH, DEFAULT_MAX_DEPTH),
+        max_pages: clampInt(r.max_pages, 1, MAX_CRAWL_PAGES, DEFAULT_MAX_PAGES),
+        use_sitemap: r.use_sitemap !== false,
+    }
+}
+
+// ── URLs ─────────────────────────────────────────────
+
+const SKIPPED_EXTENSIONS = /\.(pdf|jpe?g|png|gif|svg|webp|ico|css|js|json|xml|zip|mp4|mp3|docx?|xlsx?|pptx?)$/i
+
+/** Adds https:// when missing and drops the trailing slash, as typed by a person */
+export function normaliseRootUrl(input: string): string {
+    let url = input.trim()
+    if (!/^https?:\/\//i.test(url)) url = `https://${url}`
+    return url.replace(/\/+$/, '')
+}
+
+/**
+ * The form a page is stored under: no fragment, no trailing slash except for
+ * the home page, and a lower-case host. Returns null for anything that is not
+ * an http(s) URL.
+ */
+export function normalisePageUrl(url: string, base?: string): string | null {
+    let parsed: URL
+    try {
+        parsed = base ? new URL(url, base) : new URL(url)
+    } catch {
+        return null
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null
+    parsed.hash = ''
+    parsed.hostname = parsed.hostname.toLowerCase()
+    const path = parsed.pathname.length > 1 ? parsed.pathname.replace(/\/+$/, '') : parsed.pathname
+    return `${parsed.origin}${path}${parsed.search}`
+}
+
+/** Hosts count as the same site with or without www. */
+export function isSameSite(url: string, rootUrl: string): boolean {
+    try {
+        const host = (u: string) => new URL(u).hostname.toLowerCase().replace(/^www\./, '')
+        return host(url) === host(rootUrl)
+    } catch {
+        return false
+    }
+}
+
+function patternToRegExp(pattern: string): RegExp {
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+    return new RegExp(`^${escaped}$`, 'i')
+}
+
+/**
+ * Path patterns: `*` matches anything, including slashes, and a pattern
+ * without one matches that path and everything below it, so `/blog` covers
+ * `/blog/post-1`.
+ */
+export function matchesPathPattern(path: string, pattern: string): boolean {
+    const p = pattern.startsWith('/') ? pattern : `/${pattern}`
+    if (p.includes('*')) return patternToRegExp(p).test(path)
+    const prefix = p.replace(/\/+$/, '')
+    return path === prefix || path.startsWith(`${prefix}/`) || (prefix === '' && path === '/')
+}
+
+/** Whether the include/exclude patterns allow a page */
+export function isInCrawlScope(url: string, settings: Pick<CrawlSettings, 'include_patterns' | 'exclude_patterns'>): boolean {
+    let path: string
+    try {
+        path = new URL(url).pathname || '/'
+    } catch {
+        return false
+    }
+    if (SKIPPED_EXTENSIONS.test(path)) return false
+    if (settings.exclude_patterns.some(p => matchesPathPattern(path, p))) return false
+    if (settings.include_patterns.length === 0) return true
+    // The home page is always in scope so there is somewhere to start
+    return path === '/' || settings.include_patterns.some(p => matchesPathPattern(path, p))
+}
+
+export function pageTypeFromPath(path: string): string {
+    if (path === '/' || path === '') return 'home'
+    if (/^\/(about|about-us|who-we-are)(\/|$)/i.test(path)) return 'about'
+    if (/^\/contact/i.test(path)) return 'contact'
+    if (/\/(work|case-stud|portfolio)/i.test(path)) return 'case-study'
+    if (/\/(blog|news|post|insights?)\//i.test(path)) return 'blog'
+    if (/\/(services?|what-we-do|our-services)/i.test(path)) return 'service'
+    return 'page'
+}
+
+// ── robots.txt ───────────────────────────────────────
+
+interface RobotsRule {
+    allow: boolean
+    path: string
+}
+
+export interface RobotsRules {
+    rules: RobotsRule[]
+    /** Seconds between requests, if the site asks for one */
+    crawl_delay: number | null
+    sitemaps: string[]
+}
+
+export const EMPTY_ROBOTS: RobotsRules = { rules: [], crawl_delay: null, sitemaps: [] }
+
+/**
+ * Reads the group of rules for our agent token, or the `*` group when the
+ * site has none for us. Sitemap lines apply to every group.
+ */
+export function parseRobotsTxt(text: string, agentToken = ROBOTS_AGENT_TOKEN): RobotsRules {
+    const groups: { agents: string[]; rules: RobotsRule[]; crawl_delay: number | null }[] = []
+    const sitemaps: string[] = []
+    let current: (typeof groups)[number] | null = null
+    let lastWasAgent = false
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim()
+        const separator = line.indexOf(':')
+        if (separator < 0) continue
+        const field = line.slice(0, separator).trim().toLowerCase()
+        const value = line.slice(separator + 1).trim()
+
+        if (field === 'sitemap') {
+            if (value) sitemaps.push(value)
+            continue
+        }
+        if (field === 'user-agent') {
+            if (!current || !lastWasAgent) {
+                current = { agents: [], rules: [], crawl_delay: null }
+                groups.push(current)
+            }
+            current.agents.push(value.toLowerCase())
+            lastWasAgent = true
+            continue
+        }
+        lastWasAgent = false
+        if (!current) continue
+
+        if (field === 'allow' || field === 'disallow') {
+            // An empty Disallow allows everything, so it adds no rule
+            if (value) current.rules.push({ allow: field === 'allow', path: value })
+        } else if (field === 'crawl-delay') {
+            const delay = Number(value)
+            if (Number.isFinite(delay) && delay >= 0) current.crawl_delay = delay
+        }
+    }
+
+    const token = agentToken.toLowerCase()
+    const group = groups.find(g => g.agents.some(agent => agent !== '*' && token.includes(agent)))
+        || groups.find(g => g.agents.includes('*'))
+
+    return {
+        rules: group?.rules || [],
+        crawl_delay: group?.crawl_delay ?? null,
+        sitemaps,
+    }
+}
+
+function robotsPatternMatches(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$')
+    const body = anchored ? pattern.slice(0, -1) : pattern
+    const escaped = body.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+    return new RegExp(`^${escaped}${anchored ? '$' : ''}`).test(path)
+}
+
+/**
+ * Whether robots.txt lets us fetch a path (with its query string). The most
+ * specific (longest) matching rule wins, and Allow wins a tie.
+ */
+export function isAllowedByRobots(robots: RobotsRules, pathWithQuery: string): boolean {
+    let best: RobotsRule | null = null
+    for (const rule of robots.rules) {
+        if (!robotsPatternMatches(rule.path, pathWithQuery)) continue
+        if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+            best = rule
+        }
+    }
+    return best ? best.allow : true
+}
+
+/** Milliseconds to wait between requests */
+export function crawlDelayMs(robots: RobotsRules): number {
+    return robots.crawl_delay ? Math.min(MAX_CRAWL_DELAY_MS, robots.crawl_delay * 1000) : 0
+}
+
+// ── Sitemaps ─────────────────────────────────────────
+
+export interface ParsedSitemap {
+    /** Page URLs from a urlset */
+    urls: string[]
+    /** Child sitemap URLs from a sitemapindex */
+    sitemaps: string[]
+}
+
+function decodeXmlText(text: string): string {
+    return text
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .trim()
+}
+
+function locValues(xml: string, parent: string): string[] {
+    const blocks = xml.match(new RegExp(`<(?:\\w+:)?${parent}\\b[\\s\\S]*?</(?:\\w+:)?${parent}>`, 'gi')) || []
+    return blocks
+        .map(block => block.match(/<(?:\w+:)?loc\b[^>]*>([\s\S]*?)<\/(?:\w+:)?loc>/i)?.[1])
+        .filter((loc): loc is string => !!loc)
+        .map(decodeXmlText)
+        .filter(Boolean)
+}
+
+export function parseSitemap(xml: string): ParsedSitemap {
+    return {
+        urls: locValues(xml, 'url'),
+        sitemaps: locValues(xml, 'sitemap'),
+    }
+}
+
+// ── Pages ────────────────────────────────────────────
+
+export interface ExtractedPage {
+    title: string | null
+    /** The page's main content as Markdown (see html-extract.ts) */
+    text: string
+    links: string[]
+    structured: PageStructuredData
+}
+
+/** Cuts Markdown at the last block boundary that fits */
+export function truncateMarkdown(markdown: string, maxChars = MAX_PAGE_TEXT_CHARS): string {
+    if (markdown.length <= maxChars) return markdown
+    const cut = markdown.lastIndexOf('\n\n', maxChars)
+    return (cut > maxChars / 2 ? markdown.slice(0, cut) : markdown.slice(0, maxChars)).trim()
+}
+
+/** Title, main content, structured data and same-site links of a page */
+export function extractPage(html: string, pageUrl: string): ExtractedPage {
+    const extraction = extractHtml(html, pageUrl)
+    const title = extraction.title?.replace(/\s*[|–—-].*$/, '') || extraction.og.title || null
+
+    const links = new Set<string>()
+    for (const link of extraction.links) {
+        const url = normalisePageUrl(link)
+        if (url && isSameSite(url, pageUrl)) links.add(url)
+    }
+
+    return {
+        title,
+        text: truncateMarkdown(extraction.markdown),
+        links: [...links],
+        structured: structuredData(extraction),
+    }
+}
+
+/** A page's meta robots tag asks crawlers not to index it */
+export function isNoIndex(html: string): boolean {
+    const meta = html.match(/<meta[^>]+name\s*=\s*["']robots["'][^>]*>/i)?.[0]
+    return !!meta && /content\s*=\s*["'][^"']*noindex/i.test(meta)
+}
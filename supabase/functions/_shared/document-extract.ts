@@ -0,0 +1,465 @@
+// Document Extraction
+// Reads the text of an uploaded brand document in the browser, so only text
+// is sent to ingest-document; sharepoint-sync reads synced files the same way.
+// DOCX and PPTX are ZIP archives of XML: the archive is read directly and
+// entries are inflated with DecompressionStream.
+// Headings, list items and table rows in DOCX become Markdown; each PPTX slide
+// becomes a section. PDF text is read from the page content streams' text
+// operators, which covers documents exported from Word, PowerPoint and design
+// tools; scanned PDFs and PDFs whose fonts hide their text yield little or
+// nothing and are reported as such. Markdown and plain text are kept as-is.
+
+export type DocumentFormat = 'pdf' | 'docx' | 'pptx' | 'markdown' | 'text'
+
+export const DOCUMENT_FORMAT_LABELS: Record<DocumentFormat, string> = {
+    pdf: 'PDF',
+    docx: 'Word',
+    pptx: 'PowerPoint',
+    markdown: 'Markdown',
+    text: 'Text',
+}
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+    pdf: 'pdf',
+    docx: 'docx',
+    pptx: 'pptx',
+    md: 'markdown',
+    markdown: 'markdown',
+    txt: 'text',
+}
+
+/** For <input accept> */
+export const UPLOAD_ACCEPT = Object.keys(EXTENSION_FORMATS).map(ext => `.${ext}`).join(',')
+
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024
+
+// Longest text stored per document; the rest is dropped with a warning
+export const MAX_DOCUMENT_CHARS = 200000
+
+// Shorter than this and there is nothing worth retrieving
+export const MIN_DOCUMENT_CHARS = 50
+
+export interface ExtractedDocument {
+    format: DocumentFormat
+    /** Document title from its properties, else the file name without extension */
+    title: string
+    text: string
+    /** Pages (PDF) or slides (PPTX) read */
+    pages: number | null
+    warnings: string[]
+}
+
+export function documentFormat(fileName: string): DocumentFormat | null {
+    const ext = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1]
+    return ext ? EXTENSION_FORMATS[ext] || null : null
+}
+
+export function titleFromFileName(fileName: string): string {
+    return fileName.replace(/\.[a-z0-9]+$/i, '').replace(/[_]+/g, ' ').trim() || fileName
+}
+
+// ── Shared helpers ───────────────────────────────────
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&amp;/g, '&')
+}
+
+function tidyText(text: string): string {
+    return text
+        .replace(/\r\n?/g, '\n')
+        .split(String.fromCharCode(0)).join('')
+        .replace(/[ \t\u00a0]+/g, ' ')
+        .split('\n')
+        .map(line => line.trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim()
+}
+
+async function inflate(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream(format))
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+// ── ZIP ──────────────────────────────────────────────
+
+interface ZipEntry {
+    name: string
+    method: number
+    compressedSize: number
+    localOffset: number
+}
+
+/** Entries of a ZIP archive from its central directory; ZIP64 archives are not supported */
+function readZipEntries(bytes: Uint8Array): ZipEntry[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    let eocd = -1
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            eocd = i
+            break
+        }
+    }
+    if (eocd < 0) throw new Error('The file is not a valid Office document')
+
+    const count = view.getUint16(eocd + 10, true)
+    let offset = view.getUint32(eocd + 16, true)
+    const names = new TextDecoder()
+    const entries: ZipEntry[] = []
+
+    for (let i = 0; i < count && offset + 46 <= bytes.length; i++) {
+        if (view.getUint32(offset, true) !== 0x02014b50) break
+        const nameLength = view.getUint16(offset + 28, true)
+        const extraLength = view.getUint16(offset + 30, true)
+        const commentLength = view.getUint16(offset + 32, true)
+        entries.push({
+            method: view.getUint16(offset + 10, true),
+            compressedSize: view.getUint32(offset + 20, true),
+            localOffset: view.getUint32(offset + 42, true),
+            name: names.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)),
+        })
+        offset += 46 + nameLength + extraLength + commentLength
+    }
+    return entries
+}
+
+async function readZipText(bytes: Uint8Array, entry: ZipEntry): Promise<string> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const header = entry.localOffset
+    const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true)
+    const data = bytes.subarray(dataStart, dataStart + entry.compressedSize)
+
+    if (entry.method === 0) return new TextDecoder().decode(data)
+    if (entry.method === 8) return new TextDecoder().decode(await inflate(data, 'deflate-raw'))
+    throw new Error(`Unsupported compression in ${entry.name}`)
+}
+
+async function coreTitle(bytes: Uint8Array, entries: ZipEntry[]): Promise<string | null> {
+    const core = entries.find(e => e.name === 'docProps/core.xml')
+    if (!core) return null
+    const xml = await readZipText(bytes, core)
+    const title = xml.match(/<dc:title>([^<]*)<\/dc:title>/)?.[1]
+    return title ? decodeXml(title).trim() || null : null
+}
+
+// ── DOCX ─────────────────────────────────────────────
+
+function docxRunText(paragraphXml: string): string {
+    let text = ''
+    const runRegex = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br[^>]*\/>|<w:cr\/>/g
+    let match
+    while ((match = runRegex.exec(paragraphXml)) !== null) {
+        if (match[1] !== undefined) text += decodeXml(match[1])
+        else text += match[0].startsWith('<w:tab') ? '\t' : '\n'
+    }
+    return text.trim()
+}
+
+function docxParagraph(paragraphXml: string): string {
+    const text = docxRunText(paragraphXml)
+    if (!text) return ''
+    const style = paragraphXml.match(/<w:pStyle w:val="([^"]+)"/)?.[1] || ''
+    const heading = style.match(/^(?:Heading|heading)\s?(\d)$/)?.[1]
+    if (style === 'Title') return `# ${text}`
+    if (heading) return `${'#'.repeat(Math.min(6, Number(heading) + 1))} ${text}`
+    if (paragraphXml.includes('<w:numPr>') || /^List/i.test(style)) return `- ${text}`
+    return text
+}
+
+function docxTable(tableXml: string): string {
+    const rows = tableXml.match(/<w:tr[ >][\s\S]*?<\/w:tr>/g) || []
+    return rows
+        .map(row => (row.match(/<w:tc[ >][\s\S]*?<\/w:tc>/g) || [])
+            .map(cell => (cell.match(/<w:p[ >][\s\S]*?<\/w:p>/g) || []).map(docxRunText).filter(Boolean).join(' '))
+            .join(' | '))
+        .filter(row => row.replace(/[|\s]/g, ''))
+        .join('\n')
+}
+
+async function extractDocx(bytes: Uint8Array): Promise<Omit<ExtractedDocument, 'format'>> {
+    const entries = readZipEntries(bytes)
+    const documentEntry = entries.find(e => e.name === 'word/document.xml')
+    if (!documentEntry) throw new Error('The file is not a Word document')
+
+    const xml = await readZipText(bytes, documentEntry)
+    const body = xml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] || xml
+    const blocks = (body.match(/<w:tbl>[\s\S]*?<\/w:tbl>|<w:p[ >][\s\S]*?<\/w:p>/g) || [])
+        .map(block => block.startsWith('<w:tbl>') ? docxTable(block) : docxParagraph(block))
+        .filter(Boolean)
+
+    return {
+        title: (await coreTitle(bytes, entries)) || '',
+        text: blocks.join('\n\n'),
+        pages: null,
+        warnings: [],
+    }
+}
+
+// ── PPTX ─────────────────────────────────────────────
+
+function slideNumber(name: string): number {
+    return Number(name.match(/(\d+)\.xml$/)?.[1] || 0)
+}
+
+function pptxParagraphs(xml: string): string[] {
+    return (xml.match(/<a:p>[\s\S]*?<\/a:p>/g) || [])
+        .map(p => (p.match(/<a:t>([^<]*)<\/a:t>/g) || []).map(t => decodeXml(t.slice(5, -6))).join('').trim())
+        .filter(Boolean)
+}
+
+async function extractPptx(bytes: Uint8Array): Promise<Omit<ExtractedDocument, 'format'>> {
+    const entries = readZipEntries(bytes)
+    const slides = entries
+        .filter(e => /^ppt\/slides\/slide\d+\.xml$/.test(e.name))
+        .sort((a, b) => slideNumber(a.name) - slideNumber(b.name))
+    if (slides.length === 0) throw new Error('The file is not a PowerPoint presentation')
+
+    const notes = new Map(entries
+        .filter(e => /^ppt\/notesSlides\/notesSlide\d+\.xml$/.test(e.name))
+        .map(e => [slideNumber(e.name), e]))
+
+    const sections: string[] = []
+    for (const slide of slides) {
+        const n = slideNumber(slide.name)
+        const paragraphs = pptxParagraphs(await readZipText(bytes, slide))
+        const noteEntry = notes.get(n)
+        // Notes slides repeat the slide number as a paragraph of their own
+        const noteText = noteEntry
+            ? pptxParagraphs(await readZipText(bytes, noteEntry)).filter(p => p !== String(n)).join(' ')
+            : ''
+        if (paragraphs.length === 0 && !noteText) continue
+
+        const [heading, ...rest] = paragraphs
+        const lines = [`## ${heading || `Slide ${n}`}`, ...rest.map(p => `- ${p}`)]
+        if (noteText) lines.push(`Notes: ${noteText}`)
+        sections.push(lines.join('\n'))
+    }
+
+    return {
+        title: (await coreTitle(bytes, entries)) || '',
+        text: sections.join('\n\n'),
+        pages: slides.length,
+        warnings: [],
+    }
+}
+
+// ── PDF ──────────────────────────────────────────────
+
+function pdfStringBytes(literal: string): number[] {
+    const out: number[] = []
+    for (let i = 0; i < literal.length; i++) {
+        const ch = literal[i]
+        if (ch !== '\\') {
+            out.push(ch.charCodeAt(0) & 0xff)
+            continue
+        }
+        const next = literal[++i]
+        if (next === undefined) break
+        const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, '(': 40, ')': 41, '\\': 92 }
+        if (next in escapes) {
+            out.push(escapes[next])
+        } else if (/[0-7]/.test(next)) {
+            let octal = next
+            while (octal.length < 3 && /[0-7]/.test(literal[i + 1] || '')) octal += literal[++i]
+            out.push(parseInt(octal, 8) & 0xff)
+        } else if (next === '\r' || next === '\n') {
+            if (next === '\r' && literal[i + 1] === '\n') i++
+        } else {
+            out.push(next.charCodeAt(0) & 0xff)
+        }
+    }
+    return out
+}
+
+function decodePdfBytes(bytes: number[]): string {
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+        let text = ''
+        for (let i = 2; i + 1 < bytes.length; i += 2) text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1])
+        return text
+    }
+    return String.fromCharCode(...bytes)
+}
+
+function hexStringBytes(hex: string): number[] {
+    const clean = hex.replace(/[^0-9a-f]/gi, '')
+    const padded = clean.length % 2 ? `${clean}0` : clean
+    const out: number[] = []
+    for (let i = 0; i < padded.length; i += 2) out.push(parseInt(padded.slice(i, i + 2), 16))
+    return out
+}
+
+/** Text shown by a content stream's BT ... ET blocks, one line per line move */
+function pdfContentText(content: string): string {
+    const lines: string[] = []
+    let line = ''
+    const pushLine = () => {
+        if (line.trim()) lines.push(line.trim())
+        line = ''
+    }
+
+    const tokenRegex = /\((?:\\[\s\S]|[^\\)])*\)|<[0-9a-fA-F\s]*>|\[|\]|-?\d*\.?\d+|\/[^\s/[\]()<>]+|[A-Za-z'"*]+/g
+    const operands: string[] = []
+    let inText = false
+    let inArray = false
+    let arrayText = ''
+    let match
+
+    const showString = (token: string): string => {
+        if (token.startsWith('(')) return decodePdfBytes(pdfStringBytes(token.slice(1, -1)))
+        const bytes = hexStringBytes(token.slice(1, -1))
+        // Two-byte glyph ids from embedded fonts cannot be read without the font's map
+        return bytes.every(b => b === 0 || (b >= 32 && b < 127)) ? decodePdfBytes(bytes.filter(b => b !== 0)) : ''
+    }
+
+    while ((match = tokenRegex.exec(content)) !== null) {
+        const token = match[0]
+        if (token === 'BT') {
+            inText = true
+            continue
+        }
+        if (token === 'ET') {
+            inText = false
+            pushLine()
+            continue
+        }
+        if (!inText) {
+            operands.length = 0
+            continue
+        }
+
+        if (token === '[') {
+            inArray = true
+            arrayText = ''
+        } else if (token === ']') {
+            inArray = false
+            operands.push(`[${arrayText}]`)
+        } else if (inArray) {
+            if (token.startsWith('(') || token.startsWith('<')) arrayText += showString(token)
+            // Large negative kerning inside TJ arrays is a word gap
+            else if (Number(token) < -200) arrayText += ' '
+        } else if (token === 'Tj' || token === 'TJ') {
+            const operand = operands[operands.length - 1] || ''
+            line += operand.startsWith('[') ? operand.slice(1, -1) : showString(operand)
+            operands.length = 0
+        } else if (token === "'" || token === '"') {
+            pushLine()
+            line += showString(operands[operands.length - 1] || '')
+            operands.length = 0
+        } else if (token === 'T*') {
+            pushLine()
+            operands.length = 0
+        } else if (token === 'Td' || token === 'TD') {
+            // A vertical move starts a new line; a horizontal one is a gap on the same line
+            if (Number(operands[operands.length - 1]) !== 0) pushLine()
+            else if (line && !line.endsWith(' ')) line += ' '
+            operands.length = 0
+        } else if (token === 'Tm') {
+            pushLine()
+            operands.length = 0
+        } else if (/^[A-Za-z*]+$/.test(token)) {
+            operands.length = 0
+        } else {
+            operands.push(token)
+        }
+    }
+    pushLine()
+    return lines.join('\n')
+}
+
+async function extractPdf(bytes: Uint8Array): Promise<Omit<ExtractedDocument, 'format'>> {
+    // Latin-1 maps each byte to one character, so string offsets are byte offsets
+    const raw = new TextDecoder('latin1').decode(bytes)
+    if (!raw.startsWith('%PDF')) throw new Error('The file is not a PDF')
+
+    const pages = (raw.match(/\/Type\s*\/Page(?![a-zA-Z])/g) || []).length || null
+    const title = raw.match(/\/Title\s*\(((?:\\[\s\S]|[^\\)])*)\)/)?.[1]
+    const streamRegex = /\bobj\s*<<((?:(?!endobj)[\s\S])*?)>>\s*stream\r?\n/g
+    const texts: string[] = []
+    let unreadable = 0
+    let match
+
+    while ((match = streamRegex.exec(raw)) !== null) {
+        const dict = match[1]
+        const start = match.index + match[0].length
+        const end = raw.indexOf('endstream', start)
+        if (end < 0) break
+        streamRegex.lastIndex = end
+
+        // Images, fonts, metadata and cross-reference streams hold no page text
+        if (/\/Subtype\s*\/Image|\/Length[123]\b|\/Type\s*\/(XRef|Metadata|EmbeddedFile)|\/FontFile/.test(dict)) continue
+
+        let data = bytes.subarray(start, end)
+        if (/\/FlateDecode/.test(dict)) {
+            try {
+                data = await inflate(data, 'deflate')
+            } catch {
+                unreadable++
+                continue
+            }
+        } else if (/\/Filter/.test(dict)) {
+            unreadable++
+            continue
+        }
+
+        const content = new TextDecoder('latin1').decode(data)
+        if (!/\bBT\b/.test(content)) continue
+        const text = pdfContentText(content)
+        if (text) texts.push(text)
+    }
+
+    const warnings: string[] = []
+    const text = texts.join('\n\n')
+    if (text.replace(/\s/g, '').length < MIN_DOCUMENT_CHARS) {
+        warnings.push('Little or no text could be read from this PDF. It may be scanned or use fonts that hide their text; a Word or text export will work better.')
+    } else if (unreadable > 0) {
+        warnings.push(`${unreadable} parts of this PDF use an encoding that could not be read, so some text may be missing.`)
+    }
+
+    return {
+        title: title ? decodePdfBytes(pdfStringBytes(title)).trim() : '',
+        text,
+        pages,
+        warnings,
+    }
+}
+
+// ── Entry point ──────────────────────────────────────
+
+export async function extractDocumentText(bytes: Uint8Array, fileName: string): Promise<ExtractedDocument> {
+    const format = documentFormat(fileName)
+    if (!format) throw new Error(`${fileName} is not a supported file type`)
+
+    let extracted: Omit<ExtractedDocument, 'format'>
+    if (format === 'docx') {
+        extracted = await extractDocx(bytes)
+    } else if (format === 'pptx') {
+        extracted = await extractPptx(bytes)
+    } else if (format === 'pdf') {
+        extracted = await extractPdf(bytes)
+    } else {
+        const text = new TextDecoder().decode(bytes).replace(/^\uFEFF/, '')
+        extracted = { title: '', text, pages: null, warnings: [] }
+    }
+
+    const warnings = [...extracted.warnings]
+    let text = tidyText(extracted.text)
+    if (text.length > MAX_DOCUMENT_CHARS) {
+        text = text.slice(0, MAX_DOCUMENT_CHARS)
+        warnings.push(`Only the first ${MAX_DOCUMENT_CHARS.toLocaleString()} characters are kept.`)
+    }
+
+    return {
+        format,
+        title: extracted.title || titleFromFileName(fileName),
+        text,
+        pages: extracted.pages,
+        warnings,
+    }
+}
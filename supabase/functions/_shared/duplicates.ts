@@ -0,0 +1,257 @@
+// Duplicate Detection
+// Stores MinHash signatures on posts (scoring in ./similarity.ts) and keeps
+// post_duplicates in step with them: one row per near-duplicate pair, with
+// the later post flagged as a duplicate of the earlier one. Pairs a person
+// dismissed stay dismissed when the posts are checked again. Posts written
+// together, a series or a repurposed pack, are never paired.
+// Shared by check-duplicates, generate-campaign-posts and generate-posts.
+
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import {
+    findSimilar,
+    inSameGroup,
+    isSignature,
+    minHashSignature,
+    orderDuplicatePair,
+    type SignedPost,
+    type SimilarPair,
+    type SimilarityMatch,
+} from './similarity.ts'
+
+export interface SpacePost extends SignedPost {
+    created_at: string
+    status: string
+}
+
+interface DuplicateRow {
+    id: string
+    post_id: string
+    duplicate_of_id: string
+    score: number
+    status: string
+}
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000
+
+// Signature writes sent at once
+const WRITE_CONCURRENCY = 20
+
+// Columns postGroup reads: a series, or the pack a document was repurposed into
+export const POST_GROUP_COLUMNS = 'series_id, pack_id:generation_meta->repurpose->>pack_id'
+
+interface PostGroupColumns {
+    series_id?: string | null
+    pack_id?: string | null
+}
+
+/** The group a post was written in, from the POST_GROUP_COLUMNS of its row */
+export function postGroup(row: PostGroupColumns): string | null {
+    if (row.series_id) return `series:${row.series_id}`
+    if (row.pack_id) return `pack:${row.pack_id}`
+    return null
+}
+
+async function selectAll<T>(
+    query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<T[]> {
+    const rows: T[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await query(from, from + PAGE_SIZE - 1)
+        if (error) throw error
+        rows.push(...(data || []))
+        if (!data || data.length < PAGE_SIZE) return rows
+    }
+}
+
+async function saveSignatures(supabase: SupabaseClient, signatures: { id: string; signature: number[] }[]) {
+    const checkedAt = new Date().toISOString()
+    for (let i = 0; i < signatures.length; i += WRITE_CONCURRENCY) {
+        await Promise.all(signatures.slice(i, i + WRITE_CONCURRENCY).map(async ({ id, signature }) => {
+            const { error } = await supabase
+                .from('posts')
+                .update({ similarity_signature: signature.length ? signature : null, similarity_checked_at: checkedAt })
+                .eq('id', id)
+            if (error) console.error(`Error saving signature for post ${id}:`, error)
+        }))
+    }
+}
+
+/**
+ * Signatures of every post in a space. Posts that have never been signed,
+ * e.g. ones created before duplicate detection, are signed from their body
+ * and saved along the way.
+ */
+export async function loadSpaceSignatures(supabase: SupabaseClient, spaceId: string): Promise<SpacePost[]> {
+    const signed = await selectAll<PostGroupColumns & { id: string; created_at: string; status: string; similarity_signature: unknown }>((from, to) => supabase
+        .from('posts')
+        .select(`id, created_at, status, similarity_signature, ${POST_GROUP_COLUMNS}`)
+        .eq('space_id', spaceId)
+        .not('similarity_signature', 'is', null)
+        .order('created_at', { ascending: true })
+        .range(from, to))
+
+    const unsigned = await selectAll<PostGroupColumns & { id: string; created_at: string; status: string; body: string | null }>((from, to) => supabase
+        .from('posts')
+        .select(`id, created_at, status, body, ${POST_GROUP_COLUMNS}`)
+        .eq('space_id', spaceId)
+        .is('similarity_signature', null)
+        .is('similarity_checked_at', null)
+        .order('created_at', { ascending: true })
+        .range(from, to))
+
+    const backfill = unsigned.map(p => ({ id: p.id, signature: minHashSignature(p.body || '') }))
+    await saveSignatures(supabase, backfill)
+
+    return [
+        ...signed
+            .filter(p => isSignature(p.similarity_signature))
+            .map(p => ({ id: p.id, created_at: p.created_at, status: p.status, signature: p.similarity_signature as number[], group: postGroup(p) })),
+        ...unsigned
+            .map((p, i) => ({ id: p.id, created_at: p.created_at, status: p.status, signature: backfill[i].signature, group: postGroup(p) }))
+            .filter(p => p.signature.length > 0),
+    ]
+}
+
+/**
+ * Signs every post in a space from its current body, saving the signatures
+ * that changed. Used for a full rescan, which also catches bodies edited
+ * somewhere that did not trigger a check.
+ */
+export async function signSpacePosts(supabase: SupabaseClient, spaceId: string): Promise<SpacePost[]> {
+    const posts = await selectAll<PostGroupColumns & { id: string; created_at: string; status: string; body: string | null; similarity_signature: unknown }>((from, to) => supabase
+        .from('posts')
+        .select(`id, created_at, status, body, similarity_signature, ${POST_GROUP_COLUMNS}`)
+        .eq('space_id', spaceId)
+        .order('created_at', { ascending: true })
+        .range(from, to))
+
+    const signed = posts.map(p => ({ ...p, signature: minHashSignature(p.body || '') }))
+    const stored = (p: typeof signed[number]) => isSignature(p.similarity_signature) ? p.similarity_signature : []
+    await saveSignatures(supabase, signed.filter(p => stored(p).join(',') !== p.signature.join(',')))
+
+    return signed
+        .filter(p => p.signature.length > 0)
+        .map(p => ({ id: p.id, created_at: p.created_at, status: p.status, signature: p.signature, group: postGroup(p) }))
+}
+
+/**
+ * Brings the `existing` post_duplicates rows in line with `pairs`: open rows
+ * no longer similar are removed, scores are refreshed and new pairs added.
+ * Returns the number of pairs.
+ */
+async function syncDuplicateRows(
+    supabase: SupabaseClient,
+    spaceId: string,
+    existing: DuplicateRow[],
+    pairs: SimilarPair[],
+    posts: Map<string, SpacePost>,
+): Promise<number> {
+    const wanted = new Map<string, { post_id: string; duplicate_of_id: string; score: number }>()
+    for (const pair of pairs) {
+        const a = posts.get(pair.a)
+        const b = posts.get(pair.b)
+        if (!a || !b) continue
+        const { post, duplicateOf } = orderDuplicatePair(a, b)
+        wanted.set(`${post.id}:${duplicateOf.id}`, { post_id: post.id, duplicate_of_id: duplicateOf.id, score: pair.score })
+    }
+
+    const stale: string[] = []
+    for (const row of existing) {
+        const key = `${row.post_id}:${row.duplicate_of_id}`
+        const pair = wanted.get(key)
+        if (!pair) {
+            if (row.status === 'open') stale.push(row.id)
+            continue
+        }
+        wanted.delete(key)
+        if (Number(row.score) !== pair.score) {
+            const { error } = await supabase
+                .from('post_duplicates')
+                .update({ score: pair.score, updated_at: new Date().toISOString() })
+                .eq('id', row.id)
+            if (error) throw error
+        }
+    }
+
+    if (stale.length > 0) {
+        const { error } = await supabase.from('post_duplicates').delete().in('id', stale)
+        if (error) throw error
+    }
+
+    const added = [...wanted.values()].map(pair => ({ ...pair, space_id: spaceId, status: 'open' }))
+    if (added.length > 0) {
+        const { error } = await supabase
+            .from('post_duplicates')
+            .upsert(added, { onConflict: 'post_id,duplicate_of_id', ignoreDuplicates: true })
+        if (error) throw error
+    }
+
+    return pairs.length
+}
+
+/**
+ * Signs one post and records its near-duplicates among `spacePosts`, which
+ * is updated in place so later posts in the same run are compared with it.
+ * Posts in the post's group are left out; without a `group` the one already
+ * loaded for the post is used.
+ */
+export async function checkPostDuplicates(
+    supabase: SupabaseClient,
+    post: { id: string; space_id: string; created_at: string; status: string; body: string | null; group?: string | null },
+    spacePosts: SpacePost[],
+    signature = minHashSignature(post.body || ''),
+): Promise<SimilarityMatch[]> {
+    await saveSignatures(supabase, [{ id: post.id, signature }])
+
+    const self: SpacePost = {
+        id: post.id,
+        created_at: post.created_at,
+        status: post.status,
+        signature,
+        group: post.group ?? spacePosts.find(p => p.id === post.id)?.group ?? null,
+    }
+    const others = spacePosts.filter(p => p.id !== post.id)
+    const matches = findSimilar(signature, others.filter(p => !inSameGroup(self, p)))
+
+    const existing = await selectAll<DuplicateRow>((from, to) => supabase
+        .from('post_duplicates')
+        .select('id, post_id, duplicate_of_id, score, status')
+        .or(`post_id.eq.${post.id},duplicate_of_id.eq.${post.id}`)
+        .range(from, to))
+
+    await syncDuplicateRows(
+        supabase,
+        post.space_id,
+        existing,
+        matches.map(m => ({ a: post.id, b: m.post_id, score: m.score })),
+        new Map([...others, self].map(p => [p.id, p])),
+    )
+
+    const index = spacePosts.findIndex(p => p.id === post.id)
+    if (signature.length === 0) {
+        if (index >= 0) spacePosts.splice(index, 1)
+    } else if (index >= 0) {
+        spacePosts[index] = self
+    } else {
+        spacePosts.push(self)
+    }
+
+    return matches
+}
+
+/** Replaces the space's duplicate pairs with `pairs` from a full rescan */
+export async function syncSpaceDuplicates(
+    supabase: SupabaseClient,
+    spaceId: string,
+    spacePosts: SpacePost[],
+    pairs: SimilarPair[],
+): Promise<number> {
+    const existing = await selectAll<DuplicateRow>((from, to) => supabase
+        .from('post_duplicates')
+        .select('id, post_id, duplicate_of_id, score, status')
+        .eq('space_id', spaceId)
+        .range(from, to))
+
+    return syncDuplicateRows(supabase, spaceId, existing, pairs, new Map(spacePosts.map(p => [p.id, p])))
+}
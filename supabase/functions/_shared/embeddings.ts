@@ -0,0 +1,75 @@
+// Embeddings
+// Text embeddings for source chunk retrieval. Uses OpenAI text-embedding-3-small
+// (1536 dimensions, matching source_chunks.embedding) whatever the space's text
+// provider is. With LLM_PROVIDER=mock, a deterministic hashed bag-of-words
+// vector is used instead so retrieval still ranks sensibly offline.
+
+import { hashCode } from './hash.ts'
+import { postJSON, withRetries } from './llm.ts'
+
+export const EMBEDDING_MODEL = 'text-embedding-3-small'
+export const EMBEDDING_DIMENSIONS = 1536
+
+// OpenAI accepts up to 2048 inputs per request; keep batches small enough
+// that one failed request does not waste much work
+const BATCH_SIZE = 64
+const MAX_RETRIES = 3
+
+export interface EmbeddingResult {
+    embeddings: number[][]
+    model: string
+    totalTokens: number
+}
+
+/** Whether embeddings can be created in this environment */
+export function embeddingsAvailable(): boolean {
+    return Deno.env.get('LLM_PROVIDER') === 'mock' || !!Deno.env.get('OPENAI_API_KEY')
+}
+
+export async function createEmbeddings(texts: string[]): Promise<EmbeddingResult> {
+    if (Deno.env.get('LLM_PROVIDER') === 'mock') {
+        return { embeddings: texts.map(mockEmbedding), model: 'mock-embedding', totalTokens: 0 }
+    }
+
+    const apiKey = Deno.env.get('OPENAI_API_KEY')
+    if (!apiKey) throw new Error('OPENAI_API_KEY not configured. Embeddings need it.')
+
+    const embeddings: number[][] = []
+    let totalTokens = 0
+
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+        const batch = texts.slice(i, i + BATCH_SIZE)
+        const data = await withRetries(
+            () => postJSON(
+                'https://api.openai.com/v1/embeddings',
+                { 'Authorization': `Bearer ${apiKey}` },
+                { model: EMBEDDING_MODEL, input: batch },
+                'OpenAI embeddings'
+            ),
+            MAX_RETRIES,
+            'OpenAI embeddings'
+        )
+
+        const sorted = [...data.data].sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+        embeddings.push(...sorted.map((d: { embedding: number[] }) => d.embedding))
+        totalTokens += data.usage?.total_tokens || 0
+    }
+
+    return { embeddings, model: EMBEDDING_MODEL, totalTokens }
+}
+
+export async function createEmbedding(text: string): Promise<number[]> {
+    const { embeddings } = await createEmbeddings([text])
+    return embeddings[0]
+}
+
+// Hashed bag-of-words, L2 normalised. Texts sharing words score higher.
+function mockEmbedding(text: string): number[] {
+    const vector = new Array(EMBEDDING_DIMENSIONS).fill(0)
+    const words = text.toLowerCase().match(/[a-z0-9]{3,}/g) || []
+    for (const word of words) {
+        vector[Math.abs(hashCode(word)) % EMBEDDING_DIMENSIONS] += 1
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1
+    return vector.map(v => v / norm)
+}
@@ -0,0 +1,295 @@
+// News Feeds
+// Each space can follow RSS/Atom feeds to find material for the Hot Topics
+// layer. The fetch-feeds function downloads them and parses them here, and
+// scores every item against the brand profile's services and audience so the
+// relevant ones rise to the top. Items can become ideas in the idea bank or
+// be drafted straight into a reaction post.
+// The parser and scoring can be checked against the fixture feeds in
+// scripts/fixtures/feeds with `npm run parse-feed`.
+
+import type { ContentCategory } from './content-mix.ts'
+
+export type FeedFormat = 'rss' | 'atom'
+
+export type FeedItemStatus = 'new' | 'idea' | 'drafted' | 'dismissed'
+
+export const FEED_ITEM_STATUS_LABELS: Record<FeedItemStatus, string> = {
+    new: 'New',
+    idea: 'Idea',
+    drafted: 'Drafted',
+    dismissed: 'Dismissed',
+}
+
+// Items kept from one fetch of a feed, newest first
+export const MAX_ITEMS_PER_FETCH = 50
+
+// Longest summary stored per item
+export const MAX_SUMMARY_LENGTH = 1000
+
+// Items at or above this score are shown as relevant
+export const RELEVANT_SCORE = 0.3
+
+export interface ParsedFeedItem {
+    /** The item's guid/id, or its link when it has none */
+    guid: string
+    title: string
+    link: string | null
+    summary: string | null
+    author: string | null
+    published_at: string | null
+}
+
+export interface ParsedFeed {
+    format: FeedFormat
+    title: string | null
+    site_url: string | null
+    items: ParsedFeedItem[]
+}
+
+// ── Parsing ──────────────────────────────────────────
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+    mdash: '—',
+    ndash: '–',
+    hellip: '…',
+    rsquo: '’',
+    lsquo: '‘',
+    rdquo: '”',
+    ldquo: '“',
+}
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+            return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+    })
+}
+
+const escapeTagName = (name: string) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Text of an element as plain text. CDATA is taken as-is; otherwise entities
+ * are decoded first, since feeds often carry escaped HTML. Markup is then
+ * stripped and whitespace collapsed.
+ */
+function elementText(raw: string): string {
+    const cdata = raw.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/)
+    const html = cdata ? cdata[1] : decodeEntities(raw.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1'))
+    return decodeEntities(html
+        .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<br\s*\/?>|<\/p>/gi, ' ')
+        .replace(/<[^>]+>/g, ' '))
+        .replace(/\s+/g, ' ')
+        .trim()
+}
+
+/** Plain text of the first of `names` found in the block */
+function readElement(block: string, names: string[]): string | null {
+    for (const name of names) {
+        const tag = escapeTagName(name)
+        const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'))
+        if (match) {
+            const text = elementText(match[1])
+            if (text) return text
+        }
+    }
+    return null
+}
+
+function readAttributes(tag: string): Record<string, string> {
+    const attributes: Record<string, string> = {}
+    for (const match of tag.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+        attributes[match[1].toLowerCase()] = decodeEntities(match[3] ?? match[4] ?? '')
+    }
+    return attributes
+}
+
+/** Atom's alternate link, or the first link without a rel */
+function readAtomLink(block: string): string | null {
+    const links = [...block.matchAll(/<link\b[^>]*>/gi)].map(m => readAttributes(m[0]))
+    const alternate = links.find(l => l.href && (!l.rel || l.rel === 'alternate'))
+    return alternate?.href || null
+}
+
+function readBlocks(xml: string, name: string): string[] {
+    return [...xml.matchAll(new RegExp(`<${name}(?:\\s[^>]*)?>[\\s\\S]*?</${name}>`, 'gi'))].map(m => m[0])
+}
+
+function toIsoDate(value: string | null): string | null {
+    if (!value) return null
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+function truncate(text: string | null, length: number): string | null {
+    if (!text) return null
+    return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text
+}
+
+function absoluteUrl(url: string | null, base: string | null): string | null {
+    if (!url) return null
+    try {
+        return new URL(url, base || undefined).toString()
+    } catch {
+        return url
+    }
+}
+
+/**
+ * Parses an RSS 2.0, RSS 1.0 (RDF) or Atom document. Throws when the text is
+ * not a feed. Items without a title are skipped.
+ */
+export function parseFeed(xml: string, feedUrl: string | null = null): ParsedFeed {
+    const isAtom = /<feed[\s>]/i.test(xml) && !/<rss[\s>]/i.test(xml)
+    const isRss = /<rss[\s>]|<rdf:RDF[\s>]/i.test(xml)
+    if (!isAtom && !isRss) {
+        throw new Error('Not an RSS or Atom feed')
+    }
+
+    const format: FeedFormat = isAtom ? 'atom' : 'rss'
+    const blocks = readBlocks(xml, isAtom ? 'entry' : 'item')
+
+    // Feed-level fields come before the first item
+    const firstItem = blocks.length > 0 ? xml.indexOf(blocks[0]) : -1
+    const header = firstItem >= 0 ? xml.slice(0, firstItem) : xml
+    const siteUrl = absoluteUrl(isAtom ? readAtomLink(header) : readElement(header, ['link']), feedUrl)
+
+    const items: ParsedFeedItem[] = []
+    for (const block of blocks) {
+        const title = readElement(block, ['title'])
+        if (!title) continue
+
+        const link = absoluteUrl(isAtom ? readAtomLink(block) : readElement(block, ['link']), siteUrl || feedUrl)
+        const summary = isAtom
+            ? readElement(block, ['summary', 'content'])
+            : readElement(block, ['description', 'content:encoded', 'summary'])
+        const published = isAtom
+            ? readElement(block, ['published', 'updated'])
+            : readElement(block, ['pubDate', 'dc:date', 'published'])
+        const author = isAtom
+            ? readElement(readBlocks(block, 'author')[0] || '', ['name'])
+            : readElement(block, ['dc:creator', 'author'])
+
+        items.push({
+            guid: readElement(block, isAtom ? ['id'] : ['guid']) || link || `${title}|${published || ''}`,
+            title: truncate(title, 500)!,
+            link,
+            summary: truncate(summary, MAX_SUMMARY_LENGTH),
+            author,
+            published_at: toIsoDate(published),
+        })
+    }
+
+    items.sort((a, b) => (b.published_at || '').localeCompare(a.published_at || ''))
+
+    return {
+        format,
+        title: readElement(header, ['title']),
+        site_url: siteUrl,
+        items: items.slice(0, MAX_ITEMS_PER_FETCH),
+    }
+}
+
+// ── Relevance ────────────────────────────────────────
+
+const STOPWORDS = new Set([
+    'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'into', 'is',
+    'it', 'its', 'of', 'on', 'or', 'our', 'that', 'the', 'their', 'them', 'they', 'this', 'to', 'we', 'who',
+    'with', 'you', 'your', 'services', 'service', 'solutions', 'solution', 'help', 'helping', 'organisations',
+    'organizations', 'businesses', 'business', 'companies', 'teams', 'people',
+])
+
+function singular(word: string): string {
+    if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`
+    if (word.length > 4 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1)
+    return word
+}
+
+/** Lower-cased words with stopwords removed and plurals made singular */
+function keywords(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}+#-]*/gu) || [])
+        .filter(word => word.length > 2 && !STOPWORDS.has(word))
+        .map(singular)
+}
+
+export interface RelevanceProfile {
+    services: { label: string; keywords: string[] }[]
+    audience: string[]
+}
+
+/** What items are scored against, from the brand profile */
+export function buildRelevanceProfile(profile: { services?: string[] | null; who_we_serve?: string | null } | null): RelevanceProfile {
+    return {
+        services: (profile?.services || [])
+            .filter(service => typeof service === 'string' && service.trim())
+            .map(service => ({ label: service.trim(), keywords: [...new Set(keywords(service))] }))
+            .filter(service => service.keywords.length > 0),
+        audience: [...new Set(keywords(profile?.who_we_serve || ''))],
+    }
+}
+
+export function hasRelevanceProfile(profile: RelevanceProfile): boolean {
+    return profile.services.length > 0 || profile.audience.length > 0
+}
+
+export interface RelevanceScore {
+    /** 0-1 */
+    score: number
+    /** Services and audience words the item mentions */
+    matched_terms: string[]
+}
+
+/**
+ * Scores an item by how much of a service it mentions (most of the weight)
+ * and how many audience words it uses. A service counts when at least half
+ * of its words appear; each further service adds a little.
+ */
+export function scoreFeedItem(item: { title: string; summary?: string | null }, profile: RelevanceProfile): RelevanceScore {
+    const words = new Set(keywords(`${item.title} ${item.summary || ''}`))
+
+    const serviceMatches = profile.services
+        .map(service => ({ label: service.label, share: service.keywords.filter(k => words.has(k)).length / service.keywords.length }))
+        .filter(match => match.share >= 0.5)
+        .sort((a, b) => b.share - a.share)
+    const serviceScore = serviceMatches.length > 0
+        ? Math.min(1, serviceMatches[0].share + 0.15 * (serviceMatches.length - 1))
+        : 0
+
+    const audienceMatches = profile.audience.filter(word => words.has(word))
+    const audienceScore = Math.min(1, audienceMatches.length / 3)
+
+    return {
+        score: Math.round((0.7 * serviceScore + 0.3 * audienceScore) * 1000) / 1000,
+        matched_terms: [...serviceMatches.map(m => m.label), ...audienceMatches],
+    }
+}
+
+// ── Reaction posts ───────────────────────────────────
+
+const EVENT_PATTERN = /\b(conference|summit|expo|webinar|workshop|forum|symposium|meetup|register now|registrations?)\b/i
+
+/** Hot Topics category for a post reacting to an item */
+export function suggestFeedCategory(item: { title: string; summary?: string | null }): ContentCategory {
+    return EVENT_PATTERN.test(`${item.title} ${item.summary || ''}`) ? 'event' : 'news_reaction'
+}
+
+export function buildReactionPrompt(
+    item: { title: string; summary?: string | null; link?: string | null; published_at?: string | null },
+    feedTitle: string | null,
+): string {
+    return `Write a LinkedIn post reacting to this news item.
+
+NEWS ITEM${feedTitle ? ` (from ${feedTitle})` : ''}:
+Title: ${item.title}
+${item.published_at ? `Published: ${item.published_at.slice(0, 10)}\n` : ''}${item.summary ? `Summary: ${item.summary}\n` : ''}${item.link ? `Link: ${item.link}\n` : ''}
+Open with what happened in a sentence, then give our perspective: why it matters to the people we serve and what they should do or watch for. Only state facts about the news that are in the title or summary above.`
+}
@@ -0,0 +1,186 @@
+// Grounding Verification
+// Rebuilds the brand context a post was generated from (its sources_used)
+// and asks the text model which of the post's claims that context supports.
+// Shared by generate-campaign-posts and verify-post-grounding.
+
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import type { LLMClient } from './llm.ts'
+import {
+    countClaims,
+    resolveGroundingStatus,
+    splitIntoClaims,
+    type ClaimStatus,
+    type GroundingClaim,
+    type GroundingReport,
+    type GroundingSourceRef,
+    type SourceUsed,
+} from './grounding.ts'
+import { hashText } from './hash.ts'
+
+export interface GroundingSource extends GroundingSourceRef {
+    content: string
+}
+
+// Matches the slice generate-campaign-posts puts in the prompt for whole documents
+const DOCUMENT_EXCERPT_CHARS = 1000
+
+/**
+ * Loads the text behind each sources_used entry. The brand profile is always
+ * included because it feeds the prompt template variables.
+ */
+export async function loadGroundingSources(supabase: SupabaseClient, spaceId: string, sourcesUsed: SourceUsed[]): Promise<GroundingSource[]> {
+    const sources: GroundingSource[] = []
+    const add = (source: Omit<GroundingSource, 'key'>) => {
+        if (source.content.trim()) sources.push({ key: `S${sources.length + 1}`, ...source })
+    }
+
+    const { data: brandProfile } = await supabase
+        .from('brand_profile')
+        .select('who_we_are, what_we_do, who_we_serve, services, themes')
+        .eq('space_id', spaceId)
+        .maybeSingle()
+
+    if (brandProfile) {
+        const lines = Object.entries(brandProfile)
+            .filter(([, value]) => value && (!Array.isArray(value) || value.length > 0))
+            .map(([field, value]) => `- ${field.replace(/_/g, ' ')}: ${Array.isArray(value) ? value.join(', ') : value}`)
+        add({ type: 'brand_profile', name: 'Brand profile', content: lines.join('\n') })
+    }
+
+    if (sourcesUsed.some(s => s.type === 'manual_profile')) {
+        const { data: profileFields } = await supabase
+            .from('brand_manual_profile')
+            .select('field_name, field_value')
+            .eq('space_id', spaceId)
+
+        const lines = (profileFields || [])
+            .filter((f: { field_value: string | null }) => f.field_value)
+            .map((f: { field_name: string; field_value: string }) => `- ${f.field_name.replace(/_/g, ' ')}: ${f.field_value}`)
+        add({ type: 'manual_profile', name: 'Brand information', content: lines.join('\n') })
+    }
+
+    const chunkIds = sourcesUsed.filter(s => s.chunk_id).map(s => s.chunk_id!)
+    if (chunkIds.length > 0) {
+        const { data: chunks } = await supabase
+            .from('source_chunks')
+            .select('id, content')
+            .in('id', chunkIds)
+
+        const contentById = new Map((chunks || []).map((c: { id: string; content: string }) => [c.id, c.content]))
+        for (const source of sourcesUsed.filter(s => s.chunk_id)) {
+            add({
+                type: source.type,
+                id: source.id,
+                chunk_id: source.chunk_id,
+                name: source.name,
+                content: contentById.get(source.chunk_id!) || '',
+            })
+        }
+    }
+
+    const documentSources = sourcesUsed.filter(s => s.id && !s.chunk_id)
+    if (documentSources.length > 0) {
+        const { data: docs } = await supabase
+            .from('source_documents')
+            .select('id, content')
+            .in('id', documentSources.map(s => s.id!))
+
+        const contentById = new Map((docs || []).map((d: { id: string; content: string | null }) => [d.id, d.content || '']))
+        for (const source of documentSources) {
+            add({
+                type: source.type,
+                id: source.id,
+                name: source.name,
+                content: (contentById.get(source.id!) || '').slice(0, DOCUMENT_EXCERPT_CHARS),
+            })
+        }
+    }
+
+    return sources
+}
+
+interface ClaimVerdict {
+    index: number
+    status: ClaimStatus
+    sources?: string[]
+    evidence?: string | null
+    reason?: string | null
+}
+
+/** Checks each claim in the body against the sources. Throws if the model call fails. */
+export async function verifyGrounding(llm: LLMClient, body: string, sources: GroundingSource[]): Promise<GroundingReport> {
+    const spans = splitIntoClaims(body)
+    const sourceRefs: GroundingSourceRef[] = sources.map(s => ({ key: s.key, type: s.type, id: s.id, chunk_id: s.chunk_id, name: s.name }))
+
+    const buildReport = (claims: GroundingClaim[], withModel: boolean): GroundingReport => {
+        const counts = countClaims(claims)
+        return {
+            status: resolveGroundingStatus(counts),
+            claims,
+            sources: sourceRefs,
+            counts,
+            body_hash: hashText(body),
+            checked_at: new Date().toISOString(),
+            provider: withModel ? llm.provider : null,
+            model: withModel ? llm.model : null,
+        }
+    }
+
+    if (spans.length === 0) return buildReport([], false)
+
+    // Nothing to check against, so nothing can be supported
+    if (sources.length === 0) {
+        return buildReport(spans.map(span => ({
+            ...span,
+            status: 'unsupported',
+            source_keys: [],
+            evidence: null,
+            reason: 'No brand context was available when this post was generated',
+        })), false)
+    }
+
+    const sourceText = sources
+        .map(s => `[${s.key}] ${s.name || s.type}\n${s.content}`)
+        .join('\n\n')
+    const claimText = spans.map((span, i) => `${i + 1}. ${span.text}`).join('\n')
+
+    const { data } = await llm.completeJSON<{ claims?: ClaimVerdict[] }>({
+        system: `You are a fact checker for a brand's social media posts. You decide whether each claim is supported by the brand's source material.
+
+RULES:
+- "supported": the source material states or directly implies the claim
+- "partial": the general point is in the sources but a specific detail (number, name, date, achievement) is not
+- "unsupported": the claim is not in the sources at all
+- Opinions, general industry statements and calls to action that make no claim about the brand count as "supported"
+- Judge only against the sources given, never against outside knowledge`,
+        prompt: `SOURCES:
+${sourceText}
+
+CLAIMS:
+${claimText}
+
+Return a JSON object: {"claims": [{"index": 1, "status": "supported" | "partial" | "unsupported", "sources": ["S1"], "evidence": "short quote from the source, or null", "reason": "what is missing, or null"}]}
+Include every claim by its number.`,
+        temperature: 0,
+        maxTokens: 1500,
+    })
+
+    const verdicts = new Map((data.claims || []).map(v => [Number(v.index), v]))
+    const validKeys = new Set(sources.map(s => s.key))
+
+    const claims: GroundingClaim[] = spans.map((span, i) => {
+        const verdict = verdicts.get(i + 1)
+        const status: ClaimStatus = verdict && ['supported', 'partial', 'unsupported'].includes(verdict.status)
+            ? verdict.status
+            : 'unsupported'
+        return {
+            ...span,
+            status,
+            source_keys: (verdict?.sources || []).filter(key => validKeys.has(key)),
+            evidence: verdict?.evidence || null,
+            reason: verdict ? verdict.reason || null : 'The checker did not return a verdict for this claim',
+        }
+    })
+
+    return buildReport(claims, true)
+}
@@ -0,0 +1,148 @@
+// Post Grounding
+// Claim-level provenance for generated posts. A post is split into claims,
+// each claim is checked against the brand context the post was generated
+// from (sources_used), and the result is stored in generation_meta.grounding.
+
+import { hashText } from './hash.ts'
+
+export type ClaimStatus = 'supported' | 'partial' | 'unsupported'
+
+export type GroundingStatus = 'grounded' | 'partially_grounded' | 'ungrounded' | 'no_claims'
+
+export interface ClaimSpan {
+    text: string
+    /** Offsets into the post body */
+    start: number
+    end: number
+}
+
+export interface GroundingClaim extends ClaimSpan {
+    status: ClaimStatus
+    /** Keys of the GroundingReport sources backing this claim */
+    source_keys: string[]
+    /** Short quote from the source that supports the claim */
+    evidence: string | null
+    /** Why the claim is only partly or not supported */
+    reason: string | null
+}
+
+/** One posts.sources_used entry */
+export interface SourceUsed {
+    type: string
+    /** source_documents.id */
+    id?: string
+    name?: string
+    /** source_chunks.id when the context came from vector retrieval */
+    chunk_id?: string
+    similarity?: number
+}
+
+export interface GroundingSourceRef {
+    /** Stable label used in prompts and claims, e.g. S1 */
+    key: string
+    type: string
+    /** source_documents.id */
+    id?: string
+    /** source_chunks.id */
+    chunk_id?: string
+    name?: string
+}
+
+export interface GroundingReport {
+    status: GroundingStatus
+    claims: GroundingClaim[]
+    sources: GroundingSourceRef[]
+    counts: Record<ClaimStatus, number>
+    /** hashText(body) at verification time, to spot edits made since */
+    body_hash: string
+    checked_at: string
+    provider: string | null
+    model: string | null
+}
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+    supported: 'Supported',
+    partial: 'Partly supported',
+    unsupported: 'Ungrounded',
+}
+
+// Sentences shorter than this are hooks or fragments, not checkable claims
+const MIN_CLAIM_WORDS = 4
+
+/**
+ * Splits a post into checkable claims: sentences, with questions, hashtag
+ * lines and very short fragments left out.
+ */
+export function splitIntoClaims(body: string): ClaimSpan[] {
+    const claims: ClaimSpan[] = []
+    const pattern = /[^.!?\n]+[.!?]*["')\]]*/g
+    let match: RegExpExecArray | null
+
+    while ((match = pattern.exec(body)) !== null) {
+        const raw = match[0]
+        const leading = raw.length - raw.trimStart().length
+        const text = raw.trim()
+        if (!text) continue
+
+        const words = text.replace(/#\w+/g, '').split(/\s+/).filter(w => /\w/.test(w))
+        if (words.length < MIN_CLAIM_WORDS) continue
+        if (/\?["')\]]*$/.test(text)) continue
+
+        const start = match.index + leading
+        claims.push({ text, start, end: start + text.length })
+    }
+
+    return claims
+}
+
+export function countClaims(claims: Pick<GroundingClaim, 'status'>[]): Record<ClaimStatus, number> {
+    const counts: Record<ClaimStatus, number> = { supported: 0, partial: 0, unsupported: 0 }
+    for (const claim of claims) counts[claim.status]++
+    return counts
+}
+
+export function resolveGroundingStatus(counts: Record<ClaimStatus, number>): GroundingStatus {
+    const total = counts.supported + counts.partial + counts.unsupported
+    if (total === 0) return 'no_claims'
+    if (counts.supported === total) return 'grounded'
+    if (counts.unsupported === total) return 'ungrounded'
+    return 'partially_grounded'
+}
+
+/** Claims needing attention before a post is published */
+export function getUngroundedClaims(report: GroundingReport | null): GroundingClaim[] {
+    return report ? report.claims.filter(c => c.status !== 'supported') : []
+}
+
+/** Reads generation_meta.grounding, tolerating posts that were never verified */
+export function getGroundingReport(generationMeta: unknown): GroundingReport | null {
+    if (!generationMeta || typeof generationMeta !== 'object') return null
+    const grounding = (generationMeta as { grounding?: GroundingReport }).grounding
+    return grounding && Array.isArray(grounding.claims) ? grounding : null
+}
+
+/** True when the post body has been edited since it was verified */
+export function isGroundingStale(report: GroundingReport, body: string | null): boolean {
+    return report.body_hash !== hashText(body || '')
+}
+
+export interface BodySegment {
+    text: string
+    claim: GroundingClaim | null
+}
+
+/** Splits the body into plain and claim segments, for highlighting */
+export function segmentBody(body: string, claims: GroundingClaim[]): BodySegment[] {
+    const segments: BodySegment[] = []
+    let cursor = 0
+
+    for (const claim of [...claims].sort((a, b) => a.start - b.start)) {
+        if (claim.start < cursor || claim.end > body.length) continue
+        if (claim.start > cursor) segments.push({ text: body.slice(cursor, claim.start), claim: null })
+        segments.push({ text: body.slice(claim.start, claim.end), claim })
+        cursor = claim.end
+    }
+
+    if (cursor < body.length) segments.push({ text: body.slice(cursor), claim: null })
+    return segments
+}
@@ -0,0 +1,33 @@
+// Hashing
+// String hashes shared by the edge functions. Values made with them are kept
+// to compare against later, so their output must not change.
+
+/** Java-style 31-multiplier hash of the UTF-16 code units, as a signed 32-bit integer */
+export function hashCode(value: string): number {
+    let hash = 0
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0
+    }
+    return hash
+}
+
+/** hashCode as 8 hex digits, for spotting edits to a text */
+export function hashText(value: string): string {
+    return (hashCode(value) >>> 0).toString(16).padStart(8, '0')
+}
+
+/** 32-bit FNV-1a over UTF-16 code units */
+export function fnv1a(text: string): number {
+    let h = 0x811c9dc5
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i)
+        h = Math.imul(h, 0x01000193)
+    }
+    return h | 0
+}
+
+/** Hex SHA-256 of the text's UTF-8 bytes, through Web Crypto */
+export async function sha256(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
@@ -0,0 +1,570 @@
+// HTML Extraction
+// Turns a crawled page into clean Markdown plus the structured data it
+// declares. The page is parsed into a light element tree; navigation, cookie
+// banners, footers and other boilerplate are dropped, and the main content is
+// taken from <main>/<article> or, failing those, from the block with the most
+// paragraph text and the fewest links (the readability approach). Headings,
+// lists, links and tables are kept as Markdown. The meta description, Open
+// Graph tags and JSON-LD organisation data are read from the whole document.
+
+export interface PageHeading {
+    level: number
+    text: string
+}
+
+/** schema.org Organization (or LocalBusiness etc.) data from JSON-LD */
+export interface OrganizationData {
+    type: string
+    name: string | null
+    legal_name: string | null
+    description: string | null
+    slogan: string | null
+    url: string | null
+    logo: string | null
+    email: string | null
+    telephone: string | null
+    address: string | null
+    founding_date: string | null
+    /** Profile URLs, e.g. the company's LinkedIn page */
+    same_as: string[]
+}
+
+/** source_documents.structured for crawled pages */
+export interface PageStructuredData {
+    description: string | null
+    canonical_url: string | null
+    lang: string | null
+    /** Open Graph properties without the og: prefix, e.g. site_name */
+    og: Record<string, string>
+    organization: OrganizationData | null
+    headings: PageHeading[]
+}
+
+export interface HtmlExtraction extends PageStructuredData {
+    title: string | null
+    markdown: string
+    /** Every http(s) link on the page, absolute, including navigation */
+    links: string[]
+}
+
+// ── Parsing ──────────────────────────────────────────
+
+interface HtmlElement {
+    tag: string
+    attrs: Record<string, string>
+    children: HtmlNode[]
+    parent: HtmlElement | null
+}
+
+type HtmlNode = HtmlElement | string
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'])
+
+// Elements whose contents are never page text
+const RAW_TEXT_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'math', 'iframe', 'textarea', 'select', 'canvas', 'object']
+
+const BLOCK_TAGS = new Set([
+    'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'dialog', 'div', 'dl', 'dt', 'fieldset',
+    'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main',
+    'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+])
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—', hellip: '…',
+    lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', copy: '©', reg: '®', trade: '™', bull: '•', middot: '·',
+}
+
+export function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+        if (code[0] === '#') {
+            const n = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+            return Number.isFinite(n) && n > 0 && n < 0x110000 ? String.fromCodePoint(n) : entity
+        }
+        return NAMED_ENTITIES[code.toLowerCase()] ?? entity
+    })
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attrs: Record<string, string> = {}
+    const attrRegex = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g
+    let match
+    while ((match = attrRegex.exec(source)) !== null) {
+        attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '')
+    }
+    return attrs
+}
+
+function stripRawText(html: string): string {
+    let cleaned = html.replace(/<!--[\s\S]*?-->/g, '')
+    for (const tag of RAW_TEXT_TAGS) {
+        cleaned = cleaned.replace(new RegExp(`<${tag}\\b[\\s\\S]*?</${tag}\\s*>`, 'gi'), '')
+    }
+    return cleaned
+}
+
+function closeTo(stack: HtmlElement[], tag: string, stopAt: string[] = []): void {
+    for (let i = stack.length - 1; i > 0; i--) {
+        if (stopAt.includes(stack[i].tag)) return
+        if (stack[i].tag === tag) {
+            stack.length = i
+            return
+        }
+    }
+}
+
+/** A forgiving parse into a tree rooted at a synthetic #root element */
+function parseHtml(html: string): HtmlElement {
+    const root: HtmlElement = { tag: '#root', attrs: {}, children: [], parent: null }
+    const stack: HtmlElement[] = [root]
+    const tokenRegex = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|<![^>]*>|<\?[^>]*>|([^<]+|<)/g
+    let match
+
+    while ((match = tokenRegex.exec(html)) !== null) {
+        const [, closing, rawTag, rawAttrs, text] = match
+        const current = stack[stack.length - 1]
+
+        if (text !== undefined) {
+            current.children.push(decodeEntities(text))
+            continue
+        }
+        if (!rawTag) continue
+
+        const tag = rawTag.toLowerCase()
+        if (closing) {
+            closeTo(stack, tag)
+            continue
+        }
+
+        // Implied end tags: a new paragraph, list item or cell closes the open one
+        if (tag === 'li') closeTo(stack, 'li', ['ul', 'ol'])
+        if (tag === 'dt' || tag === 'dd') {
+            closeTo(stack, 'dt', ['dl'])
+            closeTo(stack, 'dd', ['dl'])
+        }
+        if (tag === 'td' || tag === 'th') {
+            closeTo(stack, 'td', ['tr', 'table'])
+            closeTo(stack, 'th', ['tr', 'table'])
+        }
+        if (tag === 'tr') closeTo(stack, 'tr', ['table'])
+        if (BLOCK_TAGS.has(tag) && stack[stack.length - 1].tag === 'p') stack.pop()
+
+        const parent = stack[stack.length - 1]
+        const element: HtmlElement = { tag, attrs: parseAttributes(rawAttrs), children: [], parent }
+        parent.children.push(element)
+        if (!VOID_TAGS.has(tag) && !/\/\s*$/.test(rawAttrs)) stack.push(element)
+    }
+
+    return root
+}
+
+function isElement(node: HtmlNode): node is HtmlElement {
+    return typeof node !== 'string'
+}
+
+function findAll(root: HtmlElement, predicate: (el: HtmlElement) => boolean): HtmlElement[] {
+    const found: HtmlElement[] = []
+    const walk = (el: HtmlElement) => {
+        for (const child of el.children) {
+            if (!isElement(child)) continue
+            if (predicate(child)) found.push(child)
+            walk(child)
+        }
+    }
+    walk(root)
+    return found
+}
+
+function textContent(node: HtmlNode): string {
+    return isElement(node) ? node.children.map(textContent).join('') : node
+}
+
+function collapse(text: string): string {
+    return text.replace(/\s+/g, ' ').trim()
+}
+
+// ── Boilerplate ──────────────────────────────────────
+
+const BOILERPLATE_TAGS = new Set(['nav', 'footer', 'aside', 'form', 'button', 'dialog', 'input', 'label'])
+
+const BOILERPLATE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'dialog', 'alertdialog', 'search', 'menu', 'menubar'])
+
+// class/id words of the kind readability treats as unlikely content
+const BOILERPLATE_NAMES = /(^|[\s_-])(cookies?|consent|gdpr|banner|nav|navbar|navigation|menu|megamenu|footer|header|masthead|sidebar|breadcrumbs?|social|share|sharing|popup|modal|newsletter|subscribe|skip|advert|ads|promo|related|comments?)([\s_-]|$)/i
+const CONTENT_NAMES = /(^|[\s_-])(article|body|content|main|post|entry|story|hero)([\s_-]|$)/i
+
+function isBoilerplate(el: HtmlElement): boolean {
+    if (BOILERPLATE_TAGS.has(el.tag)) return true
+    if (el.attrs.hidden !== undefined || el.attrs['aria-hidden'] === 'true') return true
+    if (/display\s*:\s*none|visibility\s*:\s*hidden/i.test(el.attrs.style || '')) return true
+    if (BOILERPLATE_ROLES.has((el.attrs.role || '').toLowerCase())) return true
+    // A site header holds the navigation; a header inside an article is its title
+    if (el.tag === 'header' && findAll(el, child => child.tag === 'nav' || child.tag === 'ul').length > 0) return true
+
+    const names = `${el.attrs.class || ''} ${el.attrs.id || ''}`
+    return BOILERPLATE_NAMES.test(names) && !CONTENT_NAMES.test(names) && el.tag !== 'body' && el.tag !== 'main' && el.tag !== 'article'
+}
+
+function removeBoilerplate(el: HtmlElement): void {
+    el.children = el.children.filter(child => !isElement(child) || !isBoilerplate(child))
+    el.children.forEach(child => {
+        if (isElement(child)) removeBoilerplate(child)
+    })
+}
+
+// ── Main content ─────────────────────────────────────
+
+function linkDensity(el: HtmlElement): number {
+    const length = collapse(textContent(el)).length
+    if (length === 0) return 0
+    const linked = findAll(el, child => child.tag === 'a').reduce((sum, a) => sum + collapse(textContent(a)).length, 0)
+    return linked / length
+}
+
+/**
+ * Scores each container by the paragraph-like text directly inside it (and
+ * half of its grandchildren's), then discounts link-heavy ones.
+ */
+function scoreCandidates(body: HtmlElement): HtmlElement | null {
+    const scores = new Map<HtmlElement, number>()
+    const blocks = findAll(body, el => ['p', 'pre', 'td', 'li', 'blockquote', 'h2', 'h3'].includes(el.tag))
+
+    for (const block of blocks) {
+        const text = collapse(textContent(block))
+        if (text.length < 25) continue
+        const score = 1 + (text.match(/,/g) || []).length + Math.min(3, Math.floor(text.length / 100))
+        const parent = block.parent
+        if (parent && parent.tag !== '#root') scores.set(parent, (scores.get(parent) || 0) + score)
+        const grandparent = parent?.parent
+        if (grandparent && grandparent.tag !== '#root') scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2)
+    }
+
+    let best: HtmlElement | null = null
+    let bestScore = 0
+    for (const [el, score] of scores) {
+        const adjusted = score * (1 - linkDensity(el))
+        if (adjusted > bestScore) {
+            best = el
+            bestScore = adjusted
+        }
+    }
+    return best
+}
+
+function findMainContent(root: HtmlElement): HtmlElement {
+    const body = findAll(root, el => el.tag === 'body')[0] || root
+    const bodyLength = collapse(textContent(body)).length
+
+    const marked = findAll(body, el => el.tag === 'main' || el.attrs.role === 'main')
+    const articles = findAll(body, el => el.tag === 'article')
+    const explicit = marked.length === 1 ? marked[0] : articles.length === 1 ? articles[0] : null
+    // Trust <main>/<article> unless it holds only a sliver of the page
+    if (explicit && collapse(textContent(explicit)).length >= bodyLength * 0.3) return explicit
+
+    const scored = scoreCandidates(body)
+    if (scored && collapse(textContent(scored)).length >= bodyLength * 0.25) return scored
+    return body
+}
+
+// ── Markdown ─────────────────────────────────────────
+
+function resolveUrl(href: string, baseUrl: string): string | null {
+    try {
+        const url = new URL(href, baseUrl)
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null
+    } catch {
+        return null
+    }
+}
+
+function renderInline(node: HtmlNode, baseUrl: string): string {
+    if (!isElement(node)) return node.replace(/\s+/g, ' ')
+
+    const inner = node.children.map(child => renderInline(child, baseUrl)).join('')
+    switch (node.tag) {
+        case 'br':
+            return '\n'
+        case 'a': {
+            const text = collapse(inner)
+            const href = node.attrs.href && !node.attrs.href.startsWith('#') ? resolveUrl(node.attrs.href, baseUrl) : null
+            if (!text) return ''
+            return href && href !== text ? `[${text}](${href})` : text
+        }
+        case 'strong':
+        case 'b': {
+            const text = collapse(inner)
+            return text ? ` **${text}** ` : ''
+        }
+        case 'em':
+        case 'i': {
+            const text = collapse(inner)
+            return text ? ` _${text}_ ` : ''
+        }
+        case 'code': {
+            const text = collapse(inner)
+            return text ? `\`${text}\`` : ''
+        }
+        default:
+            // Block elements met inside inline content (cards wrapped in links) become spaces
+            return BLOCK_TAGS.has(node.tag) ? ` ${inner} ` : inner
+    }
+}
+
+function tidyInline(text: string): string {
+    return text
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').replace(/\s+([.,;:!?)])/g, '$1').trim())
+        .filter(Boolean)
+        .join('\n')
+}
+
+function renderList(list: HtmlElement, baseUrl: string, depth: number): string {
+    const lines: string[] = []
+    let n = 0
+    for (const item of list.children) {
+        if (!isElement(item) || item.tag !== 'li') continue
+        n++
+        const marker = list.tag === 'ol' ? `${n}.` : '-'
+        const inline = item.children.filter(child => !isElement(child) || (child.tag !== 'ul' && child.tag !== 'ol'))
+        const text = tidyInline(inline.map(child => renderInline(child, baseUrl)).join('')).replace(/\n/g, ' ')
+        if (text) lines.push(`${'  '.repeat(depth)}${marker} ${text}`)
+        for (const child of item.children) {
+            if (isElement(child) && (child.tag === 'ul' || child.tag === 'ol')) {
+                const nested = renderList(child, baseUrl, depth + 1)
+                if (nested) lines.push(nested)
+            }
+        }
+    }
+    return lines.join('\n')
+}
+
+function renderTable(table: HtmlElement, baseUrl: string): string {
+    return findAll(table, el => el.tag === 'tr')
+        .map(row => row.children
+            .filter((cell): cell is HtmlElement => isElement(cell) && (cell.tag === 'td' || cell.tag === 'th'))
+            .map(cell => tidyInline(renderInline(cell, baseUrl)).replace(/\n/g, ' '))
+            .filter(Boolean)
+            .join(' | '))
+        .filter(Boolean)
+        .join('\n')
+}
+
+function renderBlocks(el: HtmlElement, baseUrl: string, out: string[], headings: PageHeading[]): void {
+    let run = ''
+    const flush = () => {
+        const text = tidyInline(run)
+        if (text) out.push(text)
+        run = ''
+    }
+
+    for (const child of el.children) {
+        if (!isElement(child) || !BLOCK_TAGS.has(child.tag)) {
+            run += renderInline(child, baseUrl)
+            continue
+        }
+        flush()
+
+        const heading = child.tag.match(/^h([1-6])$/)
+        if (heading) {
+            const text = collapse(textContent(child))
+            if (text) {
+                const level = Number(heading[1])
+                out.push(`${'#'.repeat(level)} ${text}`)
+                headings.push({ level, text })
+            }
+        } else if (child.tag === 'ul' || child.tag === 'ol') {
+            const list = renderList(child, baseUrl, 0)
+            if (list) out.push(list)
+        } else if (child.tag === 'table') {
+            const table = renderTable(child, baseUrl)
+            if (table) out.push(table)
+        } else if (child.tag === 'pre') {
+            const code = textContent(child).replace(/^\n+|\s+$/g, '')
+            if (code) out.push(`\`\`\`\n${code}\n\`\`\``)
+        } else if (child.tag === 'blockquote') {
+            const quoted: string[] = []
+            renderBlocks(child, baseUrl, quoted, headings)
+            if (quoted.length > 0) out.push(quoted.join('\n\n').split('\n').map(line => `> ${line}`).join('\n'))
+        } else if (child.tag === 'dt') {
+            const text = collapse(textContent(child))
+            if (text) out.push(`**${text}**`)
+        } else if (child.tag !== 'hr') {
+            renderBlocks(child, baseUrl, out, headings)
+        }
+    }
+    flush()
+}
+
+// ── Metadata ─────────────────────────────────────────
+
+function readMeta(head: HtmlElement): { meta: Record<string, string>; og: Record<string, string> } {
+    const meta: Record<string, string> = {}
+    const og: Record<string, string> = {}
+    for (const el of findAll(head, child => child.tag === 'meta')) {
+        const key = (el.attrs.property || el.attrs.name || '').toLowerCase()
+        const content = collapse(el.attrs.content || '')
+        if (!key || !content) continue
+        if (key.startsWith('og:')) {
+            og[key.slice(3)] ??= content
+        } else {
+            meta[key] ??= content
+        }
+    }
+    return { meta, og }
+}
+
+const ORGANIZATION_TYPES = new Set(['Organization', 'Corporation', 'LocalBusiness', 'ProfessionalService', 'NGO', 'EducationalOrganization', 'GovernmentOrganization', 'NewsMediaOrganization', 'OnlineBusiness'])
+
+function schemaTypes(node: Record<string, unknown>): string[] {
+    const type = node['@type']
+    return (Array.isArray(type) ? type : [type]).filter((t): t is string => typeof t === 'string')
+}
+
+function isOrganizationType(type: string): boolean {
+    return ORGANIZATION_TYPES.has(type) || /(Organization|Business|Service|Agency)$/.test(type)
+}
+
+function asString(value: unknown): string | null {
+    if (typeof value === 'string') return collapse(decodeEntities(value)) || null
+    if (Array.isArray(value)) return asString(value[0])
+    if (value && typeof value === 'object' && 'url' in value) return asString((value as { url: unknown }).url)
+    return null
+}
+
+function formatAddress(value: unknown): string | null {
+    if (typeof value === 'string') return collapse(value) || null
+    if (!value || typeof value !== 'object') return null
+    const a = value as Record<string, unknown>
+    const country = a.addressCountry && typeof a.addressCountry === 'object'
+        ? asString((a.addressCountry as Record<string, unknown>).name)
+        : asString(a.addressCountry)
+    const parts = [asString(a.streetAddress), asString(a.addressLocality), asString(a.addressRegion), asString(a.postalCode), country]
+    return parts.filter(Boolean).join(', ') || null
+}
+
+/** Every object in the JSON-LD, walking arrays, @graph and nested values */
+function jsonLdNodes(value: unknown, out: Record<string, unknown>[] = [], depth = 0): Record<string, unknown>[] {
+    if (depth > 6 || !value || typeof value !== 'object') return out
+    if (Array.isArray(value)) {
+        value.forEach(item => jsonLdNodes(item, out, depth + 1))
+        return out
+    }
+    const node = value as Record<string, unknown>
+    out.push(node)
+    Object.values(node).forEach(child => jsonLdNodes(child, out, depth + 1))
+    return out
+}
+
+/** The first organisation with a name declared in the page's JSON-LD */
+export function extractOrganization(html: string): OrganizationData | null {
+    const scripts = html.match(/<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>[\s\S]*?<\/script\s*>/gi) || []
+    for (const script of scripts) {
+        const json = script.replace(/^<script\b[^>]*>/i, '').replace(/<\/script\s*>$/i, '').trim()
+        let parsed: unknown
+        try {
+            parsed = JSON.parse(json)
+        } catch {
+            continue
+        }
+
+        for (const node of jsonLdNodes(parsed)) {
+            const type = schemaTypes(node).find(isOrganizationType)
+            const name = asString(node.name)
+            if (!type || !name) continue
+
+            const sameAs = Array.isArray(node.sameAs) ? node.sameAs : node.sameAs ? [node.sameAs] : []
+            return {
+                type,
+                name,
+                legal_name: asString(node.legalName),
+                description: asString(node.description),
+                slogan: asString(node.slogan),
+                url: asString(node.url),
+                logo: asString(node.logo),
+                email: asString(node.email),
+                telephone: asString(node.telephone),
+                address: formatAddress(Array.isArray(node.address) ? node.address[0] : node.address),
+                founding_date: asString(node.foundingDate),
+                same_as: sameAs.map(asString).filter((u): u is string => !!u),
+            }
+        }
+    }
+    return null
+}
+
+// ── Entry point ──────────────────────────────────────
+
+export function extractHtml(html: string, pageUrl: string): HtmlExtraction {
+    const organization = extractOrganization(html)
+    const root = parseHtml(stripRawText(html))
+    const head = findAll(root, el => el.tag === 'head')[0] || root
+    const { meta, og } = readMeta(head)
+
+    const titleEl = findAll(head, el => el.tag === 'title')[0]
+    const title = titleEl ? collapse(textContent(titleEl)) || null : null
+    const htmlEl = findAll(root, el => el.tag === 'html')[0]
+    const canonical = findAll(head, el => el.tag === 'link' && (el.attrs.rel || '').toLowerCase().split(/\s+/).includes('canonical'))[0]
+
+    // Links are read before boilerplate removal; navigation is how the crawler finds pages
+    const links = new Set<string>()
+    for (const a of findAll(root, el => el.tag === 'a' && !!el.attrs.href)) {
+        const href = a.attrs.href.trim()
+        if (href.startsWith('#') || /^(mailto|tel|javascript):/i.test(href)) continue
+        const url = resolveUrl(href, pageUrl)
+        if (url) links.add(url)
+    }
+
+    const body = findAll(root, el => el.tag === 'body')[0] || root
+    removeBoilerplate(body)
+    const main = findMainContent(root)
+
+    const blocks: string[] = []
+    const headings: PageHeading[] = []
+    renderBlocks(main, pageUrl, blocks, headings)
+
+    return {
+        title,
+        description: meta.description || og.description || null,
+        canonical_url: canonical?.attrs.href ? resolveUrl(canonical.attrs.href, pageUrl) : null,
+        lang: htmlEl?.attrs.lang || null,
+        og,
+        organization,
+        headings: headings.filter(h => h.level <= 3),
+        markdown: blocks.join('\n\n'),
+        links: [...links],
+    }
+}
+
+/** The structured part of an extraction, as stored on the page */
+export function structuredData(extraction: HtmlExtraction): PageStructuredData {
+    return {
+        description: extraction.description,
+        canonical_url: extraction.canonical_url,
+        lang: extraction.lang,
+        og: extraction.og,
+        organization: extraction.organization,
+        headings: extraction.headings,
+    }
+}
+
+/** Organisation and page descriptions as a prompt section; empty when the site declares none */
+export function formatStructuredData(organization: OrganizationData | null, pages: { title: string | null; description: string | null }[]): string {
+    const lines: string[] = []
+    if (organization) {
+        const fields: [string, string | null][] = [
+            ['Name', organization.name],
+            ['Legal name', organization.legal_name],
+            ['Type', organization.type],
+            ['Description', organization.description],
+            ['Slogan', organization.slogan],
+            ['Founded', organization.founding_date],
+            ['Address', organization.address],
+        ]
+        fields.forEach(([label, value]) => {
+            if (value) lines.push(`${label}: ${value}`)
+        })
+    }
+    const descriptions = pages.filter(p => p.description).map(p => `- ${p.title || 'Page'}: ${p.description}`)
+    if (descriptions.length > 0) lines.push('Page descriptions:', ...descriptions)
+    if (lines.length === 0) return ''
+    return `SITE METADATA (declared by the website itself):\n${lines.join('\n')}\n`
+}
@@ -0,0 +1,67 @@
+// Idea Bank
+// Post ideas live in the ideas table, shared across the space. An idea moves
+// from 'new' to 'approved' when someone triages it, and to 'used' once
+// generate-campaign-posts writes a post from it (posts.idea_id links back).
+// Ideas come from the idea generator, from people, or from opportunities and
+// news, and carry the same content layer/category tags as posts.
+
+import { toContentSlot, type ContentSlot } from './content-mix.ts'
+
+export type IdeaStatus = 'new' | 'approved' | 'used' | 'rejected'
+
+export type IdeaSource = 'ai' | 'manual' | 'opportunity' | 'news'
+
+export const IDEA_STATUS_LABELS: Record<IdeaStatus, string> = {
+    new: 'New',
+    approved: 'Approved',
+    used: 'Used',
+    rejected: 'Rejected',
+}
+
+export const IDEA_SOURCE_LABELS: Record<IdeaSource, string> = {
+    ai: 'AI',
+    manual: 'Manual',
+    opportunity: 'Opportunity',
+    news: 'News',
+}
+
+// Ideas still waiting to be written up, shown in a campaign's idea list
+export const OPEN_IDEA_STATUSES: IdeaStatus[] = ['new', 'approved']
+
+/** The fields of an ideas row the helpers below read */
+export interface IdeaSummary {
+    id: string
+    campaign_id: string | null
+    status: IdeaStatus
+    content_layer: string | null
+    content_category: string | null
+    votes: number
+    created_at: string
+}
+
+export function isIdeaStatus(value: unknown): value is IdeaStatus {
+    return typeof value === 'string' && value in IDEA_STATUS_LABELS
+}
+
+export function ideaSlot(idea: Pick<IdeaSummary, 'content_layer' | 'content_category'>): ContentSlot | null {
+    return toContentSlot(idea.content_layer, idea.content_category)
+}
+
+/**
+ * Approved ideas in the order a campaign draws them: those already assigned
+ * to the campaign first, then the space backlog, each by votes and then age.
+ */
+export function orderIdeasForDraw<T extends IdeaSummary>(ideas: T[], campaignId: string): T[] {
+    return ideas
+        .filter(idea => idea.status === 'approved' && (idea.campaign_id === campaignId || idea.campaign_id === null))
+        .sort((a, b) =>
+            Number(b.campaign_id === campaignId) - Number(a.campaign_id === campaignId) ||
+            b.votes - a.votes ||
+            a.created_at.localeCompare(b.created_at))
+}
+
+/** voted_by after the user votes, or takes their vote back */
+export function toggleIdeaVote(votedBy: string[] | null | undefined, userId: string): string[] {
+    const voters = votedBy || []
+    return voters.includes(userId) ? voters.filter(id => id !== userId) : [...voters, userId]
+}
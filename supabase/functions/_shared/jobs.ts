@@ -0,0 +1,117 @@
+// Background Job Types
+// Shared by the job-worker edge function and the browser job store so both
+// agree on the shape of jobs.progress.
+
+export type JobType = 'generate_text' | 'generate_image' | 'compose_image' | 'classify_posts' | 'generate_series'
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+export type JobItemStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped'
+
+export interface JobItem {
+    /** Stable identifier within the job: an idea id, a post id or a series part number */
+    key: string
+    label: string
+    status: JobItemStatus
+    attempts: number
+    error?: string | null
+    result?: Record<string, unknown> | null
+}
+
+export interface JobProgress {
+    total: number
+    completed: number
+    failed: number
+    skipped: number
+    /** Label of the item currently being processed */
+    current: string | null
+    items: JobItem[]
+}
+
+export interface Job {
+    id: string
+    space_id: string
+    campaign_id: string | null
+    type: JobType
+    status: JobStatus
+    payload: Record<string, unknown>
+    progress: JobProgress | null
+    error: string | null
+    created_by: string
+    created_at: string
+    updated_at: string
+    started_at: string | null
+    completed_at: string | null
+    heartbeat_at: string | null
+}
+
+// Payloads per job type
+export interface GenerateTextJobPayload {
+    campaign_id: string
+    /** Sequence number of the first post, so new posts follow existing ones */
+    sequence_start?: number
+}
+
+export interface GenerateSeriesJobPayload {
+    series_id: string
+}
+
+export interface GenerateImageJobPayload {
+    /** Images generated per post */
+    count?: number
+}
+
+/** Attempts per item before it is marked failed */
+export const MAX_ITEM_ATTEMPTS = 2
+
+export const JOB_TYPE_LABELS: Record<JobType, string> = {
+    generate_text: 'Generating posts',
+    generate_image: 'Generating images',
+    compose_image: 'Applying logos',
+    classify_posts: 'Classifying posts',
+    generate_series: 'Writing series',
+}
+
+export function isJobActive(status: JobStatus): boolean {
+    return status === 'queued' || status === 'running'
+}
+
+export function createJobProgress(items: { key: string; label: string }[]): JobProgress {
+    return summariseProgress(items.map(item => ({
+        key: item.key,
+        label: item.label,
+        status: 'pending',
+        attempts: 0,
+    })))
+}
+
+export function summariseProgress(items: JobItem[], current: string | null = null): JobProgress {
+    return {
+        total: items.length,
+        completed: items.filter(i => i.status === 'completed').length,
+        failed: items.filter(i => i.status === 'failed').length,
+        skipped: items.filter(i => i.status === 'skipped').length,
+        current,
+        items,
+    }
+}
+
+/** Puts failed and skipped items back in the queue, keeping completed ones */
+export function resetUnfinishedItems(progress: JobProgress): JobProgress {
+    return summariseProgress(progress.items.map(item =>
+        item.status === 'failed' || item.status === 'skipped'
+            ? { ...item, status: 'pending', attempts: 0, error: null }
+            : item
+    ))
+}
+
+/** Final status once no items are pending */
+export function resolveJobOutcome(progress: JobProgress): { status: JobStatus; error: string | null } {
+    if (progress.total > 0 && progress.failed === progress.total) {
+        return { status: 'failed', error: `All ${progress.total} items failed` }
+    }
+    if (progress.failed > 0) {
+        return { status: 'completed', error: `${progress.failed} of ${progress.total} items failed` }
+    }
+    return { status: 'completed', error: null }
+}
@@ -0,0 +1,316 @@
+// LLM Client
+// One typed client for every text generation edge function. Pick a provider
+// from the space's ai_settings row with createTextLLM(), then call complete()
+// or completeJSON(). Handles auth, retries with backoff on 429/5xx and usage.
+//
+// Set LLM_PROVIDER=mock to run every function offline against a deterministic
+// mock; LLM_MOCK_RESPONSE overrides what the mock returns.
+
+import { hashText } from './hash.ts'
+
+export type LLMProvider = 'openai' | 'claude' | 'gemini' | 'mock'
+
+export interface LLMMessage {
+    role: 'user' | 'assistant'
+    content: string
+}
+
+export interface LLMRequest {
+    system?: string
+    /** Shorthand for a single user message */
+    prompt?: string
+    messages?: LLMMessage[]
+    temperature?: number
+    maxTokens?: number
+    /** Ask the provider for a JSON object response where it supports it */
+    json?: boolean
+}
+
+export interface LLMUsage {
+    inputTokens: number
+    outputTokens: number
+    totalTokens: number
+}
+
+export interface LLMResponse {
+    text: string
+    usage: LLMUsage
+    provider: LLMProvider
+    model: string
+}
+
+export interface LLMClient {
+    provider: LLMProvider
+    model: string
+    complete: (request: LLMRequest) => Promise<LLMResponse>
+    /** complete() in JSON mode, parsed. Throws if the response is not valid JSON */
+    completeJSON: <T = unknown>(request: LLMRequest) => Promise<{ data: T; response: LLMResponse }>
+}
+
+export interface LLMClientConfig {
+    provider: LLMProvider
+    model: string
+    apiKey?: string
+    maxRetries?: number
+    /** Mock provider only: fixed text, or a function of the request */
+    mockResponse?: string | ((request: LLMRequest) => string)
+}
+
+/** Row shape read from ai_settings: select('text_provider, text_model') */
+export interface TextAISettings {
+    text_provider?: string | null
+    text_model?: string | null
+}
+
+export const DEFAULT_TEXT_MODELS: Record<LLMProvider, string> = {
+    openai: 'gpt-4o-mini',
+    claude: 'claude-sonnet-4-20250514',
+    gemini: 'gemini-2.5-flash',
+    mock: 'mock-1',
+}
+
+const API_KEY_ENV: Record<LLMProvider, string | null> = {
+    openai: 'OPENAI_API_KEY',
+    claude: 'ANTHROPIC_API_KEY',
+    gemini: 'GEMINI_API_KEY',
+    mock: null,
+}
+
+const DEFAULT_MAX_RETRIES = 3
+const BASE_BACKOFF_MS = 1000
+const CHARS_PER_TOKEN = 4
+
+// ── Client construction ──────────────────────────────
+
+/**
+ * Client for the space's configured text model. Falls back to OpenAI
+ * gpt-4o-mini when the space has no ai_settings row.
+ * Throws when the provider's API key is not configured.
+ */
+export function createTextLLM(settings?: TextAISettings | null, overrides: Partial<LLMClientConfig> = {}): LLMClient {
+    const envProvider = Deno.env.get('LLM_PROVIDER') as LLMProvider | undefined
+    const provider = envProvider || overrides.provider || toProvider(settings?.text_provider)
+    const model = envProvider
+        ? DEFAULT_TEXT_MODELS[envProvider]
+        : overrides.model || (settings?.text_provider && settings?.text_model) || DEFAULT_TEXT_MODELS[provider]
+
+    const keyName = API_KEY_ENV[provider]
+    const apiKey = overrides.apiKey || (keyName ? Deno.env.get(keyName) : undefined)
+    if (keyName && !apiKey) {
+        throw new Error(`${keyName} not configured. Set it in Supabase secrets.`)
+    }
+
+    return createLLMClient({
+        mockResponse: Deno.env.get('LLM_MOCK_RESPONSE'),
+        ...overrides,
+        provider,
+        model,
+        apiKey,
+    })
+}
+
+export function createLLMClient(config: LLMClientConfig): LLMClient {
+    const complete = async (request: LLMRequest): Promise<LLMResponse> => {
+        const messages: LLMMessage[] = request.messages || [{ role: 'user', content: request.prompt || '' }]
+        const call = () => {
+            switch (config.provider) {
+                case 'openai': return callOpenAI(config, request, messages)
+                case 'claude': return callClaude(config, request, messages)
+                case 'gemini': return callGemini(config, request, messages)
+                case 'mock': return callMock(config, request, messages)
+            }
+        }
+        return withRetries(call, config.maxRetries ?? DEFAULT_MAX_RETRIES, config.provider)
+    }
+
+    const completeJSON = async <T = unknown>(request: LLMRequest) => {
+        const response = await complete({ ...request, json: true })
+        return { data: parseJSONResponse<T>(response.text), response }
+    }
+
+    return { provider: config.provider, model: config.model, complete, completeJSON }
+}
+
+function toProvider(value?: string | null): LLMProvider {
+    return value === 'claude' || value === 'gemini' || value === 'mock' ? value : 'openai'
+}
+
+// ── Retries ──────────────────────────────────────────
+
+interface HttpFailure {
+    status: number
+    retryAfterMs: number | null
+    message: string
+}
+
+/**
+ * Retries on 429, 5xx and network errors thrown by postJSON, with exponential
+ * backoff. Anything else, e.g. a bad response body or a bug, is thrown at once.
+ */
+export async function withRetries<T>(call: () => Promise<T>, maxRetries: number, label: string): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await call()
+        } catch (err) {
+            const { httpFailure: failure, networkError } = err as { httpFailure?: HttpFailure; networkError?: boolean }
+            const retryable = networkError === true || (!!failure && (failure.status === 429 || failure.status >= 500))
+            if (!retryable || attempt >= maxRetries) throw err
+
+            const backoff = failure?.retryAfterMs ?? BASE_BACKOFF_MS * 2 ** attempt + Math.random() * 250
+            console.warn(`${label} request failed (${failure?.status ?? 'network'}), retrying in ${Math.round(backoff)}ms`)
+            await new Promise(resolve => setTimeout(resolve, backoff))
+        }
+    }
+}
+
+export async function postJSON(url: string, headers: Record<string, string>, body: unknown, label: string) {
+    let response: Response
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify(body),
+        })
+    } catch (err) {
+        // The request never got a response: connection refused, reset, DNS and the like
+        throw Object.assign(new Error(`${label} API unreachable: ${err instanceof Error ? err.message : String(err)}`), { networkError: true })
+    }
+
+    if (!response.ok) {
+        const errorText = await response.text()
+        const retryAfter = Number(response.headers.get('retry-after'))
+        const failure: HttpFailure = {
+            status: response.status,
+            retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : null,
+            message: errorText.slice(0, 500),
+        }
+        throw Object.assign(new Error(`${label} API error (${response.status}): ${failure.message}`), { httpFailure: failure })
+    }
+
+    return response.json()
+}
+
+// ── Providers ────────────────────────────────────────
+
+async function callOpenAI(config: LLMClientConfig, request: LLMRequest, messages: LLMMessage[]): Promise<LLMResponse> {
+    const data = await postJSON(
+        'https://api.openai.com/v1/chat/completions',
+        { 'Authorization': `Bearer ${config.apiKey}` },
+        {
+            model: config.model,
+            messages: [
+                ...(request.system ? [{ role: 'system', content: request.system }] : []),
+                ...messages,
+            ],
+            temperature: request.temperature ?? 0.7,
+            max_tokens: request.maxTokens ?? 1000,
+            ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+        },
+        'OpenAI'
+    )
+
+    const inputTokens = data.usage?.prompt_tokens || 0
+    const outputTokens = data.usage?.completion_tokens || 0
+    return {
+        text: data.choices?.[0]?.message?.content || '',
+        usage: { inputTokens, outputTokens, totalTokens: data.usage?.total_tokens || inputTokens + outputTokens },
+        provider: 'openai',
+        model: config.model,
+    }
+}
+
+async function callClaude(config: LLMClientConfig, request: LLMRequest, messages: LLMMessage[]): Promise<LLMResponse> {
+    // No native JSON mode; ask for it in the system prompt and parse
+    const system = request.json
+        ? `${request.system || ''}\n\nRespond with a single valid JSON object and nothing else.`.trim()
+        : request.system
+
+    const data = await postJSON(
+        'https://api.anthropic.com/v1/messages',
+        { 'x-api-key': config.apiKey!, 'anthropic-version': '2023-06-01' },
+        {
+            model: config.model,
+            max_tokens: request.maxTokens ?? 1000,
+            ...(system ? { system } : {}),
+            messages,
+            temperature: request.temperature ?? 0.7,
+        },
+        'Claude'
+    )
+
+    const inputTokens = data.usage?.input_tokens || 0
+    const outputTokens = data.usage?.output_tokens || 0
+    return {
+        text: data.content?.[0]?.text || '',
+        usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+        provider: 'claude',
+        model: config.model,
+    }
+}
+
+async function callGemini(config: LLMClientConfig, request: LLMRequest, messages: LLMMessage[]): Promise<LLMResponse> {
+    const data = await postJSON(
+        `https://generativelanguage.googleapis.com/v1beta/models/${config.model}:generateContent`,
+        { 'x-goog-api-key': config.apiKey! },
+        {
+            ...(request.system ? { systemInstruction: { parts: [{ text: request.system }] } } : {}),
+            contents: messages.map(m => ({
+                role: m.role === 'assistant' ? 'model' : 'user',
+                parts: [{ text: m.content }],
+            })),
+            generationConfig: {
+                temperature: request.temperature ?? 0.7,
+                maxOutputTokens: request.maxTokens ?? 1000,
+                ...(request.json ? { responseMimeType: 'application/json' } : {}),
+            },
+        },
+        'Gemini'
+    )
+
+    const inputTokens = data.usageMetadata?.promptTokenCount || 0
+    const outputTokens = data.usageMetadata?.candidatesTokenCount || 0
+    return {
+        text: data.candidates?.[0]?.content?.parts?.map((p: { text?: string }) => p.text || '').join('') || '',
+        usage: { inputTokens, outputTokens, totalTokens: data.usageMetadata?.totalTokenCount || inputTokens + outputTokens },
+        provider: 'gemini',
+        model: config.model,
+    }
+}
+
+// Deterministic: the same request always produces the same response
+function callMock(config: LLMClientConfig, request: LLMRequest, messages: LLMMessage[]): Promise<LLMResponse> {
+    const lastMessage = messages[messages.length - 1]?.content || ''
+    const text = typeof config.mockResponse === 'function'
+        ? config.mockResponse(request)
+        : config.mockResponse || (request.json
+            ? JSON.stringify({ mock: true, prompt_hash: hashText(lastMessage) })
+            : `Mock response ${hashText(lastMessage)}: ${lastMessage.slice(0, 200)}`)
+
+    const inputTokens = estimateTokens((request.system || '') + messages.map(m => m.content).join(''))
+    const outputTokens = estimateTokens(text)
+    return Promise.resolve({
+        text,
+        usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+        provider: 'mock',
+        model: config.model,
+    })
+}
+
+// ── Helpers ──────────────────────────────────────────
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+/** Parses a model's JSON answer, tolerating markdown code fences around it */
+export function parseJSONResponse<T = unknown>(text: string): T {
+    const cleaned = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
+    try {
+        return JSON.parse(cleaned) as T
+    } catch {
+        // Fall back to the outermost object or array in the text
+        const match = cleaned.match(/[[{][\s\S]*[\]}]/)
+        if (match) return JSON.parse(match[0]) as T
+        throw new Error(`Model did not return valid JSON: ${cleaned.slice(0, 200)}`)
+    }
+}
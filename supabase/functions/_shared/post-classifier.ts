@@ -0,0 +1,50 @@
+// Post Classifier
+// Asks the text model for a post's layer/category (prompt and validation in
+// ./classification.ts) and builds the posts columns that store the result.
+
+import type { LLMClient } from './llm.ts'
+import {
+    buildClassificationInput,
+    buildClassificationPrompt,
+    classificationStatus,
+    parseClassification,
+    type ClassificationMeta,
+    type PostClassification,
+} from './classification.ts'
+import type { ContentLayer } from './content-mix.ts'
+
+/**
+ * Classifies one post body. `layer` limits the answer to that layer's
+ * categories. Returns null when the model's answer is not a usable category.
+ */
+export async function classifyPostBody(
+    llm: LLMClient,
+    post: { title?: string | null; body: string },
+    layer?: ContentLayer | null,
+): Promise<PostClassification | null> {
+    const { data } = await llm.completeJSON<unknown>({
+        system: buildClassificationPrompt(layer),
+        prompt: buildClassificationInput(post),
+        temperature: 0,
+        maxTokens: 200,
+    })
+    return parseClassification(data, layer)
+}
+
+/** posts columns for a classification result */
+export function classificationColumns(classification: PostClassification, llm: LLMClient) {
+    const meta: ClassificationMeta = {
+        provider: llm.provider,
+        model: llm.model,
+        reason: classification.reason,
+        source: 'ai',
+    }
+    return {
+        content_layer: classification.layer,
+        content_category: classification.category,
+        content_confidence: classification.confidence,
+        classification_status: classificationStatus(classification.confidence),
+        classification_meta: meta,
+        classified_at: new Date().toISOString(),
+    }
+}
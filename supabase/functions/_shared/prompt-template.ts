@@ -0,0 +1,189 @@
+// Prompt Template Rendering
+// Shared by the generation edge functions and the Prompt Studio preview, so the
+// prompt shown while editing is exactly the prompt that gets sent.
+
+export type TemplateVariableGroup = 'post' | 'campaign' | 'brand'
+
+export interface TemplateVariableDefinition {
+    name: string
+    group: TemplateVariableGroup
+    description: string
+}
+
+export const TEMPLATE_VARIABLES: TemplateVariableDefinition[] = [
+    { name: 'topic', group: 'post', description: 'The idea or topic the post is about' },
+    { name: 'post_body', group: 'post', description: 'The generated post text (image prompts)' },
+    { name: 'audience', group: 'campaign', description: 'Campaign audience, falling back to Brand Studio "who we serve"' },
+    { name: 'tone_notes', group: 'campaign', description: 'Campaign tone, falling back to Brand Studio tone notes' },
+    { name: 'constraints', group: 'campaign', description: 'Length, CTA, hashtag and emoji rules from campaign settings' },
+    { name: 'campaign_name', group: 'campaign', description: 'Name of the campaign' },
+    { name: 'example_post', group: 'campaign', description: 'Style reference post pasted into the campaign' },
+    { name: 'post_length', group: 'campaign', description: 'Target word range, e.g. 180-220' },
+    { name: 'brand_name', group: 'brand', description: 'Business name detected in Brand Studio' },
+    { name: 'who_we_are', group: 'brand', description: 'Brand profile: who we are' },
+    { name: 'what_we_do', group: 'brand', description: 'Brand profile: what we do' },
+    { name: 'who_we_serve', group: 'brand', description: 'Brand profile: who we serve' },
+    { name: 'services', group: 'brand', description: 'Brand profile services, comma separated' },
+    { name: 'themes', group: 'brand', description: 'Brand profile themes, comma separated' },
+    { name: 'brand_context', group: 'brand', description: 'Compiled brand context (profile fields and source documents)' },
+]
+
+const KNOWN_VARIABLES = new Set(TEMPLATE_VARIABLES.map(v => v.name))
+
+export const DEFAULT_TEXT_TEMPLATE = `Write a LinkedIn post based on the following idea or topic:
+
+"{topic}"
+
+Audience: {audience}
+Tone: {tone_notes}
+
+Guidelines:
+- Open with a strong hook that would stop this audience scrolling.
+- Be confident and insightful, not salesy or preachy.
+- Avoid generic advice, buzzwords and vague statements.
+- Write as practitioners who have seen what works and what fails.
+- Do not mention campaign names, quarters or planning periods.
+
+{constraints}`
+
+export const DEFAULT_IMAGE_TEMPLATE = `Create a professional image for a LinkedIn post about {topic}.
+
+Post content:
+{post_body}`
+
+export type TemplateVariables = Partial<Record<string, string | null>>
+
+export interface RenderResult {
+    text: string
+    /** Known variables that were substituted with a non-empty value */
+    used: string[]
+    /** Placeholders that are not part of TEMPLATE_VARIABLES; left in the output untouched */
+    unknown: string[]
+    /** Known variables referenced by the template but with no value available */
+    missing: string[]
+}
+
+// {name} is a variable; {{ and }} escape literal braces
+const PLACEHOLDER_PATTERN = /\{\{|\}\}|\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g
+
+export function extractTemplateVariables(template: string): string[] {
+    const names = new Set<string>()
+    for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+        if (match[1]) names.add(match[1])
+    }
+    return Array.from(names)
+}
+
+export function renderTemplate(template: string, variables: TemplateVariables): RenderResult {
+    const used = new Set<string>()
+    const unknown = new Set<string>()
+    const missing = new Set<string>()
+
+    const text = template.replace(PLACEHOLDER_PATTERN, (token: string, name?: string) => {
+        if (!name) return token === '{{' ? '{' : '}'
+
+        if (!KNOWN_VARIABLES.has(name)) {
+            unknown.add(name)
+            return token
+        }
+
+        const value = variables[name]
+        if (value === undefined || value === null || value.trim() === '') {
+            missing.add(name)
+            return ''
+        }
+
+        used.add(name)
+        return value
+    })
+
+    return {
+        // Collapse blank lines left behind by empty substitutions
+        text: text.replace(/\n{3,}/g, '\n\n').trim(),
+        used: Array.from(used),
+        unknown: Array.from(unknown),
+        missing: Array.from(missing),
+    }
+}
+
+// ── Variable sources ─────────────────────────────────
+
+export interface TemplateCampaignSource {
+    name?: string | null
+    generation_settings?: {
+        example_post?: string
+        tone_modifiers?: string
+        audience_notes?: string
+        length_rules?: string
+        cta_rules?: string
+        hashtag_rules?: string
+        post_length?: 'short' | 'medium' | 'long'
+        include_hashtags?: boolean
+        include_cta?: boolean
+        include_emojis?: 'none' | 'subtle' | 'frequent'
+    } | null
+}
+
+export interface TemplateBrandProfileSource {
+    who_we_are?: string | null
+    what_we_do?: string | null
+    who_we_serve?: string | null
+    tone_notes?: string | null
+    services?: string[] | null
+    themes?: string[] | null
+}
+
+export interface TemplateVariableInput {
+    topic?: string | null
+    postBody?: string | null
+    campaign?: TemplateCampaignSource | null
+    brandProfile?: TemplateBrandProfileSource | null
+    brandName?: string | null
+    brandContext?: string | null
+}
+
+export function getPostLengthWords(postLength?: 'short' | 'medium' | 'long'): string {
+    if (postLength === 'short') return '80-120'
+    if (postLength === 'long') return '280-350'
+    return '180-220'
+}
+
+export function buildConstraints(settings: TemplateCampaignSource['generation_settings']): string {
+    const s = settings || {}
+    const lines: string[] = [`Length: ${s.length_rules || `${getPostLengthWords(s.post_length)} words`}`]
+
+    if (s.include_cta === false) lines.push('CTA: Do not include a call-to-action.')
+    else lines.push(`CTA: ${s.cta_rules || 'End with a subtle call-to-action or question to encourage engagement.'}`)
+
+    if (s.include_hashtags === false) lines.push('Hashtags: Do not include any hashtags.')
+    else lines.push(`Hashtags: ${s.hashtag_rules || 'Include 2-4 relevant hashtags at the end.'}`)
+
+    if (s.include_emojis === 'none') lines.push('Emojis: Do not use any emojis.')
+    else if (s.include_emojis === 'frequent') lines.push('Emojis: Use emojis liberally to add energy.')
+    else lines.push('Emojis: Use 1-2 emojis sparingly.')
+
+    return lines.join('\n')
+}
+
+export function buildTemplateVariables(input: TemplateVariableInput): TemplateVariables {
+    const settings = input.campaign?.generation_settings || {}
+    const profile = input.brandProfile || {}
+
+    return {
+        topic: input.topic,
+        post_body: input.postBody,
+        audience: settings.audience_notes || profile.who_we_serve,
+        tone_notes: settings.tone_modifiers || profile.tone_notes,
+        constraints: buildConstraints(settings),
+        campaign_name: input.campaign?.name,
+        example_post: settings.example_post,
+        post_length: getPostLengthWords(settings.post_length),
+        brand_name: input.brandName,
+        who_we_are: profile.who_we_are,
+        what_we_do: profile.what_we_do,
+        who_we_serve: profile.who_we_serve,
+        services: profile.services?.join(', '),
+        themes: profile.themes?.join(', '),
+        brand_context: input.brandContext,
+    }
+}
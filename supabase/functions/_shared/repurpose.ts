@@ -0,0 +1,209 @@
+// Document Repurposing
+// Any source document (a crawled case study page, a synced whitepaper) can be
+// repurposed into a pack of draft posts for a campaign: several LinkedIn posts
+// spread across the content layers, each with a suggested image prompt, and a
+// carousel outline whose slides Image Studio opens as slide prompts.
+// repurpose-document writes the whole pack in one model call so the posts
+// cover different parts of the document instead of repeating each other.
+
+import {
+    CONTENT_CATEGORIES,
+    CONTENT_LAYERS,
+    getCategoryLayer,
+    isContentCategory,
+    isContentLayer,
+    type ContentCategory,
+    type ContentLayer,
+} from './content-mix.ts'
+
+export const MIN_PACK_POSTS = 2
+export const MAX_PACK_POSTS = 8
+export const DEFAULT_PACK_POSTS = 4
+
+export const MIN_CAROUSEL_SLIDES = 4
+export const MAX_CAROUSEL_SLIDES = 10
+
+// Source text sent to the model
+export const MAX_REPURPOSE_SOURCE_CHARS = 24000
+
+// Documents shorter than this do not have enough material for a pack
+export const MIN_REPURPOSE_SOURCE_CHARS = 300
+
+// Layers offered by default; hot topics are timely and rarely come from a document
+export const DEFAULT_PACK_LAYERS: ContentLayer[] = ['general', 'things_we_sell', 'market_insights']
+
+export interface RepurposePost {
+    title: string
+    body: string
+    layer: ContentLayer
+    category: ContentCategory | null
+    image_prompt: string
+}
+
+export interface CarouselSlide {
+    heading: string
+    text: string
+    image_prompt: string
+}
+
+/** generation_meta.repurpose.carousel on the pack's carousel post */
+export interface CarouselOutline {
+    title: string
+    /** The LinkedIn text posted with the carousel */
+    caption: string
+    /** Visual style shared by every slide */
+    style: string
+    slides: CarouselSlide[]
+}
+
+export interface RepurposePack {
+    posts: RepurposePost[]
+    carousel: CarouselOutline | null
+}
+
+export function clampPackPosts(count: unknown): number {
+    const n = Math.round(Number(count))
+    if (!Number.isFinite(n)) return DEFAULT_PACK_POSTS
+    return Math.min(MAX_PACK_POSTS, Math.max(MIN_PACK_POSTS, n))
+}
+
+/** Known layers from `layers`, in order; the defaults when none are left */
+export function normalisePackLayers(layers: unknown): ContentLayer[] {
+    const valid = (Array.isArray(layers) ? layers : []).filter(isContentLayer)
+    return valid.length > 0 ? [...new Set(valid)] : DEFAULT_PACK_LAYERS
+}
+
+// ── Prompts ──────────────────────────────────────────
+
+export const REPURPOSE_SYSTEM_PROMPT = `You repurpose one source document into a pack of LinkedIn content. Every post takes a different angle on the document and must stand on its own; together they should cover the document rather than repeat its headline.
+
+Only use facts from the source document. Never make up statistics, quotes or results. Respond with JSON only.`
+
+export function buildRepurposePrompt(input: {
+    document: { title?: string | null; url?: string | null; content: string }
+    postCount: number
+    layers: ContentLayer[]
+    includeCarousel: boolean
+}): string {
+    const layerLines = CONTENT_LAYERS
+        .filter(l => input.layers.includes(l.value))
+        .map(l => {
+            const categories = CONTENT_CATEGORIES.filter(c => c.layer === l.value).map(c => c.value).join(', ')
+            return `- ${l.value} (${l.description}); categories: ${categories}`
+        })
+        .join('\n')
+
+    const carousel = input.includeCarousel
+        ? `,
+  "carousel": {
+    "title": "Carousel title",
+    "caption": "The LinkedIn post text published with the carousel, 60-120 words",
+    "style": "The visual style shared by every slide, e.g. colours, illustration or photo style",
+    "slides": [
+      { "heading": "Slide headline, under 8 words", "text": "One or two short sentences", "image_prompt": "The image behind this slide, described as a scene" }
+    ]
+  }`
+        : ''
+
+    return `Repurpose this document into ${input.postCount} LinkedIn posts${input.includeCarousel ? ' and one carousel' : ''}.
+
+DOCUMENT${input.document.title ? `: ${input.document.title}` : ''}${input.document.url ? `\nURL: ${input.document.url}` : ''}
+---
+${input.document.content.slice(0, MAX_REPURPOSE_SOURCE_CHARS)}
+---
+
+Spread the posts across these content layers, as evenly as the document allows:
+${layerLines}
+
+Each post is 150-250 words, with a hook in the first line. Each image prompt describes one photo or illustration for the post, with no text in the image.${input.includeCarousel ? ` The carousel walks through the document's key points in ${MIN_CAROUSEL_SLIDES}-${MAX_CAROUSEL_SLIDES} slides, from a cover slide to a closing call to action.` : ''}
+
+Respond with JSON:
+{
+  "posts": [
+    { "title": "Short internal title", "body": "The post text", "layer": "one of the layers above", "category": "one of that layer's categories", "image_prompt": "Suggested image" }
+  ]${carousel}
+}
+
+Return exactly ${input.postCount} posts.`
+}
+
+function asText(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : ''
+}
+
+/**
+ * Checks a pack returned by the model. Posts without a body are dropped and
+ * extra posts cut; a post on a layer outside `layers` is moved to the next
+ * layer in turn, and a category that does not belong to its layer is cleared.
+ * No posts at all is an error; a carousel with too few slides is dropped.
+ */
+export function normaliseRepurposePack(raw: unknown, postCount: number, layers: ContentLayer[]): RepurposePack {
+    const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+
+    const posts = (Array.isArray(value.posts) ? value.posts : [])
+        .map((post, i): RepurposePost | null => {
+            const p = (post && typeof post === 'object' ? post : {}) as Record<string, unknown>
+            const body = asText(p.body)
+            if (!body) return null
+
+            const layer = isContentLayer(p.layer) && layers.includes(p.layer) ? p.layer : layers[i % layers.length]
+            const category = isContentCategory(p.category) && getCategoryLayer(p.category) === layer ? p.category : null
+            return {
+                title: asText(p.title) || body.split('\n')[0].slice(0, 80),
+                body,
+                layer,
+                category,
+                image_prompt: asText(p.image_prompt),
+            }
+        })
+        .filter((post): post is RepurposePost => post !== null)
+        .slice(0, postCount)
+
+    if (posts.length === 0) {
+        throw new Error('Repurposed pack has no posts')
+    }
+
+    return { posts, carousel: normaliseCarouselOutline(value.carousel) }
+}
+
+function normaliseCarouselOutline(raw: unknown): CarouselOutline | null {
+    if (!raw || typeof raw !== 'object') return null
+    const c = raw as Record<string, unknown>
+
+    const slides = (Array.isArray(c.slides) ? c.slides : [])
+        .map((slide): CarouselSlide | null => {
+            const s = (slide && typeof slide === 'object' ? slide : {}) as Record<string, unknown>
+            const heading = asText(s.heading)
+            if (!heading) return null
+            return { heading, text: asText(s.text), image_prompt: asText(s.image_prompt) }
+        })
+        .filter((slide): slide is CarouselSlide => slide !== null)
+        .slice(0, MAX_CAROUSEL_SLIDES)
+
+    if (slides.length < MIN_CAROUSEL_SLIDES) return null
+
+    return {
+        title: asText(c.title) || slides[0].heading,
+        caption: asText(c.caption),
+        style: asText(c.style),
+        slides,
+    }
+}
+
+/**
+ * The outline as Image Studio's carousel inputs: the shared style becomes the
+ * base prompt and each slide one slide prompt naming its headline.
+ */
+export function carouselStudioPrompts(outline: CarouselOutline): { basePrompt: string; slides: string[] } {
+    return {
+        basePrompt: outline.style,
+        slides: outline.slides.map(slide =>
+            `${slide.image_prompt || slide.text}${slide.heading ? `\nSlide headline: "${slide.heading}"` : ''}`
+        ),
+    }
+}
+
+/** A carousel post's body: the caption, or the slide headlines when there is none */
+export function carouselPostBody(outline: CarouselOutline): string {
+    return outline.caption || outline.slides.map((slide, i) => `${i + 1}. ${slide.heading}`).join('\n')
+}
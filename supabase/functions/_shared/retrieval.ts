@@ -0,0 +1,201 @@
+// Source Retrieval
+// Indexes source_documents into embedded source_chunks and retrieves the
+// chunks most relevant to a topic via the match_source_chunks RPC.
+
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { chunkText } from './chunking.ts'
+import { createEmbeddings, embeddingsAvailable, type EmbeddingResult } from './embeddings.ts'
+import { recordUsage } from './usage-ledger.ts'
+
+export type SourceType = 'website' | 'sharepoint' | 'manual'
+
+export interface RetrievedChunk {
+    id: string
+    document_id: string
+    chunk_index: number
+    content: string
+    source_type: SourceType
+    title: string | null
+    url: string | null
+    similarity: number
+}
+
+interface IndexableDocument {
+    id: string
+    space_id: string
+    content: string | null
+    index_attempts?: number
+}
+
+// Crawler placeholder written before a page has been fetched
+const PLACEHOLDER_CONTENT = '(Content will be fetched by crawler)'
+
+// Failed attempts after which a pending document is only indexed when asked for by id
+export const MAX_INDEX_ATTEMPTS = 3
+
+/** Rebuilds one document's chunks and embeddings. Returns the chunk count. */
+export async function indexDocument(supabase: SupabaseClient, doc: IndexableDocument): Promise<number> {
+    const content = doc.content && doc.content !== PLACEHOLDER_CONTENT ? doc.content : ''
+    const chunks = chunkText(content)
+
+    let embeddings: number[][] = []
+    let model: string | null = null
+    if (chunks.length > 0) {
+        const result = await createEmbeddings(chunks.map(c => c.content))
+        embeddings = result.embeddings
+        model = result.model
+        await recordEmbeddingUsage(supabase, doc.space_id, result, { document_id: doc.id, chunks: chunks.length })
+    }
+
+    const { error: deleteError } = await supabase
+        .from('source_chunks')
+        .delete()
+        .eq('document_id', doc.id)
+
+    if (deleteError) throw deleteError
+
+    if (chunks.length > 0) {
+        const { error: insertError } = await supabase
+            .from('source_chunks')
+            .insert(chunks.map((chunk, i) => ({
+                document_id: doc.id,
+                space_id: doc.space_id,
+                chunk_index: chunk.index,
+                content: chunk.content,
+                char_start: chunk.start,
+                embedding: embeddings[i],
+                embedding_model: model,
+            })))
+
+        if (insertError) throw insertError
+    }
+
+    await supabase
+        .from('source_documents')
+        .update({ indexed_at: new Date().toISOString(), index_attempts: 0, index_error: null })
+        .eq('id', doc.id)
+
+    return chunks.length
+}
+
+export interface IndexOptions {
+    /** Documents per call, to stay inside the edge function time limit */
+    limit?: number
+    documentIds?: string[]
+    sourceTypes?: SourceType[]
+    /** Rebuild documents that are already indexed */
+    reindex?: boolean
+}
+
+export interface IndexSummary {
+    indexed: number
+    chunks: number
+    failed: { id: string; error: string }[]
+    /** Documents still waiting after this call */
+    remaining: number
+}
+
+/**
+ * Indexes documents that have no chunks yet (or all matching ones with
+ * reindex). Documents never tried come first and the ones that failed least
+ * recently after them; a failure is recorded on the document, and one that
+ * has failed MAX_INDEX_ATTEMPTS times is left out unless asked for by id.
+ */
+export async function indexPendingDocuments(supabase: SupabaseClient, spaceId: string, options: IndexOptions = {}): Promise<IndexSummary> {
+    const summary: IndexSummary = { indexed: 0, chunks: 0, failed: [], remaining: 0 }
+    if (!embeddingsAvailable()) return summary
+
+    const buildQuery = (columns: string, head = false) => {
+        let query = supabase
+            .from('source_documents')
+            .select(columns, head ? { count: 'exact', head: true } : undefined)
+            .eq('space_id', spaceId)
+            .in('source_type', options.sourceTypes || ['website', 'sharepoint', 'manual'])
+            .not('content', 'is', null)
+
+        if (options.documentIds?.length) query = query.in('id', options.documentIds)
+        else if (!options.reindex) query = query.lt('index_attempts', MAX_INDEX_ATTEMPTS)
+        if (!options.reindex) query = query.is('indexed_at', null)
+        return query
+    }
+
+    const { data: docs, error } = await buildQuery('id, space_id, content, index_attempts')
+        .order('index_attempted_at', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true })
+        .limit(options.limit ?? 10)
+
+    if (error) throw error
+
+    for (const doc of (docs || []) as unknown as IndexableDocument[]) {
+        try {
+            summary.chunks += await indexDocument(supabase, doc)
+            summary.indexed++
+        } catch (err) {
+            console.error(`Error indexing document ${doc.id}:`, err)
+            const message = err instanceof Error ? err.message : String(err)
+            summary.failed.push({ id: doc.id, error: message })
+
+            const { error: recordError } = await supabase
+                .from('source_documents')
+                .update({
+                    index_attempts: (doc.index_attempts || 0) + 1,
+                    index_error: message,
+                    index_attempted_at: new Date().toISOString(),
+                })
+                .eq('id', doc.id)
+            if (recordError) console.error(`Error recording index failure for document ${doc.id}:`, recordError)
+        }
+    }
+
+    if (!options.reindex) {
+        const { count } = await buildQuery('id', true)
+        summary.remaining = count || 0
+    }
+
+    return summary
+}
+
+export interface RetrieveOptions {
+    spaceId: string
+    query: string
+    k?: number
+    sourceTypes?: SourceType[]
+    /** Chunks below this cosine similarity are dropped */
+    minSimilarity?: number
+}
+
+/** Top-k chunks for a query. Empty when embeddings are unavailable or nothing is indexed. */
+export async function retrieveChunks(supabase: SupabaseClient, options: RetrieveOptions): Promise<RetrievedChunk[]> {
+    if (!embeddingsAvailable() || !options.query.trim()) return []
+
+    const queryResult = await createEmbeddings([options.query])
+    await recordEmbeddingUsage(supabase, options.spaceId, queryResult, { query: true })
+    const queryEmbedding = queryResult.embeddings[0]
+
+    const { data, error } = await supabase.rpc('match_source_chunks', {
+        p_space_id: options.spaceId,
+        p_query_embedding: queryEmbedding,
+        p_match_count: options.k ?? 6,
+        p_source_types: options.sourceTypes || ['website', 'sharepoint', 'manual'],
+    })
+
+    if (error) throw error
+
+    return ((data || []) as RetrievedChunk[])
+        .filter(chunk => chunk.similarity >= (options.minSimilarity ?? 0))
+}
+
+export function formatChunksForPrompt(chunks: RetrievedChunk[]): string {
+    return chunks
+        .map(chunk => `### ${chunk.title || (chunk.source_type === 'website' ? 'Page' : 'Document')} [${chunk.source_type === 'manual' ? 'upload' : chunk.source_type}]\n${chunk.content}`)
+        .join('\n\n')
+}
+
+function recordEmbeddingUsage(supabase: SupabaseClient, spaceId: string, result: EmbeddingResult, metadata: Record<string, unknown>) {
+    return recordUsage(supabase, { spaceId, feature: 'embeddings' }, {
+        provider: 'openai',
+        model: result.model,
+        inputTokens: result.totalTokens,
+        metadata,
+    })
+}
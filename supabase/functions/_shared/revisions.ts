@@ -0,0 +1,50 @@
+// Post Revisions
+// Every change to a post's title or body is recorded as a post_revisions row
+// with who made it and how: generated, edited by hand, rewritten by AI, a
+// variant picked, or an older revision restored.
+
+export type RevisionSource = 'ai_generation' | 'manual_edit' | 'ai_rewrite' | 'variant_select' | 'restore'
+
+export const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = {
+    ai_generation: 'AI generation',
+    manual_edit: 'Manual edit',
+    ai_rewrite: 'AI rewrite',
+    variant_select: 'Variant selected',
+    restore: 'Restored',
+}
+
+/** One post_revisions row */
+export interface PostRevision {
+    id: string
+    post_id: string
+    space_id: string
+    title: string | null
+    body: string | null
+    source: RevisionSource
+    author_id: string | null
+    author_email: string | null
+    created_at: string
+}
+
+export interface RevisionInput {
+    postId: string
+    spaceId: string
+    title: string | null
+    body: string | null
+    source: RevisionSource
+    authorId?: string | null
+    authorEmail?: string | null
+}
+
+/** Insert payload for post_revisions */
+export function buildRevision(input: RevisionInput): Omit<PostRevision, 'id' | 'created_at'> {
+    return {
+        post_id: input.postId,
+        space_id: input.spaceId,
+        title: input.title,
+        body: input.body,
+        source: input.source,
+        author_id: input.authorId ?? null,
+        author_email: input.authorEmail ?? null,
+    }
+}
@@ -0,0 +1,109 @@
+// Post Rewrite
+// The rewrite-post function rewrites a post body to one instruction - a
+// preset such as "shorter" or free text - and returns the proposal without
+// saving it. Accepted rewrites are recorded in the post's
+// generation_meta.rewrites with the instruction that produced them.
+
+export type RewritePresetKey = 'shorter' | 'stronger_hook' | 'less_salesy' | 'add_question'
+
+export interface RewritePreset {
+    key: RewritePresetKey
+    label: string
+    instruction: string
+}
+
+export const REWRITE_PRESETS: RewritePreset[] = [
+    {
+        key: 'shorter',
+        label: 'Shorter',
+        instruction: 'Make the post about a third shorter. Keep the main point and the call-to-action; cut repetition and filler.',
+    },
+    {
+        key: 'stronger_hook',
+        label: 'Stronger hook',
+        instruction: 'Rewrite the opening line or two so they make a reader stop scrolling: a sharp claim, a surprising fact from the post, or a concrete problem. Leave the rest largely as it is.',
+    },
+    {
+        key: 'less_salesy',
+        label: 'Less salesy',
+        instruction: 'Tone down the selling. Lead with insight or experience rather than the offer, remove hype words and hard pitches, and keep any call-to-action low-key.',
+    },
+    {
+        key: 'add_question',
+        label: 'Add a question',
+        instruction: 'End the post with one open question that invites readers to share their own experience. Adjust the last paragraph so the question follows naturally.',
+    },
+]
+
+// Longest free-text instruction accepted
+export const MAX_REWRITE_INSTRUCTION_LENGTH = 500
+
+// Accepted rewrites kept in generation_meta.rewrites, newest last
+export const MAX_REWRITE_HISTORY = 20
+
+/** One accepted rewrite, in posts.generation_meta.rewrites */
+export interface RewriteRecord {
+    instruction: string
+    preset: RewritePresetKey | null
+    provider?: string
+    model?: string
+    /** Whether the proposal was changed by hand before it was accepted */
+    edited: boolean
+    accepted_at: string
+}
+
+export function isRewritePreset(value: unknown): value is RewritePresetKey {
+    return REWRITE_PRESETS.some(p => p.key === value)
+}
+
+/**
+ * The instruction to send: the preset's, the free text, or both when a
+ * preset is refined with extra text. Null when neither is given.
+ */
+export function resolveRewriteInstruction(preset: unknown, text: unknown): string | null {
+    const presetInstruction = isRewritePreset(preset) ? REWRITE_PRESETS.find(p => p.key === preset)!.instruction : ''
+    const extra = typeof text === 'string' ? text.trim().slice(0, MAX_REWRITE_INSTRUCTION_LENGTH) : ''
+    const instruction = [presetInstruction, extra].filter(Boolean).join(' ')
+    return instruction || null
+}
+
+/** Short label for a recorded rewrite: the preset name or the free text */
+export function describeRewrite(record: Pick<RewriteRecord, 'preset' | 'instruction'>): string {
+    const preset = REWRITE_PRESETS.find(p => p.key === record.preset)
+    if (!preset) return record.instruction
+    const extra = record.instruction.startsWith(preset.instruction) ? record.instruction.slice(preset.instruction.length).trim() : ''
+    return extra ? `${preset.label}: ${extra}` : preset.label
+}
+
+export function buildRewriteSystemPrompt(styleInstructions: string[]): string {
+    return `You edit LinkedIn posts. Rewrite the post you are given according to the instruction, changing only what the instruction asks for.
+
+HOUSE STYLE:
+${styleInstructions.map(line => `- ${line}`).join('\n')}
+
+RULES:
+- Keep the meaning and every fact of the original. Do not add facts, figures, names or claims that are not in it.
+- Keep the author's voice and the post's language.
+- Return ONLY the rewritten post text, with no preamble, notes or quotation marks.`
+}
+
+export function buildRewritePrompt(post: { title?: string | null; body: string }, instruction: string): string {
+    return `INSTRUCTION: ${instruction}
+
+ORIGINAL POST${post.title ? ` (${post.title})` : ''}:
+---
+${post.body}
+---`
+}
+
+/** generation_meta with an accepted rewrite appended to its history */
+export function appendRewriteRecord(generationMeta: unknown, record: RewriteRecord): Record<string, unknown> {
+    const meta = (generationMeta && typeof generationMeta === 'object' ? generationMeta : {}) as Record<string, unknown>
+    const history = Array.isArray(meta.rewrites) ? (meta.rewrites as RewriteRecord[]) : []
+    return { ...meta, rewrites: [...history, record].slice(-MAX_REWRITE_HISTORY) }
+}
+
+export function getRewriteHistory(generationMeta: unknown): RewriteRecord[] {
+    const meta = generationMeta as { rewrites?: unknown } | null
+    return Array.isArray(meta?.rewrites) ? (meta.rewrites as RewriteRecord[]) : []
+}
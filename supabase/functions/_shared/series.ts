@@ -0,0 +1,163 @@
+// Post Series
+// A series groups posts into numbered parts (posts.series_id/series_part),
+// e.g. a five-part case study. plan-series splits one long source document
+// into a narrative arc with a title and summary per part; write-series-part
+// then writes each part in order, so every post can refer back to the last
+// and point to the next with a "Part 2 of 5" reference. The parts are
+// scheduled as a block with a fixed number of days between them.
+
+export const MIN_SERIES_PARTS = 2
+export const MAX_SERIES_PARTS = 10
+export const DEFAULT_SERIES_PARTS = 5
+export const DEFAULT_SERIES_SPACING_DAYS = 7
+export const DEFAULT_SERIES_POST_TIME = '09:00'
+
+// Source text sent to the model when planning and writing parts
+export const MAX_SERIES_SOURCE_CHARS = 24000
+
+export interface SeriesPartPlan {
+    title: string
+    summary: string
+    key_points: string[]
+}
+
+/** post_series.plan */
+export interface SeriesPlan {
+    /** One or two sentences on how the parts build on each other */
+    arc: string
+    parts: SeriesPartPlan[]
+}
+
+export function clampSeriesParts(count: unknown): number {
+    const n = Math.round(Number(count))
+    if (!Number.isFinite(n)) return DEFAULT_SERIES_PARTS
+    return Math.min(MAX_SERIES_PARTS, Math.max(MIN_SERIES_PARTS, n))
+}
+
+export function seriesPartLabel(part: number, total: number): string {
+    return `Part ${part} of ${total}`
+}
+
+const PART_REFERENCE_PATTERN = /\bPart\s+(\d+)(?:\s+of\s+|\s*\/\s*)\d+\b/gi
+
+/**
+ * Rewrites the "Part N of M" references in a post body after the series was
+ * reordered or resized. `renumbered` maps old part numbers to new ones, so a
+ * reference back to an earlier part follows it too; every reference gets the
+ * new total. Bodies without a reference are returned unchanged.
+ */
+export function renumberPartReferences(body: string, renumbered: Record<number, number>, total: number): string {
+    return body.replace(PART_REFERENCE_PATTERN, (_, part: string) => seriesPartLabel(renumbered[Number(part)] ?? Number(part), total))
+}
+
+/** A part's title without its "(Part N of M)" suffix, for a post taken out of the series */
+export function stripPartLabel(title: string): string {
+    return title.replace(/\s*\(Part\s+\d+\s+of\s+\d+\)\s*$/i, '') || title
+}
+
+/**
+ * When each part goes out: the first on `startDate` at `time` (local), the
+ * rest `spacingDays` apart.
+ */
+export function seriesScheduleDates(startDate: string, time: string, spacingDays: number, count: number): Date[] {
+    const [year, month, day] = startDate.split('-').map(Number)
+    const [hours, minutes] = (time || DEFAULT_SERIES_POST_TIME).split(':').map(Number)
+    const spacing = Math.max(1, Math.round(spacingDays) || DEFAULT_SERIES_SPACING_DAYS)
+
+    return Array.from({ length: count }, (_, i) => new Date(year, month - 1, day + i * spacing, hours || 0, minutes || 0))
+}
+
+// ── Planning ─────────────────────────────────────────
+
+export const SERIES_PLAN_SYSTEM_PROMPT = `You plan multi-part LinkedIn post series from a single source document. Each part must stand on its own as a post while moving one story forward, so a reader who follows the whole series gets the full picture in order.
+
+Only use facts from the source document. Respond with JSON only.`
+
+export function buildSeriesPlanPrompt(input: { source: string; partCount: number; title?: string | null }): string {
+    return `Split this document into a ${input.partCount}-part LinkedIn post series${input.title ? ` called "${input.title}"` : ''}.
+
+SOURCE DOCUMENT:
+---
+${input.source.slice(0, MAX_SERIES_SOURCE_CHARS)}
+---
+
+Give the series a narrative arc: open with the context or problem, build through the middle parts, and close with the outcome or lessons. Each part covers a different section of the document; do not repeat points across parts.
+
+Respond with JSON:
+{
+  "title": "Series title",
+  "arc": "One or two sentences on how the parts build on each other",
+  "parts": [
+    { "title": "Part title", "summary": "What this part covers", "key_points": ["Fact or point from the document", "..."] }
+  ]
+}
+
+Return exactly ${input.partCount} parts.`
+}
+
+/**
+ * Checks a plan returned by the model. Extra parts are dropped; too few parts
+ * or parts without a title is an error.
+ */
+export function normaliseSeriesPlan(raw: unknown, partCount: number): SeriesPlan & { title: string | null } {
+    const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+    const parts = (Array.isArray(value.parts) ? value.parts : [])
+        .map((part): SeriesPartPlan | null => {
+            const p = (part && typeof part === 'object' ? part : {}) as Record<string, unknown>
+            const title = typeof p.title === 'string' ? p.title.trim() : ''
+            if (!title) return null
+            return {
+                title,
+                summary: typeof p.summary === 'string' ? p.summary.trim() : '',
+                key_points: Array.isArray(p.key_points)
+                    ? p.key_points.filter((k): k is string => typeof k === 'string' && !!k.trim()).map(k => k.trim())
+                    : [],
+            }
+        })
+        .filter((part): part is SeriesPartPlan => part !== null)
+        .slice(0, partCount)
+
+    if (parts.length < partCount) {
+        throw new Error(`Series plan has ${parts.length} of ${partCount} parts`)
+    }
+
+    return {
+        title: typeof value.title === 'string' && value.title.trim() ? value.title.trim() : null,
+        arc: typeof value.arc === 'string' ? value.arc.trim() : '',
+        parts,
+    }
+}
+
+// ── Writing parts ────────────────────────────────────
+
+/**
+ * Prompt for one part. Earlier parts are passed as written so the voice and
+ * narrative carry through; the next part's title is given for the teaser.
+ */
+export function buildSeriesPartPrompt(input: {
+    seriesTitle: string
+    plan: SeriesPlan
+    part: number
+    previousBodies: string[]
+}): string {
+    const { plan, part } = input
+    const total = plan.parts.length
+    const current = plan.parts[part - 1]
+    const next = plan.parts[part]
+    const previous = input.previousBodies.length > 0
+        ? input.previousBodies.map((body, i) => `${seriesPartLabel(i + 1, total)}:\n${body}`).join('\n\n---\n\n')
+        : ''
+
+    return `Write ${seriesPartLabel(part, total)} of the LinkedIn series "${input.seriesTitle}".
+
+SERIES ARC: ${plan.arc || 'Not given'}
+
+ALL PARTS:
+${plan.parts.map((p, i) => `${i + 1}. ${p.title}${p.summary ? ` - ${p.summary}` : ''}`).join('\n')}
+
+THIS PART: ${current.title}
+${current.summary ? `${current.summary}\n` : ''}${current.key_points.length > 0 ? `Key points:\n${current.key_points.map(k => `- ${k}`).join('\n')}\n` : ''}
+${previous ? `EARLIER PARTS (as published - keep the same voice and do not repeat them):\n${previous}\n\n` : ''}Requirements:
+- Say "${seriesPartLabel(part, total)}" in the opening line
+${part > 1 ? '- Link back to the previous part in a sentence, so new readers can catch up\n' : ''}${next ? `- End by teasing the next part: "${next.title}"\n` : '- Close the series: sum up what the parts added up to\n'}- The post must make sense on its own`
+}
@@ -0,0 +1,202 @@
+// Post Similarity
+// Near-duplicate detection between posts in a space. A post body is cut into
+// overlapping word shingles and summarised as a MinHash signature; the share
+// of positions two signatures agree on estimates the Jaccard similarity of
+// their shingle sets. Signatures are stored on posts, so a new post can be
+// compared with every post in the space without reloading their bodies.
+
+import { fnv1a } from './hash.ts'
+
+// Words per shingle
+export const SHINGLE_SIZE = 3
+
+// Hash functions per signature
+export const SIGNATURE_SIZE = 64
+
+// Estimated similarity at which two posts count as near-duplicates
+export const DUPLICATE_THRESHOLD = 0.4
+
+// Signature positions per LSH band. 32 bands of 2 make pairs well below the
+// threshold candidates too, so few real duplicates are missed.
+const LSH_ROWS = 2
+
+// Statuses of posts that have gone out; repeating one of these is worse
+export const PUBLISHED_POST_STATUSES = ['published', 'sent_to_hubspot']
+
+export type DuplicateStatus = 'open' | 'dismissed'
+
+export interface SignedPost {
+    id: string
+    signature: number[]
+    /** Posts written together from one source, e.g. a repurposed pack or a series, share a group and are not compared with each other */
+    group?: string | null
+}
+
+export interface SimilarityMatch {
+    post_id: string
+    /** Estimated Jaccard similarity, 0-1 */
+    score: number
+}
+
+export interface SimilarPair {
+    a: string
+    b: string
+    score: number
+}
+
+// Murmur3 finaliser: spreads a 32-bit value over all bits
+function mix32(h: number): number {
+    h ^= h >>> 16
+    h = Math.imul(h, 0x85ebca6b)
+    h ^= h >>> 13
+    h = Math.imul(h, 0xc2b2ae35)
+    h ^= h >>> 16
+    return h | 0
+}
+
+// One seed per hash function; fixed so stored signatures stay comparable
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix32(0x9e3779b9 + i))
+
+/**
+ * Words of a post for comparison: lower case, without URLs, hashtags,
+ * mentions or punctuation. Hashtags are left out because the same set is
+ * often appended to every post and would make unrelated posts look alike.
+ */
+export function similarityWords(text: string): string[] {
+    return text
+        .toLowerCase()
+        .replace(/https?:\/\/\S+/g, ' ')
+        .replace(/[#@][\p{L}\p{N}_]+/gu, ' ')
+        .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+        .split(/\s+/)
+        .filter(Boolean)
+}
+
+/** Overlapping word shingles; a post shorter than one shingle is a single shingle */
+export function shingles(text: string, size = SHINGLE_SIZE): Set<string> {
+    const words = similarityWords(text)
+    const result = new Set<string>()
+    if (words.length === 0) return result
+    if (words.length <= size) {
+        result.add(words.join(' '))
+        return result
+    }
+    for (let i = 0; i <= words.length - size; i++) {
+        result.add(words.slice(i, i + size).join(' '))
+    }
+    return result
+}
+
+/** MinHash signature of a post body; empty when the body has no words */
+export function minHashSignature(text: string): number[] {
+    const set = shingles(text)
+    if (set.size === 0) return []
+
+    const signature = new Array<number>(SIGNATURE_SIZE).fill(0x7fffffff)
+    for (const shingle of set) {
+        const h = fnv1a(shingle)
+        for (let i = 0; i < SIGNATURE_SIZE; i++) {
+            const value = mix32(h ^ SEEDS[i])
+            if (value < signature[i]) signature[i] = value
+        }
+    }
+    return signature
+}
+
+/** Whether a stored value is a signature this module produced */
+export function isSignature(value: unknown): value is number[] {
+    return Array.isArray(value) && value.length === SIGNATURE_SIZE && value.every(v => Number.isInteger(v))
+}
+
+/** Estimated Jaccard similarity of two signatures, rounded to 3 places */
+export function signatureSimilarity(a: number[], b: number[]): number {
+    if (a.length === 0 || a.length !== b.length) return 0
+    let same = 0
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] === b[i]) same++
+    }
+    return Math.round((same / a.length) * 1000) / 1000
+}
+
+/** Whether two posts were written together, so their overlap is expected */
+export function inSameGroup(a: SignedPost, b: SignedPost): boolean {
+    return !!a.group && a.group === b.group
+}
+
+/** Posts at or above the threshold, most similar first */
+export function findSimilar(
+    signature: number[],
+    candidates: SignedPost[],
+    threshold = DUPLICATE_THRESHOLD,
+): SimilarityMatch[] {
+    if (signature.length === 0) return []
+    return candidates
+        .map(c => ({ post_id: c.id, score: signatureSimilarity(signature, c.signature) }))
+        .filter(m => m.score >= threshold)
+        .sort((x, y) => y.score - x.score)
+}
+
+/**
+ * Every pair of posts at or above the threshold. Posts are bucketed by
+ * signature bands first, so only posts sharing a band are compared rather
+ * than every pair in the space. Posts in the same group are not paired.
+ */
+export function findSimilarPairs(posts: SignedPost[], threshold = DUPLICATE_THRESHOLD): SimilarPair[] {
+    const signed = posts.filter(p => p.signature.length === SIGNATURE_SIZE)
+    const buckets = new Map<string, number[]>()
+
+    signed.forEach((post, index) => {
+        for (let start = 0; start < SIGNATURE_SIZE; start += LSH_ROWS) {
+            const key = `${start}:${post.signature.slice(start, start + LSH_ROWS).join(',')}`
+            const bucket = buckets.get(key)
+            if (bucket) {
+                bucket.push(index)
+            } else {
+                buckets.set(key, [index])
+            }
+        }
+    })
+
+    const seen = new Set<string>()
+    const pairs: SimilarPair[] = []
+    for (const bucket of buckets.values()) {
+        for (let i = 0; i < bucket.length; i++) {
+            for (let j = i + 1; j < bucket.length; j++) {
+                const key = `${bucket[i]}:${bucket[j]}`
+                if (seen.has(key)) continue
+                seen.add(key)
+
+                const a = signed[bucket[i]]
+                const b = signed[bucket[j]]
+                if (inSameGroup(a, b)) continue
+                const score = signatureSimilarity(a.signature, b.signature)
+                if (score >= threshold) pairs.push({ a: a.id, b: b.id, score })
+            }
+        }
+    }
+    return pairs.sort((x, y) => y.score - x.score)
+}
+
+/**
+ * Orders a pair for post_duplicates: the later post is the one flagged as a
+ * duplicate of the earlier one. Ties fall back to the id so the order is stable.
+ */
+export function orderDuplicatePair<T extends { id: string; created_at: string }>(
+    a: T,
+    b: T,
+): { post: T; duplicateOf: T } {
+    const aFirst = a.created_at < b.created_at || (a.created_at === b.created_at && a.id < b.id)
+    return aFirst ? { post: b, duplicateOf: a } : { post: a, duplicateOf: b }
+}
+
+export function isPublishedStatus(status: string | null | undefined): boolean {
+    return !!status && PUBLISHED_POST_STATUSES.includes(status)
+}
+
+/** Prompt addition asking the model to move away from a post it came too close to */
+export function buildAvoidDuplicateInstruction(existingBody: string): string {
+    return `AVOID REPEATING: your first draft was a near-duplicate of this existing post. Write about a clearly different idea, example and angle, and do not reuse its phrasing:
+---
+${existingBody}
+---`
+}
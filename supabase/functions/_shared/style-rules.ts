@@ -0,0 +1,388 @@
+// House Style Rules
+// Per-space style rules (style_rules.rules), applied deterministically to
+// model output by every text generation function and run as a lint on manual
+// edits in the post editor. The same rules are also turned into prompt
+// instructions so the model gets them right first time.
+
+/** 'campaign' follows the campaign's include_emojis / include_hashtags setting */
+export type EmojiPolicy = 'campaign' | 'none'
+export type HashtagPolicy = 'campaign' | 'none'
+export type DashPolicy = 'replace' | 'allow'
+
+export interface StyleSubstitution {
+    find: string
+    replace: string
+}
+
+export interface StyleRules {
+    /** Flagged but never rewritten: deleting a phrase rarely leaves a clean sentence */
+    banned_phrases: string[]
+    /** Whole-word, case-insensitive replacements applied to every post */
+    substitutions: StyleSubstitution[]
+    /** Convert US spellings to Australian English */
+    au_spelling: boolean
+    /** 'replace' turns em and en dashes into commas and hyphens */
+    dash_policy: DashPolicy
+    emoji_policy: EmojiPolicy
+    hashtag_policy: HashtagPolicy
+    /** Most hashtags kept when hashtags are on; null for no cap */
+    max_hashtags: number | null
+    /** Character limit for the whole post; null for no limit */
+    max_length: number | null
+}
+
+/** The generation settings that style policies defer to */
+export interface StyleContext {
+    include_emojis?: 'none' | 'subtle' | 'frequent'
+    include_hashtags?: boolean
+}
+
+export type StyleIssueKind = 'substitution' | 'spelling' | 'dash' | 'emoji' | 'hashtag' | 'banned_phrase' | 'length'
+
+export interface StyleIssue {
+    kind: StyleIssueKind
+    message: string
+    /** Offsets into the checked text */
+    start: number
+    end: number
+    /** Replacement text; '' deletes the match, null needs a manual fix */
+    suggestion: string | null
+}
+
+export interface StyleResult {
+    text: string
+    /** Number of fixes applied, by kind */
+    changes: Partial<Record<StyleIssueKind, number>>
+    /** Issues the post-processor cannot fix, e.g. banned phrases */
+    issues: StyleIssue[]
+}
+
+export const DEFAULT_STYLE_RULES: StyleRules = {
+    banned_phrases: [],
+    substitutions: [],
+    au_spelling: true,
+    dash_policy: 'replace',
+    emoji_policy: 'campaign',
+    hashtag_policy: 'campaign',
+    max_hashtags: 4,
+    // LinkedIn's post limit
+    max_length: 3000,
+}
+
+export const STYLE_ISSUE_LABELS: Record<StyleIssueKind, string> = {
+    substitution: 'House term',
+    spelling: 'Spelling',
+    dash: 'Dash',
+    emoji: 'Emoji',
+    hashtag: 'Hashtag',
+    banned_phrase: 'Banned phrase',
+    length: 'Length',
+}
+
+// Emojis allowed when a campaign asks for subtle emoji use
+const SUBTLE_EMOJI_LIMIT = 2
+
+/** Fills gaps in a stored rules object with the defaults */
+export function normaliseStyleRules(raw: unknown): StyleRules {
+    const r = (raw && typeof raw === 'object' ? raw : {}) as Partial<StyleRules>
+    const toLimit = (value: unknown, fallback: number | null) =>
+        value === null ? null : typeof value === 'number' && value >= 0 ? value : fallback
+
+    return {
+        banned_phrases: Array.isArray(r.banned_phrases)
+            ? r.banned_phrases.filter(p => typeof p === 'string' && p.trim()).map(p => p.trim())
+            : DEFAULT_STYLE_RULES.banned_phrases,
+        substitutions: Array.isArray(r.substitutions)
+            ? r.substitutions.filter(s => s && typeof s.find === 'string' && s.find.trim() && typeof s.replace === 'string')
+            : DEFAULT_STYLE_RULES.substitutions,
+        au_spelling: typeof r.au_spelling === 'boolean' ? r.au_spelling : DEFAULT_STYLE_RULES.au_spelling,
+        dash_policy: r.dash_policy === 'allow' ? 'allow' : 'replace',
+        emoji_policy: r.emoji_policy === 'none' ? 'none' : 'campaign',
+        hashtag_policy: r.hashtag_policy === 'none' ? 'none' : 'campaign',
+        max_hashtags: toLimit(r.max_hashtags, DEFAULT_STYLE_RULES.max_hashtags),
+        max_length: toLimit(r.max_length, DEFAULT_STYLE_RULES.max_length),
+    }
+}
+
+/** Most emojis a post may contain; null for no limit */
+export function resolveEmojiLimit(rules: StyleRules, context: StyleContext = {}): number | null {
+    if (rules.emoji_policy === 'none' || context.include_emojis === 'none') return 0
+    if (context.include_emojis === 'frequent') return null
+    return SUBTLE_EMOJI_LIMIT
+}
+
+/** Most hashtags a post may contain; null for no limit */
+export function resolveHashtagLimit(rules: StyleRules, context: StyleContext = {}): number | null {
+    if (rules.hashtag_policy === 'none' || context.include_hashtags === false) return 0
+    return rules.max_hashtags
+}
+
+/**
+ * Generation settings with house-style overrides applied, so prompt
+ * constraints built from them never contradict the rules.
+ */
+export function styleAdjustedSettings<T extends StyleContext>(settings: T, rules: StyleRules): T {
+    return {
+        ...settings,
+        ...(resolveEmojiLimit(rules, settings) === 0 ? { include_emojis: 'none' as const } : {}),
+        ...(resolveHashtagLimit(rules, settings) === 0 ? { include_hashtags: false } : {}),
+    }
+}
+
+/** Prompt lines describing the rules, for the generation system prompt */
+export function buildStyleInstructions(rules: StyleRules, context: StyleContext = {}): string[] {
+    const lines: string[] = []
+
+    if (rules.au_spelling) {
+        lines.push('Use Australian English spelling and conventions (e.g. organise, colour, centre, behaviour). Never use American spellings.')
+    }
+    if (rules.dash_policy === 'replace') {
+        lines.push('Never use em-dashes (—) or en-dashes (–). Use commas, full stops or colons instead.')
+    }
+
+    const emojiLimit = resolveEmojiLimit(rules, context)
+    if (emojiLimit === 0) lines.push('Do not use any emojis.')
+    else if (emojiLimit === null) lines.push('Use emojis liberally throughout the post to add energy and visual interest.')
+    else lines.push(`Use at most ${emojiLimit} emojis, sparingly, to add warmth without overdoing it.`)
+
+    const hashtagLimit = resolveHashtagLimit(rules, context)
+    if (hashtagLimit === 0) lines.push('Do not include any hashtags.')
+    else lines.push(`Include ${hashtagLimit === null ? '2-4' : `up to ${hashtagLimit}`} relevant hashtags at the end.`)
+
+    if (rules.banned_phrases.length > 0) {
+        lines.push(`Never use these words or phrases: ${rules.banned_phrases.map(p => `"${p}"`).join(', ')}.`)
+    }
+    for (const sub of rules.substitutions.slice(0, 20)) {
+        lines.push(sub.replace ? `Write "${sub.replace}", not "${sub.find}".` : `Never use "${sub.find}".`)
+    }
+    if (rules.max_length) {
+        lines.push(`Keep the whole post under ${rules.max_length} characters.`)
+    }
+
+    return lines
+}
+
+// ── Lint ─────────────────────────────────────────────
+
+// Emoji-style pictographs only: text-presentation symbols such as © ® ™ ✔ ★
+// count only with the emoji variation selector (U+FE0F)
+const EMOJI_PATTERN = /\p{Regional_Indicator}{2}|[#*0-9]\uFE0F?\u20E3|(?:\p{Emoji_Presentation}|\p{Extended_Pictographic}\uFE0F)\p{Emoji_Modifier}?(?:\u200D\p{Extended_Pictographic}\uFE0F?\p{Emoji_Modifier}?)*/gu
+const HASHTAG_PATTERN = /#[\p{L}\p{N}_]+/gu
+
+/** All rule violations in the text, in document order */
+export function lintStyle(text: string, rules: StyleRules, context: StyleContext = {}): StyleIssue[] {
+    const kinds: StyleIssueKind[] = ['substitution', 'spelling', 'dash', 'emoji', 'hashtag', 'banned_phrase', 'length']
+    return kinds
+        .flatMap(kind => findIssues(text, kind, rules, context))
+        .sort((a, b) => a.start - b.start)
+}
+
+function findIssues(text: string, kind: StyleIssueKind, rules: StyleRules, context: StyleContext): StyleIssue[] {
+    const issues: StyleIssue[] = []
+    const push = (start: number, end: number, suggestion: string | null, message: string) =>
+        issues.push({ kind, start, end, suggestion, message })
+
+    switch (kind) {
+        case 'substitution':
+            for (const sub of rules.substitutions) {
+                for (const m of text.matchAll(wordPattern(sub.find))) {
+                    const replacement = matchCase(m[0], sub.replace)
+                    push(m.index!, m.index! + m[0].length, replacement,
+                        replacement ? `House style: "${replacement}" instead of "${m[0]}"` : `House style: remove "${m[0]}"`)
+                }
+            }
+            break
+
+        case 'spelling':
+            if (!rules.au_spelling) break
+            for (const m of text.matchAll(/\b[A-Za-z]+\b/g)) {
+                const au = US_TO_AU_SPELLING[m[0].toLowerCase()]
+                if (au) push(m.index!, m.index! + m[0].length, matchCase(m[0], au), `Australian spelling: "${matchCase(m[0], au)}"`)
+            }
+            break
+
+        case 'dash':
+            if (rules.dash_policy !== 'replace') break
+            for (const m of text.matchAll(/(\d)–(?=\d)|\s*[—–]\s*/g)) {
+                // Ranges like 2020–2024 keep a plain hyphen; other dashes become commas
+                if (m[1]) push(m.index! + 1, m.index! + 2, '-', 'Use a hyphen in ranges')
+                else push(m.index!, m.index! + m[0].length, ', ', 'No em or en dashes')
+            }
+            break
+
+        case 'emoji': {
+            const limit = resolveEmojiLimit(rules, context)
+            if (limit === null) break
+            const matches = [...text.matchAll(EMOJI_PATTERN)]
+            for (const m of matches.slice(limit)) {
+                push(m.index!, m.index! + m[0].length, '', limit === 0 ? 'No emojis' : `More than ${limit} emojis`)
+            }
+            break
+        }
+
+        case 'hashtag': {
+            const limit = resolveHashtagLimit(rules, context)
+            if (limit === null) break
+            const matches = [...text.matchAll(HASHTAG_PATTERN)]
+            for (const m of matches.slice(limit)) {
+                push(m.index!, m.index! + m[0].length, '', limit === 0 ? 'No hashtags' : `More than ${limit} hashtags`)
+            }
+            break
+        }
+
+        case 'banned_phrase':
+            for (const phrase of rules.banned_phrases) {
+                for (const m of text.matchAll(wordPattern(phrase))) {
+                    push(m.index!, m.index! + m[0].length, null, `Banned phrase: "${m[0]}"`)
+                }
+            }
+            break
+
+        case 'length':
+            if (rules.max_length && text.length > rules.max_length) {
+                push(rules.max_length, text.length, null, `${text.length - rules.max_length} characters over the ${rules.max_length} limit`)
+            }
+            break
+    }
+
+    return issues
+}
+
+// ── Fix ──────────────────────────────────────────────
+
+/** Replaces one issue's span with its suggestion. Offsets must match the text. */
+export function applyStyleFix(text: string, issue: StyleIssue): string {
+    if (issue.suggestion === null) return text
+    return tidyWhitespace(text.slice(0, issue.start) + issue.suggestion + text.slice(issue.end))
+}
+
+/**
+ * Applies every fixable rule in a fixed order, then trims to max_length at a
+ * sentence boundary. Same input and rules always give the same output.
+ */
+export function applyStyleRules(text: string, rules: StyleRules, context: StyleContext = {}): StyleResult {
+    const fixed = applyStyleFixes(text, rules, context)
+    if (!rules.max_length || fixed.text.length <= rules.max_length) return fixed
+
+    const result = truncateAtSentence(fixed.text, rules.max_length)
+    return { text: result, changes: { ...fixed.changes, length: 1 }, issues: lintStyle(result, rules, context) }
+}
+
+/** The fixable rules only; an over-long post is left for the writer to cut */
+export function applyStyleFixes(text: string, rules: StyleRules, context: StyleContext = {}): StyleResult {
+    const changes: Partial<Record<StyleIssueKind, number>> = {}
+    let result = text
+
+    for (const kind of ['substitution', 'spelling', 'dash', 'emoji', 'hashtag'] as StyleIssueKind[]) {
+        const fixable = findIssues(result, kind, rules, context).filter(i => i.suggestion !== null)
+        if (fixable.length === 0) continue
+
+        // Right to left so earlier offsets stay valid; skip overlapping matches
+        let lastStart = Infinity
+        for (const issue of [...fixable].sort((a, b) => b.start - a.start)) {
+            if (issue.end > lastStart) continue
+            result = result.slice(0, issue.start) + issue.suggestion + result.slice(issue.end)
+            lastStart = issue.start
+            changes[kind] = (changes[kind] || 0) + 1
+        }
+    }
+
+    result = tidyWhitespace(result)
+
+    return { text: result, changes, issues: lintStyle(result, rules, context) }
+}
+
+function tidyWhitespace(text: string): string {
+    return text
+        .replace(/[ \t]{2,}/g, ' ')
+        .replace(/ +([,.;:!?])/g, '$1')
+        // A dash replaced next to existing punctuation leaves ", ." behind
+        .replace(/,\s*([,.;:!?])/g, '$1')
+        .replace(/^,\s*/gm, '')
+        .replace(/^[ \t]+|[ \t]+$/gm, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim()
+}
+
+// Keeps a trailing hashtag line when there is room for it
+function truncateAtSentence(text: string, maxLength: number): string {
+    const lines = text.split('\n')
+    const lastLine = lines[lines.length - 1].trim()
+    const isTagLine = /^(#[\p{L}\p{N}_]+\s*)+$/u.test(lastLine)
+    const tagLine = isTagLine ? lastLine : ''
+    const body = isTagLine ? lines.slice(0, -1).join('\n').trim() : text
+
+    const budget = tagLine && tagLine.length + 2 < maxLength / 2 ? maxLength - tagLine.length - 2 : maxLength
+    const slice = body.slice(0, budget)
+    const sentenceEnd = Math.max(slice.lastIndexOf('. '), slice.lastIndexOf('! '), slice.lastIndexOf('? '), slice.lastIndexOf('.\n'))
+    const cut = sentenceEnd > budget / 2
+        ? slice.slice(0, sentenceEnd + 1)
+        : `${slice.slice(0, Math.max(slice.lastIndexOf(' '), 0) || budget - 1).trim()}…`
+
+    return budget < maxLength ? `${cut.trim()}\n\n${tagLine}` : cut.trim()
+}
+
+function wordPattern(phrase: string): RegExp {
+    const escaped = phrase.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'giu')
+}
+
+function matchCase(source: string, replacement: string): string {
+    if (!replacement) return replacement
+    if (source.length > 1 && source === source.toUpperCase()) return replacement.toUpperCase()
+    if (source[0] === source[0].toUpperCase()) return replacement[0].toUpperCase() + replacement.slice(1)
+    return replacement
+}
+
+// ── US → AU spelling dictionary ──────────────────────
+
+// -ize/-yze verbs take -ise/-yse with all their derived forms
+const IZE_STEMS = [
+    'apolog', 'author', 'capital', 'categor', 'central', 'character', 'commercial', 'critic', 'custom',
+    'decentral', 'democrat', 'digit', 'econom', 'emphas', 'energ', 'familiar', 'final', 'formal', 'general',
+    'global', 'harmon', 'hospital', 'human', 'industrial', 'initial', 'internal', 'legal', 'legitim',
+    'local', 'material', 'maxim', 'memor', 'minim', 'mobil', 'modern', 'monet', 'national', 'neutral',
+    'normal', 'optim', 'organ', 'penal', 'personal', 'polar', 'popular', 'priorit', 'public', 'random',
+    'rational', 'real', 'recogn', 'reorgan', 'revolution', 'sanit', 'scrutin', 'social', 'special',
+    'stabil', 'standard', 'strateg', 'subsid', 'summar', 'symbol', 'sympath', 'synchron', 'theor',
+    'token', 'util', 'victim', 'visual', 'weapon',
+]
+const IZE_SUFFIXES = ['ize', 'ized', 'izes', 'izing', 'ization', 'izations', 'izer', 'izers']
+const YZE_STEMS = ['anal', 'catal', 'paral']
+const YZE_SUFFIXES = ['yze', 'yzed', 'yzes', 'yzing']
+// -or → -our
+const OUR_STEMS = ['arm', 'behavi', 'clam', 'col', 'endeav', 'fav', 'flav', 'harb', 'hon', 'hum', 'lab', 'neighb', 'rig', 'rum', 'vap', 'vig']
+const OUR_SUFFIXES = ['', 's', 'ed', 'ing', 'ful', 'able', 'ite', 'ites', 'al', 'hood']
+// -er → -re
+const RE_STEMS = ['cent', 'fib', 'lit', 'theat', 'calib', 'somb', 'spect']
+const RE_SUFFIXES: [string, string][] = [['er', 're'], ['ers', 'res'], ['ered', 'red'], ['ering', 'ring']]
+
+const SPELLING_WORDS: Record<string, string> = {
+    acknowledgment: 'acknowledgement', acknowledgments: 'acknowledgements',
+    aging: 'ageing', airplane: 'aeroplane', airplanes: 'aeroplanes', aluminum: 'aluminium',
+    analog: 'analogue', catalog: 'catalogue', catalogs: 'catalogues', cozy: 'cosy',
+    canceled: 'cancelled', canceling: 'cancelling', counselor: 'counsellor', counselors: 'counsellors',
+    counseling: 'counselling', defense: 'defence', dialog: 'dialogue', dialogs: 'dialogues',
+    enroll: 'enrol', enrollment: 'enrolment', enrollments: 'enrolments', fueled: 'fuelled', fueling: 'fuelling',
+    fulfill: 'fulfil', fulfillment: 'fulfilment', fulfills: 'fulfils', gray: 'grey', jewelry: 'jewellery',
+    labeled: 'labelled', labeling: 'labelling', maneuver: 'manoeuvre', maneuvers: 'manoeuvres',
+    modeled: 'modelled', modeling: 'modelling', mold: 'mould', offense: 'offence', pediatric: 'paediatric',
+    skillful: 'skilful', traveled: 'travelled', traveler: 'traveller', travelers: 'travellers', traveling: 'travelling',
+}
+
+export const US_TO_AU_SPELLING: Record<string, string> = (() => {
+    const map: Record<string, string> = { ...SPELLING_WORDS }
+    for (const stem of IZE_STEMS) {
+        for (const suffix of IZE_SUFFIXES) map[stem + suffix] = stem + suffix.replace('z', 's')
+    }
+    for (const stem of YZE_STEMS) {
+        for (const suffix of YZE_SUFFIXES) map[stem + suffix] = stem + suffix.replace('z', 's')
+    }
+    for (const stem of OUR_STEMS) {
+        for (const suffix of OUR_SUFFIXES) map[`${stem}or${suffix}`] = `${stem}our${suffix}`
+    }
+    for (const stem of RE_STEMS) {
+        for (const [us, au] of RE_SUFFIXES) map[stem + us] = stem + au
+    }
+    return map
+})()
@@ -0,0 +1,100 @@
+// Text Diff
+// Word-level diff between two versions of a post, for revision history and
+// rewrite previews. Whitespace is kept as its own token so joining the parts
+// of either side gives back the original text exactly.
+
+export type DiffOp = 'equal' | 'insert' | 'delete'
+
+export interface DiffPart {
+    op: DiffOp
+    text: string
+}
+
+export interface DiffStats {
+    inserted: number
+    deleted: number
+}
+
+// Above this many token comparisons, changed regions diff by line instead
+const MAX_WORD_CELLS = 2_000_000
+
+function tokenize(text: string): string[] {
+    return text.split(/(\s+)/).filter(token => token.length > 0)
+}
+
+function pushPart(parts: DiffPart[], op: DiffOp, text: string) {
+    if (!text) return
+    const last = parts[parts.length - 1]
+    if (last && last.op === op) {
+        last.text += text
+    } else {
+        parts.push({ op, text })
+    }
+}
+
+// Longest common subsequence over two token lists
+function diffTokens(a: string[], b: string[], parts: DiffPart[]) {
+    const rows = a.length + 1
+    const cols = b.length + 1
+    const lcs = new Uint32Array(rows * cols)
+
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i * cols + j] = a[i] === b[j]
+                ? lcs[(i + 1) * cols + j + 1] + 1
+                : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1])
+        }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            pushPart(parts, 'equal', a[i])
+            i++
+            j++
+        } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+            pushPart(parts, 'delete', a[i++])
+        } else {
+            pushPart(parts, 'insert', b[j++])
+        }
+    }
+    while (i < a.length) pushPart(parts, 'delete', a[i++])
+    while (j < b.length) pushPart(parts, 'insert', b[j++])
+}
+
+/** Diff from `before` to `after`, as runs of equal, deleted and inserted text */
+export function diffText(before: string, after: string): DiffPart[] {
+    let a = tokenize(before)
+    let b = tokenize(after)
+    const parts: DiffPart[] = []
+
+    // Shared head and tail never need the LCS table
+    let head = 0
+    while (head < a.length && head < b.length && a[head] === b[head]) head++
+    let tail = 0
+    while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++
+
+    pushPart(parts, 'equal', a.slice(0, head).join(''))
+    const tailText = a.slice(a.length - tail).join('')
+    a = a.slice(head, a.length - tail)
+    b = b.slice(head, b.length - tail)
+
+    if (a.length * b.length > MAX_WORD_CELLS) {
+        a = a.join('').split(/(?<=\n)/)
+        b = b.join('').split(/(?<=\n)/)
+    }
+    diffTokens(a, b, parts)
+
+    pushPart(parts, 'equal', tailText)
+    return parts
+}
+
+/** Words added and removed, ignoring whitespace-only changes */
+export function diffStats(parts: DiffPart[]): DiffStats {
+    const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length
+    return {
+        inserted: parts.filter(p => p.op === 'insert').reduce((sum, p) => sum + countWords(p.text), 0),
+        deleted: parts.filter(p => p.op === 'delete').reduce((sum, p) => sum + countWords(p.text), 0),
+    }
+}
@@ -0,0 +1,159 @@
+// Training Examples
+// sharepoint-sync turns each synced document into a few request/response
+// pairs in the brand's voice (training_examples). Generation picks the ones
+// closest to the post being written, by example category and by how many of
+// the topic's words they share, and puts them in the prompt as few-shot
+// examples. People review the examples in Brand Studio; approved examples
+// rank first and are the ones exported as a JSONL fine-tuning dataset.
+
+import type { ContentCategory } from './content-mix.ts'
+import { similarityWords } from './similarity.ts'
+
+export type TrainingExampleCategory = 'linkedin_post' | 'project_summary' | 'brand_voice' | 'client_work'
+
+export type TrainingExampleStatus = 'pending' | 'approved'
+
+export const TRAINING_EXAMPLE_CATEGORY_LABELS: Record<TrainingExampleCategory, string> = {
+    linkedin_post: 'LinkedIn post',
+    project_summary: 'Project summary',
+    brand_voice: 'Brand voice',
+    client_work: 'Client work',
+}
+
+export const TRAINING_EXAMPLE_STATUS_LABELS: Record<TrainingExampleStatus, string> = {
+    pending: 'Needs review',
+    approved: 'Approved',
+}
+
+// Examples put in each generation prompt
+export const FEW_SHOT_COUNT = 3
+
+// Least topic and category relevance an example needs to be shown at all,
+// so a prompt gets fewer examples rather than unrelated ones
+export const MIN_FEW_SHOT_SCORE = 0.1
+
+// Most examples generation loads per space, approved first
+export const FEW_SHOT_POOL_SIZE = 500
+
+// Longest example response quoted in a prompt
+const MAX_FEW_SHOT_RESPONSE_CHARS = 1500
+
+/** The training_examples columns few-shot selection and export read */
+export interface TrainingExample {
+    id: string
+    system_prompt: string | null
+    user_prompt: string
+    assistant_response: string
+    category: string | null
+    status: TrainingExampleStatus
+}
+
+export interface FewShotTarget {
+    topic: string
+    /** The post's planned content category, if any */
+    contentCategory?: ContentCategory | null
+}
+
+// Example categories that suit a content category, best first
+const CATEGORY_AFFINITY: Partial<Record<ContentCategory, TrainingExampleCategory[]>> = {
+    case_study: ['client_work', 'project_summary'],
+    testimonial: ['client_work'],
+    product: ['project_summary', 'client_work'],
+    milestone: ['project_summary'],
+    culture: ['brand_voice'],
+    behind_the_scenes: ['brand_voice', 'project_summary'],
+    opinion: ['brand_voice'],
+}
+
+const TOPIC_STOPWORDS = new Set([
+    'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'into', 'is', 'it',
+    'its', 'of', 'on', 'or', 'our', 'that', 'the', 'their', 'this', 'to', 'we', 'what', 'why', 'with', 'you', 'your',
+])
+
+function topicWords(text: string): Set<string> {
+    return new Set(similarityWords(text).filter(word => word.length > 2 && !TOPIC_STOPWORDS.has(word)))
+}
+
+export function isTrainingExampleCategory(value: unknown): value is TrainingExampleCategory {
+    return typeof value === 'string' && value in TRAINING_EXAMPLE_CATEGORY_LABELS
+}
+
+/** 0-1: LinkedIn posts suit every post; other categories only the content categories they match */
+export function exampleCategoryScore(category: string | null, contentCategory?: ContentCategory | null): number {
+    if (category === 'linkedin_post') return 1
+    const affinity = contentCategory ? CATEGORY_AFFINITY[contentCategory] || [] : []
+    const rank = affinity.indexOf(category as TrainingExampleCategory)
+    if (rank >= 0) return 0.8 - 0.2 * rank
+    return category === 'brand_voice' ? 0.3 : 0
+}
+
+/** 0-1: the share of the topic's words the example's request and response use */
+export function exampleTopicScore(example: Pick<TrainingExample, 'user_prompt' | 'assistant_response'>, topic: string): number {
+    const wanted = topicWords(topic)
+    if (wanted.size === 0) return 0
+    const words = topicWords(`${example.user_prompt} ${example.assistant_response}`)
+    let shared = 0
+    for (const word of wanted) {
+        if (words.has(word)) shared++
+    }
+    return shared / wanted.size
+}
+
+/**
+ * The examples to show for one post, best first. Topic overlap carries most
+ * of the weight and category the rest; approved examples win ties and rank
+ * ahead of unreviewed ones with a similar score. Examples below
+ * MIN_FEW_SHOT_SCORE are left out, however few remain.
+ */
+export function selectFewShotExamples<T extends TrainingExample>(
+    examples: T[],
+    target: FewShotTarget,
+    count = FEW_SHOT_COUNT,
+): T[] {
+    return examples
+        .filter(example => example.user_prompt?.trim() && example.assistant_response?.trim())
+        .map(example => ({
+            example,
+            relevance: 0.6 * exampleTopicScore(example, target.topic)
+                + 0.3 * exampleCategoryScore(example.category, target.contentCategory),
+        }))
+        .filter(entry => entry.relevance >= MIN_FEW_SHOT_SCORE)
+        .map(entry => ({ ...entry, score: entry.relevance + (entry.example.status === 'approved' ? 0.1 : 0) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, count)
+        .map(entry => entry.example)
+}
+
+/** The examples as a prompt section; empty when there are none */
+export function formatFewShotExamples(examples: Pick<TrainingExample, 'user_prompt' | 'assistant_response'>[]): string {
+    if (examples.length === 0) return ''
+    const blocks = examples.map((example, i) => {
+        const response = example.assistant_response.trim()
+        const quoted = response.length > MAX_FEW_SHOT_RESPONSE_CHARS
+            ? `${response.slice(0, MAX_FEW_SHOT_RESPONSE_CHARS)}...`
+            : response
+        return `Example ${i + 1}\nRequest: ${example.user_prompt.trim()}\nResponse:\n${quoted}`
+    })
+    return `BRAND VOICE EXAMPLES - How this brand has answered similar requests. Match the voice and structure; do not copy facts that are not in the brand context:
+---
+${blocks.join('\n---\n')}
+---
+`
+}
+
+/**
+ * Approved examples as a chat fine-tuning dataset: one
+ * {"messages": [system, user, assistant]} object per line.
+ */
+export function buildFineTuningJsonl(examples: TrainingExample[]): string {
+    return examples
+        .filter(example => example.status === 'approved')
+        .map(example => JSON.stringify({
+            messages: [
+                ...(example.system_prompt?.trim() ? [{ role: 'system', content: example.system_prompt.trim() }] : []),
+                { role: 'user', content: example.user_prompt.trim() },
+                { role: 'assistant', content: example.assistant_response.trim() },
+            ],
+        }))
+        .join('\n')
+}
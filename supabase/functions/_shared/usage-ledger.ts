@@ -0,0 +1,169 @@
+// Usage Ledger
+// Records AI calls in ai_usage_ledger (pricing in ./usage.ts) and checks the
+// space's monthly budget before new work starts. Recording never throws: a
+// failed ledger write is logged and the call it describes still succeeds.
+
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { parseJSONResponse, type LLMClient, type LLMRequest, type LLMResponse } from './llm.ts'
+import {
+    estimateCreditCost,
+    estimateImageCost,
+    estimateTokenCost,
+    evaluateBudget,
+    monthStart,
+    normaliseBudget,
+    totalCost,
+    type BudgetStatus,
+    type UsageFeature,
+    type UsageSummaryRow,
+    type UsageUnit,
+} from './usage.ts'
+
+/** What triggered a call: attached to every ledger row it produces */
+export interface UsageContext {
+    spaceId: string
+    feature: UsageFeature
+    userId?: string | null
+    userEmail?: string | null
+    campaignId?: string | null
+    postId?: string | null
+    jobId?: string | null
+}
+
+export interface UsageRecord {
+    provider: string
+    model: string
+    inputTokens?: number
+    outputTokens?: number
+    /** Images generated or credits spent */
+    units?: number
+    unitType?: UsageUnit
+    metadata?: Record<string, unknown>
+}
+
+export interface UsageUser {
+    id: string
+    email: string | null
+}
+
+/** Writes one ledger row. Returns the estimated cost recorded */
+export async function recordUsage(supabase: SupabaseClient, context: UsageContext, usage: UsageRecord): Promise<number | null> {
+    const unitType = usage.unitType || 'tokens'
+    const inputTokens = usage.inputTokens || 0
+    const outputTokens = usage.outputTokens || 0
+    const units = usage.units || 0
+
+    const cost = unitType === 'images'
+        ? estimateImageCost(usage.model, units)
+        : unitType === 'credits'
+            ? estimateCreditCost(units)
+            : estimateTokenCost(usage.model, inputTokens, outputTokens)
+
+    try {
+        const { error } = await supabase
+            .from('ai_usage_ledger')
+            .insert({
+                space_id: context.spaceId,
+                user_id: context.userId || null,
+                user_email: context.userEmail || null,
+                feature: context.feature,
+                provider: usage.provider,
+                model: usage.model,
+                input_tokens: inputTokens,
+                output_tokens: outputTokens,
+                total_tokens: inputTokens + outputTokens,
+                units,
+                unit_type: unitType,
+                estimated_cost_usd: cost,
+                campaign_id: context.campaignId || null,
+                post_id: context.postId || null,
+                job_id: context.jobId || null,
+                metadata: usage.metadata || {},
+            })
+
+        if (error) throw error
+    } catch (err) {
+        console.error(`Error recording ${context.feature} usage:`, err)
+    }
+    return cost
+}
+
+/**
+ * Wraps an LLM client so every completion is recorded against `context`.
+ * Calls that fail are not recorded; providers do not bill them. `onUsage`
+ * sees each recorded completion, for callers keeping their own totals.
+ */
+export function trackUsage(
+    llm: LLMClient,
+    supabase: SupabaseClient,
+    context: UsageContext,
+    onUsage?: (response: LLMResponse, costUsd: number | null) => void,
+): LLMClient {
+    const complete = async (request: LLMRequest): Promise<LLMResponse> => {
+        const response = await llm.complete(request)
+        const cost = await recordUsage(supabase, context, {
+            provider: response.provider,
+            model: response.model,
+            inputTokens: response.usage.inputTokens,
+            outputTokens: response.usage.outputTokens,
+        })
+        onUsage?.(response, cost)
+        return response
+    }
+
+    // Through the tracked complete() so a response that fails to parse is still recorded
+    const completeJSON = async <T = unknown>(request: LLMRequest) => {
+        const response = await complete({ ...request, json: true })
+        return { data: parseJSONResponse<T>(response.text), response }
+    }
+
+    return { ...llm, complete, completeJSON }
+}
+
+/** Spend so far this month against the space's budget */
+export async function getBudgetStatus(supabase: SupabaseClient, spaceId: string): Promise<BudgetStatus> {
+    const { data: settings } = await supabase
+        .from('ai_settings')
+        .select('monthly_budget_usd, budget_warn_percent, budget_action')
+        .eq('space_id', spaceId)
+        .maybeSingle()
+
+    const budget = normaliseBudget(settings)
+    if (!budget.monthly_budget_usd) return evaluateBudget(0, budget)
+
+    const { data: rows, error } = await supabase.rpc('ai_usage_summary', {
+        p_space_id: spaceId,
+        p_since: monthStart(),
+    })
+
+    // Never block work because the ledger could not be read
+    if (error) {
+        console.error('Error reading AI usage for budget:', error)
+        return evaluateBudget(0, budget)
+    }
+
+    return evaluateBudget(totalCost((rows || []) as UsageSummaryRow[]), budget)
+}
+
+/**
+ * The user behind a request: the caller's JWT when invoked from the app, or
+ * `fallbackUserId` (e.g. job.created_by) when invoked with the service key.
+ */
+export async function resolveUsageUser(
+    supabase: SupabaseClient,
+    req: Request,
+    fallbackUserId?: string | null,
+): Promise<UsageUser | null> {
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+    if (token) {
+        const { data } = await supabase.auth.getUser(token)
+        if (data?.user) return { id: data.user.id, email: data.user.email || null }
+    }
+
+    if (fallbackUserId) {
+        const { data } = await supabase.auth.admin.getUserById(fallbackUserId)
+        return { id: fallbackUserId, email: data?.user?.email || null }
+    }
+
+    return null
+}
@@ -0,0 +1,230 @@
+// AI Usage
+// Every LLM, embedding, image and enrichment call is recorded in the
+// ai_usage_ledger table with an estimated cost. Prices here are list prices
+// in USD and only need to be close enough for budgeting; unknown models are
+// recorded with a null cost. Budgets live on ai_settings.
+
+export type UsageFeature =
+    | 'post_generation'
+    | 'post_ideas'
+    | 'brand_profile'
+    | 'grounding_check'
+    | 'post_classification'
+    | 'post_rewrite'
+    | 'series_planning'
+    | 'document_repurpose'
+    | 'channel_adapt'
+    | 'image_prompt'
+    | 'image_generation'
+    | 'image_prompt_split'
+    | 'sharepoint_analysis'
+    | 'embeddings'
+    | 'contact_enrichment'
+
+export const USAGE_FEATURE_LABELS: Record<UsageFeature, string> = {
+    post_generation: 'Post generation',
+    post_ideas: 'Post ideas',
+    brand_profile: 'Brand profile',
+    grounding_check: 'Grounding checks',
+    post_classification: 'Post classification',
+    post_rewrite: 'Post rewrites',
+    series_planning: 'Series planning',
+    document_repurpose: 'Document repurposing',
+    channel_adapt: 'Channel adaptation',
+    image_prompt: 'Image prompts',
+    image_generation: 'Images',
+    image_prompt_split: 'Carousel prompts',
+    sharepoint_analysis: 'SharePoint analysis',
+    embeddings: 'Source indexing',
+    contact_enrichment: 'Apollo enrichment',
+}
+
+export type UsageUnit = 'tokens' | 'images' | 'credits'
+
+/** One ai_usage_ledger row */
+export interface UsageEntry {
+    id: string
+    space_id: string
+    user_id: string | null
+    user_email: string | null
+    feature: UsageFeature
+    provider: string
+    model: string
+    input_tokens: number
+    output_tokens: number
+    total_tokens: number
+    /** Images generated or credits spent; 0 for token-priced calls */
+    units: number
+    unit_type: UsageUnit
+    estimated_cost_usd: number | null
+    campaign_id: string | null
+    post_id: string | null
+    job_id: string | null
+    metadata: Record<string, unknown>
+    created_at: string
+}
+
+// USD per million tokens, matched by longest model-name prefix
+const TOKEN_PRICES: Record<string, { input: number; output: number }> = {
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4-turbo': { input: 10, output: 30 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'claude-haiku-4-5': { input: 1, output: 5 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-opus-4': { input: 15, output: 75 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'text-embedding-3-small': { input: 0.02, output: 0 },
+    'text-embedding-3-large': { input: 0.13, output: 0 },
+    'mock': { input: 0, output: 0 },
+}
+
+// USD per generated image
+const IMAGE_PRICES: Record<string, number> = {
+    'gemini-2.5-flash-image': 0.039,
+    'gemini-2.0-flash': 0.039,
+    'imagen': 0.04,
+}
+
+// Apollo bills in credits; this is a mid-tier plan's price per credit
+export const APOLLO_CREDIT_COST_USD = 0.2
+
+function matchPrice<T>(prices: Record<string, T>, model: string): T | null {
+    const key = Object.keys(prices)
+        .sort((a, b) => b.length - a.length)
+        .find(prefix => model.startsWith(prefix))
+    return key ? prices[key] : null
+}
+
+function roundCost(cost: number): number {
+    return Math.round(cost * 1_000_000) / 1_000_000
+}
+
+/** Estimated cost of a token-priced call; null for models without a known price */
+export function estimateTokenCost(model: string, inputTokens: number, outputTokens: number): number | null {
+    const price = matchPrice(TOKEN_PRICES, model)
+    if (!price) return null
+    return roundCost((inputTokens * price.input + outputTokens * price.output) / 1_000_000)
+}
+
+export function estimateImageCost(model: string, images: number): number | null {
+    const price = matchPrice(IMAGE_PRICES, model)
+    return price === null ? null : roundCost(price * images)
+}
+
+export function estimateCreditCost(credits: number): number {
+    return roundCost(credits * APOLLO_CREDIT_COST_USD)
+}
+
+// ── Budgets ──────────────────────────────────────────
+
+/** 'block' stops new AI calls once the budget is spent; 'warn' only reports it */
+export type BudgetAction = 'warn' | 'block'
+
+/** Budget columns on ai_settings */
+export interface UsageBudget {
+    monthly_budget_usd: number | null
+    /** Percentage of the budget at which to start warning */
+    budget_warn_percent: number
+    budget_action: BudgetAction
+}
+
+export type BudgetState = 'none' | 'ok' | 'warning' | 'exceeded'
+
+export interface BudgetStatus {
+    state: BudgetState
+    /** True when new calls should be refused */
+    blocked: boolean
+    spent_usd: number
+    limit_usd: number | null
+    message: string | null
+}
+
+export const DEFAULT_BUDGET: UsageBudget = {
+    monthly_budget_usd: null,
+    budget_warn_percent: 80,
+    budget_action: 'warn',
+}
+
+export function normaliseBudget(raw: unknown): UsageBudget {
+    const r = (raw && typeof raw === 'object' ? raw : {}) as Partial<UsageBudget>
+    const limit = Number(r.monthly_budget_usd)
+    const warn = Number(r.budget_warn_percent)
+    return {
+        monthly_budget_usd: r.monthly_budget_usd !== null && Number.isFinite(limit) && limit > 0 ? limit : null,
+        budget_warn_percent: Number.isFinite(warn) && warn > 0 && warn <= 100 ? warn : DEFAULT_BUDGET.budget_warn_percent,
+        budget_action: r.budget_action === 'block' ? 'block' : 'warn',
+    }
+}
+
+export function evaluateBudget(spentUsd: number, budget: UsageBudget): BudgetStatus {
+    const limit = budget.monthly_budget_usd
+    const spent = roundCost(spentUsd)
+    if (!limit) return { state: 'none', blocked: false, spent_usd: spent, limit_usd: null, message: null }
+
+    const used = `$${spent.toFixed(2)} of the $${limit.toFixed(2)} monthly AI budget`
+    if (spent >= limit) {
+        return {
+            state: 'exceeded',
+            blocked: budget.budget_action === 'block',
+            spent_usd: spent,
+            limit_usd: limit,
+            message: budget.budget_action === 'block'
+                ? `Monthly AI budget reached (${used}). Raise the budget in AI Settings to continue.`
+                : `Monthly AI budget exceeded: ${used} used.`,
+        }
+    }
+    if (spent >= limit * budget.budget_warn_percent / 100) {
+        return { state: 'warning', blocked: false, spent_usd: spent, limit_usd: limit, message: `${used} used this month.` }
+    }
+    return { state: 'ok', blocked: false, spent_usd: spent, limit_usd: limit, message: null }
+}
+
+/** Start of the calendar month (UTC) containing `date`, as an ISO string */
+export function monthStart(date: Date = new Date()): string {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)).toISOString()
+}
+
+// ── Reporting ────────────────────────────────────────
+
+/** One row of the ai_usage_summary RPC: totals per month, feature and campaign */
+export interface UsageSummaryRow {
+    month: string
+    feature: UsageFeature
+    campaign_id: string | null
+    cost_usd: number
+    tokens: number
+    units: number
+    calls: number
+}
+
+export interface UsageGroup {
+    key: string
+    cost_usd: number
+    tokens: number
+    calls: number
+}
+
+/** Sums summary rows by `keyOf`, largest cost first */
+export function groupUsage(rows: UsageSummaryRow[], keyOf: (row: UsageSummaryRow) => string): UsageGroup[] {
+    const groups = new Map<string, UsageGroup>()
+    for (const row of rows) {
+        const key = keyOf(row)
+        const group = groups.get(key) || { key, cost_usd: 0, tokens: 0, calls: 0 }
+        // NUMERIC and BIGINT columns can arrive as strings
+        group.cost_usd = roundCost(group.cost_usd + Number(row.cost_usd || 0))
+        group.tokens += Number(row.tokens || 0)
+        group.calls += Number(row.calls || 0)
+        groups.set(key, group)
+    }
+    return Array.from(groups.values()).sort((a, b) => b.cost_usd - a.cost_usd)
+}
+
+/** Total estimated spend across summary rows */
+export function totalCost(rows: UsageSummaryRow[]): number {
+    return roundCost(rows.reduce((sum, row) => sum + Number(row.cost_usd || 0), 0))
+}
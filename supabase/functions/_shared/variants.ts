@@ -0,0 +1,83 @@
+// Post Variants
+// A campaign can ask for several takes on each topic. Each variant is written
+// from a different angle (hook, length), stored as a post_variants row, and
+// the chosen one is copied into posts.body. The others stay available for
+// re-use.
+
+export type VariantAngleKey = 'insight' | 'question' | 'story' | 'punchy'
+
+export interface VariantAngle {
+    key: VariantAngleKey
+    label: string
+    /** Added to the prompt when more than one variant is requested */
+    instruction: string
+}
+
+// Ordered: N variants use the first N angles
+export const VARIANT_ANGLES: VariantAngle[] = [
+    {
+        key: 'insight',
+        label: 'Insight',
+        instruction: 'Open with a sharp insight or observation about the topic, then back it up.',
+    },
+    {
+        key: 'question',
+        label: 'Question',
+        instruction: 'Open with a question the audience is likely asking themselves, then answer it.',
+    },
+    {
+        key: 'story',
+        label: 'Story',
+        instruction: 'Open with a short, concrete scenario drawn from the brand context. Do not invent people, clients or results.',
+    },
+    {
+        key: 'punchy',
+        label: 'Short & punchy',
+        instruction: 'Keep it to roughly half the target length: short lines, one idea, no preamble.',
+    },
+]
+
+export const MAX_VARIANTS = VARIANT_ANGLES.length
+
+export const VARIANT_ANGLE_LABELS: Record<VariantAngleKey, string> = Object.fromEntries(
+    VARIANT_ANGLES.map(angle => [angle.key, angle.label])
+) as Record<VariantAngleKey, string>
+
+/** Variants per topic, from generation_settings.variant_count */
+export function clampVariantCount(count: unknown): number {
+    const n = typeof count === 'number' ? Math.floor(count) : parseInt(String(count ?? ''), 10)
+    if (!Number.isFinite(n) || n < 1) return 1
+    return Math.min(n, MAX_VARIANTS)
+}
+
+/** Later variants run slightly hotter so they do not converge on the same text */
+export function variantTemperature(index: number): number {
+    return Math.min(0.7 + index * 0.1, 1)
+}
+
+/** One post_variants row */
+export interface PostVariant {
+    id: string
+    post_id: string
+    space_id: string
+    variant_index: number
+    angle: VariantAngleKey | null
+    body: string
+    generation_meta: Record<string, unknown>
+    is_selected: boolean
+    /** Post created from this variant via "Save as new post" */
+    reused_post_id: string | null
+    created_at: string
+}
+
+/** Stored in posts.generation_meta.variants */
+export interface VariantSummary {
+    count: number
+    selected_index: number
+}
+
+export function getVariantSummary(generationMeta: unknown): VariantSummary | null {
+    if (!generationMeta || typeof generationMeta !== 'object') return null
+    const variants = (generationMeta as { variants?: VariantSummary }).variants
+    return variants && typeof variants.count === 'number' && variants.count > 1 ? variants : null
+}
@@ -0,0 +1,184 @@
+// Adapt Post for Channel - Rewrite a post's main body for one social channel
+// Uses the channel's constraints (_shared/channels.ts) and the space's house
+// style, then upserts the post_channel_variants row for that channel. An
+// existing image rendition on the row is kept.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { createTextLLM, type LLMClient } from '../_shared/llm.ts'
+import { CHANNEL_SPECS, buildChannelInstructions, checkChannelPost, extractHashtags, isChannelId, normaliseHashtags } from '../_shared/channels.ts'
+import { applyStyleRules, buildStyleInstructions, normaliseStyleRules, resolveHashtagLimit } from '../_shared/style-rules.ts'
+import { getBudgetStatus, resolveUsageUser, trackUsage } from '../_shared/usage-ledger.ts'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface AdaptedPost {
+    body?: string
+    hashtags?: string[]
+}
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const { post_id, channel } = await req.json()
+
+        if (!post_id || !isChannelId(channel)) {
+            return new Response(
+                JSON.stringify({ error: 'post_id and a valid channel are required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+        const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+        const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+        const { data: post, error: postError } = await supabase
+            .from('posts')
+            .select('id, space_id, title, body')
+            .eq('id', post_id)
+            .single()
+
+        if (postError || !post) {
+            return new Response(
+                JSON.stringify({ error: 'Post not found' }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        if (!post.body) {
+            return new Response(
+                JSON.stringify({ error: 'Post has no content body' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const budget = await getBudgetStatus(supabase, post.space_id)
+        if (budget.blocked) {
+            return new Response(
+                JSON.stringify({ error: budget.message }),
+                { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const { data: aiSettings } = await supabase
+            .from('ai_settings')
+            .select('text_provider, text_model')
+            .eq('space_id', post.space_id)
+            .maybeSingle()
+
+        const user = await resolveUsageUser(supabase, req)
+
+        let llm: LLMClient
+        try {
+            llm = trackUsage(createTextLLM(aiSettings), supabase, {
+                spaceId: post.space_id,
+                feature: 'channel_adapt',
+                userId: user?.id,
+                userEmail: user?.email,
+                postId: post.id,
+            })
+        } catch (err) {
+            return new Response(
+                JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const { data: styleRow } = await supabase
+            .from('style_rules')
+            .select('rules')
+            .eq('space_id', post.space_id)
+            .maybeSingle()
+
+        const styleRules = normaliseStyleRules(styleRow?.rules)
+        const spec = CHANNEL_SPECS[channel]
+
+        // Hashtags are returned separately, so the body itself has none
+        const styleInstructions = buildStyleInstructions(styleRules, { include_hashtags: false })
+            .filter(line => !line.includes('hashtags'))
+
+        const systemPrompt = `You adapt social media posts for ${spec.label}.
+
+CHANNEL REQUIREMENTS:
+${buildChannelInstructions(channel).map(line => `- ${line}`).join('\n')}
+
+HOUSE STYLE:
+${styleInstructions.map(line => `- ${line}`).join('\n')}
+
+RULES:
+- Keep the meaning and every fact of the original. Do not add facts, figures or claims that are not in it.
+- Rewrite rather than truncate: the result must read naturally on ${spec.label}.
+
+Respond with JSON: {"body": "the adapted post without hashtags", "hashtags": ["#Example"]}`
+
+        const { data: adapted, response } = await llm.completeJSON<AdaptedPost>({
+            system: systemPrompt,
+            prompt: `ORIGINAL POST (${post.title}):\n---\n${post.body}\n---`,
+            temperature: 0.5,
+            maxTokens: channel === 'x' ? 300 : 1000,
+        })
+
+        if (!adapted.body || typeof adapted.body !== 'string') {
+            throw new Error('Model returned no adapted body')
+        }
+
+        // Any hashtags left in the body join the list; house style then caps it
+        const extracted = extractHashtags(adapted.body)
+        const styled = applyStyleRules(extracted.body, styleRules, { include_hashtags: false })
+        const hashtagLimit = resolveHashtagLimit(styleRules)
+        const hashtags = normaliseHashtags(
+            [...(Array.isArray(adapted.hashtags) ? adapted.hashtags : []), ...extracted.hashtags],
+            Math.min(spec.hashtags.max, hashtagLimit ?? spec.hashtags.max),
+        )
+        const issues = checkChannelPost(styled.text, hashtags, channel)
+
+        const { data: variant, error: upsertError } = await supabase
+            .from('post_channel_variants')
+            .upsert({
+                post_id: post.id,
+                space_id: post.space_id,
+                channel,
+                body: styled.text,
+                hashtags,
+                generation_meta: {
+                    provider: response.provider,
+                    model: response.model,
+                    tokens: response.usage.totalTokens,
+                    input_tokens: response.usage.inputTokens,
+                    output_tokens: response.usage.outputTokens,
+                    adapted_at: new Date().toISOString(),
+                    style: {
+                        changes: styled.changes,
+                        issues: styled.issues,
+                    },
+                    channel_issues: issues,
+                },
+                updated_at: new Date().toISOString(),
+            }, { onConflict: 'post_id,channel' })
+            .select('*')
+            .single()
+
+        if (upsertError) throw upsertError
+
+        console.log(`Adapted post ${post_id} for ${channel}: ${styled.text.length} chars, ${hashtags.length} hashtags, ${issues.length} issues`)
+
+        return new Response(
+            JSON.stringify({ success: true, variant, issues }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+
+    } catch (error) {
+        console.error('Error in adapt-post-channel:', error)
+        return new Response(
+            JSON.stringify({ error: 'Failed to adapt post', details: String(error) }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+    }
+})
@@ -2,6 +2,8 @@
 // This proxies requests to Apollo API to avoid CORS issues
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getBudgetStatus, recordUsage, resolveUsageUser } from '../_shared/usage-ledger.ts'
 
 const APOLLO_API_KEY = Deno.env.get('APOLLO_API_KEY') || ''
 
@@ -16,6 +18,8 @@ interface EnrichRequest {
     organization_name: string
     domain?: string
     title?: string
+    // Space to charge the credits to
+    space_id?: string
 }
 
 serve(async (req) => {
@@ -25,7 +29,36 @@ serve(async (req) => {
     }
     
     try {
-        const { first_name, last_name, organization_name, domain, title } = await req.json() as EnrichRequest
+        const { first_name, last_name, organization_name, domain, title, space_id } = await req.json() as EnrichRequest
+
+        const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+        if (space_id) {
+            const budget = await getBudgetStatus(supabase, space_id)
+            if (budget.blocked) {
+                return new Response(
+                    JSON.stringify({ error: budget.message }),
+                    { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                )
+            }
+        }
+
+        // A people/match that returns a person costs one Apollo credit; searches are free
+        const recordCredit = async (method: string) => {
+            if (!space_id) return
+            const user = await resolveUsageUser(supabase, req)
+            await recordUsage(supabase, {
+                spaceId: space_id,
+                feature: 'contact_enrichment',
+                userId: user?.id,
+                userEmail: user?.email,
+            }, {
+                provider: 'apollo',
+                model: 'people/match',
+                units: 1,
+                unitType: 'credits',
+                metadata: { method, organization_name },
+            })
+        }
         
         console.log(`Apollo: Enriching ${first_name} ${last_name} at ${organization_name}, domain: ${domain}`)
         
@@ -53,6 +86,7 @@ serve(async (req) => {
         if (enrichData.person) {
             const p = enrichData.person
             console.log(`Apollo: Direct match found!`)
+            await recordCredit('name_org')
             
             // Get phone from phone_numbers if available (may already be in profile)
             let phone = null
@@ -98,6 +132,7 @@ serve(async (req) => {
             if (domainData.person) {
                 const p = domainData.person
                 console.log(`Apollo: Domain match found!`)
+                await recordCredit('name_domain')
                 
                 let phone = null
                 if (p.phone_numbers?.length > 0) {
@@ -0,0 +1,127 @@
+// Check Duplicates - Flag posts that are near-duplicates of others in their space
+// Called after a post body is created or changed, with post_ids, and from
+// the duplicate review with space_id and rescan to re-sign every post and
+// rebuild the space's pairs. Scoring is local (MinHash over word shingles),
+// so no AI usage is recorded.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { findSimilarPairs, type SimilarityMatch } from '../_shared/similarity.ts'
+import {
+    POST_GROUP_COLUMNS,
+    checkPostDuplicates,
+    loadSpaceSignatures,
+    postGroup,
+    signSpacePosts,
+    syncSpaceDuplicates,
+} from '../_shared/duplicates.ts'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Posts checked per request
+const CHECK_BATCH_SIZE = 50
+
+interface CheckResult {
+    post_id: string
+    matches: SimilarityMatch[]
+    error?: string
+}
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const { post_ids, space_id, rescan } = await req.json()
+
+        const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+        const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+        const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+        if (rescan) {
+            if (!space_id) {
+                return new Response(
+                    JSON.stringify({ error: 'space_id is required for a rescan' }),
+                    { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                )
+            }
+
+            const spacePosts = await signSpacePosts(supabase, space_id)
+            const pairs = await syncSpaceDuplicates(supabase, space_id, spacePosts, findSimilarPairs(spacePosts))
+            console.log(`Rescanned ${spacePosts.length} posts in space ${space_id}: ${pairs} near-duplicate pairs`)
+
+            return new Response(
+                JSON.stringify({ success: true, scanned: spacePosts.length, pairs }),
+                { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        if (!Array.isArray(post_ids) || post_ids.length === 0) {
+            return new Response(
+                JSON.stringify({ error: 'post_ids or space_id with rescan is required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        if (post_ids.length > CHECK_BATCH_SIZE) {
+            return new Response(
+                JSON.stringify({ error: `At most ${CHECK_BATCH_SIZE} posts per request; use a rescan for more` }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const { data: posts, error: postsError } = await supabase
+            .from('posts')
+            .select(`id, space_id, created_at, status, body, ${POST_GROUP_COLUMNS}`)
+            .in('id', post_ids)
+
+        if (postsError) throw postsError
+        if (!posts?.length) {
+            return new Response(
+                JSON.stringify({ error: 'Post not found' }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const spaceId: string = posts[0].space_id
+        if (posts.some(p => p.space_id !== spaceId)) {
+            return new Response(
+                JSON.stringify({ error: 'All posts must belong to the same space' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const spacePosts = await loadSpaceSignatures(supabase, spaceId)
+        const results: CheckResult[] = []
+
+        for (const post of posts) {
+            try {
+                const matches = await checkPostDuplicates(supabase, { ...post, group: postGroup(post) }, spacePosts)
+                results.push({ post_id: post.id, matches })
+            } catch (err) {
+                console.error(`Error checking post ${post.id} for duplicates:`, err)
+                results.push({ post_id: post.id, matches: [], error: err instanceof Error ? err.message : String(err) })
+            }
+        }
+
+        const flagged = results.filter(r => r.matches.length > 0).length
+        const failed = results.filter(r => r.error).length
+        console.log(`Checked ${results.length} posts for duplicates: ${flagged} flagged, ${failed} failed`)
+
+        return new Response(
+            JSON.stringify({ success: failed < results.length, results, flagged, failed }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+
+    } catch (error) {
+        console.error('Error in check-duplicates:', error)
+        return new Response(
+            JSON.stringify({ error: 'Failed to check for duplicates', details: String(error) }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+    }
+})
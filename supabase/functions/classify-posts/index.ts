@@ -0,0 +1,168 @@
+// Classify Posts - Assign a content layer/category to posts from their text
+// Called after a post body is created or substantially changed, and per post
+// by job-worker for bulk classification. Results below the confidence
+// threshold are stored as 'needs_review' for the review queue. Posts a
+// person has confirmed are skipped unless `force` is set.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { createTextLLM, type LLMClient } from '../_shared/llm.ts'
+import { CLASSIFY_BATCH_SIZE, type ClassificationStatus } from '../_shared/classification.ts'
+import { classificationColumns, classifyPostBody } from '../_shared/post-classifier.ts'
+import { getBudgetStatus, resolveUsageUser, trackUsage } from '../_shared/usage-ledger.ts'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ClassifyResult {
+    post_id: string
+    status: ClassificationStatus | 'skipped' | 'failed'
+    layer?: string
+    category?: string
+    confidence?: number
+    error?: string
+}
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        // job_id and user_id are set when called per item by job-worker
+        const { post_ids, force, job_id, user_id } = await req.json()
+
+        if (!Array.isArray(post_ids) || post_ids.length === 0) {
+            return new Response(
+                JSON.stringify({ error: 'post_ids is required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        if (post_ids.length > CLASSIFY_BATCH_SIZE) {
+            return new Response(
+                JSON.stringify({ error: `At most ${CLASSIFY_BATCH_SIZE} posts per request; use a classify_posts job for more` }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+        const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+        const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+        const { data: posts, error: postsError } = await supabase
+            .from('posts')
+            .select('id, space_id, campaign_id, title, body, classification_status')
+            .in('id', post_ids)
+
+        if (postsError) throw postsError
+        if (!posts?.length) {
+            return new Response(
+                JSON.stringify({ error: 'Post not found' }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        // One space per request, so usage and budget are charged to the right place
+        const spaceId: string = posts[0].space_id
+        if (posts.some(p => p.space_id !== spaceId)) {
+            return new Response(
+                JSON.stringify({ error: 'All posts must belong to the same space' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const budget = await getBudgetStatus(supabase, spaceId)
+        if (budget.blocked) {
+            return new Response(
+                JSON.stringify({ error: budget.message }),
+                { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const { data: aiSettings } = await supabase
+            .from('ai_settings')
+            .select('text_provider, text_model')
+            .eq('space_id', spaceId)
+            .maybeSingle()
+
+        const user = await resolveUsageUser(supabase, req, user_id)
+
+        let textLLM: LLMClient
+        try {
+            textLLM = createTextLLM(aiSettings)
+        } catch (err) {
+            return new Response(
+                JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const results: ClassifyResult[] = []
+
+        for (const post of posts) {
+            if (!post.body?.trim() || (post.classification_status === 'confirmed' && !force)) {
+                results.push({ post_id: post.id, status: 'skipped' })
+                continue
+            }
+
+            try {
+                const llm = trackUsage(textLLM, supabase, {
+                    spaceId,
+                    feature: 'post_classification',
+                    userId: user?.id,
+                    userEmail: user?.email,
+                    campaignId: post.campaign_id,
+                    postId: post.id,
+                    jobId: job_id,
+                })
+
+                const classification = await classifyPostBody(llm, { title: post.title, body: post.body })
+                if (!classification) throw new Error('Model did not return a known category')
+
+                const columns = classificationColumns(classification, llm)
+                const { error: updateError } = await supabase
+                    .from('posts')
+                    .update(columns)
+                    .eq('id', post.id)
+
+                if (updateError) throw updateError
+
+                results.push({
+                    post_id: post.id,
+                    status: columns.classification_status,
+                    layer: classification.layer,
+                    category: classification.category,
+                    confidence: classification.confidence,
+                })
+            } catch (err) {
+                console.error(`Error classifying post ${post.id}:`, err)
+                results.push({ post_id: post.id, status: 'failed', error: err instanceof Error ? err.message : String(err) })
+            }
+        }
+
+        const count = (status: ClassifyResult['status']) => results.filter(r => r.status === status).length
+        console.log(`Classified ${results.length} posts: ${count('auto')} auto, ${count('needs_review')} for review, ${count('skipped')} skipped, ${count('failed')} failed`)
+
+        return new Response(
+            JSON.stringify({
+                success: count('failed') < results.length,
+                results,
+                classified: count('auto'),
+                needs_review: count('needs_review'),
+                skipped: count('skipped'),
+                failed: count('failed'),
+            }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+
+    } catch (error) {
+        console.error('Error in classify-posts:', error)
+        return new Response(
+            JSON.stringify({ error: 'Failed to classify posts', details: String(error) }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+    }
+})
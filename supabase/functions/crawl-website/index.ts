@@ -1,14 +1,49 @@
 // Crawl Website - Discover business info and pages from a URL
-// For Brand Studio wizard step 1
+// For Brand Studio wizard step 1, and for recrawls once the brand is set up.
+// Honours robots.txt, seeds from sitemap.xml and follows links within the
+// space's crawl settings (see _shared/crawler.ts). Pages already stored are
+// compared by content hash: unchanged pages keep their confirmation and
+// chunks, changed pages are rewritten and queued for re-indexing, and pages
+// that are gone, disallowed or out of scope are removed. Each run is recorded
+// in website_crawls.
 
 import "jsr:@supabase/functions-js/edge-runtime.d.ts"
-import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import {
+    CRAWLER_USER_AGENT,
+    EMPTY_ROBOTS,
+    MAX_CHILD_SITEMAPS,
+    MAX_SITEMAP_URLS,
+    crawlDelayMs,
+    extractPage,
+    isAllowedByRobots,
+    isInCrawlScope,
+    isNoIndex,
+    isSameSite,
+    normaliseCrawlSettings,
+    normalisePageUrl,
+    normaliseRootUrl,
+    pageTypeFromPath,
+    parseRobotsTxt,
+    parseSitemap,
+    type CrawlChanges,
+    type CrawlSettings,
+    type RobotsRules,
+} from '../_shared/crawler.ts'
+import { sha256 } from '../_shared/hash.ts'
+import { resolveUsageUser } from '../_shared/usage-ledger.ts'
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Give up on a page that has not answered in this long
+const FETCH_TIMEOUT_MS = 15000
+
+// Stop following links after this long so the function can write its results
+const CRAWL_TIME_BUDGET_MS = 110000
+
 interface DiscoveryResult {
     detected_name: string | null
     detected_linkedin: string | null
@@ -17,17 +52,95 @@ interface DiscoveryResult {
     pages_found: { url: string; title: string; type: string; selected: boolean }[]
 }
 
+interface StoredPage {
+    id: string
+    url: string | null
+    title: string | null
+    content: string | null
+    content_hash: string | null
+    metadata: Record<string, unknown> | null
+    is_confirmed: boolean | null
+}
+
+function fetchWithTimeout(url: string): Promise<Response> {
+    return fetch(url, {
+        headers: { 'User-Agent': CRAWLER_USER_AGENT },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    })
+}
+
+/** A page's HTML and final URL; 'gone' for 404/410, null when it could not be read */
+async function fetchPage(pageUrl: string): Promise<{ url: string; html: string } | 'gone' | null> {
+    try {
+        const response = await fetchWithTimeout(pageUrl)
+        if (response.status === 404 || response.status === 410) return 'gone'
+        if (!response.ok) return null
+        if (!(response.headers.get('content-type') || 'text/html').includes('html')) return null
+        return { url: normalisePageUrl(response.url) || pageUrl, html: await response.text() }
+    } catch (error) {
+        console.log(`Could not fetch ${pageUrl}:`, error)
+        return null
+    }
+}
+
+async function fetchRobots(origin: string): Promise<{ robots: RobotsRules; found: boolean }> {
+    try {
+        const response = await fetchWithTimeout(`${origin}/robots.txt`)
+        if (!response.ok) return { robots: EMPTY_ROBOTS, found: false }
+        return { robots: parseRobotsTxt(await response.text()), found: true }
+    } catch (error) {
+        console.log(`Could not fetch robots.txt for ${origin}:`, error)
+        return { robots: EMPTY_ROBOTS, found: false }
+    }
+}
+
+/** Page URLs from the site's sitemaps, following sitemap index files */
+async function fetchSitemapUrls(origin: string, robots: RobotsRules): Promise<string[]> {
+    const queue = robots.sitemaps.length > 0 ? [...robots.sitemaps] : [`${origin}/sitemap.xml`]
+    const seen = new Set<string>()
+    const urls: string[] = []
+
+    while (queue.length > 0 && seen.size < MAX_CHILD_SITEMAPS + 1 && urls.length < MAX_SITEMAP_URLS) {
+        const sitemapUrl = queue.shift()!
+        if (seen.has(sitemapUrl)) continue
+        seen.add(sitemapUrl)
+
+        try {
+            const response = await fetchWithTimeout(sitemapUrl)
+            if (!response.ok) continue
+            const parsed = parseSitemap(await response.text())
+            queue.push(...parsed.sitemaps)
+            urls.push(...parsed.urls)
+        } catch (error) {
+            console.log(`Could not fetch sitemap ${sitemapUrl}:`, error)
+        }
+    }
+
+    return urls.slice(0, MAX_SITEMAP_URLS)
+}
+
+async function loadSettings(supabase: SupabaseClient, spaceId: string): Promise<{ rootUrl: string | null; settings: CrawlSettings }> {
+    const { data } = await supabase
+        .from('crawl_settings')
+        .select('*')
+        .eq('space_id', spaceId)
+        .maybeSingle()
+
+    return { rootUrl: data?.root_url || null, settings: normaliseCrawlSettings(data) }
+}
+
 Deno.serve(async (req) => {
     if (req.method === 'OPTIONS') {
         return new Response('ok', { headers: corsHeaders })
     }
 
     try {
-        const { url, space_id } = await req.json()
+        const { url, space_id, settings: requestedSettings } = await req.json()
 
-        if (!url || !space_id) {
+        if (!space_id) {
             return new Response(
-                JSON.stringify({ error: 'url and space_id are required' }),
+                JSON.stringify({ error: 'space_id is required' }),
                 { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
             )
         }
@@ -36,208 +149,343 @@ Deno.serve(async (req) => {
         const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
         const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-        // Normalize URL
-        let normalizedUrl = url.trim()
-        if (!normalizedUrl.startsWith('http')) {
-            normalizedUrl = 'https://' + normalizedUrl
+        // A recrawl can leave out the URL and settings; the saved ones are used
+        const saved = await loadSettings(supabase, space_id)
+        const rootInput = url || saved.rootUrl
+        if (!rootInput) {
+            return new Response(
+                JSON.stringify({ error: 'url is required for the first crawl' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
         }
-        normalizedUrl = normalizedUrl.replace(/\/$/, '') // Remove trailing slash
 
-        const urlObj = new URL(normalizedUrl)
+        const rootUrl = normaliseRootUrl(rootInput)
+        const urlObj = new URL(rootUrl)
         const canonicalDomain = urlObj.hostname.replace(/^www\./, '')
+        const settings = normaliseCrawlSettings({ ...saved.settings, ...(requestedSettings || {}) })
 
-        // Create a discovery session ID
-        const sessionId = crypto.randomUUID()
+        await supabase.from('crawl_settings').upsert({
+            space_id,
+            root_url: rootUrl,
+            ...settings,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'space_id' })
 
-        // Clear old website source documents for this space before new crawl
-        await supabase
-            .from('source_documents')
-            .delete()
-            .eq('space_id', space_id)
-            .eq('source_type', 'website')
-
-        // Pages to try to crawl
-        const pagePaths = [
-            { path: '/', type: 'home' },
-            { path: '/about', type: 'about' },
-            { path: '/about-us', type: 'about' },
-            { path: '/services', type: 'services' },
-            { path: '/our-services', type: 'services' },
-            { path: '/what-we-do', type: 'services' },
-            { path: '/work', type: 'work' },
-            { path: '/case-studies', type: 'work' },
-            { path: '/portfolio', type: 'work' },
-            { path: '/contact', type: 'contact' },
-            { path: '/contact-us', type: 'contact' },
-        ]
-
-        const pagesFound: DiscoveryResult['pages_found'] = []
-        let detectedName: string | null = null
-        let detectedLinkedIn: string | null = null
-        const seenPaths = new Set<string>()
-        const discoveredLinks: string[] = []
-        const MAX_PAGES = 30 // Limit total pages to avoid timeout
-
-        // Helper function to crawl a single page
-        const crawlPage = async (pageUrl: string, pageType: string): Promise<string[]> => {
-            const links: string[] = []
-            
-            try {
-                const response = await fetch(pageUrl, {
-                    headers: { 'User-Agent': 'SocialExpress/1.0 (Brand Discovery)' },
-                    redirect: 'follow',
-                })
+        const usageUser = await resolveUsageUser(supabase, req)
+
+        const { data: crawl, error: crawlError } = await supabase
+            .from('website_crawls')
+            .insert({
+                space_id,
+                root_url: rootUrl,
+                settings,
+                status: 'running',
+                created_by: usageUser?.id || null,
+            })
+            .select('id')
+            .single()
+
+        if (crawlError) throw crawlError
+
+        try {
+            const result = await runCrawl(supabase, space_id, crawl.id, rootUrl, settings)
+
+            const linkedinConfidence = result.detectedLinkedIn
+                ? linkedInConfidence(result.detectedName, result.detectedLinkedIn)
+                : null
+
+            // A recrawl of a finished brand leaves it finished; the new pages
+            // are confirmed the next time the profile is generated
+            const { data: cache } = await supabase
+                .from('brand_context_cache')
+                .select('setup_status')
+                .eq('space_id', space_id)
+                .maybeSingle()
+
+            // Update brand_context_cache with discovery results
+            await supabase.from('brand_context_cache').upsert({
+                space_id,
+                setup_status: cache?.setup_status === 'ready' ? 'ready' : 'website_pending',
+                detected_name: result.detectedName,
+                detected_linkedin: result.detectedLinkedIn,
+                linkedin_confidence: linkedinConfidence,
+                compiled_from: { discovery_session_id: crawl.id, discovered_at: new Date().toISOString() },
+                updated_at: new Date().toISOString(),
+            }, { onConflict: 'space_id' })
+
+            const discovery: DiscoveryResult = {
+                detected_name: result.detectedName,
+                detected_linkedin: result.detectedLinkedIn,
+                linkedin_confidence: linkedinConfidence,
+                canonical_domain: canonicalDomain,
+                pages_found: result.pagesFound,
+            }
+
+            return new Response(
+                JSON.stringify({ success: true, discovery, session_id: crawl.id, crawl: { id: crawl.id, ...result.summary } }),
+                { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        } catch (error) {
+            await supabase
+                .from('website_crawls')
+                .update({ status: 'failed', error: String(error), completed_at: new Date().toISOString() })
+                .eq('id', crawl.id)
+            throw error
+        }
+
+    } catch (error) {
+        console.error('Error in crawl-website:', error)
+        return new Response(
+            JSON.stringify({ error: 'Failed to crawl website', details: String(error) }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+    }
+})
+
+function linkedInConfidence(detectedName: string | null, detectedLinkedIn: string): 'high' | 'medium' {
+    // Check if company name appears in LinkedIn URL
+    const nameSlug = detectedName?.toLowerCase().replace(/[^a-z0-9]/g, '') || ''
+    return nameSlug && detectedLinkedIn.toLowerCase().includes(nameSlug) ? 'high' : 'medium'
+}
+
+async function runCrawl(
+    supabase: SupabaseClient,
+    spaceId: string,
+    crawlId: string,
+    rootUrl: string,
+    settings: CrawlSettings,
+) {
+    const startedAt = Date.now()
+    const origin = new URL(rootUrl).origin
+    const homeUrl = normalisePageUrl(`${origin}/`)!
+
+    // Pages from earlier crawls, by normalised URL. Older crawls stored some
+    // URLs with a trailing slash, so duplicates of one page are removed.
+    const { data: storedRows, error: storedError } = await supabase
+        .from('source_documents')
+        .select('id, url, title, content, content_hash, metadata, is_confirmed')
+        .eq('space_id', spaceId)
+        .eq('source_type', 'website')
+
+    if (storedError) throw storedError
+
+    const stored = new Map<string, StoredPage>()
+    const removedIds: string[] = []
+    const changes: CrawlChanges = { added: [], changed: [], removed: [] }
+
+    for (const row of (storedRows || []) as StoredPage[]) {
+        const key = row.url ? normalisePageUrl(row.url) : null
+        if (!key || stored.has(key)) {
+            removedIds.push(row.id)
+            continue
+        }
+        stored.set(key, row)
+    }
+
+    const { robots, found: robotsFound } = await fetchRobots(origin)
+    const delay = crawlDelayMs(robots)
+    const allowed = (pageUrl: string) => {
+        const parsed = new URL(pageUrl)
+        return isAllowedByRobots(robots, `${parsed.pathname}${parsed.search}`)
+    }
+    const inScope = (pageUrl: string) => isSameSite(pageUrl, rootUrl) && isInCrawlScope(pageUrl, settings)
+
+    const sitemapUrls = settings.use_sitemap ? await fetchSitemapUrls(origin, robots) : []
+
+    // Seeds: the home page, pages from the sitemap, then pages already stored
+    // so they are checked for changes even when nothing links to them any more
+    const queue: { url: string; depth: number }[] = []
+    const queued = new Set<string>()
+    const enqueue = (pageUrl: string | null, depth: number) => {
+        if (!pageUrl || queued.has(pageUrl) || !inScope(pageUrl)) return
+        queued.add(pageUrl)
+        queue.push({ url: pageUrl, depth })
+    }
+
+    enqueue(homeUrl, 0)
+    sitemapUrls.forEach(u => enqueue(normalisePageUrl(u), 0))
+    stored.forEach((_page, key) => enqueue(key, 0))
+
+    const visited = new Set<string>()
+    const gone = new Set<string>()
+    const pageTypes = new Map<string, string>()
+    let detectedName: string | null = null
+    let detectedLinkedIn: string | null = null
+    let pagesCrawled = 0
+    let pagesUnchanged = 0
+    let pagesBlocked = 0
+
+    for (let i = 0; i < queue.length; i++) {
+        if (pagesCrawled >= settings.max_pages) break
+        if (Date.now() - startedAt > CRAWL_TIME_BUDGET_MS) {
+            console.log(`Crawl ${crawlId} stopped at the time budget after ${pagesCrawled} pages`)
+            break
+        }
 
-                if (!response.ok) return links
-
-                const html = await response.text()
-
-                // Check for redirects/canonicals to avoid duplicates
-                const finalUrl = response.url
-                const finalPath = new URL(finalUrl).pathname
-                if (seenPaths.has(finalPath)) return links
-                seenPaths.add(finalPath)
-
-                // Extract title
-                const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i)
-                const title = titleMatch?.[1]?.trim() || pageType
-
-                // For homepage, extract business name and LinkedIn
-                if (pageType === 'home') {
-                    if (titleMatch) {
-                        const titleText = titleMatch[1]
-                        const nameParts = titleText.split(/[|–—-]/)
-                        if (nameParts.length > 0) {
-                            detectedName = nameParts[0].trim()
-                        }
-                    }
-
-                    const ogSiteMatch = html.match(/<meta[^>]*property="og:site_name"[^>]*content="([^"]+)"/i)
-                    if (ogSiteMatch) {
-                        detectedName = ogSiteMatch[1].trim()
-                    }
-
-                    const linkedInMatch = html.match(/href="(https?:\/\/(?:www\.)?linkedin\.com\/company\/[^"]+)"/i)
-                    if (linkedInMatch) {
-                        detectedLinkedIn = linkedInMatch[1]
-                    }
-                }
-
-                // Extract internal links for deeper crawling
-                const linkRegex = /href="([^"]+)"/gi
-                let match
-                while ((match = linkRegex.exec(html)) !== null) {
-                    const href = match[1]
-                    // Only same-domain links, exclude anchors, files, and external
-                    if (href.startsWith('/') && !href.includes('#') && !href.match(/\.(pdf|jpg|png|gif|svg|css|js)$/i)) {
-                        const fullUrl = `${urlObj.origin}${href}`
-                        if (!seenPaths.has(href) && !discoveredLinks.includes(fullUrl)) {
-                            links.push(fullUrl)
-                        }
-                    }
-                }
-
-                // Extract text content
-                const textContent = html
-                    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-                    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-                    .replace(/<[^>]+>/g, ' ')
-                    .replace(/\s+/g, ' ')
-                    .trim()
-                    .slice(0, 5000)
-
-                // Store as source document
-                await supabase.from('source_documents').insert({
-                    space_id,
+        const { url: pageUrl, depth } = queue[i]
+        if (visited.has(pageUrl)) continue
+        visited.add(pageUrl)
+
+        if (!allowed(pageUrl)) {
+            pagesBlocked++
+            continue
+        }
+
+        if (delay > 0 && pagesCrawled > 0) {
+            await new Promise(resolve => setTimeout(resolve, delay))
+        }
+
+        const fetched = await fetchPage(pageUrl)
+        pagesCrawled++
+        if (fetched === 'gone') {
+            gone.add(pageUrl)
+            continue
+        }
+        if (!fetched) continue
+
+        const { html } = fetched
+        // A redirect stores the page under where it ended up
+        const finalUrl = fetched.url
+        if (finalUrl !== pageUrl) {
+            gone.add(pageUrl)
+            if (visited.has(finalUrl) || !inScope(finalUrl) || !allowed(finalUrl)) continue
+            visited.add(finalUrl)
+        }
+
+        if (isNoIndex(html)) {
+            gone.add(finalUrl)
+            continue
+        }
+
+        const page = extractPage(html, finalUrl)
+        const path = new URL(finalUrl).pathname
+        const pageType = pageTypeFromPath(path)
+        const title = page.title || pageType
+        pageTypes.set(finalUrl, pageType)
+
+        // For homepage, extract business name and LinkedIn
+        // The site's own organisation data wins over og:site_name and the title
+        if (pageType === 'home') {
+            const { organization, og } = page.structured
+            detectedName = organization?.name || og.site_name || page.title
+            const linkedInMatch = html.match(/href="(https?:\/\/(?:www\.)?linkedin\.com\/company\/[^"]+)"/i)
+            detectedLinkedIn = organization?.same_as.find(u => /linkedin\.com\/company\//i.test(u))
+                || linkedInMatch?.[1]
+                || null
+        }
+
+        if (depth < settings.max_depth) {
+            page.links.forEach(link => enqueue(link, depth + 1))
+        }
+
+        if (!page.text) continue
+        const contentHash = await sha256(page.text)
+        const now = new Date().toISOString()
+        const existing = stored.get(finalUrl)
+
+        if (!existing) {
+            const { data: inserted, error: insertError } = await supabase
+                .from('source_documents')
+                .insert({
+                    space_id: spaceId,
                     source_type: 'website',
                     url: finalUrl,
-                    title: title.replace(/\s*[|–—-].*$/, ''),
-                    content: textContent,
-                    metadata: { page_type: pageType, discovered_at: new Date().toISOString() },
+                    title,
+                    content: page.text,
+                    content_hash: contentHash,
+                    structured: page.structured,
+                    metadata: { page_type: pageType, discovered_at: now },
                     is_confirmed: false,
-                    discovery_session_id: sessionId,
+                    discovery_session_id: crawlId,
+                    last_scanned: now,
                 })
+                .select('id, url, title, content, content_hash, metadata, is_confirmed')
+                .single()
 
-                pagesFound.push({
-                    url: finalUrl,
-                    title: title.replace(/\s*[|–—-].*$/, ''),
-                    type: pageType,
-                    selected: true,
-                })
+            if (insertError) throw insertError
+            stored.set(finalUrl, inserted as StoredPage)
+            changes.added.push(finalUrl)
+            continue
+        }
 
-            } catch (pageError) {
-                console.log(`Could not fetch ${pageUrl}:`, pageError)
-            }
-            
-            return links
-        }
-
-        // First pass: crawl initial pages and collect links
-        for (const page of pagePaths) {
-            if (pagesFound.length >= MAX_PAGES) break
-            const pageUrl = `${urlObj.origin}${page.path}`
-            const links = await crawlPage(pageUrl, page.type)
-            discoveredLinks.push(...links.slice(0, 20)) // Limit links per page
-        }
-
-        // Second pass: crawl discovered links (subpages like case studies)
-        for (const link of discoveredLinks) {
-            if (pagesFound.length >= MAX_PAGES) break
-            const path = new URL(link).pathname
-            if (seenPaths.has(path)) continue
-            
-            // Determine page type from URL
-            let pageType = 'page'
-            if (path.includes('/work/') || path.includes('/case-stud')) pageType = 'case-study'
-            else if (path.includes('/blog/') || path.includes('/post/')) pageType = 'blog'
-            else if (path.includes('/service')) pageType = 'service'
-            
-            await crawlPage(link, pageType)
-        }
-
-
-        // Determine LinkedIn confidence
-        let linkedinConfidence: 'high' | 'medium' | 'low' | null = null
-        if (detectedLinkedIn) {
-            // Check if company name appears in LinkedIn URL
-            const nameSlug = detectedName?.toLowerCase().replace(/[^a-z0-9]/g, '') || ''
-            const linkedInSlug = detectedLinkedIn.toLowerCase()
-            if (nameSlug && linkedInSlug.includes(nameSlug)) {
-                linkedinConfidence = 'high'
-            } else {
-                linkedinConfidence = 'medium'
-            }
+        // Pages stored before hashing are compared by their text
+        const unchanged = existing.content_hash
+            ? existing.content_hash === contentHash
+            : existing.content === page.text
+
+        if (unchanged) {
+            await supabase
+                .from('source_documents')
+                .update({ content_hash: contentHash, structured: page.structured, last_scanned: now })
+                .eq('id', existing.id)
+            pagesUnchanged++
+            continue
         }
 
-        // Update brand_context_cache with discovery results
-        await supabase.from('brand_context_cache').upsert({
-            space_id,
-            setup_status: 'website_pending',
-            detected_name: detectedName,
-            detected_linkedin: detectedLinkedIn,
-            linkedin_confidence: linkedinConfidence,
-            compiled_from: { discovery_session_id: sessionId, discovered_at: new Date().toISOString() },
-            updated_at: new Date().toISOString(),
-        }, { onConflict: 'space_id' })
+        // indexed_at is cleared so the page's chunks are rebuilt at the next indexing
+        const { error: updateError } = await supabase
+            .from('source_documents')
+            .update({
+                title,
+                content: page.text,
+                content_hash: contentHash,
+                structured: page.structured,
+                metadata: { ...(existing.metadata || {}), page_type: pageType, changed_at: now },
+                last_scanned: now,
+                indexed_at: null,
+                index_attempts: 0,
+            })
+            .eq('id', existing.id)
+
+        if (updateError) throw updateError
+        changes.changed.push(finalUrl)
+    }
 
-        const result: DiscoveryResult = {
-            detected_name: detectedName,
-            detected_linkedin: detectedLinkedIn,
-            linkedin_confidence: linkedinConfidence,
-            canonical_domain: canonicalDomain,
-            pages_found: pagesFound,
+    // Stored pages that are gone, now disallowed or outside the crawl settings
+    for (const [key, page] of stored) {
+        if (gone.has(key) || !inScope(key) || !allowed(key)) {
+            removedIds.push(page.id)
+            changes.removed.push(key)
+            stored.delete(key)
         }
+    }
 
-        return new Response(
-            JSON.stringify({ success: true, discovery: result, session_id: sessionId }),
-            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+    if (removedIds.length > 0) {
+        // source_chunks go with their documents
+        const { error: deleteError } = await supabase
+            .from('source_documents')
+            .delete()
+            .in('id', removedIds)
 
-    } catch (error) {
-        console.error('Error in crawl-website:', error)
-        return new Response(
-            JSON.stringify({ error: 'Failed to crawl website', details: String(error) }),
-            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        if (deleteError) throw deleteError
     }
-})
+
+    const added = new Set(changes.added)
+    const pagesFound: DiscoveryResult['pages_found'] = [...stored.entries()].map(([key, page]) => ({
+        url: page.url || key,
+        title: page.title || 'page',
+        type: pageTypes.get(key) || (page.metadata?.page_type as string) || pageTypeFromPath(new URL(key).pathname),
+        selected: added.has(key) || !!page.is_confirmed,
+    }))
+
+    const summary = {
+        robots_found: robotsFound,
+        sitemap_urls: sitemapUrls.length,
+        pages_crawled: pagesCrawled,
+        pages_added: changes.added.length,
+        pages_changed: changes.changed.length,
+        pages_unchanged: pagesUnchanged,
+        pages_removed: changes.removed.length,
+        pages_blocked: pagesBlocked,
+        changes,
+    }
+
+    await supabase
+        .from('website_crawls')
+        .update({ ...summary, status: 'completed', completed_at: new Date().toISOString() })
+        .eq('id', crawlId)
+
+    console.log(`Crawled ${pagesCrawled} pages for space ${spaceId}: ${changes.added.length} added, ${changes.changed.length} changed, ${changes.removed.length} removed`)
+
+    return { detectedName, detectedLinkedIn, pagesFound, summary }
+}
@@ -0,0 +1,243 @@
+// Draft Feed Post - Write a Hot Topics reaction post from a news feed item
+// The post reacts to the item's title and summary in the brand's voice and
+// house style. It is filed under the hot_topics layer (event or news_reaction
+// from _shared/feeds.ts), gets a first revision and a duplicate check like
+// campaign posts, and the feed item is marked drafted with a link to it.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { createTextLLM, type LLMClient } from '../_shared/llm.ts'
+import { applyStyleRules, buildStyleInstructions, normaliseStyleRules } from '../_shared/style-rules.ts'
+import { buildRevision } from '../_shared/revisions.ts'
+import { getBudgetStatus, resolveUsageUser, trackUsage } from '../_shared/usage-ledger.ts'
+import type { ClassificationMeta } from '../_shared/classification.ts'
+import { checkPostDuplicates, loadSpaceSignatures } from '../_shared/duplicates.ts'
+import { buildReactionPrompt, suggestFeedCategory } from '../_shared/feeds.ts'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const { feed_item_id } = await req.json()
+
+        if (!feed_item_id) {
+            return new Response(
+                JSON.stringify({ error: 'feed_item_id is required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+        const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+        const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+        const { data: item, error: itemError } = await supabase
+            .from('feed_items')
+            .select('id, space_id, feed_id, title, link, summary, published_at, post_id, feed:feeds(title, url, created_by)')
+            .eq('id', feed_item_id)
+            .single()
+
+        if (itemError || !item) {
+            return new Response(
+                JSON.stringify({ error: 'Feed item not found' }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const budget = await getBudgetStatus(supabase, item.space_id)
+        if (budget.blocked) {
+            return new Response(
+                JSON.stringify({ error: budget.message }),
+                { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const feed = Array.isArray(item.feed) ? item.feed[0] : item.feed
+        const user = await resolveUsageUser(supabase, req, feed?.created_by)
+
+        if (!user) {
+            return new Response(
+                JSON.stringify({ error: 'A signed-in user is required to draft a post' }),
+                { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const { data: aiSettings } = await supabase
+            .from('ai_settings')
+            .select('text_provider, text_model')
+            .eq('space_id', item.space_id)
+            .maybeSingle()
+
+        let llm: LLMClient
+        try {
+            llm = trackUsage(createTextLLM(aiSettings), supabase, {
+                spaceId: item.space_id,
+                feature: 'post_generation',
+                userId: user.id,
+                userEmail: user.email,
+            })
+        } catch (err) {
+            return new Response(
+                JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const { data: brandProfile } = await supabase
+            .from('brand_profile')
+            .select('who_we_are, what_we_do, who_we_serve, tone_notes, services')
+            .eq('space_id', item.space_id)
+            .maybeSingle()
+
+        const { data: contextCache } = await supabase
+            .from('brand_context_cache')
+            .select('detected_name')
+            .eq('space_id', item.space_id)
+            .maybeSingle()
+
+        const { data: styleRow } = await supabase
+            .from('style_rules')
+            .select('rules')
+            .eq('space_id', item.space_id)
+            .maybeSingle()
+
+        const brandName = contextCache?.detected_name || null
+        const styleRules = normaliseStyleRules(styleRow?.rules)
+        const brandContext = [
+            brandProfile?.who_we_are ? `Who we are: ${brandProfile.who_we_are}` : '',
+            brandProfile?.what_we_do ? `What we do: ${brandProfile.what_we_do}` : '',
+            brandProfile?.who_we_serve ? `Who we serve: ${brandProfile.who_we_serve}` : '',
+            brandProfile?.services?.length ? `Services: ${brandProfile.services.join(', ')}` : '',
+            brandProfile?.tone_notes ? `Tone: ${brandProfile.tone_notes}` : '',
+        ].filter(Boolean).join('\n')
+
+        const systemPrompt = `You are an experienced LinkedIn writer${brandName ? ` for ${brandName}` : ''}, writing a timely reaction to industry news.
+
+CRITICAL GROUNDING RULES:
+1. Facts about the news must come from the news item provided
+2. Claims about the brand must come from the brand context provided
+3. Never make up statistics, quotes, or details not in either
+4. It's better to be general than to fabricate specifics
+
+FORMAT REQUIREMENTS:
+- Target length: 150-200 words
+- End with a question or a clear takeaway for the reader
+
+HOUSE STYLE:
+${buildStyleInstructions(styleRules, {}).map(line => `- ${line}`).join('\n')}
+
+${brandContext ? `BRAND CONTEXT:\n${brandContext}` : 'Note: No brand context provided, keep the perspective general and avoid specific claims.'}`
+
+        const completion = await llm.complete({
+            system: systemPrompt,
+            prompt: buildReactionPrompt(item, feed?.title || null),
+            temperature: 0.7,
+            maxTokens: 500,
+        })
+
+        if (!completion.text) {
+            throw new Error('Model returned an empty post')
+        }
+
+        const styled = applyStyleRules(completion.text, styleRules, {})
+        const classificationMeta: ClassificationMeta = { source: 'feed' }
+
+        const { data: post, error: postError } = await supabase
+            .from('posts')
+            .insert({
+                space_id: item.space_id,
+                title: item.title,
+                topic: item.title,
+                body: styled.text,
+                status: 'draft',
+                author_id: user.id,
+                content_layer: 'hot_topics',
+                content_category: suggestFeedCategory(item),
+                classification_status: 'auto',
+                classification_meta: classificationMeta,
+                classified_at: new Date().toISOString(),
+                generation_meta: {
+                    provider: completion.provider,
+                    model: completion.model,
+                    tokens: completion.usage.totalTokens,
+                    input_tokens: completion.usage.inputTokens,
+                    output_tokens: completion.usage.outputTokens,
+                    generated_at: new Date().toISOString(),
+                    feed_item: {
+                        id: item.id,
+                        url: item.link,
+                        feed_title: feed?.title || feed?.url || null,
+                    },
+                    style: {
+                        changes: styled.changes,
+                        issues: styled.issues,
+                    },
+                },
+                image_status: 'none',
+                overlay_status: 'none',
+            })
+            .select('id, created_at')
+            .single()
+
+        if (postError || !post) throw postError || new Error('Failed to create post')
+
+        const { error: revisionError } = await supabase
+            .from('post_revisions')
+            .insert(buildRevision({
+                postId: post.id,
+                spaceId: item.space_id,
+                title: item.title,
+                body: styled.text,
+                source: 'ai_generation',
+                authorId: user.id,
+                authorEmail: user.email,
+            }))
+
+        if (revisionError) {
+            console.error('Error recording post revision:', revisionError)
+        }
+
+        try {
+            const spacePosts = await loadSpaceSignatures(supabase, item.space_id)
+            await checkPostDuplicates(supabase, {
+                id: post.id,
+                space_id: item.space_id,
+                created_at: post.created_at,
+                status: 'draft',
+                body: styled.text,
+            }, spacePosts)
+        } catch (duplicateError) {
+            console.error('Error recording duplicates:', duplicateError)
+        }
+
+        const { error: updateError } = await supabase
+            .from('feed_items')
+            .update({ status: 'drafted', post_id: post.id, updated_at: new Date().toISOString() })
+            .eq('id', item.id)
+
+        if (updateError) {
+            console.error('Error marking feed item drafted:', updateError)
+        }
+
+        console.log(`Drafted post ${post.id} from feed item ${item.id}`)
+
+        return new Response(
+            JSON.stringify({ success: true, post_id: post.id }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+
+    } catch (error) {
+        console.error('Error in draft-feed-post:', error)
+        return new Response(
+            JSON.stringify({ error: 'Failed to draft post', details: String(error) }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+    }
+})
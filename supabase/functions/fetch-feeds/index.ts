@@ -0,0 +1,172 @@
+// Fetch Feeds - Download a space's RSS/Atom feeds and store new items
+// Each enabled feed (or the one asked for) is fetched with its stored
+// ETag/Last-Modified, parsed by _shared/feeds.ts and scored against the brand
+// profile's services and audience. Items already stored are left alone, so
+// their status and links to ideas/posts survive re-fetching. No AI is used.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { buildRelevanceProfile, parseFeed, scoreFeedItem, type RelevanceProfile } from '../_shared/feeds.ts'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Give up on a feed that has not answered in this long
+const FETCH_TIMEOUT_MS = 15000
+
+interface Feed {
+    id: string
+    space_id: string
+    url: string
+    title: string | null
+    etag: string | null
+    last_modified: string | null
+}
+
+interface FeedResult {
+    feed_id: string
+    status: 'ok' | 'not_modified' | 'error'
+    new_items: number
+    error?: string
+}
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const { space_id, feed_id } = await req.json()
+
+        if (!space_id) {
+            return new Response(
+                JSON.stringify({ error: 'space_id is required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+        const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+        const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+        let query = supabase
+            .from('feeds')
+            .select('id, space_id, url, title, etag, last_modified')
+            .eq('space_id', space_id)
+        query = feed_id ? query.eq('id', feed_id) : query.eq('enabled', true)
+
+        const { data: feeds, error: feedsError } = await query
+        if (feedsError) throw feedsError
+
+        const { data: brandProfile } = await supabase
+            .from('brand_profile')
+            .select('services, who_we_serve')
+            .eq('space_id', space_id)
+            .maybeSingle()
+
+        const profile = buildRelevanceProfile(brandProfile)
+
+        const results: FeedResult[] = []
+        for (const feed of (feeds || []) as Feed[]) {
+            results.push(await fetchFeed(supabase, feed, profile))
+        }
+
+        console.log(`Fetched ${results.length} feeds for space ${space_id}: ${results.reduce((sum, r) => sum + r.new_items, 0)} new items`)
+
+        return new Response(
+            JSON.stringify({
+                success: true,
+                results,
+                new_items: results.reduce((sum, r) => sum + r.new_items, 0),
+                failed: results.filter(r => r.status === 'error').length,
+            }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+
+    } catch (error) {
+        console.error('Error in fetch-feeds:', error)
+        return new Response(
+            JSON.stringify({ error: 'Failed to fetch feeds', details: String(error) }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+    }
+})
+
+// Fetches, parses and stores one feed, recording the outcome on the feed row
+async function fetchFeed(supabase: SupabaseClient, feed: Feed, profile: RelevanceProfile): Promise<FeedResult> {
+    const fetchedAt = new Date().toISOString()
+
+    try {
+        const response = await fetch(feed.url, {
+            headers: {
+                'User-Agent': 'SocialExpress/1.0 (Feed Reader)',
+                'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml;q=0.9, */*;q=0.8',
+                ...(feed.etag ? { 'If-None-Match': feed.etag } : {}),
+                ...(feed.last_modified ? { 'If-Modified-Since': feed.last_modified } : {}),
+            },
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        })
+
+        if (response.status === 304) {
+            await supabase
+                .from('feeds')
+                .update({ last_fetched_at: fetchedAt, last_status: 'ok', last_error: null, updated_at: fetchedAt })
+                .eq('id', feed.id)
+            return { feed_id: feed.id, status: 'not_modified', new_items: 0 }
+        }
+
+        if (!response.ok) {
+            throw new Error(`Feed returned ${response.status}`)
+        }
+
+        const parsed = parseFeed(await response.text(), feed.url)
+
+        let newItems = 0
+        if (parsed.items.length > 0) {
+            const { data: inserted, error: insertError } = await supabase
+                .from('feed_items')
+                .upsert(parsed.items.map(item => {
+                    const relevance = scoreFeedItem(item, profile)
+                    return {
+                        ...item,
+                        space_id: feed.space_id,
+                        feed_id: feed.id,
+                        relevance: relevance.score,
+                        matched_terms: relevance.matched_terms,
+                    }
+                }), { onConflict: 'feed_id,guid', ignoreDuplicates: true })
+                .select('id')
+
+            if (insertError) throw insertError
+            newItems = inserted?.length || 0
+        }
+
+        await supabase
+            .from('feeds')
+            .update({
+                title: feed.title || parsed.title,
+                site_url: parsed.site_url,
+                etag: response.headers.get('etag'),
+                last_modified: response.headers.get('last-modified'),
+                last_fetched_at: fetchedAt,
+                last_status: 'ok',
+                last_error: null,
+                updated_at: fetchedAt,
+            })
+            .eq('id', feed.id)
+
+        return { feed_id: feed.id, status: 'ok', new_items: newItems }
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err)
+        console.error(`Error fetching feed ${feed.url}:`, message)
+
+        await supabase
+            .from('feeds')
+            .update({ last_fetched_at: fetchedAt, last_status: 'error', last_error: message, updated_at: fetchedAt })
+            .eq('id', feed.id)
+
+        return { feed_id: feed.id, status: 'error', new_items: 0, error: message }
+    }
+}
@@ -1,8 +1,16 @@
 // Generate Brand Profile - Create draft profile from confirmed website content
-// For Brand Studio wizard step 2
+// For Brand Studio wizard step 2. Each generation is recorded in
+// brand_profile_versions. It replaces the profile only while nobody has edited
+// it; a hand-edited profile is left alone and the generation is returned as a
+// suggestion to merge field by field.
 
 import "jsr:@supabase/functions-js/edge-runtime.d.ts"
 import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { createTextLLM, type LLMClient } from '../_shared/llm.ts'
+import { getBudgetStatus, resolveUsageUser, trackUsage } from '../_shared/usage-ledger.ts'
+import { indexPendingDocuments } from '../_shared/retrieval.ts'
+import { formatStructuredData, type PageStructuredData } from '../_shared/html-extract.ts'
+import { buildProfileVersion, profileSnapshot } from '../_shared/brand-profile-versions.ts'
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -32,16 +40,39 @@ Deno.serve(async (req) => {
 
         const supabaseUrl = Deno.env.get('SUPABASE_URL')!
         const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-        const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
+        const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-        if (!openaiApiKey) {
+        const budget = await getBudgetStatus(supabase, space_id)
+        if (budget.blocked) {
             return new Response(
-                JSON.stringify({ error: 'OPENAI_API_KEY not configured' }),
-                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                JSON.stringify({ error: budget.message }),
+                { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
             )
         }
 
-        const supabase = createClient(supabaseUrl, supabaseServiceKey)
+        // Load AI settings for this space
+        const { data: aiSettings } = await supabase
+            .from('ai_settings')
+            .select('text_provider, text_model')
+            .eq('space_id', space_id)
+            .maybeSingle()
+
+        const user = await resolveUsageUser(supabase, req)
+
+        let llm: LLMClient
+        try {
+            llm = trackUsage(createTextLLM(aiSettings), supabase, {
+                spaceId: space_id,
+                feature: 'brand_profile',
+                userId: user?.id,
+                userEmail: user?.email,
+            })
+        } catch (err) {
+            return new Response(
+                JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
 
         console.log('Starting generate-brand-profile for space:', space_id)
         console.log('Selected URLs:', selected_urls)
@@ -94,7 +125,7 @@ Deno.serve(async (req) => {
         console.log('Fetching confirmed source documents...')
         const { data: docs, error: docsError } = await supabase
             .from('source_documents')
-            .select('title, content, metadata')
+            .select('title, content, metadata, structured')
             .eq('space_id', space_id)
             .eq('is_confirmed', true)
             .eq('source_type', 'website')
@@ -114,11 +145,19 @@ Deno.serve(async (req) => {
             )
         }
 
-        // Compile content for analysis
-        const pageContents = docs.map(doc => 
-            `### ${doc.title || 'Page'}\n${doc.content?.slice(0, 2000) || ''}`
+        // Compile content for analysis. Pages are Markdown, so their own headings
+        // sit below the page title; hashtags at the start of a line are left alone.
+        const pageContents = docs.map(doc =>
+            `### ${doc.title || 'Page'}\n${doc.content?.slice(0, 3000).replace(/^(#{1,3}) /gm, '###$1 ') || ''}`
         ).join('\n\n')
 
+        // What the site declares about itself, from its meta tags and JSON-LD
+        const structured = docs.map(doc => (doc.structured || {}) as Partial<PageStructuredData>)
+        const siteMetadata = formatStructuredData(
+            structured.find(s => s.organization)?.organization || null,
+            docs.map((doc, i) => ({ title: doc.title, description: structured[i].description || null })),
+        )
+
         console.log('Page contents compiled, length:', pageContents.length)
 
         // Get detected business name
@@ -139,7 +178,7 @@ If information for a section is not available, say "Not specified in content."`
 
         const userPrompt = `Analyze the following website content for "${businessName}" and extract a brand profile.
 
-WEBSITE CONTENT:
+${siteMetadata ? `${siteMetadata}\n` : ''}WEBSITE CONTENT:
 ${pageContents}
 
 ---
@@ -156,57 +195,65 @@ Generate a JSON response with exactly this structure:
 
 Only include information that can be grounded in the content. Keep each section brief.`
 
-        const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${openaiApiKey}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                model: 'gpt-4o-mini',
-                messages: [
-                    { role: 'system', content: systemPrompt },
-                    { role: 'user', content: userPrompt },
-                ],
+        let profile
+        try {
+            const result = await llm.completeJSON<Record<string, unknown>>({
+                system: systemPrompt,
+                prompt: userPrompt,
                 temperature: 0.3,
-                max_tokens: 800,
-                response_format: { type: 'json_object' },
-            }),
-        })
-
-        if (!openaiResponse.ok) {
-            const errorText = await openaiResponse.text()
-            console.error('OpenAI API error:', errorText)
+                maxTokens: 800,
+            })
+            profile = result.data
+        } catch (llmError) {
+            console.error('LLM error:', llmError)
             throw new Error('Failed to generate profile')
         }
 
-        const openaiData = await openaiResponse.json()
-        const generatedContent = openaiData.choices?.[0]?.message?.content
+        console.log('Generated profile:', JSON.stringify(profile))
 
-        let profile
-        try {
-            profile = JSON.parse(generatedContent)
-        } catch {
-            console.error('Failed to parse OpenAI response:', generatedContent)
-            throw new Error('Invalid response format from AI')
-        }
+        const generated = profileSnapshot(profile)
+
+        // Every generation is kept, whether or not it replaces the profile
+        const { data: version, error: versionError } = await supabase
+            .from('brand_profile_versions')
+            .insert(buildProfileVersion({
+                spaceId: space_id,
+                profile: generated,
+                source: 'ai_generation',
+                authorId: user?.id,
+                authorEmail: user?.email,
+            }))
+            .select('id')
+            .single()
 
-        console.log('Generated profile:', JSON.stringify(profile))
+        if (versionError) {
+            console.error('Error recording profile version:', versionError)
+            throw versionError
+        }
 
-        // Store the generated profile
-        console.log('Storing profile in database...')
-        const { error: profileError } = await supabase.from('brand_profile').upsert({
-            space_id,
-            who_we_are: profile.who_we_are || null,
-            what_we_do: profile.what_we_do || null,
-            who_we_serve: profile.who_we_serve || null,
-            tone_notes: profile.tone_notes || null,
-            themes: Array.isArray(profile.themes) ? profile.themes : [],
-            services: Array.isArray(profile.services) ? profile.services : [],
-            is_system_generated: true,
-            last_generated_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-        }, { onConflict: 'space_id' })
+        const { data: existing } = await supabase
+            .from('brand_profile')
+            .select('is_system_generated')
+            .eq('space_id', space_id)
+            .maybeSingle()
+
+        // Hand edits are never overwritten
+        const applied = !existing || existing.is_system_generated !== false
+
+        console.log(applied ? 'Storing profile in database...' : 'Profile has been edited; keeping generation as a suggestion')
+        const { error: profileError } = applied
+            ? await supabase.from('brand_profile').upsert({
+                space_id,
+                ...generated,
+                is_system_generated: true,
+                pending_suggestion_id: null,
+                last_generated_at: new Date().toISOString(),
+                updated_at: new Date().toISOString(),
+            }, { onConflict: 'space_id' })
+            : await supabase.from('brand_profile').update({
+                pending_suggestion_id: version.id,
+                last_generated_at: new Date().toISOString(),
+            }).eq('space_id', space_id)
 
         if (profileError) {
             console.error('Error storing profile:', profileError)
@@ -214,6 +261,12 @@ Only include information that can be grounded in the content. Keep each section
         }
         console.log('Profile stored successfully')
 
+        const { data: storedProfile } = await supabase
+            .from('brand_profile')
+            .select('*')
+            .eq('space_id', space_id)
+            .single()
+
         // Update setup status to profile_draft
         console.log('Updating setup status...')
         const { error: statusError } = await supabase.from('brand_context_cache').update({
@@ -226,8 +279,21 @@ Only include information that can be grounded in the content. Keep each section
         }
         console.log('Setup status updated')
 
+        // Chunk and embed the confirmed pages in the background so campaign
+        // generation can retrieve from them
+        EdgeRuntime.waitUntil(
+            indexPendingDocuments(supabase, space_id, { sourceTypes: ['website'], limit: 50 })
+                .then(summary => console.log('Indexed website documents:', JSON.stringify(summary)))
+                .catch(err => console.error('Error indexing website documents:', err))
+        )
+
         return new Response(
-            JSON.stringify({ success: true, profile }),
+            JSON.stringify({
+                success: true,
+                profile: storedProfile,
+                applied,
+                suggestion: applied ? null : { version_id: version.id, profile: generated },
+            }),
             { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         )
 
@@ -1,19 +1,51 @@
 // Generate Campaign Posts - RAG-based content generation
 // This edge function generates posts for a campaign using:
 // 1. Manual profile data
-// 2. Website/SharePoint source chunks
-// 3. OpenAI GPT-4 for generation with grounding rules
+// 2. Website/SharePoint source chunks and uploaded documents, retrieved per topic via _shared/retrieval.ts
+// 3. The space's configured text model (via _shared/llm.ts) with grounding rules
+// 4. The campaign's Prompt Studio template, rendered via _shared/prompt-template.ts
+// 5. The space's house style rules, applied to the output (_shared/style-rules.ts)
+// 6. A claim-level grounding check of each post (_shared/grounding-verify.ts)
+// 7. Optionally several variants per topic, from different angles (_shared/variants.ts)
+// 8. A content layer/category per post, from its idea or the campaign's mix (_shared/content-mix.ts),
+//    classified from the text when the plan leaves it open (_shared/post-classifier.ts)
+// 9. A near-duplicate guard against every post in the space (_shared/duplicates.ts)
+// 10. Topics from the idea bank (_shared/ideas.ts): the ideas passed in, or approved
+//     ideas drawn for the campaign; each post is linked back to its idea
+// 11. The brand's training examples closest to each topic, as few-shot examples
+//     (_shared/training-examples.ts)
 
 import "jsr:@supabase/functions-js/edge-runtime.d.ts"
 import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { DEFAULT_TEXT_TEMPLATE, buildTemplateVariables, getPostLengthWords, renderTemplate } from '../_shared/prompt-template.ts'
+import { createTextLLM, type LLMClient, type LLMUsage } from '../_shared/llm.ts'
+import { embeddingsAvailable } from '../_shared/embeddings.ts'
+import { formatChunksForPrompt, indexPendingDocuments, retrieveChunks, type SourceType } from '../_shared/retrieval.ts'
+import { loadGroundingSources, verifyGrounding } from '../_shared/grounding-verify.ts'
+import type { GroundingReport, SourceUsed } from '../_shared/grounding.ts'
+import { applyStyleRules, buildStyleInstructions, normaliseStyleRules, styleAdjustedSettings, type StyleResult } from '../_shared/style-rules.ts'
+import { VARIANT_ANGLES, clampVariantCount, variantTemperature, type VariantAngle } from '../_shared/variants.ts'
+import { buildRevision } from '../_shared/revisions.ts'
+import { getBudgetStatus, resolveUsageUser, trackUsage, type UsageContext } from '../_shared/usage-ledger.ts'
+import { describeContentSlot, hasContentMix, normaliseContentMix, planContentMix, toContentSlot, type ContentSlot } from '../_shared/content-mix.ts'
+import { classificationColumns, classifyPostBody } from '../_shared/post-classifier.ts'
+import type { ClassificationMeta } from '../_shared/classification.ts'
+import { buildAvoidDuplicateInstruction, findSimilar, minHashSignature, type SimilarityMatch } from '../_shared/similarity.ts'
+import { checkPostDuplicates, loadSpaceSignatures, type SpacePost } from '../_shared/duplicates.ts'
+import { ideaSlot, orderIdeasForDraw, type IdeaSummary } from '../_shared/ideas.ts'
+import { FEW_SHOT_POOL_SIZE, formatFewShotExamples, selectFewShotExamples, type TrainingExample } from '../_shared/training-examples.ts'
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Source chunks retrieved per topic
+const RETRIEVAL_TOP_K = 6
+// Pending documents indexed per request before generating
+const INDEX_BATCH_SIZE = 5
+
 interface GenerationSettings {
-    topics?: string
     example_post?: string
     tone_modifiers?: string
     audience_notes?: string
@@ -25,6 +57,8 @@ interface GenerationSettings {
     include_hashtags?: boolean
     include_cta?: boolean
     include_emojis?: 'none' | 'subtle' | 'frequent'
+    variant_count?: number
+    content_mix?: unknown
 }
 
 interface LockedSourceSettings {
@@ -38,6 +72,31 @@ interface TemplateIds {
     image_template_id?: string
 }
 
+interface IdeaRow extends IdeaSummary {
+    title: string
+}
+
+// A topic to write about, and the bank idea it came from if any
+interface Topic {
+    title: string
+    idea: IdeaRow | null
+}
+
+const IDEA_COLUMNS = 'id, title, campaign_id, status, content_layer, content_category, votes, created_at'
+
+interface GeneratedVariant {
+    index: number
+    angle: VariantAngle | null
+    body: string
+    styled: StyleResult
+    grounding: GroundingReport | null
+    signature: number[]
+    /** Closest existing post at or above the duplicate threshold */
+    duplicate: SimilarityMatch | null
+    temperature: number
+    usage: LLMUsage
+}
+
 interface Campaign {
     id: string
     space_id: string
@@ -56,7 +115,9 @@ Deno.serve(async (req) => {
     }
 
     try {
-        const { campaign_id, count_to_generate, ideas: providedIdeas } = await req.json()
+        // job_id, sequence_start and user_id are set when called per item by job-worker;
+        // idea_ids name bank ideas to write, ideas are plain topic strings
+        const { campaign_id, count_to_generate, idea_ids, ideas: providedIdeas, sequence_start, job_id, user_id } = await req.json()
 
         if (!campaign_id) {
             return new Response(
@@ -68,8 +129,6 @@ Deno.serve(async (req) => {
         // Initialize Supabase client with service role
         const supabaseUrl = Deno.env.get('SUPABASE_URL')!
         const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-        const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
-        const anthropicApiKey = Deno.env.get('ANTHROPIC_API_KEY')
 
         const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
@@ -90,6 +149,14 @@ Deno.serve(async (req) => {
         const typedCampaign = campaign as Campaign
         const targetCount = count_to_generate || typedCampaign.target_count
 
+        const budget = await getBudgetStatus(supabase, typedCampaign.space_id)
+        if (budget.blocked) {
+            return new Response(
+                JSON.stringify({ error: budget.message }),
+                { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
         // Load AI settings for this space
         const { data: aiSettings } = await supabase
             .from('ai_settings')
@@ -97,23 +164,31 @@ Deno.serve(async (req) => {
             .eq('space_id', typedCampaign.space_id)
             .maybeSingle()
 
-        const textProvider = aiSettings?.text_provider || 'openai'
-        const textModel = aiSettings?.text_model || 'gpt-4o-mini'
-        console.log(`Using text provider: ${textProvider}, model: ${textModel}`)
-
-        // Validate API key for chosen provider
-        if (textProvider === 'openai' && !openaiApiKey) {
-            return new Response(
-                JSON.stringify({ error: 'OPENAI_API_KEY not configured' }),
-                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-            )
+        const user = await resolveUsageUser(supabase, req, user_id || typedCampaign.created_by)
+        const usageContext: Omit<UsageContext, 'feature'> = {
+            spaceId: typedCampaign.space_id,
+            userId: user?.id,
+            userEmail: user?.email,
+            campaignId: campaign_id,
+            jobId: job_id,
         }
-        if (textProvider === 'claude' && !anthropicApiKey) {
+
+        // Generation, grounding checks and classification share a model but are reported separately
+        let llm: LLMClient
+        let groundingLLM: LLMClient
+        let classifyLLM: LLMClient
+        try {
+            const textLLM = createTextLLM(aiSettings)
+            llm = trackUsage(textLLM, supabase, { ...usageContext, feature: 'post_generation' })
+            groundingLLM = trackUsage(textLLM, supabase, { ...usageContext, feature: 'grounding_check' })
+            classifyLLM = trackUsage(textLLM, supabase, { ...usageContext, feature: 'post_classification' })
+        } catch (err) {
             return new Response(
-                JSON.stringify({ error: 'ANTHROPIC_API_KEY not configured. Set it in Supabase secrets.' }),
+                JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
                 { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
             )
         }
+        console.log(`Using text provider: ${llm.provider}, model: ${llm.model}`)
 
         // Fetch prompt template
         const textTemplateId = typedCampaign.template_ids?.text_template_id
@@ -133,16 +208,28 @@ Deno.serve(async (req) => {
 
         if (!promptTemplate) {
             // Default template if none selected
-            promptTemplate = `Write a professional LinkedIn post about {topic}.
-The post should be engaging and provide value to the reader.
-Use the brand context provided to ensure consistency.
-Keep it concise (100-200 words) and include a clear call to action.`
+            promptTemplate = DEFAULT_TEXT_TEMPLATE
         }
 
+        // Brand profile and name feed the template variables
+        const { data: brandProfile } = await supabase
+            .from('brand_profile')
+            .select('who_we_are, what_we_do, who_we_serve, tone_notes, services, themes')
+            .eq('space_id', typedCampaign.space_id)
+            .maybeSingle()
+
+        const { data: contextCache } = await supabase
+            .from('brand_context_cache')
+            .select('detected_name')
+            .eq('space_id', typedCampaign.space_id)
+            .maybeSingle()
+
+        const brandName = contextCache?.detected_name || null
+
         // Gather brand context based on source settings
         const sourceSettings = typedCampaign.locked_source_settings || {}
-        let brandContext = ''
-        const sourcesUsed: { type: string; id?: string; name?: string }[] = []
+        let manualContext = ''
+        const manualSources: SourceUsed[] = []
 
         // 1. Manual Profile
         if (sourceSettings.use_manual !== false) {
@@ -152,18 +239,41 @@ Keep it concise (100-200 words) and include a clear call to action.`
                 .eq('space_id', typedCampaign.space_id)
 
             if (profileFields && profileFields.length > 0) {
-                brandContext += '## Brand Information\n'
+                manualContext += '## Brand Information\n'
                 for (const field of profileFields) {
                     if (field.field_value) {
-                        brandContext += `- ${field.field_name.replace(/_/g, ' ')}: ${field.field_value}\n`
+                        manualContext += `- ${field.field_name.replace(/_/g, ' ')}: ${field.field_value}\n`
                     }
                 }
-                brandContext += '\n'
-                sourcesUsed.push({ type: 'manual_profile' })
+                manualContext += '\n'
+                manualSources.push({ type: 'manual_profile' })
             }
         }
 
-        // 2. Website Sources
+        // 2. Website/SharePoint sources and uploaded documents are retrieved per
+        // topic below. Index a few pending documents first so newly crawled or
+        // uploaded content is searchable.
+        const retrievalSourceTypes: SourceType[] = [
+            ...(sourceSettings.use_website !== false ? ['website' as const] : []),
+            ...(sourceSettings.use_sharepoint ? ['sharepoint' as const] : []),
+            ...(sourceSettings.use_manual !== false ? ['manual' as const] : []),
+        ]
+
+        if (retrievalSourceTypes.length > 0 && embeddingsAvailable()) {
+            try {
+                await indexPendingDocuments(supabase, typedCampaign.space_id, {
+                    sourceTypes: retrievalSourceTypes,
+                    limit: INDEX_BATCH_SIZE,
+                })
+            } catch (err) {
+                console.error('Error indexing source documents:', err)
+            }
+        }
+
+        // Fallback when nothing is indexed: the first few whole documents
+        let fallbackContext = ''
+        const fallbackSources: SourceUsed[] = []
+
         if (sourceSettings.use_website !== false) {
             const { data: websiteDocs } = await supabase
                 .from('source_documents')
@@ -173,17 +283,16 @@ Keep it concise (100-200 words) and include a clear call to action.`
                 .limit(5)
 
             if (websiteDocs && websiteDocs.length > 0) {
-                brandContext += '## Website Content\n'
+                fallbackContext += '## Website Content\n'
                 for (const doc of websiteDocs) {
                     if (doc.content && doc.content !== '(Content will be fetched by crawler)') {
-                        brandContext += `### ${doc.title || 'Page'}\n${doc.content.slice(0, 1000)}\n\n`
-                        sourcesUsed.push({ type: 'website', id: doc.id, name: doc.title || 'Unknown' })
+                        fallbackContext += `### ${doc.title || 'Page'}\n${doc.content.slice(0, 1000)}\n\n`
+                        fallbackSources.push({ type: 'website', id: doc.id, name: doc.title || 'Unknown' })
                     }
                 }
             }
         }
 
-        // 3. SharePoint Sources
         if (sourceSettings.use_sharepoint) {
             const { data: sharepointDocs } = await supabase
                 .from('source_documents')
@@ -193,65 +302,209 @@ Keep it concise (100-200 words) and include a clear call to action.`
                 .limit(5)
 
             if (sharepointDocs && sharepointDocs.length > 0) {
-                brandContext += '## SharePoint Documents\n'
+                fallbackContext += '## SharePoint Documents\n'
                 for (const doc of sharepointDocs) {
                     if (doc.content) {
-                        brandContext += `### ${doc.title || 'Document'}\n${doc.content.slice(0, 1000)}\n\n`
-                        sourcesUsed.push({ type: 'sharepoint', id: doc.id, name: doc.title || 'Unknown' })
+                        fallbackContext += `### ${doc.title || 'Document'}\n${doc.content.slice(0, 1000)}\n\n`
+                        fallbackSources.push({ type: 'sharepoint', id: doc.id, name: doc.title || 'Unknown' })
+                    }
+                }
+            }
+        }
+
+        if (sourceSettings.use_manual !== false) {
+            const { data: uploadedDocs } = await supabase
+                .from('source_documents')
+                .select('id, title, content')
+                .eq('space_id', typedCampaign.space_id)
+                .eq('source_type', 'manual')
+                .eq('is_confirmed', true)
+                .limit(5)
+
+            if (uploadedDocs && uploadedDocs.length > 0) {
+                fallbackContext += '## Uploaded Documents\n'
+                for (const doc of uploadedDocs) {
+                    if (doc.content) {
+                        fallbackContext += `### ${doc.title || 'Document'}\n${doc.content.slice(0, 1000)}\n\n`
+                        fallbackSources.push({ type: 'manual', id: doc.id, name: doc.title || 'Unknown' })
                     }
                 }
             }
         }
 
-        // Build generation constraints
         const genSettings = typedCampaign.generation_settings || {}
-        let constraints = ''
-        if (genSettings.tone_modifiers) constraints += `Tone: ${genSettings.tone_modifiers}\n`
-        if (genSettings.audience_notes) constraints += `Audience: ${genSettings.audience_notes}\n`
-        if (genSettings.length_rules) constraints += `Length: ${genSettings.length_rules}\n`
-        if (genSettings.cta_rules) constraints += `CTA: ${genSettings.cta_rules}\n`
-        if (genSettings.hashtag_rules) constraints += `Hashtags: ${genSettings.hashtag_rules}\n`
-
-        // Get topics from provided ideas (if any) or from generation settings
-        let topicsList: string[] = []
-        if (providedIdeas && Array.isArray(providedIdeas) && providedIdeas.length > 0) {
-            // Use the provided ideas (when generating for selected items)
-            topicsList = providedIdeas.filter((t: string) => t && t.trim().length > 0)
-        } else if (genSettings.topics) {
-            topicsList = genSettings.topics.split('\n').filter((t: string) => t.trim().length > 0)
+
+        // Topics: the bank ideas asked for, else the topics given, else approved
+        // ideas drawn from the bank (the campaign's own first, then the backlog)
+        let topicsList: Topic[] = []
+        if (Array.isArray(idea_ids) && idea_ids.length > 0) {
+            const { data: requestedIdeas, error: ideasError } = await supabase
+                .from('ideas')
+                .select(IDEA_COLUMNS)
+                .eq('space_id', typedCampaign.space_id)
+                .in('id', idea_ids)
+
+            if (ideasError) {
+                console.error('Error loading ideas:', ideasError)
+            }
+            topicsList = idea_ids
+                .map((ideaId: string) => (requestedIdeas || []).find((idea: IdeaRow) => idea.id === ideaId))
+                .filter((idea: IdeaRow | undefined): idea is IdeaRow => !!idea)
+                .map((idea: IdeaRow) => ({ title: idea.title, idea }))
+        }
+
+        if (topicsList.length === 0 && Array.isArray(providedIdeas) && providedIdeas.length > 0) {
+            topicsList = providedIdeas
+                .filter((t: string) => t && t.trim().length > 0)
+                .map((t: string) => ({ title: t, idea: null }))
+        }
+
+        if (topicsList.length === 0) {
+            const { data: approvedIdeas } = await supabase
+                .from('ideas')
+                .select(IDEA_COLUMNS)
+                .eq('space_id', typedCampaign.space_id)
+                .eq('status', 'approved')
+                .or(`campaign_id.is.null,campaign_id.eq.${campaign_id}`)
+
+            topicsList = orderIdeasForDraw((approvedIdeas || []) as IdeaRow[], campaign_id)
+                .slice(0, targetCount)
+                .map(idea => ({ title: idea.title, idea }))
         }
         
         // If no topics provided, generate generic ones (fallback)
         if (topicsList.length === 0) {
-            topicsList = generateTopics(targetCount)
+            topicsList = generateTopics(targetCount).map(title => ({ title, idea: null }))
         }
 
         // Get example post for style reference
         const examplePost = genSettings.example_post || ''
 
+        // Recent posts in this campaign, so separate calls still avoid repeating ideas
+        const { data: existingPosts } = await supabase
+            .from('posts')
+            .select('body')
+            .eq('campaign_id', campaign_id)
+            .not('body', 'is', null)
+            .order('sequence_number', { ascending: false })
+            .limit(3)
+
+        const recentBodies: string[] = (existingPosts || []).map((p: { body: string }) => p.body).reverse()
+        const sequenceStart: number = sequence_start || 1
+
+        // Posts take their idea's slot; topics without one are planned against the mix
+        const contentMix = normaliseContentMix(genSettings.content_mix)
+        const { data: mixPosts } = await supabase
+            .from('posts')
+            .select('content_layer, content_category')
+            .eq('campaign_id', campaign_id)
+
+        const campaignSlots = (mixPosts || [])
+            .map((p: { content_layer: string | null; content_category: string | null }) => toContentSlot(p.content_layer, p.content_category))
+            .filter((s): s is ContentSlot => !!s)
+
+        const slotForIdea = (idea: IdeaRow | null): ContentSlot | null => {
+            const stored = idea ? ideaSlot(idea) : null
+            if (stored) return stored
+            return hasContentMix(contentMix) ? planContentMix(contentMix, 1, campaignSlots)[0] || null : null
+        }
+
         // Generate posts
         const createdPosts: string[] = []
+        const createdPostIds: string[] = []
+        const errors: { topic: string; error: string }[] = []
+        const unknownVariables = new Set<string>()
+        const missingVariables = new Set<string>()
+
+        // House style: prompt instructions up front, applied to the output after
+        const { data: styleRow } = await supabase
+            .from('style_rules')
+            .select('rules')
+            .eq('space_id', typedCampaign.space_id)
+            .maybeSingle()
+
+        const styleRules = normaliseStyleRules(styleRow?.rules)
+
+        // Training examples from synced documents, picked per topic as few-shot examples
+        const { data: trainingExamples } = await supabase
+            .from('training_examples')
+            .select('id, system_prompt, user_prompt, assistant_response, category, status')
+            .eq('space_id', typedCampaign.space_id)
+            // 'approved' sorts before 'pending', so a large space keeps its reviewed examples
+            .order('status', { ascending: true })
+            .order('updated_at', { ascending: false })
+            .limit(FEW_SHOT_POOL_SIZE)
+
+        // Signatures of every post in the space, for the near-duplicate guard
+        let spacePosts: SpacePost[] = []
+        try {
+            spacePosts = await loadSpaceSignatures(supabase, typedCampaign.space_id)
+        } catch (signatureError) {
+            console.error('Error loading post signatures:', signatureError)
+        }
+        const styleInstructions = buildStyleInstructions(styleRules, genSettings)
+        // Template constraints must not contradict the house emoji/hashtag policy
+        const styledCampaign = { ...typedCampaign, generation_settings: styleAdjustedSettings(genSettings, styleRules) }
 
         // Build format instructions from settings
-        const lengthWords = genSettings.post_length === 'short' ? '80-120' : genSettings.post_length === 'long' ? '280-350' : '180-220'
-        const hashtagInstr = genSettings.include_hashtags === false ? 'Do NOT include any hashtags.' : 'Include 2-4 relevant hashtags at the end.'
+        const lengthWords = getPostLengthWords(genSettings.post_length)
         const ctaInstr = genSettings.include_cta === false ? 'Do NOT include a call-to-action.' : 'End with a subtle call-to-action or question to encourage engagement.'
-        const emojiInstr = genSettings.include_emojis === 'none' 
-            ? 'Do NOT use any emojis.' 
-            : genSettings.include_emojis === 'frequent'
-                ? 'Use emojis liberally throughout the post to add energy and visual interest.'
-                : 'Use 1-2 emojis sparingly to add warmth without overdoing it.'
+
+        // One angle per variant; a single variant keeps the template as written
+        const variantCount = clampVariantCount(genSettings.variant_count)
+        const variantAngles: (VariantAngle | null)[] = variantCount > 1 ? VARIANT_ANGLES.slice(0, variantCount) : [null]
 
         for (let i = 0; i < Math.min(targetCount, topicsList.length); i++) {
-            const topic = topicsList[i]
-            const previousPosts = createdPosts.slice(-3).join('\n---\n')
+            const { title: topic, idea } = topicsList[i]
+            const contentSlot = slotForIdea(idea)
+            const previousPosts = recentBodies.slice(-3).join('\n---\n')
+            const fewShot = selectFewShotExamples((trainingExamples || []) as TrainingExample[], {
+                topic,
+                contentCategory: contentSlot?.category,
+            })
 
-            const systemPrompt = `You are an experienced product and digital transformation practitioner writing for senior peers on LinkedIn.
+            // Top-k source chunks for this topic, recorded per post in sources_used
+            let brandContext = manualContext + fallbackContext
+            let sourcesUsed: SourceUsed[] = [...manualSources, ...fallbackSources]
+
+            if (retrievalSourceTypes.length > 0) {
+                try {
+                    const chunks = await retrieveChunks(supabase, {
+                        spaceId: typedCampaign.space_id,
+                        query: topic,
+                        k: RETRIEVAL_TOP_K,
+                        sourceTypes: retrievalSourceTypes,
+                    })
+                    if (chunks.length > 0) {
+                        brandContext = `${manualContext}## Relevant Source Excerpts\n${formatChunksForPrompt(chunks)}\n\n`
+                        sourcesUsed = [
+                            ...manualSources,
+                            ...chunks.map(chunk => ({
+                                type: chunk.source_type,
+                                id: chunk.document_id,
+                                chunk_id: chunk.id,
+                                name: chunk.title || 'Unknown',
+                                similarity: Math.round(chunk.similarity * 1000) / 1000,
+                            })),
+                        ]
+                    }
+                } catch (err) {
+                    console.error(`Error retrieving sources for "${topic}":`, err)
+                }
+            }
 
-LANGUAGE REQUIREMENT:
-- ALWAYS use British/Australian English spelling and conventions
-- Examples: specialise (not specialize), organisation (not organization), colour (not color), behaviour (not behavior), realise (not realize), centre (not center), programme (not program)
-- Never use American English spellings
+            const templateVariables = buildTemplateVariables({
+                topic,
+                campaign: styledCampaign,
+                brandProfile,
+                brandName,
+                brandContext,
+            })
+            const rendered = renderTemplate(promptTemplate, templateVariables)
+            rendered.unknown.forEach(v => unknownVariables.add(v))
+            rendered.missing.forEach(v => missingVariables.add(v))
+
+            const systemPrompt = `You are an experienced LinkedIn writer${brandName ? ` for ${brandName}` : ''}${templateVariables.audience ? `, writing for ${templateVariables.audience}` : ''}.
 
 CRITICAL GROUNDING RULES:
 1. Only include facts, claims, or details that can be traced to the brand context provided
@@ -261,177 +514,286 @@ CRITICAL GROUNDING RULES:
 
 FORMAT REQUIREMENTS:
 - Target length: ${lengthWords} words
-- ${hashtagInstr}
 - ${ctaInstr}
-- ${emojiInstr}
-- NEVER use em-dashes (—) or en-dashes (–). Use commas, periods, or colons instead.
+${contentSlot ? `- Content type: ${describeContentSlot(contentSlot)}\n` : ''}
+HOUSE STYLE:
+${styleInstructions.map(line => `- ${line}`).join('\n')}
 
 ${examplePost ? `STYLE REFERENCE - Match this format, structure, and voice:
 ---
 ${examplePost}
 ---
 Analyze the above example for: paragraph length, opening hook style, use of questions, hashtag approach, overall tone. Match this style closely.
-` : ''}
-${constraints ? `GENERATION CONSTRAINTS:\n${constraints}\n` : ''}
+` : ''}${formatFewShotExamples(fewShot)}
 ${brandContext ? `BRAND CONTEXT:\n${brandContext}` : 'Note: No brand context provided, keep content general and avoid specific claims.'}
 
 ${previousPosts ? `PREVIOUS POSTS (ensure diversity, do not repeat ideas):\n${previousPosts}` : ''}`
 
-            const userPrompt = `Write a LinkedIn post based on the following idea or topic:
-
-"${topic}"
-
-The post should feel modern, sharp, and human - written for experienced product, digital, and transformation leaders, not beginners.
-
-Guidelines:
-
-Open with a strong, opinionated hook that would stop a senior product or digital leader scrolling.
-
-Use contemporary product language and ways of working (for example: discovery, hypotheses, product thinking, AI-assisted delivery, iteration, learning fast, real users, decision-making under uncertainty).
-
-Assume the reader is aware of AI tools (such as AI-assisted coding and product workflows) and focus on how thinking, clarity, and judgement still matter.
-
-Be confident and insightful, not salesy or preachy.
-
-Avoid generic advice, buzzwords, and vague statements.
-
-Write as if this comes from practitioners who have seen what works and what fails.
-
-Keep the tone human, slightly witty, and thoughtful rather than corporate.
-
-Include a clear takeaway or reflective question at the end to invite engagement.
+            const userPrompt = rendered.text
+            const maxTokens = genSettings.post_length === 'long' ? 800 : genSettings.post_length === 'short' ? 300 : 500
+
+            // Generate, style and verify each variant. A failed variant is
+            // dropped; the topic only fails when none succeed.
+            const variants: GeneratedVariant[] = []
+            let lastError = ''
+
+            const writeVariant = async (v: number, extraInstruction?: string): Promise<GeneratedVariant | null> => {
+                const angle = variantAngles[v]
+                const temperature = variantTemperature(v)
+                const instructions = [angle ? `ANGLE FOR THIS VERSION: ${angle.instruction}` : '', extraInstruction || ''].filter(Boolean)
+
+                try {
+                    // Call the configured LLM
+                    const completion = await llm.complete({
+                        system: systemPrompt,
+                        prompt: [userPrompt, ...instructions].join('\n\n'),
+                        temperature,
+                        maxTokens,
+                    })
+                    if (!completion.text) {
+                        lastError = 'Model returned an empty post'
+                        return null
+                    }
 
-Do NOT:
+                    // Post-process: enforce house style on whatever the model wrote
+                    const styled = applyStyleRules(completion.text, styleRules, genSettings)
+
+                    // Check each claim against the context the post was generated from.
+                    // A failed check leaves the post unverified rather than failing it.
+                    let grounding: GroundingReport | null = null
+                    try {
+                        const groundingSources = await loadGroundingSources(supabase, typedCampaign.space_id, sourcesUsed)
+                        grounding = await verifyGrounding(groundingLLM, styled.text, groundingSources)
+                    } catch (verifyError) {
+                        console.error('Error verifying grounding:', verifyError)
+                    }
 
-Mention campaign names, quarters, or planning periods.
+                    // Closest existing post in the space, if it is a near-duplicate
+                    const signature = minHashSignature(styled.text)
+                    const duplicate = findSimilar(signature, spacePosts)[0] || null
 
-Use emojis.
+                    return { index: v, angle, body: styled.text, styled, grounding, signature, duplicate, temperature, usage: completion.usage }
+                } catch (genError) {
+                    console.error('Error generating post:', genError)
+                    lastError = genError instanceof Error ? genError.message : String(genError)
+                    return null
+                }
+            }
 
-Sound like a marketing slogan or leadership quote.
+            for (let v = 0; v < variantAngles.length; v++) {
+                const variant = await writeVariant(v)
+                if (variant) variants.push(variant)
+            }
 
-Explain basic concepts as if the reader is new to digital or product work.`
+            if (variants.length === 0) {
+                errors.push({ topic, error: lastError || 'No post was generated' })
+                continue
+            }
 
-            try {
-                // Call LLM (OpenAI or Claude based on settings)
-                const maxTokens = genSettings.post_length === 'long' ? 800 : genSettings.post_length === 'short' ? 300 : 500
-                let generatedBody = ''
-                let usageTokens = 0
-
-                if (textProvider === 'claude') {
-                    const claudeResponse = await fetch('https://api.anthropic.com/v1/messages', {
-                        method: 'POST',
-                        headers: {
-                            'x-api-key': anthropicApiKey!,
-                            'content-type': 'application/json',
-                            'anthropic-version': '2023-06-01',
-                        },
-                        body: JSON.stringify({
-                            model: textModel,
-                            max_tokens: maxTokens,
-                            system: systemPrompt,
-                            messages: [{ role: 'user', content: userPrompt }],
-                            temperature: 0.7,
-                        }),
-                    })
+            const variantMeta = (variant: typeof variants[number]) => ({
+                provider: llm.provider,
+                model: llm.model,
+                tokens: variant.usage.totalTokens,
+                input_tokens: variant.usage.inputTokens,
+                output_tokens: variant.usage.outputTokens,
+                temperature: variant.temperature,
+                angle: variant.angle?.key || null,
+                grounding: variant.grounding,
+                style: {
+                    changes: variant.styled.changes,
+                    issues: variant.styled.issues,
+                },
+            })
 
-                    if (!claudeResponse.ok) {
-                        const errorText = await claudeResponse.text()
-                        console.error('Claude API error:', errorText)
-                        continue
+            // The first variant unlike the space's existing posts is selected until
+            // someone picks another. When every variant repeats a post, rewrite once
+            // away from it and keep the less similar version; one still too close
+            // is saved and flagged for the duplicate review.
+            let selected = variants.find(v => !v.duplicate) || variants[0]
+            let rewroteDuplicate = false
+            if (selected.duplicate) {
+                const duplicateScore = selected.duplicate.score
+                const { data: similarPost } = await supabase
+                    .from('posts')
+                    .select('body')
+                    .eq('id', selected.duplicate.post_id)
+                    .maybeSingle()
+
+                if (similarPost?.body) {
+                    rewroteDuplicate = true
+                    const rewrite = await writeVariant(selected.index, buildAvoidDuplicateInstruction(similarPost.body))
+                    if (rewrite && (rewrite.duplicate?.score ?? 0) < duplicateScore) {
+                        variants[variants.indexOf(selected)] = rewrite
+                        selected = rewrite
                     }
+                }
+            }
+            const generatedBody = selected.body
+
+            // A fully planned slot is kept; otherwise classify the post, within the planned layer if any
+            const plannedMeta: ClassificationMeta = { source: 'campaign_plan' }
+            let classification: Record<string, unknown> = contentSlot?.category
+                ? {
+                    content_layer: contentSlot.layer,
+                    content_category: contentSlot.category,
+                    classification_status: 'auto',
+                    classification_meta: plannedMeta,
+                    classified_at: new Date().toISOString(),
+                }
+                : { content_layer: contentSlot?.layer || null, content_category: null }
+
+            if (!contentSlot?.category) {
+                try {
+                    const result = await classifyPostBody(classifyLLM, { title: topic, body: generatedBody }, contentSlot?.layer)
+                    if (result) classification = classificationColumns(result, classifyLLM)
+                } catch (classifyError) {
+                    console.error('Error classifying post:', classifyError)
+                }
+            }
 
-                    const claudeData = await claudeResponse.json()
-                    generatedBody = claudeData.content?.[0]?.text || ''
-                    usageTokens = (claudeData.usage?.input_tokens || 0) + (claudeData.usage?.output_tokens || 0)
-                } else {
-                    const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-                        method: 'POST',
-                        headers: {
-                            'Authorization': `Bearer ${openaiApiKey}`,
-                            'Content-Type': 'application/json',
+            // Create post in database
+            const { data: newPost, error: postError } = await supabase
+                .from('posts')
+                .insert({
+                    space_id: typedCampaign.space_id,
+                    campaign_id: campaign_id,
+                    idea_id: idea?.id || null,
+                    title: topic,
+                    topic: topic,
+                    body: generatedBody,
+                    status: 'draft',
+                    author_id: typedCampaign.created_by,
+                    sequence_number: sequenceStart + i,
+                    ...classification,
+                    sources_used: sourcesUsed,
+                    generation_meta: {
+                        ...variantMeta(selected),
+                        // Token counts cover every variant written for this topic
+                        tokens: variants.reduce((sum, v) => sum + v.usage.totalTokens, 0),
+                        input_tokens: variants.reduce((sum, v) => sum + v.usage.inputTokens, 0),
+                        output_tokens: variants.reduce((sum, v) => sum + v.usage.outputTokens, 0),
+                        generated_at: new Date().toISOString(),
+                        job_id: job_id || null,
+                        template: {
+                            id: textTemplateId || null,
+                            unknown_variables: rendered.unknown,
+                            missing_variables: rendered.missing,
                         },
-                        body: JSON.stringify({
-                            model: textModel,
-                            messages: [
-                                { role: 'system', content: systemPrompt },
-                                { role: 'user', content: userPrompt },
-                            ],
-                            temperature: 0.7,
-                            max_tokens: maxTokens,
-                        }),
-                    })
-
-                    if (!openaiResponse.ok) {
-                        const errorText = await openaiResponse.text()
-                        console.error('OpenAI API error:', errorText)
-                        continue
-                    }
-
-                    const openaiData = await openaiResponse.json()
-                    generatedBody = openaiData.choices?.[0]?.message?.content || ''
-                    usageTokens = openaiData.usage?.total_tokens || 0
-                }
+                        variants: variants.length > 1
+                            ? { count: variants.length, selected_index: selected.index }
+                            : null,
+                        few_shot_example_ids: fewShot.map(example => example.id),
+                        duplicate_check: {
+                            duplicate_of: selected.duplicate?.post_id || null,
+                            score: selected.duplicate?.score ?? null,
+                            rewritten: rewroteDuplicate,
+                        },
+                    },
+                    image_status: 'none',
+                    overlay_status: 'none',
+                })
+                .select('id, created_at')
+                .single()
 
-                if (!generatedBody) continue
+            if (postError || !newPost) {
+                console.error('Error creating post:', postError)
+                errors.push({ topic, error: postError?.message || 'Failed to create post' })
+                continue
+            }
 
-                // Post-process: remove em-dashes and en-dashes
-                generatedBody = generatedBody
-                    .replace(/—/g, ', ')  // em-dash to comma
-                    .replace(/–/g, '-')    // en-dash to hyphen
-                    .replace(/\s+,/g, ',') // clean up any double spaces before comma
+            // First entry in the post's revision history
+            const { error: revisionError } = await supabase
+                .from('post_revisions')
+                .insert(buildRevision({
+                    postId: newPost.id,
+                    spaceId: typedCampaign.space_id,
+                    title: topic,
+                    body: generatedBody,
+                    source: 'ai_generation',
+                    authorId: typedCampaign.created_by,
+                }))
+
+            if (revisionError) {
+                console.error('Error recording post revision:', revisionError)
+            }
 
-                // Create post in database
-                const { data: newPost, error: postError } = await supabase
-                    .from('posts')
-                    .insert({
-                        space_id: typedCampaign.space_id,
-                        campaign_id: campaign_id,
-                        title: topic,
-                        topic: topic,
-                        body: generatedBody,
-                        status: 'draft',
-                        author_id: typedCampaign.created_by,
-                        sequence_number: i + 1,
-                        sources_used: sourcesUsed,
-                        generation_meta: {
-                            provider: textProvider,
-                            model: textModel,
-                            tokens: usageTokens,
-                            generated_at: new Date().toISOString(),
-                        },
-                        image_status: 'none',
-                        overlay_status: 'none',
+            // The idea has been written up; a backlog idea now belongs to this campaign
+            if (idea) {
+                const { error: ideaError } = await supabase
+                    .from('ideas')
+                    .update({
+                        status: 'used',
+                        campaign_id: idea.campaign_id || campaign_id,
+                        used_at: new Date().toISOString(),
+                        updated_at: new Date().toISOString(),
                     })
-                    .select('id')
-                    .single()
+                    .eq('id', idea.id)
 
-                if (postError) {
-                    console.error('Error creating post:', postError)
-                    continue
+                if (ideaError) {
+                    console.error('Error marking idea used:', ideaError)
                 }
+            }
 
-                if (newPost) {
-                    createdPosts.push(generatedBody)
+            if (variants.length > 1) {
+                const { error: variantsError } = await supabase
+                    .from('post_variants')
+                    .insert(variants.map(variant => ({
+                        post_id: newPost.id,
+                        space_id: typedCampaign.space_id,
+                        variant_index: variant.index,
+                        angle: variant.angle?.key || null,
+                        body: variant.body,
+                        generation_meta: variantMeta(variant),
+                        is_selected: variant === selected,
+                    })))
+
+                if (variantsError) {
+                    console.error('Error saving post variants:', variantsError)
                 }
-            } catch (genError) {
-                console.error('Error generating post:', genError)
             }
+
+            // Record the post's near-duplicate pair, if any; later topics in this run are compared with it too
+            try {
+                await checkPostDuplicates(supabase, {
+                    id: newPost.id,
+                    space_id: typedCampaign.space_id,
+                    created_at: newPost.created_at,
+                    status: 'draft',
+                    body: generatedBody,
+                }, spacePosts, selected.signature)
+            } catch (duplicateError) {
+                console.error('Error recording duplicates:', duplicateError)
+            }
+
+            createdPosts.push(generatedBody)
+            createdPostIds.push(newPost.id)
+            const postSlot = toContentSlot(classification.content_layer, classification.content_category)
+            if (postSlot) campaignSlots.push(postSlot)
+            recentBodies.push(generatedBody)
         }
 
-        // Update campaign status
-        await supabase
-            .from('campaigns')
-            .update({
-                status: createdPosts.length === targetCount ? 'completed' : 'completed',
-                updated_at: new Date().toISOString(),
-            })
-            .eq('id', campaign_id)
+        // Update campaign status (job-worker sets it once the whole job finishes)
+        if (!job_id) {
+            await supabase
+                .from('campaigns')
+                .update({
+                    status: createdPosts.length === targetCount ? 'completed' : 'completed',
+                    updated_at: new Date().toISOString(),
+                })
+                .eq('id', campaign_id)
+        }
 
         return new Response(
             JSON.stringify({
                 success: true,
                 posts_created: createdPosts.length,
+                post_ids: createdPostIds,
+                errors,
                 campaign_id,
+                template: {
+                    unknown_variables: Array.from(unknownVariables),
+                    missing_variables: Array.from(missingVariables),
+                },
             }),
             { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         )
@@ -1,29 +1,51 @@
 // Generate Content Ideas for a Campaign
-// Uses brand context + settings to generate topic ideas
+// Uses brand context + settings to generate topic ideas. Each idea is tagged
+// with a content layer/category, planned against the campaign's content mix,
+// and saved to the idea bank (_shared/ideas.ts) as a new idea for the campaign.
 
 import "jsr:@supabase/functions-js/edge-runtime.d.ts"
 import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { createTextLLM, parseJSONResponse, type LLMClient } from '../_shared/llm.ts'
+import { getBudgetStatus, resolveUsageUser, trackUsage } from '../_shared/usage-ledger.ts'
+import {
+    CONTENT_CATEGORIES,
+    describeContentSlot,
+    layerLabel,
+    normaliseContentMix,
+    planContentMix,
+    resolveContentSlot,
+    toContentSlot,
+    type ContentSlot,
+} from '../_shared/content-mix.ts'
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Most recent bank ideas listed in the prompt to avoid repeats
+const EXISTING_IDEAS_IN_PROMPT = 50
+
 interface GenerationSettings {
-    topics?: string
     example_post?: string
     tone_modifiers?: string
     audience_notes?: string
     target_topics?: string
+    content_mix?: unknown
 }
 
+// Older prompts returned bare strings; current ones return tagged objects
+type GeneratedIdea = string | { idea?: string; category?: string }
+
 Deno.serve(async (req) => {
     if (req.method === 'OPTIONS') {
         return new Response('ok', { headers: corsHeaders })
     }
 
     try {
-        const { campaign_id, count } = await req.json()
+        // keep_mix: slots of the ideas staying in the list when only some are regenerated;
+        // replace_ids: the ideas being regenerated, rejected once their replacements are saved
+        const { campaign_id, count, keep_mix, replace_ids } = await req.json()
 
         if (!campaign_id) {
             return new Response(
@@ -34,14 +56,6 @@ Deno.serve(async (req) => {
 
         const supabaseUrl = Deno.env.get('SUPABASE_URL')!
         const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-        const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
-
-        if (!openaiApiKey) {
-            return new Response(
-                JSON.stringify({ error: 'OPENAI_API_KEY not configured' }),
-                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-            )
-        }
 
         const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
@@ -59,6 +73,39 @@ Deno.serve(async (req) => {
             )
         }
 
+        const budget = await getBudgetStatus(supabase, campaign.space_id)
+        if (budget.blocked) {
+            return new Response(
+                JSON.stringify({ error: budget.message }),
+                { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        // Load AI settings for this space
+        const { data: aiSettings } = await supabase
+            .from('ai_settings')
+            .select('text_provider, text_model')
+            .eq('space_id', campaign.space_id)
+            .maybeSingle()
+
+        const user = await resolveUsageUser(supabase, req)
+
+        let llm: LLMClient
+        try {
+            llm = trackUsage(createTextLLM(aiSettings), supabase, {
+                spaceId: campaign.space_id,
+                feature: 'post_ideas',
+                userId: user?.id,
+                userEmail: user?.email,
+                campaignId: campaign.id,
+            })
+        } catch (err) {
+            return new Response(
+                JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
         const targetCount = count || campaign.target_count || 10
         const genSettings = (campaign.generation_settings || {}) as GenerationSettings
 
@@ -80,6 +127,33 @@ Deno.serve(async (req) => {
             if (profile.tone_of_voice) brandContext += `Tone: ${profile.tone_of_voice}\n`
         }
 
+        // Plan a slot per idea, counting posts already written and ideas being kept
+        const contentMix = normaliseContentMix(genSettings.content_mix)
+        const { data: existingPosts } = await supabase
+            .from('posts')
+            .select('content_layer, content_category')
+            .eq('campaign_id', campaign_id)
+
+        const existingSlots = [
+            ...(existingPosts || []).map((p: { content_layer: string | null; content_category: string | null }) =>
+                toContentSlot(p.content_layer, p.content_category)),
+            ...(Array.isArray(keep_mix) ? keep_mix : []).map((s: Partial<ContentSlot> | null) =>
+                toContentSlot(s?.layer, s?.category)),
+        ].filter((s): s is ContentSlot => !!s)
+
+        const plan = planContentMix(contentMix, targetCount, existingSlots)
+
+        // Ideas already in the bank, so new ones do not repeat them
+        const { data: bankIdeas } = await supabase
+            .from('ideas')
+            .select('title')
+            .eq('space_id', campaign.space_id)
+            .in('status', ['new', 'approved', 'used'])
+            .order('created_at', { ascending: false })
+            .limit(EXISTING_IDEAS_IN_PROMPT)
+
+        const existingIdeas = (bankIdeas || []).map((idea: { title: string }) => idea.title)
+
         // Parse target topics if provided
         const targetTopicsList = genSettings.target_topics 
             ? genSettings.target_topics.split('\n').filter((t: string) => t.trim().length > 0)
@@ -103,70 +177,88 @@ ${targetTopicsList.map((t: string) => `- ${t}`).join('\n')}
 
 Create roughly ${Math.min(Math.ceil(targetTopicsList.length * 1.5), Math.floor(targetCount * 0.6))} ideas inspired by these topics, and the rest on related but different themes.
 ` : ''}
+${existingIdeas.length > 0 ? `
+ALREADY IN THE IDEA BANK (do not repeat these or write close variations of them):
+${existingIdeas.map((t: string) => `- ${t}`).join('\n')}
+` : ''}
+${plan.length > 0 ? `
+CONTENT MIX - write the ideas in this order, each matching its content type:
+${plan.map((slot, i) => `${i + 1}. ${describeContentSlot(slot)}`).join('\n')}
+` : ''}
+Tag every idea with the one category it fits best:
+${CONTENT_CATEGORIES.map(c => `- ${c.value}: ${c.label} (${layerLabel(c.layer)})`).join('\n')}
 
-Return ONLY a JSON array of strings, each being a topic idea. Example format:
-["Topic idea 1", "Topic idea 2", "Topic idea 3"]
-
-Do not include numbering, bullets, or any other formatting. Just the JSON array.`
-
-        const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${openaiApiKey}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                model: 'gpt-4o-mini',
-                messages: [
-                    { role: 'system', content: systemPrompt },
-                    { role: 'user', content: `Generate ${targetCount} LinkedIn post topic ideas.` },
-                ],
-                temperature: 0.9,
-                max_tokens: 2000,
-            }),
-        })
+Return ONLY a JSON object with an "ideas" array. Each entry has the topic idea as "idea" and its category key as "category". Example format:
+{"ideas": [{"idea": "Topic idea 1", "category": "industry_trend"}, {"idea": "Topic idea 2", "category": "case_study"}]}
 
-        if (!openaiResponse.ok) {
-            const errorText = await openaiResponse.text()
-            console.error('OpenAI error:', errorText)
+Do not include numbering, bullets, or any other formatting. Just the JSON object.`
+
+        let content = ''
+        try {
+            const completion = await llm.complete({
+                system: systemPrompt,
+                prompt: `Generate ${targetCount} LinkedIn post topic ideas.`,
+                temperature: 0.9,
+                maxTokens: 3000,
+                json: true,
+            })
+            content = completion.text || '{}'
+        } catch (llmError) {
+            console.error('LLM error:', llmError)
             return new Response(
                 JSON.stringify({ error: 'Failed to generate ideas' }),
                 { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
             )
         }
 
-        const openaiData = await openaiResponse.json()
-        const content = openaiData.choices?.[0]?.message?.content || '[]'
-
-        // Parse the JSON array
-        let ideas: string[] = []
+        // Parse the ideas (older prompts returned a bare array)
+        let generated: GeneratedIdea[] = []
         try {
-            // Handle potential markdown code blocks
-            const cleanedContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
-            ideas = JSON.parse(cleanedContent)
+            const parsed = parseJSONResponse<{ ideas?: GeneratedIdea[] } | GeneratedIdea[]>(content)
+            generated = Array.isArray(parsed) ? parsed : parsed.ideas || []
         } catch (parseError) {
             console.error('Parse error:', parseError, 'Content:', content)
             // Fallback: try to extract lines
-            ideas = content.split('\n').filter((line: string) => line.trim().length > 10)
+            generated = content.split('\n').filter((line: string) => line.trim().length > 10)
         }
 
-        // Update campaign with generated ideas
-        await supabase
-            .from('campaigns')
-            .update({
-                generation_settings: {
-                    ...genSettings,
-                    generated_ideas: ideas,
-                },
-                updated_at: new Date().toISOString(),
-            })
-            .eq('id', campaign_id)
+        // Keep the planned slot; the model's tag fills in an open category
+        const tagged = generated
+            .map((item, i) => typeof item === 'string'
+                ? { idea: item, slot: plan[i] || null }
+                : { idea: item?.idea || '', slot: resolveContentSlot(plan[i] || null, item?.category) })
+            .filter(item => item.idea.trim().length > 0)
+
+        // Save to the idea bank, assigned to this campaign
+        const { data: ideas, error: insertError } = await supabase
+            .from('ideas')
+            .insert(tagged.map(item => ({
+                space_id: campaign.space_id,
+                campaign_id: campaign.id,
+                title: item.idea.trim(),
+                status: 'new',
+                source: 'ai',
+                content_layer: item.slot?.layer || null,
+                content_category: item.slot?.category || null,
+                created_by: user?.id || null,
+            })))
+            .select('*')
+
+        if (insertError) throw insertError
+
+        if (Array.isArray(replace_ids) && replace_ids.length > 0) {
+            await supabase
+                .from('ideas')
+                .update({ status: 'rejected', updated_at: new Date().toISOString() })
+                .in('id', replace_ids)
+                .eq('campaign_id', campaign.id)
+        }
 
         return new Response(
             JSON.stringify({ 
                 success: true, 
-                ideas,
-                count: ideas.length,
+                ideas: ideas || [],
+                count: ideas?.length || 0,
             }),
             { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         )
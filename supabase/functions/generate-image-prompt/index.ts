@@ -1,5 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { buildTemplateVariables, renderTemplate } from '../_shared/prompt-template.ts'
+import { getBudgetStatus, recordUsage, resolveUsageUser } from '../_shared/usage-ledger.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +15,8 @@ interface GeneratePromptRequest {
   post_body: string
 }
 
+const PROMPT_MODEL = 'gemini-2.5-flash'
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -31,6 +35,60 @@ serve(async (req) => {
       throw new Error('GEMINI_API_KEY is not configured')
     }
 
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const budget = await getBudgetStatus(supabase, space_id)
+    if (budget.blocked) {
+      return new Response(
+        JSON.stringify({ success: false, error: budget.message }),
+        { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Image prompt template: the campaign's chosen one, else the space's active one
+    const { data: post } = await supabase
+      .from('posts')
+      .select('title, topic, campaign:campaigns(name, generation_settings, template_ids)')
+      .eq('id', post_id)
+      .eq('space_id', space_id)
+      .maybeSingle()
+
+    const campaign = Array.isArray(post?.campaign) ? post?.campaign[0] : post?.campaign
+    const imageTemplateId = campaign?.template_ids?.image_template_id
+
+    let templateQuery = supabase
+      .from('prompt_templates')
+      .select('template')
+      .eq('space_id', space_id)
+      .eq('type', 'image_prompt')
+    templateQuery = imageTemplateId ? templateQuery.eq('id', imageTemplateId) : templateQuery.eq('is_active', true)
+    const { data: imageTemplate } = await templateQuery.limit(1).maybeSingle()
+
+    // Brand profile and name feed the template variables
+    const { data: brandProfile } = await supabase
+      .from('brand_profile')
+      .select('who_we_are, what_we_do, who_we_serve, tone_notes, services, themes')
+      .eq('space_id', space_id)
+      .maybeSingle()
+
+    const { data: contextCache } = await supabase
+      .from('brand_context_cache')
+      .select('detected_name')
+      .eq('space_id', space_id)
+      .maybeSingle()
+
+    const rendered = imageTemplate
+      ? renderTemplate(imageTemplate.template, buildTemplateVariables({
+        topic: post?.topic || post?.title,
+        postBody: post_body,
+        campaign,
+        brandProfile,
+        brandName: contextCache?.detected_name || null,
+      }))
+      : null
+
     // Define style-specific system prompts
     const stylePrompts = {
       realistic: `You are an expert at creating image prompts for social media posts.
@@ -62,7 +120,7 @@ The image should feel like something a thoughtful digital consultancy would prou
 
     // Call Gemini to generate the prompt
     const geminiResponse = await fetch(
-      'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent',
+      `https://generativelanguage.googleapis.com/v1beta/models/${PROMPT_MODEL}:generateContent`,
       {
         method: 'POST',
         headers: {
@@ -75,7 +133,7 @@ The image should feel like something a thoughtful digital consultancy would prou
               parts: [
                 {
                   text: `${stylePrompts[style]}
-
+${rendered?.text ? `\nTEMPLATE DIRECTION (from Prompt Studio):\n${rendered.text}\n` : ''}
 POST CONTENT:
 ${post_body}
 
@@ -102,15 +160,25 @@ Do NOT include any preamble or explanation - just the image prompt itself.`,
     const geminiData = await geminiResponse.json()
     const generatedPrompt = geminiData.candidates?.[0]?.content?.parts?.[0]?.text?.trim()
 
+    const user = await resolveUsageUser(supabase, req)
+    await recordUsage(supabase, {
+      spaceId: space_id,
+      feature: 'image_prompt',
+      userId: user?.id,
+      userEmail: user?.email,
+      postId: post_id,
+    }, {
+      provider: 'gemini',
+      model: PROMPT_MODEL,
+      inputTokens: geminiData.usageMetadata?.promptTokenCount,
+      outputTokens: geminiData.usageMetadata?.candidatesTokenCount,
+    })
+
     if (!generatedPrompt) {
       throw new Error('Failed to generate prompt from Gemini')
     }
 
     // Update the post with the generated prompt
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const supabase = createClient(supabaseUrl, supabaseKey)
-
     await supabase
       .from('posts')
       .update({
@@ -127,6 +195,9 @@ Do NOT include any preamble or explanation - just the image prompt itself.`,
         success: true,
         prompt: generatedPrompt,
         style: style,
+        template: rendered
+          ? { unknown_variables: rendered.unknown, missing_variables: rendered.missing }
+          : null,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
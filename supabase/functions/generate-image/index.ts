@@ -1,5 +1,6 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getBudgetStatus, recordUsage, resolveUsageUser } from '../_shared/usage-ledger.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,6 +12,8 @@ interface GenerateImageRequest {
   space_id: string
 }
 
+const IMAGE_MODEL = 'gemini-2.0-flash-exp'
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -35,6 +38,14 @@ serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseKey)
 
+    const budget = await getBudgetStatus(supabase, space_id)
+    if (budget.blocked) {
+      return new Response(
+        JSON.stringify({ success: false, error: budget.message }),
+        { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
     // Fetch the post
     const { data: post, error: postError } = await supabase
       .from('posts')
@@ -74,7 +85,7 @@ serve(async (req) => {
       // Call Gemini API for image generation
       // Note: Gemini 2.0 Flash with image generation requires specific format
       const geminiResponse = await fetch(
-        'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent',
+        `https://generativelanguage.googleapis.com/v1beta/models/${IMAGE_MODEL}:generateContent`,
         {
           method: 'POST',
           headers: {
@@ -134,6 +145,20 @@ serve(async (req) => {
         )
       }
 
+      const user = await resolveUsageUser(supabase, req)
+      await recordUsage(supabase, {
+        spaceId: space_id,
+        feature: 'image_generation',
+        userId: user?.id,
+        userEmail: user?.email,
+        postId: post_id,
+      }, {
+        provider: 'gemini',
+        model: IMAGE_MODEL,
+        units: 1,
+        unitType: 'images',
+      })
+
       // Decode base64 image
       const imageData = imagePart.inlineData.data
       const mimeType = imagePart.inlineData.mimeType
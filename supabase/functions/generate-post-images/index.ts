@@ -1,5 +1,6 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getBudgetStatus, recordUsage, resolveUsageUser } from '../_shared/usage-ledger.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,8 +21,13 @@ interface GenerateImagesRequest {
   prompt: string
   settings: ImageSettings
   count: number
+  // Set when called by job-worker
+  job_id?: string
+  user_id?: string
 }
 
+const IMAGE_MODEL = 'gemini-2.5-flash-image'
+
 const ASPECT_RATIO_DIMENSIONS = {
   '1:1': { width: 1024, height: 1024 },
   '4:5': { width: 1024, height: 1280 },
@@ -36,7 +42,7 @@ serve(async (req) => {
   }
 
   try {
-    const { post_id, space_id, prompt, settings, count = 2 }: GenerateImagesRequest = await req.json()
+    const { post_id, space_id, prompt, settings, count = 2, job_id, user_id }: GenerateImagesRequest = await req.json()
 
     if (!post_id || !space_id || !prompt) {
       throw new Error('post_id, space_id, and prompt are required')
@@ -51,6 +57,16 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const supabase = createClient(supabaseUrl, supabaseKey)
 
+    const budget = await getBudgetStatus(supabase, space_id)
+    if (budget.blocked) {
+      return new Response(
+        JSON.stringify({ success: false, error: budget.message }),
+        { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const user = await resolveUsageUser(supabase, req, user_id)
+
     // Update post status to generating
     await supabase
       .from('posts')
@@ -119,7 +135,7 @@ serve(async (req) => {
 
         // Call Gemini 2.5 Flash Image (Nano Banana) for image generation
         const geminiResponse = await fetch(
-          'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-image:generateContent',
+          `https://generativelanguage.googleapis.com/v1beta/models/${IMAGE_MODEL}:generateContent`,
           {
             method: 'POST',
             headers: {
@@ -159,6 +175,20 @@ serve(async (req) => {
           throw new Error('No image data in response')
         }
 
+        await recordUsage(supabase, {
+          spaceId: space_id,
+          feature: 'image_generation',
+          userId: user?.id,
+          userEmail: user?.email,
+          postId: post_id,
+          jobId: job_id,
+        }, {
+          provider: 'gemini',
+          model: IMAGE_MODEL,
+          units: 1,
+          unitType: 'images',
+        })
+
         // Decode base64 image
         const imageData = imagePart.inlineData.data
         const mimeType = imagePart.inlineData.mimeType
@@ -1,5 +1,14 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { buildTemplateVariables, renderTemplate } from '../_shared/prompt-template.ts'
+import { createTextLLM } from '../_shared/llm.ts'
+import { applyStyleRules, buildStyleInstructions, normaliseStyleRules, styleAdjustedSettings } from '../_shared/style-rules.ts'
+import { buildRevision } from '../_shared/revisions.ts'
+import { getBudgetStatus, resolveUsageUser, trackUsage } from '../_shared/usage-ledger.ts'
+import { isSubstantialChange } from '../_shared/classification.ts'
+import { classificationColumns, classifyPostBody } from '../_shared/post-classifier.ts'
+import { checkPostDuplicates, loadSpaceSignatures, type SpacePost } from '../_shared/duplicates.ts'
+import { FEW_SHOT_POOL_SIZE, formatFewShotExamples, selectFewShotExamples, type TrainingExample } from '../_shared/training-examples.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -27,18 +36,30 @@ serve(async (req) => {
     // Initialize Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const openaiKey = Deno.env.get('OPENAI_API_KEY')
+    const supabase = createClient(supabaseUrl, supabaseKey)
 
-    if (!openaiKey) {
-      throw new Error('OPENAI_API_KEY is not configured')
+    const budget = await getBudgetStatus(supabase, space_id)
+    if (budget.blocked) {
+      return new Response(
+        JSON.stringify({ success: false, error: budget.message }),
+        { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
     }
 
-    const supabase = createClient(supabaseUrl, supabaseKey)
+    // Load AI settings for this space
+    const { data: aiSettings } = await supabase
+      .from('ai_settings')
+      .select('text_provider, text_model')
+      .eq('space_id', space_id)
+      .maybeSingle()
+
+    const llm = createTextLLM(aiSettings)
+    const user = await resolveUsageUser(supabase, req)
 
     // Fetch posts to generate
     const { data: posts, error: postsError } = await supabase
       .from('posts')
-      .select('id, title, topic')
+      .select('id, title, topic, body, campaign_id, author_id, content_category, classification_status, created_at')
       .in('id', post_ids)
       .eq('space_id', space_id)
 
@@ -58,60 +79,103 @@ serve(async (req) => {
       throw new Error('No active text prompt template found. Please set one in Prompt Studio.')
     }
 
+    // Campaign settings and brand profile feed the template variables
+    const campaignIds = [...new Set(posts.map(p => p.campaign_id).filter(Boolean))]
+    const { data: campaigns } = campaignIds.length > 0
+      ? await supabase.from('campaigns').select('id, name, generation_settings').in('id', campaignIds)
+      : { data: [] }
+    const campaignsById = new Map((campaigns || []).map(c => [c.id, c]))
+
+    const { data: brandProfile } = await supabase
+      .from('brand_profile')
+      .select('who_we_are, what_we_do, who_we_serve, tone_notes, services, themes')
+      .eq('space_id', space_id)
+      .maybeSingle()
+
+    const { data: contextCache } = await supabase
+      .from('brand_context_cache')
+      .select('detected_name')
+      .eq('space_id', space_id)
+      .maybeSingle()
+
+    const { data: styleRow } = await supabase
+      .from('style_rules')
+      .select('rules')
+      .eq('space_id', space_id)
+      .maybeSingle()
+
+    const styleRules = normaliseStyleRules(styleRow?.rules)
+
+    // The brand's training examples, picked per post as few-shot examples
+    const { data: trainingExamples } = await supabase
+      .from('training_examples')
+      .select('id, system_prompt, user_prompt, assistant_response, category, status')
+      .eq('space_id', space_id)
+      // 'approved' sorts before 'pending', so a large space keeps its reviewed examples
+      .order('status', { ascending: true })
+      .order('updated_at', { ascending: false })
+      .limit(FEW_SHOT_POOL_SIZE)
+
+    // Signatures of every post in the space, to flag near-duplicates of the new text
+    let spacePosts: SpacePost[] = []
+    try {
+      spacePosts = await loadSpaceSignatures(supabase, space_id)
+    } catch (signatureError) {
+      console.error('Error loading post signatures:', signatureError)
+    }
+
     // Update posts to generating_text status
     await supabase
       .from('posts')
       .update({ status: 'generating_text' })
       .in('id', post_ids)
 
-    const results: { id: string; success: boolean; error?: string }[] = []
+    const results: { id: string; success: boolean; error?: string; unknown_variables?: string[]; missing_variables?: string[] }[] = []
 
     // Generate text for each post
     for (const post of posts) {
       try {
+        const campaign = post.campaign_id ? campaignsById.get(post.campaign_id) : null
+        const genSettings = campaign?.generation_settings || {}
+
         // Substitute variables in template
-        let prompt = template.template
-          .replace(/\{topic\}/g, post.topic || post.title)
-          .replace(/\{audience\}/g, 'LinkedIn professionals')
-          .replace(/\{tone_notes\}/g, 'professional, engaging')
-          .replace(/\{constraints\}/g, 'under 3000 characters')
-
-        // Call OpenAI API
-        const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${openaiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'gpt-4',
-            messages: [
-              {
-                role: 'system',
-                content: 'You are a professional LinkedIn content writer. Generate engaging, professional posts that drive engagement. IMPORTANT: Always use British/Australian English spelling and conventions (e.g., specialise, organisation, colour, behaviour, realise, centre, programme). Never use American English spellings.',
-              },
-              {
-                role: 'user',
-                content: prompt,
-              },
-            ],
-            temperature: 0.7,
-            max_tokens: 1000,
-          }),
+        const rendered = renderTemplate(template.template, buildTemplateVariables({
+          topic: post.topic || post.title,
+          campaign: campaign ? { ...campaign, generation_settings: styleAdjustedSettings(genSettings, styleRules) } : null,
+          brandProfile,
+          brandName: contextCache?.detected_name,
+        }))
+        const prompt = rendered.text
+        const styleInstructions = buildStyleInstructions(styleRules, genSettings)
+        const fewShot = selectFewShotExamples((trainingExamples || []) as TrainingExample[], {
+          topic: post.topic || post.title,
+          contentCategory: post.content_category,
         })
+        const fewShotSection = formatFewShotExamples(fewShot)
 
-        if (!openaiResponse.ok) {
-          const errorData = await openaiResponse.text()
-          throw new Error(`OpenAI API error: ${errorData}`)
-        }
-
-        const openaiData = await openaiResponse.json()
-        const generatedText = openaiData.choices[0]?.message?.content
+        // Call the configured LLM, recorded against this post
+        const completion = await trackUsage(llm, supabase, {
+          spaceId: space_id,
+          feature: 'post_generation',
+          userId: user?.id,
+          userEmail: user?.email,
+          campaignId: post.campaign_id,
+          postId: post.id,
+        }).complete({
+          system: `You are a professional LinkedIn content writer. Generate engaging, professional posts that drive engagement.\n\nHOUSE STYLE:\n${styleInstructions.map(line => `- ${line}`).join('\n')}${fewShotSection ? `\n\n${fewShotSection}` : ''}`,
+          prompt,
+          temperature: 0.7,
+          maxTokens: 1000,
+        })
 
-        if (!generatedText) {
-          throw new Error('No content generated from OpenAI')
+        if (!completion.text) {
+          throw new Error(`No content generated from ${llm.provider}`)
         }
 
+        // Enforce house style on whatever the model wrote
+        const styled = applyStyleRules(completion.text, styleRules, genSettings)
+        const generatedText = styled.text
+
         // Update post with generated content
         await supabase
           .from('posts')
@@ -119,14 +183,75 @@ serve(async (req) => {
             body: generatedText,
             status: 'draft',
             openai_meta: {
-              model: openaiData.model,
-              usage: openaiData.usage,
+              provider: completion.provider,
+              model: completion.model,
+              usage: completion.usage,
               generated_at: new Date().toISOString(),
+              unknown_variables: rendered.unknown,
+              missing_variables: rendered.missing,
+              few_shot_example_ids: fewShot.map(example => example.id),
+              style: {
+                changes: styled.changes,
+                issues: styled.issues,
+              },
             },
           })
           .eq('id', post.id)
 
-        results.push({ id: post.id, success: true })
+        const { error: revisionError } = await supabase
+          .from('post_revisions')
+          .insert(buildRevision({
+            postId: post.id,
+            spaceId: space_id,
+            title: post.title,
+            body: generatedText,
+            source: 'ai_generation',
+            authorId: post.author_id,
+          }))
+        if (revisionError) console.error(`Error recording revision for post ${post.id}:`, revisionError)
+
+        // Re-classify new text, unless someone confirmed the classification by hand
+        if (post.classification_status !== 'confirmed' && isSubstantialChange(post.body, generatedText)) {
+          try {
+            const classifyLLM = trackUsage(llm, supabase, {
+              spaceId: space_id,
+              feature: 'post_classification',
+              userId: user?.id,
+              userEmail: user?.email,
+              campaignId: post.campaign_id,
+              postId: post.id,
+            })
+            const classification = await classifyPostBody(classifyLLM, { title: post.title, body: generatedText })
+            if (classification) {
+              await supabase
+                .from('posts')
+                .update(classificationColumns(classification, classifyLLM))
+                .eq('id', post.id)
+            }
+          } catch (classifyError) {
+            console.error(`Error classifying post ${post.id}:`, classifyError)
+          }
+        }
+
+        // Flag the post if the new text repeats another post in the space
+        try {
+          await checkPostDuplicates(supabase, {
+            id: post.id,
+            space_id,
+            created_at: post.created_at,
+            status: 'draft',
+            body: generatedText,
+          }, spacePosts)
+        } catch (duplicateError) {
+          console.error(`Error checking post ${post.id} for duplicates:`, duplicateError)
+        }
+
+        results.push({
+          id: post.id,
+          success: true,
+          unknown_variables: rendered.unknown,
+          missing_variables: rendered.missing,
+        })
       } catch (postError) {
         console.error(`Error generating text for post ${post.id}:`, postError)
         
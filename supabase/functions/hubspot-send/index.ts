@@ -1,19 +1,54 @@
 // supabase/functions/hubspot-send/index.ts
 import "jsr:@supabase/functions-js/edge-runtime.d.ts"
 import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { channelFromHubSpotType, resolveChannelContent, type ChannelId, type HubSpotChannel } from '../_shared/channels.ts'
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+interface HubSpotAccountMeta {
+    default_channel_guid?: string
+    channels?: HubSpotChannel[]
+}
+
+/** posts.hubspot_meta: the channels picked in the calendar and what was sent */
+interface HubSpotPostMeta {
+    channels?: unknown
+    broadcasts?: unknown[]
+    /** Set while some channels have not been sent; a retry only sends those */
+    interrupted?: boolean
+    failed_channels?: { channel_guid: string; error: string }[]
+}
+
+interface SentChannel {
+    channel_guid: string
+    channel: ChannelId | null
+    variant_id: string | null
+    body?: string
+    image_path?: string | null
+}
+
+interface BroadcastResult {
+    channel_guid: string
+    channel: ChannelId | null
+    variant_id: string | null
+    body?: string
+    image_path?: string | null
+    hubspot_id?: string
+    hubspot_status?: string
+    data?: unknown
+    error?: string
+}
+
 Deno.serve(async (req) => {
     if (req.method === 'OPTIONS') {
         return new Response('ok', { headers: corsHeaders })
     }
 
     try {
-        const { post_id, space_id, channel_guid, scheduled_at } = await req.json()
+        const { post_id, space_id, channel_guid, channel_guids, scheduled_at } = await req.json()
 
         if (!post_id || !space_id) {
             return new Response(
@@ -72,123 +107,223 @@ Deno.serve(async (req) => {
             )
         }
 
-        // 3. Get image URL if available (prefer final_image_path with logo, fallback to generated)
-        let photoUrl: string | null = null
-        const imagePath = post.final_image_path || post.generated_image_path
-        if (imagePath) {
-            // Determine which bucket the image is in
-            const bucket = post.final_image_path ? 'generated-images' : 'generated-images'
-            const { data: signedUrlData } = await supabase.storage
-                .from(bucket)
-                .createSignedUrl(imagePath, 3600) // 1 hour expiry
-
-            if (signedUrlData?.signedUrl) {
-                photoUrl = signedUrlData.signedUrl
-            }
+        // 3. Resolve target channels - channel_guids, channel_guid, or the default from account_meta
+        const accountMeta = (connection.account_meta || {}) as HubSpotAccountMeta
+        const targetChannels: string[] = Array.isArray(channel_guids) && channel_guids.length > 0
+            ? channel_guids
+            : [channel_guid || accountMeta.default_channel_guid].filter(Boolean)
+
+        if (targetChannels.length === 0) {
+            return new Response(
+                JSON.stringify({ error: 'No target channel specified. Please select a social channel.' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
         }
 
+        // Tailored bodies and image renditions, keyed by our channel id
+        const { data: channelVariants } = await supabase
+            .from('post_channel_variants')
+            .select('id, channel, body, hashtags, image_path')
+            .eq('post_id', post_id)
+
+        // 4. Get image URL if available (prefer final_image_path with logo, fallback to generated)
+        const imagePath = post.final_image_path || post.generated_image_path
+        let primaryImagePath: string | null = imagePath
+
         // Also check post_images table for primary image
-        if (!photoUrl) {
+        if (!primaryImagePath) {
             const { data: postImage } = await supabase
                 .from('post_images')
                 .select('storage_path')
                 .eq('post_id', post_id)
                 .eq('is_primary', true)
-                .single()
+                .maybeSingle()
+
+            primaryImagePath = postImage?.storage_path || null
+        }
+
+        // Channels already sent by an incomplete send are not sent again
+        const previousMeta = (post.hubspot_meta || {}) as HubSpotPostMeta
+        const previouslySent: SentChannel[] = previousMeta.interrupted
+            ? ((post.publish_snapshot as { channels?: SentChannel[] } | null)?.channels || [])
+            : []
+        const previousBroadcasts = previousMeta.interrupted ? previousMeta.broadcasts || [] : []
+
+        // 5. Send one broadcast per channel, each with that channel's variant
+        const broadcasts: BroadcastResult[] = []
+        let tokenExpired = false
+
+        for (const targetChannel of targetChannels) {
+            if (previouslySent.some(c => c.channel_guid === targetChannel)) continue
+
+            const hubspotChannel = accountMeta.channels?.find(ch => ch.channelGuid === targetChannel)
+            const channel = channelFromHubSpotType(hubspotChannel?.type)
+            const variant = channel ? (channelVariants || []).find(v => v.channel === channel) || null : null
+            const content = resolveChannelContent({ body: post.body, image_path: primaryImagePath }, variant)
 
-            if (postImage?.storage_path) {
+            let photoUrl: string | null = null
+            if (content.image_path) {
                 const { data: signedUrlData } = await supabase.storage
                     .from('generated-images')
-                    .createSignedUrl(postImage.storage_path, 3600)
+                    .createSignedUrl(content.image_path, 3600) // 1 hour expiry
 
                 if (signedUrlData?.signedUrl) {
                     photoUrl = signedUrlData.signedUrl
                 }
             }
-        }
 
-        // 4. Resolve channel - use provided channel_guid or default from account_meta
-        const targetChannel = channel_guid || (connection.account_meta as any)?.default_channel_guid
-        if (!targetChannel) {
-            return new Response(
-                JSON.stringify({ error: 'No target channel specified. Please select a social channel.' }),
-                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-            )
-        }
+            // Build HubSpot broadcast payload
+            const broadcastPayload: Record<string, unknown> = {
+                channelGuid: targetChannel,
+                content: {
+                    body: content.body,
+                },
+                status: scheduled_at ? 'SCHEDULED' : 'DRAFT',
+            }
 
-        // 5. Build HubSpot broadcast payload
-        const broadcastPayload: Record<string, unknown> = {
-            channelGuid: targetChannel,
-            content: {
-                body: post.body,
-            },
-            status: scheduled_at ? 'SCHEDULED' : 'DRAFT',
-        }
+            if (photoUrl) {
+                (broadcastPayload.content as Record<string, unknown>).photoUrl = photoUrl
+            }
 
-        if (photoUrl) {
-            (broadcastPayload.content as Record<string, unknown>).photoUrl = photoUrl
-        }
+            if (scheduled_at) {
+                broadcastPayload.triggerAt = new Date(scheduled_at).getTime()
+            }
 
-        if (scheduled_at) {
-            broadcastPayload.triggerAt = new Date(scheduled_at).getTime()
-        }
+            // Send to HubSpot
+            const hubspotResponse = await fetch('https://api.hubapi.com/broadcast/v1/broadcasts', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(broadcastPayload),
+            })
+
+            if (!hubspotResponse.ok) {
+                const errorBody = await hubspotResponse.text()
+                console.error('HubSpot API error:', errorBody)
+
+                // Token expired: stop, but keep the broadcasts already created
+                if (hubspotResponse.status === 401) {
+                    tokenExpired = true
+                    break
+                }
 
-        // 6. Send to HubSpot
-        const hubspotResponse = await fetch('https://api.hubapi.com/broadcast/v1/broadcasts', {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${accessToken}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(broadcastPayload),
-        })
-
-        if (!hubspotResponse.ok) {
-            const errorBody = await hubspotResponse.text()
-            console.error('HubSpot API error:', errorBody)
-
-            // Handle token expiry
-            if (hubspotResponse.status === 401) {
-                return new Response(
-                    JSON.stringify({ error: 'HubSpot token expired. Please reconnect HubSpot in Settings.' }),
-                    { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-                )
+                broadcasts.push({ channel_guid: targetChannel, channel, variant_id: content.variant_id, error: `HubSpot API error: ${errorBody}` })
+                continue
             }
 
+            const hubspotData = await hubspotResponse.json()
+            broadcasts.push({
+                channel_guid: targetChannel,
+                channel,
+                variant_id: content.variant_id,
+                body: content.body,
+                image_path: content.image_path,
+                hubspot_id: hubspotData.broadcastGuid || hubspotData.id,
+                hubspot_status: hubspotData.status,
+                data: hubspotData,
+            })
+        }
+
+        const sent = broadcasts.filter(b => !b.error)
+        if (sent.length === 0 && tokenExpired) {
             return new Response(
-                JSON.stringify({ error: `HubSpot API error: ${errorBody}` }),
-                { status: hubspotResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                JSON.stringify({ error: 'HubSpot token expired. Please reconnect HubSpot in Settings.' }),
+                { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+        if (sent.length === 0 && previouslySent.length === 0) {
+            return new Response(
+                JSON.stringify({ error: broadcasts[0]?.error || 'HubSpot send failed', broadcasts }),
+                { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
             )
         }
 
-        const hubspotData = await hubspotResponse.json()
-
-        // 7. Update post with HubSpot info
+        // 6. Update post with HubSpot info, keeping the channels picked for it
+        const first = sent[0]
+        const sentChannels: SentChannel[] = [
+            ...previouslySent,
+            ...sent.map(b => ({
+                channel_guid: b.channel_guid,
+                channel: b.channel,
+                variant_id: b.variant_id,
+                body: b.body,
+                image_path: b.image_path,
+            })),
+        ]
         const publishSnapshot = {
             body: post.body,
             title: post.title,
             image_path: imagePath,
             sent_at: new Date().toISOString(),
-            channel_guid: targetChannel,
+            channel_guid: sentChannels[0].channel_guid,
+            // What each channel actually received
+            channels: sentChannels,
+        }
+
+        // Failed channels, and those not reached once the token expired, are left for a retry
+        const unsent = targetChannels.filter(guid => !sentChannels.some(c => c.channel_guid === guid))
+        const incomplete = unsent.length > 0
+        const hubspotMeta: HubSpotPostMeta = {
+            channels: previousMeta.channels,
+            broadcasts: [...previousBroadcasts, ...sent.map(b => b.data)],
+            interrupted: incomplete || undefined,
+            failed_channels: incomplete
+                ? unsent.map(guid => ({
+                    channel_guid: guid,
+                    error: broadcasts.find(b => b.channel_guid === guid)?.error || 'Not sent: HubSpot token expired',
+                }))
+                : undefined,
         }
 
         await supabase
             .from('posts')
             .update({
-                status: 'sent_to_hubspot',
-                hubspot_social_post_id: hubspotData.broadcastGuid || hubspotData.id,
-                hubspot_status: hubspotData.status || 'SENT',
-                hubspot_meta: hubspotData,
+                // The post only counts as sent once every channel has it
+                status: incomplete ? post.status : 'sent_to_hubspot',
+                hubspot_social_post_id: previouslySent.length > 0 ? post.hubspot_social_post_id : first.hubspot_id,
+                hubspot_status: incomplete ? 'PARTIAL' : previouslySent.length > 0 ? post.hubspot_status : first.hubspot_status || 'SENT',
+                hubspot_meta: hubspotMeta,
                 publish_snapshot: publishSnapshot,
                 updated_at: new Date().toISOString(),
             })
             .eq('id', post_id)
 
+        const broadcastSummary = broadcasts.map(b => ({
+            channel_guid: b.channel_guid,
+            channel: b.channel,
+            variant_id: b.variant_id,
+            hubspot_id: b.hubspot_id,
+            error: b.error,
+        }))
+
+        if (tokenExpired) {
+            return new Response(
+                JSON.stringify({
+                    error: `HubSpot token expired after sending to ${sentChannels.length} of ${targetChannels.length} channels. Please reconnect HubSpot in Settings, then send again to post to the rest.`,
+                    broadcasts: broadcastSummary,
+                }),
+                { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        if (incomplete) {
+            return new Response(
+                JSON.stringify({
+                    error: `Sent to ${sentChannels.length} of ${targetChannels.length} channels. ${hubspotMeta.failed_channels![0].error}. Send again to retry the rest.`,
+                    broadcasts: broadcastSummary,
+                }),
+                { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
         return new Response(
             JSON.stringify({
                 success: true,
-                hubspot_id: hubspotData.broadcastGuid || hubspotData.id,
-                hubspot_status: hubspotData.status,
+                hubspot_id: first?.hubspot_id ?? post.hubspot_social_post_id,
+                hubspot_status: first?.hubspot_status ?? post.hubspot_status,
+                broadcasts: broadcastSummary,
             }),
             { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         )
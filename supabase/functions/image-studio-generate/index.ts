@@ -1,5 +1,6 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts"
 import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { getBudgetStatus, recordUsage, resolveUsageUser } from '../_shared/usage-ledger.ts'
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -50,6 +51,14 @@ Deno.serve(async (req) => {
         const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
         const supabase = createClient(supabaseUrl, supabaseKey)
 
+        const budget = await getBudgetStatus(supabase, space_id)
+        if (budget.blocked) {
+            return new Response(
+                JSON.stringify({ error: budget.message }),
+                { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
         // Fetch reference images and convert to base64 (max 3)
         const referenceImages: { data: string; mimeType: string }[] = []
         if (reference_image_urls?.length) {
@@ -186,6 +195,20 @@ Deno.serve(async (req) => {
             )
         }
 
+        const user = await resolveUsageUser(supabase, req)
+        await recordUsage(supabase, {
+            spaceId: space_id,
+            feature: 'image_generation',
+            userId: user?.id,
+            userEmail: user?.email,
+        }, {
+            provider: 'gemini',
+            model,
+            units: 1,
+            unitType: 'images',
+            metadata: { source: 'image_studio', reference_images: referenceImages.length },
+        })
+
         // Decode base64 to Uint8Array
         const binaryStr = atob(imageData)
         const bytes = new Uint8Array(binaryStr.length)
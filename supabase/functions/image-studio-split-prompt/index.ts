@@ -1,17 +1,21 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { getBudgetStatus, recordUsage, resolveUsageUser } from '../_shared/usage-ledger.ts'
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const SPLIT_MODEL = 'gemini-2.5-flash'
+
 Deno.serve(async (req) => {
     if (req.method === 'OPTIONS') {
         return new Response('ok', { headers: corsHeaders })
     }
 
     try {
-        const { prompt, slide_count = 4 } = await req.json()
+        const { prompt, slide_count = 4, space_id } = await req.json()
 
         if (!prompt?.trim()) {
             return new Response(
@@ -28,7 +32,19 @@ Deno.serve(async (req) => {
             )
         }
 
-        const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${geminiApiKey}`
+        // Usage is only recorded when the caller says which space it is for
+        const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+        if (space_id) {
+            const budget = await getBudgetStatus(supabase, space_id)
+            if (budget.blocked) {
+                return new Response(
+                    JSON.stringify({ error: budget.message }),
+                    { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                )
+            }
+        }
+
+        const url = `https://generativelanguage.googleapis.com/v1beta/models/${SPLIT_MODEL}:generateContent?key=${geminiApiKey}`
 
         const splitPrompt = `You are helping create a carousel of ${slide_count} images that tell a visual story.
 
@@ -65,6 +81,21 @@ Example format: ["Slide 1 detailed prompt...", "Slide 2 detailed prompt...", "Sl
         const data = await res.json()
         const text = data.candidates?.[0]?.content?.parts?.[0]?.text
 
+        if (space_id) {
+            const user = await resolveUsageUser(supabase, req)
+            await recordUsage(supabase, {
+                spaceId: space_id,
+                feature: 'image_prompt_split',
+                userId: user?.id,
+                userEmail: user?.email,
+            }, {
+                provider: 'gemini',
+                model: SPLIT_MODEL,
+                inputTokens: data.usageMetadata?.promptTokenCount,
+                outputTokens: data.usageMetadata?.candidatesTokenCount,
+            })
+        }
+
         const slides = JSON.parse(text)
         if (!Array.isArray(slides)) throw new Error('Not an array')
 
@@ -0,0 +1,65 @@
+// Index Sources - Chunk and embed source documents for retrieval
+// Backfills source_chunks for a space. Call repeatedly until remaining is 0;
+// pass reindex to rebuild documents that are already indexed.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { embeddingsAvailable } from '../_shared/embeddings.ts'
+import { indexPendingDocuments, type SourceType } from '../_shared/retrieval.ts'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Documents per call, to stay inside the edge function time limit
+const DEFAULT_LIMIT = 20
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const { space_id, document_ids, source_types, reindex, limit } = await req.json()
+
+        if (!space_id) {
+            return new Response(
+                JSON.stringify({ error: 'space_id is required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        if (!embeddingsAvailable()) {
+            return new Response(
+                JSON.stringify({ error: 'OPENAI_API_KEY not configured. Embeddings need it.' }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+        const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+        const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+        const summary = await indexPendingDocuments(supabase, space_id, {
+            documentIds: Array.isArray(document_ids) ? document_ids : undefined,
+            sourceTypes: Array.isArray(source_types) ? source_types as SourceType[] : undefined,
+            reindex: !!reindex,
+            limit: Math.min(Number(limit) || DEFAULT_LIMIT, 100),
+        })
+
+        console.log(`Indexed ${summary.indexed} documents (${summary.chunks} chunks) for space ${space_id}`)
+
+        return new Response(
+            JSON.stringify({ success: true, ...summary }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+
+    } catch (error) {
+        console.error('Error in index-sources:', error)
+        return new Response(
+            JSON.stringify({ error: 'Failed to index sources', details: String(error) }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+    }
+})
@@ -0,0 +1,158 @@
+// Ingest Document - Store an uploaded brand document as a source
+// Brand Studio reads the text of PDF, DOCX, PPTX, Markdown and text uploads
+// in the browser (_shared/document-extract.ts) and sends it here. The text is
+// kept in source_documents with source_type 'manual', one row per file name:
+// uploading the same file again replaces its text, and an unchanged upload is
+// left alone. New uploads start confirmed, so campaigns with use_manual on can
+// retrieve from them once they are chunked and embedded.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { MAX_DOCUMENT_CHARS, MIN_DOCUMENT_CHARS, documentFormat, titleFromFileName } from '../_shared/document-extract.ts'
+import { embeddingsAvailable } from '../_shared/embeddings.ts'
+import { sha256 } from '../_shared/hash.ts'
+import { indexDocument } from '../_shared/retrieval.ts'
+import { getBudgetStatus, resolveUsageUser } from '../_shared/usage-ledger.ts'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const { space_id, file_name, title, content, file_size, pages } = await req.json()
+
+        if (!space_id || !file_name || typeof content !== 'string') {
+            return new Response(
+                JSON.stringify({ error: 'space_id, file_name and content are required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const format = documentFormat(file_name)
+        if (!format) {
+            return new Response(
+                JSON.stringify({ error: `${file_name} is not a supported file type` }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const text = content.trim().slice(0, MAX_DOCUMENT_CHARS)
+        if (text.length < MIN_DOCUMENT_CHARS) {
+            return new Response(
+                JSON.stringify({ error: `No readable text was found in ${file_name}` }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+        const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+        const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+        // Embedding the chunks is metered, so uploads stop with the budget
+        const budget = await getBudgetStatus(supabase, space_id)
+        if (budget.blocked) {
+            return new Response(
+                JSON.stringify({ error: budget.message }),
+                { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const user = await resolveUsageUser(supabase, req)
+        const contentHash = await sha256(text)
+        const now = new Date().toISOString()
+        const metadata = {
+            file_name,
+            format,
+            file_size: Number(file_size) || null,
+            pages: Number(pages) || null,
+            uploaded_by: user?.id || null,
+            uploaded_at: now,
+        }
+
+        const { data: existing, error: existingError } = await supabase
+            .from('source_documents')
+            .select('id, content_hash, indexed_at')
+            .eq('space_id', space_id)
+            .eq('source_type', 'manual')
+            .eq('metadata->>file_name', file_name)
+            .maybeSingle()
+
+        if (existingError) throw existingError
+
+        if (existing && existing.content_hash === contentHash) {
+            return new Response(
+                JSON.stringify({ success: true, document_id: existing.id, status: 'unchanged', chunks: null }),
+                { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        let documentId: string
+        if (existing) {
+            // indexed_at is cleared so the chunks are rebuilt from the new text
+            const { error: updateError } = await supabase
+                .from('source_documents')
+                .update({
+                    title: title?.trim() || titleFromFileName(file_name),
+                    content: text,
+                    content_hash: contentHash,
+                    metadata,
+                    last_scanned: now,
+                    indexed_at: null,
+                    index_attempts: 0,
+                })
+                .eq('id', existing.id)
+
+            if (updateError) throw updateError
+            documentId = existing.id
+        } else {
+            const { data: inserted, error: insertError } = await supabase
+                .from('source_documents')
+                .insert({
+                    space_id,
+                    source_type: 'manual',
+                    title: title?.trim() || titleFromFileName(file_name),
+                    content: text,
+                    content_hash: contentHash,
+                    metadata,
+                    is_confirmed: true,
+                    last_scanned: now,
+                })
+                .select('id')
+                .single()
+
+            if (insertError) throw insertError
+            documentId = inserted.id
+        }
+
+        // Index now so the upload is retrievable straight away; index-sources
+        // picks it up later if this fails
+        let chunks: number | null = null
+        if (embeddingsAvailable()) {
+            try {
+                chunks = await indexDocument(supabase, { id: documentId, space_id, content: text })
+            } catch (indexError) {
+                console.error(`Error indexing ${file_name}:`, indexError)
+            }
+        }
+
+        console.log(`Ingested ${file_name} (${format}, ${text.length} chars) for space ${space_id}: ${existing ? 'updated' : 'created'}`)
+
+        return new Response(
+            JSON.stringify({ success: true, document_id: documentId, status: existing ? 'updated' : 'created', chunks }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+
+    } catch (error) {
+        console.error('Error in ingest-document:', error)
+        return new Response(
+            JSON.stringify({ error: 'Failed to ingest document', details: String(error) }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+    }
+})
@@ -0,0 +1,322 @@
+// Job Worker - processes background jobs from the jobs table
+// 1. Claims a queued job (or a specific job_id) via the claim_job RPC
+// 2. Works through progress.items one at a time, saving progress after each
+// 3. Stops early when the job is cancelled from the UI
+// 4. Re-queues itself before hitting the edge function time limit
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import {
+    MAX_ITEM_ATTEMPTS,
+    resolveJobOutcome,
+    summariseProgress,
+    type GenerateImageJobPayload,
+    type GenerateSeriesJobPayload,
+    type GenerateTextJobPayload,
+    type Job,
+    type JobItem,
+} from '../_shared/jobs.ts'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Leave headroom below the wall-clock limit to save progress and hand over
+const TIME_BUDGET_MS = 110_000
+const RETRY_DELAY_MS = 2000
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+Deno.serve(async (req) => {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const { job_id } = await req.json().catch(() => ({}))
+
+        const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+        const { data: claimed, error: claimError } = await supabase
+            .rpc('claim_job', { p_job_id: job_id || null })
+
+        if (claimError) throw claimError
+
+        const job = (claimed as Job[] | null)?.[0]
+        if (!job) {
+            return new Response(
+                JSON.stringify({ claimed: false, job_id: job_id || null }),
+                { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        // Respond straight away; the browser polls the jobs row for progress
+        EdgeRuntime.waitUntil(
+            runJob(supabase, job).catch(err => failJob(supabase, job.id, err))
+        )
+
+        return new Response(
+            JSON.stringify({ claimed: true, job_id: job.id, status: 'running' }),
+            { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+
+    } catch (error) {
+        console.error('Error in job-worker:', error)
+        return new Response(
+            JSON.stringify({ error: 'Internal server error', details: String(error) }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+    }
+})
+
+async function runJob(supabase: SupabaseClient, job: Job) {
+    const deadline = Date.now() + TIME_BUDGET_MS
+    const items: JobItem[] = (job.progress?.items || []).map(item =>
+        // An item left running belongs to a worker that died mid-item
+        item.status === 'running' ? { ...item, status: 'pending' } : item
+    )
+
+    const saveProgress = async (current: string | null, extra: Record<string, unknown> = {}) => {
+        await supabase
+            .from('jobs')
+            .update({
+                progress: summariseProgress(items, current),
+                heartbeat_at: new Date().toISOString(),
+                updated_at: new Date().toISOString(),
+                ...extra,
+            })
+            .eq('id', job.id)
+    }
+
+    // Out of time - hand the rest over to a fresh worker invocation
+    const handOff = async () => {
+        await saveProgress(null, { status: 'queued' })
+        await invokeFunction('job-worker', { job_id: job.id })
+    }
+
+    if (job.type === 'generate_text' && job.campaign_id) {
+        await supabase
+            .from('campaigns')
+            .update({ status: 'running', updated_at: new Date().toISOString() })
+            .eq('id', job.campaign_id)
+    }
+
+    for (let i = 0; i < items.length; i++) {
+        const item = items[i]
+        if (item.status !== 'pending') continue
+
+        // Cancellation is a status change made by the UI
+        const { data: current } = await supabase
+            .from('jobs')
+            .select('status')
+            .eq('id', job.id)
+            .single()
+
+        if (current?.status === 'cancelled') {
+            items.forEach(it => { if (it.status === 'pending') it.status = 'skipped' })
+            await saveProgress(null, { completed_at: new Date().toISOString() })
+            await finishCampaign(supabase, job)
+            return
+        }
+
+        if (Date.now() > deadline) {
+            await handOff()
+            return
+        }
+
+        item.status = 'running'
+        await saveProgress(item.label)
+
+        while (item.status === 'running') {
+            item.attempts += 1
+            try {
+                item.result = await processItem(supabase, job, item, i)
+                item.status = 'completed'
+                item.error = null
+            } catch (err) {
+                item.error = err instanceof Error ? err.message : String(err)
+                console.error(`Job ${job.id} item ${item.key} attempt ${item.attempts} failed:`, item.error)
+                if (item.attempts >= MAX_ITEM_ATTEMPTS) {
+                    item.status = 'failed'
+                } else if (Date.now() + RETRY_DELAY_MS > deadline) {
+                    // The next worker retries the item, keeping the attempts made so far
+                    item.status = 'pending'
+                    await handOff()
+                    return
+                } else {
+                    await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS))
+                }
+            }
+        }
+
+        await saveProgress(null)
+    }
+
+    // A cancel made while the last item was running still stands
+    const { data: final } = await supabase
+        .from('jobs')
+        .select('status')
+        .eq('id', job.id)
+        .single()
+
+    if (final?.status === 'cancelled') {
+        await saveProgress(null, { completed_at: new Date().toISOString() })
+        await finishCampaign(supabase, job)
+        return
+    }
+
+    const outcome = resolveJobOutcome(summariseProgress(items))
+    await saveProgress(null, {
+        status: outcome.status,
+        error: outcome.error,
+        completed_at: new Date().toISOString(),
+    })
+    await finishCampaign(supabase, job)
+}
+
+async function processItem(supabase: SupabaseClient, job: Job, item: JobItem, index: number): Promise<Record<string, unknown>> {
+    switch (job.type) {
+        case 'generate_text': {
+            const payload = job.payload as unknown as GenerateTextJobPayload
+            const data = await invokeFunction('generate-campaign-posts', {
+                campaign_id: payload.campaign_id,
+                idea_ids: [item.key],
+                ideas: [item.label],
+                count_to_generate: 1,
+                sequence_start: (payload.sequence_start || 1) + index,
+                job_id: job.id,
+                user_id: job.created_by,
+            })
+
+            if (!data.posts_created) {
+                throw new Error(data.errors?.[0]?.error || data.error || 'No post was created')
+            }
+            return { post_id: data.post_ids?.[0] || null }
+        }
+
+        case 'generate_image': {
+            const payload = job.payload as unknown as GenerateImageJobPayload
+            const { data: post, error: postError } = await supabase
+                .from('posts')
+                .select('body, image_prompt, image_settings')
+                .eq('id', item.key)
+                .single()
+
+            if (postError || !post) throw new Error('Post not found')
+
+            // Use image_prompt if available, otherwise generate from body
+            const prompt = post.image_prompt ||
+                `Professional LinkedIn post image about: ${post.body?.slice(0, 200) || 'business content'}`
+
+            const settings = post.image_settings || {
+                style: 'photographic',
+                include_people: true,
+                include_text: false,
+                include_logos: false,
+                aspect_ratio: '1:1',
+            }
+
+            const data = await invokeFunction('generate-post-images', {
+                post_id: item.key,
+                space_id: job.space_id,
+                prompt,
+                settings,
+                count: payload.count || 2,
+                job_id: job.id,
+                user_id: job.created_by,
+            })
+
+            if (!data.success) {
+                throw new Error(data.error || data.errors?.[0]?.error || 'No images were generated')
+            }
+            return { images: data.total_generated }
+        }
+
+        case 'classify_posts': {
+            const data = await invokeFunction('classify-posts', {
+                post_ids: [item.key],
+                job_id: job.id,
+                user_id: job.created_by,
+            })
+
+            const result = data.results?.[0]
+            if (!result || result.status === 'failed') {
+                throw new Error(result?.error || data.error || 'Post was not classified')
+            }
+            return { status: result.status, layer: result.layer || null, category: result.category || null }
+        }
+
+        case 'generate_series': {
+            // Items are part numbers, queued in order so each part can build on the last
+            const payload = job.payload as unknown as GenerateSeriesJobPayload
+            const data = await invokeFunction('write-series-part', {
+                series_id: payload.series_id,
+                part: Number(item.key),
+                job_id: job.id,
+                user_id: job.created_by,
+            })
+
+            if (!data.posts_created) {
+                throw new Error(data.error || 'No post was written')
+            }
+            return { post_id: data.post_ids?.[0] || null }
+        }
+
+        default:
+            throw new Error(`Job type ${job.type} is not handled by the worker`)
+    }
+}
+
+// Fields read from the generation functions' JSON responses
+interface FunctionResult {
+    success?: boolean
+    error?: string
+    errors?: { error: string }[]
+    posts_created?: number
+    post_ids?: string[]
+    total_generated?: number
+    results?: { status: string; layer?: string; category?: string; error?: string }[]
+}
+
+// Calls another edge function with the service role key
+async function invokeFunction(name: string, body: Record<string, unknown>): Promise<FunctionResult> {
+    const response = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${supabaseServiceKey}`,
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+    })
+
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok && !data.error) {
+        throw new Error(`${name} returned ${response.status}`)
+    }
+    return data
+}
+
+async function finishCampaign(supabase: SupabaseClient, job: Job) {
+    if (job.type !== 'generate_text' || !job.campaign_id) return
+
+    await supabase
+        .from('campaigns')
+        .update({ status: 'completed', updated_at: new Date().toISOString() })
+        .eq('id', job.campaign_id)
+}
+
+async function failJob(supabase: SupabaseClient, jobId: string, err: unknown) {
+    console.error(`Job ${jobId} crashed:`, err)
+    await supabase
+        .from('jobs')
+        .update({
+            status: 'failed',
+            error: err instanceof Error ? err.message : String(err),
+            completed_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', jobId)
+}
@@ -0,0 +1,146 @@
+// Plan Series - Split one long source document into a multi-part post series
+// The source is a crawled/synced source document or pasted text. The model
+// returns a narrative arc and a title, summary and key points per part, stored
+// on post_series.plan. Nothing is written yet: the client then queues a
+// generate_series job, which writes the parts in order with write-series-part.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { createTextLLM, type LLMClient } from '../_shared/llm.ts'
+import { getBudgetStatus, resolveUsageUser, trackUsage } from '../_shared/usage-ledger.ts'
+import {
+    DEFAULT_SERIES_POST_TIME,
+    DEFAULT_SERIES_SPACING_DAYS,
+    SERIES_PLAN_SYSTEM_PROMPT,
+    buildSeriesPlanPrompt,
+    clampSeriesParts,
+    normaliseSeriesPlan,
+} from '../_shared/series.ts'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Shorter sources do not hold enough for several distinct parts
+const MIN_SOURCE_CHARS = 500
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const { space_id, title, source_document_id, source_text, part_count, spacing_days, post_time } = await req.json()
+
+        if (!space_id || (!source_document_id && !source_text?.trim())) {
+            return new Response(
+                JSON.stringify({ error: 'space_id and a source_document_id or source_text are required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+        const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+        const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+        let source = typeof source_text === 'string' ? source_text.trim() : ''
+        let sourceTitle: string | null = null
+        if (source_document_id) {
+            const { data: document, error: documentError } = await supabase
+                .from('source_documents')
+                .select('title, content')
+                .eq('id', source_document_id)
+                .eq('space_id', space_id)
+                .single()
+
+            if (documentError || !document) {
+                return new Response(
+                    JSON.stringify({ error: 'Source document not found' }),
+                    { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                )
+            }
+            source = document.content?.trim() || ''
+            sourceTitle = document.title
+        }
+
+        if (source.length < MIN_SOURCE_CHARS) {
+            return new Response(
+                JSON.stringify({ error: `The source needs at least ${MIN_SOURCE_CHARS} characters to plan a series` }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const budget = await getBudgetStatus(supabase, space_id)
+        if (budget.blocked) {
+            return new Response(
+                JSON.stringify({ error: budget.message }),
+                { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const { data: aiSettings } = await supabase
+            .from('ai_settings')
+            .select('text_provider, text_model')
+            .eq('space_id', space_id)
+            .maybeSingle()
+
+        const user = await resolveUsageUser(supabase, req)
+
+        let llm: LLMClient
+        try {
+            llm = trackUsage(createTextLLM(aiSettings), supabase, {
+                spaceId: space_id,
+                feature: 'series_planning',
+                userId: user?.id,
+                userEmail: user?.email,
+            })
+        } catch (err) {
+            return new Response(
+                JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const partCount = clampSeriesParts(part_count)
+        const { data: rawPlan } = await llm.completeJSON({
+            system: SERIES_PLAN_SYSTEM_PROMPT,
+            prompt: buildSeriesPlanPrompt({ source, partCount, title: title?.trim() || null }),
+            temperature: 0.5,
+            maxTokens: 2000,
+        })
+        const { title: plannedTitle, ...plan } = normaliseSeriesPlan(rawPlan, partCount)
+
+        const { data: series, error: seriesError } = await supabase
+            .from('post_series')
+            .insert({
+                space_id,
+                title: title?.trim() || plannedTitle || sourceTitle || 'Untitled series',
+                description: plan.arc || null,
+                plan,
+                source_document_id: source_document_id || null,
+                source_text: source_document_id ? null : source,
+                spacing_days: Math.max(1, Math.round(Number(spacing_days)) || DEFAULT_SERIES_SPACING_DAYS),
+                post_time: post_time || DEFAULT_SERIES_POST_TIME,
+                created_by: user?.id || null,
+            })
+            .select()
+            .single()
+
+        if (seriesError) throw seriesError
+
+        console.log(`Planned ${partCount}-part series ${series.id} for space ${space_id}`)
+
+        return new Response(
+            JSON.stringify({ success: true, series }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+
+    } catch (error) {
+        console.error('Error in plan-series:', error)
+        return new Response(
+            JSON.stringify({ error: 'Failed to plan series', details: String(error) }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+    }
+})
@@ -0,0 +1,332 @@
+// Repurpose Document - Turn one source document into a pack of draft posts
+// Takes a crawled page or synced document from source_documents and writes, in
+// one model call, several LinkedIn posts across the chosen content layers with
+// a suggested image prompt each, and optionally a carousel outline. Everything
+// lands as draft posts in the chosen campaign, with the document recorded in
+// sources_used. The carousel post keeps its slide outline in
+// generation_meta.repurpose.carousel, which Image Studio opens as slide prompts.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { createTextLLM, type LLMClient } from '../_shared/llm.ts'
+import type { SourceUsed } from '../_shared/grounding.ts'
+import { applyStyleRules, buildStyleInstructions, normaliseStyleRules } from '../_shared/style-rules.ts'
+import { buildRevision } from '../_shared/revisions.ts'
+import { getBudgetStatus, resolveUsageUser, trackUsage, type UsageContext } from '../_shared/usage-ledger.ts'
+import { classificationColumns, classifyPostBody } from '../_shared/post-classifier.ts'
+import type { ClassificationMeta } from '../_shared/classification.ts'
+import { checkPostDuplicates, loadSpaceSignatures, postGroup } from '../_shared/duplicates.ts'
+import {
+    MIN_REPURPOSE_SOURCE_CHARS,
+    REPURPOSE_SYSTEM_PROMPT,
+    buildRepurposePrompt,
+    carouselPostBody,
+    clampPackPosts,
+    normalisePackLayers,
+    normaliseRepurposePack,
+} from '../_shared/repurpose.ts'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const { source_document_id, campaign_id, post_count, layers, include_carousel = true } = await req.json()
+
+        if (!source_document_id || !campaign_id) {
+            return new Response(
+                JSON.stringify({ error: 'source_document_id and campaign_id are required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+        const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+        const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+        const { data: document, error: documentError } = await supabase
+            .from('source_documents')
+            .select('id, space_id, source_type, url, title, content')
+            .eq('id', source_document_id)
+            .single()
+
+        if (documentError || !document) {
+            return new Response(
+                JSON.stringify({ error: 'Source document not found' }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const { data: campaign, error: campaignError } = await supabase
+            .from('campaigns')
+            .select('id, space_id, created_by')
+            .eq('id', campaign_id)
+            .eq('space_id', document.space_id)
+            .single()
+
+        if (campaignError || !campaign) {
+            return new Response(
+                JSON.stringify({ error: 'Campaign not found' }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const content = document.content?.trim() || ''
+        if (content.length < MIN_REPURPOSE_SOURCE_CHARS) {
+            return new Response(
+                JSON.stringify({ error: `The document needs at least ${MIN_REPURPOSE_SOURCE_CHARS} characters of text to repurpose` }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const budget = await getBudgetStatus(supabase, document.space_id)
+        if (budget.blocked) {
+            return new Response(
+                JSON.stringify({ error: budget.message }),
+                { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const { data: aiSettings } = await supabase
+            .from('ai_settings')
+            .select('text_provider, text_model')
+            .eq('space_id', document.space_id)
+            .maybeSingle()
+
+        const user = await resolveUsageUser(supabase, req)
+        const authorId = user?.id || campaign.created_by
+
+        const usageContext: Omit<UsageContext, 'feature'> = {
+            spaceId: document.space_id,
+            userId: user?.id,
+            userEmail: user?.email,
+            campaignId: campaign.id,
+        }
+
+        let llm: LLMClient
+        let classifyLLM: LLMClient
+        try {
+            const textLLM = createTextLLM(aiSettings)
+            llm = trackUsage(textLLM, supabase, { ...usageContext, feature: 'document_repurpose' })
+            classifyLLM = trackUsage(textLLM, supabase, { ...usageContext, feature: 'post_classification' })
+        } catch (err) {
+            return new Response(
+                JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const { data: brandProfile } = await supabase
+            .from('brand_profile')
+            .select('who_we_are, what_we_do, who_we_serve, tone_notes')
+            .eq('space_id', document.space_id)
+            .maybeSingle()
+
+        const { data: contextCache } = await supabase
+            .from('brand_context_cache')
+            .select('detected_name')
+            .eq('space_id', document.space_id)
+            .maybeSingle()
+
+        const { data: styleRow } = await supabase
+            .from('style_rules')
+            .select('rules')
+            .eq('space_id', document.space_id)
+            .maybeSingle()
+
+        const brandName = contextCache?.detected_name || null
+        const styleRules = normaliseStyleRules(styleRow?.rules)
+        const brandContext = [
+            brandProfile?.who_we_are ? `Who we are: ${brandProfile.who_we_are}` : '',
+            brandProfile?.what_we_do ? `What we do: ${brandProfile.what_we_do}` : '',
+            brandProfile?.who_we_serve ? `Who we serve: ${brandProfile.who_we_serve}` : '',
+            brandProfile?.tone_notes ? `Tone: ${brandProfile.tone_notes}` : '',
+        ].filter(Boolean).join('\n')
+
+        const systemPrompt = `${REPURPOSE_SYSTEM_PROMPT}${brandName ? `\n\nYou write for ${brandName}.` : ''}
+
+HOUSE STYLE:
+${buildStyleInstructions(styleRules, {}).map(line => `- ${line}`).join('\n')}
+${brandContext ? `\nBRAND CONTEXT:\n${brandContext}` : ''}`
+
+        const postCount = clampPackPosts(post_count)
+        const packLayers = normalisePackLayers(layers)
+        const { data: rawPack, response: completion } = await llm.completeJSON({
+            system: systemPrompt,
+            prompt: buildRepurposePrompt({
+                document: { title: document.title, url: document.url, content },
+                postCount,
+                layers: packLayers,
+                includeCarousel: !!include_carousel,
+            }),
+            temperature: 0.7,
+            maxTokens: 4000,
+        })
+        const pack = normaliseRepurposePack(rawPack, postCount, packLayers)
+
+        // New posts go after the campaign's existing ones
+        const { data: lastPost } = await supabase
+            .from('posts')
+            .select('sequence_number')
+            .eq('campaign_id', campaign.id)
+            .order('sequence_number', { ascending: false, nullsFirst: false })
+            .limit(1)
+            .maybeSingle()
+        const sequenceStart = (lastPost?.sequence_number || 0) + 1
+
+        const sourcesUsed: SourceUsed[] = [{
+            type: document.source_type,
+            id: document.id,
+            name: document.title || document.url || undefined,
+        }]
+
+        // The carousel is saved as one more post, classified like the others
+        const drafts = pack.posts.map(post => ({ ...post, carousel: null as typeof pack.carousel }))
+        if (pack.carousel) {
+            drafts.push({
+                title: pack.carousel.title,
+                body: carouselPostBody(pack.carousel),
+                layer: packLayers[0],
+                category: null,
+                image_prompt: pack.carousel.slides[0].image_prompt,
+                carousel: pack.carousel,
+            })
+        }
+
+        const spacePosts = await loadSpaceSignatures(supabase, document.space_id)
+        // The pack's posts share a source, so they are grouped and not flagged as duplicates of each other
+        const packId = crypto.randomUUID()
+        const postIds: string[] = []
+        const errors: { title: string; error: string }[] = []
+
+        for (const [i, draft] of drafts.entries()) {
+            const styled = applyStyleRules(draft.body, styleRules, {})
+
+            // The pack planned the layer; classify within it when the category was left open
+            const plannedMeta: ClassificationMeta = { source: 'repurpose' }
+            let classification: Record<string, unknown> = draft.category
+                ? {
+                    content_layer: draft.layer,
+                    content_category: draft.category,
+                    classification_status: 'auto',
+                    classification_meta: plannedMeta,
+                    classified_at: new Date().toISOString(),
+                }
+                : { content_layer: draft.layer, content_category: null }
+
+            if (!draft.category) {
+                try {
+                    const result = await classifyPostBody(classifyLLM, { title: draft.title, body: styled.text }, draft.layer)
+                    if (result) classification = classificationColumns(result, classifyLLM)
+                } catch (classifyError) {
+                    console.error('Error classifying post:', classifyError)
+                }
+            }
+
+            const { data: post, error: postError } = await supabase
+                .from('posts')
+                .insert({
+                    space_id: document.space_id,
+                    campaign_id: campaign.id,
+                    title: draft.title,
+                    topic: draft.title,
+                    body: styled.text,
+                    status: 'draft',
+                    author_id: authorId,
+                    sequence_number: sequenceStart + i,
+                    ...classification,
+                    sources_used: sourcesUsed,
+                    image_prompt: draft.image_prompt || null,
+                    image_status: draft.image_prompt ? 'prompt_ready' : 'none',
+                    overlay_status: 'none',
+                    generation_meta: {
+                        provider: completion.provider,
+                        model: completion.model,
+                        // Token counts cover the whole pack
+                        tokens: completion.usage.totalTokens,
+                        input_tokens: completion.usage.inputTokens,
+                        output_tokens: completion.usage.outputTokens,
+                        generated_at: new Date().toISOString(),
+                        repurpose: {
+                            document_id: document.id,
+                            pack_id: packId,
+                            pack_size: drafts.length,
+                            carousel: draft.carousel,
+                        },
+                        style: {
+                            changes: styled.changes,
+                            issues: styled.issues,
+                        },
+                    },
+                })
+                .select('id, created_at')
+                .single()
+
+            if (postError || !post) {
+                console.error('Error creating post:', postError)
+                errors.push({ title: draft.title, error: postError?.message || 'Failed to create post' })
+                continue
+            }
+            postIds.push(post.id)
+
+            const { error: revisionError } = await supabase
+                .from('post_revisions')
+                .insert(buildRevision({
+                    postId: post.id,
+                    spaceId: document.space_id,
+                    title: draft.title,
+                    body: styled.text,
+                    source: 'ai_generation',
+                    authorId: user?.id,
+                    authorEmail: user?.email,
+                }))
+
+            if (revisionError) {
+                console.error('Error recording post revision:', revisionError)
+            }
+
+            try {
+                await checkPostDuplicates(supabase, {
+                    id: post.id,
+                    space_id: document.space_id,
+                    created_at: post.created_at,
+                    status: 'draft',
+                    body: styled.text,
+                    group: postGroup({ pack_id: packId }),
+                }, spacePosts)
+            } catch (duplicateError) {
+                console.error('Error recording duplicates:', duplicateError)
+            }
+        }
+
+        if (postIds.length === 0) {
+            throw new Error(errors[0]?.error || 'No posts were saved')
+        }
+
+        console.log(`Repurposed document ${document.id} into ${postIds.length} posts for campaign ${campaign.id}`)
+
+        return new Response(
+            JSON.stringify({
+                success: true,
+                posts_created: postIds.length,
+                post_ids: postIds,
+                carousel_post_id: pack.carousel && drafts.length === postIds.length ? postIds[postIds.length - 1] : null,
+                errors,
+            }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+
+    } catch (error) {
+        console.error('Error in repurpose-document:', error)
+        return new Response(
+            JSON.stringify({ error: 'Failed to repurpose document', details: String(error) }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+    }
+})
@@ -0,0 +1,149 @@
+// Rewrite Post - Propose a new body for a post from one instruction
+// Presets ("shorter", "stronger hook", ...) and free text are resolved in
+// _shared/rewrite.ts. The house style is applied to the result, which is
+// returned for review and not saved: the client shows it as a diff and
+// records the instruction in generation_meta.rewrites when it is accepted.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { createTextLLM, type LLMClient } from '../_shared/llm.ts'
+import { applyStyleRules, buildStyleInstructions, normaliseStyleRules, type StyleContext } from '../_shared/style-rules.ts'
+import { buildRewritePrompt, buildRewriteSystemPrompt, isRewritePreset, resolveRewriteInstruction } from '../_shared/rewrite.ts'
+import { getBudgetStatus, resolveUsageUser, trackUsage } from '../_shared/usage-ledger.ts'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const { post_id, preset, instruction: instructionText } = await req.json()
+        const instruction = resolveRewriteInstruction(preset, instructionText)
+
+        if (!post_id || !instruction) {
+            return new Response(
+                JSON.stringify({ error: 'post_id and a preset or instruction are required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+        const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+        const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+        const { data: post, error: postError } = await supabase
+            .from('posts')
+            .select('id, space_id, campaign_id, title, body')
+            .eq('id', post_id)
+            .single()
+
+        if (postError || !post) {
+            return new Response(
+                JSON.stringify({ error: 'Post not found' }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        if (!post.body) {
+            return new Response(
+                JSON.stringify({ error: 'Post has no content body' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const budget = await getBudgetStatus(supabase, post.space_id)
+        if (budget.blocked) {
+            return new Response(
+                JSON.stringify({ error: budget.message }),
+                { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const { data: aiSettings } = await supabase
+            .from('ai_settings')
+            .select('text_provider, text_model')
+            .eq('space_id', post.space_id)
+            .maybeSingle()
+
+        const user = await resolveUsageUser(supabase, req)
+
+        let llm: LLMClient
+        try {
+            llm = trackUsage(createTextLLM(aiSettings), supabase, {
+                spaceId: post.space_id,
+                feature: 'post_rewrite',
+                userId: user?.id,
+                userEmail: user?.email,
+                campaignId: post.campaign_id,
+                postId: post.id,
+            })
+        } catch (err) {
+            return new Response(
+                JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const { data: styleRow } = await supabase
+            .from('style_rules')
+            .select('rules')
+            .eq('space_id', post.space_id)
+            .maybeSingle()
+
+        // The campaign's emoji/hashtag settings, when the post belongs to one
+        let styleContext: StyleContext = {}
+        if (post.campaign_id) {
+            const { data: campaign } = await supabase
+                .from('campaigns')
+                .select('generation_settings')
+                .eq('id', post.campaign_id)
+                .maybeSingle()
+            styleContext = campaign?.generation_settings || {}
+        }
+
+        const styleRules = normaliseStyleRules(styleRow?.rules)
+
+        const completion = await llm.complete({
+            system: buildRewriteSystemPrompt(buildStyleInstructions(styleRules, styleContext)),
+            prompt: buildRewritePrompt({ title: post.title, body: post.body }, instruction),
+            temperature: 0.5,
+            maxTokens: 1000,
+        })
+
+        if (!completion.text) {
+            throw new Error('Model returned an empty rewrite')
+        }
+
+        const styled = applyStyleRules(completion.text, styleRules, styleContext)
+
+        console.log(`Rewrote post ${post_id} (${isRewritePreset(preset) ? preset : 'custom'}): ${post.body.length} -> ${styled.text.length} chars`)
+
+        return new Response(
+            JSON.stringify({
+                success: true,
+                body: styled.text,
+                instruction,
+                preset: isRewritePreset(preset) ? preset : null,
+                provider: completion.provider,
+                model: completion.model,
+                style: {
+                    changes: styled.changes,
+                    issues: styled.issues,
+                },
+            }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+
+    } catch (error) {
+        console.error('Error in rewrite-post:', error)
+        return new Response(
+            JSON.stringify({ error: 'Failed to rewrite post', details: String(error) }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+    }
+})
@@ -1,446 +1,1088 @@
-import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+// SharePoint Sync - Turn a SharePoint folder into brand sources and training data
+// Actions:
+// - scan: count the files added, changed and removed since the last sync and
+//   estimate the cost of processing them
+// - start_sync: list those changes as sync_progress_files rows and work
+//   through them in the background
+// - cancel: stop a sync after the file it is on
+// - resume: carry on with a cancelled, failed or stopped sync
+// - check_progress: read a sync_progress row
+// Changes come from Microsoft Graph delta queries: the first sync of a folder
+// lists every file, later syncs only what changed since the saved delta link.
+// Files are addressed by drive item ID. Each new or changed file is downloaded,
+// its text extracted (_shared/document-extract.ts), used to write training
+// examples and brand knowledge, then stored in source_documents and indexed.
+// Deleted files, and files moved out of the folder, are removed from
+// source_documents. The delta link is saved only once every file is done, so
+// changes left by a cancelled or failed sync are picked up by the next one.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import {
+    MAX_DOCUMENT_CHARS,
+    MAX_UPLOAD_BYTES,
+    MIN_DOCUMENT_CHARS,
+    documentFormat,
+    extractDocumentText,
+} from '../_shared/document-extract.ts'
+import { embeddingsAvailable } from '../_shared/embeddings.ts'
+import { DEFAULT_TEXT_MODELS, createTextLLM, type LLMClient } from '../_shared/llm.ts'
+import { indexDocument } from '../_shared/retrieval.ts'
+import { estimateTokenCost } from '../_shared/usage.ts'
+import { getBudgetStatus, resolveUsageUser, trackUsage, type UsageUser } from '../_shared/usage-ledger.ts'
 
 const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const GRAPH_URL = 'https://graph.microsoft.com/v1.0'
+const DELTA_SELECT = 'id,name,size,file,folder,root,deleted,parentReference,cTag,webUrl'
+const GRAPH_TIMEOUT_MS = 30_000
+const DOWNLOAD_TIMEOUT_MS = 60_000
+
+// Leave headroom below the wall-clock limit to save progress and hand over
+const TIME_BUDGET_MS = 110_000
+// A sync whose heartbeat is older than this has stopped and can be resumed
+const STALE_SYNC_MS = 5 * 60 * 1000
+
 // Token estimation: ~4 chars per token on average
 const CHARS_PER_TOKEN = 4
-const GPT4O_MINI_INPUT_COST = 0.00015 // per 1K tokens
-const GPT4O_MINI_OUTPUT_COST = 0.0006 // per 1K tokens
+const PAGE_SIZE = 1000
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+type SyncMode = 'full' | 'delta'
+type FileChangeType = 'added' | 'changed' | 'deleted'
+type FileStatus = 'pending' | 'processing' | 'completed' | 'skipped' | 'failed'
+
+interface DriveItem {
+    id: string
+    name?: string
+    size?: number
+    file?: Record<string, unknown>
+    folder?: Record<string, unknown>
+    root?: Record<string, unknown>
+    deleted?: Record<string, unknown>
+    parentReference?: { id?: string }
+    cTag?: string
+    webUrl?: string
+}
+
+interface SyncedDocumentMetadata {
+    drive_id?: string
+    drive_item_id?: string
+    parent_id?: string | null
+    sync_folder_id?: string
+    ctag?: string | null
+}
+
+interface SyncedDocument {
+    id: string
+    title: string | null
+    metadata: SyncedDocumentMetadata | null
+}
+
+interface FileChange {
+    drive_item_id: string
+    name: string
+    parent_id: string | null
+    size: number | null
+    ctag: string | null
+    web_url: string | null
+    change: FileChangeType
+}
+
+interface SyncPlan {
+    mode: SyncMode
+    deltaLink: string
+    // Folder item ID -> parent item ID for every folder inside the synced folder
+    folders: Record<string, string>
+    changes: FileChange[]
+    // Files that only changed name, renamed in place without reprocessing
+    renamed: { id: string; title: string }[]
+    unsupportedFiles: number
+}
+
+interface SyncRow {
+    id: string
+    space_id: string
+    drive_id: string
+    folder_id: string
+    status: string
+    next_delta_link: string | null
+    folders: Record<string, string> | null
+    actual_tokens: number | null
+    actual_cost: number | null
+    error_log: { file?: string; error: string }[] | null
+}
+
+interface SyncFileRow extends FileChange {
+    id: string
+    status: FileStatus
+}
 
 interface ScanResult {
-  total_files: number
-  supported_files: number
-  skipped_files: number
-  estimated_tokens: number
-  estimated_cost: number
-  estimated_time_minutes: number
-  files: { name: string; size: number; type: string; supported: boolean }[]
+    sync_mode: SyncMode
+    total_files: number
+    supported_files: number
+    skipped_files: number
+    deleted_files: number
+    estimated_tokens: number
+    estimated_cost: number
+    estimated_time_minutes: number
+    files: { name: string; size: number; type: string; change: FileChangeType }[]
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
-
-  try {
-    const { action, space_id, site_id, drive_id, folder_id } = await req.json()
-    
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
-
-    // Get SharePoint connection
-    const { data: connection, error: connError } = await supabase
-      .from('sharepoint_connections')
-      .select('access_token, refresh_token, token_expires_at')
-      .eq('space_id', space_id)
-      .single()
-
-    if (connError || !connection) {
-      return new Response(
-        JSON.stringify({ error: 'SharePoint not connected' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
     }
 
-    // Check if token needs refresh
-    let accessToken = connection.access_token
+    try {
+        const { action, space_id, site_id, drive_id, folder_id, sync_id } = await req.json()
+
+        if (!space_id) {
+            return new Response(
+                JSON.stringify({ error: 'space_id is required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+        if (action === 'check_progress' || action === 'cancel') {
+            if (!sync_id) {
+                return new Response(
+                    JSON.stringify({ error: 'sync_id is required' }),
+                    { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                )
+            }
+
+            if (action === 'cancel') {
+                // The running sync sees the status change before its next file
+                const { error: cancelError } = await supabase
+                    .from('sync_progress')
+                    .update({ status: 'cancelled' })
+                    .eq('id', sync_id)
+                    .eq('space_id', space_id)
+                    .in('status', ['processing', 'queued'])
+
+                if (cancelError) throw cancelError
+            }
+
+            const { data: progress, error: progressError } = await supabase
+                .from('sync_progress')
+                .select('*')
+                .eq('id', sync_id)
+                .eq('space_id', space_id)
+                .single()
+
+            if (progressError) throw progressError
+
+            return new Response(
+                JSON.stringify(progress),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const accessToken = await getAccessToken(supabase, space_id)
+        if (!accessToken) {
+            return new Response(
+                JSON.stringify({ error: 'SharePoint not connected' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        if (action === 'scan') {
+            if (!drive_id) {
+                return new Response(
+                    JSON.stringify({ error: 'drive_id is required' }),
+                    { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                )
+            }
+
+            // Estimate cost/time with the space's text model
+            const { data: aiSettings } = await supabase
+                .from('ai_settings')
+                .select('text_model')
+                .eq('space_id', space_id)
+                .maybeSingle()
+
+            const plan = await planSync(supabase, accessToken, space_id, drive_id, folder_id || '')
+            const scanResult = summarisePlan(plan, aiSettings?.text_model)
+
+            return new Response(
+                JSON.stringify(scanResult),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        if (action === 'start_sync' || action === 'resume') {
+            const budget = await getBudgetStatus(supabase, space_id)
+            if (budget.blocked) {
+                return new Response(
+                    JSON.stringify({ error: budget.message }),
+                    { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                )
+            }
+
+            const user = await resolveUsageUser(supabase, req)
+            let sync: SyncRow
+
+            if (action === 'start_sync') {
+                if (!drive_id) {
+                    return new Response(
+                        JSON.stringify({ error: 'drive_id is required' }),
+                        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                    )
+                }
+
+                const scopeFolderId = folder_id || ''
+                const running = await findRunningSync(supabase, space_id, drive_id, scopeFolderId)
+                if (running) {
+                    return new Response(
+                        JSON.stringify({ error: 'This folder is already syncing', sync_id: running.id }),
+                        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                    )
+                }
+
+                const now = new Date().toISOString()
+                const { data: created, error: syncError } = await supabase
+                    .from('sync_progress')
+                    .insert({
+                        space_id,
+                        source_type: 'sharepoint',
+                        source_path: `${site_id}/${drive_id}/${folder_id || 'root'}`,
+                        drive_id,
+                        folder_id: scopeFolderId,
+                        status: 'processing',
+                        started_at: now,
+                        heartbeat_at: now,
+                    })
+                    .select()
+                    .single()
+
+                if (syncError) throw syncError
+                sync = created as SyncRow
+            } else {
+                if (!sync_id) {
+                    return new Response(
+                        JSON.stringify({ error: 'sync_id is required' }),
+                        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                    )
+                }
+
+                const { data: existing, error: existingError } = await supabase
+                    .from('sync_progress')
+                    .select('*')
+                    .eq('id', sync_id)
+                    .eq('space_id', space_id)
+                    .single()
+
+                if (existingError) throw existingError
+
+                const stopped = existing.status === 'processing' &&
+                    (!existing.heartbeat_at || Date.now() - new Date(existing.heartbeat_at).getTime() > STALE_SYNC_MS)
+                if (!['cancelled', 'failed', 'queued'].includes(existing.status) && !stopped) {
+                    return new Response(
+                        JSON.stringify({ error: `A ${existing.status} sync cannot be resumed` }),
+                        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+                    )
+                }
+
+                const { error: resumeError } = await supabase
+                    .from('sync_progress')
+                    .update({ status: 'processing', heartbeat_at: new Date().toISOString(), completed_at: null })
+                    .eq('id', sync_id)
+
+                if (resumeError) throw resumeError
+
+                // A file left processing belongs to a sync that stopped mid-file
+                await supabase
+                    .from('sync_progress_files')
+                    .update({ status: 'pending', updated_at: new Date().toISOString() })
+                    .eq('sync_id', sync_id)
+                    .eq('status', 'processing')
+
+                sync = existing as SyncRow
+            }
+
+            // Respond straight away; the browser polls sync_progress
+            EdgeRuntime.waitUntil(
+                runSync(supabase, accessToken, sync, user).catch(err => failSync(supabase, sync.id, err))
+            )
+
+            return new Response(
+                JSON.stringify({ sync_id: sync.id, status: action === 'resume' ? 'resumed' : 'started' }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        return new Response(
+            JSON.stringify({ error: 'Unknown action' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+
+    } catch (error) {
+        console.error('Error in sharepoint-sync:', error)
+        return new Response(
+            JSON.stringify({ error: 'Failed to sync SharePoint', details: String(error) }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+    }
+})
+
+// The space's Graph access token, refreshed when it has expired
+async function getAccessToken(supabase: SupabaseClient, spaceId: string): Promise<string | null> {
+    const { data: connection, error } = await supabase
+        .from('sharepoint_connections')
+        .select('access_token, refresh_token, token_expires_at')
+        .eq('space_id', spaceId)
+        .single()
+
+    if (error || !connection) return null
+
     if (new Date(connection.token_expires_at) < new Date()) {
-      accessToken = await refreshToken(supabase, space_id, connection.refresh_token)
+        return await refreshToken(supabase, spaceId, connection.refresh_token)
     }
+    return connection.access_token
+}
 
-    if (action === 'scan') {
-      // Scan folder and estimate cost/time
-      const scanResult = await scanFolder(accessToken, drive_id, folder_id)
-      
-      return new Response(
-        JSON.stringify(scanResult),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+async function refreshToken(supabase: SupabaseClient, spaceId: string, refreshToken: string): Promise<string> {
+    const clientId = Deno.env.get('MICROSOFT_CLIENT_ID')!
+    const clientSecret = Deno.env.get('MICROSOFT_CLIENT_SECRET')!
+
+    const tokenResponse = await fetch('https://login.microsoftonline.com/common/oauth2/v2.0/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            client_id: clientId,
+            client_secret: clientSecret,
+            refresh_token: refreshToken,
+            grant_type: 'refresh_token',
+            scope: 'https://graph.microsoft.com/.default offline_access',
+        }),
+        signal: AbortSignal.timeout(GRAPH_TIMEOUT_MS),
+    })
+
+    const tokens = await tokenResponse.json()
+    if (!tokenResponse.ok || !tokens.access_token) {
+        throw new Error(`SharePoint token refresh failed: ${tokens.error_description || tokens.error || tokenResponse.status}`)
     }
 
-    if (action === 'start_sync') {
-      // Create sync progress record
-      const { data: syncJob, error: syncError } = await supabase
+    await supabase.from('sharepoint_connections').update({
+        access_token: tokens.access_token,
+        refresh_token: tokens.refresh_token || refreshToken,
+        token_expires_at: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
+    }).eq('space_id', spaceId)
+
+    return tokens.access_token
+}
+
+async function findRunningSync(supabase: SupabaseClient, spaceId: string, driveId: string, folderId: string) {
+    const { data } = await supabase
         .from('sync_progress')
-        .insert({
-          space_id,
-          source_type: 'sharepoint',
-          source_path: `${site_id}/${drive_id}/${folder_id || 'root'}`,
-          status: 'processing',
-          started_at: new Date().toISOString(),
+        .select('id, heartbeat_at')
+        .eq('space_id', spaceId)
+        .eq('drive_id', driveId)
+        .eq('folder_id', folderId)
+        .in('status', ['processing', 'queued'])
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+    if (!data?.heartbeat_at || Date.now() - new Date(data.heartbeat_at).getTime() > STALE_SYNC_MS) return null
+    return data
+}
+
+// Pages through a delta query. Returns null when Graph no longer accepts the
+// delta link and the folder has to be listed in full again.
+async function fetchDelta(accessToken: string, url: string): Promise<{ items: DriveItem[]; deltaLink: string } | null> {
+    // An item can appear on more than one page; the last one is current
+    const items = new Map<string, DriveItem>()
+    let next: string | undefined = url
+
+    while (next) {
+        const response = await fetch(next, {
+            headers: { 'Authorization': `Bearer ${accessToken}` },
+            signal: AbortSignal.timeout(GRAPH_TIMEOUT_MS),
         })
-        .select()
-        .single()
 
-      if (syncError) throw syncError
+        if (response.status === 410) return null
+        if (!response.ok) {
+            throw new Error(`Graph delta query failed (${response.status}): ${(await response.text()).slice(0, 200)}`)
+        }
 
-      // Start processing in background (fire and forget for demo)
-      // In production, this would be a proper queue/worker
-      processDocuments(supabase, accessToken, space_id, drive_id, folder_id, syncJob.id)
-        .catch(err => console.error('Background processing error:', err))
+        const page = await response.json()
+        for (const item of (page.value || []) as DriveItem[]) items.set(item.id, item)
 
-      return new Response(
-        JSON.stringify({ sync_id: syncJob.id, status: 'started' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+        if (page['@odata.deltaLink']) {
+            return { items: [...items.values()], deltaLink: page['@odata.deltaLink'] }
+        }
+        next = page['@odata.nextLink']
     }
 
-    if (action === 'check_progress') {
-      const { sync_id } = await req.json()
-      
-      const { data: progress } = await supabase
-        .from('sync_progress')
-        .select('*')
-        .eq('id', sync_id)
-        .single()
+    throw new Error('Graph delta query ended without a delta link')
+}
 
-      return new Response(
-        JSON.stringify(progress),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+async function loadSyncedDocuments(supabase: SupabaseClient, spaceId: string): Promise<SyncedDocument[]> {
+    const documents: SyncedDocument[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from('source_documents')
+            .select('id, title, metadata')
+            .eq('space_id', spaceId)
+            .eq('source_type', 'sharepoint')
+            .order('id')
+            .range(from, from + PAGE_SIZE - 1)
+
+        if (error) throw error
+        documents.push(...((data || []) as SyncedDocument[]))
+        if (!data || data.length < PAGE_SIZE) return documents
     }
+}
 
-    return new Response(
-      JSON.stringify({ error: 'Unknown action' }),
-      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
-
-  } catch (error) {
-    console.error('Error:', error)
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
-  }
-})
+// Works out which files to add, update and remove. Graph only supports delta
+// queries on a drive's root in SharePoint, so a folder sync reads the drive's
+// changes and keeps those inside the folder, tracking its subfolders by ID.
+async function planSync(supabase: SupabaseClient, accessToken: string, spaceId: string, driveId: string, folderId: string): Promise<SyncPlan> {
+    const { data: state } = await supabase
+        .from('sharepoint_sync_state')
+        .select('delta_link, folders')
+        .eq('space_id', spaceId)
+        .eq('drive_id', driveId)
+        .eq('folder_id', folderId)
+        .maybeSingle()
 
-async function refreshToken(supabase: any, spaceId: string, refreshToken: string): Promise<string> {
-  const clientId = Deno.env.get('MICROSOFT_CLIENT_ID')!
-  const clientSecret = Deno.env.get('MICROSOFT_CLIENT_SECRET')!
-
-  const tokenResponse = await fetch('https://login.microsoftonline.com/common/oauth2/v2.0/token', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    body: new URLSearchParams({
-      client_id: clientId,
-      client_secret: clientSecret,
-      refresh_token: refreshToken,
-      grant_type: 'refresh_token',
-      scope: 'https://graph.microsoft.com/.default offline_access',
-    }),
-  })
-
-  const tokens = await tokenResponse.json()
-  
-  await supabase.from('sharepoint_connections').update({
-    access_token: tokens.access_token,
-    refresh_token: tokens.refresh_token || refreshToken,
-    token_expires_at: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
-  }).eq('space_id', spaceId)
-
-  return tokens.access_token
-}
+    let mode: SyncMode = 'delta'
+    let delta = state?.delta_link ? await fetchDelta(accessToken, state.delta_link) : null
+    if (!delta) {
+        mode = 'full'
+        delta = await fetchDelta(accessToken, `${GRAPH_URL}/drives/${driveId}/root/delta?$select=${DELTA_SELECT}`)
+    }
+    if (!delta) throw new Error('Graph refused a full delta query')
 
-async function scanFolder(accessToken: string, driveId: string, folderId?: string, maxDepth: number = 10): Promise<ScanResult> {
-  const supportedExtensions = ['.docx', '.doc', '.pdf', '.pptx', '.ppt', '.txt', '.md']
-  const allFiles: ScanResult['files'] = []
-  
-  // Recursive function to scan folders
-  async function scanRecursive(currentFolderId: string | undefined, depth: number) {
-    if (depth > maxDepth) return // Prevent infinite recursion
-    
-    const endpoint = currentFolderId 
-      ? `https://graph.microsoft.com/v1.0/drives/${driveId}/items/${currentFolderId}/children`
-      : `https://graph.microsoft.com/v1.0/drives/${driveId}/root/children`
-
-    const response = await fetch(endpoint, {
-      headers: { 'Authorization': `Bearer ${accessToken}` }
-    })
+    // Folders
+    const previousFolders: Record<string, string> = mode === 'delta' ? { ...(state?.folders || {}) } : {}
+    const folders: Record<string, string> = { ...previousFolders }
+    const inScope = (parentId: string | null | undefined) =>
+        !folderId || (!!parentId && (parentId === folderId || parentId in folders))
 
-    const data = await response.json()
-    const items = data.value || []
-
-    for (const item of items) {
-      if (item.folder) {
-        // Recursively scan subfolders
-        console.log(`Scanning subfolder: ${item.name} (depth: ${depth})`)
-        await scanRecursive(item.id, depth + 1)
-      } else {
-        // It's a file
-        const ext = (item.name.match(/\.[^.]+$/) || [''])[0].toLowerCase()
-        const supported = supportedExtensions.includes(ext)
-        
-        allFiles.push({
-          name: item.name,
-          size: item.size || 0,
-          type: ext,
-          supported,
+    if (folderId) {
+        // Deleted or moved folders are placed again below
+        for (const item of delta.items) {
+            if ((item.folder || item.deleted) && item.id in folders) delete folders[item.id]
+        }
+
+        // Parents can come after their children, so repeat until nothing is added
+        let added = true
+        while (added) {
+            added = false
+            for (const item of delta.items) {
+                if (!item.folder || item.deleted || item.root || item.id === folderId || item.id in folders) continue
+                const parentId = item.parentReference?.id
+                if (parentId && inScope(parentId)) {
+                    folders[item.id] = parentId
+                    added = true
+                }
+            }
+        }
+
+        // Drop folders cut off from the synced folder by a move or delete
+        let removed = true
+        while (removed) {
+            removed = false
+            for (const [id, parentId] of Object.entries(folders)) {
+                if (parentId !== folderId && !(parentId in folders)) {
+                    delete folders[id]
+                    removed = true
+                }
+            }
+        }
+    }
+    const removedFolders = new Set(Object.keys(previousFolders).filter(id => !(id in folders)))
+
+    // Files
+    const documents = (await loadSyncedDocuments(supabase, spaceId))
+        .filter(doc => doc.metadata?.drive_id === driveId && doc.metadata?.sync_folder_id === folderId)
+    const documentsByItemId = new Map(documents.map(doc => [doc.metadata!.drive_item_id!, doc]))
+
+    const changes: FileChange[] = []
+    const renamed: SyncPlan['renamed'] = []
+    const handled = new Set<string>()
+    let unsupportedFiles = 0
+
+    const removeDocument = (doc: SyncedDocument) => {
+        changes.push({
+            drive_item_id: doc.metadata!.drive_item_id!,
+            name: doc.title || doc.metadata!.drive_item_id!,
+            parent_id: doc.metadata?.parent_id || null,
+            size: null,
+            ctag: null,
+            web_url: null,
+            change: 'deleted',
         })
-      }
     }
-  }
 
-  // Start recursive scan
-  await scanRecursive(folderId, 0)
+    for (const item of delta.items) {
+        if (item.folder || item.root) continue
+        const doc = documentsByItemId.get(item.id)
+
+        if (item.deleted || !item.file || !inScope(item.parentReference?.id)) {
+            if (doc) {
+                handled.add(item.id)
+                removeDocument(doc)
+            }
+            continue
+        }
+
+        handled.add(item.id)
+        const name = item.name || item.id
+        if (!documentFormat(name)) {
+            unsupportedFiles++
+            // Renamed to a type that can't be read
+            if (doc) removeDocument(doc)
+            continue
+        }
+
+        if (doc && item.cTag && doc.metadata?.ctag === item.cTag) {
+            if (doc.title !== name) renamed.push({ id: doc.id, title: name })
+            continue
+        }
 
-  let totalSize = 0
-  for (const file of allFiles) {
-    if (file.supported) {
-      totalSize += file.size
+        changes.push({
+            drive_item_id: item.id,
+            name,
+            parent_id: item.parentReference?.id || null,
+            size: item.size ?? null,
+            ctag: item.cTag || null,
+            web_url: item.webUrl || null,
+            change: doc ? 'changed' : 'added',
+        })
+    }
+
+    for (const doc of documents) {
+        const itemId = doc.metadata!.drive_item_id!
+        if (handled.has(itemId)) continue
+        // A full listing covers every file, so anything it missed is gone;
+        // a delta only reports the folder when a whole folder is removed
+        if (mode === 'full' || removedFolders.has(doc.metadata?.parent_id || '')) {
+            removeDocument(doc)
+        }
     }
-  }
-
-  const supportedFiles = allFiles.filter(f => f.supported)
-  const estimatedTokens = Math.ceil(totalSize / CHARS_PER_TOKEN)
-  
-  // Cost = input tokens for reading + output tokens for generating training examples
-  // Assume output is ~30% of input (training examples are summaries)
-  const inputCost = (estimatedTokens / 1000) * GPT4O_MINI_INPUT_COST
-  const outputCost = (estimatedTokens * 0.3 / 1000) * GPT4O_MINI_OUTPUT_COST
-  const estimatedCost = inputCost + outputCost
-
-  // Time: roughly 5 docs per minute with API calls
-  const estimatedTime = Math.ceil(supportedFiles.length / 5)
-
-  console.log(`Scan complete: ${allFiles.length} total files, ${supportedFiles.length} supported`)
-
-  return {
-    total_files: allFiles.length,
-    supported_files: supportedFiles.length,
-    skipped_files: allFiles.length - supportedFiles.length,
-    estimated_tokens: estimatedTokens,
-    estimated_cost: Math.round(estimatedCost * 100) / 100,
-    estimated_time_minutes: Math.max(1, estimatedTime),
-    files: allFiles,
-  }
+
+    return { mode, deltaLink: delta.deltaLink, folders, changes, renamed, unsupportedFiles }
 }
 
-async function processDocuments(
-  supabase: any,
-  accessToken: string,
-  spaceId: string,
-  driveId: string,
-  folderId: string | undefined,
-  syncId: string
-) {
-  const openaiKey = Deno.env.get('OPENAI_API_KEY')!
-  
-  try {
-    // Get all files
-    const scanResult = await scanFolder(accessToken, driveId, folderId)
-    const supportedFiles = scanResult.files.filter(f => f.supported)
-    
-    await supabase.from('sync_progress').update({
-      total_documents: supportedFiles.length,
-      estimated_tokens: scanResult.estimated_tokens,
-      estimated_cost: scanResult.estimated_cost,
-    }).eq('id', syncId)
+function summarisePlan(plan: SyncPlan, model: string = DEFAULT_TEXT_MODELS.openai): ScanResult {
+    const toProcess = plan.changes.filter(c => c.change !== 'deleted')
+    const totalSize = toProcess.reduce((sum, c) => sum + (c.size || 0), 0)
+    const estimatedTokens = Math.ceil(totalSize / CHARS_PER_TOKEN)
+
+    // Cost = input tokens for reading + output tokens for generating training examples
+    // Assume output is ~30% of input (training examples are summaries)
+    const estimatedCost = estimateTokenCost(model, estimatedTokens, Math.ceil(estimatedTokens * 0.3)) ?? 0
+
+    // Time: roughly 5 docs per minute with API calls
+    const estimatedTime = Math.ceil(toProcess.length / 5)
+
+    return {
+        sync_mode: plan.mode,
+        total_files: toProcess.length + plan.unsupportedFiles,
+        supported_files: toProcess.length,
+        skipped_files: plan.unsupportedFiles,
+        deleted_files: plan.changes.length - toProcess.length,
+        estimated_tokens: estimatedTokens,
+        estimated_cost: Math.round(estimatedCost * 100) / 100,
+        estimated_time_minutes: Math.max(1, estimatedTime),
+        files: plan.changes.map(c => ({
+            name: c.name,
+            size: c.size || 0,
+            type: (c.name.match(/\.[^.]+$/) || [''])[0].toLowerCase(),
+            change: c.change,
+        })),
+    }
+}
+
+// Lists the sync's file changes, unless an earlier run already did
+async function prepareSync(supabase: SupabaseClient, accessToken: string, sync: SyncRow, model: string) {
+    if (sync.next_delta_link) return
+
+    const plan = await planSync(supabase, accessToken, sync.space_id, sync.drive_id, sync.folder_id)
+    const scan = summarisePlan(plan, model)
 
-    let processedCount = 0
-    let totalTokens = 0
-    const errors: any[] = []
+    // A run that stopped while listing may have left some rows behind
+    await supabase.from('sync_progress_files').delete().eq('sync_id', sync.id)
+
+    const now = new Date().toISOString()
+    for (let i = 0; i < plan.changes.length; i += PAGE_SIZE) {
+        const { error } = await supabase.from('sync_progress_files').insert(
+            plan.changes.slice(i, i + PAGE_SIZE).map(change => ({
+                ...change,
+                sync_id: sync.id,
+                space_id: sync.space_id,
+                status: 'pending',
+                updated_at: now,
+            }))
+        )
+        if (error) throw error
+    }
+
+    for (const { id, title } of plan.renamed) {
+        await supabase.from('source_documents').update({ title }).eq('id', id)
+    }
+
+    const { error } = await supabase.from('sync_progress').update({
+        sync_mode: plan.mode,
+        next_delta_link: plan.deltaLink,
+        folders: plan.folders,
+        total_documents: plan.changes.length,
+        estimated_tokens: scan.estimated_tokens,
+        estimated_cost: scan.estimated_cost,
+        heartbeat_at: now,
+    }).eq('id', sync.id)
+    if (error) throw error
+
+    sync.next_delta_link = plan.deltaLink
+    sync.folders = plan.folders
+}
+
+async function runSync(supabase: SupabaseClient, accessToken: string, sync: SyncRow, user: UsageUser | null) {
+    const deadline = Date.now() + TIME_BUDGET_MS
+
+    // Load AI settings for this space
+    const { data: aiSettings } = await supabase
+        .from('ai_settings')
+        .select('text_provider, text_model')
+        .eq('space_id', sync.space_id)
+        .maybeSingle()
+
+    // Actual tokens and cost come from what the model reports for each call,
+    // added to what earlier runs of this sync used
+    let totalTokens = sync.actual_tokens || 0
+    let totalCost = Number(sync.actual_cost) || 0
+    const llm = trackUsage(createTextLLM(aiSettings), supabase, {
+        spaceId: sync.space_id,
+        feature: 'sharepoint_analysis',
+        userId: user?.id,
+        userEmail: user?.email,
+        jobId: sync.id,
+    }, (response, cost) => {
+        totalTokens += response.usage.totalTokens
+        totalCost += cost || 0
+    })
+
+    await prepareSync(supabase, accessToken, sync, llm.model)
+
+    const files: SyncFileRow[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+            .from('sync_progress_files')
+            .select('id, drive_item_id, name, parent_id, size, ctag, web_url, change, status')
+            .eq('sync_id', sync.id)
+            .order('id')
+            .range(from, from + PAGE_SIZE - 1)
+
+        if (error) throw error
+        files.push(...((data || []) as SyncFileRow[]))
+        if (!data || data.length < PAGE_SIZE) break
+    }
+
+    const errors = [...(sync.error_log || [])]
+    const count = (status: FileStatus) => files.filter(f => f.status === status).length
+
+    const saveProgress = async (extra: Record<string, unknown> = {}) => {
+        await supabase.from('sync_progress').update({
+            processed_documents: files.length - count('pending') - count('processing'),
+            deleted_documents: files.filter(f => f.change === 'deleted' && f.status === 'completed').length,
+            skipped_documents: count('skipped'),
+            failed_documents: count('failed'),
+            actual_tokens: totalTokens,
+            actual_cost: totalCost,
+            error_log: errors,
+            heartbeat_at: new Date().toISOString(),
+            ...extra,
+        }).eq('id', sync.id)
+    }
 
     // Get brand profile for context
     const { data: brandProfile } = await supabase
-      .from('brand_profile')
-      .select('*')
-      .eq('space_id', spaceId)
-      .single()
+        .from('brand_profile')
+        .select('*')
+        .eq('space_id', sync.space_id)
+        .maybeSingle()
 
     const brandName = brandProfile?.who_we_are?.split(' ').slice(0, 5).join(' ') || 'this brand'
 
-    for (const file of supportedFiles) {
-      try {
-        // Download file content
-        const content = await downloadFile(accessToken, driveId, file.name)
-        
-        if (!content || content.length < 100) {
-          errors.push({ file: file.name, error: 'Content too short or empty' })
-          continue
+    // Removals first: they are quick and take stale text out of retrieval
+    const queue = [
+        ...files.filter(f => f.status === 'pending' && f.change === 'deleted'),
+        ...files.filter(f => f.status === 'pending' && f.change !== 'deleted'),
+    ]
+
+    for (const file of queue) {
+        // Cancellation is a status change made by the UI
+        const { data: current } = await supabase
+            .from('sync_progress')
+            .select('status')
+            .eq('id', sync.id)
+            .single()
+
+        if (current?.status === 'cancelled') {
+            await saveProgress()
+            return
         }
 
-        // Generate training examples from this document
-        const trainingExamples = await generateTrainingExamples(
-          openaiKey,
-          brandName,
-          file.name,
-          content
-        )
+        // Out of time - hand the rest over to a fresh invocation
+        if (Date.now() > deadline) {
+            await saveProgress({ status: 'queued' })
+            await invokeSelf({ action: 'resume', space_id: sync.space_id, sync_id: sync.id })
+            return
+        }
+
+        // Stop between files once a blocking budget is reached; resume once it is raised
+        if (file.change !== 'deleted') {
+            const budget = await getBudgetStatus(supabase, sync.space_id)
+            if (budget.blocked) {
+                errors.push({ file: file.name, error: budget.message || 'AI budget reached' })
+                await saveProgress({ status: 'failed' })
+                return
+            }
+        }
+
+        file.status = 'processing'
+        await updateFile(supabase, file, {})
+
+        let documentId: string | null = null
+        let error: string | null = null
+        try {
+            const result = await processFile(supabase, llm, accessToken, sync, file, brandName)
+            file.status = result.skipped ? 'skipped' : 'completed'
+            documentId = result.documentId
+            error = result.skipped
+        } catch (fileError) {
+            file.status = 'failed'
+            error = fileError instanceof Error ? fileError.message : String(fileError)
+            console.error(`Error syncing ${file.name}:`, error)
+        }
+
+        if (error) errors.push({ file: file.name, error })
+        await updateFile(supabase, file, { error, document_id: documentId })
+        await saveProgress()
+    }
+
+    // A cancel made while the last file was processing still stands
+    const { data: final } = await supabase
+        .from('sync_progress')
+        .select('status')
+        .eq('id', sync.id)
+        .single()
+
+    if (final?.status === 'cancelled') {
+        await saveProgress()
+        return
+    }
+
+    // The delta link moves on only when nothing is left to retry
+    const failed = count('failed')
+    if (failed === 0) {
+        const { error: stateError } = await supabase.from('sharepoint_sync_state').upsert({
+            space_id: sync.space_id,
+            drive_id: sync.drive_id,
+            folder_id: sync.folder_id,
+            delta_link: sync.next_delta_link,
+            folders: sync.folders || {},
+            last_sync_id: sync.id,
+            last_synced_at: new Date().toISOString(),
+        }, { onConflict: 'space_id,drive_id,folder_id' })
+        if (stateError) throw stateError
+    }
+
+    await saveProgress({ status: 'completed', completed_at: new Date().toISOString() })
+
+    // Update training examples count
+    const { count: examplesCount } = await supabase
+        .from('training_examples')
+        .select('*', { count: 'exact', head: true })
+        .eq('space_id', sync.space_id)
+
+    await supabase.from('brand_profile').update({
+        training_examples_count: examplesCount || 0,
+    }).eq('space_id', sync.space_id)
+
+    console.log(`SharePoint sync ${sync.id} complete: ${files.length} changes, ${failed} failed`)
+}
+
+async function updateFile(supabase: SupabaseClient, file: SyncFileRow, extra: Record<string, unknown>) {
+    await supabase.from('sync_progress_files').update({
+        status: file.status,
+        updated_at: new Date().toISOString(),
+        ...extra,
+    }).eq('id', file.id)
+}
+
+async function failSync(supabase: SupabaseClient, syncId: string, error: unknown) {
+    console.error(`SharePoint sync ${syncId} failed:`, error)
+
+    // Keep the per-file errors logged so far
+    const { data: current } = await supabase
+        .from('sync_progress')
+        .select('error_log')
+        .eq('id', syncId)
+        .single()
+
+    await supabase.from('sync_progress').update({
+        status: 'failed',
+        error_log: [
+            ...(current?.error_log || []),
+            { error: error instanceof Error ? error.message : String(error) },
+        ],
+    }).eq('id', syncId)
+}
 
-        // Save training examples
-        for (const example of trainingExamples) {
-          await supabase.from('training_examples').insert({
-            space_id: spaceId,
+async function invokeSelf(body: Record<string, unknown>) {
+    const response = await fetch(`${supabaseUrl}/functions/v1/sharepoint-sync`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${supabaseServiceKey}`,
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+        throw new Error(`sharepoint-sync returned ${response.status}`)
+    }
+}
+
+// Returns why the file was skipped, if it was
+async function processFile(
+    supabase: SupabaseClient,
+    llm: LLMClient,
+    accessToken: string,
+    sync: SyncRow,
+    file: SyncFileRow,
+    brandName: string
+): Promise<{ documentId: string | null; skipped: string | null }> {
+    if (file.change === 'deleted') {
+        await deleteTrainingExamples(supabase, sync.space_id, file.drive_item_id)
+
+        // Chunks go with the document
+        const { error } = await supabase
+            .from('source_documents')
+            .delete()
+            .eq('space_id', sync.space_id)
+            .eq('source_type', 'sharepoint')
+            .eq('metadata->>drive_item_id', file.drive_item_id)
+        if (error) throw error
+        return { documentId: null, skipped: null }
+    }
+
+    if ((file.size || 0) > MAX_UPLOAD_BYTES) {
+        return { documentId: null, skipped: `Larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` }
+    }
+
+    const bytes = await downloadFile(accessToken, sync.drive_id, file.drive_item_id)
+
+    // Unreadable files are skipped rather than failed, so they don't hold back the delta link
+    let extracted
+    try {
+        extracted = await extractDocumentText(bytes, file.name)
+    } catch (extractError) {
+        return { documentId: null, skipped: extractError instanceof Error ? extractError.message : String(extractError) }
+    }
+
+    const content = extracted.text.slice(0, MAX_DOCUMENT_CHARS)
+    if (content.length < MIN_DOCUMENT_CHARS) {
+        return { documentId: null, skipped: extracted.warnings[0] || 'Content too short or empty' }
+    }
+
+    // Generate training examples from this document, replacing any written
+    // from an earlier version of it
+    const trainingExamples = await generateTrainingExamples(llm, brandName, file.name, content)
+    await deleteTrainingExamples(supabase, sync.space_id, file.drive_item_id)
+
+    for (const example of trainingExamples) {
+        await supabase.from('training_examples').insert({
+            space_id: sync.space_id,
             system_prompt: example.system,
             user_prompt: example.user,
             assistant_response: example.assistant,
             source_document: file.name,
+            drive_item_id: file.drive_item_id,
             category: example.category,
-          })
-        }
+        })
+    }
+
+    // Extract knowledge items and merge them into brand_knowledge
+    const knowledgeItems = await extractKnowledge(llm, content)
+
+    for (const [category, items] of Object.entries(knowledgeItems)) {
+        if (!Array.isArray(items) || items.length === 0) continue
 
-        // Extract knowledge items
-        const knowledgeItems = await extractKnowledge(openaiKey, content)
-        
-        // Merge knowledge into brand_knowledge table
-        for (const [category, items] of Object.entries(knowledgeItems)) {
-          if (!items || (items as any[]).length === 0) continue
-          
-          const { data: existing } = await supabase
+        const { data: existing } = await supabase
             .from('brand_knowledge')
             .select('items')
-            .eq('space_id', spaceId)
+            .eq('space_id', sync.space_id)
             .eq('category', category)
-            .single()
+            .maybeSingle()
 
-          const existingItems = existing?.items || []
-          const mergedItems = [...new Set([...existingItems, ...(items as any[])])]
+        const existingItems: string[] = existing?.items || []
+        const mergedItems = [...new Set([...existingItems, ...items])]
 
-          await supabase.from('brand_knowledge').upsert({
-            space_id: spaceId,
+        await supabase.from('brand_knowledge').upsert({
+            space_id: sync.space_id,
             category,
             items: mergedItems,
             last_synced_at: new Date().toISOString(),
-          }, { onConflict: 'space_id,category' })
+        }, { onConflict: 'space_id,category' })
+    }
+
+    // Stored last, with the file's cTag, so a file that fails above is
+    // retried by the next sync
+    const documentId = await saveSourceDocument(supabase, sync, file, content, extracted.pages)
+    if (embeddingsAvailable()) {
+        try {
+            await indexDocument(supabase, { id: documentId, space_id: sync.space_id, content })
+        } catch (indexError) {
+            console.error(`Error indexing ${file.name}:`, indexError)
         }
+    }
 
-        processedCount++
-        totalTokens += Math.ceil(content.length / CHARS_PER_TOKEN)
+    return { documentId, skipped: null }
+}
 
-        // Update progress
-        await supabase.from('sync_progress').update({
-          processed_documents: processedCount,
-          actual_tokens: totalTokens,
-        }).eq('id', syncId)
+async function deleteTrainingExamples(supabase: SupabaseClient, spaceId: string, driveItemId: string) {
+    const { error } = await supabase
+        .from('training_examples')
+        .delete()
+        .eq('space_id', spaceId)
+        .eq('drive_item_id', driveItemId)
+    if (error) throw error
+}
+
+async function downloadFile(accessToken: string, driveId: string, itemId: string): Promise<Uint8Array> {
+    // Graph redirects to a pre-authenticated download URL
+    const response = await fetch(`${GRAPH_URL}/drives/${driveId}/items/${itemId}/content`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+        signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+    })
 
-      } catch (fileError: any) {
-        errors.push({ file: file.name, error: fileError.message })
-      }
+    if (!response.ok) {
+        throw new Error(`Download failed (${response.status})`)
     }
+    return new Uint8Array(await response.arrayBuffer())
+}
 
-    // Mark complete
-    await supabase.from('sync_progress').update({
-      status: 'completed',
-      completed_at: new Date().toISOString(),
-      actual_cost: (totalTokens / 1000) * GPT4O_MINI_INPUT_COST,
-      error_log: errors,
-    }).eq('id', syncId)
+// One source_documents row per drive item; re-syncs replace the content and
+// clear indexed_at so the chunks are rebuilt
+async function saveSourceDocument(supabase: SupabaseClient, sync: SyncRow, file: SyncFileRow, content: string, pages: number | null): Promise<string> {
+    const metadata = {
+        drive_id: sync.drive_id,
+        drive_item_id: file.drive_item_id,
+        parent_id: file.parent_id,
+        sync_folder_id: sync.folder_id,
+        ctag: file.ctag,
+        format: documentFormat(file.name),
+        size: file.size,
+        pages,
+        synced_at: new Date().toISOString(),
+    }
 
-    // Update training examples count
-    const { count } = await supabase
-      .from('training_examples')
-      .select('*', { count: 'exact', head: true })
-      .eq('space_id', spaceId)
+    let { data: existing } = await supabase
+        .from('source_documents')
+        .select('id')
+        .eq('space_id', sync.space_id)
+        .eq('source_type', 'sharepoint')
+        .eq('metadata->>drive_item_id', file.drive_item_id)
+        .maybeSingle()
 
-    await supabase.from('brand_profile').update({
-      training_examples_count: count || 0,
-    }).eq('space_id', spaceId)
+    // Documents synced before drive item IDs were kept are matched by name
+    if (!existing) {
+        const { data: legacy } = await supabase
+            .from('source_documents')
+            .select('id')
+            .eq('space_id', sync.space_id)
+            .eq('source_type', 'sharepoint')
+            .eq('title', file.name)
+            .is('metadata->>drive_item_id', null)
+            .limit(1)
+            .maybeSingle()
+        existing = legacy
+    }
 
-  } catch (error: any) {
-    await supabase.from('sync_progress').update({
-      status: 'failed',
-      error_log: [{ error: error.message }],
-    }).eq('id', syncId)
-  }
+    if (existing) {
+        const { error } = await supabase.from('source_documents').update({
+            title: file.name,
+            url: file.web_url,
+            content,
+            metadata,
+            last_scanned: new Date().toISOString(),
+            indexed_at: null,
+            index_attempts: 0,
+        }).eq('id', existing.id)
+        if (error) throw error
+        return existing.id
+    }
+
+    const { data: inserted, error } = await supabase.from('source_documents').insert({
+        space_id: sync.space_id,
+        source_type: 'sharepoint',
+        title: file.name,
+        url: file.web_url,
+        content,
+        metadata,
+        last_scanned: new Date().toISOString(),
+    }).select('id').single()
+    if (error) throw error
+    return inserted.id
 }
 
-async function downloadFile(accessToken: string, driveId: string, fileName: string): Promise<string> {
-  // For demo, we'll just get text content
-  // In production, you'd use proper document conversion (pdf-parse, mammoth for docx, etc.)
-  
-  // Search for the file
-  const searchUrl = `https://graph.microsoft.com/v1.0/drives/${driveId}/root/search(q='${encodeURIComponent(fileName)}')`
-  const searchResponse = await fetch(searchUrl, {
-    headers: { 'Authorization': `Bearer ${accessToken}` }
-  })
-  const searchData = await searchResponse.json()
-  const file = searchData.value?.[0]
-  
-  if (!file) return ''
-
-  // Get download URL
-  const downloadUrl = file['@microsoft.graph.downloadUrl']
-  if (!downloadUrl) return ''
-
-  const contentResponse = await fetch(downloadUrl)
-  const arrayBuffer = await contentResponse.arrayBuffer()
-  
-  // For now, just convert to string (works for txt/md)
-  // TODO: Add proper docx/pdf parsing
-  const decoder = new TextDecoder('utf-8')
-  return decoder.decode(arrayBuffer)
+interface GeneratedExample {
+    category: string
+    user: string
+    assistant: string
 }
 
 async function generateTrainingExamples(
-  apiKey: string,
-  brandName: string,
-  fileName: string,
-  content: string
+    llm: LLMClient,
+    brandName: string,
+    fileName: string,
+    content: string
 ): Promise<{ system: string; user: string; assistant: string; category: string }[]> {
-  
-  const truncatedContent = content.slice(0, 12000) // Limit content size
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: `You are creating training examples for fine-tuning a GPT model to write like ${brandName}. 
-          
+
+    const truncatedContent = content.slice(0, 12000) // Limit content size
+
+    const { data: parsed } = await llm.completeJSON<{ examples?: GeneratedExample[] } | GeneratedExample[]>({
+        system: `You are creating training examples for fine-tuning a GPT model to write like ${brandName}.
+
 Generate 3-5 training examples from this document. Each example should be a realistic request someone might make, paired with a response that demonstrates the brand's voice, knowledge, and style.
 
-Return JSON array: [{"category": "linkedin_post|project_summary|brand_voice|client_work", "user": "user request", "assistant": "ideal response in brand voice"}]`
-        },
-        {
-          role: 'user',
-          content: `Document: ${fileName}\n\nContent:\n${truncatedContent}`
-        }
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.7,
-    }),
-  })
-
-  const data = await response.json()
-  const parsed = JSON.parse(data.choices[0].message.content)
-  
-  const systemPrompt = `You are the brand voice of ${brandName}. Write in their style, using their terminology and approach.`
-  
-  return (parsed.examples || parsed).map((ex: any) => ({
-    system: systemPrompt,
-    user: ex.user,
-    assistant: ex.assistant,
-    category: ex.category,
-  }))
+Return JSON: {"examples": [{"category": "linkedin_post|project_summary|brand_voice|client_work", "user": "user request", "assistant": "ideal response in brand voice"}]}`,
+        prompt: `Document: ${fileName}\n\nContent:\n${truncatedContent}`,
+        temperature: 0.7,
+        maxTokens: 3000,
+    })
+
+    const systemPrompt = `You are the brand voice of ${brandName}. Write in their style, using their terminology and approach.`
+
+    const examples = Array.isArray(parsed) ? parsed : parsed.examples || []
+    return examples.map(ex => ({
+        system: systemPrompt,
+        user: ex.user,
+        assistant: ex.assistant,
+        category: ex.category,
+    }))
 }
 
-async function extractKnowledge(apiKey: string, content: string): Promise<Record<string, string[]>> {
-  const truncatedContent = content.slice(0, 12000)
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: `Extract structured knowledge from this document. Return JSON with these categories:
-          
+async function extractKnowledge(llm: LLMClient, content: string): Promise<Record<string, string[]>> {
+    const truncatedContent = content.slice(0, 12000)
+
+    const { data } = await llm.completeJSON<Record<string, string[]>>({
+        system: `Extract structured knowledge from this document. Return JSON with these categories:
+
 {
   "clients": ["client names mentioned"],
   "projects": ["project names or descriptions"],
@@ -452,18 +1094,11 @@ async function extractKnowledge(apiKey: string, content: string): Promise<Record
   "industries": ["verticals, sectors mentioned"]
 }
 
-Only include items that are clearly extractable. Empty arrays are fine.`
-        },
-        {
-          role: 'user',
-          content: truncatedContent
-        }
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.3,
-    }),
-  })
-
-  const data = await response.json()
-  return JSON.parse(data.choices[0].message.content)
+Only include items that are clearly extractable. Empty arrays are fine.`,
+        prompt: truncatedContent,
+        temperature: 0.3,
+        maxTokens: 2000,
+    })
+
+    return data
 }
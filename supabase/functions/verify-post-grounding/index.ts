@@ -0,0 +1,116 @@
+// Verify Post Grounding - Re-check a post's claims against its sources
+// Used from the post preview after edits, and for posts generated before
+// grounding checks existed. Writes the report to generation_meta.grounding.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { createTextLLM, type LLMClient } from '../_shared/llm.ts'
+import { loadGroundingSources, verifyGrounding } from '../_shared/grounding-verify.ts'
+import { getBudgetStatus, resolveUsageUser, trackUsage } from '../_shared/usage-ledger.ts'
+import type { SourceUsed } from '../_shared/grounding.ts'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const { post_id } = await req.json()
+
+        if (!post_id) {
+            return new Response(
+                JSON.stringify({ error: 'post_id is required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+        const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+        const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+        const { data: post, error: postError } = await supabase
+            .from('posts')
+            .select('id, space_id, body, sources_used, generation_meta')
+            .eq('id', post_id)
+            .single()
+
+        if (postError || !post) {
+            return new Response(
+                JSON.stringify({ error: 'Post not found' }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        if (!post.body) {
+            return new Response(
+                JSON.stringify({ error: 'Post has no content body' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const budget = await getBudgetStatus(supabase, post.space_id)
+        if (budget.blocked) {
+            return new Response(
+                JSON.stringify({ error: budget.message }),
+                { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const { data: aiSettings } = await supabase
+            .from('ai_settings')
+            .select('text_provider, text_model')
+            .eq('space_id', post.space_id)
+            .maybeSingle()
+
+        const user = await resolveUsageUser(supabase, req)
+
+        let llm: LLMClient
+        try {
+            llm = trackUsage(createTextLLM(aiSettings), supabase, {
+                spaceId: post.space_id,
+                feature: 'grounding_check',
+                userId: user?.id,
+                userEmail: user?.email,
+                postId: post.id,
+            })
+        } catch (err) {
+            return new Response(
+                JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const sourcesUsed: SourceUsed[] = Array.isArray(post.sources_used) ? post.sources_used : []
+        const sources = await loadGroundingSources(supabase, post.space_id, sourcesUsed)
+        const grounding = await verifyGrounding(llm, post.body, sources)
+
+        const { error: updateError } = await supabase
+            .from('posts')
+            .update({
+                generation_meta: { ...(post.generation_meta || {}), grounding },
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', post_id)
+
+        if (updateError) throw updateError
+
+        console.log(`Verified post ${post_id}: ${grounding.status} (${grounding.counts.unsupported} unsupported, ${grounding.counts.partial} partial)`)
+
+        return new Response(
+            JSON.stringify({ success: true, grounding }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+
+    } catch (error) {
+        console.error('Error in verify-post-grounding:', error)
+        return new Response(
+            JSON.stringify({ error: 'Failed to verify post', details: String(error) }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+    }
+})
@@ -0,0 +1,283 @@
+// Write Series Part - Write one part of a planned post series
+// Called by the job worker for each part of a generate_series job, in order.
+// The part is written from its plan entry and the source document, with the
+// earlier parts' posts in the prompt so the narrative and voice carry through
+// and the "Part N of M" references line up. A part that already has a post
+// (e.g. a retried job item) gets its body replaced rather than a second post.
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { createTextLLM, type LLMClient } from '../_shared/llm.ts'
+import { applyStyleRules, buildStyleInstructions, normaliseStyleRules } from '../_shared/style-rules.ts'
+import { buildRevision } from '../_shared/revisions.ts'
+import { getBudgetStatus, resolveUsageUser, trackUsage, type UsageContext } from '../_shared/usage-ledger.ts'
+import { classificationColumns, classifyPostBody } from '../_shared/post-classifier.ts'
+import { checkPostDuplicates, loadSpaceSignatures, postGroup } from '../_shared/duplicates.ts'
+import { MAX_SERIES_SOURCE_CHARS, buildSeriesPartPrompt, seriesPartLabel, type SeriesPlan } from '../_shared/series.ts'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const { series_id, part, job_id, user_id } = await req.json()
+
+        if (!series_id || !part) {
+            return new Response(
+                JSON.stringify({ error: 'series_id and part are required' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+        const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+        const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+        const { data: series, error: seriesError } = await supabase
+            .from('post_series')
+            .select('id, space_id, title, plan, source_text, created_by, source_document:source_documents(content)')
+            .eq('id', series_id)
+            .single()
+
+        if (seriesError || !series) {
+            return new Response(
+                JSON.stringify({ error: 'Series not found' }),
+                { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const plan = series.plan as SeriesPlan
+        const partPlan = plan?.parts?.[part - 1]
+        if (!partPlan) {
+            return new Response(
+                JSON.stringify({ error: `Series has no plan for part ${part}` }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const budget = await getBudgetStatus(supabase, series.space_id)
+        if (budget.blocked) {
+            return new Response(
+                JSON.stringify({ error: budget.message }),
+                { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const { data: aiSettings } = await supabase
+            .from('ai_settings')
+            .select('text_provider, text_model')
+            .eq('space_id', series.space_id)
+            .maybeSingle()
+
+        const user = await resolveUsageUser(supabase, req, user_id || series.created_by)
+        const authorId = user?.id || series.created_by
+        if (!authorId) {
+            return new Response(
+                JSON.stringify({ error: 'A user is required to write series posts' }),
+                { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        const usageContext: Omit<UsageContext, 'feature'> = {
+            spaceId: series.space_id,
+            userId: user?.id,
+            userEmail: user?.email,
+            jobId: job_id,
+        }
+
+        let llm: LLMClient
+        let classifyLLM: LLMClient
+        try {
+            const textLLM = createTextLLM(aiSettings)
+            llm = trackUsage(textLLM, supabase, { ...usageContext, feature: 'post_generation' })
+            classifyLLM = trackUsage(textLLM, supabase, { ...usageContext, feature: 'post_classification' })
+        } catch (err) {
+            return new Response(
+                JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+                { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            )
+        }
+
+        // Earlier parts as written, and this part's post if a previous attempt saved one
+        const { data: seriesPosts } = await supabase
+            .from('posts')
+            .select('id, series_part, body')
+            .eq('series_id', series_id)
+            .lte('series_part', part)
+            .order('series_part', { ascending: true })
+
+        const previousBodies = (seriesPosts || [])
+            .filter(p => p.series_part < part && p.body)
+            .map(p => p.body as string)
+        const existingPost = (seriesPosts || []).find(p => p.series_part === part)
+
+        const { data: brandProfile } = await supabase
+            .from('brand_profile')
+            .select('who_we_are, what_we_do, who_we_serve, tone_notes')
+            .eq('space_id', series.space_id)
+            .maybeSingle()
+
+        const { data: contextCache } = await supabase
+            .from('brand_context_cache')
+            .select('detected_name')
+            .eq('space_id', series.space_id)
+            .maybeSingle()
+
+        const { data: styleRow } = await supabase
+            .from('style_rules')
+            .select('rules')
+            .eq('space_id', series.space_id)
+            .maybeSingle()
+
+        const brandName = contextCache?.detected_name || null
+        const styleRules = normaliseStyleRules(styleRow?.rules)
+        const sourceDocument = Array.isArray(series.source_document) ? series.source_document[0] : series.source_document
+        const source = (series.source_text || sourceDocument?.content || '').slice(0, MAX_SERIES_SOURCE_CHARS)
+        const brandContext = [
+            brandProfile?.who_we_are ? `Who we are: ${brandProfile.who_we_are}` : '',
+            brandProfile?.what_we_do ? `What we do: ${brandProfile.what_we_do}` : '',
+            brandProfile?.who_we_serve ? `Who we serve: ${brandProfile.who_we_serve}` : '',
+            brandProfile?.tone_notes ? `Tone: ${brandProfile.tone_notes}` : '',
+        ].filter(Boolean).join('\n')
+
+        const systemPrompt = `You are an experienced LinkedIn writer${brandName ? ` for ${brandName}` : ''}, writing one part of a multi-part post series.
+
+CRITICAL GROUNDING RULES:
+1. Only include facts, claims, or details that can be traced to the source document
+2. If you cannot ground a specific detail in the source, do not include it
+3. Never make up statistics, customer testimonials, or specific achievements
+4. It's better to be general than to fabricate specifics
+
+FORMAT REQUIREMENTS:
+- Target length: 150-250 words
+
+HOUSE STYLE:
+${buildStyleInstructions(styleRules, {}).map(line => `- ${line}`).join('\n')}
+
+${brandContext ? `BRAND CONTEXT:\n${brandContext}\n\n` : ''}${source ? `SOURCE DOCUMENT:\n---\n${source}\n---` : 'Note: No source document, only use the series plan and avoid specific claims.'}`
+
+        const completion = await llm.complete({
+            system: systemPrompt,
+            prompt: buildSeriesPartPrompt({ seriesTitle: series.title, plan, part, previousBodies }),
+            temperature: 0.7,
+            maxTokens: 700,
+        })
+
+        if (!completion.text) {
+            throw new Error('Model returned an empty post')
+        }
+
+        const styled = applyStyleRules(completion.text, styleRules, {})
+        const total = plan.parts.length
+        const title = `${partPlan.title} (${seriesPartLabel(part, total)})`
+        const generationMeta = {
+            provider: completion.provider,
+            model: completion.model,
+            tokens: completion.usage.totalTokens,
+            input_tokens: completion.usage.inputTokens,
+            output_tokens: completion.usage.outputTokens,
+            generated_at: new Date().toISOString(),
+            job_id: job_id || null,
+            series: { id: series.id, part, total },
+            style: {
+                changes: styled.changes,
+                issues: styled.issues,
+            },
+        }
+
+        let classification: Record<string, unknown> = {}
+        try {
+            const result = await classifyPostBody(classifyLLM, { title, body: styled.text })
+            if (result) classification = classificationColumns(result, classifyLLM)
+        } catch (classifyError) {
+            console.error('Error classifying post:', classifyError)
+        }
+
+        const { data: post, error: postError } = existingPost
+            ? await supabase
+                .from('posts')
+                .update({
+                    title,
+                    topic: partPlan.title,
+                    body: styled.text,
+                    ...classification,
+                    generation_meta: generationMeta,
+                    updated_at: new Date().toISOString(),
+                })
+                .eq('id', existingPost.id)
+                .select('id, created_at')
+                .single()
+            : await supabase
+                .from('posts')
+                .insert({
+                    space_id: series.space_id,
+                    series_id: series.id,
+                    series_part: part,
+                    title,
+                    topic: partPlan.title,
+                    body: styled.text,
+                    status: 'draft',
+                    author_id: authorId,
+                    sequence_number: part,
+                    ...classification,
+                    generation_meta: generationMeta,
+                    image_status: 'none',
+                    overlay_status: 'none',
+                })
+                .select('id, created_at')
+                .single()
+
+        if (postError || !post) throw postError || new Error('Failed to save post')
+
+        const { error: revisionError } = await supabase
+            .from('post_revisions')
+            .insert(buildRevision({
+                postId: post.id,
+                spaceId: series.space_id,
+                title,
+                body: styled.text,
+                source: 'ai_generation',
+                authorId: user?.id,
+                authorEmail: user?.email,
+            }))
+
+        if (revisionError) {
+            console.error('Error recording post revision:', revisionError)
+        }
+
+        // Parts of one series share a topic, so they are grouped and not flagged as duplicates of each other
+        try {
+            const spacePosts = await loadSpaceSignatures(supabase, series.space_id)
+            await checkPostDuplicates(supabase, {
+                id: post.id,
+                space_id: series.space_id,
+                created_at: post.created_at,
+                status: 'draft',
+                body: styled.text,
+                group: postGroup({ series_id: series.id }),
+            }, spacePosts)
+        } catch (duplicateError) {
+            console.error('Error recording duplicates:', duplicateError)
+        }
+
+        console.log(`Wrote ${seriesPartLabel(part, total)} of series ${series.id} as post ${post.id}`)
+
+        return new Response(
+            JSON.stringify({ success: true, posts_created: 1, post_ids: [post.id] }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+
+    } catch (error) {
+        console.error('Error in write-series-part:', error)
+        return new Response(
+            JSON.stringify({ error: 'Failed to write series part', details: String(error) }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+    }
+})
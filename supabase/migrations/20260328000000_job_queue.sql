@@ -0,0 +1,45 @@
+-- Background job queue
+-- Puts the jobs table from the initial schema to work: campaign post and bulk
+-- image generation are enqueued here and processed by the job-worker function.
+
+-- Jobs can be cancelled from the UI
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_status_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_status_check
+    CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled'));
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES campaigns(id) ON DELETE CASCADE;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+-- Updated by the worker after every item; a stale heartbeat means the worker died
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_campaign_id ON jobs(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_jobs_space_status ON jobs(space_id, status);
+
+-- Atomically claim a queued job (or one whose worker stopped heartbeating).
+-- Pass a job id to claim that job only.
+CREATE OR REPLACE FUNCTION claim_job(p_job_id UUID DEFAULT NULL)
+RETURNS SETOF jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE jobs
+    SET status = 'running',
+        started_at = COALESCE(started_at, NOW()),
+        heartbeat_at = NOW(),
+        updated_at = NOW()
+    WHERE id = (
+        SELECT j.id FROM jobs j
+        WHERE (p_job_id IS NULL OR j.id = p_job_id)
+          AND (
+            j.status = 'queued'
+            OR (j.status = 'running' AND j.heartbeat_at < NOW() - INTERVAL '5 minutes')
+          )
+        ORDER BY j.created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+END;
+$$;
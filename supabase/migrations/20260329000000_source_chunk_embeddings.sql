@@ -0,0 +1,65 @@
+-- Vector retrieval over source chunks
+-- Website and SharePoint documents are split into source_chunks with an
+-- embedding each, so generation can pull the chunks closest to a post's topic.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS source_chunks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_id UUID NOT NULL REFERENCES source_documents(id) ON DELETE CASCADE,
+    chunk_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE source_chunks ADD COLUMN IF NOT EXISTS space_id UUID REFERENCES spaces(id) ON DELETE CASCADE;
+ALTER TABLE source_chunks ADD COLUMN IF NOT EXISTS embedding vector(1536);
+ALTER TABLE source_chunks ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+ALTER TABLE source_chunks ADD COLUMN IF NOT EXISTS char_start INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_source_chunks_document_id ON source_chunks(document_id);
+CREATE INDEX IF NOT EXISTS idx_source_chunks_space_id ON source_chunks(space_id);
+CREATE INDEX IF NOT EXISTS idx_source_chunks_embedding ON source_chunks
+    USING hnsw (embedding vector_cosine_ops);
+
+-- Set when a document's chunks are (re)built; NULL means it needs indexing
+ALTER TABLE source_documents ADD COLUMN IF NOT EXISTS indexed_at TIMESTAMPTZ;
+
+-- Top-k chunks for a query embedding. Website pages only count once they
+-- have been confirmed in Brand Studio.
+CREATE OR REPLACE FUNCTION match_source_chunks(
+    p_space_id UUID,
+    p_query_embedding vector(1536),
+    p_match_count INTEGER DEFAULT 6,
+    p_source_types TEXT[] DEFAULT ARRAY['website', 'sharepoint']
+)
+RETURNS TABLE (
+    id UUID,
+    document_id UUID,
+    chunk_index INTEGER,
+    content TEXT,
+    source_type TEXT,
+    title TEXT,
+    url TEXT,
+    similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+    SELECT
+        c.id,
+        c.document_id,
+        c.chunk_index,
+        c.content,
+        d.source_type,
+        d.title,
+        d.url,
+        1 - (c.embedding <=> p_query_embedding) AS similarity
+    FROM source_chunks c
+    JOIN source_documents d ON d.id = c.document_id
+    WHERE c.space_id = p_space_id
+      AND c.embedding IS NOT NULL
+      AND d.source_type = ANY(p_source_types)
+      AND (d.source_type <> 'website' OR d.is_confirmed = true)
+    ORDER BY c.embedding <=> p_query_embedding
+    LIMIT p_match_count;
+$$;
@@ -0,0 +1,11 @@
+-- House style rules per space
+-- Sits alongside brand_rules (image composition rules). rules holds a
+-- StyleRules object from _shared/style-rules.ts: banned phrases,
+-- substitutions, Australian spelling, dash/emoji/hashtag policies, max length.
+CREATE TABLE IF NOT EXISTS style_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    rules JSONB NOT NULL DEFAULT '{}',
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT style_rules_space_unique UNIQUE (space_id)
+);
@@ -0,0 +1,16 @@
+-- Post variants
+-- Alternative bodies generated for the same topic. The selected variant's body
+-- is copied into posts.body; the rest are kept for comparison and re-use.
+CREATE TABLE IF NOT EXISTS post_variants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    variant_index INTEGER NOT NULL,
+    angle TEXT,
+    body TEXT NOT NULL,
+    generation_meta JSONB NOT NULL DEFAULT '{}',
+    is_selected BOOLEAN NOT NULL DEFAULT FALSE,
+    reused_post_id UUID REFERENCES posts(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT post_variants_post_index_unique UNIQUE (post_id, variant_index)
+);
@@ -0,0 +1,17 @@
+-- Post revision history
+-- One row per body/title change, including the initial generation, so edits
+-- can be compared and restored. author_email is kept for display because
+-- auth.users is not readable from the client.
+CREATE TABLE IF NOT EXISTS post_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    title TEXT,
+    body TEXT,
+    source TEXT NOT NULL CHECK (source IN ('ai_generation', 'manual_edit', 'ai_rewrite', 'variant_select', 'restore')),
+    author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    author_email TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_revisions_post_created ON post_revisions(post_id, created_at DESC);
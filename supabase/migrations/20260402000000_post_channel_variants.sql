@@ -0,0 +1,16 @@
+-- Per-channel post variants
+-- A tailored body, hashtag set and image rendition of a post for one social
+-- channel. Channels without a row publish the main post body and image.
+CREATE TABLE IF NOT EXISTS post_channel_variants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    channel TEXT NOT NULL CHECK (channel IN ('linkedin', 'facebook', 'instagram', 'x')),
+    body TEXT NOT NULL DEFAULT '',
+    hashtags TEXT[] NOT NULL DEFAULT '{}',
+    image_path TEXT,
+    generation_meta JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT post_channel_variants_post_channel_unique UNIQUE (post_id, channel)
+);
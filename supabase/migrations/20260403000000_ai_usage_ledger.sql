@@ -0,0 +1,64 @@
+-- AI usage ledger
+-- One row per LLM, embedding, image or enrichment call with its token or unit
+-- counts and an estimated cost, so spend can be reported per month, feature
+-- and campaign. user_email is kept for display, as on post_revisions.
+CREATE TABLE IF NOT EXISTS ai_usage_ledger (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    user_email TEXT,
+    feature TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    units INTEGER NOT NULL DEFAULT 0,
+    unit_type TEXT NOT NULL DEFAULT 'tokens' CHECK (unit_type IN ('tokens', 'images', 'credits')),
+    estimated_cost_usd NUMERIC(12, 6),
+    campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL,
+    post_id UUID REFERENCES posts(id) ON DELETE SET NULL,
+    job_id UUID,
+    metadata JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_ledger_space_created ON ai_usage_ledger(space_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_ledger_campaign ON ai_usage_ledger(campaign_id);
+
+-- Monthly budget per space; NULL means no budget
+ALTER TABLE ai_settings
+    ADD COLUMN IF NOT EXISTS monthly_budget_usd NUMERIC(10, 2),
+    ADD COLUMN IF NOT EXISTS budget_warn_percent INTEGER NOT NULL DEFAULT 80,
+    ADD COLUMN IF NOT EXISTS budget_action TEXT NOT NULL DEFAULT 'warn' CHECK (budget_action IN ('warn', 'block'));
+
+-- Spend and usage per month, feature and campaign since a date, for the usage
+-- page and budget checks without reading every ledger row
+CREATE OR REPLACE FUNCTION ai_usage_summary(
+    p_space_id UUID,
+    p_since TIMESTAMPTZ
+)
+RETURNS TABLE (
+    month TEXT,
+    feature TEXT,
+    campaign_id UUID,
+    cost_usd NUMERIC,
+    tokens BIGINT,
+    units BIGINT,
+    calls BIGINT
+)
+LANGUAGE sql STABLE
+AS $$
+    SELECT
+        to_char(date_trunc('month', created_at AT TIME ZONE 'UTC'), 'YYYY-MM') AS month,
+        feature,
+        campaign_id,
+        COALESCE(SUM(estimated_cost_usd), 0) AS cost_usd,
+        SUM(total_tokens) AS tokens,
+        SUM(units) AS units,
+        COUNT(*) AS calls
+    FROM ai_usage_ledger
+    WHERE space_id = p_space_id
+      AND created_at >= p_since
+    GROUP BY 1, 2, 3;
+$$;
@@ -0,0 +1,20 @@
+-- Post classification
+-- The classify-posts function fills content_layer/content_category from the
+-- post body, with the model's confidence. Low-confidence results wait in a
+-- review queue; a person confirming or changing the classification marks it
+-- 'confirmed', and automatic classification leaves it alone from then on.
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS content_confidence NUMERIC(4,3);
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS classification_status TEXT
+    CHECK (classification_status IN ('auto', 'needs_review', 'confirmed'));
+-- Model, provider and the model's one-line reason, or where a manual/planned layer came from
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS classification_meta JSONB DEFAULT '{}';
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS classified_at TIMESTAMPTZ;
+
+-- Review queue lookups
+CREATE INDEX IF NOT EXISTS idx_posts_space_classification_status ON posts(space_id, classification_status);
+
+-- Bulk classification runs as a background job
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_type_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_type_check
+    CHECK (type IN ('generate_text', 'generate_image', 'compose_image', 'classify_posts'));
@@ -0,0 +1,28 @@
+-- Near-duplicate detection
+-- Each post stores a MinHash signature of its body, so new and edited posts
+-- can be compared with every post in the space. Pairs at or above the
+-- similarity threshold are recorded in post_duplicates, the later post
+-- flagged as a duplicate of the earlier one. A dismissed pair is not flagged
+-- again when either post is re-checked.
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS similarity_signature INTEGER[];
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS similarity_checked_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS post_duplicates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    duplicate_of_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    -- Estimated Jaccard similarity of the two bodies' word shingles
+    score NUMERIC(4,3) NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed')),
+    dismissed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    dismissed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT post_duplicates_pair_unique UNIQUE (post_id, duplicate_of_id),
+    CONSTRAINT post_duplicates_distinct CHECK (post_id <> duplicate_of_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_duplicates_space_status ON post_duplicates(space_id, status);
+CREATE INDEX IF NOT EXISTS idx_post_duplicates_duplicate_of_id ON post_duplicates(duplicate_of_id);
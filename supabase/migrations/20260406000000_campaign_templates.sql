@@ -0,0 +1,22 @@
+-- Campaign templates
+-- A campaign's settings saved under a name so new campaigns can start from
+-- them: generation settings (tone, example post, content mix, ...), Prompt
+-- Studio template ids and source settings. The idea list is only kept when
+-- the template was saved with its ideas.
+CREATE TABLE IF NOT EXISTS campaign_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    target_count INTEGER NOT NULL DEFAULT 10,
+    generation_settings JSONB NOT NULL DEFAULT '{}',
+    template_ids JSONB NOT NULL DEFAULT '{}',
+    locked_source_settings JSONB NOT NULL DEFAULT '{}',
+    -- Campaign the template was saved from, for reference
+    source_campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_templates_space_name ON campaign_templates(space_id, name);
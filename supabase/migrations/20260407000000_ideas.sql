@@ -0,0 +1,78 @@
+-- Idea bank
+-- Post ideas are rows shared across the space instead of a newline-separated
+-- list in campaigns.generation_settings. Each idea moves through new ->
+-- approved -> used (or rejected), records where it came from and its content
+-- layer/category, and collects votes from the team. An idea may be assigned
+-- to a campaign; generate-campaign-posts draws approved ideas and links each
+-- post it writes back to its idea through posts.idea_id.
+
+CREATE TABLE IF NOT EXISTS ideas (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    -- The campaign the idea is planned for; NULL while it sits in the backlog
+    campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL,
+    title TEXT NOT NULL,
+    notes TEXT,
+    status TEXT NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'approved', 'used', 'rejected')),
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('ai', 'manual', 'opportunity', 'news')),
+    -- Where an opportunity or news idea came from, e.g. { "url": ..., "opportunity_id": ... }
+    source_meta JSONB DEFAULT '{}',
+    content_layer TEXT,
+    content_category TEXT,
+    voted_by UUID[] NOT NULL DEFAULT '{}',
+    votes INTEGER GENERATED ALWAYS AS (cardinality(voted_by)) STORED,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ideas_space_status ON ideas(space_id, status);
+CREATE INDEX IF NOT EXISTS idx_ideas_campaign_id ON ideas(campaign_id);
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS idea_id UUID REFERENCES ideas(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_posts_idea_id ON posts(idea_id);
+
+-- Move each campaign's idea list into the bank, approved for that campaign.
+-- Campaigns saved before generated_ideas existed only have the newline-separated topics
+INSERT INTO ideas (space_id, campaign_id, title, status, source, content_layer, content_category, created_by, created_at)
+SELECT
+    c.space_id,
+    c.id,
+    btrim(idea.title),
+    'approved',
+    'ai',
+    CASE WHEN list.has_mix THEN c.generation_settings->'generated_idea_mix'->(idea.position - 1)->>'layer' END,
+    CASE WHEN list.has_mix THEN c.generation_settings->'generated_idea_mix'->(idea.position - 1)->>'category' END,
+    c.created_by,
+    c.updated_at
+FROM campaigns c
+CROSS JOIN LATERAL (
+    SELECT
+        CASE
+            WHEN jsonb_typeof(c.generation_settings->'generated_ideas') = 'array'
+                THEN c.generation_settings->'generated_ideas'
+            WHEN jsonb_typeof(c.generation_settings->'topics') = 'string'
+                THEN to_jsonb(string_to_array(c.generation_settings->>'topics', E'\n'))
+            ELSE '[]'::jsonb
+        END AS titles,
+        jsonb_typeof(c.generation_settings->'generated_ideas') = 'array' AS has_mix
+) AS list
+CROSS JOIN LATERAL jsonb_array_elements_text(list.titles) WITH ORDINALITY AS idea(title, position)
+WHERE btrim(idea.title) <> '';
+
+-- Posts already written from a moved idea are linked to it, and the idea marked used
+UPDATE posts p
+SET idea_id = i.id
+FROM ideas i
+WHERE p.idea_id IS NULL
+    AND p.campaign_id = i.campaign_id
+    AND p.topic = i.title;
+
+UPDATE ideas i
+SET status = 'used', used_at = NOW()
+WHERE EXISTS (SELECT 1 FROM posts p WHERE p.idea_id = i.id);
+
+UPDATE campaigns
+SET generation_settings = generation_settings - 'generated_ideas' - 'generated_idea_mix' - 'topics'
+WHERE generation_settings ?| ARRAY['generated_ideas', 'generated_idea_mix', 'topics'];
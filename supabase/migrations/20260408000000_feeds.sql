@@ -0,0 +1,48 @@
+-- News feeds
+-- Each space follows RSS/Atom feeds as material for the Hot Topics layer.
+-- fetch-feeds stores new items with a relevance score against the brand
+-- profile's services and audience. An item can be turned into an idea in the
+-- idea bank or drafted into a reaction post; feed_items keeps the link.
+
+CREATE TABLE IF NOT EXISTS feeds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    title TEXT,
+    site_url TEXT,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    -- Conditional GET validators from the last successful fetch
+    etag TEXT,
+    last_modified TEXT,
+    last_fetched_at TIMESTAMPTZ,
+    last_status TEXT CHECK (last_status IN ('ok', 'error')),
+    last_error TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT feeds_space_url_unique UNIQUE (space_id, url)
+);
+
+CREATE TABLE IF NOT EXISTS feed_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    feed_id UUID NOT NULL REFERENCES feeds(id) ON DELETE CASCADE,
+    guid TEXT NOT NULL,
+    title TEXT NOT NULL,
+    link TEXT,
+    summary TEXT,
+    author TEXT,
+    published_at TIMESTAMPTZ,
+    -- 0-1 match against the brand profile, and the services/audience words matched
+    relevance NUMERIC(4,3) NOT NULL DEFAULT 0,
+    matched_terms TEXT[] NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'idea', 'drafted', 'dismissed')),
+    idea_id UUID REFERENCES ideas(id) ON DELETE SET NULL,
+    post_id UUID REFERENCES posts(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT feed_items_feed_guid_unique UNIQUE (feed_id, guid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_items_space_status ON feed_items(space_id, status);
+CREATE INDEX IF NOT EXISTS idx_feed_items_space_published_at ON feed_items(space_id, published_at DESC);
@@ -0,0 +1,33 @@
+-- Post series
+-- Groups posts into a numbered series (e.g. a five-part case study).
+-- posts.sequence_number still records generation order within a campaign;
+-- series_part is the part's place in its series. A series can be planned from
+-- one source document and written part by part by a generate_series job; its
+-- spacing and time are used to schedule the parts as a block.
+
+CREATE TABLE IF NOT EXISTS post_series (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    description TEXT,
+    -- Narrative arc and per-part titles/summaries when planned from a document
+    plan JSONB NOT NULL DEFAULT '{}',
+    source_document_id UUID REFERENCES source_documents(id) ON DELETE SET NULL,
+    source_text TEXT,
+    spacing_days INTEGER NOT NULL DEFAULT 7 CHECK (spacing_days >= 1),
+    post_time TEXT NOT NULL DEFAULT '09:00',
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES post_series(id) ON DELETE SET NULL;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS series_part INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_post_series_space_id ON post_series(space_id);
+CREATE INDEX IF NOT EXISTS idx_posts_series_id_part ON posts(series_id, series_part);
+
+-- Series parts are written by a background job
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_type_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_type_check
+    CHECK (type IN ('generate_text', 'generate_image', 'compose_image', 'classify_posts', 'generate_series'));
@@ -0,0 +1,26 @@
+-- Training examples
+-- sharepoint-sync writes request/response pairs in the brand's voice for each
+-- synced document. Generation now reads them as few-shot examples, and they
+-- are reviewed in Brand Studio: an example starts 'pending', is edited or
+-- deleted as needed and marked 'approved'. Approved examples rank first for
+-- few-shot selection and make up the JSONL fine-tuning export.
+
+CREATE TABLE IF NOT EXISTS training_examples (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    system_prompt TEXT,
+    user_prompt TEXT NOT NULL,
+    assistant_response TEXT NOT NULL,
+    -- File name of the SharePoint document the example was written from
+    source_document TEXT,
+    category TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE training_examples
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved')),
+    ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_training_examples_space_status ON training_examples(space_id, status);
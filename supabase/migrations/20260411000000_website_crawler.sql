@@ -0,0 +1,49 @@
+-- Website crawler
+-- crawl-website honours robots.txt, seeds from sitemap.xml and follows links
+-- within each space's include/exclude patterns and depth. Pages are no longer
+-- deleted before a crawl: each keeps a hash of its text, so a recrawl only
+-- rewrites pages that changed and leaves confirmations and source chunks of
+-- the rest alone. website_crawls records what every crawl added, changed and
+-- removed.
+
+ALTER TABLE source_documents ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_source_documents_space_type_url ON source_documents(space_id, source_type, url);
+
+CREATE TABLE IF NOT EXISTS crawl_settings (
+    space_id UUID PRIMARY KEY REFERENCES spaces(id) ON DELETE CASCADE,
+    root_url TEXT,
+    -- Path patterns such as /services/* or /blog; an empty include list allows every path
+    include_patterns TEXT[] NOT NULL DEFAULT '{}',
+    exclude_patterns TEXT[] NOT NULL DEFAULT '{}',
+    max_depth INTEGER NOT NULL DEFAULT 3 CHECK (max_depth BETWEEN 0 AND 10),
+    max_pages INTEGER NOT NULL DEFAULT 50 CHECK (max_pages BETWEEN 1 AND 200),
+    use_sitemap BOOLEAN NOT NULL DEFAULT true,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS website_crawls (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    root_url TEXT NOT NULL,
+    -- The crawl_settings the crawl ran with
+    settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    robots_found BOOLEAN NOT NULL DEFAULT false,
+    sitemap_urls INTEGER NOT NULL DEFAULT 0,
+    pages_crawled INTEGER NOT NULL DEFAULT 0,
+    pages_added INTEGER NOT NULL DEFAULT 0,
+    pages_changed INTEGER NOT NULL DEFAULT 0,
+    pages_unchanged INTEGER NOT NULL DEFAULT 0,
+    pages_removed INTEGER NOT NULL DEFAULT 0,
+    -- Links skipped because robots.txt disallows them
+    pages_blocked INTEGER NOT NULL DEFAULT 0,
+    -- {added: [url], changed: [url], removed: [url]}
+    changes JSONB NOT NULL DEFAULT '{"added": [], "changed": [], "removed": []}'::jsonb,
+    error TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_website_crawls_space_started_at ON website_crawls(space_id, started_at DESC);
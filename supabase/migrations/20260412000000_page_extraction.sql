@@ -0,0 +1,7 @@
+-- Structured page extraction
+-- crawl-website now stores the main content of each page as Markdown, with
+-- navigation, banners and footers left out. What the page declares about
+-- itself - meta description, canonical URL, Open Graph tags, JSON-LD
+-- organisation data and the heading outline - is kept alongside.
+
+ALTER TABLE source_documents ADD COLUMN IF NOT EXISTS structured JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,45 @@
+-- Uploaded brand documents
+-- Brand Studio accepts PDF, DOCX, PPTX, Markdown and text files. Their text is
+-- read in the browser and stored by ingest-document as source_documents with
+-- source_type 'manual', then chunked like crawled pages. As with website
+-- pages, an upload is only retrieved for generation while it is confirmed,
+-- and campaigns include uploads when locked_source_settings.use_manual is on.
+
+CREATE INDEX IF NOT EXISTS idx_source_documents_space_type ON source_documents(space_id, source_type);
+
+CREATE OR REPLACE FUNCTION match_source_chunks(
+    p_space_id UUID,
+    p_query_embedding vector(1536),
+    p_match_count INTEGER DEFAULT 6,
+    p_source_types TEXT[] DEFAULT ARRAY['website', 'sharepoint', 'manual']
+)
+RETURNS TABLE (
+    id UUID,
+    document_id UUID,
+    chunk_index INTEGER,
+    content TEXT,
+    source_type TEXT,
+    title TEXT,
+    url TEXT,
+    similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+    SELECT
+        c.id,
+        c.document_id,
+        c.chunk_index,
+        c.content,
+        d.source_type,
+        d.title,
+        d.url,
+        1 - (c.embedding <=> p_query_embedding) AS similarity
+    FROM source_chunks c
+    JOIN source_documents d ON d.id = c.document_id
+    WHERE c.space_id = p_space_id
+      AND c.embedding IS NOT NULL
+      AND d.source_type = ANY(p_source_types)
+      AND (d.source_type NOT IN ('website', 'manual') OR d.is_confirmed = true)
+    ORDER BY c.embedding <=> p_query_embedding
+    LIMIT p_match_count;
+$$;
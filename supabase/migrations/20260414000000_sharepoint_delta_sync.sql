@@ -0,0 +1,81 @@
+-- SharePoint delta sync
+-- sharepoint-sync now addresses files by drive item ID and asks Microsoft
+-- Graph for the changes since the last sync (a delta link) instead of
+-- reprocessing the whole folder tree. The delta link and the folders inside
+-- the synced folder are kept per space, drive and folder. Each sync lists the
+-- files it will add, update or remove as sync_progress_files rows, so a long
+-- sync can be cancelled and resumed where it stopped.
+
+CREATE TABLE IF NOT EXISTS sync_progress (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    source_type TEXT NOT NULL,
+    source_path TEXT,
+    status TEXT NOT NULL DEFAULT 'processing',
+    total_documents INTEGER NOT NULL DEFAULT 0,
+    processed_documents INTEGER NOT NULL DEFAULT 0,
+    estimated_tokens INTEGER,
+    estimated_cost NUMERIC,
+    actual_tokens INTEGER,
+    actual_cost NUMERIC,
+    error_log JSONB NOT NULL DEFAULT '[]'::jsonb,
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE sync_progress
+    ADD COLUMN IF NOT EXISTS drive_id TEXT,
+    -- '' when the whole drive is synced
+    ADD COLUMN IF NOT EXISTS folder_id TEXT,
+    -- 'full' when there was no usable delta link, so every file was listed
+    ADD COLUMN IF NOT EXISTS sync_mode TEXT,
+    -- Saved to sharepoint_sync_state once every file is done
+    ADD COLUMN IF NOT EXISTS next_delta_link TEXT,
+    ADD COLUMN IF NOT EXISTS folders JSONB,
+    ADD COLUMN IF NOT EXISTS deleted_documents INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS skipped_documents INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS failed_documents INTEGER NOT NULL DEFAULT 0,
+    -- Updated after every file; a stale heartbeat means the sync stopped
+    ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_sync_progress_space ON sync_progress(space_id, created_at DESC);
+
+-- One row per file change in a sync
+CREATE TABLE IF NOT EXISTS sync_progress_files (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sync_id UUID NOT NULL REFERENCES sync_progress(id) ON DELETE CASCADE,
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    drive_item_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    parent_id TEXT,
+    size BIGINT,
+    ctag TEXT,
+    web_url TEXT,
+    change TEXT NOT NULL CHECK (change IN ('added', 'changed', 'deleted')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'skipped', 'failed')),
+    error TEXT,
+    document_id UUID REFERENCES source_documents(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (sync_id, drive_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_progress_files_sync_status ON sync_progress_files(sync_id, status);
+
+-- Where the next sync of a folder picks up
+CREATE TABLE IF NOT EXISTS sharepoint_sync_state (
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    drive_id TEXT NOT NULL,
+    folder_id TEXT NOT NULL DEFAULT '',
+    delta_link TEXT,
+    -- Folder item ID -> parent item ID for every folder inside the synced folder
+    folders JSONB NOT NULL DEFAULT '{}'::jsonb,
+    last_sync_id UUID REFERENCES sync_progress(id) ON DELETE SET NULL,
+    last_synced_at TIMESTAMPTZ,
+    PRIMARY KEY (space_id, drive_id, folder_id)
+);
+
+-- Synced documents are looked up by drive item ID
+CREATE INDEX IF NOT EXISTS idx_source_documents_drive_item
+    ON source_documents(space_id, (metadata->>'drive_item_id'))
+    WHERE source_type = 'sharepoint';
@@ -0,0 +1,22 @@
+-- Brand profile versions
+-- One row per save of a brand profile's content, from generate-brand-profile
+-- and from edits, merges and restores in Brand Studio, so versions can be
+-- compared and rolled back. author_email is kept for display because
+-- auth.users is not readable from the client.
+CREATE TABLE IF NOT EXISTS brand_profile_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    space_id UUID NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+    -- who_we_are, what_we_do, who_we_serve, tone_notes, themes and services
+    profile JSONB NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('ai_generation', 'manual_edit', 'ai_merge', 'restore')),
+    author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    author_email TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_brand_profile_versions_space_created ON brand_profile_versions(space_id, created_at DESC);
+
+-- A regeneration of a hand-edited profile is kept as a suggestion to merge
+-- instead of replacing it; cleared once merged or dismissed
+ALTER TABLE brand_profile
+    ADD COLUMN IF NOT EXISTS pending_suggestion_id UUID REFERENCES brand_profile_versions(id) ON DELETE SET NULL;
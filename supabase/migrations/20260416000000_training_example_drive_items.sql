@@ -0,0 +1,26 @@
+-- Training example drive items
+-- Training examples are tied to the SharePoint file they were written from by
+-- drive item ID, so sharepoint-sync can replace a changed file's examples and
+-- remove a deleted file's, instead of leaving its old text in few-shot prompts.
+
+ALTER TABLE training_examples
+    ADD COLUMN IF NOT EXISTS drive_item_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_training_examples_drive_item ON training_examples(space_id, drive_item_id);
+
+-- Existing examples only carry the file name; link them through the synced
+-- document of that name where there is exactly one
+UPDATE training_examples te
+SET drive_item_id = sd.metadata->>'drive_item_id'
+FROM source_documents sd
+WHERE te.drive_item_id IS NULL
+    AND sd.space_id = te.space_id
+    AND sd.source_type = 'sharepoint'
+    AND sd.title = te.source_document
+    AND sd.metadata->>'drive_item_id' IS NOT NULL
+    AND (
+        SELECT COUNT(*) FROM source_documents other
+        WHERE other.space_id = te.space_id
+            AND other.source_type = 'sharepoint'
+            AND other.title = te.source_document
+    ) = 1;
@@ -0,0 +1,14 @@
+-- Source document index failures
+-- A document that fails to index (e.g. the embedding call rejects it) stays
+-- unindexed. Recording the failure lets indexPendingDocuments try the other
+-- pending documents first and stop retrying one that keeps failing, instead
+-- of picking the same oldest documents on every call.
+
+ALTER TABLE source_documents
+    ADD COLUMN IF NOT EXISTS index_attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS index_error TEXT,
+    ADD COLUMN IF NOT EXISTS index_attempted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_source_documents_pending_index
+    ON source_documents(space_id, index_attempted_at NULLS FIRST, created_at)
+    WHERE indexed_at IS NULL;